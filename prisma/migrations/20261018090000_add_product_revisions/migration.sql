@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "public"."ProductRevision" (
+    "id" SERIAL NOT NULL,
+    "productId" INTEGER NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "revisionNumber" INTEGER NOT NULL,
+    "action" TEXT NOT NULL,
+    "changedFields" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "snapshot" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ProductRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProductRevision_productId_revisionNumber_key" ON "public"."ProductRevision"("productId", "revisionNumber");
+
+-- CreateIndex
+CREATE INDEX "ProductRevision_userId_createdAt_idx" ON "public"."ProductRevision"("userId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."ProductRevision" ADD CONSTRAINT "ProductRevision_productId_fkey" FOREIGN KEY ("productId") REFERENCES "public"."Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ProductRevision" ADD CONSTRAINT "ProductRevision_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
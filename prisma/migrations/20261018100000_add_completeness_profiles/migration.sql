@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "public"."CompletenessProfile" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "familyId" INTEGER,
+    "channel" TEXT NOT NULL DEFAULT 'default',
+    "connectionId" INTEGER,
+    "requireFamily" BOOLEAN NOT NULL DEFAULT true,
+    "requireMainImage" BOOLEAN NOT NULL DEFAULT false,
+    "minSubImages" INTEGER NOT NULL DEFAULT 0,
+    "requireCategory" BOOLEAN NOT NULL DEFAULT false,
+    "requireValidValues" BOOLEAN NOT NULL DEFAULT false,
+    "requiredAttributeIds" INTEGER[] DEFAULT ARRAY[]::INTEGER[],
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CompletenessProfile_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CompletenessProfile_userId_channel_idx" ON "public"."CompletenessProfile"("userId", "channel");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CompletenessProfile_name_userId_key" ON "public"."CompletenessProfile"("name", "userId");
+
+-- AddForeignKey
+ALTER TABLE "public"."CompletenessProfile" ADD CONSTRAINT "CompletenessProfile_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."CompletenessProfile" ADD CONSTRAINT "CompletenessProfile_familyId_fkey" FOREIGN KEY ("familyId") REFERENCES "public"."Family"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,51 @@
+-- AlterTable
+ALTER TABLE "public"."Attribute" ADD COLUMN     "isLocalizable" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "public"."WooCommerceExportMapping" ADD COLUMN     "locale" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."MyDealExportMapping" ADD COLUMN     "locale" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."ProductLocalization" (
+    "id" SERIAL NOT NULL,
+    "productId" INTEGER NOT NULL,
+    "locale" TEXT NOT NULL,
+    "name" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ProductLocalization_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."ProductAttributeLocalization" (
+    "id" SERIAL NOT NULL,
+    "productId" INTEGER NOT NULL,
+    "attributeId" INTEGER NOT NULL,
+    "locale" TEXT NOT NULL,
+    "value" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ProductAttributeLocalization_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProductLocalization_productId_locale_key" ON "public"."ProductLocalization"("productId", "locale");
+
+-- CreateIndex
+CREATE INDEX "ProductAttributeLocalization_productId_locale_idx" ON "public"."ProductAttributeLocalization"("productId", "locale");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProductAttributeLocalization_productId_attributeId_locale_key" ON "public"."ProductAttributeLocalization"("productId", "attributeId", "locale");
+
+-- AddForeignKey
+ALTER TABLE "public"."ProductLocalization" ADD CONSTRAINT "ProductLocalization_productId_fkey" FOREIGN KEY ("productId") REFERENCES "public"."Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ProductAttributeLocalization" ADD CONSTRAINT "ProductAttributeLocalization_productId_fkey" FOREIGN KEY ("productId") REFERENCES "public"."Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ProductAttributeLocalization" ADD CONSTRAINT "ProductAttributeLocalization_attributeId_fkey" FOREIGN KEY ("attributeId") REFERENCES "public"."Attribute"("id") ON DELETE CASCADE ON UPDATE CASCADE;
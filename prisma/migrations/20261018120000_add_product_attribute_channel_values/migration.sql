@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "public"."ProductAttributeChannelValue" (
+    "id" SERIAL NOT NULL,
+    "productId" INTEGER NOT NULL,
+    "attributeId" INTEGER NOT NULL,
+    "channel" TEXT NOT NULL,
+    "connectionId" INTEGER NOT NULL DEFAULT 0,
+    "value" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ProductAttributeChannelValue_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ProductAttributeChannelValue_channel_connectionId_idx" ON "public"."ProductAttributeChannelValue"("channel", "connectionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProductAttributeChannelValue_scope_key" ON "public"."ProductAttributeChannelValue"("productId", "attributeId", "channel", "connectionId");
+
+-- AddForeignKey
+ALTER TABLE "public"."ProductAttributeChannelValue" ADD CONSTRAINT "ProductAttributeChannelValue_productId_fkey" FOREIGN KEY ("productId") REFERENCES "public"."Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ProductAttributeChannelValue" ADD CONSTRAINT "ProductAttributeChannelValue_attributeId_fkey" FOREIGN KEY ("attributeId") REFERENCES "public"."Attribute"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "public"."ProductView" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "userId" INTEGER NOT NULL,
+    "createdById" INTEGER NOT NULL,
+    "isShared" BOOLEAN NOT NULL DEFAULT false,
+    "filters" JSONB NOT NULL DEFAULT '{}',
+    "sortBy" TEXT,
+    "sortOrder" TEXT NOT NULL DEFAULT 'desc',
+    "syncChannel" TEXT,
+    "syncConnectionId" INTEGER,
+    "syncCron" TEXT,
+    "syncEnabled" BOOLEAN NOT NULL DEFAULT false,
+    "lastSyncAt" TIMESTAMP(3),
+    "lastSyncStatus" TEXT,
+    "lastSyncMessage" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ProductView_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ProductView_userId_createdById_idx" ON "public"."ProductView"("userId", "createdById");
+
+-- CreateIndex
+CREATE INDEX "ProductView_syncEnabled_idx" ON "public"."ProductView"("syncEnabled");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProductView_name_userId_key" ON "public"."ProductView"("name", "userId");
+
+-- AddForeignKey
+ALTER TABLE "public"."ProductView" ADD CONSTRAINT "ProductView_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
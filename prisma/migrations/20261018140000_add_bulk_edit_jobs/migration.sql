@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "public"."BulkEditJob" (
+    "id" TEXT NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "createdById" INTEGER NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "operations" JSONB NOT NULL,
+    "productIds" INTEGER[],
+    "total" INTEGER NOT NULL DEFAULT 0,
+    "processed" INTEGER NOT NULL DEFAULT 0,
+    "updatedCount" INTEGER NOT NULL DEFAULT 0,
+    "unchangedCount" INTEGER NOT NULL DEFAULT 0,
+    "failedCount" INTEGER NOT NULL DEFAULT 0,
+    "results" JSONB NOT NULL DEFAULT '[]',
+    "message" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "BulkEditJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "BulkEditJob_userId_createdAt_idx" ON "public"."BulkEditJob"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "BulkEditJob_status_idx" ON "public"."BulkEditJob"("status");
+
+-- AddForeignKey
+ALTER TABLE "public"."BulkEditJob" ADD CONSTRAINT "BulkEditJob_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "public"."OperationJournal" (
+    "id" TEXT NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "createdById" INTEGER NOT NULL,
+    "type" TEXT NOT NULL,
+    "summary" TEXT NOT NULL,
+    "itemCount" INTEGER NOT NULL DEFAULT 0,
+    "snapshot" JSONB NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "undoneAt" TIMESTAMP(3),
+    "undoneById" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OperationJournal_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "OperationJournal_userId_createdAt_idx" ON "public"."OperationJournal"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "OperationJournal_expiresAt_idx" ON "public"."OperationJournal"("expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."OperationJournal" ADD CONSTRAINT "OperationJournal_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "public"."ProductAssociation" (
+    "id" SERIAL NOT NULL,
+    "productId" INTEGER NOT NULL,
+    "associatedProductId" INTEGER NOT NULL,
+    "type" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL DEFAULT 1,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ProductAssociation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProductAssociation_productId_associatedProductId_type_key" ON "public"."ProductAssociation"("productId", "associatedProductId", "type");
+
+-- CreateIndex
+CREATE INDEX "ProductAssociation_associatedProductId_idx" ON "public"."ProductAssociation"("associatedProductId");
+
+-- AddForeignKey
+ALTER TABLE "public"."ProductAssociation" ADD CONSTRAINT "ProductAssociation_productId_fkey" FOREIGN KEY ("productId") REFERENCES "public"."Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ProductAssociation" ADD CONSTRAINT "ProductAssociation_associatedProductId_fkey" FOREIGN KEY ("associatedProductId") REFERENCES "public"."Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
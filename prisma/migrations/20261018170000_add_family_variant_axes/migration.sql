@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "public"."FamilyAttribute" ADD COLUMN     "isVariantAxis" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "level" TEXT NOT NULL DEFAULT 'parent';
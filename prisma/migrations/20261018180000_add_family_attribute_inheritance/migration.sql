@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."FamilyAttribute" ADD COLUMN     "inheritance" TEXT NOT NULL DEFAULT 'override';
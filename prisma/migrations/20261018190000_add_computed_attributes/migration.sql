@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "public"."Attribute" ADD COLUMN     "computedExpression" TEXT,
+ADD COLUMN     "computedKind" TEXT;
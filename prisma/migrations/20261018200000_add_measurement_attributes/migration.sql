@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "public"."Attribute" ADD COLUMN     "defaultUnit" TEXT,
+ADD COLUMN     "unitFamily" TEXT;
@@ -0,0 +1,64 @@
+-- AlterTable
+ALTER TABLE "public"."MyDealConnection" ADD COLUMN     "priceListId" INTEGER;
+
+-- AlterTable
+ALTER TABLE "public"."UserIntegrationCredentials" ADD COLUMN     "priceListId" INTEGER;
+
+-- AlterTable
+ALTER TABLE "public"."WooCommerceConnection" ADD COLUMN     "priceListId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "public"."PriceList" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "currency" TEXT NOT NULL,
+    "description" TEXT,
+    "userId" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PriceList_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."ProductPrice" (
+    "id" SERIAL NOT NULL,
+    "priceListId" INTEGER NOT NULL,
+    "productId" INTEGER NOT NULL,
+    "minQuantity" INTEGER NOT NULL DEFAULT 1,
+    "price" DECIMAL(12,2) NOT NULL,
+    "salePrice" DECIMAL(12,2),
+    "saleStartsAt" TIMESTAMP(3),
+    "saleEndsAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ProductPrice_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PriceList_name_userId_key" ON "public"."PriceList"("name", "userId");
+
+-- CreateIndex
+CREATE INDEX "ProductPrice_productId_idx" ON "public"."ProductPrice"("productId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProductPrice_priceListId_productId_minQuantity_key" ON "public"."ProductPrice"("priceListId", "productId", "minQuantity");
+
+-- AddForeignKey
+ALTER TABLE "public"."UserIntegrationCredentials" ADD CONSTRAINT "UserIntegrationCredentials_priceListId_fkey" FOREIGN KEY ("priceListId") REFERENCES "public"."PriceList"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."WooCommerceConnection" ADD CONSTRAINT "WooCommerceConnection_priceListId_fkey" FOREIGN KEY ("priceListId") REFERENCES "public"."PriceList"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."MyDealConnection" ADD CONSTRAINT "MyDealConnection_priceListId_fkey" FOREIGN KEY ("priceListId") REFERENCES "public"."PriceList"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."PriceList" ADD CONSTRAINT "PriceList_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ProductPrice" ADD CONSTRAINT "ProductPrice_priceListId_fkey" FOREIGN KEY ("priceListId") REFERENCES "public"."PriceList"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ProductPrice" ADD CONSTRAINT "ProductPrice_productId_fkey" FOREIGN KEY ("productId") REFERENCES "public"."Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,96 @@
+-- CreateTable
+CREATE TABLE "public"."StockLocation" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "code" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "userId" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "StockLocation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."InventoryLevel" (
+    "id" SERIAL NOT NULL,
+    "productId" INTEGER NOT NULL,
+    "locationId" INTEGER NOT NULL,
+    "onHand" INTEGER NOT NULL DEFAULT 0,
+    "reserved" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "InventoryLevel_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."StockMovement" (
+    "id" SERIAL NOT NULL,
+    "productId" INTEGER NOT NULL,
+    "locationId" INTEGER NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "type" TEXT NOT NULL,
+    "onHandChange" INTEGER NOT NULL DEFAULT 0,
+    "reservedChange" INTEGER NOT NULL DEFAULT 0,
+    "onHandAfter" INTEGER NOT NULL,
+    "reservedAfter" INTEGER NOT NULL,
+    "reason" TEXT,
+    "reference" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "StockMovement_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."InventoryAllocation" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "channel" TEXT NOT NULL,
+    "connectionId" INTEGER NOT NULL DEFAULT 0,
+    "locationIds" INTEGER[] DEFAULT ARRAY[]::INTEGER[],
+    "percentage" INTEGER NOT NULL DEFAULT 100,
+    "bufferQuantity" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "InventoryAllocation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "StockLocation_name_userId_key" ON "public"."StockLocation"("name", "userId");
+
+-- CreateIndex
+CREATE INDEX "InventoryLevel_locationId_idx" ON "public"."InventoryLevel"("locationId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "InventoryLevel_productId_locationId_key" ON "public"."InventoryLevel"("productId", "locationId");
+
+-- CreateIndex
+CREATE INDEX "StockMovement_productId_createdAt_idx" ON "public"."StockMovement"("productId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "StockMovement_userId_createdAt_idx" ON "public"."StockMovement"("userId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "InventoryAllocation_userId_channel_connectionId_key" ON "public"."InventoryAllocation"("userId", "channel", "connectionId");
+
+-- AddForeignKey
+ALTER TABLE "public"."StockLocation" ADD CONSTRAINT "StockLocation_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."InventoryLevel" ADD CONSTRAINT "InventoryLevel_productId_fkey" FOREIGN KEY ("productId") REFERENCES "public"."Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."InventoryLevel" ADD CONSTRAINT "InventoryLevel_locationId_fkey" FOREIGN KEY ("locationId") REFERENCES "public"."StockLocation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."StockMovement" ADD CONSTRAINT "StockMovement_productId_fkey" FOREIGN KEY ("productId") REFERENCES "public"."Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."StockMovement" ADD CONSTRAINT "StockMovement_locationId_fkey" FOREIGN KEY ("locationId") REFERENCES "public"."StockLocation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."StockMovement" ADD CONSTRAINT "StockMovement_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."InventoryAllocation" ADD CONSTRAINT "InventoryAllocation_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,53 @@
+-- CreateTable
+CREATE TABLE "public"."ProductCategory" (
+    "id" SERIAL NOT NULL,
+    "productId" INTEGER NOT NULL,
+    "categoryId" INTEGER NOT NULL,
+    "isPrimary" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ProductCategory_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."ChannelCategoryMapping" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "channel" TEXT NOT NULL,
+    "connectionId" INTEGER NOT NULL,
+    "categoryId" INTEGER NOT NULL,
+    "externalCategoryId" INTEGER NOT NULL,
+    "externalCategoryName" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ChannelCategoryMapping_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ProductCategory_categoryId_idx" ON "public"."ProductCategory"("categoryId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProductCategory_productId_categoryId_key" ON "public"."ProductCategory"("productId", "categoryId");
+
+-- CreateIndex
+CREATE INDEX "ChannelCategoryMapping_categoryId_idx" ON "public"."ChannelCategoryMapping"("categoryId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ChannelCategoryMapping_userId_channel_connectionId_categoryId_key" ON "public"."ChannelCategoryMapping"("userId", "channel", "connectionId", "categoryId");
+
+-- AddForeignKey
+ALTER TABLE "public"."ProductCategory" ADD CONSTRAINT "ProductCategory_productId_fkey" FOREIGN KEY ("productId") REFERENCES "public"."Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ProductCategory" ADD CONSTRAINT "ProductCategory_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "public"."Category"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ChannelCategoryMapping" ADD CONSTRAINT "ChannelCategoryMapping_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ChannelCategoryMapping" ADD CONSTRAINT "ChannelCategoryMapping_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "public"."Category"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Existing single categories become the primary category assignment
+INSERT INTO "public"."ProductCategory" ("productId", "categoryId", "isPrimary")
+SELECT "id", "categoryId", true FROM "public"."Product" WHERE "categoryId" IS NOT NULL;
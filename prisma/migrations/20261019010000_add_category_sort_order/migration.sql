@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "public"."Category" ADD COLUMN     "sortOrder" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "public"."WooCommerceCategorySync" (
+    "id" SERIAL NOT NULL,
+    "connectionId" INTEGER NOT NULL,
+    "categoryId" INTEGER NOT NULL,
+    "wooCategoryId" INTEGER NOT NULL,
+    "lastSyncedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "WooCommerceCategorySync_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "WooCommerceCategorySync_categoryId_idx" ON "public"."WooCommerceCategorySync"("categoryId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WooCommerceCategorySync_connectionId_categoryId_key" ON "public"."WooCommerceCategorySync"("connectionId", "categoryId");
+
+-- AddForeignKey
+ALTER TABLE "public"."WooCommerceCategorySync" ADD CONSTRAINT "WooCommerceCategorySync_connectionId_fkey" FOREIGN KEY ("connectionId") REFERENCES "public"."WooCommerceConnection"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "public"."AttributeOption" (
+    "id" SERIAL NOT NULL,
+    "attributeId" INTEGER NOT NULL,
+    "code" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "labels" JSONB,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "swatchColor" TEXT,
+    "swatchImageUrl" TEXT,
+    "isDeprecated" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AttributeOption_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AttributeOption_attributeId_sortOrder_idx" ON "public"."AttributeOption"("attributeId", "sortOrder");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AttributeOption_attributeId_code_key" ON "public"."AttributeOption"("attributeId", "code");
+
+-- AddForeignKey
+ALTER TABLE "public"."AttributeOption" ADD CONSTRAINT "AttributeOption_attributeId_fkey" FOREIGN KEY ("attributeId") REFERENCES "public"."Attribute"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "public"."Attribute" ADD COLUMN     "allowedMimeTypes" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "isUnique" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "maxLength" INTEGER,
+ADD COLUMN     "maxValue" DOUBLE PRECISION,
+ADD COLUMN     "minLength" INTEGER,
+ADD COLUMN     "minValue" DOUBLE PRECISION,
+ADD COLUMN     "pattern" TEXT;
+
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "public"."BarcodeSettings" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "companyPrefix" TEXT NOT NULL,
+    "format" TEXT NOT NULL DEFAULT 'GTIN-13',
+    "attributeId" INTEGER,
+    "nextItemReference" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "BarcodeSettings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BarcodeSettings_userId_key" ON "public"."BarcodeSettings"("userId");
+
+-- AddForeignKey
+ALTER TABLE "public"."BarcodeSettings" ADD CONSTRAINT "BarcodeSettings_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."BarcodeSettings" ADD CONSTRAINT "BarcodeSettings_attributeId_fkey" FOREIGN KEY ("attributeId") REFERENCES "public"."Attribute"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "public"."Family" ADD COLUMN     "parentFamilyId" INTEGER;
+
+-- AlterTable
+ALTER TABLE "public"."FamilyAttribute" ADD COLUMN     "inheritedFromFamilyId" INTEGER,
+ADD COLUMN     "overrides" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- AddForeignKey
+ALTER TABLE "public"."Family" ADD CONSTRAINT "Family_parentFamilyId_fkey" FOREIGN KEY ("parentFamilyId") REFERENCES "public"."Family"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."ProductRevision" ADD COLUMN     "createdById" INTEGER;
@@ -20,6 +20,12 @@ import { IntegrationModule } from './integration/integration.module';
 import { ApiKeyModule } from './api-key/api-key.module';
 import { WebhookModule } from './webhook/webhook.module';
 import { ShareLinkModule } from './share-link/share-link.module';
+import { CompletenessModule } from './completeness/completeness.module';
+import { ProductViewModule } from './product-view/product-view.module';
+import { OperationJournalModule } from './operation-journal/operation-journal.module';
+import { PriceListModule } from './price-list/price-list.module';
+import { InventoryModule } from './inventory/inventory.module';
+import { BarcodeModule } from './barcode/barcode.module';
 import { EffectiveUserInterceptor } from './auth/interceptors/effective-user.interceptor';
 
 @Module({
@@ -46,7 +52,13 @@ import { EffectiveUserInterceptor } from './auth/interceptors/effective-user.int
     IntegrationModule,
     ApiKeyModule,
     WebhookModule,
-    ShareLinkModule
+    ShareLinkModule,
+    CompletenessModule,
+    ProductViewModule,
+    OperationJournalModule,
+    PriceListModule,
+    InventoryModule,
+    BarcodeModule
   ],
   controllers: [AppController],
   providers: [
@@ -4,6 +4,7 @@ import {
   Post,
   Body,
   Patch,
+  Put,
   Param,
   Delete,
   ParseIntPipe,
@@ -20,6 +21,8 @@ import { CreateAttributeDto } from './dto/create-attribute.dto';
 import { UpdateAttributeDto } from './dto/update-attribute.dto';
 import { AttributeFilterDto, AttributeGroupFilterDto } from './dto/attribute-filter.dto';
 import { BulkDeleteAttributeDto } from './dto/bulk-delete-attribute.dto';
+import { CreateAttributeOptionDto, UpdateAttributeOptionDto, ReorderAttributeOptionsDto } from './dto/attribute-option.dto';
+import { AttributeTypeChangeDto, ApplyAttributeTypeChangeDto } from './dto/attribute-type-change.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { OwnershipGuard } from '../auth/guards/ownership.guard';
 import { PermissionsGuard } from '../auth/guards/permissions.guard';
@@ -218,6 +221,39 @@ export class AttributeController {
     }
   }
 
+  @Post(':id/type-change/preview')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions({ resource: 'attributes', action: 'read' })
+  async previewTypeChange(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() typeChangeDto: AttributeTypeChangeDto,
+    @User() user: any,
+    @EffectiveUserId() effectiveUserId: number,
+  ) {
+    try {
+      return await this.attributeService.previewTypeChange(id, typeChangeDto, effectiveUserId);
+    } catch (error) {
+      return this.handleError(error, 'previewing type change of');
+    }
+  }
+
+  @Post(':id/type-change')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions({ resource: 'attributes', action: 'update' })
+  async changeType(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() typeChangeDto: ApplyAttributeTypeChangeDto,
+    @User() user: any,
+    @EffectiveUserId() effectiveUserId: number,
+  ) {
+    try {
+      this.logger.log(`Changing type of attribute ${id}: ${JSON.stringify(typeChangeDto)} for user: ${user.id}`);
+      return await this.attributeService.changeType(id, typeChangeDto, effectiveUserId);
+    } catch (error) {
+      return this.handleError(error, 'changing type of');
+    }
+  }
+
   @Delete(':id')
   @RequirePermissions({ resource: 'attributes', action: 'delete' })
   async remove(
@@ -232,6 +268,84 @@ export class AttributeController {
     }
   }
 
+  // Option list of a Dropdown or Multiselect attribute
+  @Get(':id/options')
+  @RequirePermissions({ resource: 'attributes', action: 'read' })
+  async getOptions(
+    @Param('id', ParseIntPipe) id: number,
+    @User() user: any,
+    @EffectiveUserId() effectiveUserId: number,
+  ) {
+    try {
+      return await this.attributeService.getOptions(id, effectiveUserId);
+    } catch (error) {
+      return this.handleError(error, 'fetching options of');
+    }
+  }
+
+  @Post(':id/options')
+  @RequirePermissions({ resource: 'attributes', action: 'update' })
+  async createOption(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() createOptionDto: CreateAttributeOptionDto,
+    @User() user: any,
+    @EffectiveUserId() effectiveUserId: number,
+  ) {
+    try {
+      this.logger.log(`Creating option on attribute ${id}: ${JSON.stringify(createOptionDto)} for user: ${user.id}`);
+      return await this.attributeService.createOption(id, createOptionDto, effectiveUserId);
+    } catch (error) {
+      return this.handleError(error, 'creating option of');
+    }
+  }
+
+  @Put(':id/options/order')
+  @RequirePermissions({ resource: 'attributes', action: 'update' })
+  async reorderOptions(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() reorderDto: ReorderAttributeOptionsDto,
+    @User() user: any,
+    @EffectiveUserId() effectiveUserId: number,
+  ) {
+    try {
+      return await this.attributeService.reorderOptions(id, reorderDto, effectiveUserId);
+    } catch (error) {
+      return this.handleError(error, 'reordering options of');
+    }
+  }
+
+  @Patch(':id/options/:optionId')
+  @RequirePermissions({ resource: 'attributes', action: 'update' })
+  async updateOption(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('optionId', ParseIntPipe) optionId: number,
+    @Body() updateOptionDto: UpdateAttributeOptionDto,
+    @User() user: any,
+    @EffectiveUserId() effectiveUserId: number,
+  ) {
+    try {
+      this.logger.log(`Updating option ${optionId} of attribute ${id}: ${JSON.stringify(updateOptionDto)} for user: ${user.id}`);
+      return await this.attributeService.updateOption(id, optionId, updateOptionDto, effectiveUserId);
+    } catch (error) {
+      return this.handleError(error, 'updating option of');
+    }
+  }
+
+  @Delete(':id/options/:optionId')
+  @RequirePermissions({ resource: 'attributes', action: 'update' })
+  async removeOption(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('optionId', ParseIntPipe) optionId: number,
+    @User() user: any,
+    @EffectiveUserId() effectiveUserId: number,
+  ) {
+    try {
+      return await this.attributeService.removeOption(id, optionId, effectiveUserId);
+    } catch (error) {
+      return this.handleError(error, 'deleting option of');
+    }
+  }
+
   @Post('bulk-delete')
   @HttpCode(HttpStatus.OK)
   @RequirePermissions({ resource: 'attributes', action: 'delete' })
@@ -242,7 +356,7 @@ export class AttributeController {
   ) {
     try {
       this.logger.log(`Bulk deleting attributes for user: ${user.id}`);
-      return await this.attributeService.bulkDelete(bulkDeleteDto, effectiveUserId);
+      return await this.attributeService.bulkDelete(bulkDeleteDto, effectiveUserId, user.id);
     } catch (error) {
       return this.handleError(error, 'bulk deleting');
     }
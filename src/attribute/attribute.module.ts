@@ -2,16 +2,21 @@ import { Module } from '@nestjs/common';
 import { AttributeService } from './attribute.service';
 import { AttributeController } from './attribute.controller';
 import { AttributeValueValidator } from './validators/attribute-value.validator';
+import { AttributeConstraintValidator } from './validators/attribute-constraint.validator';
+import { AttributeTypeChangeService } from './services/attribute-type-change.service';
 import { PrismaModule } from '../prisma/prisma.module';
 import { NotificationModule } from '../notification/notification.module';
+import { OperationJournalModule } from '../operation-journal/operation-journal.module';
 
 @Module({
-  imports: [PrismaModule, NotificationModule],
+  imports: [PrismaModule, NotificationModule, OperationJournalModule],
   controllers: [AttributeController],
   providers: [
     AttributeService,
     AttributeValueValidator,
+    AttributeConstraintValidator,
+    AttributeTypeChangeService,
   ],
-  exports: [AttributeService, AttributeValueValidator],
+  exports: [AttributeService, AttributeValueValidator, AttributeConstraintValidator],
 })
 export class AttributeModule {}
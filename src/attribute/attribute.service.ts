@@ -1,6 +1,8 @@
 import { Injectable, NotFoundException, ConflictException, ForbiddenException, BadRequestException, Logger, Inject, Optional } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
 import { NotificationService } from '../notification/notification.service';
+import { OperationJournalService } from '../operation-journal/operation-journal.service';
+import { OperationType } from '../operation-journal/dto';
 import { CreateAttributeDto } from './dto/create-attribute.dto';
 import { UpdateAttributeDto } from './dto/update-attribute.dto';
 import { AttributeResponseDto } from './dto/attribute-response.dto';
@@ -10,7 +12,20 @@ import { AttributeValueValidator } from './validators/attribute-value.validator'
 import { PaginatedResponse, PaginationUtils } from '../common';
 import type { Attribute } from '@prisma/client';
 import { AttributeType } from '../types/attribute-type.enum';
+import { ComputedAttributeHelper, ComputedAttributeKind } from '../utils/computed-attribute.helper';
+import { MeasurementHelper, UnitFamily } from '../utils/measurement.helper';
 import { UserAttributeType, storageTypeToUserType, userTypeToStorageType } from '../types/user-attribute-type.enum';
+import { AttributeOptionHelper } from '../utils/attribute-option.helper';
+import { LocaleHelper } from '../utils/locale.helper';
+import { AttributeRuleHelper, AttributeRules, StoredAttributeRules } from '../utils/attribute-rule.helper';
+import { CreateAttributeOptionDto, UpdateAttributeOptionDto, ReorderAttributeOptionsDto, AttributeOptionResponseDto } from './dto/attribute-option.dto';
+import { AttributeTypeChangeDto, ApplyAttributeTypeChangeDto, AttributeTypeChangePreviewDto, AttributeTypeChangeResultDto, FailedValueAction } from './dto/attribute-type-change.dto';
+import { AttributeTypeChangeService } from './services/attribute-type-change.service';
+
+// Attribute types whose values can be restricted to a managed option list
+const OPTION_ATTRIBUTE_TYPES: string[] = [AttributeType.ENUM, AttributeType.ARRAY];
+
+const RULE_FIELDS = ['minValue', 'maxValue', 'minLength', 'maxLength', 'pattern', 'allowedMimeTypes', 'isUnique'] as const;
 
 @Injectable()
 export class AttributeService {
@@ -20,6 +35,8 @@ export class AttributeService {
     private readonly prisma: PrismaService,
     private readonly validator: AttributeValueValidator,
     private readonly notificationService: NotificationService,
+    private readonly operationJournalService: OperationJournalService,
+    private readonly attributeTypeChangeService: AttributeTypeChangeService,
     @Optional() @Inject('CACHE_MANAGER') private cacheManager?: any
   ) {}
 
@@ -27,17 +44,39 @@ export class AttributeService {
     try {
       this.logger.log(`Creating attribute: ${createAttributeDto.name} for user: ${userId}`);
       
-      // Validate and process the default value
-      const processedDefaultValue = this.validator.validateAndStringify(
-        createAttributeDto.type, 
-        createAttributeDto.defaultValue
+      const unitSettings = this.resolveUnitSettings(
+        createAttributeDto.type,
+        createAttributeDto.unitFamily,
+        createAttributeDto.defaultUnit,
       );
+
+      // Validate and process the default value
+      const processedDefaultValue = createAttributeDto.type === AttributeType.MEASUREMENT
+        ? this.validator.validateMeasurement(createAttributeDto.defaultValue, unitSettings.unitFamily, unitSettings.defaultUnit)
+        : this.validator.validateAndStringify(
+          createAttributeDto.type, 
+          createAttributeDto.defaultValue
+        );
+
+      if (createAttributeDto.computedKind) {
+        this.validateComputedExpression(createAttributeDto.computedKind, createAttributeDto.computedExpression);
+      }
+
+      const rules = this.resolveValidationRules(createAttributeDto.type, createAttributeDto);
+      if (processedDefaultValue !== null) {
+        this.validator.validateRules(createAttributeDto.type, processedDefaultValue, rules);
+      }
       
       const result = await this.prisma.attribute.create({
         data: {
           name: createAttributeDto.name,
           type: createAttributeDto.type,
           defaultValue: processedDefaultValue,
+          isLocalizable: createAttributeDto.isLocalizable ?? false,
+          computedKind: createAttributeDto.computedKind ?? null,
+          computedExpression: createAttributeDto.computedKind ? createAttributeDto.computedExpression?.trim() ?? null : null,
+          ...unitSettings,
+          ...rules,
           userId,
         },
       });
@@ -361,7 +400,8 @@ export class AttributeService {
                 select: { id: true, name: true, description: true }
               }
             }
-          }
+          },
+          options: AttributeOptionHelper.include(),
         }
       });
 
@@ -402,16 +442,112 @@ export class AttributeService {
       }
       
       if (updateAttributeDto.type !== undefined) {
+        // Option lists only apply to Dropdown and Multiselect attributes
+        if (!OPTION_ATTRIBUTE_TYPES.includes(updateAttributeDto.type)) {
+          const optionCount = await this.prisma.attributeOption.count({ where: { attributeId: id } });
+          if (optionCount > 0) {
+            throw new BadRequestException(`Remove the ${optionCount} options before changing the attribute to ${updateAttributeDto.type}`);
+          }
+        }
         updateData.type = updateAttributeDto.type;
       }
       
+      // Unit settings apply to MEASUREMENT attributes and are cleared for other types
+      let unitSettings: { unitFamily: string | null; defaultUnit: string | null } | undefined;
+      if (updateAttributeDto.type !== undefined || updateAttributeDto.unitFamily !== undefined || updateAttributeDto.defaultUnit !== undefined) {
+        const current = await this.prisma.attribute.findUnique({
+          where: { id },
+          select: { type: true, unitFamily: true, defaultUnit: true },
+        });
+        unitSettings = this.resolveUnitSettings(
+          updateAttributeDto.type ?? (current?.type as AttributeType),
+          updateAttributeDto.unitFamily !== undefined ? updateAttributeDto.unitFamily : current?.unitFamily,
+          updateAttributeDto.defaultUnit !== undefined ? updateAttributeDto.defaultUnit : current?.defaultUnit,
+        );
+        Object.assign(updateData, unitSettings);
+
+        // A plain type change must leave every stored value as it is
+        if (updateAttributeDto.type !== undefined && updateAttributeDto.type !== current?.type) {
+          const { preview } = await this.attributeTypeChangeService.analyze(id, { type: updateAttributeDto.type, ...unitSettings }, userId);
+          if (preview.total > preview.unchanged) {
+            throw new BadRequestException(
+              `${preview.total - preview.unchanged} existing value(s) would change or fail under ${updateAttributeDto.type}. ` +
+              `Preview the conversion with POST /attributes/${id}/type-change/preview and apply it with POST /attributes/${id}/type-change`,
+            );
+          }
+        }
+      }
+
       if (updateAttributeDto.defaultValue !== undefined) {
         // Get the current or new type for validation
         const typeForValidation = updateAttributeDto.type || await this.getAttributeType(id);
-        updateData.defaultValue = this.validator.validateAndStringify(
-          typeForValidation,
-          updateAttributeDto.defaultValue
-        );
+        if (typeForValidation === AttributeType.MEASUREMENT) {
+          unitSettings ??= await this.prisma.attribute.findUnique({
+            where: { id },
+            select: { unitFamily: true, defaultUnit: true },
+          }) ?? undefined;
+          updateData.defaultValue = this.validator.validateMeasurement(
+            updateAttributeDto.defaultValue,
+            unitSettings?.unitFamily,
+            unitSettings?.defaultUnit,
+          );
+        } else {
+          const options = OPTION_ATTRIBUTE_TYPES.includes(typeForValidation)
+            ? await this.prisma.attributeOption.findMany({ where: { attributeId: id }, ...AttributeOptionHelper.include() })
+            : [];
+          updateData.defaultValue = this.validator.validateOptions(
+            typeForValidation,
+            updateAttributeDto.defaultValue,
+            options
+          );
+        }
+      }
+
+      if (updateAttributeDto.isLocalizable !== undefined) {
+        updateData.isLocalizable = updateAttributeDto.isLocalizable;
+      }
+
+      if (updateAttributeDto.computedKind !== undefined || updateAttributeDto.computedExpression !== undefined) {
+        const current = await this.prisma.attribute.findUnique({
+          where: { id },
+          select: { computedKind: true, computedExpression: true },
+        });
+        const computedKind = updateAttributeDto.computedKind !== undefined ? updateAttributeDto.computedKind : current?.computedKind;
+        const computedExpression = updateAttributeDto.computedExpression !== undefined ? updateAttributeDto.computedExpression : current?.computedExpression;
+
+        if (computedKind) {
+          this.validateComputedExpression(computedKind as ComputedAttributeKind, computedExpression);
+        }
+        updateData.computedKind = computedKind ?? null;
+        updateData.computedExpression = computedKind ? computedExpression?.trim() ?? null : null;
+      }
+
+      if (RULE_FIELDS.some(field => updateAttributeDto[field] !== undefined) || updateAttributeDto.type !== undefined) {
+        const current = await this.prisma.attribute.findUnique({
+          where: { id },
+          select: { type: true, ...AttributeRuleHelper.select() },
+        });
+        const rules: AttributeRules = { ...current };
+        for (const field of RULE_FIELDS) {
+          if (updateAttributeDto[field] !== undefined) rules[field] = updateAttributeDto[field] as any;
+        }
+        Object.assign(updateData, this.resolveValidationRules(updateAttributeDto.type ?? (current?.type as AttributeType), rules));
+
+        // Products in the recycle bin count, as they can be restored
+        if (updateData.isUnique && !current?.isUnique) {
+          const duplicates = await this.prisma.productAttribute.groupBy({
+            by: ['value'],
+            where: { attributeId: id, value: { not: null } },
+            having: { value: { _count: { gt: 1 } } },
+            orderBy: { value: 'asc' },
+            take: 5,
+          });
+          if (duplicates.length > 0) {
+            throw new ConflictException(
+              `Cannot make the attribute unique: several products share the values ${duplicates.map(d => `"${d.value}"`).join(', ')}`,
+            );
+          }
+        }
       }
 
       const result = await this.prisma.attribute.update({
@@ -437,6 +573,42 @@ export class AttributeService {
     }
   }
 
+  /**
+   * Report what would happen to every stored value if the attribute changed
+   * type: converted as is, converted with loss, or failing
+   */
+  async previewTypeChange(id: number, dto: AttributeTypeChangeDto, userId: number): Promise<AttributeTypeChangePreviewDto> {
+    const { preview } = await this.planTypeChange(id, dto, userId);
+    return preview;
+  }
+
+  /**
+   * Change the attribute type and convert its stored values in one transaction
+   */
+  async changeType(id: number, dto: ApplyAttributeTypeChangeDto, userId: number): Promise<AttributeTypeChangeResultDto> {
+    const plan = await this.planTypeChange(id, dto, userId);
+    const result = await this.attributeTypeChangeService.apply(plan, dto.failedValues ?? FailedValueAction.REJECT, dto.sideAttributeName, userId);
+
+    await this.invalidateUserCache(userId);
+    await this.invalidateAttributeCache(id, userId);
+    await this.notificationService.logAttributeUpdate(userId, plan.attribute.name, id);
+    if (result.sideAttributeId) {
+      await this.notificationService.logAttributeCreation(userId, result.sideAttributeName!, result.sideAttributeId);
+    }
+
+    return result;
+  }
+
+  private async planTypeChange(id: number, dto: AttributeTypeChangeDto, userId: number) {
+    const attribute = await this.findOne(id, userId);
+    if (dto.type === attribute.type && dto.type !== AttributeType.MEASUREMENT) {
+      throw new BadRequestException(`Attribute "${attribute.name}" is already ${dto.type}`);
+    }
+
+    const unitSettings = this.resolveUnitSettings(dto.type, dto.unitFamily, dto.defaultUnit);
+    return this.attributeTypeChangeService.analyze(id, { type: dto.type, ...unitSettings }, userId);
+  }
+
   async remove(id: number, userId: number): Promise<{ message: string }> {
     try {
       // Verify ownership first and get the attribute name for notification
@@ -468,7 +640,180 @@ export class AttributeService {
     }
   }
 
+  async getOptions(attributeId: number, userId: number): Promise<AttributeOptionResponseDto[]> {
+    await this.getOptionAttribute(attributeId, userId);
+
+    const options = await this.prisma.attributeOption.findMany({
+      where: { attributeId },
+      ...AttributeOptionHelper.include(),
+    });
+    return options.map(option => AttributeOptionResponseDto.fromEntity(option));
+  }
+
+  async createOption(attributeId: number, dto: CreateAttributeOptionDto, userId: number): Promise<AttributeOptionResponseDto> {
+    const attribute = await this.getOptionAttribute(attributeId, userId);
+
+    const code = dto.code ?? AttributeOptionHelper.toCode(dto.label);
+    if (!AttributeOptionHelper.CODE_PATTERN.test(code)) {
+      throw new BadRequestException(`Cannot derive an option code from "${dto.label}". Provide a code.`);
+    }
+
+    const existing = await this.prisma.attributeOption.findUnique({
+      where: { attributeId_code: { attributeId, code } },
+      select: { id: true },
+    });
+    if (existing) {
+      throw new ConflictException(`Option "${code}" already exists on attribute "${attribute.name}"`);
+    }
+
+    const sortOrder = dto.sortOrder ?? await this.prisma.attributeOption.count({ where: { attributeId } });
+    const option = await this.prisma.attributeOption.create({
+      data: {
+        attributeId,
+        code,
+        label: dto.label,
+        labels: this.normalizeOptionLabels(dto.labels),
+        sortOrder,
+        swatchColor: dto.swatchColor ?? null,
+        swatchImageUrl: dto.swatchImageUrl ?? null,
+      },
+    });
+
+    // Dropdown values typed before the option existed now refer to it by code
+    if ((attribute.type as AttributeType) === AttributeType.ENUM) {
+      const { count } = await this.prisma.productAttribute.updateMany({
+        where: { attributeId, value: { in: [dto.label, code], mode: 'insensitive' } },
+        data: { value: code },
+      });
+      if (count > 0) {
+        this.logger.log(`Linked ${count} existing product values to option "${code}" of attribute ${attributeId}`);
+      }
+    }
+
+    this.logger.log(`Created option "${code}" on attribute ${attributeId} for user: ${userId}`);
+    await this.invalidateAttributeCache(attributeId, userId);
+    return AttributeOptionResponseDto.fromEntity(option);
+  }
+
+  async updateOption(attributeId: number, optionId: number, dto: UpdateAttributeOptionDto, userId: number): Promise<AttributeOptionResponseDto> {
+    await this.getOptionAttribute(attributeId, userId);
+    await this.getOption(attributeId, optionId);
+
+    const option = await this.prisma.attributeOption.update({
+      where: { id: optionId },
+      data: {
+        ...(dto.label !== undefined && { label: dto.label }),
+        ...(dto.labels !== undefined && { labels: this.normalizeOptionLabels(dto.labels) }),
+        ...(dto.sortOrder !== undefined && { sortOrder: dto.sortOrder }),
+        ...(dto.swatchColor !== undefined && { swatchColor: dto.swatchColor }),
+        ...(dto.swatchImageUrl !== undefined && { swatchImageUrl: dto.swatchImageUrl }),
+        ...(dto.isDeprecated !== undefined && { isDeprecated: dto.isDeprecated }),
+      },
+    });
+
+    this.logger.log(`Updated option "${option.code}" on attribute ${attributeId} for user: ${userId}`);
+    await this.invalidateAttributeCache(attributeId, userId);
+    return AttributeOptionResponseDto.fromEntity(option);
+  }
+
+  /**
+   * Delete an option no product uses. Options in use can be deprecated instead,
+   * which keeps them on existing products.
+   */
+  async removeOption(attributeId: number, optionId: number, userId: number): Promise<{ message: string }> {
+    const attribute = await this.getOptionAttribute(attributeId, userId);
+    const option = await this.getOption(attributeId, optionId);
+
+    // Multiselect values are stored as JSON arrays of codes
+    const usage = await this.prisma.productAttribute.count({
+      where: {
+        attributeId,
+        ...((attribute.type as AttributeType) === AttributeType.ARRAY
+          ? { value: { contains: JSON.stringify(option.code) } }
+          : { value: option.code }),
+      },
+    });
+    if (usage > 0) {
+      throw new ConflictException(`Option "${option.code}" is used by ${usage} products. Deprecate it instead of deleting it.`);
+    }
+
+    await this.prisma.attributeOption.delete({ where: { id: optionId } });
+
+    this.logger.log(`Deleted option "${option.code}" from attribute ${attributeId} for user: ${userId}`);
+    await this.invalidateAttributeCache(attributeId, userId);
+    return { message: `Option "${option.code}" successfully deleted` };
+  }
+
+  async reorderOptions(attributeId: number, dto: ReorderAttributeOptionsDto, userId: number): Promise<AttributeOptionResponseDto[]> {
+    await this.getOptionAttribute(attributeId, userId);
+
+    const options = await this.prisma.attributeOption.findMany({
+      where: { attributeId },
+      ...AttributeOptionHelper.include(),
+      select: { id: true },
+    });
+    const optionIds = new Set(options.map(option => option.id));
+    const unknown = dto.optionIds.filter(id => !optionIds.has(id));
+    if (unknown.length > 0) {
+      throw new BadRequestException(`Options ${unknown.join(', ')} do not belong to attribute ${attributeId}`);
+    }
+
+    const ordered = Array.from(new Set(dto.optionIds));
+    const rest = options.map(option => option.id).filter(id => !ordered.includes(id));
+    await this.prisma.$transaction(
+      [...ordered, ...rest].map((id, index) =>
+        this.prisma.attributeOption.update({ where: { id }, data: { sortOrder: index } }),
+      ),
+    );
+
+    this.logger.log(`Reordered ${ordered.length} options on attribute ${attributeId} for user: ${userId}`);
+    await this.invalidateAttributeCache(attributeId, userId);
+    return this.getOptions(attributeId, userId);
+  }
+
   // Helper methods
+  private async getOptionAttribute(attributeId: number, userId: number): Promise<{ id: number; name: string; type: string }> {
+    const attribute = await this.prisma.attribute.findFirst({
+      where: { id: attributeId, userId },
+      select: { id: true, name: true, type: true },
+    });
+    if (!attribute) {
+      throw new NotFoundException(`Attribute with ID ${attributeId} not found or access denied`);
+    }
+    if (!OPTION_ATTRIBUTE_TYPES.includes(attribute.type)) {
+      throw new BadRequestException(`Attribute "${attribute.name}" is not a Dropdown or Multiselect attribute and has no options`);
+    }
+    return attribute;
+  }
+
+  private async getOption(attributeId: number, optionId: number) {
+    const option = await this.prisma.attributeOption.findFirst({
+      where: { id: optionId, attributeId },
+    });
+    if (!option) {
+      throw new NotFoundException(`Option with ID ${optionId} not found on attribute ${attributeId}`);
+    }
+    return option;
+  }
+
+  // Keys are normalized locales; empty labels are dropped
+  private normalizeOptionLabels(labels: Record<string, string> | undefined): Record<string, string> | undefined {
+    if (!labels) return undefined;
+
+    const normalized: Record<string, string> = {};
+    for (const [locale, label] of Object.entries(labels)) {
+      const tag = LocaleHelper.normalize(locale);
+      if (!tag) {
+        throw new BadRequestException(`Invalid locale "${locale}" in option labels`);
+      }
+      if (typeof label !== 'string') {
+        throw new BadRequestException(`Option label for locale "${locale}" must be a string`);
+      }
+      if (label.trim()) normalized[tag] = label.trim();
+    }
+    return normalized;
+  }
+
   private transformAttributeForResponse(attribute: any): AttributeResponseDto {
     // Use the static factory method from the DTO
     const dto = AttributeResponseDto.fromEntity(attribute);
@@ -482,6 +827,56 @@ export class AttributeService {
     return dto;
   }
 
+  private resolveUnitSettings(
+    type: AttributeType,
+    unitFamily: string | null | undefined,
+    defaultUnit: string | null | undefined,
+  ): { unitFamily: string | null; defaultUnit: string | null } {
+    if (type !== AttributeType.MEASUREMENT) {
+      return { unitFamily: null, defaultUnit: null };
+    }
+    if (!unitFamily) {
+      throw new BadRequestException(`MEASUREMENT attributes need a unitFamily: ${Object.values(UnitFamily).join(', ')}`);
+    }
+    if (!defaultUnit) {
+      return { unitFamily, defaultUnit: null };
+    }
+
+    const unit = MeasurementHelper.normalizeUnit(defaultUnit);
+    if (!unit || MeasurementHelper.familyOf(unit) !== (unitFamily as UnitFamily)) {
+      throw new BadRequestException(
+        `defaultUnit must be a ${unitFamily} unit: ${MeasurementHelper.unitsOf(unitFamily as UnitFamily).join(', ')}`,
+      );
+    }
+    return { unitFamily, defaultUnit: unit };
+  }
+
+  // Rule columns to store; rules must suit the attribute type
+  private resolveValidationRules(type: AttributeType, rules: AttributeRules): StoredAttributeRules {
+    const resolved: StoredAttributeRules = {
+      minValue: rules.minValue ?? null,
+      maxValue: rules.maxValue ?? null,
+      minLength: rules.minLength ?? null,
+      maxLength: rules.maxLength ?? null,
+      pattern: rules.pattern?.trim() || null,
+      allowedMimeTypes: rules.allowedMimeTypes ?? [],
+      isUnique: rules.isUnique ?? false,
+    };
+
+    const error = AttributeRuleHelper.validateRules(type, resolved);
+    if (error) {
+      throw new BadRequestException(error);
+    }
+    return resolved;
+  }
+
+  private validateComputedExpression(kind: ComputedAttributeKind, expression: string | null | undefined): void {
+    const error = ComputedAttributeHelper.validateExpression(kind, expression);
+    if (error) {
+      throw new BadRequestException(error);
+    }
+  }
+
   private async getAttributeType(id: number): Promise<AttributeType> {
     const attribute = await this.prisma.attribute.findUnique({
       where: { id },
@@ -549,6 +944,20 @@ export class AttributeService {
     try {
       this.logger.log(`Getting attribute suggestions for attribute ${attributeId}, query: ${query}, excluding product ${productId}, user: ${userId}`);
 
+      // Attributes with an option list suggest their assignable options
+      const options = await this.prisma.attributeOption.findMany({
+        where: { attributeId, attribute: { userId } },
+        ...AttributeOptionHelper.include(),
+      });
+      if (options.length > 0) {
+        const lower = query.toLowerCase();
+        return options
+          .filter(option => !option.isDeprecated)
+          .filter(option => option.code.startsWith(lower) || option.label.toLowerCase().startsWith(lower))
+          .slice(0, 20)
+          .map(option => option.code);
+      }
+
       // Optimize: Use direct database query with indexing support
       // This approach leverages Prisma's query optimization and database indexes
       const productAttributes = await this.prisma.productAttribute.findMany({
@@ -584,7 +993,7 @@ export class AttributeService {
     }
   }
 
-  async bulkDelete(bulkDeleteDto: BulkDeleteAttributeDto, userId: number): Promise<{ deletedCount: number; message: string }> {
+  async bulkDelete(bulkDeleteDto: BulkDeleteAttributeDto, userId: number, actingUserId: number = userId): Promise<{ deletedCount: number; message: string; operationId: string | null }> {
     try {
       let attributeIds: number[] = [];
 
@@ -639,10 +1048,15 @@ export class AttributeService {
       if (attributeIds.length === 0) {
         return { 
           deletedCount: 0, 
-          message: 'No attributes to delete' 
+          message: 'No attributes to delete',
+          operationId: null
         };
       }
 
+      // Keep every row the database deletes with the attributes (group and family links,
+      // product values, localized and channel values) so the deletion can be undone
+      const snapshot = await this.operationJournalService.snapshotAttributes(attributeIds, userId);
+
       // Delete all attributes with the given IDs
       const deleteResult = await this.prisma.attribute.deleteMany({
         where: { 
@@ -656,9 +1070,19 @@ export class AttributeService {
 
       this.logger.log(`Successfully deleted ${deleteResult.count} attribute(s)`);
 
+      const operationId = await this.operationJournalService.record(
+        userId,
+        actingUserId,
+        OperationType.ATTRIBUTE_BULK_DELETE,
+        `Deleted ${deleteResult.count} attribute(s)`,
+        deleteResult.count,
+        snapshot,
+      );
+
       return { 
         deletedCount: deleteResult.count, 
-        message: `Successfully deleted ${deleteResult.count} attribute(s)` 
+        message: `Successfully deleted ${deleteResult.count} attribute(s)`,
+        operationId
       };
     } catch (error) {
       this.logger.error(`Failed to bulk delete: ${error.message}`, error.stack);
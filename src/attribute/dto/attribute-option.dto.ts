@@ -0,0 +1,133 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsInt,
+  Min,
+  Length,
+  Matches,
+  IsBoolean,
+  IsObject,
+  IsArray,
+  ArrayNotEmpty,
+  IsUrl,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { AttributeOptionHelper } from '../../utils/attribute-option.helper';
+
+export class CreateAttributeOptionDto {
+  // Derived from the label when omitted; cannot be changed afterwards
+  @IsOptional()
+  @IsString()
+  @Length(1, 50, { message: 'Option code must be between 1 and 50 characters' })
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim() : value))
+  @Matches(AttributeOptionHelper.CODE_PATTERN, {
+    message:
+      'Option code can only contain lowercase letters, numbers, hyphens and underscores',
+  })
+  code?: string;
+
+  @IsString()
+  @IsNotEmpty({ message: 'Option label is required' })
+  @Length(1, 100, {
+    message: 'Option label must be between 1 and 100 characters',
+  })
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim() : value))
+  label: string;
+
+  // Localized labels keyed by locale, e.g. { "de": "Rot" }
+  @IsOptional()
+  @IsObject({ message: 'labels must be an object keyed by locale' })
+  labels?: Record<string, string>;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  sortOrder?: number;
+
+  @IsOptional()
+  @Matches(/^#([0-9a-fA-F]{3}|[0-9a-fA-F]{6})$/, {
+    message: 'swatchColor must be a hex color, e.g. #FF0000',
+  })
+  swatchColor?: string | null;
+
+  @IsOptional()
+  @IsUrl({}, { message: 'swatchImageUrl must be a valid URL' })
+  swatchImageUrl?: string | null;
+}
+
+export class UpdateAttributeOptionDto {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty({ message: 'Option label cannot be empty' })
+  @Length(1, 100, {
+    message: 'Option label must be between 1 and 100 characters',
+  })
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim() : value))
+  label?: string;
+
+  @IsOptional()
+  @IsObject({ message: 'labels must be an object keyed by locale' })
+  labels?: Record<string, string>;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  sortOrder?: number;
+
+  @IsOptional()
+  @Matches(/^#([0-9a-fA-F]{3}|[0-9a-fA-F]{6})$/, {
+    message: 'swatchColor must be a hex color, e.g. #FF0000',
+  })
+  swatchColor?: string | null;
+
+  @IsOptional()
+  @IsUrl({}, { message: 'swatchImageUrl must be a valid URL' })
+  swatchImageUrl?: string | null;
+
+  // Deprecated options stay on existing products but cannot be assigned
+  @IsOptional()
+  @IsBoolean({ message: 'isDeprecated must be a boolean' })
+  isDeprecated?: boolean;
+}
+
+export class ReorderAttributeOptionsDto {
+  // Option IDs in their new order; options not listed keep their relative order after them
+  @IsArray()
+  @ArrayNotEmpty()
+  @Type(() => Number)
+  @IsInt({ each: true })
+  optionIds: number[];
+}
+
+export class AttributeOptionResponseDto {
+  id: number;
+  attributeId: number;
+  code: string;
+  label: string;
+  labels: Record<string, string>;
+  sortOrder: number;
+  swatchColor: string | null;
+  swatchImageUrl: string | null;
+  isDeprecated: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+
+  static fromEntity(entity: any): AttributeOptionResponseDto {
+    const dto = new AttributeOptionResponseDto();
+    dto.id = entity.id;
+    dto.attributeId = entity.attributeId;
+    dto.code = entity.code;
+    dto.label = entity.label;
+    dto.labels = AttributeOptionHelper.labels(entity);
+    dto.sortOrder = entity.sortOrder ?? 0;
+    dto.swatchColor = entity.swatchColor ?? null;
+    dto.swatchImageUrl = entity.swatchImageUrl ?? null;
+    dto.isDeprecated = entity.isDeprecated ?? false;
+    dto.createdAt = entity.createdAt;
+    dto.updatedAt = entity.updatedAt;
+    return dto;
+  }
+}
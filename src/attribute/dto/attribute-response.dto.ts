@@ -1,5 +1,6 @@
 import { AttributeType } from '../../types/attribute-type.enum';
 import { UserAttributeType, storageTypeToUserType } from '../../types/user-attribute-type.enum';
+import { AttributeOptionResponseDto } from './attribute-option.dto';
 
 export class AttributeResponseDto {
   id: number;
@@ -7,10 +8,23 @@ export class AttributeResponseDto {
   type: AttributeType;
   userFriendlyType?: UserAttributeType; // Add user-friendly type for display
   defaultValue: any;
+  isLocalizable: boolean;
+  computedKind: string | null;
+  computedExpression: string | null;
+  unitFamily: string | null;
+  defaultUnit: string | null;
+  minValue: number | null;
+  maxValue: number | null;
+  minLength: number | null;
+  maxLength: number | null;
+  pattern: string | null;
+  allowedMimeTypes: string[];
+  isUnique: boolean;
   userId: number;
   createdAt: Date;
   updatedAt: Date;
   attributeGroups?: any[];
+  options?: AttributeOptionResponseDto[]; // Dropdown and Multiselect option list
 
   // Helper method to populate user-friendly type
   static fromEntity(entity: any): AttributeResponseDto {
@@ -20,10 +34,23 @@ export class AttributeResponseDto {
     dto.type = entity.type;
     dto.userFriendlyType = storageTypeToUserType(entity.type);
     dto.defaultValue = entity.defaultValue;
+    dto.isLocalizable = entity.isLocalizable ?? false;
+    dto.computedKind = entity.computedKind ?? null;
+    dto.computedExpression = entity.computedExpression ?? null;
+    dto.unitFamily = entity.unitFamily ?? null;
+    dto.defaultUnit = entity.defaultUnit ?? null;
+    dto.minValue = entity.minValue ?? null;
+    dto.maxValue = entity.maxValue ?? null;
+    dto.minLength = entity.minLength ?? null;
+    dto.maxLength = entity.maxLength ?? null;
+    dto.pattern = entity.pattern ?? null;
+    dto.allowedMimeTypes = entity.allowedMimeTypes ?? [];
+    dto.isUnique = entity.isUnique ?? false;
     dto.userId = entity.userId;
     dto.createdAt = entity.createdAt;
     dto.updatedAt = entity.updatedAt;
     dto.attributeGroups = entity.attributeGroups;
+    dto.options = entity.options?.map((option: any) => AttributeOptionResponseDto.fromEntity(option));
     return dto;
   }
 }
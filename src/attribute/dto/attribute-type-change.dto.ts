@@ -0,0 +1,110 @@
+import {
+  IsString,
+  IsOptional,
+  IsEnum,
+  IsNotEmpty,
+  Length,
+  Matches,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+import { AttributeType } from '../../types/attribute-type.enum';
+import { UnitFamily } from '../../utils/measurement.helper';
+import {
+  UserAttributeType,
+  userTypeToStorageType,
+} from '../../types/user-attribute-type.enum';
+
+// What happens to values that cannot be converted to the new type
+export enum FailedValueAction {
+  REJECT = 'reject', // Do not change the type while any value fails
+  DROP = 'drop', // Delete the failing values
+  MOVE = 'move', // Keep them in a new side attribute of the old type
+}
+
+export class AttributeTypeChangeDto {
+  @IsNotEmpty({ message: 'Type is required' })
+  @IsEnum(
+    [...Object.values(UserAttributeType), ...Object.values(AttributeType)],
+    {
+      message: `Type must be one of: ${Object.values(UserAttributeType).join(', ')} or ${Object.values(AttributeType).join(', ')}`,
+    },
+  )
+  @Transform(({ value }) => {
+    if (Object.values(UserAttributeType).includes(value as UserAttributeType)) {
+      return userTypeToStorageType(value as UserAttributeType);
+    }
+    return value;
+  })
+  type: AttributeType;
+
+  // Required when changing to MEASUREMENT
+  @IsOptional()
+  @IsEnum(UnitFamily, {
+    message: `unitFamily must be one of: ${Object.values(UnitFamily).join(', ')}`,
+  })
+  unitFamily?: UnitFamily | null;
+
+  @IsOptional()
+  @IsString({ message: 'defaultUnit must be a string' })
+  defaultUnit?: string | null;
+}
+
+export class ApplyAttributeTypeChangeDto extends AttributeTypeChangeDto {
+  @IsOptional()
+  @IsEnum(FailedValueAction, {
+    message: `failedValues must be one of: ${Object.values(FailedValueAction).join(', ')}`,
+  })
+  failedValues?: FailedValueAction;
+
+  // Name of the side attribute failing values move to; defaults to "<name>_<old type>"
+  @IsOptional()
+  @IsString({ message: 'sideAttributeName must be a string' })
+  @Length(1, 30, {
+    message: 'sideAttributeName must be between 1 and 30 characters',
+  })
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim() : value))
+  @Matches(/^[a-zA-Z0-9\s\-_]+$/, {
+    message:
+      'sideAttributeName can only contain letters, numbers, spaces, hyphens, and underscores',
+  })
+  sideAttributeName?: string;
+}
+
+export class TypeChangeSampleDto {
+  productId: number;
+  sku: string;
+  scope: string; // 'value', 'locale:<tag>' or 'channel:<channel>:<connectionId>'
+  value: string;
+  convertedValue?: string | null;
+  error?: string;
+}
+
+export class AttributeTypeChangePreviewDto {
+  attributeId: number;
+  attributeName: string;
+  fromType: string;
+  toType: string;
+  total: number; // Non-empty stored values, including localized and channel values
+  unchanged: number; // Stored the same way under the new type
+  converted: number; // Rewritten without losing information, e.g. "42" -> "42.0 kg"
+  lossy: number; // Rewritten but not reversible, e.g. "3.50" -> "3.5" or "yes" -> "true"
+  failed: number; // Cannot be converted
+  defaultValue: {
+    value: string | null;
+    convertedValue: string | null;
+    error?: string;
+  } | null;
+  droppedRules: string[]; // Validation rules that do not apply to the new type
+  samples: {
+    converted: TypeChangeSampleDto[];
+    lossy: TypeChangeSampleDto[];
+    failed: TypeChangeSampleDto[];
+  };
+}
+
+export class AttributeTypeChangeResultDto extends AttributeTypeChangePreviewDto {
+  dropped: number; // Failing values deleted
+  moved: number; // Failing values moved to the side attribute
+  sideAttributeId: number | null;
+  sideAttributeName: string | null;
+}
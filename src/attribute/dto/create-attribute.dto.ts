@@ -1,6 +1,8 @@
-import { IsString, IsNotEmpty, IsOptional, IsEnum, Length, Matches } from 'class-validator';
+import { IsString, IsNotEmpty, IsOptional, IsEnum, Length, Matches, IsBoolean, IsNumber, IsInt, Min, IsArray } from 'class-validator';
 import { Transform, Type } from 'class-transformer';
 import { AttributeType } from '../../types/attribute-type.enum';
+import { ComputedAttributeKind } from '../../utils/computed-attribute.helper';
+import { UnitFamily } from '../../utils/measurement.helper';
 import { UserAttributeType, userTypeToStorageType } from '../../types/user-attribute-type.enum';
 
 export class CreateAttributeDto {
@@ -41,4 +43,61 @@ export class CreateAttributeDto {
     return value;
   })
   defaultValue?: any;
+
+  @IsOptional()
+  @IsBoolean({ message: 'isLocalizable must be a boolean' })
+  isLocalizable?: boolean;
+
+  // Computed attributes derive their value and are read-only on products
+  @IsOptional()
+  @IsEnum(ComputedAttributeKind, { message: `computedKind must be one of: ${Object.values(ComputedAttributeKind).join(', ')}` })
+  computedKind?: ComputedAttributeKind;
+
+  @IsOptional()
+  @IsString({ message: 'computedExpression must be a string' })
+  computedExpression?: string;
+
+  // MEASUREMENT attributes: the unit family values must use and the unit bare numbers take
+  @IsOptional()
+  @IsEnum(UnitFamily, { message: `unitFamily must be one of: ${Object.values(UnitFamily).join(', ')}` })
+  unitFamily?: UnitFamily;
+
+  @IsOptional()
+  @IsString({ message: 'defaultUnit must be a string' })
+  defaultUnit?: string;
+
+  // Validation rules on top of the type; each applies to the types it suits
+  @IsOptional()
+  @IsNumber({}, { message: 'minValue must be a number' })
+  minValue?: number;
+
+  @IsOptional()
+  @IsNumber({}, { message: 'maxValue must be a number' })
+  maxValue?: number;
+
+  @IsOptional()
+  @IsInt({ message: 'minLength must be an integer' })
+  @Min(0)
+  minLength?: number;
+
+  @IsOptional()
+  @IsInt({ message: 'maxLength must be an integer' })
+  @Min(1)
+  maxLength?: number;
+
+  @IsOptional()
+  @IsString({ message: 'pattern must be a string' })
+  pattern?: string;
+
+  // FILE and IMAGE attributes, e.g. ["image/png", "image/*"]
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  @Matches(/^[a-z]+\/([a-z0-9.+-]+|\*)$/, { each: true, message: 'allowedMimeTypes must contain MIME types such as image/png or image/*' })
+  allowedMimeTypes?: string[];
+
+  // Only one product may use a value, e.g. GTIN, EAN or MPN
+  @IsOptional()
+  @IsBoolean({ message: 'isUnique must be a boolean' })
+  isUnique?: boolean;
 }
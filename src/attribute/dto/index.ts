@@ -2,3 +2,5 @@ export * from './create-attribute.dto';
 export * from './update-attribute.dto';
 export * from './attribute-response.dto';
 export * from './attribute-filter.dto';
+export * from './attribute-option.dto';
+export * from './attribute-type-change.dto';
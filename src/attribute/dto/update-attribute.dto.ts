@@ -1,6 +1,8 @@
-import { IsString, IsOptional, IsEnum, Length, Matches } from 'class-validator';
+import { IsString, IsOptional, IsEnum, Length, Matches, IsBoolean, IsNumber, IsInt, Min, IsArray } from 'class-validator';
 import { Transform } from 'class-transformer';
 import { AttributeType } from '../../types/attribute-type.enum';
+import { ComputedAttributeKind } from '../../utils/computed-attribute.helper';
+import { UnitFamily } from '../../utils/measurement.helper';
 import { UserAttributeType, userTypeToStorageType } from '../../types/user-attribute-type.enum';
 
 export class UpdateAttributeDto {
@@ -40,4 +42,61 @@ export class UpdateAttributeDto {
     return value;
   })
   defaultValue?: any;
+
+  @IsOptional()
+  @IsBoolean({ message: 'isLocalizable must be a boolean' })
+  isLocalizable?: boolean;
+
+  // Send null to turn a computed attribute back into a stored one
+  @IsOptional()
+  @IsEnum(ComputedAttributeKind, { message: `computedKind must be one of: ${Object.values(ComputedAttributeKind).join(', ')}` })
+  computedKind?: ComputedAttributeKind | null;
+
+  @IsOptional()
+  @IsString({ message: 'computedExpression must be a string' })
+  computedExpression?: string | null;
+
+  // MEASUREMENT attributes: the unit family values must use and the unit bare numbers take
+  @IsOptional()
+  @IsEnum(UnitFamily, { message: `unitFamily must be one of: ${Object.values(UnitFamily).join(', ')}` })
+  unitFamily?: UnitFamily | null;
+
+  @IsOptional()
+  @IsString({ message: 'defaultUnit must be a string' })
+  defaultUnit?: string | null;
+
+  // Validation rules on top of the type; send null to remove a rule
+  @IsOptional()
+  @IsNumber({}, { message: 'minValue must be a number' })
+  minValue?: number | null;
+
+  @IsOptional()
+  @IsNumber({}, { message: 'maxValue must be a number' })
+  maxValue?: number | null;
+
+  @IsOptional()
+  @IsInt({ message: 'minLength must be an integer' })
+  @Min(0)
+  minLength?: number | null;
+
+  @IsOptional()
+  @IsInt({ message: 'maxLength must be an integer' })
+  @Min(1)
+  maxLength?: number | null;
+
+  @IsOptional()
+  @IsString({ message: 'pattern must be a string' })
+  pattern?: string | null;
+
+  // FILE and IMAGE attributes, e.g. ["image/png", "image/*"]
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  @Matches(/^[a-z]+\/([a-z0-9.+-]+|\*)$/, { each: true, message: 'allowedMimeTypes must contain MIME types such as image/png or image/*' })
+  allowedMimeTypes?: string[];
+
+  // Only one product may use a value, e.g. GTIN, EAN or MPN
+  @IsOptional()
+  @IsBoolean({ message: 'isUnique must be a boolean' })
+  isUnique?: boolean;
 }
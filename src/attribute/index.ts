@@ -2,6 +2,7 @@ export * from './dto/create-attribute.dto';
 export * from './dto/update-attribute.dto';
 export * from './dto/attribute-response.dto';
 export * from './validators/attribute-value.validator';
+export * from './validators/attribute-constraint.validator';
 export * from './attribute.service';
 export * from './attribute.controller';
 export * from './attribute.module';
@@ -0,0 +1,260 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { AttributeTypeChangeService } from './attribute-type-change.service';
+import { AttributeValueValidator } from '../validators/attribute-value.validator';
+import { PrismaService } from '../../prisma/prisma.service';
+import { AttributeType } from '../../types/attribute-type.enum';
+import { FailedValueAction } from '../dto/attribute-type-change.dto';
+
+const USER_ID = 1;
+
+const target = (
+  type: AttributeType,
+  unitFamily: string | null = null,
+  defaultUnit: string | null = null,
+) => ({ type, unitFamily, defaultUnit });
+
+describe('AttributeTypeChangeService', () => {
+  let service: AttributeTypeChangeService;
+  let prisma: {
+    attribute: { findFirst: jest.Mock };
+    productAttribute: { findMany: jest.Mock };
+    productAttributeLocalization: { findMany: jest.Mock };
+    productAttributeChannelValue: { findMany: jest.Mock };
+    $transaction: jest.Mock;
+  };
+
+  // The attribute being changed, with its stored product values
+  const givenAttribute = (
+    attribute: Record<string, any>,
+    values: string[],
+  ): void => {
+    prisma.attribute.findFirst.mockResolvedValue({
+      id: 7,
+      name: 'Weight',
+      unitFamily: null,
+      defaultUnit: null,
+      defaultValue: null,
+      isLocalizable: false,
+      options: [],
+      minValue: null,
+      maxValue: null,
+      minLength: null,
+      maxLength: null,
+      pattern: null,
+      allowedMimeTypes: [],
+      isUnique: false,
+      ...attribute,
+    });
+    prisma.productAttribute.findMany.mockResolvedValue(
+      values.map((value, i) => ({
+        id: i + 1,
+        value,
+        product: { id: 100 + i, sku: `SKU-${i + 1}` },
+      })),
+    );
+  };
+
+  beforeEach(async () => {
+    prisma = {
+      attribute: { findFirst: jest.fn() },
+      productAttribute: { findMany: jest.fn().mockResolvedValue([]) },
+      productAttributeLocalization: {
+        findMany: jest.fn().mockResolvedValue([]),
+      },
+      productAttributeChannelValue: {
+        findMany: jest.fn().mockResolvedValue([]),
+      },
+      $transaction: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AttributeTypeChangeService,
+        AttributeValueValidator,
+        { provide: PrismaService, useValue: prisma },
+      ],
+    }).compile();
+
+    service = module.get(AttributeTypeChangeService);
+  });
+
+  describe('analyze', () => {
+    it('should throw when the attribute does not exist', async () => {
+      prisma.attribute.findFirst.mockResolvedValue(null);
+
+      await expect(
+        service.analyze(7, target(AttributeType.INTEGER), USER_ID),
+      ).rejects.toThrow('Attribute with ID 7 not found');
+    });
+
+    it('should classify text values converted to integers', async () => {
+      givenAttribute({ type: AttributeType.STRING }, ['42', ' 42', 'heavy']);
+
+      const { values, preview } = await service.analyze(
+        7,
+        target(AttributeType.INTEGER),
+        USER_ID,
+      );
+
+      expect(values.map((value) => value.status)).toEqual([
+        'unchanged',
+        'lossy',
+        'failed',
+      ]);
+      expect(values[1].convertedValue).toBe('42');
+      expect(values[2].error).toContain('Value must be a valid integer');
+      expect(preview).toMatchObject({
+        total: 3,
+        unchanged: 1,
+        lossy: 1,
+        failed: 1,
+      });
+      expect(preview.samples.failed[0]).toEqual({
+        productId: 102,
+        sku: 'SKU-3',
+        scope: 'value',
+        value: 'heavy',
+        error: expect.stringContaining('valid integer'),
+      });
+    });
+
+    it('should add the default unit to numbers converted to measurements', async () => {
+      givenAttribute({ type: AttributeType.NUMBER }, ['500']);
+
+      const { values } = await service.analyze(
+        7,
+        target(AttributeType.MEASUREMENT, 'weight', 'g'),
+        USER_ID,
+      );
+
+      expect(values[0]).toMatchObject({
+        status: 'converted',
+        convertedValue: '500 g',
+      });
+    });
+
+    it('should join multi-value lists into text with option labels', async () => {
+      // Labels map back to the option codes, so nothing is lost
+      givenAttribute(
+        {
+          type: AttributeType.ARRAY,
+          options: [
+            { code: 'red', label: 'Red' },
+            { code: 'blue', label: 'Blue' },
+          ],
+        },
+        ['["red","blue"]'],
+      );
+
+      const { values, hasOptions, keepOptions } = await service.analyze(
+        7,
+        target(AttributeType.STRING),
+        USER_ID,
+      );
+
+      expect(values[0]).toMatchObject({
+        status: 'converted',
+        convertedValue: 'Red, Blue',
+      });
+      expect(hasOptions).toBe(true);
+      expect(keepOptions).toBe(false);
+    });
+
+    it('should fail lists with several values for single-value types', async () => {
+      givenAttribute({ type: AttributeType.ARRAY }, ['["1","2"]']);
+
+      const { values } = await service.analyze(
+        7,
+        target(AttributeType.INTEGER),
+        USER_ID,
+      );
+
+      expect(values[0]).toMatchObject({
+        status: 'failed',
+        error: 'Holds 2 values; INTEGER holds one',
+      });
+    });
+
+    it('should drop rules that do not apply to the new type', async () => {
+      givenAttribute(
+        { type: AttributeType.STRING, pattern: '[0-9]+', maxLength: 5 },
+        ['12'],
+      );
+
+      const { ruleUpdates, preview } = await service.analyze(
+        7,
+        target(AttributeType.INTEGER),
+        USER_ID,
+      );
+
+      expect(ruleUpdates).toEqual({ maxLength: null, pattern: null });
+      expect(preview.droppedRules).toEqual(['maxLength', 'pattern']);
+    });
+
+    it('should clear allowed file types when leaving file types', async () => {
+      givenAttribute(
+        { type: AttributeType.IMAGE, allowedMimeTypes: ['image/*'] },
+        [],
+      );
+
+      const { ruleUpdates } = await service.analyze(
+        7,
+        target(AttributeType.URL),
+        USER_ID,
+      );
+
+      expect(ruleUpdates).toEqual({ allowedMimeTypes: [] });
+    });
+
+    it('should fail values that break the remaining rules', async () => {
+      givenAttribute({ type: AttributeType.NUMBER, maxValue: 100 }, ['150']);
+
+      const { values } = await service.analyze(
+        7,
+        target(AttributeType.INTEGER),
+        USER_ID,
+      );
+
+      expect(values[0]).toMatchObject({
+        status: 'failed',
+        error: 'Value 150 is above the maximum of 100',
+      });
+    });
+
+    it('should fail values that become duplicates of a unique attribute', async () => {
+      givenAttribute({ type: AttributeType.STRING, isUnique: true }, [
+        '10',
+        '10.0',
+      ]);
+
+      const { values } = await service.analyze(
+        7,
+        target(AttributeType.NUMBER),
+        USER_ID,
+      );
+
+      expect(values[0].status).toBe('unchanged');
+      expect(values[1]).toMatchObject({
+        status: 'failed',
+        error: 'Duplicates product SKU-1 after conversion',
+      });
+    });
+  });
+
+  describe('apply', () => {
+    it('should refuse failing values unless they are dropped or moved', async () => {
+      givenAttribute({ type: AttributeType.STRING }, ['heavy']);
+      const plan = await service.analyze(
+        7,
+        target(AttributeType.INTEGER),
+        USER_ID,
+      );
+
+      await expect(
+        service.apply(plan, FailedValueAction.REJECT, undefined, USER_ID),
+      ).rejects.toThrow(BadRequestException);
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
+});
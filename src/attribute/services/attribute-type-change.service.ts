@@ -0,0 +1,532 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { PrismaService } from '../../prisma/prisma.service';
+import { AttributeValueValidator } from '../validators/attribute-value.validator';
+import { AttributeType } from '../../types/attribute-type.enum';
+import { MeasurementHelper } from '../../utils/measurement.helper';
+import {
+  AttributeOptionHelper,
+  AttributeOptionRow,
+} from '../../utils/attribute-option.helper';
+import {
+  AttributeRuleHelper,
+  AttributeRules,
+  FILE_RULE_TYPES,
+  NUMERIC_RULE_TYPES,
+  StoredAttributeRules,
+  TEXT_RULE_TYPES,
+} from '../../utils/attribute-rule.helper';
+import { withRecomputeAfterCommit } from '../../utils/computedAttributeUtils';
+import {
+  AttributeTypeChangePreviewDto,
+  AttributeTypeChangeResultDto,
+  FailedValueAction,
+  TypeChangeSampleDto,
+} from '../dto/attribute-type-change.dto';
+
+const OPTION_TYPES: string[] = [AttributeType.ENUM, AttributeType.ARRAY];
+
+// Types a multi-value list can be joined into as "a, b"
+const JOINABLE_TYPES: string[] = [
+  AttributeType.STRING,
+  AttributeType.TEXT,
+  AttributeType.HTML,
+];
+
+const SAMPLE_SIZE = 20;
+
+// A type with the settings its values are validated with
+export interface TypeTarget {
+  type: AttributeType;
+  unitFamily: string | null;
+  defaultUnit: string | null;
+}
+
+type ValueStore = 'value' | 'localization' | 'channel';
+type ConversionStatus = 'unchanged' | 'converted' | 'lossy' | 'failed';
+
+interface PlannedValue {
+  store: ValueStore;
+  id: number;
+  productId: number;
+  sku: string;
+  scope: string;
+  value: string;
+  status: ConversionStatus;
+  convertedValue: string | null;
+  error?: string;
+}
+
+export interface TypeChangePlan {
+  attribute: {
+    id: number;
+    name: string;
+    isLocalizable: boolean;
+  };
+  source: TypeTarget;
+  target: TypeTarget;
+  hasOptions: boolean;
+  keepOptions: boolean; // Option lists stay when changing between Dropdown and Multiselect
+  ruleUpdates: Partial<StoredAttributeRules>;
+  values: PlannedValue[];
+  preview: AttributeTypeChangePreviewDto;
+}
+
+/**
+ * Converts the stored values of an attribute when its type changes. Every
+ * product value, localized value and channel value is run through the value
+ * validator of the new type; converting the result back to the old type tells
+ * conversions that lose information apart from those that do not.
+ */
+@Injectable()
+export class AttributeTypeChangeService {
+  private readonly logger = new Logger(AttributeTypeChangeService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly validator: AttributeValueValidator,
+  ) {}
+
+  /**
+   * Work out what happens to every stored value under the new type, without
+   * changing anything
+   */
+  async analyze(
+    attributeId: number,
+    target: TypeTarget,
+    userId: number,
+  ): Promise<TypeChangePlan> {
+    const attribute = await this.prisma.attribute.findFirst({
+      where: { id: attributeId, userId },
+      include: { options: AttributeOptionHelper.include() },
+    });
+    if (!attribute) {
+      throw new NotFoundException(`Attribute with ID ${attributeId} not found`);
+    }
+
+    const source: TypeTarget = {
+      type: attribute.type as AttributeType,
+      unitFamily: attribute.unitFamily,
+      defaultUnit: attribute.defaultUnit,
+    };
+    const options = attribute.options;
+    const keepOptions = OPTION_TYPES.includes(target.type);
+    const { rules, ruleUpdates, droppedRules } = this.resolveRules(
+      attribute,
+      target.type,
+    );
+
+    const stored = await this.loadValues(attributeId);
+    const values: PlannedValue[] = stored.map((entry) => ({
+      ...entry,
+      ...this.classify(entry.value, source, target, options, rules),
+    }));
+    if (rules.isUnique) {
+      this.markDuplicates(values);
+    }
+
+    const defaultValue =
+      attribute.defaultValue === null || attribute.defaultValue === ''
+        ? null
+        : this.classify(attribute.defaultValue, source, target, options, rules);
+
+    const preview: AttributeTypeChangePreviewDto = {
+      attributeId,
+      attributeName: attribute.name,
+      fromType: source.type,
+      toType: target.type,
+      total: values.length,
+      unchanged: 0,
+      converted: 0,
+      lossy: 0,
+      failed: 0,
+      defaultValue: defaultValue && {
+        value: attribute.defaultValue,
+        convertedValue: defaultValue.convertedValue,
+        ...(defaultValue.error && { error: defaultValue.error }),
+      },
+      droppedRules,
+      samples: { converted: [], lossy: [], failed: [] },
+    };
+    for (const value of values) {
+      preview[value.status]++;
+      if (value.status !== 'unchanged') {
+        const samples = preview.samples[value.status];
+        if (samples.length < SAMPLE_SIZE) samples.push(this.toSample(value));
+      }
+    }
+
+    return {
+      attribute: {
+        id: attribute.id,
+        name: attribute.name,
+        isLocalizable: attribute.isLocalizable,
+      },
+      source,
+      target,
+      hasOptions: options.length > 0,
+      keepOptions,
+      ruleUpdates,
+      values,
+      preview,
+    };
+  }
+
+  /**
+   * Change the type and convert the values in one transaction. Failing values
+   * block the change, are deleted or move to a new side attribute of the old
+   * type, depending on the action.
+   */
+  async apply(
+    plan: TypeChangePlan,
+    action: FailedValueAction,
+    sideAttributeName: string | undefined,
+    userId: number,
+  ): Promise<AttributeTypeChangeResultDto> {
+    const { attribute, source, target, preview } = plan;
+    const failed = plan.values.filter((value) => value.status === 'failed');
+    const defaultFailed = !!preview.defaultValue?.error;
+
+    if (
+      action === FailedValueAction.REJECT &&
+      (failed.length || defaultFailed)
+    ) {
+      throw new BadRequestException(
+        `${failed.length + (defaultFailed ? 1 : 0)} value(s) of "${attribute.name}" cannot be converted to ${target.type}. ` +
+          `Fix them, or set failedValues to "${FailedValueAction.DROP}" or "${FailedValueAction.MOVE}"`,
+      );
+    }
+
+    const result: AttributeTypeChangeResultDto = {
+      ...preview,
+      dropped: 0,
+      moved: 0,
+      sideAttributeId: null,
+      sideAttributeName: null,
+    };
+
+    const moving = action === FailedValueAction.MOVE && failed.length > 0;
+    if (moving) {
+      result.sideAttributeName = (
+        sideAttributeName ?? `${attribute.name}_${source.type.toLowerCase()}`
+      ).slice(0, 30);
+      const existing = await this.prisma.attribute.findFirst({
+        where: { name: result.sideAttributeName, userId },
+        select: { id: true },
+      });
+      if (existing) {
+        throw new ConflictException(
+          `An attribute named "${result.sideAttributeName}" already exists; choose another sideAttributeName`,
+        );
+      }
+    }
+
+    await withRecomputeAfterCommit(() =>
+      this.prisma.$transaction(async (tx) => {
+        let sideAttributeId: number | null = null;
+        if (moving) {
+          const side = await tx.attribute.create({
+            data: {
+              name: result.sideAttributeName!,
+              type: source.type,
+              unitFamily: source.unitFamily,
+              defaultUnit: source.defaultUnit,
+              isLocalizable: attribute.isLocalizable,
+              userId,
+            },
+          });
+          sideAttributeId = side.id;
+        }
+
+        await tx.attribute.update({
+          where: { id: attribute.id },
+          data: {
+            type: target.type,
+            unitFamily: target.unitFamily,
+            defaultUnit: target.defaultUnit,
+            ...plan.ruleUpdates,
+            ...(preview.defaultValue && {
+              defaultValue: preview.defaultValue.error
+                ? null
+                : preview.defaultValue.convertedValue,
+            }),
+          },
+        });
+        if (plan.hasOptions && !plan.keepOptions) {
+          await tx.attributeOption.deleteMany({
+            where: { attributeId: attribute.id },
+          });
+        }
+
+        for (const value of plan.values) {
+          if (value.status === 'unchanged') continue;
+          const model = this.delegate(tx, value.store);
+
+          if (value.status !== 'failed') {
+            await model.update({
+              where: { id: value.id },
+              data: { value: value.convertedValue },
+            });
+          } else if (sideAttributeId) {
+            await model.update({
+              where: { id: value.id },
+              data: {
+                attributeId: sideAttributeId,
+                ...(value.store === 'value' && { familyAttributeId: null }),
+              },
+            });
+            result.moved++;
+          } else {
+            await model.delete({ where: { id: value.id } });
+            result.dropped++;
+          }
+        }
+        result.sideAttributeId = sideAttributeId;
+      }),
+    );
+
+    this.logger.log(
+      `Changed attribute ${attribute.id} from ${source.type} to ${target.type}: ` +
+        `${preview.converted + preview.lossy} converted, ${result.dropped} dropped, ${result.moved} moved`,
+    );
+    return result;
+  }
+
+  private classify(
+    value: string,
+    source: TypeTarget,
+    target: TypeTarget,
+    options: AttributeOptionRow[],
+    rules: AttributeRules,
+  ): Pick<PlannedValue, 'status' | 'convertedValue' | 'error'> {
+    let convertedValue: string;
+    try {
+      convertedValue = this.convert(value, source, target, options);
+      const error = AttributeRuleHelper.check(
+        target.type,
+        convertedValue,
+        rules,
+      );
+      if (error) {
+        return { status: 'failed', convertedValue: null, error };
+      }
+    } catch (error) {
+      return { status: 'failed', convertedValue: null, error: error.message };
+    }
+
+    if (convertedValue === value) {
+      return { status: 'unchanged', convertedValue };
+    }
+
+    // Reversible conversions lose nothing, e.g. "500" <-> "500 g" with g as default unit
+    let reverted: string | null = null;
+    try {
+      reverted = this.convert(convertedValue, target, source, options);
+    } catch {
+      // Not reversible
+    }
+    return {
+      status: reverted === value ? 'converted' : 'lossy',
+      convertedValue,
+    };
+  }
+
+  /**
+   * Convert a stored value from one type to another, throwing when the value
+   * does not fit the new type
+   */
+  private convert(
+    value: string,
+    from: TypeTarget,
+    to: TypeTarget,
+    options: AttributeOptionRow[],
+  ): string {
+    const withOptions = options.length > 0;
+    let raw: any = value;
+
+    if (from.type === AttributeType.ARRAY) {
+      let items: any[] = this.validator.validate(AttributeType.ARRAY, value);
+      // Option codes become labels for types without the option list
+      if (withOptions && !OPTION_TYPES.includes(to.type)) {
+        items = items.map((code) =>
+          AttributeOptionHelper.labelOf(options, code),
+        );
+      }
+      if (to.type !== AttributeType.ARRAY) {
+        if (JOINABLE_TYPES.includes(to.type)) {
+          raw = items.join(', ');
+        } else if (items.length === 1) {
+          raw = items[0];
+        } else {
+          throw new BadRequestException(
+            `Holds ${items.length} values; ${to.type} holds one`,
+          );
+        }
+      } else {
+        raw = items;
+      }
+    } else if (
+      from.type === AttributeType.ENUM &&
+      withOptions &&
+      !OPTION_TYPES.includes(to.type)
+    ) {
+      raw = AttributeOptionHelper.labelOf(options, value);
+    } else if (
+      from.type === AttributeType.MEASUREMENT &&
+      NUMERIC_RULE_TYPES.includes(to.type)
+    ) {
+      // The number without its unit
+      raw = MeasurementHelper.parse(value)?.value ?? value;
+    }
+
+    const converted =
+      to.type === AttributeType.MEASUREMENT
+        ? this.validator.validateMeasurement(raw, to.unitFamily, to.defaultUnit)
+        : OPTION_TYPES.includes(to.type) && withOptions
+          ? this.validator.validateOptions(to.type, raw, options)
+          : this.validator.validateAndStringify(to.type, raw);
+
+    if (converted === null || converted === '') {
+      throw new BadRequestException('Converts to an empty value');
+    }
+    return converted;
+  }
+
+  // Values that become equal under the new type break "unique across catalog"
+  private markDuplicates(values: PlannedValue[]): void {
+    const seen = new Map<string, PlannedValue>();
+    for (const value of values) {
+      if (value.store !== 'value' || value.status === 'failed') continue;
+      const first = seen.get(value.convertedValue!);
+      if (first) {
+        value.status = 'failed';
+        value.error = `Duplicates product ${first.sku} after conversion`;
+        value.convertedValue = null;
+      } else {
+        seen.set(value.convertedValue!, value);
+      }
+    }
+  }
+
+  // Rules that no longer apply to the new type are removed
+  private resolveRules(
+    current: AttributeRules,
+    type: string,
+  ): {
+    rules: AttributeRules;
+    ruleUpdates: Partial<StoredAttributeRules>;
+    droppedRules: string[];
+  } {
+    const ruleUpdates: Partial<StoredAttributeRules> = {};
+    const drop = (
+      fields: Exclude<
+        keyof StoredAttributeRules,
+        'allowedMimeTypes' | 'isUnique'
+      >[],
+      types: string[],
+    ) => {
+      if (types.includes(type)) return;
+      for (const field of fields) {
+        if (current[field] !== null && current[field] !== undefined) {
+          ruleUpdates[field] = null;
+        }
+      }
+    };
+
+    drop(['minValue', 'maxValue'], NUMERIC_RULE_TYPES);
+    drop(['minLength', 'maxLength', 'pattern'], TEXT_RULE_TYPES);
+    if (!FILE_RULE_TYPES.includes(type) && current.allowedMimeTypes?.length) {
+      ruleUpdates.allowedMimeTypes = [];
+    }
+    return {
+      rules: { ...current, ...ruleUpdates },
+      ruleUpdates,
+      droppedRules: Object.keys(ruleUpdates),
+    };
+  }
+
+  private async loadValues(
+    attributeId: number,
+  ): Promise<Omit<PlannedValue, 'status' | 'convertedValue' | 'error'>[]> {
+    const product = { select: { id: true, sku: true } };
+    const where = { attributeId, value: { not: null } };
+    const [values, localizations, channelValues] = await Promise.all([
+      this.prisma.productAttribute.findMany({
+        where,
+        select: { id: true, value: true, product },
+        orderBy: { id: 'asc' },
+      }),
+      this.prisma.productAttributeLocalization.findMany({
+        where,
+        select: { id: true, value: true, locale: true, product },
+        orderBy: { id: 'asc' },
+      }),
+      this.prisma.productAttributeChannelValue.findMany({
+        where,
+        select: {
+          id: true,
+          value: true,
+          channel: true,
+          connectionId: true,
+          product,
+        },
+        orderBy: { id: 'asc' },
+      }),
+    ]);
+
+    return [
+      ...values.map((row) => ({
+        ...row,
+        store: 'value' as const,
+        scope: 'value',
+      })),
+      ...localizations.map((row) => ({
+        ...row,
+        store: 'localization' as const,
+        scope: `locale:${row.locale}`,
+      })),
+      ...channelValues.map((row) => ({
+        ...row,
+        store: 'channel' as const,
+        scope: `channel:${row.channel}:${row.connectionId}`,
+      })),
+    ]
+      .filter((row) => row.value !== null && row.value.trim() !== '')
+      .map((row) => ({
+        store: row.store,
+        id: row.id,
+        productId: row.product.id,
+        sku: row.product.sku,
+        scope: row.scope,
+        value: row.value!,
+      }));
+  }
+
+  private delegate(tx: any, store: ValueStore) {
+    switch (store) {
+      case 'localization':
+        return tx.productAttributeLocalization;
+      case 'channel':
+        return tx.productAttributeChannelValue;
+      default:
+        return tx.productAttribute;
+    }
+  }
+
+  private toSample(value: PlannedValue): TypeChangeSampleDto {
+    return {
+      productId: value.productId,
+      sku: value.sku,
+      scope: value.scope,
+      value: value.value,
+      ...(value.status === 'failed'
+        ? { error: value.error }
+        : { convertedValue: value.convertedValue }),
+    };
+  }
+}
@@ -0,0 +1,230 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { AttributeConstraintValidator } from './attribute-constraint.validator';
+import { AttributeValueValidator } from './attribute-value.validator';
+import { PrismaService } from '../../prisma/prisma.service';
+import { AttributeType } from '../../types/attribute-type.enum';
+
+const USER_ID = 1;
+
+const attribute = (overrides: {
+  id: number;
+  name: string;
+  type: AttributeType;
+  [column: string]: any;
+}) => ({
+  computedKind: null as string | null,
+  unitFamily: null,
+  defaultUnit: null,
+  options: [],
+  minValue: null,
+  maxValue: null,
+  minLength: null,
+  maxLength: null,
+  pattern: null,
+  allowedMimeTypes: [],
+  isUnique: false,
+  ...overrides,
+});
+
+const ATTRIBUTES = [
+  attribute({
+    id: 1,
+    name: 'Weight',
+    type: AttributeType.INTEGER,
+    minValue: 1,
+  }),
+  attribute({
+    id: 2,
+    name: 'MPN',
+    type: AttributeType.STRING,
+    pattern: '[A-Z]{3}-[0-9]+',
+    isUnique: true,
+  }),
+  attribute({ id: 3, name: 'EAN', type: AttributeType.BARCODE }),
+  attribute({
+    id: 4,
+    name: 'Margin',
+    type: AttributeType.PERCENTAGE,
+    computedKind: 'FORMULA',
+  }),
+];
+
+// Answers attribute lookups by the filters the validator uses
+const findAttributes = ({ where }: any) =>
+  Promise.resolve(
+    ATTRIBUTES.filter(
+      (attr) =>
+        (!where.id || where.id.in.includes(attr.id)) &&
+        (!where.computedKind || attr.computedKind !== null) &&
+        (!where.type ||
+          (typeof where.type === 'string'
+            ? attr.type === where.type
+            : where.type.in.includes(attr.type))),
+    ),
+  );
+
+describe('AttributeConstraintValidator', () => {
+  let validator: AttributeConstraintValidator;
+  let prisma: {
+    attribute: { findMany: jest.Mock };
+    productAttribute: { findMany: jest.Mock; findFirst: jest.Mock };
+  };
+
+  beforeEach(async () => {
+    prisma = {
+      attribute: { findMany: jest.fn(findAttributes) },
+      productAttribute: {
+        findMany: jest.fn().mockResolvedValue([]),
+        findFirst: jest.fn().mockResolvedValue(null),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AttributeConstraintValidator,
+        AttributeValueValidator,
+        { provide: PrismaService, useValue: prisma },
+      ],
+    }).compile();
+
+    validator = module.get(AttributeConstraintValidator);
+  });
+
+  describe('validate', () => {
+    it('should accept values that pass the rules', async () => {
+      await expect(
+        validator.validate(
+          [
+            { attributeId: 1, value: '5' },
+            { attributeId: 2, value: 'ABC-123' },
+          ],
+          USER_ID,
+          { id: 10 },
+        ),
+      ).resolves.toBeUndefined();
+    });
+
+    it('should report the attribute name of a value that breaks a rule', async () => {
+      await expect(
+        validator.validate([{ attributeId: 1, value: '0' }], USER_ID),
+      ).rejects.toThrow(
+        new BadRequestException('Weight: Value 0 is below the minimum of 1'),
+      );
+      await expect(
+        validator.validate([{ attributeId: 2, value: 'abc' }], USER_ID),
+      ).rejects.toThrow('MPN: Value must match the pattern');
+    });
+
+    it('should skip empty values', async () => {
+      await validator.validate(
+        [
+          { attributeId: 1, value: '' },
+          { attributeId: 2, value: null },
+        ],
+        USER_ID,
+      );
+      expect(prisma.attribute.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should reject a unique value used by another product', async () => {
+      prisma.productAttribute.findFirst.mockResolvedValue({
+        product: { sku: 'TEE-RED', isDeleted: false },
+      });
+
+      await expect(
+        validator.validate([{ attributeId: 2, value: 'ABC-123' }], USER_ID, {
+          id: 10,
+        }),
+      ).rejects.toThrow(
+        'MPN: Value "ABC-123" is already used by product TEE-RED',
+      );
+      expect(prisma.productAttribute.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            attributeId: { in: [2] },
+            value: { in: ['ABC-123'] },
+            product: { userId: USER_ID, NOT: { id: 10 } },
+          },
+        }),
+      );
+    });
+
+    it('should point to the recycle bin when the duplicate is deleted', async () => {
+      prisma.productAttribute.findFirst.mockResolvedValue({
+        product: { sku: 'TEE-OLD', isDeleted: true },
+      });
+
+      await expect(
+        validator.validate([{ attributeId: 2, value: 'ABC-123' }], USER_ID),
+      ).rejects.toThrow('which is in the recycle bin');
+    });
+
+    it('should check barcodes against every form of the GTIN', async () => {
+      await validator.validate(
+        [{ attributeId: 3, value: '036000291452' }],
+        USER_ID,
+        { sku: 'TEE-BLUE' },
+      );
+
+      const { where } = prisma.productAttribute.findFirst.mock.calls[0][0];
+      expect(where.attributeId).toEqual({ in: [3] });
+      expect(where.value.in).toEqual(
+        expect.arrayContaining(['036000291452', '0036000291452']),
+      );
+      expect(where.product).toEqual({
+        userId: USER_ID,
+        NOT: { sku: 'TEE-BLUE' },
+      });
+    });
+
+    it('should reject barcodes with a wrong check digit', async () => {
+      await expect(
+        validator.validate(
+          [{ attributeId: 3, value: '036000291453' }],
+          USER_ID,
+        ),
+      ).rejects.toThrow('EAN: Invalid GTIN-12 check digit, expected 2');
+    });
+  });
+
+  describe('normalize', () => {
+    it('should store barcodes without spaces or hyphens', async () => {
+      const values = [{ attributeId: 3, value: '0 36000-29145 2' }];
+
+      await validator.normalize(values, USER_ID, { id: 10 });
+
+      expect(values[0].value).toBe('036000291452');
+    });
+
+    it('should reject changes to computed attributes', async () => {
+      prisma.productAttribute.findMany.mockResolvedValue([
+        { attributeId: 4, value: '25' },
+      ]);
+
+      await expect(
+        validator.normalize([{ attributeId: 4, value: '30' }], USER_ID, {
+          id: 10,
+        }),
+      ).rejects.toThrow('Computed attributes are read-only: Margin');
+    });
+
+    it("should accept a computed attribute's current value", async () => {
+      prisma.productAttribute.findMany.mockResolvedValue([
+        { attributeId: 4, value: '25' },
+      ]);
+
+      await expect(
+        validator.normalize([{ attributeId: 4, value: '25' }], USER_ID, {
+          id: 10,
+        }),
+      ).resolves.toBeUndefined();
+    });
+
+    it('should validate the rules after normalizing', async () => {
+      await expect(
+        validator.normalize([{ attributeId: 1, value: '0' }], USER_ID),
+      ).rejects.toThrow('Weight: Value 0 is below the minimum of 1');
+    });
+  });
+});
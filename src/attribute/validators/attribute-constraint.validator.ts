@@ -0,0 +1,329 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { PrismaService } from '../../prisma/prisma.service';
+import { AttributeValueValidator } from './attribute-value.validator';
+import { AttributeRuleHelper } from '../../utils/attribute-rule.helper';
+import { AttributeType } from '../../types/attribute-type.enum';
+import { BarcodeHelper } from '../../utils/barcode.helper';
+import { AttributeOptionHelper } from '../../utils/attribute-option.helper';
+
+// The product a value is saved on, by id or by SKU when it may not exist yet
+export interface ConstraintProduct {
+  id?: number;
+  sku?: string;
+}
+
+/**
+ * Enforces attribute validation rules on the values saved on a product,
+ * including "unique across catalog", which needs the other products' values.
+ * Barcodes are always unique across every Barcode attribute of the catalog.
+ * Products in the recycle bin keep their values, since they can be restored.
+ */
+@Injectable()
+export class AttributeConstraintValidator {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly validator: AttributeValueValidator,
+  ) {}
+
+  /**
+   * Normalize values the way product writes store them, then validate them.
+   * MEASUREMENT values are checked against their unit family and stored as
+   * '<number> <unit>', Dropdown/Multiselect values as option codes and
+   * barcodes without spaces or hyphens. The product's current values stay
+   * valid when their option was deprecated. Values are updated in place.
+   * Computed attributes are read-only.
+   */
+  async normalize(
+    values: { attributeId: number; value?: string | null }[],
+    userId: number,
+    product?: ConstraintProduct,
+  ): Promise<void> {
+    await this.validateNotComputed(values, userId, product);
+
+    const withValues = values.filter(
+      (v) => v.value !== undefined && v.value !== null && v.value !== '',
+    );
+    if (withValues.length === 0) {
+      return;
+    }
+
+    const attributes = await this.prisma.attribute.findMany({
+      where: {
+        id: { in: withValues.map((v) => v.attributeId) },
+        userId,
+        type: {
+          in: [
+            AttributeType.MEASUREMENT,
+            AttributeType.ENUM,
+            AttributeType.ARRAY,
+            AttributeType.BARCODE,
+          ],
+        },
+      },
+      select: {
+        id: true,
+        name: true,
+        type: true,
+        unitFamily: true,
+        defaultUnit: true,
+        options: AttributeOptionHelper.include(),
+      },
+    });
+    const byId = new Map(attributes.map((attr) => [attr.id, attr]));
+
+    // Current values of the product, so deprecated options it already has are kept
+    const currentCodes = new Map<number, string[]>();
+    if (
+      (product?.id || product?.sku) &&
+      attributes.some((attr) =>
+        attr.options.some((option) => option.isDeprecated),
+      )
+    ) {
+      const current = await this.prisma.productAttribute.findMany({
+        where: {
+          attributeId: { in: attributes.map((attr) => attr.id) },
+          product: {
+            userId,
+            ...(product.id ? { id: product.id } : { sku: product.sku }),
+          },
+        },
+        select: { attributeId: true, value: true },
+      });
+      for (const row of current) {
+        const attribute = byId.get(row.attributeId);
+        if (!attribute || !row.value) continue;
+        const codes =
+          (attribute.type as AttributeType) === AttributeType.ARRAY
+            ? this.validator.parseStoredValue(AttributeType.ARRAY, row.value)
+            : [row.value];
+        currentCodes.set(
+          row.attributeId,
+          Array.isArray(codes) ? codes.map(String) : [row.value],
+        );
+      }
+    }
+
+    for (const entry of withValues) {
+      const attribute = byId.get(entry.attributeId);
+      if (!attribute) continue;
+      const type = attribute.type as AttributeType;
+      try {
+        entry.value =
+          type === AttributeType.MEASUREMENT
+            ? this.validator.validateMeasurement(
+                entry.value,
+                attribute.unitFamily,
+                attribute.defaultUnit,
+              )
+            : type === AttributeType.BARCODE
+              ? this.validator.validate(AttributeType.BARCODE, entry.value)
+              : this.validator.validateOptions(
+                  type,
+                  entry.value,
+                  attribute.options,
+                  currentCodes.get(attribute.id),
+                );
+      } catch (error) {
+        throw new BadRequestException(`${attribute.name}: ${error.message}`);
+      }
+    }
+
+    await this.validate(withValues, userId, product);
+  }
+
+  /**
+   * Validate stored values by attribute ID. Throws a BadRequestException
+   * prefixed with the attribute name on the first value that breaks a rule.
+   */
+  async validate(
+    values: { attributeId: number; value?: string | null }[],
+    userId: number,
+    product?: ConstraintProduct,
+  ): Promise<void> {
+    const withValues = values.filter(
+      (v) => v.value !== undefined && v.value !== null && v.value !== '',
+    );
+    if (withValues.length === 0) {
+      return;
+    }
+
+    const attributes = await this.prisma.attribute.findMany({
+      where: { id: { in: withValues.map((v) => v.attributeId) }, userId },
+      select: {
+        id: true,
+        name: true,
+        type: true,
+        ...AttributeRuleHelper.select(),
+      },
+    });
+    const byId = new Map(attributes.map((attr) => [attr.id, attr]));
+
+    for (const { attributeId, value } of withValues) {
+      const attribute = byId.get(attributeId);
+      const isBarcode = attribute?.type === AttributeType.BARCODE;
+      if (
+        !attribute ||
+        (!isBarcode && !AttributeRuleHelper.hasRules(attribute))
+      )
+        continue;
+
+      try {
+        if (isBarcode) {
+          this.validator.validate(AttributeType.BARCODE, value);
+          await this.validateUniqueBarcode(String(value), userId, product);
+        }
+        this.validator.validateRules(attribute.type, String(value), attribute);
+        if (attribute.isUnique && !isBarcode) {
+          await this.validateUnique(
+            [attributeId],
+            [String(value)],
+            String(value),
+            userId,
+            product,
+          );
+        }
+      } catch (error) {
+        throw new BadRequestException(`${attribute.name}: ${error.message}`);
+      }
+    }
+  }
+
+  /**
+   * Validate values keyed by attribute name, as channel imports provide them.
+   * Names without an attribute yet have no rules and are skipped.
+   */
+  async validateNamed(
+    values: { name: string; value?: any }[],
+    userId: number,
+    product?: ConstraintProduct,
+  ): Promise<void> {
+    if (!values?.length) {
+      return;
+    }
+
+    const attributes = await this.prisma.attribute.findMany({
+      where: { name: { in: values.map((v) => v.name) }, userId },
+      select: { id: true, name: true },
+    });
+    const idsByName = new Map<string, number>(
+      attributes.map((attr) => [attr.name, attr.id]),
+    );
+
+    await this.validate(
+      values
+        .filter((v) => idsByName.has(v.name))
+        .map((v) => ({
+          attributeId: idsByName.get(v.name)!,
+          value:
+            v.value === null || v.value === undefined ? null : String(v.value),
+        })),
+      userId,
+      product,
+    );
+  }
+
+  // Computed attributes derive their value from other inputs. The product's
+  // current value is accepted, so exported rows can be imported back unchanged.
+  private async validateNotComputed(
+    values: { attributeId: number; value?: string | null }[],
+    userId: number,
+    product?: ConstraintProduct,
+  ): Promise<void> {
+    if (values.length === 0) {
+      return;
+    }
+
+    const computed = await this.prisma.attribute.findMany({
+      where: {
+        id: { in: values.map((v) => v.attributeId) },
+        userId,
+        computedKind: { not: null },
+      },
+      select: { id: true, name: true },
+    });
+    if (computed.length === 0) {
+      return;
+    }
+
+    const current =
+      product?.id || product?.sku
+        ? await this.prisma.productAttribute.findMany({
+            where: {
+              attributeId: { in: computed.map((attr) => attr.id) },
+              product: {
+                userId,
+                ...(product.id ? { id: product.id } : { sku: product.sku }),
+              },
+            },
+            select: { attributeId: true, value: true },
+          })
+        : [];
+    const currentValues = new Map(
+      current.map((row) => [row.attributeId, row.value || null]),
+    );
+
+    const changed = computed.filter((attr) =>
+      values.some(
+        (v) =>
+          v.attributeId === attr.id &&
+          (v.value || null) !== (currentValues.get(attr.id) ?? null),
+      ),
+    );
+    if (changed.length > 0) {
+      throw new BadRequestException(
+        `Computed attributes are read-only: ${changed.map((attr) => attr.name).join(', ')}`,
+      );
+    }
+  }
+
+  // The same GTIN written at another length, or in another Barcode attribute, collides too
+  private async validateUniqueBarcode(
+    value: string,
+    userId: number,
+    product?: ConstraintProduct,
+  ): Promise<void> {
+    const barcodeAttributes = await this.prisma.attribute.findMany({
+      where: { userId, type: AttributeType.BARCODE },
+      select: { id: true },
+    });
+
+    await this.validateUnique(
+      barcodeAttributes.map((attr) => attr.id),
+      BarcodeHelper.equivalents(value),
+      value,
+      userId,
+      product,
+    );
+  }
+
+  private async validateUnique(
+    attributeIds: number[],
+    values: string[],
+    value: string,
+    userId: number,
+    product?: ConstraintProduct,
+  ): Promise<void> {
+    const exclude = product?.id
+      ? { id: product.id }
+      : product?.sku
+        ? { sku: product.sku }
+        : undefined;
+
+    const duplicate = await this.prisma.productAttribute.findFirst({
+      where: {
+        attributeId: { in: attributeIds },
+        value: { in: values },
+        product: { userId, ...(exclude && { NOT: exclude }) },
+      },
+      select: { product: { select: { sku: true, isDeleted: true } } },
+    });
+
+    if (duplicate) {
+      throw new BadRequestException(
+        duplicate.product.isDeleted
+          ? `Value "${value}" is already used by product ${duplicate.product.sku}, which is in the recycle bin. Restore or permanently delete it first.`
+          : `Value "${value}" is already used by product ${duplicate.product.sku}`,
+      );
+    }
+  }
+}
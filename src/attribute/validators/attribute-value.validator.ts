@@ -1,5 +1,9 @@
 import { BadRequestException, Injectable } from '@nestjs/common';
 import { AttributeType } from '../../types/attribute-type.enum';
+import { MeasurementHelper, UnitFamily } from '../../utils/measurement.helper';
+import { AttributeOptionHelper, AttributeOptionRow } from '../../utils/attribute-option.helper';
+import { AttributeRuleHelper, AttributeRules } from '../../utils/attribute-rule.helper';
+import { BarcodeHelper } from '../../utils/barcode.helper';
 
 @Injectable()
 export class AttributeValueValidator {
@@ -18,6 +22,7 @@ export class AttributeValueValidator {
     this.validators.set(AttributeType.URL, this.validateUrl);
     this.validators.set(AttributeType.PHONE, this.validatePhone);
     this.validators.set(AttributeType.COLOR, this.validateColor);
+    this.validators.set(AttributeType.BARCODE, this.validateBarcode);
 
     // Numeric types
     this.validators.set(AttributeType.INTEGER, this.validateInteger);
@@ -25,6 +30,7 @@ export class AttributeValueValidator {
     this.validators.set(AttributeType.FLOAT, this.validateFloat);
     this.validators.set(AttributeType.CURRENCY, this.validateCurrency);
     this.validators.set(AttributeType.PERCENTAGE, this.validatePercentage);
+    this.validators.set(AttributeType.MEASUREMENT, (value) => this.validateMeasurement(value));
 
     // Boolean type
     this.validators.set(AttributeType.BOOLEAN, this.validateBoolean);
@@ -66,6 +72,83 @@ export class AttributeValueValidator {
     return typeof validated === 'object' ? JSON.stringify(validated) : String(validated);
   }
 
+  /**
+   * Validate a measurement and return it as '<number> <unit>'. With a unit
+   * family the unit must belong to it; a bare number takes the default unit.
+   */
+  validateMeasurement(value: any, unitFamily?: string | null, defaultUnit?: string | null): string | null {
+    if (value === null || value === undefined || String(value).trim() === '') {
+      return null;
+    }
+
+    const measurement = MeasurementHelper.parse(value, defaultUnit);
+    if (!measurement) {
+      throw new BadRequestException(
+        `Measurement must be a number with a known unit, e.g. "500 g": ${typeof value === 'object' ? JSON.stringify(value) : value}`
+      );
+    }
+    if (unitFamily && MeasurementHelper.familyOf(measurement.unit) !== (unitFamily as UnitFamily)) {
+      throw new BadRequestException(
+        `Unit "${measurement.unit}" is not a ${unitFamily} unit. Use one of: ${MeasurementHelper.unitsOf(unitFamily as UnitFamily).join(', ')}`
+      );
+    }
+    return MeasurementHelper.format(measurement);
+  }
+
+  /**
+   * Validate a Dropdown or Multiselect value against the attribute's option
+   * list and return the option code (ENUM) or a JSON array of codes (ARRAY).
+   * Options are matched by code or label. Deprecated options are rejected
+   * unless listed in keepCodes, e.g. the product's current value.
+   * Without options any value is accepted, as before option lists existed.
+   */
+  validateOptions(type: AttributeType, value: any, options: AttributeOptionRow[], keepCodes: string[] = []): string | null {
+    if (!options || options.length === 0) {
+      return this.validateAndStringify(type, value);
+    }
+    if (value === null || value === undefined || String(value).trim() === '') {
+      return null;
+    }
+
+    const values = type === AttributeType.ARRAY ? this.validateArray(value) : [value];
+    const codes: string[] = [];
+    for (const item of values) {
+      if (item === null || item === undefined || String(item).trim() === '') continue;
+
+      const option = AttributeOptionHelper.match(options, item);
+      if (!option) {
+        throw new BadRequestException(
+          `"${item}" is not a valid option. Use one of: ${options.filter(o => !o.isDeprecated).map(o => o.code).join(', ')}`
+        );
+      }
+      if (option.isDeprecated && !keepCodes.includes(option.code)) {
+        throw new BadRequestException(`Option "${option.code}" is deprecated and cannot be assigned`);
+      }
+      if (!codes.includes(option.code)) codes.push(option.code);
+    }
+
+    if (type === AttributeType.ARRAY) {
+      return JSON.stringify(codes);
+    }
+    return codes[0] ?? null;
+  }
+
+  /**
+   * Check a stored value against the attribute's validation rules (range,
+   * length, pattern, file types). Uniqueness is checked against the catalog
+   * by AttributeConstraintValidator.
+   */
+  validateRules(type: AttributeType | string, value: string | null, rules: AttributeRules): void {
+    if (value === null || value === undefined || value === '') {
+      return;
+    }
+
+    const error = AttributeRuleHelper.check(type, value, rules);
+    if (error) {
+      throw new BadRequestException(error);
+    }
+  }
+
   parseStoredValue(type: AttributeType, storedValue: string | null): any {
     if (storedValue === null || storedValue === undefined) {
       return null;
@@ -137,6 +220,15 @@ export class AttributeValueValidator {
     return colorStr;
   };
 
+  // Stored without spaces or hyphens so the same barcode always compares equal
+  private readonly validateBarcode = (value: any): string => {
+    const error = BarcodeHelper.validate(value);
+    if (error) {
+      throw new BadRequestException(error);
+    }
+    return BarcodeHelper.normalize(value);
+  };
+
   private readonly validateInteger = (value: any): number => {
     const num = Number(value);
     if (!Number.isInteger(num) || isNaN(num)) {
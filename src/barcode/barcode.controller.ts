@@ -0,0 +1,72 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Body,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { BarcodeService } from './barcode.service';
+import {
+  UpdateBarcodeSettingsDto,
+  AllocateBarcodesDto,
+  BarcodeSettingsResponseDto,
+  AllocateBarcodesResponseDto,
+  BarcodeValidationResponseDto,
+  BarcodeCollisionDto,
+} from './dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { OwnershipGuard } from '../auth/guards/ownership.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { RequirePermissions } from '../auth/decorators/permissions.decorator';
+import { EffectiveUserId } from '../auth/decorators/effective-user-id.decorator';
+import { User as GetUser } from '../auth/decorators/user.decorator';
+import type { User } from '@prisma/client';
+
+@Controller('barcodes')
+@UseGuards(JwtAuthGuard, OwnershipGuard, PermissionsGuard)
+export class BarcodeController {
+  constructor(private readonly barcodeService: BarcodeService) {}
+
+  @Get('settings')
+  @RequirePermissions({ resource: 'products', action: 'read' })
+  getSettings(
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<BarcodeSettingsResponseDto> {
+    return this.barcodeService.getSettings(effectiveUserId);
+  }
+
+  @Put('settings')
+  @RequirePermissions({ resource: 'products', action: 'update' })
+  updateSettings(
+    @Body() updateDto: UpdateBarcodeSettingsDto,
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<BarcodeSettingsResponseDto> {
+    return this.barcodeService.updateSettings(updateDto, effectiveUserId);
+  }
+
+  @Post('allocate')
+  @RequirePermissions({ resource: 'products', action: 'update' })
+  allocate(
+    @Body() allocateDto: AllocateBarcodesDto,
+    @GetUser() user: User,
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<AllocateBarcodesResponseDto> {
+    return this.barcodeService.allocate(allocateDto, effectiveUserId, user.id);
+  }
+
+  @Get('validate')
+  @RequirePermissions({ resource: 'products', action: 'read' })
+  validate(@Query('value') value: string): BarcodeValidationResponseDto {
+    return this.barcodeService.validate(value);
+  }
+
+  @Get('collisions')
+  @RequirePermissions({ resource: 'products', action: 'read' })
+  findCollisions(
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<BarcodeCollisionDto[]> {
+    return this.barcodeService.findCollisions(effectiveUserId);
+  }
+}
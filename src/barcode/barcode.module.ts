@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { BarcodeService } from './barcode.service';
+import { BarcodeController } from './barcode.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { ProductModule } from '../product/product.module';
+
+@Module({
+  imports: [PrismaModule, ProductModule],
+  controllers: [BarcodeController],
+  providers: [BarcodeService],
+  exports: [BarcodeService],
+})
+export class BarcodeModule {}
@@ -0,0 +1,386 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { ProductService } from '../product/product.service';
+import { AttributeType } from '../types/attribute-type.enum';
+import { AllocationFormat, BarcodeHelper } from '../utils/barcode.helper';
+import { withRecomputeAfterCommit } from '../utils/computedAttributeUtils';
+import {
+  UpdateBarcodeSettingsDto,
+  AllocateBarcodesDto,
+  BarcodeSettingsResponseDto,
+  AllocateBarcodesResponseDto,
+  BarcodeValidationResponseDto,
+  BarcodeCollisionDto,
+} from './dto';
+
+/**
+ * GS1 company prefix settings and automatic barcode allocation. Item
+ * references are handed out in order from the prefix; references whose
+ * barcode is already used anywhere in the catalog, including the recycle
+ * bin, are skipped.
+ */
+@Injectable()
+export class BarcodeService {
+  private readonly logger = new Logger(BarcodeService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly productService: ProductService,
+  ) {}
+
+  async getSettings(userId: number): Promise<BarcodeSettingsResponseDto> {
+    const settings = await this.prisma.barcodeSettings.findUnique({
+      where: { userId },
+      include: { attribute: { select: { name: true } } },
+    });
+    if (!settings) {
+      throw new NotFoundException('Barcode settings have not been configured');
+    }
+    return this.toSettingsResponse(settings);
+  }
+
+  async updateSettings(
+    dto: UpdateBarcodeSettingsDto,
+    userId: number,
+  ): Promise<BarcodeSettingsResponseDto> {
+    const existing = await this.prisma.barcodeSettings.findUnique({
+      where: { userId },
+    });
+    const format = (dto.format ??
+      existing?.format ??
+      'GTIN-13') as AllocationFormat;
+
+    const prefixError = BarcodeHelper.validatePrefix(dto.companyPrefix, format);
+    if (prefixError) {
+      throw new BadRequestException(prefixError);
+    }
+
+    const attribute = await this.prisma.attribute.findFirst({
+      where: { id: dto.attributeId, userId },
+      select: { id: true, name: true, type: true },
+    });
+    if (!attribute) {
+      throw new NotFoundException(
+        `Attribute with ID ${dto.attributeId} not found`,
+      );
+    }
+    if ((attribute.type as AttributeType) !== AttributeType.BARCODE) {
+      throw new BadRequestException(
+        `Attribute "${attribute.name}" is not a Barcode attribute`,
+      );
+    }
+
+    // A new prefix or format starts a new range
+    const sameRange =
+      existing?.companyPrefix === dto.companyPrefix &&
+      existing?.format === format;
+    const nextItemReference =
+      dto.nextItemReference ?? (sameRange ? existing.nextItemReference : 0);
+    const capacity = BarcodeHelper.capacity(dto.companyPrefix, format);
+    if (nextItemReference > capacity) {
+      throw new BadRequestException(
+        `nextItemReference cannot exceed the ${capacity} barcodes prefix ${dto.companyPrefix} allows`,
+      );
+    }
+
+    const data = {
+      companyPrefix: dto.companyPrefix,
+      format,
+      attributeId: attribute.id,
+      nextItemReference,
+    };
+    const settings = await this.prisma.barcodeSettings.upsert({
+      where: { userId },
+      update: data,
+      create: { ...data, userId },
+      include: { attribute: { select: { name: true } } },
+    });
+    return this.toSettingsResponse(settings);
+  }
+
+  /**
+   * Allocate barcodes from the company prefix to products without one.
+   * Parent products with variants are left out; their variants are sold.
+   */
+  async allocate(
+    dto: AllocateBarcodesDto,
+    userId: number,
+    actingUserId: number = userId,
+  ): Promise<AllocateBarcodesResponseDto> {
+    const settings = await this.prisma.barcodeSettings.findUnique({
+      where: { userId },
+    });
+    if (!settings?.attributeId) {
+      throw new BadRequestException(
+        'Configure a GS1 company prefix and barcode attribute before allocating barcodes',
+      );
+    }
+    const format = settings.format as AllocationFormat;
+    const attributeId = settings.attributeId;
+    const barcodeAttributeIds = await this.getBarcodeAttributeIds(userId);
+
+    const products = await this.prisma.product.findMany({
+      where: {
+        userId,
+        isDeleted: false,
+        ...(dto.productIds && { id: { in: dto.productIds } }),
+      },
+      select: {
+        id: true,
+        sku: true,
+        _count: { select: { variants: true } },
+        attributes: {
+          where: { attributeId: { in: barcodeAttributeIds } },
+          select: { value: true },
+        },
+        family: {
+          select: {
+            familyAttributes: {
+              where: { attributeId },
+              select: { id: true },
+            },
+          },
+        },
+      },
+      orderBy: { id: 'asc' },
+    });
+
+    const result: AllocateBarcodesResponseDto = {
+      dryRun: !!dto.dryRun,
+      allocated: [],
+      skipped: [],
+      collisions: 0,
+      nextItemReference: settings.nextItemReference,
+      remaining: 0,
+    };
+
+    // Products without a barcode, reporting the requested ones that are left out
+    const found = new Set(products.map((product) => product.id));
+    for (const productId of dto.productIds ?? []) {
+      if (!found.has(productId)) {
+        result.skipped.push({
+          productId,
+          sku: '',
+          reason: 'Product not found',
+        });
+      }
+    }
+    const targets = products.filter((product) => {
+      const reason = product.attributes.some((attr) => !!attr.value)
+        ? 'Product already has a barcode'
+        : product._count.variants > 0
+          ? 'Parent product; allocate to its variants instead'
+          : null;
+      if (reason && dto.productIds) {
+        result.skipped.push({
+          productId: product.id,
+          sku: product.sku,
+          reason,
+        });
+      }
+      return !reason;
+    });
+
+    const used = await this.getUsedBarcodes(barcodeAttributeIds, userId);
+    const capacity = BarcodeHelper.capacity(settings.companyPrefix, format);
+    let reference = settings.nextItemReference;
+
+    for (const product of targets) {
+      let barcode: string | null = null;
+      while (reference < capacity && !barcode) {
+        const candidate = BarcodeHelper.fromPrefix(
+          settings.companyPrefix,
+          reference++,
+          format,
+        );
+        if (used.has(BarcodeHelper.toGtin14(candidate)!)) {
+          result.collisions++;
+        } else {
+          barcode = candidate;
+        }
+      }
+
+      if (!barcode) {
+        result.skipped.push({
+          productId: product.id,
+          sku: product.sku,
+          reason: `Company prefix ${settings.companyPrefix} has no ${format} barcodes left`,
+        });
+        continue;
+      }
+      used.add(BarcodeHelper.toGtin14(barcode)!);
+      result.allocated.push({
+        productId: product.id,
+        sku: product.sku,
+        barcode,
+      });
+    }
+
+    result.nextItemReference = reference;
+    result.remaining = capacity - reference;
+    if (dto.dryRun || result.allocated.length === 0) {
+      return result;
+    }
+
+    for (const { productId } of result.allocated) {
+      await this.productService.beforeBulkEdit(productId, userId);
+    }
+
+    const familyAttributeIds = new Map(
+      targets.map((product) => [
+        product.id,
+        product.family?.familyAttributes[0]?.id ?? null,
+      ]),
+    );
+    await withRecomputeAfterCommit(() =>
+      this.prisma.$transaction(async (tx) => {
+        // Guards against a concurrent allocation handing out the same range
+        const claimed = await tx.barcodeSettings.updateMany({
+          where: {
+            id: settings.id,
+            nextItemReference: settings.nextItemReference,
+          },
+          data: { nextItemReference: reference },
+        });
+        if (claimed.count === 0) {
+          throw new ConflictException(
+            'Barcodes were allocated by another request at the same time; try again',
+          );
+        }
+
+        for (const { productId, barcode } of result.allocated) {
+          await tx.productAttribute.upsert({
+            where: { productId_attributeId: { productId, attributeId } },
+            update: { value: barcode },
+            create: {
+              productId,
+              attributeId,
+              familyAttributeId: familyAttributeIds.get(productId) ?? null,
+              value: barcode,
+            },
+          });
+        }
+      }),
+    );
+
+    for (const { productId } of result.allocated) {
+      await this.productService
+        .afterBulkEdit(productId, userId, actingUserId)
+        .catch((error) =>
+          this.logger.error(
+            `Follow-up after allocating a barcode to product ${productId} failed: ${error.message}`,
+          ),
+        );
+    }
+
+    this.logger.log(
+      `Allocated ${result.allocated.length} barcode(s) for user ${userId}`,
+    );
+    return result;
+  }
+
+  validate(value: string): BarcodeValidationResponseDto {
+    const parsed = BarcodeHelper.parse(value ?? '');
+    return {
+      value,
+      valid: !!parsed,
+      normalized: parsed?.value ?? null,
+      format: parsed?.format ?? null,
+      amazonIdentifierType: BarcodeHelper.amazonIdentifierType(value ?? ''),
+      error: parsed ? null : BarcodeHelper.validate(value ?? ''),
+    };
+  }
+
+  /**
+   * Barcodes shared by more than one product, e.g. from imports made before
+   * barcodes were checked, including products in the recycle bin
+   */
+  async findCollisions(userId: number): Promise<BarcodeCollisionDto[]> {
+    const values = await this.prisma.productAttribute.findMany({
+      where: {
+        attribute: { userId, type: AttributeType.BARCODE },
+        product: { userId },
+        value: { not: null },
+      },
+      select: {
+        value: true,
+        attribute: { select: { name: true } },
+        product: { select: { id: true, sku: true, isDeleted: true } },
+      },
+    });
+
+    const groups = new Map<string, BarcodeCollisionDto>();
+    for (const row of values) {
+      if (!row.value) continue;
+      const gtin =
+        BarcodeHelper.toGtin14(row.value) ?? BarcodeHelper.normalize(row.value);
+      const group = groups.get(gtin) ?? { gtin, products: [] };
+      group.products.push({
+        productId: row.product.id,
+        sku: row.product.sku,
+        attributeName: row.attribute.name,
+        value: row.value,
+        isDeleted: row.product.isDeleted,
+      });
+      groups.set(gtin, group);
+    }
+
+    return Array.from(groups.values()).filter(
+      (group) =>
+        new Set(group.products.map((product) => product.productId)).size > 1,
+    );
+  }
+
+  private async getBarcodeAttributeIds(userId: number): Promise<number[]> {
+    const attributes = await this.prisma.attribute.findMany({
+      where: { userId, type: AttributeType.BARCODE },
+      select: { id: true },
+    });
+    return attributes.map((attribute) => attribute.id);
+  }
+
+  // GTIN-14 forms of every barcode in the catalog, recycle bin included
+  private async getUsedBarcodes(
+    attributeIds: number[],
+    userId: number,
+  ): Promise<Set<string>> {
+    const values = await this.prisma.productAttribute.findMany({
+      where: {
+        attributeId: { in: attributeIds },
+        product: { userId },
+        value: { not: null },
+      },
+      select: { value: true },
+    });
+
+    const used = new Set<string>();
+    for (const { value } of values) {
+      const gtin = value && BarcodeHelper.toGtin14(value);
+      if (gtin) used.add(gtin);
+    }
+    return used;
+  }
+
+  private toSettingsResponse(settings: any): BarcodeSettingsResponseDto {
+    const capacity = BarcodeHelper.capacity(
+      settings.companyPrefix,
+      settings.format as AllocationFormat,
+    );
+    return {
+      companyPrefix: settings.companyPrefix,
+      format: settings.format,
+      attributeId: settings.attributeId,
+      attributeName: settings.attribute?.name ?? null,
+      nextItemReference: settings.nextItemReference,
+      capacity,
+      remaining: Math.max(capacity - settings.nextItemReference, 0),
+      updatedAt: settings.updatedAt,
+    };
+  }
+}
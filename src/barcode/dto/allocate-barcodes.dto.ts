@@ -0,0 +1,23 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayUnique,
+  IsArray,
+  IsBoolean,
+  IsInt,
+  IsOptional,
+} from 'class-validator';
+
+export class AllocateBarcodesDto {
+  // Products to allocate to; omitted = every product without a barcode
+  @IsOptional()
+  @IsArray()
+  @ArrayUnique()
+  @Type(() => Number)
+  @IsInt({ each: true })
+  productIds?: number[];
+
+  // Return the barcodes that would be allocated without saving them
+  @IsOptional()
+  @IsBoolean()
+  dryRun?: boolean;
+}
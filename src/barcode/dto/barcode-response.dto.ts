@@ -0,0 +1,51 @@
+export class BarcodeSettingsResponseDto {
+  companyPrefix: string;
+  format: string;
+  attributeId: number | null;
+  attributeName: string | null;
+  nextItemReference: number;
+  capacity: number; // Barcodes the prefix allows in the format
+  remaining: number; // Item references not allocated yet
+  updatedAt: Date;
+}
+
+export class AllocatedBarcodeDto {
+  productId: number;
+  sku: string;
+  barcode: string;
+}
+
+export class SkippedBarcodeDto {
+  productId: number;
+  sku: string;
+  reason: string;
+}
+
+export class AllocateBarcodesResponseDto {
+  dryRun: boolean;
+  allocated: AllocatedBarcodeDto[];
+  skipped: SkippedBarcodeDto[];
+  collisions: number; // Item references skipped because the barcode was in use
+  nextItemReference: number;
+  remaining: number;
+}
+
+export class BarcodeValidationResponseDto {
+  value: string;
+  valid: boolean;
+  normalized: string | null;
+  format: string | null;
+  amazonIdentifierType: string | null;
+  error: string | null;
+}
+
+export class BarcodeCollisionDto {
+  gtin: string; // GTIN-14 form shared by the products
+  products: {
+    productId: number;
+    sku: string;
+    attributeName: string;
+    value: string;
+    isDeleted: boolean;
+  }[];
+}
@@ -0,0 +1,29 @@
+import { Type } from 'class-transformer';
+import { IsIn, IsInt, IsOptional, Matches, Min } from 'class-validator';
+import { ALLOCATION_FORMATS } from '../../utils/barcode.helper';
+
+export class UpdateBarcodeSettingsDto {
+  // Assigned by GS1; the length decides how many barcodes can be allocated
+  @Matches(/^\d{6,11}$/, {
+    message: 'companyPrefix must be a GS1 company prefix of 6 to 11 digits',
+  })
+  companyPrefix: string;
+
+  @IsOptional()
+  @IsIn(ALLOCATION_FORMATS, {
+    message: `format must be one of: ${ALLOCATION_FORMATS.join(', ')}`,
+  })
+  format?: string;
+
+  // Barcode attribute allocated barcodes are stored in
+  @Type(() => Number)
+  @IsInt()
+  attributeId: number;
+
+  // Item reference to continue from; resets to 0 when the prefix changes
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  nextItemReference?: number;
+}
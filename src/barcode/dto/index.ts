@@ -0,0 +1,3 @@
+export * from './barcode-settings.dto';
+export * from './allocate-barcodes.dto';
+export * from './barcode-response.dto';
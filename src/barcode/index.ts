@@ -0,0 +1,4 @@
+export * from './barcode.controller';
+export * from './barcode.service';
+export * from './barcode.module';
+export * from './dto';
@@ -0,0 +1,524 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  Optional,
+  forwardRef,
+} from '@nestjs/common';
+import { Readable } from 'stream';
+import csv from 'csv-parser';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  NotificationService,
+  EntityType,
+  ActionType,
+} from '../notification/notification.service';
+import { ExportGeneratorService } from '../product/services/export-generator.service';
+import { ExportFormat } from '../product/dto/export-product.dto';
+import { parseExcel } from '../utils/excel-parser';
+import { withRecomputeAfterCommit } from '../utils/computedAttributeUtils';
+import { WooCommerceAutoSyncService } from '../integration/woocommerce/woocommerce-auto-sync.service';
+import {
+  CategoryImportResponseDto,
+  CategoryImportRowResultDto,
+  ImportCategoriesDto,
+} from './dto/category-import-export.dto';
+
+// Separator between the category names of the path column
+export const CATEGORY_PATH_SEPARATOR = ' > ';
+
+const CATEGORY_FILE_COLUMNS = ['path', 'description', 'family', 'sortOrder'];
+
+// Header variations accepted on import
+const CATEGORY_FILE_FIELD_MAPPINGS: Record<string, keyof CategoryFileRow> = {
+  path: 'path',
+  categorypath: 'path',
+  category: 'path',
+  description: 'description',
+  family: 'family',
+  sortorder: 'sortOrder',
+  order: 'sortOrder',
+};
+
+// Same rules as CreateCategoryDto
+const CATEGORY_NAME_PATTERN = /^[a-zA-Z0-9\s\-_&()']+$/;
+const MAX_NAME_LENGTH = 50;
+const MAX_DESCRIPTION_LENGTH = 500;
+
+interface CategoryFileRow {
+  path?: string;
+  description?: string;
+  family?: string;
+  sortOrder?: string;
+}
+
+interface CategoryData {
+  description?: string;
+  familyId?: number;
+  sortOrder?: number;
+}
+
+// Existing category, or one the import creates (negative key until written)
+interface PlannedCategory {
+  key: number;
+  name: string;
+  parentKey: number | null;
+  description: string | null;
+  familyId: number | null;
+  sortOrder: number;
+}
+
+type PlannedChange =
+  | {
+      type: 'create';
+      key: number;
+      name: string;
+      parentKey: number | null;
+      data: CategoryData;
+    }
+  | { type: 'update'; key: number; data: CategoryData };
+
+/**
+ * Category taxonomy as a file: one row per category with its full path, e.g.
+ * `Home > Garden > Tools`. Import upserts by path and can run as a dry run.
+ */
+@Injectable()
+export class CategoryImportExportService {
+  private readonly logger = new Logger(CategoryImportExportService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly notificationService: NotificationService,
+    private readonly exportGeneratorService: ExportGeneratorService,
+    @Optional()
+    @Inject(forwardRef(() => WooCommerceAutoSyncService))
+    private readonly wooAutoSyncService?: WooCommerceAutoSyncService,
+  ) {}
+
+  async exportCategories(
+    userId: number,
+    format: ExportFormat = ExportFormat.CSV,
+  ): Promise<{ buffer: Buffer; mimeType: string; filename: string }> {
+    const categories = await this.prisma.category.findMany({
+      where: { userId },
+      include: { family: { select: { name: true } } },
+      orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
+    });
+
+    // Parents before their subcategories, so the file imports in order
+    const rows: Array<Record<string, any>> = [];
+    const addSubtree = (parentId: number | null, path: string[]) => {
+      for (const category of categories.filter(
+        (c) => c.parentCategoryId === parentId,
+      )) {
+        const categoryPath = [...path, category.name];
+        rows.push({
+          path: categoryPath.join(CATEGORY_PATH_SEPARATOR),
+          description: category.description ?? '',
+          family: category.family?.name ?? '',
+          sortOrder: category.sortOrder,
+        });
+        addSubtree(category.id, categoryPath);
+      }
+    };
+    addSubtree(null, []);
+
+    const { buffer, mimeType, extension } =
+      await this.exportGeneratorService.generateFile(
+        rows,
+        CATEGORY_FILE_COLUMNS,
+        format,
+      );
+
+    this.logger.log(
+      `Exported ${rows.length} categories as ${format} for user: ${userId}`,
+    );
+    return {
+      buffer,
+      mimeType,
+      filename: `categories-${new Date().toISOString().slice(0, 10)}.${extension}`,
+    };
+  }
+
+  /**
+   * Create the categories of every path, ancestors included. Existing
+   * categories are matched by path and updated unless updateExisting is false.
+   * Rows with errors are reported and skipped; the other rows are written in
+   * one transaction.
+   */
+  async importCategories(
+    file: Express.Multer.File,
+    dto: ImportCategoriesDto,
+    userId: number,
+  ): Promise<CategoryImportResponseDto> {
+    if (!file || !file.buffer) {
+      throw new BadRequestException('Missing file upload');
+    }
+
+    const dryRun = dto.dryRun ?? false;
+    const updateExisting = dto.updateExisting ?? true;
+    const { rows, firstRowNumber } = await this.parseFile(file);
+
+    if (rows.length === 0) {
+      throw new BadRequestException('The file contains no categories');
+    }
+
+    const [categories, families] = await Promise.all([
+      this.prisma.category.findMany({
+        where: { userId },
+        select: {
+          id: true,
+          name: true,
+          parentCategoryId: true,
+          description: true,
+          familyId: true,
+          sortOrder: true,
+        },
+      }),
+      this.prisma.family.findMany({
+        where: { userId },
+        select: { id: true, name: true },
+      }),
+    ]);
+    const familyIds = new Map<string, number>(
+      families.map((family) => [family.name.toLowerCase(), family.id]),
+    );
+
+    const planned = new Map<string, PlannedCategory>();
+    const nextSortOrder = new Map<number | null, number>();
+    for (const category of categories) {
+      planned.set(this.plannedKey(category.parentCategoryId, category.name), {
+        key: category.id,
+        name: category.name,
+        parentKey: category.parentCategoryId,
+        description: category.description,
+        familyId: category.familyId,
+        sortOrder: category.sortOrder,
+      });
+      nextSortOrder.set(
+        category.parentCategoryId,
+        Math.max(
+          nextSortOrder.get(category.parentCategoryId) ?? 0,
+          category.sortOrder + 1,
+        ),
+      );
+    }
+
+    const changes: PlannedChange[] = [];
+    let tempKey = 0;
+    const plan = (
+      name: string,
+      parentKey: number | null,
+      data: CategoryData,
+    ): PlannedCategory => {
+      const sortOrder = data.sortOrder ?? nextSortOrder.get(parentKey) ?? 0;
+      nextSortOrder.set(
+        parentKey,
+        Math.max(nextSortOrder.get(parentKey) ?? 0, sortOrder + 1),
+      );
+
+      const category: PlannedCategory = {
+        key: --tempKey,
+        name,
+        parentKey,
+        description: data.description ?? null,
+        familyId: data.familyId ?? null,
+        sortOrder,
+      };
+      planned.set(this.plannedKey(parentKey, name), category);
+      changes.push({
+        type: 'create',
+        key: category.key,
+        name,
+        parentKey,
+        data: { ...data, sortOrder },
+      });
+      return category;
+    };
+
+    const results: CategoryImportRowResultDto[] = rows.map((row, index) => {
+      const rowNumber = index + firstRowNumber;
+      const path = row.path ?? '';
+
+      try {
+        const { names, data } = this.validateRow(row, familyIds);
+
+        let parentKey: number | null = null;
+        for (const name of names.slice(0, -1)) {
+          parentKey = (
+            planned.get(this.plannedKey(parentKey, name)) ??
+            plan(name, parentKey, {})
+          ).key;
+        }
+
+        const name = names[names.length - 1];
+        const existing = planned.get(this.plannedKey(parentKey, name));
+        if (!existing) {
+          plan(name, parentKey, data);
+          return { row: rowNumber, path, action: 'create' };
+        }
+
+        const changed: CategoryData = {};
+        if (
+          data.description !== undefined &&
+          data.description !== existing.description
+        ) {
+          changed.description = data.description;
+        }
+        if (
+          data.familyId !== undefined &&
+          data.familyId !== existing.familyId
+        ) {
+          changed.familyId = data.familyId;
+        }
+        if (
+          data.sortOrder !== undefined &&
+          data.sortOrder !== existing.sortOrder
+        ) {
+          changed.sortOrder = data.sortOrder;
+        }
+
+        // Created earlier as the ancestor of another path
+        const pending = changes.find((change) => change.key === existing.key);
+        if (pending?.type === 'create') {
+          Object.assign(existing, changed);
+          Object.assign(pending.data, changed);
+          return { row: rowNumber, path, action: 'create' };
+        }
+
+        if (!updateExisting || Object.keys(changed).length === 0) {
+          return { row: rowNumber, path, action: 'unchanged' };
+        }
+
+        Object.assign(existing, changed);
+        if (pending) {
+          Object.assign(pending.data, changed);
+        } else {
+          changes.push({ type: 'update', key: existing.key, data: changed });
+        }
+        return { row: rowNumber, path, action: 'update' };
+      } catch (error: any) {
+        return { row: rowNumber, path, action: 'error', error: error.message };
+      }
+    });
+
+    const created = changes.filter((change) => change.type === 'create');
+    const updated = changes.filter((change) => change.type === 'update');
+
+    if (!dryRun && changes.length > 0) {
+      await this.applyChanges(changes, userId);
+
+      if (created.length > 0) {
+        await this.notificationService.logBulkOperation(
+          userId,
+          EntityType.CATEGORY,
+          ActionType.BULK_CREATED,
+          created.length,
+          'Categories',
+        );
+      }
+      if (updated.length > 0) {
+        await this.notificationService.logBulkOperation(
+          userId,
+          EntityType.CATEGORY,
+          ActionType.BULK_UPDATED,
+          updated.length,
+          'Categories',
+        );
+
+        if (this.wooAutoSyncService) {
+          this.wooAutoSyncService
+            .autoSyncCategoryStructure(
+              updated.map((change) => change.key),
+              userId,
+            )
+            .catch((error: any) => {
+              this.logger.error(
+                `Failed to push imported categories to WooCommerce: ${error.message}`,
+              );
+            });
+        }
+      }
+    }
+
+    this.logger.log(
+      `${dryRun ? 'Dry run of category import' : 'Imported categories'} for user ${userId}: ${created.length} created, ${updated.length} updated`,
+    );
+
+    return {
+      dryRun,
+      totalRows: rows.length,
+      created: created.length,
+      updated: updated.length,
+      unchanged: results.filter((result) => result.action === 'unchanged')
+        .length,
+      failed: results.filter((result) => result.action === 'error').length,
+      rows: results,
+    };
+  }
+
+  private async applyChanges(
+    changes: PlannedChange[],
+    userId: number,
+  ): Promise<void> {
+    await withRecomputeAfterCommit(() =>
+      this.prisma.$transaction(
+        async (tx) => {
+          // Planned keys of created categories resolve to their new IDs
+          const createdIds = new Map<number, number>();
+          const idOf = (key: number | null) =>
+            key === null || key > 0 ? key : createdIds.get(key)!;
+
+          for (const change of changes) {
+            if (change.type === 'create') {
+              const category = await tx.category.create({
+                data: {
+                  name: change.name,
+                  parentCategoryId: idOf(change.parentKey),
+                  description: change.data.description ?? null,
+                  familyId: change.data.familyId ?? null,
+                  sortOrder: change.data.sortOrder,
+                  userId,
+                },
+              });
+              createdIds.set(change.key, category.id);
+            } else {
+              await tx.category.update({
+                where: { id: change.key },
+                data: change.data,
+              });
+            }
+          }
+        },
+        { timeout: 60000 },
+      ),
+    );
+  }
+
+  private validateRow(
+    row: CategoryFileRow,
+    familyIds: Map<string, number>,
+  ): { names: string[]; data: CategoryData } {
+    if (!row.path) {
+      throw new Error('Path is required');
+    }
+
+    const names = row.path.split('>').map((name) => name.trim());
+    for (const name of names) {
+      if (!name) {
+        throw new Error('Path contains an empty category name');
+      }
+      if (name.length > MAX_NAME_LENGTH || !CATEGORY_NAME_PATTERN.test(name)) {
+        throw new Error(
+          `Invalid category name "${name}": up to ${MAX_NAME_LENGTH} letters, numbers, spaces, hyphens, underscores, ampersands, parentheses and apostrophes`,
+        );
+      }
+    }
+
+    const data: CategoryData = {};
+    if (row.description !== undefined) {
+      if (row.description.length > MAX_DESCRIPTION_LENGTH) {
+        throw new Error(
+          `Description must not exceed ${MAX_DESCRIPTION_LENGTH} characters`,
+        );
+      }
+      data.description = row.description;
+    }
+
+    if (row.family !== undefined) {
+      const familyId = familyIds.get(row.family.toLowerCase());
+      if (familyId === undefined) {
+        throw new Error(`Family "${row.family}" not found`);
+      }
+      data.familyId = familyId;
+    }
+
+    if (row.sortOrder !== undefined) {
+      const sortOrder = Number(row.sortOrder);
+      if (!Number.isInteger(sortOrder) || sortOrder < 0) {
+        throw new Error(
+          `Sort order must be a whole number, got "${row.sortOrder}"`,
+        );
+      }
+      data.sortOrder = sortOrder;
+    }
+
+    return { names, data };
+  }
+
+  private async parseFile(
+    file: Express.Multer.File,
+  ): Promise<{ rows: CategoryFileRow[]; firstRowNumber: number }> {
+    const filename = file.originalname?.toLowerCase() ?? '';
+
+    try {
+      if (filename.endsWith('.xlsx')) {
+        const { rows } = await parseExcel(file.buffer);
+        return {
+          rows: rows.map((row) => this.normalizeRow(row)),
+          firstRowNumber: 2,
+        };
+      }
+
+      if (filename.endsWith('.json') || file.mimetype === 'application/json') {
+        const parsed = JSON.parse(file.buffer.toString('utf-8'));
+        if (!Array.isArray(parsed)) {
+          throw new Error('Expected an array of category rows');
+        }
+        return {
+          rows: parsed.map((row) => this.normalizeRow(row)),
+          firstRowNumber: 1,
+        };
+      }
+
+      if (filename.endsWith('.csv') || file.mimetype === 'text/csv') {
+        const rows = await this.parseCsv(file.buffer.toString('utf-8'));
+        return {
+          rows: rows.map((row) => this.normalizeRow(row)),
+          firstRowNumber: 2,
+        };
+      }
+    } catch (error: any) {
+      throw new BadRequestException(
+        `Failed to parse category file: ${error.message}`,
+      );
+    }
+
+    throw new BadRequestException(
+      'Unsupported category file, expected .csv, .json or .xlsx',
+    );
+  }
+
+  private parseCsv(csvData: string): Promise<Array<Record<string, string>>> {
+    return new Promise((resolve, reject) => {
+      const results: Array<Record<string, string>> = [];
+
+      Readable.from(csvData.replace(/^\uFEFF/, ''))
+        .pipe(csv())
+        .on('data', (data: Record<string, string>) => results.push(data))
+        .on('end', () => resolve(results))
+        .on('error', (error) => reject(error));
+    });
+  }
+
+  // Known columns with trimmed values; empty cells are left out
+  private normalizeRow(row: Record<string, any>): CategoryFileRow {
+    const normalized: CategoryFileRow = {};
+    for (const [key, value] of Object.entries(row ?? {})) {
+      const field =
+        CATEGORY_FILE_FIELD_MAPPINGS[key.toLowerCase().replace(/[\s_-]/g, '')];
+      if (!field || value === null || value === undefined) continue;
+
+      const text = String(value).trim();
+      if (text !== '') {
+        normalized[field] = text;
+      }
+    }
+    return normalized;
+  }
+
+  private plannedKey(parentKey: number | null, name: string): string {
+    return `${parentKey ?? 'root'}/${name}`;
+  }
+}
@@ -2,6 +2,7 @@ import {
   Controller,
   Get,
   Post,
+  Put,
   Body,
   Patch,
   Param,
@@ -12,12 +13,28 @@ import {
   HttpCode,
   HttpStatus,
   Logger,
+  Res,
+  StreamableFile,
+  UploadedFile,
+  UseInterceptors,
 } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import type { Response } from 'express';
 import { CategoryService } from './category.service';
+import { CategoryImportExportService } from './category-import-export.service';
 import { CreateCategoryDto } from './dto/create-category.dto';
 import { UpdateCategoryDto } from './dto/update-category.dto';
-import { CategoryResponseDto, CategoryTreeResponseDto } from './dto/category-response.dto';
+import {
+  CategoryResponseDto,
+  CategoryTreeResponseDto,
+  CategoryAttributesResponseDto,
+  CategoryFamilySuggestionDto,
+} from './dto/category-response.dto';
 import { BulkDeleteCategoryDto } from './dto/bulk-delete-category.dto';
+import { SetCategoryAttributesDto } from './dto/set-category-attributes.dto';
+import { SetChannelCategoryMappingDto, ChannelCategoryMappingResponseDto } from './dto/channel-category-mapping.dto';
+import { MoveCategoryDto, MergeCategoryDto, ReorderCategoriesDto } from './dto/category-structure.dto';
+import { ExportCategoriesDto, ImportCategoriesDto, CategoryImportResponseDto } from './dto/category-import-export.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { OwnershipGuard } from '../auth/guards/ownership.guard';
 import { PermissionsGuard } from '../auth/guards/permissions.guard';
@@ -32,7 +49,10 @@ import type { User } from '@prisma/client';
 export class CategoryController {
   private readonly logger = new Logger(CategoryController.name);
 
-  constructor(private readonly categoryService: CategoryService) {}
+  constructor(
+    private readonly categoryService: CategoryService,
+    private readonly categoryImportExportService: CategoryImportExportService,
+  ) {}
 
   @Post()
   @HttpCode(HttpStatus.CREATED)
@@ -82,6 +102,91 @@ export class CategoryController {
     return this.categoryService.getCategoryTree(effectiveUserId);
   }
 
+  @Get('export')
+  @RequirePermissions({ resource: 'categories', action: 'export' })
+  async exportCategories(
+    @Query() exportCategoriesDto: ExportCategoriesDto,
+    @GetUser() user: User,
+    @EffectiveUserId() effectiveUserId: number,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<StreamableFile> {
+    this.logger.log(`User ${user.id} exporting categories as ${exportCategoriesDto.format}`);
+    
+    const result = await this.categoryImportExportService.exportCategories(effectiveUserId, exportCategoriesDto.format);
+    
+    res.set({
+      'Content-Type': result.mimeType,
+      'Content-Disposition': `attachment; filename="${result.filename}"`,
+      'Content-Length': result.buffer.length,
+    });
+    
+    return new StreamableFile(result.buffer);
+  }
+
+  @Post('import')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions({ resource: 'categories', action: 'import' })
+  @UseInterceptors(FileInterceptor('file'))
+  async importCategories(
+    @UploadedFile() file: Express.Multer.File,
+    @Body() importCategoriesDto: ImportCategoriesDto,
+    @GetUser() user: User,
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<CategoryImportResponseDto> {
+    this.logger.log(`User ${user.id} importing categories${importCategoriesDto.dryRun ? ' (dry run)' : ''}`);
+    
+    return this.categoryImportExportService.importCategories(file, importCategoriesDto, effectiveUserId);
+  }
+
+  @Get('channel-mappings')
+  @RequirePermissions({ resource: 'integration', action: 'read' })
+  async getChannelMappings(
+    @GetUser() user: User,
+    @EffectiveUserId() effectiveUserId: number,
+    @Query('channel') channel?: string,
+    @Query('connectionId') connectionId?: string,
+  ): Promise<ChannelCategoryMappingResponseDto[]> {
+    this.logger.log(`User ${user.id} fetching category channel mappings`);
+    
+    return this.categoryService.getChannelMappings(effectiveUserId, channel, connectionId ? parseInt(connectionId) : undefined);
+  }
+
+  @Put('channel-mappings')
+  @RequirePermissions({ resource: 'integration', action: 'update' })
+  async setChannelMapping(
+    @Body() setChannelCategoryMappingDto: SetChannelCategoryMappingDto,
+    @GetUser() user: User,
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<ChannelCategoryMappingResponseDto> {
+    this.logger.log(`User ${user.id} mapping category ${setChannelCategoryMappingDto.categoryId} to ${setChannelCategoryMappingDto.channel}`);
+    
+    return this.categoryService.setChannelMapping(setChannelCategoryMappingDto, effectiveUserId);
+  }
+
+  @Delete('channel-mappings/:mappingId')
+  @RequirePermissions({ resource: 'integration', action: 'update' })
+  async removeChannelMapping(
+    @Param('mappingId', ParseIntPipe) mappingId: number,
+    @GetUser() user: User,
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<{ message: string }> {
+    this.logger.log(`User ${user.id} deleting category channel mapping: ${mappingId}`);
+    
+    return this.categoryService.removeChannelMapping(mappingId, effectiveUserId);
+  }
+
+  @Put('reorder')
+  @RequirePermissions({ resource: 'categories', action: 'update' })
+  async reorderCategories(
+    @Body() reorderCategoriesDto: ReorderCategoriesDto,
+    @GetUser() user: User,
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<CategoryResponseDto[]> {
+    this.logger.log(`User ${user.id} reordering categories under: ${reorderCategoriesDto.parentCategoryId ?? 'root'}`);
+    
+    return this.categoryService.reorderCategories(reorderCategoriesDto, effectiveUserId);
+  }
+
   @Get(':id')
   @RequirePermissions({ resource: 'categories', action: 'read' })
   async findOne(
@@ -116,6 +221,71 @@ export class CategoryController {
     return this.categoryService.getSubcategories(id, effectiveUserId, pageNum, limitNum);
   }
 
+  @Get(':id/attributes')
+  @RequirePermissions({ resource: 'categories', action: 'read' })
+  async getCategoryAttributes(
+    @Param('id', ParseIntPipe) id: number,
+    @GetUser() user: User,
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<CategoryAttributesResponseDto> {
+    this.logger.log(`User ${user.id} fetching attributes of category: ${id}`);
+    
+    return this.categoryService.getCategoryAttributes(id, effectiveUserId);
+  }
+
+  @Put(':id/attributes')
+  @RequirePermissions({ resource: 'categories', action: 'update' })
+  async setCategoryAttributes(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() setCategoryAttributesDto: SetCategoryAttributesDto,
+    @GetUser() user: User,
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<CategoryAttributesResponseDto> {
+    this.logger.log(`User ${user.id} setting attributes of category: ${id}`);
+    
+    return this.categoryService.setCategoryAttributes(id, setCategoryAttributesDto, effectiveUserId);
+  }
+
+  @Get(':id/family-suggestions')
+  @RequirePermissions({ resource: 'categories', action: 'read' })
+  async getFamilySuggestions(
+    @Param('id', ParseIntPipe) id: number,
+    @GetUser() user: User,
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<CategoryFamilySuggestionDto[]> {
+    this.logger.log(`User ${user.id} fetching family suggestions for category: ${id}`);
+    
+    return this.categoryService.getFamilySuggestions(id, effectiveUserId);
+  }
+
+  @Post(':id/move')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions({ resource: 'categories', action: 'update' })
+  async moveCategory(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() moveCategoryDto: MoveCategoryDto,
+    @GetUser() user: User,
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<CategoryResponseDto> {
+    this.logger.log(`User ${user.id} moving category: ${id}`);
+    
+    return this.categoryService.moveCategory(id, moveCategoryDto, effectiveUserId);
+  }
+
+  @Post(':id/merge')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions({ resource: 'categories', action: 'delete' })
+  async mergeCategory(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() mergeCategoryDto: MergeCategoryDto,
+    @GetUser() user: User,
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<CategoryResponseDto> {
+    this.logger.log(`User ${user.id} merging category ${id} into ${mergeCategoryDto.targetCategoryId}`);
+    
+    return this.categoryService.mergeCategory(id, mergeCategoryDto, effectiveUserId);
+  }
+
   @Patch(':id')
   @RequirePermissions({ resource: 'categories', action: 'update' })
   async update(
@@ -151,6 +321,6 @@ export class CategoryController {
     @EffectiveUserId() effectiveUserId: number,
   ) {
     this.logger.log(`User ${user.id} bulk deleting categories`);
-    return this.categoryService.bulkDelete(bulkDeleteDto, effectiveUserId);
+    return this.categoryService.bulkDelete(bulkDeleteDto, effectiveUserId, user.id);
   }
 }
@@ -1,13 +1,18 @@
-import { Module } from '@nestjs/common';
+import { Module, forwardRef } from '@nestjs/common';
 import { CategoryService } from './category.service';
 import { CategoryController } from './category.controller';
+import { CategoryImportExportService } from './category-import-export.service';
 import { PrismaModule } from '../prisma/prisma.module';
 import { NotificationModule } from '../notification/notification.module';
+import { OperationJournalModule } from '../operation-journal/operation-journal.module';
+import { CompletenessModule } from '../completeness/completeness.module';
+import { IntegrationModule } from '../integration/integration.module';
+import { ExportGeneratorService } from '../product/services/export-generator.service';
 
 @Module({
-  imports: [PrismaModule, NotificationModule],
+  imports: [PrismaModule, NotificationModule, OperationJournalModule, CompletenessModule, forwardRef(() => IntegrationModule)],
   controllers: [CategoryController],
-  providers: [CategoryService],
+  providers: [CategoryService, CategoryImportExportService, ExportGeneratorService],
   exports: [CategoryService],
 })
 export class CategoryModule {}
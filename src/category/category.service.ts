@@ -1,12 +1,28 @@
-import { Injectable, NotFoundException, ConflictException, ForbiddenException, BadRequestException, Logger } from '@nestjs/common';
+import { Injectable, NotFoundException, ConflictException, ForbiddenException, BadRequestException, Logger, forwardRef, Inject, Optional } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
-import { NotificationService } from '../notification/notification.service';
+import { NotificationService, EntityType, ActionType } from '../notification/notification.service';
+import { OperationJournalService } from '../operation-journal/operation-journal.service';
+import { OperationType } from '../operation-journal/dto';
+import { CompletenessService } from '../completeness/completeness.service';
 import { CreateCategoryDto } from './dto/create-category.dto';
 import { UpdateCategoryDto } from './dto/update-category.dto';
-import { CategoryResponseDto, CategoryTreeResponseDto } from './dto/category-response.dto';
+import {
+  CategoryResponseDto,
+  CategoryTreeResponseDto,
+  CategoryAttributesResponseDto,
+  CategoryFamilySuggestionDto,
+} from './dto/category-response.dto';
 import { BulkDeleteCategoryDto } from './dto/bulk-delete-category.dto';
+import { SetCategoryAttributesDto } from './dto/set-category-attributes.dto';
+import { SetChannelCategoryMappingDto, ChannelCategoryMappingResponseDto } from './dto/channel-category-mapping.dto';
+import { MoveCategoryDto, MergeCategoryDto, ReorderCategoriesDto } from './dto/category-structure.dto';
+import { IntegrationType } from '../integration/base/integration-type.enum';
+import { WooCommerceAutoSyncService } from '../integration/woocommerce/woocommerce-auto-sync.service';
 import { PaginatedResponse, PaginationUtils } from '../common';
-import type { Category } from '@prisma/client';
+import { CategoryAttributeHelper } from '../utils/category-attribute.helper';
+import type { ResolvedCategory } from '../utils/category-attribute.helper';
+import { withRecomputeAfterCommit } from '../utils/computedAttributeUtils';
+import type { Category, Prisma } from '@prisma/client';
 
 @Injectable()
 export class CategoryService {
@@ -15,6 +31,11 @@ export class CategoryService {
   constructor(
     private readonly prisma: PrismaService,
     private readonly notificationService: NotificationService,
+    private readonly operationJournalService: OperationJournalService,
+    private readonly completenessService: CompletenessService,
+    @Optional()
+    @Inject(forwardRef(() => WooCommerceAutoSyncService))
+    private readonly wooAutoSyncService?: WooCommerceAutoSyncService,
   ) {}
 
   async create(createCategoryDto: CreateCategoryDto, userId: number): Promise<CategoryResponseDto> {
@@ -32,11 +53,17 @@ export class CategoryService {
       // Check for name uniqueness based on category level
       await this.validateCategoryNameUniqueness(createCategoryDto.name, userId, createCategoryDto.parentCategoryId);
 
+      if (createCategoryDto.familyId) {
+        await this.validateFamily(createCategoryDto.familyId, userId);
+      }
+
       const result = await this.prisma.category.create({
         data: {
           name: createCategoryDto.name,
           description: createCategoryDto.description,
           parentCategoryId: createCategoryDto.parentCategoryId,
+          familyId: createCategoryDto.familyId ?? null,
+          sortOrder: await this.getNextSortOrder(createCategoryDto.parentCategoryId ?? null, userId),
           userId,
         },
         include: {
@@ -76,12 +103,16 @@ export class CategoryService {
           ...paginationOptions,
           include: {
             subcategories: {
+              orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
               include: {
                 subcategories: {
+                  orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
                   include: {
                     subcategories: {
+                      orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
                       include: {
                         subcategories: {
+                          orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
                           include: {
                             _count: {
                               select: {
@@ -117,7 +148,7 @@ export class CategoryService {
               },
             },
           },
-          orderBy: { name: 'asc' },
+          orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
         }),
         this.prisma.category.count({ where: whereCondition }),
       ]);
@@ -150,7 +181,7 @@ export class CategoryService {
           },
         },
       },
-      orderBy: { name: 'asc' },
+      orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
     });
 
     // Fetch the main category
@@ -190,6 +221,7 @@ export class CategoryService {
             name: sub.name,
             description: sub.description ?? undefined,
             parentCategoryId: sub.parentCategoryId ?? undefined,
+            sortOrder: sub.sortOrder,
             userId: sub.userId,
             createdAt: sub.createdAt,
             updatedAt: sub.updatedAt,
@@ -204,6 +236,8 @@ export class CategoryService {
       name: category.name,
       description: category.description ?? undefined,
       parentCategoryId: category.parentCategoryId ?? undefined,
+      familyId: category.familyId,
+      sortOrder: category.sortOrder,
       userId: category.userId,
       createdAt: category.createdAt,
       updatedAt: category.updatedAt,
@@ -278,6 +312,10 @@ export class CategoryService {
         await this.validateCategoryNameUniqueness(updateCategoryDto.name, userId, newParentId, id);
       }
 
+      if (updateCategoryDto.familyId) {
+        await this.validateFamily(updateCategoryDto.familyId, userId);
+      }
+
       // Prepare update data
       const updateData: any = {};
 
@@ -293,6 +331,10 @@ export class CategoryService {
         updateData.parentCategoryId = updateCategoryDto.parentCategoryId;
       }
 
+      if (updateCategoryDto.familyId !== undefined) {
+        updateData.familyId = updateCategoryDto.familyId;
+      }
+
       const result = await this.prisma.category.update({
         where: { id },
         data: updateData,
@@ -303,6 +345,15 @@ export class CategoryService {
       });
 
       this.logger.log(`Successfully updated category with ID: ${id}`);
+
+      // Moving a category changes the attributes it and its subcategories inherit
+      const moved = updateCategoryDto.parentCategoryId !== undefined && updateCategoryDto.parentCategoryId !== (existingCategory.parentCategoryId ?? null);
+      if (moved) {
+        await this.afterCategoryAttributesChange(id, userId);
+      }
+      if (moved || result.name !== existingCategory.name) {
+        this.syncCategoryStructure(moved && updateCategoryDto.parentCategoryId ? [id, updateCategoryDto.parentCategoryId] : [id], userId);
+      }
       // Log notification for category update
       try {
         await this.notificationService.logCategoryUpdate(userId, result.name, result.id);
@@ -360,32 +411,468 @@ export class CategoryService {
 
   async getCategoryTree(userId: number): Promise<CategoryTreeResponseDto[]> {
     try {
-      const categories = await this.prisma.category.findMany({
-        where: { userId },
-        include: {
-          subcategories: {
-            include: {
-              subcategories: {
-                include: {
-                  subcategories: true, // Support up to 3 levels deep
-                },
-              },
-            },
-          },
-        },
-        orderBy: { name: 'asc' },
-      });
+      const { categories, resolved } = await this.loadResolvedCategories(userId);
 
       // Get root categories (no parent)
       const rootCategories = categories.filter(cat => !cat.parentCategoryId);
 
-      return rootCategories.map(category => this.buildCategoryTree(category, 0, []));
+      return rootCategories.map(category => this.buildCategoryTree(category, 0, [], categories, resolved));
     } catch (error) {
       this.logger.error(`Failed to build category tree for user ${userId}: ${error.message}`, error.stack);
       throw new BadRequestException('Failed to fetch category tree');
     }
   }
 
+  async getCategoryAttributes(id: number, userId: number): Promise<CategoryAttributesResponseDto> {
+    const { resolved } = await this.loadResolvedCategories(userId);
+    const category = resolved.get(id);
+
+    if (!category) {
+      throw new NotFoundException(`Category with ID ${id} not found or access denied`);
+    }
+
+    return {
+      categoryId: id,
+      familyId: category.familyId,
+      attributes: category.attributes,
+    };
+  }
+
+  async setCategoryAttributes(id: number, dto: SetCategoryAttributesDto, userId: number): Promise<CategoryAttributesResponseDto> {
+    const category = await this.prisma.category.findFirst({
+      where: { id, userId },
+      select: { id: true },
+    });
+
+    if (!category) {
+      throw new NotFoundException(`Category with ID ${id} not found or access denied`);
+    }
+
+    const attributeIds = dto.attributes.map(item => item.attributeId);
+    if (new Set(attributeIds).size !== attributeIds.length) {
+      throw new BadRequestException('Each attribute can only be declared once per category');
+    }
+
+    if (attributeIds.length > 0) {
+      const count = await this.prisma.attribute.count({
+        where: { id: { in: attributeIds }, userId },
+      });
+
+      if (count !== attributeIds.length) {
+        throw new BadRequestException('One or more attributes not found or do not belong to you');
+      }
+    }
+
+    await this.prisma.$transaction([
+      this.prisma.categoryAttribute.deleteMany({ where: { categoryId: id } }),
+      this.prisma.categoryAttribute.createMany({
+        data: dto.attributes.map(item => ({
+          categoryId: id,
+          attributeId: item.attributeId,
+          isRequired: item.isRequired ?? false,
+        })),
+      }),
+    ]);
+
+    this.logger.log(`Set ${attributeIds.length} attributes on category ${id} for user: ${userId}`);
+    await this.afterCategoryAttributesChange(id, userId);
+
+    return this.getCategoryAttributes(id, userId);
+  }
+
+  /**
+   * Families ranked by how many of the category's effective attributes they
+   * contain. The category's own (or inherited) family always comes first.
+   */
+  async getFamilySuggestions(id: number, userId: number): Promise<CategoryFamilySuggestionDto[]> {
+    const { attributes, familyId } = await this.getCategoryAttributes(id, userId);
+
+    const families = await this.prisma.family.findMany({
+      where: { userId },
+      include: {
+        familyAttributes: { select: { attributeId: true } },
+      },
+      orderBy: { name: 'asc' },
+    });
+
+    return families
+      .map(family => {
+        const familyAttributeIds = family.familyAttributes.map(fa => fa.attributeId);
+        const matched = attributes.filter(attr => familyAttributeIds.includes(attr.attributeId));
+        const missing = attributes.filter(attr => !familyAttributeIds.includes(attr.attributeId));
+
+        return {
+          familyId: family.id,
+          familyName: family.name,
+          assigned: family.id === familyId,
+          coverage: CategoryAttributeHelper.familyCoverage(attributes, familyAttributeIds),
+          matchedAttributes: matched.map(attr => ({ id: attr.attributeId, name: attr.attributeName })),
+          missingAttributes: missing.map(attr => ({ id: attr.attributeId, name: attr.attributeName, isRequired: attr.isRequired })),
+        };
+      })
+      .filter(suggestion => suggestion.assigned || suggestion.coverage > 0)
+      .sort((a, b) => Number(b.assigned) - Number(a.assigned) || b.coverage - a.coverage);
+  }
+
+  /**
+   * Move a category with its subtree under another parent, or to the root. A
+   * new parent inside the subtree is first promoted to the category's old
+   * parent, as on update.
+   */
+  async moveCategory(id: number, dto: MoveCategoryDto, userId: number): Promise<CategoryResponseDto> {
+    try {
+      const category = await this.prisma.category.findFirst({
+        where: { id, userId },
+      });
+
+      if (!category) {
+        throw new NotFoundException(`Category with ID ${id} not found or access denied`);
+      }
+
+      const newParentId = dto.parentCategoryId ?? null;
+      if (newParentId === id) {
+        throw new BadRequestException('Category cannot be its own parent');
+      }
+
+      if (newParentId) {
+        await this.validateParentCategory(newParentId, userId);
+      }
+      await this.validateCategoryNameUniqueness(category.name, userId, newParentId, id);
+
+      this.logger.log(`Moving category: ${id} under ${newParentId ?? 'root'} for user: ${userId}`);
+
+      const result = await withRecomputeAfterCommit(() => this.prisma.$transaction(async (tx) => {
+        if (newParentId) {
+          await this.validateNoCircularReferenceForUpdate(id, newParentId, userId, tx);
+        }
+
+        // Make room at the requested position, otherwise append after the new siblings
+        if (dto.sortOrder !== undefined) {
+          await tx.category.updateMany({
+            where: { userId, parentCategoryId: newParentId, sortOrder: { gte: dto.sortOrder }, id: { not: id } },
+            data: { sortOrder: { increment: 1 } },
+          });
+        }
+        const sortOrder = dto.sortOrder ?? await this.getNextSortOrder(newParentId, userId, tx, id);
+
+        return tx.category.update({
+          where: { id },
+          data: { parentCategoryId: newParentId, sortOrder },
+          include: {
+            parentCategory: true,
+            subcategories: true,
+          },
+        });
+      }));
+
+      this.logger.log(`Successfully moved category with ID: ${id}`);
+
+      await this.notificationService.createNotification(userId, EntityType.CATEGORY, ActionType.UPDATED, result.name, id, {
+        details: result.parentCategory ? `Moved under "${result.parentCategory.name}"` : 'Moved to the root',
+        oldValues: { parentCategoryId: category.parentCategoryId, sortOrder: category.sortOrder },
+        newValues: { parentCategoryId: newParentId, sortOrder: result.sortOrder },
+      });
+
+      if (newParentId !== category.parentCategoryId) {
+        await this.afterCategoryAttributesChange(id, userId);
+      }
+
+      // Siblings may have shifted; a promoted parent changed its own parent
+      const siblings = await this.prisma.category.findMany({
+        where: { userId, parentCategoryId: newParentId },
+        select: { id: true },
+      });
+      this.syncCategoryStructure([...siblings.map(sibling => sibling.id), ...(newParentId ? [newParentId] : [])], userId);
+
+      return this.transformCategoryForResponse(result);
+    } catch (error) {
+      this.handleDatabaseError(error, 'move');
+    }
+  }
+
+  /**
+   * Merge a category into another: its products, subcategories, attributes and
+   * channel mappings move to the target, then it is deleted. Attributes and
+   * mappings the target already has are dropped.
+   */
+  async mergeCategory(id: number, dto: MergeCategoryDto, userId: number): Promise<CategoryResponseDto> {
+    try {
+      const targetId = dto.targetCategoryId;
+      if (targetId === id) {
+        throw new BadRequestException('A category cannot be merged into itself');
+      }
+
+      const [source, target] = await Promise.all([
+        this.prisma.category.findFirst({
+          where: { id, userId },
+          include: { subcategories: { select: { id: true, name: true } } },
+        }),
+        this.prisma.category.findFirst({
+          where: { id: targetId, userId },
+          include: { subcategories: { select: { id: true, name: true } } },
+        }),
+      ]);
+
+      if (!source) {
+        throw new NotFoundException(`Category with ID ${id} not found or access denied`);
+      }
+      if (!target) {
+        throw new BadRequestException('Target category not found or does not belong to you');
+      }
+
+      // Subcategory names are unique per parent
+      const targetSubcategoryNames = new Set(target.subcategories.filter(sub => sub.id !== id).map(sub => sub.name));
+      const conflicts = source.subcategories
+        .filter(sub => sub.id !== targetId && targetSubcategoryNames.has(sub.name))
+        .map(sub => sub.name);
+      if (conflicts.length > 0) {
+        throw new BadRequestException(`The target category already has subcategories named: ${conflicts.join(', ')}`);
+      }
+
+      this.logger.log(`Merging category: ${id} into ${targetId} for user: ${userId}`);
+
+      const productIds = await withRecomputeAfterCommit(() => this.prisma.$transaction(async (tx) => {
+        // A target inside the merged subtree takes the merged category's place first
+        await this.validateNoCircularReferenceForUpdate(id, targetId, userId, tx);
+
+        const products = await tx.product.findMany({
+          where: { userId, OR: [{ categoryId: id }, { categories: { some: { categoryId: id } } }] },
+          select: { id: true },
+        });
+
+        // Products listed in both categories keep the target's row, primary when either was
+        const sourceRows = await tx.productCategory.findMany({ where: { categoryId: id } });
+        const targetRows = await tx.productCategory.findMany({
+          where: { categoryId: targetId, productId: { in: sourceRows.map(row => row.productId) } },
+          select: { productId: true },
+        });
+        const inBoth = new Set(targetRows.map(row => row.productId));
+        const primaryInBoth = sourceRows.filter(row => row.isPrimary && inBoth.has(row.productId)).map(row => row.productId);
+
+        await tx.productCategory.deleteMany({ where: { categoryId: id, productId: { in: Array.from(inBoth) } } });
+        await tx.productCategory.updateMany({ where: { categoryId: id }, data: { categoryId: targetId } });
+        if (primaryInBoth.length > 0) {
+          await tx.productCategory.updateMany({
+            where: { categoryId: targetId, productId: { in: primaryInBoth } },
+            data: { isPrimary: true },
+          });
+        }
+        await tx.product.updateMany({ where: { categoryId: id }, data: { categoryId: targetId } });
+
+        // Subcategories follow the target's own subcategories
+        const offset = await this.getNextSortOrder(targetId, userId, tx, id);
+        await tx.category.updateMany({
+          where: { parentCategoryId: id, userId },
+          data: { parentCategoryId: targetId, sortOrder: { increment: offset } },
+        });
+
+        const targetAttributes = await tx.categoryAttribute.findMany({
+          where: { categoryId: targetId },
+          select: { attributeId: true },
+        });
+        await tx.categoryAttribute.updateMany({
+          where: { categoryId: id, attributeId: { notIn: targetAttributes.map(attr => attr.attributeId) } },
+          data: { categoryId: targetId },
+        });
+
+        const [sourceMappings, targetMappings] = await Promise.all([
+          tx.channelCategoryMapping.findMany({ where: { categoryId: id } }),
+          tx.channelCategoryMapping.findMany({ where: { categoryId: targetId } }),
+        ]);
+        const movedMappingIds = sourceMappings
+          .filter(mapping => !targetMappings.some(t => t.channel === mapping.channel && t.connectionId === mapping.connectionId))
+          .map(mapping => mapping.id);
+        if (movedMappingIds.length > 0) {
+          await tx.channelCategoryMapping.updateMany({
+            where: { id: { in: movedMappingIds } },
+            data: { categoryId: targetId },
+          });
+        }
+
+        if (!target.familyId && source.familyId) {
+          await tx.category.update({ where: { id: targetId }, data: { familyId: source.familyId } });
+        }
+
+        await tx.category.delete({ where: { id } });
+        return products.map(product => product.id);
+      }));
+
+      this.logger.log(`Successfully merged category ${id} into ${targetId}, ${productIds.length} product(s) re-pointed`);
+
+      await this.notificationService.createNotification(userId, EntityType.CATEGORY, ActionType.UPDATED, target.name, targetId, {
+        details: `"${source.name}" was merged into it`,
+        count: productIds.length,
+      });
+      await this.notificationService.logCategoryDeletion(userId, source.name);
+
+      await this.afterCategoryAttributesChange(targetId, userId);
+
+      if (this.wooAutoSyncService) {
+        this.wooAutoSyncService.autoSyncCategoryMerge(id, targetId, productIds, userId).catch((error: any) => {
+          this.logger.error(`Failed to push merge of category ${id} to WooCommerce: ${error.message}`);
+        });
+      }
+
+      const result = await this.prisma.category.findUnique({
+        where: { id: targetId },
+        include: {
+          parentCategory: true,
+          subcategories: true,
+        },
+      });
+      return this.transformCategoryForResponse(result);
+    } catch (error) {
+      this.handleDatabaseError(error, 'merge');
+    }
+  }
+
+  /**
+   * Set the order of siblings. Listed categories come first in the given
+   * order; siblings not listed keep their relative order after them.
+   */
+  async reorderCategories(dto: ReorderCategoriesDto, userId: number): Promise<CategoryResponseDto[]> {
+    try {
+      const parentId = dto.parentCategoryId ?? null;
+      const parent = parentId
+        ? await this.prisma.category.findFirst({ where: { id: parentId, userId }, select: { id: true, name: true } })
+        : null;
+
+      if (parentId && !parent) {
+        throw new BadRequestException('Parent category not found or does not belong to you');
+      }
+
+      if (new Set(dto.categoryIds).size !== dto.categoryIds.length) {
+        throw new BadRequestException('Each category can only be listed once');
+      }
+
+      const siblings = await this.prisma.category.findMany({
+        where: { userId, parentCategoryId: parentId },
+        select: { id: true, name: true },
+        orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
+      });
+      const siblingIds = siblings.map(sibling => sibling.id);
+
+      const foreign = dto.categoryIds.filter(categoryId => !siblingIds.includes(categoryId));
+      if (foreign.length > 0) {
+        throw new BadRequestException(
+          `Categories ${foreign.join(', ')} are not ${parent ? `subcategories of "${parent.name}"` : 'root categories'}`,
+        );
+      }
+
+      const ordered = [...dto.categoryIds, ...siblingIds.filter(siblingId => !dto.categoryIds.includes(siblingId))];
+
+      await this.prisma.$transaction(
+        ordered.map((categoryId, index) =>
+          this.prisma.category.update({
+            where: { id: categoryId },
+            data: { sortOrder: index },
+          }),
+        ),
+      );
+
+      this.logger.log(`Reordered ${ordered.length} categories under ${parentId ?? 'root'} for user: ${userId}`);
+
+      const names = ordered.map(categoryId => siblings.find(sibling => sibling.id === categoryId)!.name);
+      if (parent) {
+        await this.notificationService.createNotification(userId, EntityType.CATEGORY, ActionType.UPDATED, parent.name, parent.id, {
+          details: 'Subcategories were reordered',
+          affectedItems: names,
+        });
+      } else {
+        await this.notificationService.createNotification(userId, EntityType.CATEGORY, ActionType.BULK_UPDATED, 'Root categories', undefined, {
+          count: ordered.length,
+          details: 'Root categories were reordered',
+          affectedItems: names,
+        });
+      }
+
+      this.syncCategoryStructure(ordered, userId);
+
+      const categories = await this.prisma.category.findMany({
+        where: { userId, parentCategoryId: parentId },
+        include: {
+          parentCategory: true,
+          subcategories: true,
+        },
+        orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
+      });
+      return categories.map(category => this.transformCategoryForResponse(category));
+    } catch (error) {
+      this.handleDatabaseError(error, 'reorder');
+    }
+  }
+
+  async getChannelMappings(userId: number, channel?: string, connectionId?: number): Promise<ChannelCategoryMappingResponseDto[]> {
+    const mappings = await this.prisma.channelCategoryMapping.findMany({
+      where: {
+        userId,
+        ...(channel ? { channel } : {}),
+        ...(connectionId ? { connectionId } : {}),
+      },
+      include: { category: { select: { name: true } } },
+      orderBy: [{ channel: 'asc' }, { connectionId: 'asc' }, { categoryId: 'asc' }],
+    });
+
+    return mappings.map(mapping => this.transformMappingForResponse(mapping));
+  }
+
+  /**
+   * Map a category to a channel category for one connection, replacing its
+   * previous mapping. Subcategories without a mapping of their own use it too.
+   */
+  async setChannelMapping(dto: SetChannelCategoryMappingDto, userId: number): Promise<ChannelCategoryMappingResponseDto> {
+    const category = await this.prisma.category.findFirst({
+      where: { id: dto.categoryId, userId },
+      select: { id: true },
+    });
+
+    if (!category) {
+      throw new BadRequestException('Category not found or does not belong to you');
+    }
+
+    await this.validateConnection(dto.channel, dto.connectionId, userId);
+
+    const data = {
+      externalCategoryId: dto.externalCategoryId,
+      externalCategoryName: dto.externalCategoryName ?? null,
+    };
+    const mapping = await this.prisma.channelCategoryMapping.upsert({
+      where: {
+        userId_channel_connectionId_categoryId: {
+          userId,
+          channel: dto.channel,
+          connectionId: dto.connectionId,
+          categoryId: dto.categoryId,
+        },
+      },
+      create: {
+        userId,
+        channel: dto.channel,
+        connectionId: dto.connectionId,
+        categoryId: dto.categoryId,
+        ...data,
+      },
+      update: data,
+      include: { category: { select: { name: true } } },
+    });
+
+    this.logger.log(`Mapped category ${dto.categoryId} to ${dto.channel} category ${dto.externalCategoryId} for connection ${dto.connectionId}`);
+    return this.transformMappingForResponse(mapping);
+  }
+
+  async removeChannelMapping(mappingId: number, userId: number): Promise<{ message: string }> {
+    const mapping = await this.prisma.channelCategoryMapping.findFirst({
+      where: { id: mappingId, userId },
+    });
+
+    if (!mapping) {
+      throw new NotFoundException(`Category mapping with ID ${mappingId} not found`);
+    }
+
+    await this.prisma.channelCategoryMapping.delete({ where: { id: mappingId } });
+    return { message: 'Category mapping successfully deleted' };
+  }
+
   async getSubcategories(id: number, userId: number, page: number = 1, limit: number = 10): Promise<PaginatedResponse<CategoryResponseDto>> {
     try {
       // Verify ownership of parent category
@@ -406,7 +893,7 @@ export class CategoryService {
             parentCategory: true,
             subcategories: true,
           },
-          orderBy: { name: 'asc' },
+          orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
         }),
         this.prisma.category.count({ where: whereCondition }),
       ]);
@@ -516,41 +1003,56 @@ export class CategoryService {
     // This method is a no-op for create, but kept for consistency
   }
 
-  private async validateNoCircularReferenceForUpdate(categoryId: number, newParentId: number, userId: number): Promise<void> {
+  /**
+   * Returns true when the new parent was a descendant and has been promoted to
+   * the category's old parent. Pass a transaction client to include the
+   * promotion in a larger operation.
+   */
+  private async validateNoCircularReferenceForUpdate(categoryId: number, newParentId: number, userId: number, tx?: Prisma.TransactionClient): Promise<boolean> {
     // Get all descendants of the category being updated
-    const descendants = await this.getAllDescendants(categoryId, userId);
+    const descendants = await this.getAllDescendants(categoryId, userId, tx);
     
-    if (descendants.some(desc => desc.id === newParentId)) {
-      // Handle the promotion to avoid circular reference
-      await this.prisma.$transaction(async (tx) => {
-        // Get category's old parent
-        const category = await tx.category.findFirst({
-          where: { id: categoryId, userId },
-          select: { parentCategoryId: true },
-        });
+    if (!descendants.some(desc => desc.id === newParentId)) {
+      return false;
+    }
 
-        if (!category) {
-          throw new NotFoundException(`Category with ID ${categoryId} not found`);
-        }
+    // Handle the promotion to avoid circular reference
+    const promote = async (client: Prisma.TransactionClient) => {
+      // Get category's old parent
+      const category = await client.category.findFirst({
+        where: { id: categoryId, userId },
+        select: { parentCategoryId: true },
+      });
+
+      if (!category) {
+        throw new NotFoundException(`Category with ID ${categoryId} not found`);
+      }
 
-        const oldParentId = category.parentCategoryId;
+      const oldParentId = category.parentCategoryId;
 
-        // Move the newParent to have parent = oldParentId
-        await tx.category.update({
-          where: { id: newParentId },
-          data: { parentCategoryId: oldParentId },
-        });
+      // Move the newParent to have parent = oldParentId
+      await client.category.update({
+        where: { id: newParentId },
+        data: { parentCategoryId: oldParentId },
       });
+    };
+
+    if (tx) {
+      await promote(tx);
+    } else {
+      await withRecomputeAfterCommit(() => this.prisma.$transaction(promote));
     }
+    return true;
   }
 
-  private async getAllDescendants(categoryId: number, userId: number): Promise<Category[]> {
+  private async getAllDescendants(categoryId: number, userId: number, tx?: Prisma.TransactionClient): Promise<Category[]> {
+    const client = tx ?? this.prisma;
     const descendants: Category[] = [];
     const toProcess = [categoryId];
 
     while (toProcess.length > 0) {
       const currentId = toProcess.shift()!;
-      const children = await this.prisma.category.findMany({
+      const children = await client.category.findMany({
         where: {
           parentCategoryId: currentId,
           userId,
@@ -564,7 +1066,13 @@ export class CategoryService {
     return descendants;
   }
 
-  private buildCategoryTree(category: any, level: number, path: string[]): CategoryTreeResponseDto {
+  private buildCategoryTree(
+    category: any,
+    level: number,
+    path: string[],
+    categories: any[],
+    resolved: Map<number, ResolvedCategory>,
+  ): CategoryTreeResponseDto {
     const currentPath = [...path, category.name];
 
     return {
@@ -573,12 +1081,93 @@ export class CategoryService {
       description: category.description,
       level,
       path: currentPath,
-      subcategories: category.subcategories?.map((sub: any) => 
-        this.buildCategoryTree(sub, level + 1, currentPath)
-      ) || [],
+      sortOrder: category.sortOrder,
+      familyId: resolved.get(category.id)?.familyId ?? null,
+      attributes: resolved.get(category.id)?.attributes ?? [],
+      subcategories: categories
+        .filter(sub => sub.parentCategoryId === category.id)
+        .map(sub => this.buildCategoryTree(sub, level + 1, currentPath, categories, resolved)),
     };
   }
 
+  // All categories of a user with their declared attributes, resolved with inheritance
+  private async loadResolvedCategories(userId: number): Promise<{ categories: any[]; resolved: Map<number, ResolvedCategory> }> {
+    const categories = await this.prisma.category.findMany({
+      where: { userId },
+      include: {
+        categoryAttributes: CategoryAttributeHelper.include(),
+      },
+      orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
+    });
+
+    return { categories, resolved: CategoryAttributeHelper.resolveAll(categories) };
+  }
+
+  private async afterCategoryAttributesChange(categoryId: number, userId: number): Promise<void> {
+    const descendants = await this.getAllDescendants(categoryId, userId);
+    this.completenessService.onCategoryAttributesChange(userId, [categoryId, ...descendants.map(desc => desc.id)]);
+  }
+
+  // Position after the last sibling under a parent (null = root)
+  private async getNextSortOrder(parentCategoryId: number | null, userId: number, tx?: Prisma.TransactionClient, excludeId?: number): Promise<number> {
+    const { _max } = await (tx ?? this.prisma).category.aggregate({
+      where: {
+        userId,
+        parentCategoryId,
+        ...(excludeId ? { id: { not: excludeId } } : {}),
+      },
+      _max: { sortOrder: true },
+    });
+
+    return _max.sortOrder === null ? 0 : _max.sortOrder + 1;
+  }
+
+  // Push the structure of changed categories to the WooCommerce stores that received them
+  private syncCategoryStructure(categoryIds: number[], userId: number): void {
+    if (!this.wooAutoSyncService) return;
+
+    this.wooAutoSyncService.autoSyncCategoryStructure(categoryIds, userId).catch((error: any) => {
+      this.logger.error(`Failed to push categories ${categoryIds.join(', ')} to WooCommerce: ${error.message}`);
+    });
+  }
+
+  private async validateConnection(channel: string, connectionId: number, userId: number): Promise<void> {
+    const connection = (channel as IntegrationType) === IntegrationType.WOOCOMMERCE
+      ? await this.prisma.wooCommerceConnection.findFirst({ where: { id: connectionId, userId }, select: { id: true } })
+      : await this.prisma.myDealConnection.findFirst({ where: { id: connectionId, userId }, select: { id: true } });
+
+    if (!connection) {
+      throw new BadRequestException(`${channel} connection ${connectionId} not found or does not belong to you`);
+    }
+  }
+
+  private transformMappingForResponse(mapping: any): ChannelCategoryMappingResponseDto {
+    return {
+      id: mapping.id,
+      channel: mapping.channel,
+      connectionId: mapping.connectionId,
+      categoryId: mapping.categoryId,
+      categoryName: mapping.category?.name,
+      externalCategoryId: mapping.externalCategoryId,
+      externalCategoryName: mapping.externalCategoryName,
+      createdAt: mapping.createdAt,
+      updatedAt: mapping.updatedAt,
+    };
+  }
+
+  private async validateFamily(familyId: number, userId: number): Promise<void> {
+    const family = await this.prisma.family.findFirst({
+      where: {
+        id: familyId,
+        userId,
+      },
+    });
+
+    if (!family) {
+      throw new BadRequestException('Family not found or does not belong to you');
+    }
+  }
+
   private transformCategoryForHierarchicalResponseWithCount(category: any, isSubcategory = false): any {
     const baseResponse = {
       id: category.id,
@@ -682,6 +1271,8 @@ export class CategoryService {
       name: category.name,
       description: category.description,
       parentCategoryId: category.parentCategoryId,
+      familyId: category.familyId,
+      sortOrder: category.sortOrder,
       userId: category.userId,
       createdAt: category.createdAt,
       updatedAt: category.updatedAt,
@@ -731,7 +1322,7 @@ export class CategoryService {
     throw new BadRequestException(`Failed to ${operation} category`);
   }
 
-  async bulkDelete(bulkDeleteDto: BulkDeleteCategoryDto, userId: number): Promise<{ deletedCount: number }> {
+  async bulkDelete(bulkDeleteDto: BulkDeleteCategoryDto, userId: number, actingUserId: number = userId): Promise<{ deletedCount: number; operationId: string | null }> {
     try {
       this.logger.log(`Bulk deleting categories for user: ${userId}`);
 
@@ -775,7 +1366,7 @@ export class CategoryService {
       }
 
       if (categoriesToDelete.length === 0) {
-        return { deletedCount: 0 };
+        return { deletedCount: 0, operationId: null };
       }
 
       // Verify ownership of all categories
@@ -794,6 +1385,9 @@ export class CategoryService {
       // Get all subcategories recursively
       const allCategoryIds = await this.getAllSubcategoryIds(categoriesToDelete, userId);
 
+      // Keep the categories, their parent links and product links so the deletion can be undone
+      const snapshot = await this.operationJournalService.snapshotCategories(allCategoryIds, userId);
+
       // First, remove category associations from products
       await this.prisma.product.updateMany({
         where: {
@@ -813,7 +1407,17 @@ export class CategoryService {
       });
 
       this.logger.log(`Successfully deleted ${result.count} categories (including subcategories)`);
-      return { deletedCount: result.count };
+
+      const operationId = await this.operationJournalService.record(
+        userId,
+        actingUserId,
+        OperationType.CATEGORY_BULK_DELETE,
+        `Deleted ${result.count} category/categories`,
+        result.count,
+        snapshot,
+      );
+
+      return { deletedCount: result.count, operationId };
     } catch (error) {
       this.logger.error(`Failed to bulk delete categories: ${error.message}`, error.stack);
       if (error.status) {
@@ -0,0 +1,50 @@
+import { IsBoolean, IsIn, IsOptional } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ExportFormat } from '../../product/dto/export-product.dto';
+
+export const CATEGORY_FILE_FORMATS = [
+  ExportFormat.CSV,
+  ExportFormat.JSON,
+  ExportFormat.EXCEL,
+];
+
+// Multipart form fields arrive as strings
+const toBoolean = ({ value }) =>
+  value === undefined ? undefined : value === true || value === 'true';
+
+export class ExportCategoriesDto {
+  @IsOptional()
+  @IsIn(CATEGORY_FILE_FORMATS, {
+    message: 'Format must be one of: csv, json, excel',
+  })
+  format?: ExportFormat = ExportFormat.CSV;
+}
+
+export class ImportCategoriesDto {
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  dryRun?: boolean; // Report what would change without writing
+
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  updateExisting?: boolean; // Defaults to true: description, family and sort order of existing categories are updated
+}
+
+export class CategoryImportRowResultDto {
+  row: number;
+  path: string;
+  action: 'create' | 'update' | 'unchanged' | 'error';
+  error?: string;
+}
+
+export class CategoryImportResponseDto {
+  dryRun: boolean;
+  totalRows: number;
+  created: number; // Missing ancestors of a path included
+  updated: number;
+  unchanged: number;
+  failed: number;
+  rows: CategoryImportRowResultDto[];
+}
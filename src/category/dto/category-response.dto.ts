@@ -1,3 +1,5 @@
+import type { EffectiveCategoryAttribute } from '../../utils/category-attribute.helper';
+
 export class ProductSummaryDto {
   id: number;
   name: string;
@@ -11,6 +13,8 @@ export class CategoryResponseDto {
   name: string;
   description?: string;
   parentCategoryId?: number;
+  familyId?: number | null;
+  sortOrder?: number; // Position among siblings
   userId: number;
   createdAt: Date;
   updatedAt: Date;
@@ -26,10 +30,28 @@ export class CategoryTreeResponseDto {
   description?: string;
   level: number;
   path: string[];
+  sortOrder: number;
+  familyId: number | null; // Effective family, inherited from the nearest ancestor when not set
+  attributes: EffectiveCategoryAttribute[]; // Effective attribute set, inherited ones included
   subcategories: CategoryTreeResponseDto[];
   products?: ProductSummaryDto[];
 }
 
+export class CategoryAttributesResponseDto {
+  categoryId: number;
+  familyId: number | null; // Effective family of the category
+  attributes: EffectiveCategoryAttribute[];
+}
+
+export class CategoryFamilySuggestionDto {
+  familyId: number;
+  familyName: string;
+  assigned: boolean; // The effective family of the category
+  coverage: number; // Share of the category attributes the family contains, 0-100
+  matchedAttributes: { id: number; name: string }[];
+  missingAttributes: { id: number; name: string; isRequired: boolean }[];
+}
+
 export class CreateCategoryResponseDto {
   message: string;
   category: CategoryResponseDto;
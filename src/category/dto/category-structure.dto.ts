@@ -0,0 +1,36 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsInt,
+  IsOptional,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+
+export class MoveCategoryDto {
+  @ValidateIf((_, value) => value !== null)
+  @IsInt({ message: 'Parent category ID must be an integer' })
+  parentCategoryId: number | null; // null moves the category to the root
+
+  @IsOptional()
+  @IsInt({ message: 'Sort order must be an integer' })
+  @Min(0)
+  sortOrder?: number; // Defaults to after the new siblings
+}
+
+export class MergeCategoryDto {
+  @IsInt({ message: 'Target category ID must be an integer' })
+  targetCategoryId: number; // Receives the products, subcategories and attributes of the merged category
+}
+
+export class ReorderCategoriesDto {
+  @IsOptional()
+  @ValidateIf((_, value) => value !== null)
+  @IsInt({ message: 'Parent category ID must be an integer' })
+  parentCategoryId?: number | null; // Omitted or null reorders the root categories
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsInt({ each: true, message: 'Category IDs must be integers' })
+  categoryIds: number[]; // Siblings in their new order; siblings not listed keep their order after them
+}
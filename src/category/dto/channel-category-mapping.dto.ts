@@ -0,0 +1,40 @@
+import { IsIn, IsInt, IsOptional, IsString, Length } from 'class-validator';
+import { IntegrationType } from '../../integration/base/integration-type.enum';
+
+export const CATEGORY_MAPPING_CHANNELS = [
+  IntegrationType.WOOCOMMERCE,
+  IntegrationType.MYDEAL,
+] as const;
+
+export class SetChannelCategoryMappingDto {
+  @IsIn(CATEGORY_MAPPING_CHANNELS, {
+    message: `channel must be one of: ${CATEGORY_MAPPING_CHANNELS.join(', ')}`,
+  })
+  channel: string;
+
+  @IsInt({ message: 'Connection ID must be an integer' })
+  connectionId: number; // WooCommerce or MyDeal connection
+
+  @IsInt({ message: 'Category ID must be an integer' })
+  categoryId: number;
+
+  @IsInt({ message: 'External category ID must be an integer' })
+  externalCategoryId: number; // Category ID in the channel
+
+  @IsOptional()
+  @IsString()
+  @Length(0, 255)
+  externalCategoryName?: string;
+}
+
+export class ChannelCategoryMappingResponseDto {
+  id: number;
+  channel: string;
+  connectionId: number;
+  categoryId: number;
+  categoryName: string;
+  externalCategoryId: number;
+  externalCategoryName?: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
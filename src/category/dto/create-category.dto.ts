@@ -1,23 +1,37 @@
-import { IsString, IsNotEmpty, IsOptional, IsNumber, Length, Matches } from 'class-validator';
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsNumber,
+  Length,
+  Matches,
+} from 'class-validator';
 import { Transform } from 'class-transformer';
 
 export class CreateCategoryDto {
   @IsString()
   @IsNotEmpty({ message: 'Category name is required' })
-  @Length(1, 50, { message: 'Category name must be between 1 and 50 characters' })
-  @Transform(({ value }) => typeof value === 'string' ? value.trim() : value)
-  @Matches(/^[a-zA-Z0-9\s\-_&()']+$/, { 
-    message: 'Category name can only contain letters, numbers, spaces, hyphens, underscores, ampersands, parentheses, and apostrophes' 
+  @Length(1, 50, {
+    message: 'Category name must be between 1 and 50 characters',
+  })
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim() : value))
+  @Matches(/^[a-zA-Z0-9\s\-_&()']+$/, {
+    message:
+      'Category name can only contain letters, numbers, spaces, hyphens, underscores, ampersands, parentheses, and apostrophes',
   })
   name: string;
 
   @IsOptional()
   @IsString()
   @Length(0, 500, { message: 'Description must not exceed 500 characters' })
-  @Transform(({ value }) => typeof value === 'string' ? value.trim() : value)
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim() : value))
   description?: string;
 
   @IsOptional()
   @IsNumber({}, { message: 'Parent category ID must be a number' })
   parentCategoryId?: number;
+
+  @IsOptional()
+  @IsNumber({}, { message: 'Family ID must be a number' })
+  familyId?: number | null; // Assigned to products placed in the category without a family
 }
@@ -0,0 +1,24 @@
+import {
+  IsArray,
+  IsBoolean,
+  IsInt,
+  IsOptional,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class CategoryAttributeItemDto {
+  @IsInt({ message: 'Attribute ID must be an integer' })
+  attributeId: number;
+
+  @IsOptional()
+  @IsBoolean()
+  isRequired?: boolean; // Defaults to recommended
+}
+
+export class SetCategoryAttributesDto {
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => CategoryAttributeItemDto)
+  attributes: CategoryAttributeItemDto[]; // Replaces the attributes declared on the category
+}
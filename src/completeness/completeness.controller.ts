@@ -0,0 +1,81 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  ParseIntPipe,
+  UseGuards,
+  Query,
+} from '@nestjs/common';
+import { CompletenessService } from './completeness.service';
+import {
+  CreateCompletenessProfileDto,
+  UpdateCompletenessProfileDto,
+  CompletenessProfileResponseDto,
+} from './dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { OwnershipGuard } from '../auth/guards/ownership.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { RequirePermissions } from '../auth/decorators/permissions.decorator';
+import { EffectiveUserId } from '../auth/decorators/effective-user-id.decorator';
+
+@Controller('completeness-profiles')
+@UseGuards(JwtAuthGuard, OwnershipGuard, PermissionsGuard)
+export class CompletenessController {
+  constructor(private readonly completenessService: CompletenessService) {}
+
+  @Post()
+  @RequirePermissions({ resource: 'families', action: 'create' })
+  create(
+    @Body() createDto: CreateCompletenessProfileDto,
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<CompletenessProfileResponseDto> {
+    return this.completenessService.create(createDto, effectiveUserId);
+  }
+
+  @Get()
+  @RequirePermissions({ resource: 'families', action: 'read' })
+  findAll(
+    @EffectiveUserId() effectiveUserId: number,
+    @Query('channel') channel?: string,
+    @Query('familyId') familyId?: string,
+  ): Promise<CompletenessProfileResponseDto[]> {
+    const familyIdInt = familyId ? parseInt(familyId) : undefined;
+    return this.completenessService.findAll(
+      effectiveUserId,
+      channel,
+      familyIdInt,
+    );
+  }
+
+  @Get(':id')
+  @RequirePermissions({ resource: 'families', action: 'read' })
+  findOne(
+    @Param('id', ParseIntPipe) id: number,
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<CompletenessProfileResponseDto> {
+    return this.completenessService.findOne(id, effectiveUserId);
+  }
+
+  @Patch(':id')
+  @RequirePermissions({ resource: 'families', action: 'update' })
+  update(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() updateDto: UpdateCompletenessProfileDto,
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<CompletenessProfileResponseDto> {
+    return this.completenessService.update(id, updateDto, effectiveUserId);
+  }
+
+  @Delete(':id')
+  @RequirePermissions({ resource: 'families', action: 'delete' })
+  remove(
+    @Param('id', ParseIntPipe) id: number,
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<{ message: string }> {
+    return this.completenessService.remove(id, effectiveUserId);
+  }
+}
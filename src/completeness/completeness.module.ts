@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { CompletenessService } from './completeness.service';
+import { CompletenessController } from './completeness.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [CompletenessController],
+  providers: [CompletenessService],
+  exports: [CompletenessService],
+})
+export class CompletenessModule {}
@@ -0,0 +1,565 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+} from '@nestjs/common';
+import type { CompletenessProfile } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { IntegrationType } from '../integration/base/integration-type.enum';
+import {
+  CreateCompletenessProfileDto,
+  UpdateCompletenessProfileDto,
+  CompletenessProfileResponseDto,
+  ProductCompletenessDto,
+  ChannelCompletenessDto,
+} from './dto';
+import {
+  CompletenessProductInput,
+  CompletenessResult,
+  CompletenessRules,
+  DEFAULT_COMPLETENESS_CHANNEL,
+  DEFAULT_COMPLETENESS_RULES,
+  evaluateCompleteness,
+  profileToCompletenessRules,
+  selectCompletenessProfile,
+} from '../utils/productStatusUtils';
+import { CategoryAttributeHelper } from '../utils/category-attribute.helper';
+import type { EffectiveCategoryAttribute } from '../utils/category-attribute.helper';
+
+type ResolvedProfile = CompletenessProfile & {
+  rules: CompletenessRules;
+};
+
+@Injectable()
+export class CompletenessService {
+  private readonly logger = new Logger(CompletenessService.name);
+
+  // Cache of resolved profiles per user to avoid a lookup for every product in a list
+  private profileCache = new Map<
+    number,
+    { data: ResolvedProfile[]; timestamp: number }
+  >();
+  // Effective category attributes per user, keyed by category ID
+  private categoryAttributeCache = new Map<
+    number,
+    { data: Map<number, EffectiveCategoryAttribute[]>; timestamp: number }
+  >();
+  private readonly CACHE_TTL = 60 * 1000; // 1 minute
+
+  // Products are re-evaluated in batches of this size when profiles change
+  private readonly STATUS_REFRESH_BATCH_SIZE = 200;
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async create(
+    dto: CreateCompletenessProfileDto,
+    userId: number,
+  ): Promise<CompletenessProfileResponseDto> {
+    const channel = dto.channel ?? DEFAULT_COMPLETENESS_CHANNEL;
+    await this.validateReferences(
+      userId,
+      channel,
+      dto.familyId,
+      dto.connectionId,
+      dto.requiredAttributeIds,
+    );
+
+    try {
+      const profile = await this.prisma.completenessProfile.create({
+        data: {
+          name: dto.name,
+          userId,
+          familyId: dto.familyId ?? null,
+          channel,
+          connectionId: dto.connectionId ?? null,
+          requireFamily: dto.requireFamily ?? true,
+          requireMainImage: dto.requireMainImage ?? false,
+          minSubImages: dto.minSubImages ?? 0,
+          requireCategory: dto.requireCategory ?? false,
+          requireValidValues: dto.requireValidValues ?? false,
+          requiredAttributeIds: Array.from(
+            new Set(dto.requiredAttributeIds ?? []),
+          ),
+          isActive: dto.isActive ?? true,
+        },
+      });
+
+      this.afterProfileChange(userId, profile);
+      return this.transformProfileForResponse(profile);
+    } catch (error) {
+      this.handleDatabaseError(error);
+    }
+  }
+
+  async findAll(
+    userId: number,
+    channel?: string,
+    familyId?: number,
+  ): Promise<CompletenessProfileResponseDto[]> {
+    const where: any = { userId };
+    if (channel) where.channel = channel;
+    if (familyId !== undefined) where.familyId = familyId;
+
+    const profiles = await this.prisma.completenessProfile.findMany({
+      where,
+      orderBy: [{ channel: 'asc' }, { name: 'asc' }],
+    });
+
+    const attributeNames = await this.getAttributeNames(profiles);
+    return profiles.map((profile) =>
+      this.transformProfileForResponse(profile, attributeNames),
+    );
+  }
+
+  async findOne(
+    id: number,
+    userId: number,
+  ): Promise<CompletenessProfileResponseDto> {
+    const profile = await this.findProfileOrFail(id, userId);
+    return this.transformProfileForResponse(
+      profile,
+      await this.getAttributeNames([profile]),
+    );
+  }
+
+  async update(
+    id: number,
+    dto: UpdateCompletenessProfileDto,
+    userId: number,
+  ): Promise<CompletenessProfileResponseDto> {
+    const existing = await this.findProfileOrFail(id, userId);
+
+    const channel = dto.channel ?? existing.channel;
+    const familyId =
+      dto.familyId !== undefined ? dto.familyId : existing.familyId;
+    const connectionId =
+      dto.connectionId !== undefined ? dto.connectionId : existing.connectionId;
+    await this.validateReferences(
+      userId,
+      channel,
+      familyId,
+      connectionId,
+      dto.requiredAttributeIds,
+    );
+
+    try {
+      const profile = await this.prisma.completenessProfile.update({
+        where: { id },
+        data: {
+          name: dto.name,
+          familyId,
+          channel,
+          connectionId,
+          requireFamily: dto.requireFamily,
+          requireMainImage: dto.requireMainImage,
+          minSubImages: dto.minSubImages,
+          requireCategory: dto.requireCategory,
+          requireValidValues: dto.requireValidValues,
+          requiredAttributeIds: dto.requiredAttributeIds
+            ? Array.from(new Set(dto.requiredAttributeIds))
+            : undefined,
+          isActive: dto.isActive,
+        },
+      });
+
+      // Products of the previous family need re-evaluation too
+      if (existing.familyId !== profile.familyId) {
+        this.afterProfileChange(userId, existing);
+      }
+      this.afterProfileChange(userId, profile);
+      return this.transformProfileForResponse(
+        profile,
+        await this.getAttributeNames([profile]),
+      );
+    } catch (error) {
+      this.handleDatabaseError(error);
+    }
+  }
+
+  async remove(id: number, userId: number): Promise<{ message: string }> {
+    const profile = await this.findProfileOrFail(id, userId);
+
+    await this.prisma.completenessProfile.delete({ where: { id } });
+    this.afterProfileChange(userId, profile);
+
+    return {
+      message: `Completeness profile "${profile.name}" deleted successfully`,
+    };
+  }
+
+  /**
+   * Evaluate a product against its default-channel rules and every channel
+   * profile that applies to it. The product must include its family
+   * attributes and attribute values (with attribute types).
+   */
+  async evaluateProduct(
+    product: CompletenessProductInput,
+    userId: number,
+  ): Promise<ProductCompletenessDto> {
+    const profiles = await this.getProfilesForUser(userId);
+    product = await this.withCategoryAttributes(product, userId);
+
+    const defaultProfile = selectCompletenessProfile(
+      profiles,
+      product.familyId,
+      DEFAULT_COMPLETENESS_CHANNEL,
+    );
+    const result = evaluateCompleteness(
+      product,
+      defaultProfile?.rules ?? DEFAULT_COMPLETENESS_RULES,
+    );
+
+    // One entry per channel/connection combination that has an applicable profile
+    const channelKeys = new Map<
+      string,
+      { channel: string; connectionId: number | null }
+    >();
+    for (const profile of profiles) {
+      if (
+        profile.channel === DEFAULT_COMPLETENESS_CHANNEL ||
+        !profile.isActive
+      ) {
+        continue;
+      }
+      channelKeys.set(`${profile.channel}:${profile.connectionId ?? ''}`, {
+        channel: profile.channel,
+        connectionId: profile.connectionId,
+      });
+    }
+
+    const channels: ChannelCompletenessDto[] = [];
+    for (const { channel, connectionId } of channelKeys.values()) {
+      const profile = selectCompletenessProfile(
+        profiles,
+        product.familyId,
+        channel,
+        connectionId,
+      );
+      if (!profile) continue;
+
+      const channelResult = evaluateCompleteness(product, profile.rules);
+      channels.push({
+        channel,
+        connectionId,
+        profileId: profile.id,
+        profileName: profile.name,
+        ...channelResult,
+      });
+    }
+
+    return {
+      ...result,
+      profileId: defaultProfile?.id ?? null,
+      channels,
+    };
+  }
+
+  /**
+   * Evaluate a product for a single channel. Falls back to the default
+   * channel rules when no profile exists for the requested channel.
+   */
+  async evaluateForChannel(
+    product: CompletenessProductInput,
+    userId: number,
+    channel: string = DEFAULT_COMPLETENESS_CHANNEL,
+    connectionId?: number | null,
+  ): Promise<CompletenessResult> {
+    const profiles = await this.getProfilesForUser(userId);
+    product = await this.withCategoryAttributes(product, userId);
+    const profile =
+      selectCompletenessProfile(
+        profiles,
+        product.familyId,
+        channel,
+        connectionId,
+      ) ??
+      selectCompletenessProfile(
+        profiles,
+        product.familyId,
+        DEFAULT_COMPLETENESS_CHANNEL,
+      );
+
+    return evaluateCompleteness(
+      product,
+      profile?.rules ?? DEFAULT_COMPLETENESS_RULES,
+    );
+  }
+
+  /**
+   * Recalculate the stored complete/incomplete status of a user's products,
+   * optionally limited to one family or to some categories.
+   */
+  async refreshProductStatuses(
+    userId: number,
+    familyId?: number | null,
+    categoryIds?: number[],
+  ): Promise<number> {
+    const where: any = { userId, isDeleted: false };
+    if (familyId) where.familyId = familyId;
+    if (categoryIds) where.categoryId = { in: categoryIds };
+
+    let processed = 0;
+    let cursor: number | undefined;
+
+    for (;;) {
+      const products = await this.prisma.product.findMany({
+        where,
+        take: this.STATUS_REFRESH_BATCH_SIZE,
+        ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+        orderBy: { id: 'asc' },
+        include: {
+          family: {
+            include: {
+              familyAttributes: {
+                include: {
+                  attribute: { select: { id: true, name: true, type: true } },
+                },
+              },
+            },
+          },
+          attributes: {
+            select: {
+              value: true,
+              attribute: { select: { id: true, name: true, type: true } },
+            },
+          },
+        },
+      });
+
+      if (products.length === 0) break;
+
+      const completeIds: number[] = [];
+      const incompleteIds: number[] = [];
+      for (const product of products) {
+        const result = await this.evaluateForChannel(product, userId);
+        const status = result.complete ? 'complete' : 'incomplete';
+        if (status !== product.status) {
+          (result.complete ? completeIds : incompleteIds).push(product.id);
+        }
+      }
+
+      if (completeIds.length > 0) {
+        await this.prisma.product.updateMany({
+          where: { id: { in: completeIds } },
+          data: { status: 'complete' },
+        });
+      }
+      if (incompleteIds.length > 0) {
+        await this.prisma.product.updateMany({
+          where: { id: { in: incompleteIds } },
+          data: { status: 'incomplete' },
+        });
+      }
+
+      processed += products.length;
+      cursor = products[products.length - 1].id;
+    }
+
+    this.logger.log(
+      `Refreshed completeness status of ${processed} products for user ${userId}`,
+    );
+    return processed;
+  }
+
+  /**
+   * Drop the cached category attributes of a user after category changes and
+   * re-evaluate the products of the affected categories.
+   */
+  onCategoryAttributesChange(userId: number, categoryIds: number[]): void {
+    this.categoryAttributeCache.delete(userId);
+
+    this.refreshProductStatuses(userId, undefined, categoryIds).catch(
+      (error: any) => {
+        this.logger.error(
+          `Failed to refresh product statuses for user ${userId}: ${error.message}`,
+        );
+      },
+    );
+  }
+
+  // Products evaluated without their category attributes get them from the cache
+  private async withCategoryAttributes(
+    product: CompletenessProductInput,
+    userId: number,
+  ): Promise<CompletenessProductInput> {
+    if (product.categoryAttributes || !product.categoryId) {
+      return product;
+    }
+
+    let cached = this.categoryAttributeCache.get(userId);
+    if (!cached || Date.now() - cached.timestamp >= this.CACHE_TTL) {
+      const categories = await this.prisma.category.findMany({
+        where: { userId },
+        select: {
+          id: true,
+          name: true,
+          parentCategoryId: true,
+          familyId: true,
+          categoryAttributes: CategoryAttributeHelper.include(),
+        },
+      });
+      const data = new Map<number, EffectiveCategoryAttribute[]>();
+      for (const [id, resolved] of CategoryAttributeHelper.resolveAll(
+        categories,
+      )) {
+        data.set(id, resolved.attributes);
+      }
+      cached = { data, timestamp: Date.now() };
+      this.categoryAttributeCache.set(userId, cached);
+    }
+
+    return {
+      ...product,
+      categoryAttributes: cached.data.get(product.categoryId) ?? [],
+    };
+  }
+
+  private async getProfilesForUser(userId: number): Promise<ResolvedProfile[]> {
+    const cached = this.profileCache.get(userId);
+    if (cached && Date.now() - cached.timestamp < this.CACHE_TTL) {
+      return cached.data;
+    }
+
+    const profiles = await this.prisma.completenessProfile.findMany({
+      where: { userId, isActive: true },
+    });
+    const attributeNames = await this.getAttributeNames(profiles);
+    const resolved = profiles.map((profile) => ({
+      ...profile,
+      rules: profileToCompletenessRules(profile, attributeNames),
+    }));
+
+    this.profileCache.set(userId, { data: resolved, timestamp: Date.now() });
+    return resolved;
+  }
+
+  private afterProfileChange(
+    userId: number,
+    profile: CompletenessProfile,
+  ): void {
+    this.profileCache.delete(userId);
+
+    // Only the default channel drives the stored product status
+    if (profile.channel === DEFAULT_COMPLETENESS_CHANNEL) {
+      this.refreshProductStatuses(userId, profile.familyId).catch(
+        (error: any) => {
+          this.logger.error(
+            `Failed to refresh product statuses for user ${userId}: ${error.message}`,
+          );
+        },
+      );
+    }
+  }
+
+  private async validateReferences(
+    userId: number,
+    channel: string,
+    familyId?: number | null,
+    connectionId?: number | null,
+    requiredAttributeIds?: number[],
+  ): Promise<void> {
+    if (familyId) {
+      const family = await this.prisma.family.findFirst({
+        where: { id: familyId, userId },
+      });
+      if (!family) {
+        throw new BadRequestException(
+          'Family not found or does not belong to you',
+        );
+      }
+    }
+
+    if (connectionId) {
+      const integrationType = channel as IntegrationType;
+      let connection: { id: number } | null = null;
+      if (integrationType === IntegrationType.WOOCOMMERCE) {
+        connection = await this.prisma.wooCommerceConnection.findFirst({
+          where: { id: connectionId, userId },
+          select: { id: true },
+        });
+      } else if (integrationType === IntegrationType.MYDEAL) {
+        connection = await this.prisma.myDealConnection.findFirst({
+          where: { id: connectionId, userId },
+          select: { id: true },
+        });
+      } else {
+        throw new BadRequestException(
+          `connectionId is only supported for the ${IntegrationType.WOOCOMMERCE} and ${IntegrationType.MYDEAL} channels`,
+        );
+      }
+
+      if (!connection) {
+        throw new BadRequestException(
+          `${channel} connection ${connectionId} not found or does not belong to you`,
+        );
+      }
+    }
+
+    if (requiredAttributeIds && requiredAttributeIds.length > 0) {
+      const uniqueIds = Array.from(new Set(requiredAttributeIds));
+      const count = await this.prisma.attribute.count({
+        where: { id: { in: uniqueIds }, userId },
+      });
+      if (count !== uniqueIds.length) {
+        throw new BadRequestException(
+          'One or more attributes not found or do not belong to you',
+        );
+      }
+    }
+  }
+
+  private async findProfileOrFail(
+    id: number,
+    userId: number,
+  ): Promise<CompletenessProfile> {
+    const profile = await this.prisma.completenessProfile.findFirst({
+      where: { id, userId },
+    });
+
+    if (!profile) {
+      throw new NotFoundException(
+        `Completeness profile with ID ${id} not found`,
+      );
+    }
+
+    return profile;
+  }
+
+  private async getAttributeNames(
+    profiles: CompletenessProfile[],
+  ): Promise<Map<number, string>> {
+    const ids = Array.from(
+      new Set(profiles.flatMap((profile) => profile.requiredAttributeIds)),
+    );
+    if (ids.length === 0) return new Map();
+
+    const attributes = await this.prisma.attribute.findMany({
+      where: { id: { in: ids } },
+      select: { id: true, name: true },
+    });
+    return new Map(attributes.map((attr) => [attr.id, attr.name]));
+  }
+
+  private transformProfileForResponse(
+    profile: CompletenessProfile,
+    attributeNames: Map<number, string> = new Map(),
+  ): CompletenessProfileResponseDto {
+    const { requiredAttributeIds, ...rest } = profile;
+    return {
+      ...rest,
+      requiredAttributes: profileToCompletenessRules(profile, attributeNames)
+        .requiredAttributes,
+    };
+  }
+
+  private handleDatabaseError(error: any): never {
+    if (error.code === 'P2002') {
+      throw new ConflictException(
+        'Completeness profile with this name already exists',
+      );
+    }
+    throw error;
+  }
+}
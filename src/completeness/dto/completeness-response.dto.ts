@@ -0,0 +1,39 @@
+import type { CompletenessMissingItem } from '../../utils/productStatusUtils';
+
+export class CompletenessProfileResponseDto {
+  id: number;
+  name: string;
+  userId: number;
+  familyId: number | null;
+  channel: string;
+  connectionId: number | null;
+  requireFamily: boolean;
+  requireMainImage: boolean;
+  minSubImages: number;
+  requireCategory: boolean;
+  requireValidValues: boolean;
+  requiredAttributes: { id: number; name: string }[];
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export class ChannelCompletenessDto {
+  channel: string;
+  connectionId: number | null;
+  profileId: number;
+  profileName: string;
+  complete: boolean;
+  score: number;
+  missing: CompletenessMissingItem[];
+  recommended: CompletenessMissingItem[];
+}
+
+export class ProductCompletenessDto {
+  complete: boolean;
+  score: number; // 0-100
+  missing: CompletenessMissingItem[];
+  recommended: CompletenessMissingItem[]; // Recommended category attributes without a value
+  profileId: number | null; // null when the built-in rules were used
+  channels: ChannelCompletenessDto[];
+}
@@ -0,0 +1,77 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsInt,
+  IsBoolean,
+  IsArray,
+  IsIn,
+  Min,
+  Length,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+import { IntegrationType } from '../../integration/base/integration-type.enum';
+import { DEFAULT_COMPLETENESS_CHANNEL } from '../../utils/productStatusUtils';
+
+export const COMPLETENESS_CHANNELS = [
+  DEFAULT_COMPLETENESS_CHANNEL,
+  IntegrationType.WOOCOMMERCE,
+  IntegrationType.MYDEAL,
+  IntegrationType.AMAZON,
+] as const;
+
+export class CreateCompletenessProfileDto {
+  @IsString()
+  @IsNotEmpty({ message: 'Profile name is required' })
+  @Length(1, 100, {
+    message: 'Profile name must be between 1 and 100 characters',
+  })
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim() : value))
+  name: string;
+
+  // Leave empty to apply the profile to every family
+  @IsOptional()
+  @IsInt()
+  familyId?: number | null;
+
+  @IsOptional()
+  @IsIn(COMPLETENESS_CHANNELS, {
+    message: `channel must be one of: ${COMPLETENESS_CHANNELS.join(', ')}`,
+  })
+  channel?: string;
+
+  // WooCommerce or MyDeal connection id; leave empty to apply to every connection of the channel
+  @IsOptional()
+  @IsInt()
+  connectionId?: number | null;
+
+  @IsOptional()
+  @IsBoolean()
+  requireFamily?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  requireMainImage?: boolean;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  minSubImages?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  requireCategory?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  requireValidValues?: boolean;
+
+  @IsOptional()
+  @IsArray()
+  @IsInt({ each: true })
+  requiredAttributeIds?: number[];
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
@@ -0,0 +1,3 @@
+export * from './create-completeness-profile.dto';
+export * from './update-completeness-profile.dto';
+export * from './completeness-response.dto';
@@ -0,0 +1,6 @@
+import { PartialType } from '@nestjs/mapped-types';
+import { CreateCompletenessProfileDto } from './create-completeness-profile.dto';
+
+export class UpdateCompletenessProfileDto extends PartialType(
+  CreateCompletenessProfileDto,
+) {}
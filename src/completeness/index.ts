@@ -0,0 +1,4 @@
+export * from './completeness.controller';
+export * from './completeness.service';
+export * from './completeness.module';
+export * from './dto';
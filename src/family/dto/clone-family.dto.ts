@@ -0,0 +1,15 @@
+import { IsString, IsOptional, Length, Matches } from 'class-validator';
+import { Transform } from 'class-transformer';
+
+export class CloneFamilyDto {
+  // Defaults to "<name> copy"
+  @IsString()
+  @IsOptional()
+  @Length(1, 40, { message: 'Family name must be between 1 and 40 characters' })
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim() : value))
+  @Matches(/^[a-zA-Z0-9\s\-_&()']+$/, {
+    message:
+      'Family name can only contain letters, numbers, spaces, hyphens, underscores, ampersands, parentheses, and apostrophes',
+  })
+  name?: string;
+}
@@ -1,5 +1,7 @@
-import { IsString, IsNotEmpty, IsArray, IsOptional, ValidateNested, IsNumber, IsBoolean, Length, Matches } from 'class-validator';
+import { IsString, IsNotEmpty, IsArray, IsOptional, ValidateNested, IsNumber, IsBoolean, IsEnum, Length, Matches } from 'class-validator';
 import { Type, Transform } from 'class-transformer';
+import { AttributeLevel } from '../../utils/variant-level.helper';
+import { InheritanceMode } from '../../utils/attribute-inheritance.helper';
 
 export class FamilyAttributeDto {
   @IsNumber()
@@ -11,6 +13,20 @@ export class FamilyAttributeDto {
 
   @IsOptional()
   additionalValue?: any; // Can be string, number, boolean, object, array, etc.
+
+  // Variant matrix axis (e.g. Size, Color); axes are always variant level
+  @IsBoolean()
+  @IsOptional()
+  isVariantAxis?: boolean = false;
+
+  @IsEnum(AttributeLevel)
+  @IsOptional()
+  level?: AttributeLevel;
+
+  // How variants resolve the parent value; axes always keep their own value
+  @IsEnum(InheritanceMode)
+  @IsOptional()
+  inheritance?: InheritanceMode;
 }
 
 export class CreateFamilyDto {
@@ -23,6 +39,12 @@ export class CreateFamilyDto {
   })
   name: string;
 
+  // Family this one extends; null detaches it on update
+  @IsNumber()
+  @IsOptional()
+  parentFamilyId?: number | null;
+
+  // Entries for inherited attributes only override isRequired and additionalValue
   @IsArray()
   @ValidateNested({ each: true })
   @Type(() => FamilyAttributeDto)
@@ -2,6 +2,11 @@ export class FamilyAttributeResponseDto {
   id: number;
   isRequired: boolean;
   additionalValue: any;
+  isVariantAxis: boolean;
+  level: string;
+  inheritance: string;
+  inheritedFromFamilyId: number | null; // null = declared by this family
+  overrides: string[]; // Inherited settings this family sets itself
   attribute: {
     id: number;
     name: string;
@@ -19,10 +24,18 @@ export class ProductSummaryDto {
   imageUrl?: string | null;
 }
 
+export class FamilySummaryDto {
+  id: number;
+  name: string;
+}
+
 export class FamilyResponseDto {
   id: number;
   name: string;
   userId: number;
+  parentFamilyId: number | null;
+  parentFamily?: FamilySummaryDto | null; // For findOne endpoint
+  childFamilies?: FamilySummaryDto[]; // For findOne endpoint
   createdAt: Date;
   updatedAt: Date;
   familyAttributes: FamilyAttributeResponseDto[];
@@ -1,4 +1,5 @@
 export * from './create-family.dto';
 export * from './update-family.dto';
+export * from './clone-family.dto';
 export * from './family-response.dto';
 export * from './family-filter.dto';
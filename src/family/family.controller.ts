@@ -13,6 +13,7 @@ import {
 import { FamilyService } from './family.service';
 import { CreateFamilyDto } from './dto/create-family.dto';
 import { UpdateFamilyDto } from './dto/update-family.dto';
+import { CloneFamilyDto } from './dto/clone-family.dto';
 import { FamilyResponseDto } from './dto/family-response.dto';
 import { FamilyFilterDto } from './dto/family-filter.dto';
 import { BulkDeleteFamilyDto } from './dto/bulk-delete-family.dto';
@@ -23,6 +24,8 @@ import { RequirePermissions } from '../auth/decorators/permissions.decorator';
 import { User } from '../auth/decorators/user.decorator';
 import { EffectiveUserId } from '../auth/decorators/effective-user-id.decorator';
 import { PaginatedResponse } from '../common';
+import { AttributeLevel } from '../utils/variant-level.helper';
+import { InheritanceMode } from '../utils/attribute-inheritance.helper';
 
 @Controller('families')
 @UseGuards(JwtAuthGuard, OwnershipGuard, PermissionsGuard)
@@ -95,6 +98,9 @@ export class FamilyController {
     @Param('attributeId', ParseIntPipe) attributeId: number,
     @Query('isRequired') isRequired: string = 'false',
     @Query('additionalValue') additionalValue: string,
+    @Query('isVariantAxis') isVariantAxis: string = 'false',
+    @Query('level') level: string,
+    @Query('inheritance') inheritance: string,
     @User() user: any,
     @EffectiveUserId() effectiveUserId: number,
   ) {
@@ -104,6 +110,11 @@ export class FamilyController {
       isRequired === 'true',
       additionalValue,
       effectiveUserId,
+      {
+        isVariantAxis: isVariantAxis === 'true',
+        level: level as AttributeLevel | undefined,
+        inheritance: inheritance as InheritanceMode | undefined,
+      },
     );
   }
 
@@ -118,6 +129,17 @@ export class FamilyController {
     return this.familyService.removeAttribute(familyId, attributeId, effectiveUserId);
   }
 
+  @Post(':id/clone')
+  @RequirePermissions({ resource: 'families', action: 'create' })
+  clone(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() cloneFamilyDto: CloneFamilyDto,
+    @User() user: any,
+    @EffectiveUserId() effectiveUserId: number,
+  ) {
+    return this.familyService.clone(id, cloneFamilyDto, effectiveUserId);
+  }
+
   @Post('bulk-delete')
   @RequirePermissions({ resource: 'families', action: 'delete' })
   async bulkDelete(
@@ -125,6 +147,6 @@ export class FamilyController {
     @User() user: any,
     @EffectiveUserId() effectiveUserId: number,
   ) {
-    return this.familyService.bulkDelete(bulkDeleteDto, effectiveUserId);
+    return this.familyService.bulkDelete(bulkDeleteDto, effectiveUserId, user.id);
   }
 }
@@ -3,9 +3,10 @@ import { FamilyService } from './family.service';
 import { FamilyController } from './family.controller';
 import { PrismaModule } from '../prisma/prisma.module';
 import { AttributeModule } from '../attribute/attribute.module';
+import { OperationJournalModule } from '../operation-journal/operation-journal.module';
 
 @Module({
-  imports: [PrismaModule, AttributeModule],
+  imports: [PrismaModule, AttributeModule, OperationJournalModule],
   controllers: [FamilyController],
   providers: [FamilyService],
   exports: [FamilyService],
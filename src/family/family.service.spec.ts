@@ -0,0 +1,404 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { FamilyService } from './family.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { AttributeValueValidator } from '../attribute/validators/attribute-value.validator';
+import { OperationJournalService } from '../operation-journal/operation-journal.service';
+import { AttributeLevel } from '../utils/variant-level.helper';
+import { InheritanceMode } from '../utils/attribute-inheritance.helper';
+
+const USER_ID = 1;
+
+interface FamilyRow {
+  id: number;
+  name: string;
+  userId: number;
+  parentFamilyId: number | null;
+}
+
+interface FamilyAttributeRow {
+  id: number;
+  familyId: number;
+  attributeId: number;
+  isRequired: boolean;
+  additionalValue: string | null;
+  isVariantAxis: boolean;
+  level: string;
+  inheritance: string;
+  inheritedFromFamilyId: number | null;
+  overrides: string[];
+}
+
+// Compound unique keys match on each of their columns
+const matches = (row: Record<string, any>, where: Record<string, any> = {}) =>
+  Object.entries(where).every(([key, condition]) => {
+    if (key === 'familyId_attributeId' || key === 'name_userId') {
+      return matches(row, condition);
+    }
+    if (condition && typeof condition === 'object' && 'in' in condition) {
+      return condition.in.includes(row[key]);
+    }
+    return row[key] === condition;
+  });
+
+/**
+ * In-memory stand-in for the family tables, enough for the inheritance logic
+ */
+const createFakePrisma = (
+  families: FamilyRow[],
+  familyAttributes: FamilyAttributeRow[],
+) => {
+  let nextId = 1000;
+  const withAttributes = (family: FamilyRow | undefined) =>
+    family && {
+      ...family,
+      familyAttributes: familyAttributes.filter(
+        (fa) => fa.familyId === family.id,
+      ),
+    };
+
+  const client: any = {
+    family: {
+      findUnique: jest.fn(({ where }) =>
+        Promise.resolve(
+          withAttributes(families.find((f) => matches(f, where))) ?? null,
+        ),
+      ),
+      findUniqueOrThrow: jest.fn(({ where }) =>
+        Promise.resolve(
+          withAttributes(families.find((f) => matches(f, where))),
+        ),
+      ),
+      findFirst: jest.fn(({ where }) =>
+        Promise.resolve(families.find((f) => matches(f, where)) ?? null),
+      ),
+      findMany: jest.fn(({ where }) =>
+        Promise.resolve(families.filter((f) => matches(f, where))),
+      ),
+      create: jest.fn(({ data }) => {
+        const family = { id: nextId++, parentFamilyId: null, ...data };
+        families.push(family);
+        return Promise.resolve(family);
+      }),
+      update: jest.fn(({ where, data }) => {
+        const family = families.find((f) => matches(f, where))!;
+        Object.assign(family, data);
+        return Promise.resolve(family);
+      }),
+    },
+    familyAttribute: {
+      findMany: jest.fn(({ where }) =>
+        Promise.resolve(
+          familyAttributes
+            .filter((fa) => matches(fa, where))
+            .map((fa) => ({ ...fa })),
+        ),
+      ),
+      create: jest.fn(({ data }) => {
+        const row: FamilyAttributeRow = {
+          id: nextId++,
+          isRequired: false,
+          additionalValue: null,
+          isVariantAxis: false,
+          level: AttributeLevel.PARENT,
+          inheritance: InheritanceMode.OVERRIDE,
+          inheritedFromFamilyId: null,
+          overrides: [],
+          ...data,
+        };
+        familyAttributes.push(row);
+        return Promise.resolve(row);
+      }),
+      update: jest.fn(({ where, data }) => {
+        const row = familyAttributes.find((fa) => matches(fa, where))!;
+        Object.assign(row, data);
+        return Promise.resolve(row);
+      }),
+      updateMany: jest.fn(({ where, data }) => {
+        const rows = familyAttributes.filter((fa) => matches(fa, where));
+        rows.forEach((row) => Object.assign(row, data));
+        return Promise.resolve({ count: rows.length });
+      }),
+      delete: jest.fn(({ where }) => {
+        const index = familyAttributes.findIndex((fa) => matches(fa, where));
+        return Promise.resolve(familyAttributes.splice(index, 1)[0]);
+      }),
+      deleteMany: jest.fn(({ where }) => {
+        const removed = familyAttributes.filter((fa) => matches(fa, where));
+        removed.forEach((row) =>
+          familyAttributes.splice(familyAttributes.indexOf(row), 1),
+        );
+        return Promise.resolve({ count: removed.length });
+      }),
+    },
+    attribute: {
+      findMany: jest.fn(({ where }) =>
+        Promise.resolve(
+          where.id.in.map((id: number) => ({ id, type: 'STRING' })),
+        ),
+      ),
+    },
+    product: { findMany: jest.fn().mockResolvedValue([]) },
+  };
+  client.$transaction = jest.fn((fn) => fn(client));
+  return client;
+};
+
+const familyAttribute = (
+  id: number,
+  familyId: number,
+  attributeId: number,
+  settings: Partial<FamilyAttributeRow> = {},
+): FamilyAttributeRow => ({
+  id,
+  familyId,
+  attributeId,
+  isRequired: false,
+  additionalValue: null,
+  isVariantAxis: false,
+  level: AttributeLevel.PARENT,
+  inheritance: InheritanceMode.OVERRIDE,
+  inheritedFromFamilyId: null,
+  overrides: [],
+  ...settings,
+});
+
+describe('FamilyService inheritance', () => {
+  let service: FamilyService;
+  let families: FamilyRow[];
+  let familyAttributes: FamilyAttributeRow[];
+
+  const attributesOf = (familyId: number) =>
+    familyAttributes
+      .filter((fa) => fa.familyId === familyId)
+      .sort((a, b) => a.attributeId - b.attributeId);
+
+  beforeEach(async () => {
+    // Apparel (10 required, 11 with a default) <- Shirts (+12) <- Dress shirts
+    families = [
+      { id: 1, name: 'Apparel', userId: USER_ID, parentFamilyId: null },
+      { id: 2, name: 'Shirts', userId: USER_ID, parentFamilyId: 1 },
+      { id: 3, name: 'Dress shirts', userId: USER_ID, parentFamilyId: 2 },
+    ];
+    familyAttributes = [
+      familyAttribute(1, 1, 10, { isRequired: true }),
+      familyAttribute(2, 1, 11, { additionalValue: 'cotton' }),
+      familyAttribute(3, 2, 10, { isRequired: true, inheritedFromFamilyId: 1 }),
+      familyAttribute(4, 2, 11, {
+        additionalValue: 'linen',
+        inheritedFromFamilyId: 1,
+        overrides: ['additionalValue'],
+      }),
+      familyAttribute(5, 2, 12),
+      familyAttribute(6, 3, 10, { isRequired: true, inheritedFromFamilyId: 1 }),
+      familyAttribute(7, 3, 11, {
+        additionalValue: 'linen',
+        inheritedFromFamilyId: 1,
+      }),
+      familyAttribute(8, 3, 12, { inheritedFromFamilyId: 2 }),
+    ];
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        FamilyService,
+        AttributeValueValidator,
+        {
+          provide: PrismaService,
+          useValue: createFakePrisma(families, familyAttributes),
+        },
+        { provide: OperationJournalService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get(FamilyService);
+    jest
+      .spyOn(service, 'findOne')
+      .mockImplementation((id) =>
+        Promise.resolve(families.find((f) => f.id === id) as any),
+      );
+  });
+
+  describe('create', () => {
+    it("should copy the parent's attributes into a new child family", async () => {
+      const family = await service.create(
+        { name: 'Polos', parentFamilyId: 1 },
+        USER_ID,
+      );
+
+      expect(attributesOf(family.id)).toEqual([
+        expect.objectContaining({
+          attributeId: 10,
+          isRequired: true,
+          inheritedFromFamilyId: 1,
+          overrides: [],
+        }),
+        expect.objectContaining({
+          attributeId: 11,
+          additionalValue: 'cotton',
+          inheritedFromFamilyId: 1,
+          overrides: [],
+        }),
+      ]);
+    });
+
+    it('should store entries for inherited attributes as overrides', async () => {
+      const family = await service.create(
+        {
+          name: 'Polos',
+          parentFamilyId: 1,
+          otherAttributes: [{ attributeId: 10 }, { attributeId: 13 }],
+        },
+        USER_ID,
+      );
+
+      expect(attributesOf(family.id)).toEqual([
+        expect.objectContaining({
+          attributeId: 10,
+          isRequired: false,
+          inheritedFromFamilyId: 1,
+          overrides: ['isRequired'],
+        }),
+        expect.objectContaining({
+          attributeId: 11,
+          inheritedFromFamilyId: 1,
+          overrides: [],
+        }),
+        expect.objectContaining({
+          attributeId: 13,
+          inheritedFromFamilyId: null,
+        }),
+      ]);
+    });
+  });
+
+  describe('update', () => {
+    it('should pass parent changes on to every descendant, keeping overrides', async () => {
+      await service.update(
+        1,
+        {
+          requiredAttributes: [{ attributeId: 10 }, { attributeId: 11 }],
+          otherAttributes: [],
+        },
+        USER_ID,
+      );
+      // The default value was dropped, 11 became required
+      expect(attributesOf(2)[1]).toMatchObject({
+        attributeId: 11,
+        isRequired: true,
+        additionalValue: 'linen',
+        overrides: ['additionalValue'],
+      });
+      expect(attributesOf(3)[1]).toMatchObject({
+        attributeId: 11,
+        isRequired: true,
+        additionalValue: 'linen',
+        inheritedFromFamilyId: 1,
+      });
+    });
+
+    it('should add new parent attributes to descendants', async () => {
+      await service.update(
+        1,
+        {
+          requiredAttributes: [{ attributeId: 10 }],
+          otherAttributes: [
+            { attributeId: 11, additionalValue: 'cotton' },
+            { attributeId: 14 },
+          ],
+        },
+        USER_ID,
+      );
+
+      for (const familyId of [2, 3]) {
+        expect(attributesOf(familyId)).toContainEqual(
+          expect.objectContaining({
+            attributeId: 14,
+            inheritedFromFamilyId: 1,
+          }),
+        );
+      }
+    });
+
+    it('should remove attributes from descendants when the parent drops them', async () => {
+      await service.update(
+        1,
+        {
+          requiredAttributes: [{ attributeId: 10 }],
+          otherAttributes: [],
+        },
+        USER_ID,
+      );
+
+      expect(attributesOf(2).map((fa) => fa.attributeId)).toEqual([10, 12]);
+      expect(attributesOf(3).map((fa) => fa.attributeId)).toEqual([10, 12]);
+    });
+
+    it("should reset overrides left out of the update to the parent's settings", async () => {
+      await service.update(
+        2,
+        {
+          requiredAttributes: [{ attributeId: 10 }],
+          otherAttributes: [{ attributeId: 12 }],
+        },
+        USER_ID,
+      );
+
+      expect(attributesOf(2)[1]).toMatchObject({
+        attributeId: 11,
+        additionalValue: 'cotton',
+        inheritedFromFamilyId: 1,
+        overrides: [],
+      });
+      expect(attributesOf(3)[1]).toMatchObject({
+        attributeId: 11,
+        additionalValue: 'cotton',
+      });
+    });
+
+    it('should keep formerly inherited attributes as its own when detached', async () => {
+      await service.update(
+        2,
+        {
+          parentFamilyId: null,
+          requiredAttributes: [{ attributeId: 10 }],
+          otherAttributes: [
+            { attributeId: 11, additionalValue: 'linen' },
+            { attributeId: 12 },
+          ],
+        },
+        USER_ID,
+      );
+
+      expect(attributesOf(2)).toEqual([
+        expect.objectContaining({
+          attributeId: 10,
+          inheritedFromFamilyId: null,
+        }),
+        expect.objectContaining({
+          attributeId: 11,
+          additionalValue: 'linen',
+          inheritedFromFamilyId: null,
+          overrides: [],
+        }),
+        expect.objectContaining({
+          attributeId: 12,
+          inheritedFromFamilyId: null,
+        }),
+      ]);
+      // Dress shirts now inherit everything from Shirts
+      expect(attributesOf(3).map((fa) => fa.inheritedFromFamilyId)).toEqual([
+        2, 2, 2,
+      ]);
+    });
+
+    it('should reject a parent that would create a cycle', async () => {
+      await expect(
+        service.update(1, { parentFamilyId: 3 }, USER_ID),
+      ).rejects.toThrow(
+        new BadRequestException(
+          'A family cannot extend itself or one of its child families',
+        ),
+      );
+    });
+  });
+});
@@ -1,24 +1,36 @@
 import { Injectable, NotFoundException, ConflictException, ForbiddenException, BadRequestException } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
-import { CreateFamilyDto } from './dto/create-family.dto';
+import { CreateFamilyDto, FamilyAttributeDto } from './dto/create-family.dto';
 import { UpdateFamilyDto } from './dto/update-family.dto';
+import { CloneFamilyDto } from './dto/clone-family.dto';
 import { FamilyResponseDto } from './dto/family-response.dto';
 import { FamilyFilterDto, FamilySortField, SortOrder, DateFilter } from './dto/family-filter.dto';
 import { BulkDeleteFamilyDto } from './dto/bulk-delete-family.dto';
 import { AttributeValueValidator } from '../attribute/validators/attribute-value.validator';
+import { OperationJournalService } from '../operation-journal/operation-journal.service';
+import { OperationType } from '../operation-journal/dto';
 import { AttributeType } from '../types/attribute-type.enum';
+import { AttributeLevel } from '../utils/variant-level.helper';
+import { InheritanceMode } from '../utils/attribute-inheritance.helper';
+import { withRecomputeAfterCommit } from '../utils/computedAttributeUtils';
 import { PaginatedResponse, PaginationUtils } from '../common';
-import type { Family } from '@prisma/client';
+import type { Family, FamilyAttribute, Prisma } from '@prisma/client';
+
+type FamilyAttributeSettings = { isRequired: boolean; additionalValue: string | null; isVariantAxis: boolean; level: AttributeLevel; inheritance: InheritanceMode };
+
+// Inherited settings a child family can set itself; the others always follow the parent
+const OVERRIDABLE_SETTINGS = ['isRequired', 'additionalValue'] as const;
 
 @Injectable()
 export class FamilyService {
   constructor(
     private readonly prisma: PrismaService,
-    private readonly attributeValidator: AttributeValueValidator
+    private readonly attributeValidator: AttributeValueValidator,
+    private readonly operationJournalService: OperationJournalService,
   ) {}
 
   async create(createFamilyDto: CreateFamilyDto, userId: number): Promise<Family> {
-    const { name, requiredAttributes = [], otherAttributes = [] } = createFamilyDto;
+    const { name, parentFamilyId, requiredAttributes = [], otherAttributes = [] } = createFamilyDto;
 
     // Check if family name already exists for this user
     const existingFamily = await this.prisma.family.findUnique({
@@ -34,6 +46,10 @@ export class FamilyService {
       throw new ConflictException('Family with this name already exists');
     }
 
+    if (parentFamilyId != null) {
+      await this.validateParentFamily(null, parentFamilyId, userId);
+    }
+
     // Validate that all attribute IDs exist and belong to the user
     const allAttributeIds = [
       ...requiredAttributes.map(attr => attr.attributeId),
@@ -73,6 +89,28 @@ export class FamilyService {
     }
 
     try {
+      if (parentFamilyId != null) {
+        // Inherit the parent's attributes first, so entries for them become overrides
+        return await withRecomputeAfterCommit(() => this.prisma.$transaction(async (tx) => {
+          const family = await tx.family.create({
+            data: { name, userId, parentFamilyId },
+          });
+          await this.syncInheritance(family.id, tx);
+          await this.replaceFamilyAttributes(family.id, parentFamilyId, requiredAttributes, otherAttributes, tx);
+
+          return await tx.family.findUniqueOrThrow({
+            where: { id: family.id },
+            include: {
+              familyAttributes: {
+                include: {
+                  attribute: true,
+                },
+              },
+            },
+          });
+        }));
+      }
+
       return await this.prisma.family.create({
         data: {
           name,
@@ -83,11 +121,13 @@ export class FamilyService {
                   attributeId: attr.attributeId,
                   isRequired: true,
                   additionalValue: attr.additionalValue !== undefined ? String(attr.additionalValue) : null,
+                  ...this.resolveVariantSettings(attr),
                 })),
                 ...otherAttributes.map(attr => ({
                   attributeId: attr.attributeId,
                   isRequired: false,
                   additionalValue: attr.additionalValue !== undefined ? String(attr.additionalValue) : null,
+                  ...this.resolveVariantSettings(attr),
                 })),
             ],
           },
@@ -139,12 +179,18 @@ export class FamilyService {
       id: family.id,
       name: family.name,
       userId: family.userId,
+      parentFamilyId: family.parentFamilyId,
       createdAt: family.createdAt,
       updatedAt: family.updatedAt,
       productCount: family._count.products,
       familyAttributes: family.familyAttributes.map(fa => ({
         id: fa.id,
         isRequired: fa.isRequired,
+        isVariantAxis: fa.isVariantAxis,
+        level: fa.level,
+        inheritance: fa.inheritance,
+        inheritedFromFamilyId: fa.inheritedFromFamilyId,
+        overrides: fa.overrides,
         additionalValue: this.attributeValidator.parseStoredValue(fa.attribute.type as AttributeType, fa.additionalValue),
         attribute: {
           id: fa.attribute.id,
@@ -290,6 +336,7 @@ export class FamilyService {
       id: family.id,
       name: family.name,
       userId: family.userId,
+      parentFamilyId: family.parentFamilyId,
       createdAt: family.createdAt,
       updatedAt: family.updatedAt,
       productCount: family._count.products,
@@ -297,6 +344,11 @@ export class FamilyService {
       familyAttributes: family.familyAttributes.map(fa => ({
         id: fa.id,
         isRequired: fa.isRequired,
+        isVariantAxis: fa.isVariantAxis,
+        level: fa.level,
+        inheritance: fa.inheritance,
+        inheritedFromFamilyId: fa.inheritedFromFamilyId,
+        overrides: fa.overrides,
         additionalValue: this.attributeValidator.parseStoredValue(fa.attribute.type as AttributeType, fa.additionalValue),
         attribute: {
           id: fa.attribute.id,
@@ -337,6 +389,13 @@ export class FamilyService {
             createdAt: 'desc',
           },
         },
+        parentFamily: {
+          select: { id: true, name: true },
+        },
+        childFamilies: {
+          select: { id: true, name: true },
+          orderBy: { name: 'asc' },
+        },
       },
     });
 
@@ -352,8 +411,11 @@ export class FamilyService {
       id: family.id,
       name: family.name,
       userId: family.userId,
+      parentFamilyId: family.parentFamilyId,
       createdAt: family.createdAt,
       updatedAt: family.updatedAt,
+      parentFamily: family.parentFamily,
+      childFamilies: family.childFamilies,
       products: family.products.map(product => ({
         id: product.id,
         name: product.name,
@@ -364,6 +426,11 @@ export class FamilyService {
       familyAttributes: family.familyAttributes.map(fa => ({
         id: fa.id,
         isRequired: fa.isRequired,
+        isVariantAxis: fa.isVariantAxis,
+        level: fa.level,
+        inheritance: fa.inheritance,
+        inheritedFromFamilyId: fa.inheritedFromFamilyId,
+        overrides: fa.overrides,
         additionalValue: this.attributeValidator.parseStoredValue(fa.attribute.type as AttributeType, fa.additionalValue),
         attribute: {
           id: fa.attribute.id,
@@ -379,7 +446,7 @@ export class FamilyService {
   async update(id: number, updateFamilyDto: UpdateFamilyDto, userId: number): Promise<Family> {
     const existingFamily = await this.findOne(id, userId);
     
-    const { name, requiredAttributes = [], otherAttributes = [] } = updateFamilyDto;
+    const { name, parentFamilyId, requiredAttributes = [], otherAttributes = [] } = updateFamilyDto;
 
     // If name is being updated, check for conflicts
     if (name && name !== existingFamily.name) {
@@ -397,6 +464,12 @@ export class FamilyService {
       }
     }
 
+    // null detaches the family from its parent
+    const parentChanged = parentFamilyId !== undefined && parentFamilyId !== existingFamily.parentFamilyId;
+    if (parentChanged && parentFamilyId !== null) {
+      await this.validateParentFamily(id, parentFamilyId, userId);
+    }
+
     // Validate attributes if provided
     const allAttributeIds = [
       ...requiredAttributes.map(attr => attr.attributeId),
@@ -436,153 +509,36 @@ export class FamilyService {
     }
 
     try {
-      // Get existing family attributes
-      const existingFamilyAttributes = await this.prisma.familyAttribute.findMany({
-        where: { familyId: id },
-        select: { id: true, attributeId: true, isRequired: true, additionalValue: true },
-      });
-
-      // console.log(`[Family Update] Existing FamilyAttributes:`, existingFamilyAttributes);
-
-      // Create a map of existing attributes: attributeId -> familyAttribute
-      const existingAttrMap = new Map(
-        existingFamilyAttributes.map(fa => [fa.attributeId, fa])
-      );
-
-      // Build maps for incoming attributes
-      const incomingAttrMap = new Map<number, { isRequired: boolean; additionalValue: string | null }>();
-      
-      for (const attr of allAttributes) {
-        const isRequired = requiredAttributes.some(ra => ra.attributeId === attr.attributeId);
-        const additionalValue = attr.additionalValue !== undefined ? String(attr.additionalValue) : null;
-        incomingAttrMap.set(attr.attributeId, { isRequired, additionalValue });
-      }
-
-      // console.log(`[Family Update] Incoming attributes:`, Array.from(incomingAttrMap.entries()));
-
-      // Categorize operations
-      const toUpdate: Array<{ familyAttributeId: number; attributeId: number; isRequired: boolean; additionalValue: string | null }> = [];
-      const toCreate: Array<{ attributeId: number; isRequired: boolean; additionalValue: string | null }> = [];
-      const toDelete: Array<{ familyAttributeId: number; attributeId: number }> = [];
-
-      // Check what needs to be updated or kept
-      for (const [attributeId, incoming] of incomingAttrMap.entries()) {
-        const existing = existingAttrMap.get(attributeId);
-        
-        if (existing) {
-          // Attribute exists - check if it needs updating
-          if (existing.isRequired !== incoming.isRequired || existing.additionalValue !== incoming.additionalValue) {
-            toUpdate.push({
-              familyAttributeId: existing.id,
-              attributeId,
-              isRequired: incoming.isRequired,
-              additionalValue: incoming.additionalValue,
-            });
-          } else {
-            // console.log(`[Family Update] Attribute ${attributeId} unchanged, skipping`);
-          }
-        } else {
-          // New attribute - needs to be created
-          toCreate.push({
-            attributeId,
-            isRequired: incoming.isRequired,
-            additionalValue: incoming.additionalValue,
-          });
-        }
-      }
-
-      // Check what needs to be deleted
-      for (const existing of existingFamilyAttributes) {
-        if (!incomingAttrMap.has(existing.attributeId)) {
-          toDelete.push({
-            familyAttributeId: existing.id,
-            attributeId: existing.attributeId,
-          });
-        }
-      }
-
-      // console.log(`[Family Update] Operations planned:`, {
-      //   toUpdate: toUpdate.length,
-      //   toCreate: toCreate.length,
-      //   toDelete: toDelete.length,
-      // });
-      // console.log(`[Family Update] Details:`, { toUpdate, toCreate, toDelete });
-
       // Use a transaction to perform all operations
-      return await this.prisma.$transaction(async (tx) => {
-        // console.log(`[Family Update] Starting transaction`);
-
+      return await withRecomputeAfterCommit(() => this.prisma.$transaction(async (tx) => {
         // 1. Update the family name if needed
         if (name && name !== existingFamily.name) {
-          // console.log(`[Family Update] Updating family name from "${existingFamily.name}" to "${name}"`);
           await tx.family.update({
             where: { id },
             data: { name },
           });
         }
 
-        // 2. Update existing FamilyAttribute rows in place (PRESERVES familyAttributeId)
-        for (const attr of toUpdate) {
-          // console.log(`[Family Update] Updating FamilyAttribute ID ${attr.familyAttributeId} (attributeId: ${attr.attributeId})`);
-          await tx.familyAttribute.update({
-            where: { 
-              familyId_attributeId: {
-                familyId: id,
-                attributeId: attr.attributeId,
-              },
-            },
-            data: {
-              isRequired: attr.isRequired,
-              additionalValue: attr.additionalValue,
-            },
-          });
-        }
-
-        // 3. Create new FamilyAttribute rows
-        for (const attr of toCreate) {
-          // console.log(`[Family Update] Creating new FamilyAttribute for attributeId ${attr.attributeId}`);
-          await tx.familyAttribute.create({
-            data: {
-              familyId: id,
-              attributeId: attr.attributeId,
-              isRequired: attr.isRequired,
-              additionalValue: attr.additionalValue,
-            },
+        // 2. Move the family; inherited attributes the new parent lacks stay as its own
+        if (parentChanged) {
+          await tx.family.update({
+            where: { id },
+            data: { parentFamilyId },
           });
+          await this.syncInheritance(id, tx, true);
         }
 
-        // 3.5. Link existing ProductAttributes to newly created FamilyAttributes
-        if (toCreate.length > 0) {
-          const newlyCreatedAttributeIds = toCreate.map(attr => attr.attributeId);
-          await this.linkProductAttributesToNewFamilyAttributes(id, newlyCreatedAttributeIds, tx);
-        }
-
-        // 4. Delete removed FamilyAttribute rows (WARNING: This will cascade delete ProductAttributes!)
-        if (toDelete.length > 0) {
-          // console.log(`[Family Update] WARNING: Deleting ${toDelete.length} FamilyAttributes, which will CASCADE DELETE related ProductAttributes`);
-          
-          for (const attr of toDelete) {
-            // Check if there are ProductAttributes that will be affected
-            const affectedProducts = await tx.productAttribute.count({
-              where: { familyAttributeId: attr.familyAttributeId },
-            });
-            
-            if (affectedProducts > 0) {
-              // console.log(`[Family Update] WARNING: Deleting FamilyAttribute ${attr.familyAttributeId} (attributeId: ${attr.attributeId}) will delete ${affectedProducts} ProductAttribute values`);
-            }
-            
-            await tx.familyAttribute.delete({
-              where: {
-                familyId_attributeId: {
-                  familyId: id,
-                  attributeId: attr.attributeId,
-                },
-              },
-            });
-          }
-        }
+        // 3. Update, create and delete FamilyAttribute rows
+        await this.replaceFamilyAttributes(
+          id,
+          parentChanged ? parentFamilyId ?? null : existingFamily.parentFamilyId,
+          requiredAttributes,
+          otherAttributes,
+          tx,
+        );
 
-        // console.log(`[Family Update] Transaction completed successfully`);
+        // 4. Pass the changes on to child families
+        await this.syncInheritance(id, tx);
 
         // 5. Fetch and return the updated family with all relations
         const updatedFamily = await tx.family.findUnique({
@@ -600,10 +556,8 @@ export class FamilyService {
           throw new NotFoundException(`Family with ID ${id} not found`);
         }
 
-        // console.log(`[Family Update] Final FamilyAttributes:`, updatedFamily.familyAttributes.map(fa => ({ id: fa.id, attributeId: fa.attributeId })));
-
         return updatedFamily;
-      });
+      }));
     } catch (error) {
       console.error(`[Family Update] Error during update:`, error);
       if (error.code === 'P2002') {
@@ -614,7 +568,13 @@ export class FamilyService {
   }
 
   async remove(id: number, userId: number): Promise<{ message: string }> {
-    await this.findOne(id, userId); // Check if exists and user owns it
+    const family = await this.findOne(id, userId); // Check if exists and user owns it
+
+    if (family.childFamilies?.length) {
+      throw new BadRequestException(
+        `Family is extended by ${family.childFamilies.map(child => `"${child.name}"`).join(', ')}; move or delete those families first`,
+      );
+    }
 
     await this.prisma.family.delete({
       where: { id },
@@ -623,7 +583,14 @@ export class FamilyService {
     return { message: `Family with ID ${id} has been deleted` };
   }
 
-  async addAttribute(familyId: number, attributeId: number, isRequired: boolean, additionalValue: any, userId: number) {
+  async addAttribute(
+    familyId: number,
+    attributeId: number,
+    isRequired: boolean,
+    additionalValue: any,
+    userId: number,
+    variantSettings: Pick<FamilyAttributeDto, 'isVariantAxis' | 'level' | 'inheritance'> = {},
+  ) {
     const family = await this.findOne(familyId, userId);
 
     // Check if attribute exists and belongs to user
@@ -650,25 +617,63 @@ export class FamilyService {
       },
     });
 
+    if (existingFamilyAttribute?.inheritedFromFamilyId) {
+      throw new ConflictException('Attribute is inherited from the parent family; update the family to override its settings');
+    }
     if (existingFamilyAttribute) {
       throw new ConflictException('Attribute is already assigned to this family');
     }
 
-    return await this.prisma.familyAttribute.create({
-      data: {
-        familyId,
-        attributeId,
-        isRequired,
-        additionalValue: additionalValue !== undefined ? String(additionalValue) : null,
-      },
-      include: {
-        attribute: true,
-      },
-    });
+    return await withRecomputeAfterCommit(() => this.prisma.$transaction(async (tx) => {
+      const familyAttribute = await tx.familyAttribute.create({
+        data: {
+          familyId,
+          attributeId,
+          isRequired,
+          additionalValue: additionalValue !== undefined ? String(additionalValue) : null,
+          ...this.resolveVariantSettings(variantSettings),
+        },
+        include: {
+          attribute: true,
+        },
+      });
+
+      // Child families inherit the new attribute
+      await this.syncInheritance(familyId, tx);
+
+      return familyAttribute;
+    }));
+  }
+
+  /**
+   * Variant axes are always maintained per variant; other attributes default to the parent.
+   * Inheritance defaults to override, matching variants that keep their own copy of parent values.
+   */
+  private resolveVariantSettings(
+    attr: Pick<FamilyAttributeDto, 'isVariantAxis' | 'level' | 'inheritance'>,
+  ): { isVariantAxis: boolean; level: AttributeLevel; inheritance: InheritanceMode } {
+    if (attr.level && !Object.values(AttributeLevel).includes(attr.level)) {
+      throw new BadRequestException(`level must be one of: ${Object.values(AttributeLevel).join(', ')}`);
+    }
+    const isVariantAxis = attr.isVariantAxis ?? false;
+    if (isVariantAxis && attr.level === AttributeLevel.PARENT) {
+      throw new BadRequestException('Variant axis attributes must be variant level');
+    }
+    if (attr.inheritance && !Object.values(InheritanceMode).includes(attr.inheritance)) {
+      throw new BadRequestException(`inheritance must be one of: ${Object.values(InheritanceMode).join(', ')}`);
+    }
+    if (isVariantAxis && attr.inheritance && attr.inheritance !== InheritanceMode.OVERRIDE) {
+      throw new BadRequestException('Variant axis attributes cannot inherit the parent value');
+    }
+    return {
+      isVariantAxis,
+      level: isVariantAxis ? AttributeLevel.VARIANT : attr.level ?? AttributeLevel.PARENT,
+      inheritance: attr.inheritance ?? InheritanceMode.OVERRIDE,
+    };
   }
 
   async removeAttribute(familyId: number, attributeId: number, userId: number) {
-    await this.findOne(familyId, userId); // Check if family exists and user owns it
+    const family = await this.findOne(familyId, userId); // Check if family exists and user owns it
 
     const familyAttribute = await this.prisma.familyAttribute.findUnique({
       where: {
@@ -683,16 +688,383 @@ export class FamilyService {
       throw new NotFoundException('Attribute is not assigned to this family');
     }
 
-    await this.prisma.familyAttribute.delete({
+    if (familyAttribute.inheritedFromFamilyId) {
+      throw new BadRequestException('Attribute is inherited from the parent family and can only be removed there');
+    }
+
+    await withRecomputeAfterCommit(() => this.prisma.$transaction(async (tx) => {
+      const parentFamilyAttribute = family.parentFamilyId
+        ? await tx.familyAttribute.findUnique({
+            where: {
+              familyId_attributeId: {
+                familyId: family.parentFamilyId,
+                attributeId,
+              },
+            },
+          })
+        : null;
+
+      if (parentFamilyAttribute) {
+        // The parent family also has the attribute; inherit it again instead of dropping product values
+        await tx.familyAttribute.update({
+          where: { id: familyAttribute.id },
+          data: {
+            inheritedFromFamilyId: parentFamilyAttribute.inheritedFromFamilyId ?? parentFamilyAttribute.familyId,
+            overrides: [],
+          },
+        });
+      } else {
+        await tx.familyAttribute.delete({
+          where: {
+            familyId_attributeId: {
+              familyId,
+              attributeId,
+            },
+          },
+        });
+      }
+
+      // Sync the family's own settings from the parent and pass the removal on to child families
+      await this.syncInheritance(familyId, tx);
+    }));
+
+    return { message: 'Attribute removed from family successfully' };
+  }
+
+  /**
+   * Copy a family with its attributes, including inherited ones and their overrides, under the
+   * same parent family. Products, child families and completeness profiles are not copied.
+   */
+  async clone(id: number, cloneFamilyDto: CloneFamilyDto, userId: number): Promise<Family> {
+    const source = await this.prisma.family.findUnique({
+      where: { id },
+      include: { familyAttributes: true },
+    });
+
+    if (!source) {
+      throw new NotFoundException(`Family with ID ${id} not found`);
+    }
+
+    if (source.userId !== userId) {
+      throw new ForbiddenException('You can only access your own families');
+    }
+
+    const name = cloneFamilyDto.name ?? await this.copyName(source.name, userId);
+
+    const existingFamily = await this.prisma.family.findUnique({
       where: {
-        familyId_attributeId: {
-          familyId,
-          attributeId,
+        name_userId: {
+          name,
+          userId,
         },
       },
     });
 
-    return { message: 'Attribute removed from family successfully' };
+    if (existingFamily) {
+      throw new ConflictException('Family with this name already exists');
+    }
+
+    try {
+      return await this.prisma.family.create({
+        data: {
+          name,
+          userId,
+          parentFamilyId: source.parentFamilyId,
+          familyAttributes: {
+            create: source.familyAttributes.map(fa => ({
+              attributeId: fa.attributeId,
+              isRequired: fa.isRequired,
+              additionalValue: fa.additionalValue,
+              isVariantAxis: fa.isVariantAxis,
+              level: fa.level,
+              inheritance: fa.inheritance,
+              inheritedFromFamilyId: fa.inheritedFromFamilyId,
+              overrides: fa.overrides,
+            })),
+          },
+        },
+        include: {
+          familyAttributes: {
+            include: {
+              attribute: true,
+            },
+          },
+        },
+      });
+    } catch (error) {
+      if (error.code === 'P2002') {
+        throw new ConflictException('Family with this name already exists');
+      }
+      throw error;
+    }
+  }
+
+  // "<name> copy", then "<name> copy 2" and so on, shortened to the 40 character name limit
+  private async copyName(name: string, userId: number): Promise<string> {
+    const families = await this.prisma.family.findMany({
+      where: { userId },
+      select: { name: true },
+    });
+    const taken = new Set(families.map(family => family.name));
+
+    for (let copy = 1; ; copy++) {
+      const suffix = copy === 1 ? ' copy' : ` copy ${copy}`;
+      const candidate = `${name.slice(0, 40 - suffix.length).trimEnd()}${suffix}`;
+      if (!taken.has(candidate)) {
+        return candidate;
+      }
+    }
+  }
+
+  /**
+   * The parent must be one of the user's families and must not be the family itself or one of
+   * its descendants. familyId is null for a family that is being created.
+   */
+  private async validateParentFamily(familyId: number | null, parentFamilyId: number, userId: number): Promise<void> {
+    const parentFamily = await this.prisma.family.findFirst({
+      where: { id: parentFamilyId, userId },
+      select: { id: true },
+    });
+
+    if (!parentFamily) {
+      throw new BadRequestException(`Parent family with ID ${parentFamilyId} not found or does not belong to you`);
+    }
+
+    // Walk up from the new parent; reaching the family itself would make a cycle
+    const visited = new Set<number>();
+    let ancestorId: number | null = parentFamily.id;
+    while (ancestorId !== null && !visited.has(ancestorId)) {
+      if (ancestorId === familyId) {
+        throw new BadRequestException('A family cannot extend itself or one of its child families');
+      }
+      visited.add(ancestorId);
+      const ancestor = await this.prisma.family.findUnique({
+        where: { id: ancestorId },
+        select: { parentFamilyId: true },
+      });
+      ancestorId = ancestor?.parentFamilyId ?? null;
+    }
+  }
+
+  /**
+   * Replace the attributes of a family with the incoming lists, updating existing rows in place
+   * so product values linked to them are kept. Entries for attributes inherited from the parent
+   * family only override isRequired and additionalValue, and inherited attributes left out go
+   * back to the parent's settings. Own attributes left out are removed, or inherited again when
+   * the parent family has them.
+   */
+  private async replaceFamilyAttributes(
+    familyId: number,
+    parentFamilyId: number | null,
+    requiredAttributes: FamilyAttributeDto[],
+    otherAttributes: FamilyAttributeDto[],
+    tx: Prisma.TransactionClient,
+  ): Promise<void> {
+    // Get existing family attributes
+    const existingFamilyAttributes = await tx.familyAttribute.findMany({
+      where: { familyId },
+      select: { id: true, attributeId: true, isRequired: true, additionalValue: true, isVariantAxis: true, level: true, inheritance: true, inheritedFromFamilyId: true, overrides: true },
+    });
+
+    // Create a map of existing attributes: attributeId -> familyAttribute
+    const existingAttrMap = new Map(
+      existingFamilyAttributes.map(fa => [fa.attributeId, fa])
+    );
+
+    const parentFamilyAttributes = parentFamilyId
+      ? await tx.familyAttribute.findMany({ where: { familyId: parentFamilyId } })
+      : [];
+    const parentAttrMap = new Map<number, FamilyAttribute>(
+      parentFamilyAttributes.map(fa => [fa.attributeId, fa])
+    );
+
+    // Build maps for incoming attributes
+    const incomingAttrMap = new Map<number, FamilyAttributeSettings>();
+
+    for (const attr of [...requiredAttributes, ...otherAttributes]) {
+      const isRequired = requiredAttributes.some(ra => ra.attributeId === attr.attributeId);
+      const additionalValue = attr.additionalValue !== undefined ? String(attr.additionalValue) : null;
+      incomingAttrMap.set(attr.attributeId, { isRequired, additionalValue, ...this.resolveVariantSettings(attr) });
+    }
+
+    // Categorize operations
+    const toUpdate: Array<{ attributeId: number; data: Record<string, any> }> = [];
+    const toCreate: Array<{ attributeId: number } & FamilyAttributeSettings> = [];
+    const toDelete: Array<{ familyAttributeId: number; attributeId: number }> = [];
+
+    // Check what needs to be updated or kept
+    for (const [attributeId, incoming] of incomingAttrMap.entries()) {
+      const existing = existingAttrMap.get(attributeId);
+      const parentAttr = parentAttrMap.get(attributeId);
+
+      if (existing && existing.inheritedFromFamilyId !== null && parentAttr) {
+        // Inherited attribute - only settings that differ from the parent become overrides
+        const overrides = OVERRIDABLE_SETTINGS.filter(setting => incoming[setting] !== parentAttr[setting]);
+        if (
+          existing.isRequired !== incoming.isRequired ||
+          existing.additionalValue !== incoming.additionalValue ||
+          existing.overrides.join() !== overrides.join()
+        ) {
+          toUpdate.push({
+            attributeId,
+            data: { isRequired: incoming.isRequired, additionalValue: incoming.additionalValue, overrides },
+          });
+        }
+      } else if (existing) {
+        // Attribute exists - check if it needs updating
+        if (
+          existing.isRequired !== incoming.isRequired ||
+          existing.additionalValue !== incoming.additionalValue ||
+          existing.isVariantAxis !== incoming.isVariantAxis ||
+          existing.level !== (incoming.level as string) ||
+          existing.inheritance !== (incoming.inheritance as string)
+        ) {
+          toUpdate.push({ attributeId, data: { ...incoming } });
+        }
+      } else {
+        // New attribute - needs to be created
+        toCreate.push({ attributeId, ...incoming });
+      }
+    }
+
+    // Check what needs to be deleted or inherited again
+    for (const existing of existingFamilyAttributes) {
+      if (incomingAttrMap.has(existing.attributeId)) {
+        continue;
+      }
+      const parentAttr = parentAttrMap.get(existing.attributeId);
+      if (parentAttr) {
+        // Back to the parent's settings; syncInheritance copies them afterwards
+        if (existing.inheritedFromFamilyId === null || existing.overrides.length > 0) {
+          toUpdate.push({
+            attributeId: existing.attributeId,
+            data: { inheritedFromFamilyId: parentAttr.inheritedFromFamilyId ?? parentAttr.familyId, overrides: [] },
+          });
+        }
+      } else {
+        toDelete.push({
+          familyAttributeId: existing.id,
+          attributeId: existing.attributeId,
+        });
+      }
+    }
+
+    // Update existing FamilyAttribute rows in place (PRESERVES familyAttributeId)
+    for (const attr of toUpdate) {
+      await tx.familyAttribute.update({
+        where: {
+          familyId_attributeId: {
+            familyId,
+            attributeId: attr.attributeId,
+          },
+        },
+        data: attr.data,
+      });
+    }
+
+    // Create new FamilyAttribute rows
+    for (const attr of toCreate) {
+      await tx.familyAttribute.create({
+        data: {
+          familyId,
+          ...attr,
+        },
+      });
+    }
+
+    // Link existing ProductAttributes to newly created FamilyAttributes
+    await this.linkProductAttributesToNewFamilyAttributes(familyId, toCreate.map(attr => attr.attributeId), tx);
+
+    // Delete removed FamilyAttribute rows (WARNING: This will cascade delete ProductAttributes!)
+    for (const attr of toDelete) {
+      await tx.familyAttribute.delete({
+        where: {
+          familyId_attributeId: {
+            familyId,
+            attributeId: attr.attributeId,
+          },
+        },
+      });
+    }
+  }
+
+  /**
+   * Copy the attributes of a family's parent into it, then on into its child families, so
+   * everything reading familyAttributes sees the effective list. Inherited rows keep the settings
+   * the family overrides, attributes the family declares itself win over the parent's, and
+   * products get their existing values linked to newly inherited attributes. Inherited attributes
+   * the parent no longer has are removed, or kept as the family's own when it moved to another
+   * parent (keepRemoved) so their product values survive.
+   */
+  private async syncInheritance(familyId: number, tx: Prisma.TransactionClient, keepRemoved: boolean = false): Promise<void> {
+    const family = await tx.family.findUnique({
+      where: { id: familyId },
+      select: { parentFamilyId: true },
+    });
+    const parentFamilyAttributes = family?.parentFamilyId
+      ? await tx.familyAttribute.findMany({ where: { familyId: family.parentFamilyId } })
+      : [];
+    const existingFamilyAttributes = await tx.familyAttribute.findMany({
+      where: { familyId },
+    });
+    const existingAttrMap = new Map<number, FamilyAttribute>(
+      existingFamilyAttributes.map(fa => [fa.attributeId, fa])
+    );
+
+    const inheritedAttributeIds: number[] = [];
+    for (const parentAttr of parentFamilyAttributes) {
+      const existing = existingAttrMap.get(parentAttr.attributeId);
+      if (existing && existing.inheritedFromFamilyId === null) {
+        continue; // Declared by the family itself
+      }
+
+      const overrides = existing?.overrides ?? [];
+      const data = {
+        inheritedFromFamilyId: parentAttr.inheritedFromFamilyId ?? parentAttr.familyId,
+        isRequired: existing && overrides.includes('isRequired') ? existing.isRequired : parentAttr.isRequired,
+        additionalValue: existing && overrides.includes('additionalValue') ? existing.additionalValue : parentAttr.additionalValue,
+        isVariantAxis: parentAttr.isVariantAxis,
+        level: parentAttr.level,
+        inheritance: parentAttr.inheritance,
+      };
+
+      if (existing) {
+        await tx.familyAttribute.update({ where: { id: existing.id }, data });
+      } else {
+        await tx.familyAttribute.create({
+          data: { familyId, attributeId: parentAttr.attributeId, ...data },
+        });
+        inheritedAttributeIds.push(parentAttr.attributeId);
+      }
+    }
+
+    await this.linkProductAttributesToNewFamilyAttributes(familyId, inheritedAttributeIds, tx);
+
+    const parentAttributeIds = new Set(parentFamilyAttributes.map(fa => fa.attributeId));
+    const removedIds = existingFamilyAttributes
+      .filter(fa => fa.inheritedFromFamilyId !== null && !parentAttributeIds.has(fa.attributeId))
+      .map(fa => fa.id);
+    if (removedIds.length > 0) {
+      if (keepRemoved) {
+        await tx.familyAttribute.updateMany({
+          where: { id: { in: removedIds } },
+          data: { inheritedFromFamilyId: null, overrides: [] },
+        });
+      } else {
+        // Cascades to the product values, as removing an attribute from the parent does
+        await tx.familyAttribute.deleteMany({
+          where: { id: { in: removedIds } },
+        });
+      }
+    }
+
+    const childFamilies = await tx.family.findMany({
+      where: { parentFamilyId: familyId },
+      select: { id: true },
+    });
+    for (const child of childFamilies) {
+      await this.syncInheritance(child.id, tx);
+    }
   }
 
   /**
@@ -775,7 +1147,7 @@ export class FamilyService {
     );
   }
 
-  async bulkDelete(bulkDeleteDto: BulkDeleteFamilyDto, userId: number): Promise<{ deletedCount: number; message: string }> {
+  async bulkDelete(bulkDeleteDto: BulkDeleteFamilyDto, userId: number, actingUserId: number = userId): Promise<{ deletedCount: number; message: string; operationId: string | null }> {
     try {
       let familyIds: number[] = [];
 
@@ -820,10 +1192,30 @@ export class FamilyService {
       if (familyIds.length === 0) {
         return { 
           deletedCount: 0, 
-          message: 'No families to delete' 
+          message: 'No families to delete',
+          operationId: null
         };
       }
 
+      // Child families would lose their inherited attributes
+      const childFamilies = await this.prisma.family.findMany({
+        where: {
+          parentFamilyId: { in: familyIds },
+          id: { notIn: familyIds },
+          userId,
+        },
+        select: { name: true },
+      });
+      if (childFamilies.length > 0) {
+        throw new BadRequestException(
+          `Families being deleted are extended by ${childFamilies.map(child => `"${child.name}"`).join(', ')}; move or delete those families first`,
+        );
+      }
+
+      // Keep the family attributes and the product values linked to them, which the
+      // database deletes with the families, so the deletion can be undone
+      const snapshot = await this.operationJournalService.snapshotFamilies(familyIds, userId);
+
       // Delete all families with the given IDs
       const deleteResult = await this.prisma.family.deleteMany({
         where: { 
@@ -834,12 +1226,25 @@ export class FamilyService {
 
       console.log(`Successfully deleted ${deleteResult.count} family/families`);
 
+      const operationId = await this.operationJournalService.record(
+        userId,
+        actingUserId,
+        OperationType.FAMILY_BULK_DELETE,
+        `Deleted ${deleteResult.count} family/families`,
+        deleteResult.count,
+        snapshot,
+      );
+
       return { 
         deletedCount: deleteResult.count, 
-        message: `Successfully deleted ${deleteResult.count} family/families` 
+        message: `Successfully deleted ${deleteResult.count} family/families`,
+        operationId
       };
     } catch (error) {
       console.error(`Failed to bulk delete: ${error.message}`, error.stack);
+      if (error instanceof BadRequestException) {
+        throw error;
+      }
       throw new BadRequestException('Failed to bulk delete families');
     }
   }
@@ -1,8 +1,14 @@
-import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { Injectable, Logger, BadRequestException, Inject, forwardRef } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { PrismaService } from '../../prisma/prisma.service';
 import { BaseIntegrationService, ProductSyncResult } from '../base/base-integration.service';
 import { IntegrationType, IntegrationOperation, IntegrationStatus } from '../base/integration-type.enum';
+import { ChannelValueHelper } from '../../utils/channel-value.helper';
+import { PriceListHelper } from '../../utils/price-list.helper';
+import { AllocationRule, InventoryHelper } from '../../utils/inventory.helper';
+import { InventoryService } from '../../inventory/inventory.service';
+import { BarcodeHelper } from '../../utils/barcode.helper';
+import { AttributeType } from '../../types/attribute-type.enum';
 import * as crypto from 'crypto';
 import axios from 'axios';
 
@@ -26,10 +32,14 @@ const MARKETPLACE_MAP: Record<string, string> = {
 const DEFAULT_REGION = 'us-east-1';
 const DEFAULT_CURRENCY = 'USD';
 
+// Location that holds the stock Amazon reports for tracked products
+const AMAZON_FBA_LOCATION = { code: 'amazon-fba', name: 'Amazon FBA' };
+
 interface AmazonListing {
   sku: string;
   productName: string;
   price: string;
+  currency?: string;
   quantity: number;
   mainImage?: string;
   description: string;
@@ -41,6 +51,8 @@ interface ExtendedAmazonProduct {
   sku: string;
   title: string;
   asin?: string;
+  barcode?: string; // Valid GTIN or ISBN
+  barcodeType?: string; // 'upc', 'ean', 'gtin' or 'isbn'
 
   // Product classification
   brand?: string;
@@ -51,6 +63,9 @@ interface ExtendedAmazonProduct {
   // Pricing and inventory
   price: number;
   currencyCode?: string;
+  salePrice?: number;
+  saleStartsAt?: string;
+  saleEndsAt?: string;
   quantity: number;
   conditionType?: string;
 
@@ -114,6 +129,8 @@ export class AmazonService extends BaseIntegrationService {
   constructor(
     protected prisma: PrismaService,
     protected configService: ConfigService,
+    @Inject(forwardRef(() => InventoryService))
+    private inventoryService: InventoryService,
   ) {
     super(prisma, configService);
     // Load SDK asynchronously
@@ -138,6 +155,7 @@ export class AmazonService extends BaseIntegrationService {
     region: string;
     sellerId: string;
     webhookSecret?: string;
+    priceList: { id: number; currency: string } | null;
   }> {
     const credentials = await this.prisma.userIntegrationCredentials.findUnique({
       where: {
@@ -146,6 +164,7 @@ export class AmazonService extends BaseIntegrationService {
           integrationType: 'amazon',
         },
       },
+      include: { priceList: { select: { id: true, currency: true } } },
     });
 
     if (!credentials || !credentials.isActive) {
@@ -164,6 +183,7 @@ export class AmazonService extends BaseIntegrationService {
       region: creds.region || DEFAULT_REGION,
       sellerId: creds.sellerId || '',
       webhookSecret: creds.webhookSecret,
+      priceList: credentials.priceList,
     };
   }
 
@@ -460,8 +480,11 @@ export class AmazonService extends BaseIntegrationService {
       // Ensure connection with user's credentials
       await this.connectWithCredentials(userId);
 
-      const product = await this.fetchProductWithRelations(productId, userId);
+      // Prices come from the price list assigned to the Amazon credentials, if any
+      const { priceList } = await this.getUserCredentials(userId);
+      const product = await this.fetchProductWithRelations(productId, userId, priceList?.id);
       this.validateProduct(product, productId);
+      const allocation = await this.getInventoryAllocation(userId);
 
       // After validation, product is guaranteed to be non-null
       const validProduct = product!;
@@ -470,7 +493,7 @@ export class AmazonService extends BaseIntegrationService {
 
       if (useExtended) {
         // Transform product to extended Amazon format with all parameters
-        const extendedProduct = this.transformProductToExtendedAmazon(validProduct);
+        const extendedProduct = this.transformProductToExtendedAmazon(validProduct, priceList?.currency, allocation);
         
         // Validate extended product
         this.validateAmazonProduct(extendedProduct);
@@ -481,7 +504,7 @@ export class AmazonService extends BaseIntegrationService {
         this.logger.log(`Extended product export completed for product ${productId}`);
       } else {
         // Use legacy transformation for backward compatibility
-        const amazonListing = this.transformProductToAmazon(validProduct);
+        const amazonListing = this.transformProductToAmazon(validProduct, priceList?.currency, allocation);
         result = await this.submitListingFeed(amazonListing);
         
         this.logger.log(`Legacy product export completed for product ${productId}`);
@@ -874,14 +897,27 @@ export class AmazonService extends BaseIntegrationService {
     return { success: true, productId };
   }
 
-  private transformProductToAmazon(product: any): AmazonListing {
-    const price = this.extractAttributeValue(product.attributes, 'price', '0').replace(/[^\d.]/g, '');
-    const quantity = parseInt(this.extractAttributeValue(product.attributes, ['quantity', 'stock'], '0')) || 0;
+  private transformProductToAmazon(
+    baseProduct: any,
+    priceListCurrency?: string,
+    allocation?: AllocationRule | null,
+  ): AmazonListing {
+    // Amazon-scoped attribute values win over the global values
+    const product = ChannelValueHelper.applyChannelValues(baseProduct, IntegrationType.AMAZON);
+    // The legacy feed has no sale schedule, so it gets the price of today
+    const pricing = PriceListHelper.resolve(product.prices);
+    const price = pricing
+      ? pricing.currentPrice.toFixed(2)
+      : this.extractAttributeValue(product.attributes, 'price', '0').replace(/[^\d.]/g, '');
+    // Tracked products export the stock allocated to Amazon
+    const quantity = InventoryHelper.channelQuantity(product, allocation)
+      ?? (parseInt(this.extractAttributeValue(product.attributes, ['quantity', 'stock'], '0')) || 0);
 
     return {
       sku: product.sku,
       productName: product.name,
       price,
+      currency: pricing ? priceListCurrency : undefined,
       quantity,
       mainImage: product.imageUrl,
       description: this.generateProductDescription(product),
@@ -892,8 +928,15 @@ export class AmazonService extends BaseIntegrationService {
   /**
    * Transform product to extended Amazon format with all parameters
    */
-  private transformProductToExtendedAmazon(product: any): ExtendedAmazonProduct {
+  private transformProductToExtendedAmazon(
+    baseProduct: any,
+    priceListCurrency?: string,
+    allocation?: AllocationRule | null,
+  ): ExtendedAmazonProduct {
+    // Amazon-scoped attribute values win over the global values
+    const product = ChannelValueHelper.applyChannelValues(baseProduct, IntegrationType.AMAZON);
     const attrs = product.attributes || [];
+    const pricing = PriceListHelper.resolve(product.prices);
     
     // Extract and parse values from attributes
     const bulletPointsRaw = this.extractAttributeValue(attrs, ['bulletPoints', 'bullet_points', 'features']);
@@ -901,12 +944,15 @@ export class AmazonService extends BaseIntegrationService {
     const dimensionsLength = this.parseNumeric(this.extractAttributeValue(attrs, ['length', 'dimension_length']));
     const dimensionsWidth = this.parseNumeric(this.extractAttributeValue(attrs, ['width', 'dimension_width']));
     const dimensionsHeight = this.parseNumeric(this.extractAttributeValue(attrs, ['height', 'dimension_height']));
+    const barcode = this.extractBarcode(attrs);
 
     const extendedProduct: ExtendedAmazonProduct = {
       // Core identifiers
       sku: product.sku,
       title: this.extractAttributeValue(attrs, ['title', 'productName'], product.name),
       asin: product.asin,
+      barcode: barcode ?? undefined,
+      barcodeType: barcode ? BarcodeHelper.amazonIdentifierType(barcode) ?? undefined : undefined,
 
       // Product classification
       brand: this.extractAttributeValue(attrs, 'brand'),
@@ -914,10 +960,16 @@ export class AmazonService extends BaseIntegrationService {
       productType: this.extractAttributeValue(attrs, ['productType', 'product_type']),
       itemType: this.extractAttributeValue(attrs, ['itemType', 'item_type']),
 
-      // Pricing and inventory
-      price: this.parseNumeric(this.extractAttributeValue(attrs, 'price', '0')),
-      currencyCode: this.extractAttributeValue(attrs, ['currencyCode', 'currency'], DEFAULT_CURRENCY),
-      quantity: this.parseNumeric(this.extractAttributeValue(attrs, ['quantity', 'stock'], '0')),
+      // Pricing and inventory, from the price list when one is assigned
+      price: pricing ? pricing.price : this.parseNumeric(this.extractAttributeValue(attrs, 'price', '0')),
+      currencyCode: pricing && priceListCurrency
+        ? priceListCurrency
+        : this.extractAttributeValue(attrs, ['currencyCode', 'currency'], DEFAULT_CURRENCY),
+      salePrice: pricing?.salePrice ?? undefined,
+      saleStartsAt: pricing?.saleStartsAt?.toISOString(),
+      saleEndsAt: pricing?.saleEndsAt?.toISOString(),
+      quantity: InventoryHelper.channelQuantity(product, allocation)
+        ?? this.parseNumeric(this.extractAttributeValue(attrs, ['quantity', 'stock'], '0')),
       conditionType: this.extractAttributeValue(attrs, ['conditionType', 'condition'], 'NewItem'),
 
       // Content
@@ -972,6 +1024,24 @@ export class AmazonService extends BaseIntegrationService {
     return attr?.value || defaultValue;
   }
 
+  /**
+   * Barcode from a Barcode attribute, falling back to an attribute named like
+   * one (e.g. "EAN" or "UPC") from before the type existed. Values with an
+   * invalid check digit are left out, as Amazon would reject the listing.
+   */
+  private extractBarcode(attributes: any[]): string | null {
+    const typed = (attributes || []).find((attr: any) => attr.attribute?.type === AttributeType.BARCODE && attr.value);
+    const value = typed?.value || this.extractAttributeValue(attributes, ['barcode', 'gtin', 'ean', 'upc', 'isbn']);
+    if (!value) return null;
+
+    const parsed = BarcodeHelper.parse(value);
+    if (!parsed) {
+      this.logger.warn(`Barcode "${value}" is not sent to Amazon: ${BarcodeHelper.validate(value)}`);
+      return null;
+    }
+    return parsed.value;
+  }
+
   private generateProductDescription(product: any): string {
     let description = product.name;
 
@@ -1086,7 +1156,7 @@ export class AmazonService extends BaseIntegrationService {
             purchasable_offer: [
               {
                 marketplace_id: this.marketplaceId,
-                currency: DEFAULT_CURRENCY,
+                currency: listing.currency || DEFAULT_CURRENCY,
                 our_price: [{ schedule: [{ value_with_tax: parseFloat(listing.price) }] }],
               },
             ],
@@ -1123,6 +1193,30 @@ export class AmazonService extends BaseIntegrationService {
       ],
     };
 
+    // Scheduled sale; Amazon starts and ends it itself
+    if (product.salePrice !== undefined) {
+      attributes.purchasable_offer[0].discounted_price = [
+        {
+          schedule: [
+            {
+              value_with_tax: product.salePrice,
+              ...(product.saleStartsAt ? { start_at: product.saleStartsAt } : {}),
+              ...(product.saleEndsAt ? { end_at: product.saleEndsAt } : {}),
+            },
+          ],
+        },
+      ];
+    }
+
+    // Add barcode; Amazon matches it to an existing ASIN or creates one
+    if (product.barcode && product.barcodeType) {
+      attributes.externally_assigned_product_identifier = [{
+        type: product.barcodeType,
+        value: product.barcode,
+        marketplace_id: this.marketplaceId,
+      }];
+    }
+
     // Add brand
     if (product.brand) {
       attributes.brand = [{ value: product.brand, marketplace_id: this.marketplaceId }];
@@ -1363,6 +1457,90 @@ export class AmazonService extends BaseIntegrationService {
     }
   }
 
+  /**
+   * Send the stock quantity of a product to Amazon without re-exporting it.
+   * Uses a JSON_LISTINGS_FEED PATCH of fulfillment_availability.
+   */
+  async updateInventoryQuantity(productId: number, userId: number, quantity: number): Promise<boolean> {
+    const product = await this.prisma.product.findFirst({
+      where: { id: productId, userId, isDeleted: false },
+      select: { sku: true },
+    });
+    if (!product) {
+      return false;
+    }
+
+    await this.connectWithCredentials(userId);
+    const feedId = await this.submitInventoryFeed(product.sku, quantity);
+
+    await this.logSuccess(
+      productId,
+      IntegrationOperation.UPDATE,
+      'Stock quantity updated on Amazon',
+      userId,
+      { externalSku: product.sku, metadata: { feedId, quantity } }
+    );
+    return true;
+  }
+
+  private async submitInventoryFeed(sku: string, quantity: number): Promise<string> {
+    try {
+      this.ensureConnected();
+
+      const createFeedDocumentResponse = await this.feedsClient.createFeedDocument({
+        contentType: 'application/json',
+      });
+
+      const inventoryFeedContent = JSON.stringify({
+        header: {
+          sellerId: this.sellerId,
+          version: FEED_VERSION,
+          issueLocale: FEED_LOCALE,
+        },
+        messages: [
+          {
+            messageId: 1,
+            sku,
+            operationType: 'PATCH',
+            productType: 'PRODUCT',
+            patches: [
+              {
+                op: 'replace',
+                path: '/attributes/fulfillment_availability',
+                value: [{ fulfillment_channel_code: 'DEFAULT', quantity }],
+              },
+            ],
+          },
+        ],
+      });
+
+      // Handle response structure - could be direct or wrapped in a result property
+      let uploadUrl = createFeedDocumentResponse.url || createFeedDocumentResponse.payload?.url;
+
+      // If URL is missing or invalid (e.g., mock server returning literal "string"), use a mock URL
+      if (!uploadUrl || uploadUrl === 'string' || typeof uploadUrl !== 'string' || (!uploadUrl.startsWith('http://') && !uploadUrl.startsWith('https://'))) {
+        this.logger.debug(`Mock/development mode detected - using placeholder URL (received: ${uploadUrl})`);
+        uploadUrl = 'https://mock-amazon-s3-upload.example.com/feed-upload';
+      }
+
+      await this.uploadFeedContent(uploadUrl, inventoryFeedContent);
+
+      const feedDocumentId = createFeedDocumentResponse.feedDocumentId || createFeedDocumentResponse.payload?.feedDocumentId;
+      const createFeedResponse = await this.feedsClient.createFeed({
+        feedType: 'JSON_LISTINGS_FEED',
+        marketplaceIds: [this.marketplaceId],
+        inputFeedDocumentId: feedDocumentId,
+      });
+
+      const responseFeedId = createFeedResponse.feedId || createFeedResponse.payload?.feedId || createFeedResponse;
+      this.logger.log(`Inventory feed submitted for SKU ${sku} (quantity ${quantity}), Feed ID: ${responseFeedId}`);
+      return responseFeedId;
+    } catch (error) {
+      this.logger.error(`Failed to update Amazon inventory of ${sku}:`, error);
+      throw error;
+    }
+  }
+
   /**
    * Fetches Amazon inventory with pagination support.
    * Amazon may return large result sets, so this method handles pagination automatically.
@@ -1410,12 +1588,48 @@ export class AmazonService extends BaseIntegrationService {
     }
   }
 
+  /**
+   * Store a quantity reported by Amazon: at the Amazon FBA location when the
+   * product's stock is tracked by location, or in the stock attribute otherwise
+   */
   private async updateProductStockAttribute(productId: number, quantity: number, userId: number): Promise<void> {
+    if (await this.inventoryService.isTracked(productId)) {
+      await this.inventoryService.recordChannelStock(
+        productId,
+        userId,
+        IntegrationType.AMAZON,
+        AMAZON_FBA_LOCATION,
+        parseInt(String(quantity)) || 0,
+      );
+      return;
+    }
+
     const stockAttribute = await this.findOrCreateAttribute('stock', 'Stock Quantity', 'number', userId);
     await this.upsertProductAttribute(productId, stockAttribute.id, quantity.toString());
   }
 
+  /**
+   * Store a price reported by Amazon: in the base tier of the assigned price
+   * list, or in the price attribute when no price list is assigned
+   */
   private async updateProductPriceAttribute(productId: number, price: string, userId: number): Promise<void> {
+    const credentials = await this.prisma.userIntegrationCredentials.findUnique({
+      where: { userId_integrationType: { userId, integrationType: 'amazon' } },
+      select: { priceListId: true },
+    });
+    const amount = PriceListHelper.toNumber(price);
+
+    if (credentials?.priceListId && amount !== null) {
+      await this.prisma.productPrice.upsert({
+        where: {
+          priceListId_productId_minQuantity: { priceListId: credentials.priceListId, productId, minQuantity: 1 },
+        },
+        update: { price: amount },
+        create: { priceListId: credentials.priceListId, productId, minQuantity: 1, price: amount },
+      });
+      return;
+    }
+
     const priceAttribute = await this.findOrCreateAttribute('price', 'Price', 'number', userId);
     await this.upsertProductAttribute(productId, priceAttribute.id, price);
   }
@@ -2,6 +2,11 @@ import { Injectable, Logger } from '@nestjs/common';
 import { PrismaService } from '../../prisma/prisma.service';
 import { ConfigService } from '@nestjs/config';
 import { IntegrationType, IntegrationOperation, IntegrationStatus } from './integration-type.enum';
+import { ChannelValueHelper, ScopedValueChannel } from '../../utils/channel-value.helper';
+import { VariantLevelHelper } from '../../utils/variant-level.helper';
+import { PriceListHelper } from '../../utils/price-list.helper';
+import { AllocationRule, InventoryHelper } from '../../utils/inventory.helper';
+import { ProductCategoryHelper } from '../../utils/product-category.helper';
 
 export interface IntegrationLogData {
   productId: number;
@@ -95,9 +100,10 @@ export abstract class BaseIntegrationService {
   }
 
   /**
-   * Fetch product with all related data
+   * Fetch product with all related data, with its prices in the price list
+   * assigned to the connection and its stock levels
    */
-  protected async fetchProductWithRelations(productId: number, userId: number) {
+  protected async fetchProductWithRelations(productId: number, userId: number, priceListId?: number | null) {
     return await this.prisma.product.findFirst({
       where: {
         id: productId,
@@ -105,6 +111,7 @@ export abstract class BaseIntegrationService {
       },
       include: {
         category: true,
+        categories: ProductCategoryHelper.include(),
         attributes: {
           include: {
             attribute: true,
@@ -115,6 +122,10 @@ export abstract class BaseIntegrationService {
             asset: true,
           },
         },
+        channelValues: ChannelValueHelper.include(this.integrationType as ScopedValueChannel),
+        prices: PriceListHelper.include(priceListId),
+        inventoryLevels: InventoryHelper.include(),
+        family: VariantLevelHelper.include(),
         variants: {
           include: {
             attributes: {
@@ -122,12 +133,62 @@ export abstract class BaseIntegrationService {
                 attribute: true,
               },
             },
+            channelValues: ChannelValueHelper.include(this.integrationType as ScopedValueChannel),
+            prices: PriceListHelper.include(priceListId),
+            inventoryLevels: InventoryHelper.include(),
           },
         },
       },
     });
   }
 
+  /**
+   * Stock allocation rule of the connection; null when the connection is
+   * offered all available stock
+   */
+  protected async getInventoryAllocation(userId: number, connectionId?: number | null): Promise<AllocationRule | null> {
+    return await this.prisma.inventoryAllocation.findUnique({
+      where: {
+        userId_channel_connectionId: {
+          userId,
+          channel: this.integrationType,
+          connectionId: ChannelValueHelper.toStoredConnectionId(this.integrationType, connectionId),
+        },
+      },
+    });
+  }
+
+  /**
+   * Channel category ID of each category for the connection, from the user's
+   * category mappings; null when no mapping applies
+   */
+  protected async getChannelCategoryIds(
+    userId: number,
+    connectionId: number | null | undefined,
+    categoryIds: number[],
+  ): Promise<Map<number, number | null>> {
+    if (categoryIds.length === 0) {
+      return new Map();
+    }
+
+    const [categories, mappings] = await Promise.all([
+      this.prisma.category.findMany({
+        where: { userId },
+        select: { id: true, parentCategoryId: true },
+      }),
+      this.prisma.channelCategoryMapping.findMany({
+        where: {
+          userId,
+          channel: this.integrationType,
+          connectionId: ChannelValueHelper.toStoredConnectionId(this.integrationType, connectionId),
+        },
+        select: { categoryId: true, externalCategoryId: true },
+      }),
+    ]);
+
+    return ProductCategoryHelper.resolve(categoryIds, categories, mappings);
+  }
+
   /**
    * Find product by SKU
    */
@@ -18,9 +18,12 @@ import { MyDealConnectionController } from './mydeal/mydeal-connection.controlle
 import { MyDealConnectionService } from './mydeal/mydeal-connection.service';
 import { IntegrationFactory } from './base/integration.factory';
 import { PrismaModule } from '../prisma/prisma.module';
+import { LocalizationModule } from '../localization/localization.module';
+import { AttributeModule } from '../attribute/attribute.module';
+import { InventoryModule } from '../inventory/inventory.module';
 
 @Module({
-  imports: [PrismaModule],
+  imports: [PrismaModule, LocalizationModule, AttributeModule, forwardRef(() => InventoryModule)],
   controllers: [
     IntegrationController,
     IntegrationLogController,
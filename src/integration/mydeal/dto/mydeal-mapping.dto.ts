@@ -1,4 +1,6 @@
-import { IsObject, IsArray, IsBoolean, IsInt, IsOptional } from 'class-validator';
+import { IsObject, IsArray, IsBoolean, IsInt, IsOptional, IsString, Matches } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { LocaleHelper } from '../../../utils/locale.helper';
 
 export class CreateMyDealExportMappingDto {
   @IsInt()
@@ -10,6 +12,13 @@ export class CreateMyDealExportMappingDto {
   @IsArray()
   selectedFields: string[];
 
+  // Locale of the exported name and localizable attribute values, e.g. "en-AU"
+  @IsString()
+  @IsOptional()
+  @Transform(({ value }) => (typeof value === 'string' ? (LocaleHelper.normalize(value) ?? value) : value))
+  @Matches(LocaleHelper.LOCALE_PATTERN, { message: 'locale must be a BCP 47 tag such as "en" or "en-AU"' })
+  locale?: string | null;
+
   @IsBoolean()
   @IsOptional()
   isActive?: boolean;
@@ -24,6 +33,13 @@ export class UpdateMyDealExportMappingDto {
   @IsOptional()
   selectedFields?: string[];
 
+  // Locale of the exported name and localizable attribute values, e.g. "en-AU"
+  @IsString()
+  @IsOptional()
+  @Transform(({ value }) => (typeof value === 'string' ? (LocaleHelper.normalize(value) ?? value) : value))
+  @Matches(LocaleHelper.LOCALE_PATTERN, { message: 'locale must be a BCP 47 tag such as "en" or "en-AU"' })
+  locale?: string | null;
+
   @IsBoolean()
   @IsOptional()
   isActive?: boolean;
@@ -70,6 +86,7 @@ export interface MyDealExportMappingResponseDto {
   connectionId: number;
   fieldMappings: Record<string, string>;
   selectedFields: string[];
+  locale: string | null;
   isActive: boolean;
   createdAt: Date;
   updatedAt: Date;
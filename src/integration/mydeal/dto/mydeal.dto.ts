@@ -308,6 +308,17 @@ export class UpdateProductQuantityPriceDto {
   connectionId?: number;
 }
 
+export class UpdatePriceListPricesDto {
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsInt({ each: true })
+  productIds: number[];
+
+  @IsInt()
+  @IsOptional()
+  connectionId?: number;
+}
+
 // DTOs for Update Product Listing Status
 export class BuyableProductListingDto {
   @IsString()
@@ -1,5 +1,6 @@
 import { Injectable, Logger, BadRequestException, NotFoundException } from '@nestjs/common';
 import { PrismaService } from '../../prisma/prisma.service';
+import { IntegrationType } from '../base/integration-type.enum';
 import axios from 'axios';
 import {
   CreateMyDealExportMappingDto,
@@ -147,6 +148,7 @@ export class MyDealConnectionService {
         connectionName: conn.connectionName,
         isActive: conn.isActive,
         isDefault: conn.isDefault,
+        priceListId: conn.priceListId,
         createdAt: conn.createdAt,
         updatedAt: conn.updatedAt,
         lastSyncedAt: conn.lastSyncedAt,
@@ -177,6 +179,7 @@ export class MyDealConnectionService {
       connectionName: connection.connectionName,
       isActive: connection.isActive,
       isDefault: connection.isDefault,
+      priceListId: connection.priceListId,
       createdAt: connection.createdAt,
       updatedAt: connection.updatedAt,
       lastSyncedAt: connection.lastSyncedAt,
@@ -208,6 +211,11 @@ export class MyDealConnectionService {
         },
       });
 
+      // Attribute values scoped to this connection are no longer reachable
+      await this.prisma.productAttributeChannelValue.deleteMany({
+        where: { channel: IntegrationType.MYDEAL, connectionId },
+      });
+
       this.logger.log(`MyDeal connection ${connectionId} deleted for user ${userId}`);
     } catch (error: any) {
       if (error.code === 'P2025') {
@@ -499,6 +507,7 @@ export class MyDealConnectionService {
         connectionId: dto.connectionId,
         fieldMappings: dto.fieldMappings as any,
         selectedFields: dto.selectedFields,
+        locale: dto.locale ?? null,
         isActive: dto.isActive ?? true,
       },
     });
@@ -577,6 +586,7 @@ export class MyDealConnectionService {
       data: {
         fieldMappings: dto.fieldMappings as any,
         selectedFields: dto.selectedFields,
+        locale: dto.locale,
         isActive: dto.isActive,
       },
     });
@@ -758,6 +768,7 @@ export class MyDealConnectionService {
       connectionId: mapping.connectionId,
       fieldMappings: mapping.fieldMappings as Record<string, string>,
       selectedFields: mapping.selectedFields,
+      locale: mapping.locale ?? null,
       isActive: mapping.isActive,
       createdAt: mapping.createdAt,
       updatedAt: mapping.updatedAt,
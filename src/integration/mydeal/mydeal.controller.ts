@@ -16,6 +16,7 @@ import {
   MyDealIntegrationDto,
   MyDealIntegrationResponseDto,
   UpdateProductQuantityPriceDto,
+  UpdatePriceListPricesDto,
   UpdateProductListingStatusDto,
   ActionResponse,
 } from './dto/mydeal.dto';
@@ -285,6 +286,41 @@ export class MyDealController {
     return result;
   }
 
+  @Post('products/quantityprice/price-list')
+  @UseGuards(JwtAuthGuard, OwnershipGuard, PermissionsGuard)
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions({ resource: 'integration', action: 'update' })
+  async updateProductPricesFromPriceList(
+    @Body() updateDto: UpdatePriceListPricesDto,
+    @GetUser() user: User,
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<ActionResponse> {
+    this.logger.log(
+      `User ${user.id} updating price list prices for ${updateDto.productIds.length} products on MyDeal`,
+    );
+
+    // Same batch limit as products/quantityprice
+    if (updateDto.productIds.length > 250) {
+      return {
+        ResponseStatus: 'Failed',
+        ProductGroups: [],
+        Errors: [
+          {
+            ID: 'BATCH_COUNT_EXCEEDED',
+            Code: 'BatchCountExceeded',
+            Message: 'Maximum 250 products allowed per request',
+          },
+        ],
+      };
+    }
+
+    return this.mydealService.updateProductPricesFromPriceList(
+      updateDto.productIds,
+      effectiveUserId,
+      updateDto.connectionId,
+    );
+  }
+
   @Post('products/listingstatus')
   @UseGuards(JwtAuthGuard, OwnershipGuard, PermissionsGuard)
   @HttpCode(HttpStatus.OK)
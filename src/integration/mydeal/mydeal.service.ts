@@ -5,6 +5,17 @@ import { BaseIntegrationService, ProductSyncResult } from '../base/base-integrat
 import { IntegrationType, IntegrationOperation, IntegrationStatus } from '../base/integration-type.enum';
 import axios, { AxiosInstance } from 'axios';
 import { MyDealConnectionService } from './mydeal-connection.service';
+import { LocalizationService } from '../../localization/localization.service';
+import { AttributeConstraintValidator } from '../../attribute/validators/attribute-constraint.validator';
+import { ChannelValueHelper } from '../../utils/channel-value.helper';
+import { VariantLevelHelper } from '../../utils/variant-level.helper';
+import { AttributeInheritanceHelper } from '../../utils/attribute-inheritance.helper';
+import { MeasurementHelper } from '../../utils/measurement.helper';
+import { PriceListHelper, ResolvedPrice } from '../../utils/price-list.helper';
+import { InventoryHelper } from '../../utils/inventory.helper';
+import { ProductCategoryHelper } from '../../utils/product-category.helper';
+import { BarcodeHelper } from '../../utils/barcode.helper';
+import { AttributeType } from '../../types/attribute-type.enum';
 import {
   MyDealTokenResponse,
   MyDealProductPayload,
@@ -14,6 +25,10 @@ import {
   MyDealBuyableProduct,
 } from './dto/mydeal.dto';
 
+// Units MyDeal listings use unless a product maps its own unit fields
+const MYDEAL_WEIGHT_UNIT = 'kg';
+const MYDEAL_DIMENSION_UNIT = 'm';
+
 @Injectable()
 export class MyDealService extends BaseIntegrationService {
   protected integrationType = IntegrationType.MYDEAL;
@@ -21,6 +36,7 @@ export class MyDealService extends BaseIntegrationService {
   private accessToken: string | null = null;
   private tokenExpiresAt: Date | null = null;
   private currentUserId: number | null = null;
+  private currentConnectionId: number | null = null;
   private mydealCategoriesCache: any[] | null = null;
   private categoriesCacheTimestamp: Date | null = null;
   private readonly CACHE_DURATION_MS = 3600000; // 1 hour
@@ -30,6 +46,8 @@ export class MyDealService extends BaseIntegrationService {
     protected configService: ConfigService,
     @Inject(forwardRef(() => MyDealConnectionService))
     private connectionService: MyDealConnectionService,
+    private localizationService: LocalizationService,
+    private attributeConstraintValidator: AttributeConstraintValidator,
   ) {
     super(prisma, configService);
     this.axiosInstance = axios.create();
@@ -61,11 +79,13 @@ export class MyDealService extends BaseIntegrationService {
    * Get MyDeal credentials for a specific user
    */
   private async getUserCredentials(userId: number, connectionId?: number): Promise<{
+    connectionId: number;
     baseApiUrl: string;
     clientId: string;
     clientSecret: string;
     sellerId: string;
     sellerToken: string;
+    priceListId: number | null;
   }> {
     let connection;
     
@@ -97,11 +117,13 @@ export class MyDealService extends BaseIntegrationService {
     }
 
     return {
+      connectionId: connection.id,
       baseApiUrl: connection.baseApiUrl,
       clientId: connection.clientId,
       clientSecret: connection.clientSecret,
       sellerId: connection.sellerId,
       sellerToken: connection.sellerToken,
+      priceListId: connection.priceListId,
     };
   }
 
@@ -114,8 +136,9 @@ export class MyDealService extends BaseIntegrationService {
       return;
     }
 
-    const { baseApiUrl, clientId, clientSecret, sellerId, sellerToken } = await this.getUserCredentials(userId, connectionId);
+    const { connectionId: resolvedConnectionId, baseApiUrl, clientId, clientSecret, sellerId, sellerToken } = await this.getUserCredentials(userId, connectionId);
     this.currentUserId = userId;
+    this.currentConnectionId = resolvedConnectionId;
 
     this.logger.log(`Connecting to MyDeal API for user ${userId}`);
 
@@ -253,28 +276,33 @@ export class MyDealService extends BaseIntegrationService {
   }
 
   /**
-   * Match internal category name with MyDeal category and return the ID
-   * Only returns categories where IsAssignable is true
+   * MyDeal category IDs of the product's categories, primary first. Categories
+   * mapped for the connection use their mapping; without any mapping the
+   * primary category is matched by name. Only assignable categories match.
    */
-  private async matchMyDealCategory(productId: number, userId: number): Promise<number> {
+  private async matchMyDealCategories(product: any, userId: number, connectionId?: number | null): Promise<number[]> {
     const DEFAULT_CATEGORY_ID = 135; // Default fallback category
 
     try {
-      // Fetch product's category from database
-      const product = await this.prisma.product.findUnique({
-        where: { id: productId },
-        include: {
-          category: true,
-        },
-      });
+      const categories = ProductCategoryHelper.productCategories(product);
+      if (categories.length === 0) {
+        this.logger.warn(`Product ${product.id} has no category, using default: ${DEFAULT_CATEGORY_ID}`);
+        return [DEFAULT_CATEGORY_ID];
+      }
 
-      if (!product?.category?.name) {
-        this.logger.warn(`Product ${productId} has no category, using default: ${DEFAULT_CATEGORY_ID}`);
-        return DEFAULT_CATEGORY_ID;
+      const categoryIds = categories.map(category => category.id);
+      const mapped = ProductCategoryHelper.externalIds(
+        categoryIds,
+        await this.getChannelCategoryIds(userId, connectionId, categoryIds),
+      );
+      if (mapped.length > 0) {
+        this.logger.log(`Using mapped MyDeal categories ${mapped.join(', ')} for product ${product.id}`);
+        return mapped;
       }
 
-      const internalCategoryName = product.category.name.toLowerCase().trim();
-      this.logger.log(`Matching internal category "${product.category.name}" with MyDeal categories`);
+      const primaryCategory = categories[0];
+      const internalCategoryName = primaryCategory.name.toLowerCase().trim();
+      this.logger.log(`Matching internal category "${primaryCategory.name}" with MyDeal categories`);
 
       // Fetch MyDeal categories
       const mydealCategories = await this.fetchMyDealCategories();
@@ -287,15 +315,15 @@ export class MyDealService extends BaseIntegrationService {
       );
 
       if (matchedCategory) {
-        this.logger.log(`Matched category "${product.category.name}" to MyDeal category ID: ${matchedCategory.CategoryID}`);
-        return matchedCategory.CategoryID;
+        this.logger.log(`Matched category "${primaryCategory.name}" to MyDeal category ID: ${matchedCategory.CategoryID}`);
+        return [matchedCategory.CategoryID];
       }
 
-      this.logger.warn(`No matching MyDeal category found for "${product.category.name}", using default: ${DEFAULT_CATEGORY_ID}`);
-      return DEFAULT_CATEGORY_ID;
+      this.logger.warn(`No matching MyDeal category found for "${primaryCategory.name}", using default: ${DEFAULT_CATEGORY_ID}`);
+      return [DEFAULT_CATEGORY_ID];
     } catch (error: any) {
       this.logger.error('Error matching category:', error);
-      return DEFAULT_CATEGORY_ID;
+      return [DEFAULT_CATEGORY_ID];
     }
   }
 
@@ -306,7 +334,9 @@ export class MyDealService extends BaseIntegrationService {
     try {
       await this.connectWithCredentials(userId, connectionId);
 
-      const product = await this.fetchProductWithRelations(productId, userId);
+      // Prices come from the price list assigned to the connection, if any
+      const { priceListId } = await this.getUserCredentials(userId, connectionId);
+      const product = await this.fetchProductWithRelations(productId, userId, priceListId);
 
       if (!product) {
         throw new BadRequestException(`Product with ID ${productId} not found`);
@@ -331,17 +361,22 @@ export class MyDealService extends BaseIntegrationService {
       // Get export mapping if connectionId provided
       let fieldMappings: Record<string, any> = {};
       let selectedFields: string[] | null = null;
+      let exportLocale: string | null = null;
       
       if (connectionId) {
         const exportMapping = await this.connectionService.getActiveExportMapping(userId, connectionId);
         if (exportMapping) {
           fieldMappings = exportMapping.fieldMappings;
           selectedFields = exportMapping.selectedFields;
+          exportLocale = exportMapping.locale;
           this.logger.log(`Using export mapping with fields: ${selectedFields?.join(', ')}`);
         }
       }
 
-      const mydealProductData = await this.transformProductToMyDeal(product, fieldMappings, selectedFields, userId, productId);
+      // Resolve name and localizable attribute values for the mapping's locale
+      const [localizedProduct] = await this.localizationService.localizeProducts([product], exportLocale);
+
+      const mydealProductData = await this.transformProductToMyDeal(localizedProduct, fieldMappings, selectedFields, userId, productId, connectionId ?? this.currentConnectionId);
 
       // Log the transformed MyDeal product data
       this.logger.log(`Transformed MyDeal product data for product ID ${productId}:`, JSON.stringify(mydealProductData, null, 2));
@@ -514,7 +549,7 @@ export class MyDealService extends BaseIntegrationService {
 
       // MyDeal doesn't have a direct delete endpoint in the API
       // We set the quantity to 0 and listing status to inactive
-      const mydealProductData = await this.transformProductToMyDeal(product, {}, null);
+      const mydealProductData = await this.transformProductToMyDeal(product, {}, null, undefined, undefined, connectionId ?? this.currentConnectionId);
       
       // Set all buyable products to inactive
       mydealProductData.BuyableProducts = mydealProductData.BuyableProducts.map(bp => ({
@@ -841,6 +876,7 @@ export class MyDealService extends BaseIntegrationService {
         userId,
         selectedFields,
       );
+      await this.attributeConstraintValidator.validateNamed(attributes, userId, { sku: mydealProduct.ProductSKU });
 
       // Extract category
       let categoryId: number | null = null;
@@ -959,6 +995,7 @@ export class MyDealService extends BaseIntegrationService {
         userId,
         selectedFields,
       );
+      await this.attributeConstraintValidator.validateNamed(parentAttributes, userId, { sku: mydealProduct.ProductSKU });
 
       // Extract category
       let categoryId: number | null = null;
@@ -1021,6 +1058,7 @@ export class MyDealService extends BaseIntegrationService {
 
       // Step 2: Create or update variants
       const variantIds: number[] = [];
+      const variantErrors: string[] = [];
 
       for (const buyableProduct of mydealProduct.BuyableProducts) {
         try {
@@ -1043,6 +1081,7 @@ export class MyDealService extends BaseIntegrationService {
             userId,
             selectedFields,
           );
+          await this.attributeConstraintValidator.validateNamed(variantAttributes, userId, { sku: buyableProduct.SKU });
 
           if (variant) {
             // Update existing variant
@@ -1080,6 +1119,7 @@ export class MyDealService extends BaseIntegrationService {
           variantIds.push(variant.id);
         } catch (variantError: any) {
           this.logger.error(`Failed to create/update variant ${buyableProduct.SKU}:`, variantError);
+          variantErrors.push(`${buyableProduct.SKU}: ${variantError.message}`);
           // Continue with other variants
         }
       }
@@ -1089,7 +1129,9 @@ export class MyDealService extends BaseIntegrationService {
         status: 'success',
         parentProductId: parentProduct.id,
         variantIds,
-        message: `Parent product and ${variantIds.length} variants imported successfully`,
+        message: variantErrors.length > 0
+          ? `Parent product and ${variantIds.length} variants imported; ${variantErrors.length} variants failed: ${variantErrors.join('; ')}`
+          : `Parent product and ${variantIds.length} variants imported successfully`,
       };
     } catch (error: any) {
       this.logger.error(`Failed to import variant product ${mydealProduct.ExternalProductId}:`, error);
@@ -1654,12 +1696,19 @@ export class MyDealService extends BaseIntegrationService {
    * Transform internal product to MyDeal format
    */
   private async transformProductToMyDeal(
-    product: any,
+    baseProduct: any,
     fieldMappings: Record<string, any> = {},
     selectedFields: string[] | null = null,
     userId?: number,
     productId?: number,
+    connectionId?: number | null,
   ): Promise<MyDealProductPayload> {
+    // Attribute values scoped to this connection win over the global values
+    const product = ChannelValueHelper.applyChannelValues(baseProduct, IntegrationType.MYDEAL, connectionId);
+
+    // GTIN defaults to the product's Barcode attribute when no attribute is mapped to it
+    const barcode = product.attributes?.find((a: any) => a.attribute?.type === AttributeType.BARCODE && a.value)?.value ?? null;
+
     // Helper function to check if a field should be exported
     const shouldExportField = (internalField: string): boolean => {
       return !selectedFields || selectedFields.includes(internalField);
@@ -1674,13 +1723,13 @@ export class MyDealService extends BaseIntegrationService {
       'brand': { mydealField: 'Brand', defaultValue: '' },
       'tags': { mydealField: 'Tags', defaultValue: '', processor: (val) => Array.isArray(val) ? val.join(', ') : (val || '') },
       'condition': { mydealField: 'Condition', defaultValue: 'new', required: true },
-      'weight': { mydealField: 'Weight', defaultValue: 1, processor: parseFloat },
-      'weightUnit': { mydealField: 'WeightUnit', defaultValue: 'kg' },
-      'length': { mydealField: 'Length', defaultValue: 0.1, processor: parseFloat },
-      'height': { mydealField: 'Height', defaultValue: 0.1, processor: parseFloat },
-      'width': { mydealField: 'Width', defaultValue: 0.1, processor: parseFloat },
-      'dimensionUnit': { mydealField: 'DimensionUnit', defaultValue: 'm' },
-      'gtin': { mydealField: 'GTIN', defaultValue: null },
+      'weight': { mydealField: 'Weight', defaultValue: 1, processor: (val) => MeasurementHelper.toChannelValue(val, weightUnit) },
+      'weightUnit': { mydealField: 'WeightUnit', defaultValue: MYDEAL_WEIGHT_UNIT, processor: () => weightUnit },
+      'length': { mydealField: 'Length', defaultValue: 0.1, processor: (val) => MeasurementHelper.toChannelValue(val, dimensionUnit) },
+      'height': { mydealField: 'Height', defaultValue: 0.1, processor: (val) => MeasurementHelper.toChannelValue(val, dimensionUnit) },
+      'width': { mydealField: 'Width', defaultValue: 0.1, processor: (val) => MeasurementHelper.toChannelValue(val, dimensionUnit) },
+      'dimensionUnit': { mydealField: 'DimensionUnit', defaultValue: MYDEAL_DIMENSION_UNIT, processor: () => dimensionUnit },
+      'gtin': { mydealField: 'GTIN', defaultValue: barcode, processor: (val) => BarcodeHelper.parse(val)?.value ?? null }, // MyDeal rejects invalid check digits
       'mpn': { mydealField: 'MPN', defaultValue: null },
       'requiresShipping': { mydealField: 'RequiresShipping', defaultValue: true, processor: (val) => val === true || val === 'true' },
       'shippingCostStandard': { mydealField: 'ShippingCostStandard', defaultValue: 10, processor: parseFloat },
@@ -1733,6 +1782,10 @@ export class MyDealService extends BaseIntegrationService {
       return defaultValue;
     };
 
+    // Measurements are converted to the units sent with the listing, kg and m unless mapped otherwise
+    const weightUnit = MeasurementHelper.normalizeUnit(getFieldValue('weightUnit')) ?? MYDEAL_WEIGHT_UNIT;
+    const dimensionUnit = MeasurementHelper.normalizeUnit(getFieldValue('dimensionUnit')) ?? MYDEAL_DIMENSION_UNIT;
+
     // Get base URL for relative image URLs
     const baseUrl = this.configService.get<string>('BASE_URL') || 'http://localhost:3000';
 
@@ -1746,10 +1799,10 @@ export class MyDealService extends BaseIntegrationService {
       return `${baseUrl}${cleanUrl}`;
     };
 
-    // Match MyDeal category
-    let categoryId = 135; // Default
+    // Match MyDeal categories
+    let categoryIds = [135]; // Default
     if (userId && productId) {
-      categoryId = await this.matchMyDealCategory(productId, userId);
+      categoryIds = await this.matchMyDealCategories(product, userId, connectionId);
     }
 
     // Initialize payload with ONLY absolutely required fields
@@ -1758,7 +1811,7 @@ export class MyDealService extends BaseIntegrationService {
       ProductSKU: product.sku || product.id.toString(),
       Title: 'Untitled Product',
       Condition: 'new',
-      Categories: [{ CategoryId: categoryId }], // Use the matched categoryId
+      Categories: categoryIds.map(categoryId => ({ CategoryId: categoryId })), // Use the matched categories
       Images: [],
       ShippingCostCategory: 1,
       CustomFreightSchemeID: null,
@@ -1821,9 +1874,9 @@ export class MyDealService extends BaseIntegrationService {
       const categoryAttr = getFieldValue('mydealCategoryId');
       if (categoryAttr) {
         // Only override if there's a specific MyDeal category ID in attributes
-        payload.Categories = [{ CategoryId: parseInt(categoryAttr) || categoryId }];
+        payload.Categories = [{ CategoryId: parseInt(categoryAttr) || categoryIds[0] }];
       }
-      // Otherwise keep the matched categoryId that was already set
+      // Otherwise keep the matched categories that were already set
     }
 
     // Handle BuyableProducts - only include fields that should be exported
@@ -1833,9 +1886,20 @@ export class MyDealService extends BaseIntegrationService {
     const hasIsActiveField = shouldExportField('isActive');
     const hasProductUnlimitedField = shouldExportField('productUnlimited');
 
-    const price = hasPriceField ? (parseFloat(getFieldValue('price', 0)) || 0) : 0;
-    const compareAtPrice = hasCompareAtPriceField ? (parseFloat(getFieldValue('compareAtPrice', price)) || price) : price;
-    const quantity = hasQuantityField ? (parseInt(getFieldValue('quantity', 0)) || 0) : 0;
+    // Prices from the connection's price list replace the price attributes; the
+    // regular price is the RRP while a sale is on
+    const pricing = PriceListHelper.resolve(product.prices);
+    const price = pricing
+      ? pricing.currentPrice
+      : hasPriceField ? (parseFloat(getFieldValue('price', 0)) || 0) : 0;
+    const compareAtPrice = pricing
+      ? pricing.price
+      : hasCompareAtPriceField ? (parseFloat(getFieldValue('compareAtPrice', price)) || price) : price;
+    // Tracked products export the stock allocated to this connection instead of the quantity attribute
+    const allocation = userId ? await this.getInventoryAllocation(userId, connectionId) : null;
+    const quantity = hasQuantityField
+      ? InventoryHelper.channelQuantity(product, allocation) ?? (parseInt(getFieldValue('quantity', 0)) || 0)
+      : 0;
     const isActive = hasIsActiveField ? getFieldValue('isActive', true) : true;
     const productUnlimited = hasProductUnlimitedField ? getFieldValue('productUnlimited', false) : false;
 
@@ -1847,6 +1911,9 @@ export class MyDealService extends BaseIntegrationService {
 
     // Check if variants should be exported
     const shouldExportVariants = shouldExportField('variants');
+
+    // Variant axes declared by the family become the Options of each variant
+    const levels = VariantLevelHelper.resolve(product);
     
     // Helper function to get field value from variant (checks attributes array)
     const getVariantFieldValue = (variant: any, fieldName: string, defaultValue: any = null): any => {
@@ -1875,27 +1942,36 @@ export class MyDealService extends BaseIntegrationService {
     let buyableProducts: any[] = [];
     
     if (shouldExportVariants && product.variants?.length > 0) {
-      // Process each variant and collect those with differing attributes
+      // Process each variant, resolved through the parent, and collect those with differing attributes
       const variantsWithOptions = product.variants
+        .map((variant: any) => AttributeInheritanceHelper.applyToVariant(variant, product.attributes, product.family?.familyAttributes))
         .map((variant: any) => {
           const buyableProduct: any = {
             ExternalBuyableProductID: variant.sku || variant.id.toString(),
             SKU: variant.sku || variant.id.toString(),
           };
 
+          // Variants without prices in the price list use the parent's
+          const variantPricing = PriceListHelper.resolve(variant.prices) ?? pricing;
+
           // Extract variant-specific values, fallback to parent if not found
           if (hasPriceField) {
             const variantPrice = getVariantFieldValue(variant, 'price', null);
-            buyableProduct.Price = variantPrice !== null ? parseFloat(variantPrice) : price;
+            buyableProduct.Price = variantPricing
+              ? variantPricing.currentPrice
+              : variantPrice !== null ? parseFloat(variantPrice) : price;
           }
           if (hasCompareAtPriceField) {
             const variantRRP = getVariantFieldValue(variant, 'compareAtPrice', null) || 
                                getVariantFieldValue(variant, 'rrp', null);
-            buyableProduct.RRP = variantRRP !== null ? parseFloat(variantRRP) : compareAtPrice;
+            buyableProduct.RRP = variantPricing
+              ? variantPricing.price
+              : variantRRP !== null ? parseFloat(variantRRP) : compareAtPrice;
           }
           if (hasQuantityField) {
             const variantQuantity = getVariantFieldValue(variant, 'quantity', null);
-            buyableProduct.Quantity = variantQuantity !== null ? parseInt(variantQuantity) : quantity;
+            buyableProduct.Quantity = InventoryHelper.channelQuantity(variant, allocation)
+              ?? (variantQuantity !== null ? parseInt(variantQuantity) : quantity);
           }
           if (hasIsActiveField) {
             const variantIsActive = getVariantFieldValue(variant, 'isActive', null);
@@ -1913,7 +1989,18 @@ export class MyDealService extends BaseIntegrationService {
           // Build Options from variant attributes that differ from parent
           const options: any[] = [];
           
-          if (variant.attributes && Array.isArray(variant.attributes)) {
+          if (levels) {
+            for (const axis of levels.axes) {
+              const axisAttr = variant.attributes?.find((va: any) => (va.attributeId ?? va.attribute?.id) === axis.attributeId);
+              if (axisAttr?.value) {
+                options.push({
+                  OptionName: axis.name,
+                  OptionValue: axisAttr.value,
+                  Position: options.length + 1,
+                });
+              }
+            }
+          } else if (variant.attributes && Array.isArray(variant.attributes)) {
             // Compare each variant attribute with parent attributes
             variant.attributes.forEach((varAttr: any) => {
               // Support both nested attribute structure and direct structure
@@ -2258,6 +2345,15 @@ export class MyDealService extends BaseIntegrationService {
       const productGroups: any[] = [];
       const errors: any[] = [];
 
+      // Prices left out of the request come from the connection's price list
+      const { priceListId } = await this.getUserCredentials(userId, connectionId);
+      const missingPriceSkus = products.flatMap((productGroup: any) =>
+        (productGroup.BuyableProducts || [])
+          .filter((bp: any) => bp.Price === undefined || bp.Price === null)
+          .map((bp: any) => bp.SKU),
+      );
+      const pricingBySku = await this.loadPriceListPricing(userId, priceListId, missingPriceSkus);
+
       // Process each product group
       for (const productGroup of products) {
         try {
@@ -2291,11 +2387,16 @@ export class MyDealService extends BaseIntegrationService {
               };
 
               // Only include fields that are provided
+              const pricing = pricingBySku.get(bp.SKU);
               if (bp.Price !== undefined && bp.Price !== null) {
                 buyableProduct.Price = parseFloat(bp.Price);
+              } else if (pricing) {
+                buyableProduct.Price = pricing.currentPrice;
               }
               if (bp.RRP !== undefined && bp.RRP !== null) {
                 buyableProduct.RRP = parseFloat(bp.RRP);
+              } else if (pricing) {
+                buyableProduct.RRP = pricing.price;
               }
               if (bp.ProductUnlimited === true) {
                 buyableProduct.ProductUnlimited = true;
@@ -2399,6 +2500,118 @@ export class MyDealService extends BaseIntegrationService {
     }
   }
 
+  /**
+   * Send the price list prices of products, and of their variants, to the
+   * MyDeal quantity/price endpoint. Used to push price changes and the start
+   * or end of scheduled sales without a full product export.
+   */
+  async updateProductPricesFromPriceList(
+    productIds: number[],
+    userId: number,
+    connectionId?: number,
+  ): Promise<any> {
+    const { priceListId } = await this.getUserCredentials(userId, connectionId);
+    if (!priceListId) {
+      throw new BadRequestException('No price list is assigned to this MyDeal connection');
+    }
+
+    const products = await this.prisma.product.findMany({
+      where: { id: { in: productIds }, userId, isDeleted: false },
+      select: {
+        sku: true,
+        variants: { where: { isDeleted: false }, select: { sku: true } },
+      },
+    });
+
+    // Buyable products are the variants, or the product itself, as on export
+    const productGroups = products.map(product => ({
+      ExternalProductID: product.sku,
+      ProductSKU: product.sku,
+      BuyableProducts: (product.variants.length > 0 ? product.variants : [product]).map(bp => ({
+        ExternalBuyableProductID: bp.sku,
+        SKU: bp.sku,
+      })),
+    }));
+
+    return this.updateProductQuantityPrice(productGroups, userId, connectionId);
+  }
+
+  /**
+   * Send the stock quantity of a product to the MyDeal quantity/price endpoint.
+   * Variants are sent as a buyable product of their parent. Throws when MyDeal
+   * rejects the update.
+   */
+  async updateProductStock(
+    productId: number,
+    userId: number,
+    quantity: number,
+    connectionId?: number,
+  ): Promise<boolean> {
+    const product = await this.prisma.product.findFirst({
+      where: { id: productId, userId, isDeleted: false },
+      select: { sku: true, parentProduct: { select: { sku: true } } },
+    });
+    if (!product) {
+      return false;
+    }
+
+    const productSku = product.parentProduct?.sku ?? product.sku;
+    const response = await this.updateProductQuantityPrice(
+      [
+        {
+          ExternalProductID: productSku,
+          ProductSKU: productSku,
+          BuyableProducts: [
+            {
+              ExternalBuyableProductID: product.sku,
+              SKU: product.sku,
+              Quantity: quantity,
+            },
+          ],
+        },
+      ],
+      userId,
+      connectionId,
+    );
+
+    if (response.ResponseStatus !== 'Complete') {
+      throw new Error(response.Errors?.[0]?.Message || 'MyDeal stock update failed');
+    }
+    return true;
+  }
+
+  /**
+   * Pricing by SKU from a price list. Variants without prices in the list use
+   * their parent's.
+   */
+  private async loadPriceListPricing(
+    userId: number,
+    priceListId: number | null,
+    skus: string[],
+  ): Promise<Map<string, ResolvedPrice>> {
+    const pricingBySku = new Map<string, ResolvedPrice>();
+    if (!priceListId || skus.length === 0) {
+      return pricingBySku;
+    }
+
+    const products = await this.prisma.product.findMany({
+      where: { sku: { in: skus }, userId, isDeleted: false },
+      select: {
+        sku: true,
+        prices: PriceListHelper.include(priceListId),
+        parentProduct: { select: { prices: PriceListHelper.include(priceListId) } },
+      },
+    });
+    for (const product of products) {
+      const pricing = PriceListHelper.resolve(product.prices)
+        ?? PriceListHelper.resolve(product.parentProduct?.prices);
+      if (pricing) {
+        pricingBySku.set(product.sku, pricing);
+      }
+    }
+    return pricingBySku;
+  }
+
   /**
    * Update product listing status on MyDeal
    */
@@ -9,8 +9,10 @@ import {
   IsUrl,
   MinLength,
   IsEnum,
+  Matches,
 } from 'class-validator';
-import { Type } from 'class-transformer';
+import { Type, Transform } from 'class-transformer';
+import { LocaleHelper } from '../../../utils/locale.helper';
 
 // DTO for creating a new WooCommerce connection
 export class CreateWooCommerceConnectionDto {
@@ -78,6 +80,7 @@ export class WooCommerceConnectionResponseDto {
   storeUrl: string;
   isActive: boolean;
   isDefault: boolean;
+  priceListId: number | null; // Price list exported prices come from
   lastSyncedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
@@ -113,6 +116,13 @@ export class CreateExportMappingDto {
   @IsObject()
   @IsOptional()
   fieldMappings?: Record<string, any>; // Maps internal fields to WooCommerce fields
+
+  // Locale of the exported name and localizable attribute values, e.g. "en-AU"
+  @IsString()
+  @IsOptional()
+  @Transform(({ value }) => (typeof value === 'string' ? (LocaleHelper.normalize(value) ?? value) : value))
+  @Matches(LocaleHelper.LOCALE_PATTERN, { message: 'locale must be a BCP 47 tag such as "en" or "en-AU"' })
+  locale?: string | null;
 }
 
 // DTO for updating export mapping
@@ -126,6 +136,13 @@ export class UpdateExportMappingDto {
   @IsOptional()
   fieldMappings?: Record<string, any>;
 
+  // Locale of the exported name and localizable attribute values, e.g. "en-AU"
+  @IsString()
+  @IsOptional()
+  @Transform(({ value }) => (typeof value === 'string' ? (LocaleHelper.normalize(value) ?? value) : value))
+  @Matches(LocaleHelper.LOCALE_PATTERN, { message: 'locale must be a BCP 47 tag such as "en" or "en-AU"' })
+  locale?: string | null;
+
   @IsBoolean()
   @IsOptional()
   isActive?: boolean;
@@ -137,6 +154,7 @@ export class ExportMappingResponseDto {
   connectionId: number;
   selectedFields: string[];
   fieldMappings: Record<string, any>;
+  locale: string | null;
   isActive: boolean;
   createdAt: Date;
   updatedAt: Date;
@@ -111,6 +111,110 @@ export class WooCommerceAutoSyncService {
     }
   }
 
+  /**
+   * Push the structure of moved, renamed or reordered categories to every
+   * WooCommerce store that received them
+   */
+  async autoSyncCategoryStructure(
+    categoryIds: number[],
+    userId: number,
+  ): Promise<void> {
+    try {
+      const syncRecords = await this.prisma.wooCommerceCategorySync.findMany({
+        where: {
+          categoryId: { in: categoryIds },
+          connection: { userId },
+        },
+        select: { connectionId: true },
+        distinct: ['connectionId'],
+      });
+
+      if (syncRecords.length === 0) {
+        return;
+      }
+
+      this.logger.log(
+        `Auto-syncing ${categoryIds.length} category/categories to ${syncRecords.length} WooCommerce connection(s)`,
+      );
+
+      await Promise.allSettled(
+        syncRecords.map(async ({ connectionId }) => {
+          try {
+            await this.multiStoreService.updateCategories(
+              userId,
+              connectionId,
+              categoryIds,
+            );
+          } catch (error: any) {
+            this.logger.error(
+              `Failed to auto-sync categories to connection ${connectionId}: ${error.message}`,
+            );
+          }
+        }),
+      );
+    } catch (error: any) {
+      this.logger.error(
+        `Error in auto-sync for categories ${categoryIds.join(', ')}: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Auto-sync after a category was merged into another: the stores follow the
+   * merge, then the target's structure and the re-pointed products are pushed
+   */
+  async autoSyncCategoryMerge(
+    sourceCategoryId: number,
+    targetCategoryId: number,
+    productIds: number[],
+    userId: number,
+  ): Promise<void> {
+    try {
+      const syncRecords = await this.prisma.wooCommerceCategorySync.findMany({
+        where: {
+          categoryId: sourceCategoryId,
+          connection: { userId },
+        },
+        select: { connectionId: true },
+      });
+
+      await Promise.allSettled(
+        syncRecords.map(async ({ connectionId }) => {
+          try {
+            await this.multiStoreService.mergeCategory(
+              userId,
+              connectionId,
+              sourceCategoryId,
+              targetCategoryId,
+            );
+          } catch (error: any) {
+            this.logger.error(
+              `Failed to merge category ${sourceCategoryId} on connection ${connectionId}: ${error.message}`,
+            );
+          }
+        }),
+      );
+
+      const subcategories = await this.prisma.category.findMany({
+        where: { parentCategoryId: targetCategoryId, userId },
+        select: { id: true },
+      });
+      await this.autoSyncCategoryStructure(
+        [targetCategoryId, ...subcategories.map((sub) => sub.id)],
+        userId,
+      );
+
+      // One product at a time, a merge can re-point many products
+      for (const productId of productIds) {
+        await this.autoSyncProductUpdate(productId, userId);
+      }
+    } catch (error: any) {
+      this.logger.error(
+        `Error in auto-sync for merge of category ${sourceCategoryId}: ${error.message}`,
+      );
+    }
+  }
+
   /**
    * Auto-sync when product attributes are updated
    */
@@ -6,6 +6,7 @@ import {
   ConflictException,
 } from '@nestjs/common';
 import { PrismaService } from '../../prisma/prisma.service';
+import { IntegrationType } from '../base/integration-type.enum';
 import WooCommerceRestApi from '@woocommerce/woocommerce-rest-api';
 import {
   CreateWooCommerceConnectionDto,
@@ -180,6 +181,11 @@ export class WooCommerceConnectionService {
       where: { id: connectionId },
     });
 
+    // Attribute values scoped to this connection are no longer reachable
+    await this.prisma.productAttributeChannelValue.deleteMany({
+      where: { channel: IntegrationType.WOOCOMMERCE, connectionId },
+    });
+
     this.logger.log(`Connection ${connectionId} deleted for user ${userId}`);
   }
 
@@ -296,6 +302,7 @@ export class WooCommerceConnectionService {
         connectionId: dto.connectionId,
         selectedFields: dto.selectedFields,
         fieldMappings: dto.fieldMappings || {},
+        locale: dto.locale ?? null,
       },
     });
 
@@ -367,6 +374,7 @@ export class WooCommerceConnectionService {
       data: {
         selectedFields: dto.selectedFields,
         fieldMappings: dto.fieldMappings,
+        locale: dto.locale,
         isActive: dto.isActive,
       },
     });
@@ -550,6 +558,7 @@ export class WooCommerceConnectionService {
       storeUrl: connection.storeUrl,
       isActive: connection.isActive,
       isDefault: connection.isDefault,
+      priceListId: connection.priceListId ?? null,
       lastSyncedAt: connection.lastSyncedAt,
       createdAt: connection.createdAt,
       updatedAt: connection.updatedAt,
@@ -562,6 +571,7 @@ export class WooCommerceConnectionService {
       connectionId: mapping.connectionId,
       selectedFields: mapping.selectedFields,
       fieldMappings: mapping.fieldMappings as Record<string, any>,
+      locale: mapping.locale ?? null,
       isActive: mapping.isActive,
       createdAt: mapping.createdAt,
       updatedAt: mapping.updatedAt,
@@ -2,6 +2,18 @@ import { Injectable, Logger, BadRequestException, NotFoundException } from '@nes
 import { ConfigService } from '@nestjs/config';
 import { PrismaService } from '../../prisma/prisma.service';
 import { WooCommerceConnectionService } from './woocommerce-connection.service';
+import { LocalizationService } from '../../localization/localization.service';
+import { AttributeConstraintValidator } from '../../attribute/validators/attribute-constraint.validator';
+import { ChannelValueHelper } from '../../utils/channel-value.helper';
+import { IntegrationType } from '../base/integration-type.enum';
+import { ProductAssociationType } from '../../product/dto/product-association.dto';
+import { VariantLevelHelper, VariantLevels } from '../../utils/variant-level.helper';
+import { AttributeInheritanceHelper } from '../../utils/attribute-inheritance.helper';
+import { MeasurementHelper } from '../../utils/measurement.helper';
+import { PriceListHelper, ResolvedPrice } from '../../utils/price-list.helper';
+import { AllocationRule, InventoryHelper } from '../../utils/inventory.helper';
+import { ProductCategoryHelper } from '../../utils/product-category.helper';
+import { AttributeOptionHelper, AttributeOptionTerm } from '../../utils/attribute-option.helper';
 import {
   ExportProductsDto,
   ExportProductsResponseDto,
@@ -18,6 +30,17 @@ import {
   VARIANT_ONLY_FIELDS,
 } from './woocommerce-import-domain';
 
+// Associations WooCommerce has a field for: cross_sell_ids and upsell_ids
+const WOO_ASSOCIATIONS_INCLUDE = {
+  where: {
+    type: { in: [ProductAssociationType.CROSS_SELL, ProductAssociationType.UP_SELL] },
+    associatedProduct: { isDeleted: false },
+  },
+  select: { type: true, associatedProductId: true, sortOrder: true },
+};
+
+// WooCommerce defaults, used when the store settings cannot be read
+const DEFAULT_WOO_UNITS = { weight: 'kg', dimension: 'cm' };
 
 @Injectable()
 export class WooCommerceMultiStoreService {
@@ -26,10 +49,15 @@ export class WooCommerceMultiStoreService {
 
   private readonly productBuilder = new LocalProductBuilder();
 
+  // Store units per client; a client lives for one export run
+  private readonly storeUnits = new WeakMap<object, Promise<{ weight: string; dimension: string }>>();
+
   constructor(
     private prisma: PrismaService,
     private connectionService: WooCommerceConnectionService,
     private configService: ConfigService,
+    private localizationService: LocalizationService,
+    private attributeConstraintValidator: AttributeConstraintValidator,
   ) {
     // Get base URL from environment or use default
     const port = this.configService.get<string>('PORT') || '3000';
@@ -115,12 +143,13 @@ export class WooCommerceMultiStoreService {
     let fieldsToExport = dto.fieldsToExport;
     let fieldMappings: Record<string, any> = {};
 
-    if (!fieldsToExport) {
-      const exportMapping = await this.connectionService.getActiveExportMapping(
-        userId,
-        dto.connectionId,
-      );
+    // The mapping's locale applies even when fields are passed explicitly
+    const exportMapping = await this.connectionService.getActiveExportMapping(
+      userId,
+      dto.connectionId,
+    );
 
+    if (!fieldsToExport) {
       if (exportMapping) {
         fieldsToExport = exportMapping.selectedFields;
         fieldMappings = exportMapping.fieldMappings;
@@ -140,7 +169,7 @@ export class WooCommerceMultiStoreService {
     let failedCount = 0;
 
     // Fetch products with their attributes and variants
-    const products = await this.prisma.product.findMany({
+    const baseProducts = await this.prisma.product.findMany({
       where: {
         id: { in: dto.productIds },
         userId,
@@ -149,27 +178,41 @@ export class WooCommerceMultiStoreService {
       include: {
         attributes: {
           include: {
-            attribute: true,
+            attribute: { include: { options: AttributeOptionHelper.include() } },
           },
         },
         category: true,
+        categories: ProductCategoryHelper.include(),
         assets: {
           include: {
             asset: true,
           },
         },
+        channelValues: ChannelValueHelper.include(IntegrationType.WOOCOMMERCE),
+        prices: PriceListHelper.include(connection.priceListId),
+        inventoryLevels: InventoryHelper.include(),
+        associations: WOO_ASSOCIATIONS_INCLUDE,
+        family: VariantLevelHelper.include(),
         variants: {
           include: {
             attributes: {
               include: {
-                attribute: true,
+                attribute: { include: { options: AttributeOptionHelper.include() } },
               },
             },
+            channelValues: ChannelValueHelper.include(IntegrationType.WOOCOMMERCE),
+            prices: PriceListHelper.include(connection.priceListId),
+            inventoryLevels: InventoryHelper.include(),
           },
         },
       },
     });
 
+    const products = await this.localizationService.localizeProducts(
+      baseProducts,
+      exportMapping?.locale,
+    );
+
     for (const product of products) {
       try {
         // Check if product already synced to this connection
@@ -185,6 +228,7 @@ export class WooCommerceMultiStoreService {
         // Build WooCommerce product data based on selected fields
         const wooProductData = await this.buildWooProductData(
           product,
+          dto.connectionId,
           fieldsToExport,
           fieldMappings,
           dto.partialUpdate && existingSync ? existingSync.lastModifiedFields as any : null,
@@ -275,7 +319,14 @@ export class WooCommerceMultiStoreService {
         // Export variants if enabled
         if (fieldsToExport.includes('variants') && product.variants && product.variants.length > 0) {
           this.logger.log(`Exporting ${product.variants.length} variants for product ${product.id} to WooCommerce`);
-          await this.exportProductVariants(wooClient, wooProductId, product.variants, fieldMappings, fieldsToExport);
+          const { attributes, variants } = ChannelValueHelper.applyChannelValues(product, IntegrationType.WOOCOMMERCE, dto.connectionId);
+          // Variants export their values resolved through the parent, and the parent's prices when they have none
+          const resolvedVariants = variants.map((variant: any) => ({
+            ...AttributeInheritanceHelper.applyToVariant(variant, attributes, product.family?.familyAttributes),
+            prices: variant.prices?.length ? variant.prices : product.prices,
+          }));
+          const allocation = await this.getInventoryAllocation(userId, dto.connectionId);
+          await this.exportProductVariants(wooClient, wooProductId, resolvedVariants, fieldMappings, fieldsToExport, VariantLevelHelper.resolve(product), allocation);
         }
 
         results.push({
@@ -473,6 +524,7 @@ export class WooCommerceMultiStoreService {
             // Extract attributes to create separately
             const attributesToCreate = productData._attributesToCreate;
             delete productData._attributesToCreate;
+            await this.attributeConstraintValidator.validateNamed(attributesToCreate, userId, { id: validProductId });
 
             await this.prisma.product.update({
               where: { id: validProductId },
@@ -542,6 +594,8 @@ export class WooCommerceMultiStoreService {
                 failedCount++;
                 continue;
               } else if (conflictAction === 'update') {
+                await this.attributeConstraintValidator.validateNamed(attributesToCreate, userId, { id: existingProductWithSku.id });
+
                 // Update existing product with new data
                 await this.prisma.product.update({
                   where: { id: existingProductWithSku.id },
@@ -561,6 +615,8 @@ export class WooCommerceMultiStoreService {
                 linkedCount++;
               }
             } else {
+              await this.attributeConstraintValidator.validateNamed(attributesToCreate, userId, { sku: productData.sku });
+
               // Create new product
               const newProduct = await this.prisma.product.create({
                 data: {
@@ -800,20 +856,26 @@ export class WooCommerceMultiStoreService {
     productId: number,
   ): Promise<ProductSyncResponseDto> {
     // Get connection and verify ownership
-    await this.connectionService.getConnection(userId, connectionId);
+    const connection = await this.connectionService.getConnection(userId, connectionId);
     const wooClient = await this.connectionService.getWooCommerceClient(userId, connectionId);
 
     // Get product
-    const product = await this.prisma.product.findFirst({
+    const baseProduct = await this.prisma.product.findFirst({
       where: { id: productId, userId, isDeleted: false },
       include: {
-        attributes: { include: { attribute: true } },
+        attributes: { include: { attribute: { include: { options: AttributeOptionHelper.include() } } } },
         category: true,
+        categories: ProductCategoryHelper.include(),
         assets: { include: { asset: true } },
+        channelValues: ChannelValueHelper.include(IntegrationType.WOOCOMMERCE),
+        prices: PriceListHelper.include(connection.priceListId),
+        inventoryLevels: InventoryHelper.include(),
+        associations: WOO_ASSOCIATIONS_INCLUDE,
+        family: VariantLevelHelper.include(),
       },
     });
 
-    if (!product) {
+    if (!baseProduct) {
       throw new NotFoundException('Product not found');
     }
 
@@ -840,11 +902,18 @@ export class WooCommerceMultiStoreService {
     const fieldsToExport = exportMapping?.selectedFields || ['name', 'sku'];
     const fieldMappings = exportMapping?.fieldMappings || {};
 
+    // Resolve name and localizable attribute values for the mapping's locale
+    const [product] = await this.localizationService.localizeProducts(
+      [baseProduct],
+      exportMapping?.locale,
+    );
+
     // this.logger.log(`Original Product Data:${JSON.stringify(product)}`);
 
     // Build partial update data
     const wooProductData = await this.buildWooProductData(
       product,
+      connectionId,
       fieldsToExport,
       fieldMappings,
       sync.lastModifiedFields as any,
@@ -910,6 +979,59 @@ export class WooCommerceMultiStoreService {
     }
   }
 
+  /**
+   * Set the stock quantity of a synced product, or of a variation of a synced
+   * product found by SKU, without re-exporting it. Returns false when the
+   * product is not on the store.
+   */
+  async updateStockQuantity(
+    userId: number,
+    connectionId: number,
+    productId: number,
+    quantity: number,
+  ): Promise<boolean> {
+    const product = await this.prisma.product.findFirst({
+      where: { id: productId, userId, isDeleted: false },
+      select: { sku: true, parentProductId: true },
+    });
+    if (!product) {
+      return false;
+    }
+
+    const sync = await this.prisma.wooCommerceProductSync.findUnique({
+      where: {
+        connectionId_productId: {
+          connectionId,
+          productId: product.parentProductId ?? productId,
+        },
+      },
+    });
+    if (!sync?.wooProductId || sync.wooProductId <= 0) {
+      return false;
+    }
+
+    const wooClient = await this.connectionService.getWooCommerceClient(userId, connectionId);
+    const stockData = {
+      manage_stock: true,
+      stock_quantity: quantity,
+      stock_status: quantity > 0 ? 'instock' : 'outofstock',
+    };
+
+    if (!product.parentProductId) {
+      await wooClient.put(`products/${sync.wooProductId}`, stockData);
+    } else {
+      const variations = await this.getAllWooVariations(wooClient, sync.wooProductId);
+      const variation = variations.find((v: any) => v.sku === product.sku);
+      if (!variation) {
+        return false;
+      }
+      await wooClient.put(`products/${sync.wooProductId}/variations/${variation.id}`, stockData);
+    }
+
+    this.logger.log(`Set stock of product ${productId} to ${quantity} on connection ${connectionId}`);
+    return true;
+  }
+
   /**
    * Delete a product from WooCommerce
    */
@@ -955,6 +1077,104 @@ export class WooCommerceMultiStoreService {
     }
   }
 
+  /**
+   * Push name, parent and sort order of categories the store received. The
+   * parent is the nearest ancestor the store received, or the top level.
+   */
+  async updateCategories(
+    userId: number,
+    connectionId: number,
+    categoryIds: number[],
+  ): Promise<{ updated: number; failed: number }> {
+    await this.connectionService.getConnection(userId, connectionId);
+    const wooClient = await this.connectionService.getWooCommerceClient(userId, connectionId);
+
+    const [syncs, categories] = await Promise.all([
+      this.prisma.wooCommerceCategorySync.findMany({ where: { connectionId } }),
+      this.prisma.category.findMany({
+        where: { userId },
+        select: { id: true, name: true, parentCategoryId: true, sortOrder: true },
+      }),
+    ]);
+    const wooIds = new Map(syncs.map(sync => [sync.categoryId, sync.wooCategoryId]));
+    const byId = new Map(categories.map(category => [category.id, category]));
+
+    let updated = 0;
+    let failed = 0;
+    for (const sync of syncs.filter(s => categoryIds.includes(s.categoryId))) {
+      const category = byId.get(sync.categoryId);
+      if (!category) continue;
+
+      let parent = 0;
+      const visited = new Set<number>([category.id]);
+      let ancestor = category.parentCategoryId !== null ? byId.get(category.parentCategoryId) : undefined;
+      while (ancestor && !visited.has(ancestor.id)) {
+        if (wooIds.has(ancestor.id)) {
+          parent = wooIds.get(ancestor.id)!;
+          break;
+        }
+        visited.add(ancestor.id);
+        ancestor = ancestor.parentCategoryId !== null ? byId.get(ancestor.parentCategoryId) : undefined;
+      }
+
+      try {
+        await wooClient.put(`products/categories/${sync.wooCategoryId}`, {
+          name: category.name,
+          parent,
+          menu_order: category.sortOrder,
+        });
+        await this.prisma.wooCommerceCategorySync.update({
+          where: { id: sync.id },
+          data: { lastSyncedAt: new Date() },
+        });
+        updated++;
+      } catch (error: any) {
+        this.logger.error(`Failed to update category ${category.id} on connection ${connectionId}: ${error.message}`);
+        failed++;
+      }
+    }
+
+    return { updated, failed };
+  }
+
+  /**
+   * Follow a local category merge on a store. The store keeps the source's
+   * category for the target when it never received the target, otherwise the
+   * source's category is deleted from the store.
+   */
+  async mergeCategory(
+    userId: number,
+    connectionId: number,
+    sourceCategoryId: number,
+    targetCategoryId: number,
+  ): Promise<void> {
+    await this.connectionService.getConnection(userId, connectionId);
+
+    const [sourceSync, targetSync] = await Promise.all([
+      this.prisma.wooCommerceCategorySync.findUnique({
+        where: { connectionId_categoryId: { connectionId, categoryId: sourceCategoryId } },
+      }),
+      this.prisma.wooCommerceCategorySync.findUnique({
+        where: { connectionId_categoryId: { connectionId, categoryId: targetCategoryId } },
+      }),
+    ]);
+    if (!sourceSync) return;
+
+    if (!targetSync) {
+      await this.prisma.wooCommerceCategorySync.update({
+        where: { id: sourceSync.id },
+        data: { categoryId: targetCategoryId },
+      });
+      return;
+    }
+
+    if (targetSync.wooCategoryId !== sourceSync.wooCategoryId) {
+      const wooClient = await this.connectionService.getWooCommerceClient(userId, connectionId);
+      await wooClient.delete(`products/categories/${sourceSync.wooCategoryId}`, { force: true });
+    }
+    await this.prisma.wooCommerceCategorySync.delete({ where: { id: sourceSync.id } });
+  }
+
   /**
    * Get aggregated sync statistics
    */
@@ -1389,11 +1609,13 @@ export class WooCommerceMultiStoreService {
     variants: any[],
     fieldMappings: Record<string, any>,
     fieldsToExport: string[],
+    levels: VariantLevels | null = null,
+    allocation: AllocationRule | null = null,
   ): Promise<void> {
     for (const variant of variants) {
       try {
         // Build variant payload from variant attributes, applying export mappings
-        const variationData = await this.buildVariantPayload(variant, wooClient, fieldMappings, fieldsToExport);
+        const variationData = await this.buildVariantPayload(variant, wooClient, fieldMappings, fieldsToExport, levels, allocation);
         // this.logger.log(`The build Woo Variant Payload:${JSON.stringify(variationData)}`)
         // Check if variant with the same SKU already exists
         let existingVariation: any = null;
@@ -1435,13 +1657,17 @@ export class WooCommerceMultiStoreService {
 
   /**
    * Build WooCommerce variation payload from variant data
-   * Applies export mappings to ensure consistency with product exports
+   * Applies export mappings to ensure consistency with product exports.
+   * When the family declares variant axes, the axes are the variation attributes
+   * and parent-level attributes are left to the parent product.
    */
   private async buildVariantPayload(
     variant: any,
     wooClient: any,
     fieldMappings: Record<string, any>,
     fieldsToExport: string[],
+    levels: VariantLevels | null = null,
+    allocation: AllocationRule | null = null,
   ): Promise<any> {
     const payload: any = {};
     const variationAttributes: Array<{ name: string; option: string }> = [];
@@ -1473,10 +1699,14 @@ export class WooCommerceMultiStoreService {
     };
     
     // Create a map of variant attributes by name for easy lookup
+    // Option codes are sent as their labels, which name the attribute terms
     const variantAttributeMap = new Map<string, string>();
     if (variant.attributes && variant.attributes.length > 0) {
       for (const attr of variant.attributes) {
-        variantAttributeMap.set(attr.attribute.name, attr.value);
+        variantAttributeMap.set(
+          attr.attribute.name,
+          attr.value && attr.attribute.options?.length ? AttributeOptionHelper.labelOf(attr.attribute.options, attr.value) : attr.value,
+        );
       }
     }
     
@@ -1495,6 +1725,11 @@ export class WooCommerceMultiStoreService {
       if (!variantAttr) {
         continue; // Skip if variant doesn't have this attribute
       }
+
+      // Axes are added below; parent-level values are exported on the parent
+      if (levels && (VariantLevelHelper.isAxis(levels, variantAttr.attributeId) || !VariantLevelHelper.isVariantLevel(levels, variantAttr.attributeId))) {
+        continue;
+      }
       
       const attrName = variantAttr.attribute.name;
       const attrValue = variantAttr.value;
@@ -1514,7 +1749,7 @@ export class WooCommerceMultiStoreService {
         } else if (attrNameLower.includes('sku')) {
           payload.sku = attrValue;
         } else if (attrNameLower.includes('weight')) {
-          payload.weight = this.extractNumeric(attrValue);
+          payload.weight = this.toStoreUnit(attrValue, (await this.getStoreUnits(wooClient)).weight);
         } else if (attrNameLower.includes('stock') && attrNameLower.includes('quantity')) {
           payload.stock_quantity = parseInt(attrValue, 10);
           payload.manage_stock = true;
@@ -1527,19 +1762,43 @@ export class WooCommerceMultiStoreService {
         // If it's also a variation attribute (like a custom field mapped to a default),
         // it may need to be in attributes array too, but typically default fields
         // are not variation-defining attributes
-      } else {
+      } else if (!levels) {
         // Not a default field - treat as a variation attribute
         // These are fields like Brand, Color, Size, etc.
         // Only add if the value is not null or empty
         if (attrValue != null && attrValue !== '') {
           variationAttributes.push({
             name: attrName,
-            option: String(attrValue),
+            option: variantAttributeMap.get(attrName) ?? String(attrValue),
           });
         }
       }
     }
     
+    // Prices from the connection's price list replace the price attributes
+    const pricing = PriceListHelper.resolve(variant.prices);
+    if (pricing) {
+      delete payload.regular_price;
+      delete payload.sale_price;
+      this.applyPriceListPricing(payload, pricing, fieldsToExport, fieldMappings);
+    }
+
+    // Tracked variants export the stock allocated to this connection
+    const stockQuantity = InventoryHelper.channelQuantity(variant, allocation);
+    if (stockQuantity !== null && shouldIncludeField('stock_status')) {
+      this.applyStockQuantity(payload, stockQuantity, fieldMappings);
+    }
+
+    // Declared axes define the variation, whether or not they are selected for export
+    if (levels) {
+      for (const axis of levels.axes) {
+        const axisValue = variantAttributeMap.get(axis.name);
+        if (axisValue != null && axisValue !== '') {
+          variationAttributes.push({ name: axis.name, option: String(axisValue) });
+        }
+      }
+    }
+
     // Add variation attributes to payload
     if (variationAttributes.length > 0) {
       payload.attributes = variationAttributes;
@@ -1610,34 +1869,49 @@ export class WooCommerceMultiStoreService {
   }
 
   /**
-   * Ensure attribute term exists for an attribute
+   * Ensure attribute term exists for an attribute. Option terms are matched by
+   * slug, the option code, so renamed labels update the term instead of adding
+   * a new one; plain values are matched by name.
+   * @param existingTerms Terms already fetched for the attribute, to skip the search
    */
   private async ensureAttributeTerm(
     wooClient: any,
     attributeId: number,
-    termValue: string,
+    term: string | AttributeOptionTerm,
+    existingTerms?: any[],
   ): Promise<void> {
+    const termName = typeof term === 'string' ? term : term.name;
     try {
       // Check if term already exists
-      const termsResponse = await wooClient.get(`products/attributes/${attributeId}/terms`, {
-        search: termValue,
-      });
-      
-      const exactMatch = termsResponse.data?.find((term: any) => 
-        term.name.toLowerCase() === termValue.toLowerCase()
-      );
-      
+      const terms = existingTerms ?? (await wooClient.get(`products/attributes/${attributeId}/terms`, {
+        search: typeof term === 'string' ? term : term.slug,
+      })).data;
+
+      const exactMatch = (typeof term !== 'string' ? terms?.find((existing: any) => existing.slug === term.slug) : undefined) ??
+        terms?.find((existing: any) => existing.name.toLowerCase() === termName.toLowerCase());
+
       if (!exactMatch) {
         // Create the term
-        await wooClient.post(`products/attributes/${attributeId}/terms`, {
-          name: termValue,
-          slug: termValue.toLowerCase().replace(/\s+/g, '-'),
+        const createResponse = await wooClient.post(`products/attributes/${attributeId}/terms`,
+          typeof term === 'string'
+            ? { name: term, slug: term.toLowerCase().replace(/\s+/g, '-') }
+            : term,
+        );
+        if (createResponse?.data) existingTerms?.push(createResponse.data);
+
+        this.logger.log(`Created attribute term "${termName}" for attribute ${attributeId}`);
+      } else if (typeof term !== 'string' && (exactMatch.name !== term.name || exactMatch.menu_order !== term.menu_order)) {
+        await wooClient.put(`products/attributes/${attributeId}/terms/${exactMatch.id}`, {
+          name: term.name,
+          menu_order: term.menu_order,
         });
-        
-        this.logger.log(`Created attribute term "${termValue}" for attribute ${attributeId}`);
+        exactMatch.name = term.name;
+        exactMatch.menu_order = term.menu_order;
+
+        this.logger.log(`Updated attribute term "${term.slug}" for attribute ${attributeId}`);
       }
     } catch (error: any) {
-      this.logger.error(`Failed to ensure attribute term "${termValue}":`, error);
+      this.logger.error(`Failed to ensure attribute term "${termName}":`, error);
     }
   }
 
@@ -1727,6 +2001,8 @@ export class WooCommerceMultiStoreService {
           this.logger.log(`  - Parent Product ID: ${variantData.parentProductId}`);
           this.logger.log(`  - Attributes to create: ${attributes.length}`);
 
+          await this.attributeConstraintValidator.validateNamed(attributes, userId, { sku: variantData.sku });
+
           // Check if variant already exists by SKU
           const existingVariant = await this.prisma.product.findUnique({
             where: {
@@ -1832,13 +2108,17 @@ export class WooCommerceMultiStoreService {
    * Build WooCommerce product data from local product
    */
   private async buildWooProductData(
-    product: any,
+    baseProduct: any,
+    connectionId: number,
     fieldsToExport: string[],
     fieldMappings: Record<string, any>,
     lastModifiedFields: string[] | null,
     wooClient: any,
     syncRecord?: any,
   ): Promise<any> {
+    // Attribute values scoped to this connection win over the global values
+    const product = ChannelValueHelper.applyChannelValues(baseProduct, IntegrationType.WOOCOMMERCE, connectionId);
+
     if (!product.name || !product.sku) {
       throw new BadRequestException('Product must have name and sku');
     }
@@ -1847,7 +2127,12 @@ export class WooCommerceMultiStoreService {
     this.logger.log(`Build Data Field to Export:${fieldsToExport}`);
     this.logger.log(`Build Data Last Modified Field:${lastModifiedFields}`);
 
-    const context = { product, fieldsToExport, fieldMappings, lastModifiedFields, wooClient, syncRecord };
+    const units = await this.getStoreUnits(wooClient);
+    // Tracked products export the stock allocated to this connection
+    const allocation = InventoryHelper.isTracked(product)
+      ? await this.getInventoryAllocation(product.userId, connectionId)
+      : null;
+    const context = { product, connectionId, fieldsToExport, fieldMappings, lastModifiedFields, wooClient, syncRecord, units, allocation };
     const wooProduct: any = {};
 
     // Required fields
@@ -1864,6 +2149,7 @@ export class WooCommerceMultiStoreService {
     await this.processCategories(wooProduct, context);
     this.processTags(wooProduct, context);
     await this.processAttributes(wooProduct, context);
+    await this.processAssociations(wooProduct, context);
     this.processStatus(wooProduct, context);
     
     // Set product type based on whether it has variants
@@ -1890,7 +2176,7 @@ export class WooCommerceMultiStoreService {
   }
 
   private isAttributeField(field: string): boolean {
-    const standardFields = ['name', 'sku', 'price', 'sale_price', 'weight', 'dimensions', 'stock_status', 'description', 'images', 'categories', 'tags', 'status', 'type'];
+    const standardFields = ['name', 'sku', 'price', 'sale_price', 'weight', 'dimensions', 'stock_status', 'description', 'images', 'categories', 'tags', 'status', 'type', 'cross_sell_ids', 'upsell_ids'];
     return !standardFields.includes(field);
   }
 
@@ -1918,6 +2204,37 @@ export class WooCommerceMultiStoreService {
     return value.replace(/[^\d.]/g, '');
   }
 
+  /**
+   * Weight and dimension units the store is configured with
+   */
+  private getStoreUnits(wooClient: any): Promise<{ weight: string; dimension: string }> {
+    let units = this.storeUnits.get(wooClient);
+    if (!units) {
+      units = Promise.all([
+        wooClient.get('settings/products/woocommerce_weight_unit'),
+        wooClient.get('settings/products/woocommerce_dimension_unit'),
+      ])
+        .then(([weight, dimension]: any[]) => ({
+          weight: weight.data?.value || DEFAULT_WOO_UNITS.weight,
+          dimension: dimension.data?.value || DEFAULT_WOO_UNITS.dimension,
+        }))
+        .catch((error: any) => {
+          this.logger.warn(`Could not read store units, assuming ${DEFAULT_WOO_UNITS.weight}/${DEFAULT_WOO_UNITS.dimension}: ${error.message}`);
+          return DEFAULT_WOO_UNITS;
+        });
+      this.storeUnits.set(wooClient, units);
+    }
+    return units;
+  }
+
+  /**
+   * A measurement converted to the store unit; plain numbers are sent as before
+   */
+  private toStoreUnit(value: string, unit: string): string {
+    const converted = MeasurementHelper.toChannelValue(value, unit);
+    return converted === null ? '' : String(converted);
+  }
+
   private addFieldIfIncluded(wooProduct: any, field: string, value: any, context: any): void {
     if (this.shouldIncludeField(field, context)) {
       wooProduct[this.getMappedField(field, context.fieldMappings)] = value;
@@ -1970,6 +2287,13 @@ export class WooCommerceMultiStoreService {
 
   private processPricing(wooProduct: any, context: any): void {
     const { product, fieldsToExport, fieldMappings } = context;
+
+    // Prices from the connection's price list replace the price attributes
+    const pricing = PriceListHelper.resolve(product.prices);
+    if (pricing) {
+      this.applyPriceListPricing(wooProduct, pricing, fieldsToExport, fieldMappings);
+      return;
+    }
     
     // Regular price
     const regularPriceFields = fieldsToExport.filter(f => 
@@ -2011,13 +2335,38 @@ export class WooCommerceMultiStoreService {
     }
   }
 
+  /**
+   * Set regular and sale price from a price list. WooCommerce starts and ends
+   * the sale itself from the schedule; a product without a sale has its sale
+   * price cleared. WooCommerce has no quantity tiers, so only the base tier is
+   * exported.
+   */
+  private applyPriceListPricing(
+    payload: any,
+    pricing: ResolvedPrice,
+    fieldsToExport: string[],
+    fieldMappings: Record<string, any>,
+  ): void {
+    const isSelected = (wooField: string, aliases: string[]) =>
+      fieldsToExport.some(f => fieldMappings[f] === wooField || aliases.includes(f.toLowerCase()));
+
+    if (isSelected('regular_price', ['regular_price', 'price'])) {
+      payload.regular_price = pricing.price.toFixed(2);
+    }
+    if (isSelected('sale_price', ['sale_price'])) {
+      payload.sale_price = pricing.salePrice !== null ? pricing.salePrice.toFixed(2) : '';
+      payload.date_on_sale_from = pricing.saleStartsAt ? pricing.saleStartsAt.toISOString() : null;
+      payload.date_on_sale_to = pricing.saleEndsAt ? pricing.saleEndsAt.toISOString() : null;
+    }
+  }
+
   private processWeight(wooProduct: any, context: any): void {
     if (!this.shouldIncludeField('weight', context)) return;
     
     const { product, fieldMappings } = context;
     const attr = this.findAttribute(['weight'], product);
     if (attr?.value) {
-      wooProduct[this.getMappedField('weight', fieldMappings)] = this.extractNumeric(attr.value);
+      wooProduct[this.getMappedField('weight', fieldMappings)] = this.toStoreUnit(attr.value, context.units.weight);
     }
   }
 
@@ -2031,9 +2380,9 @@ export class WooCommerceMultiStoreService {
     const width = this.findAttribute(['width', 'dimension_width'], product);
     const height = this.findAttribute(['height', 'dimension_height'], product);
     
-    if (length?.value) dimensions.length = this.extractNumeric(length.value);
-    if (width?.value) dimensions.width = this.extractNumeric(width.value);
-    if (height?.value) dimensions.height = this.extractNumeric(height.value);
+    if (length?.value) dimensions.length = this.toStoreUnit(length.value, context.units.dimension);
+    if (width?.value) dimensions.width = this.toStoreUnit(width.value, context.units.dimension);
+    if (height?.value) dimensions.height = this.toStoreUnit(height.value, context.units.dimension);
     
     if (Object.keys(dimensions).length > 0) {
       wooProduct[this.getMappedField('dimensions', fieldMappings)] = dimensions;
@@ -2043,7 +2392,14 @@ export class WooCommerceMultiStoreService {
   private processStockStatus(wooProduct: any, context: any): void {
     if (!this.shouldIncludeField('stock_status', context)) return;
     
-    const { product, fieldMappings } = context;
+    const { product, fieldMappings, allocation } = context;
+
+    const stockQuantity = InventoryHelper.channelQuantity(product, allocation);
+    if (stockQuantity !== null) {
+      this.applyStockQuantity(wooProduct, stockQuantity, fieldMappings);
+      return;
+    }
+
     const attr = this.findAttribute(['stock_status', 'stock status', 'availability'], product);
     
     let status = 'instock';
@@ -2058,6 +2414,20 @@ export class WooCommerceMultiStoreService {
     wooProduct[this.getMappedField('stock_status', fieldMappings)] = status;
   }
 
+  private applyStockQuantity(wooProduct: any, quantity: number, fieldMappings: Record<string, any>): void {
+    wooProduct.manage_stock = true;
+    wooProduct.stock_quantity = quantity;
+    wooProduct[this.getMappedField('stock_status', fieldMappings)] = quantity > 0 ? 'instock' : 'outofstock';
+  }
+
+  private async getInventoryAllocation(userId: number, connectionId: number): Promise<AllocationRule | null> {
+    return this.prisma.inventoryAllocation.findUnique({
+      where: {
+        userId_channel_connectionId: { userId, channel: IntegrationType.WOOCOMMERCE, connectionId },
+      },
+    });
+  }
+
   private async processDescription(wooProduct: any, context: any): Promise<void> {
     // this.logger.debug("Descrition Checking");
     // this.logger.log(`Description Feild:${!this.shouldIncludeField('description',context)}`)
@@ -2102,11 +2472,43 @@ export class WooCommerceMultiStoreService {
   }
 
   private async processCategories(wooProduct: any, context: any): Promise<void> {
-    const { product, wooClient, fieldMappings } = context;
-    if (this.shouldIncludeField('categories', context) && product.category) {
-      const categoryId = await this.ensureWooCommerceCategory(product.category.name, wooClient);
-      wooProduct[this.getMappedField('categories', fieldMappings)] = [{ id: categoryId }];
+    const { product, connectionId, wooClient, fieldMappings } = context;
+    const categories = ProductCategoryHelper.productCategories(product);
+    if (!this.shouldIncludeField('categories', context) || categories.length === 0) return;
+
+    // Mapped categories use the store's category; unmapped ones are found or created by name
+    const mapped = await this.getChannelCategoryIds(product.userId, connectionId, categories.map(c => c.id));
+    const wooCategoryIds: number[] = [];
+    for (const category of categories) {
+      let wooCategoryId = mapped.get(category.id);
+      if (wooCategoryId == null) {
+        // Remember the store received the category so structure changes can be pushed to it
+        wooCategoryId = await this.ensureWooCommerceCategory(category.name, wooClient);
+        await this.prisma.wooCommerceCategorySync.upsert({
+          where: { connectionId_categoryId: { connectionId, categoryId: category.id } },
+          create: { connectionId, categoryId: category.id, wooCategoryId, lastSyncedAt: new Date() },
+          update: { wooCategoryId, lastSyncedAt: new Date() },
+        });
+      }
+      if (!wooCategoryIds.includes(wooCategoryId)) {
+        wooCategoryIds.push(wooCategoryId);
+      }
     }
+    wooProduct[this.getMappedField('categories', fieldMappings)] = wooCategoryIds.map(id => ({ id }));
+  }
+
+  private async getChannelCategoryIds(userId: number, connectionId: number, categoryIds: number[]): Promise<Map<number, number | null>> {
+    const [categories, mappings] = await Promise.all([
+      this.prisma.category.findMany({
+        where: { userId },
+        select: { id: true, parentCategoryId: true },
+      }),
+      this.prisma.channelCategoryMapping.findMany({
+        where: { userId, channel: IntegrationType.WOOCOMMERCE, connectionId },
+        select: { categoryId: true, externalCategoryId: true },
+      }),
+    ]);
+    return ProductCategoryHelper.resolve(categoryIds, categories, mappings);
   }
 
   private processTags(wooProduct: any, context: any): void {
@@ -2127,6 +2529,38 @@ export class WooCommerceMultiStoreService {
     }
   }
 
+  private async processAssociations(wooProduct: any, context: any): Promise<void> {
+    const { product, connectionId, fieldMappings } = context;
+    const fields = [
+      { field: 'cross_sell_ids', type: ProductAssociationType.CROSS_SELL },
+      { field: 'upsell_ids', type: ProductAssociationType.UP_SELL },
+    ].filter(({ field }) => this.shouldIncludeField(field, context));
+    if (fields.length === 0) return;
+
+    const associations: any[] = product.associations || [];
+    const syncs = associations.length > 0
+      ? await this.prisma.wooCommerceProductSync.findMany({
+          where: {
+            connectionId,
+            productId: { in: associations.map(a => a.associatedProductId) },
+            wooProductId: { gt: 0 },
+          },
+          select: { productId: true, wooProductId: true },
+        })
+      : [];
+    const wooIdByProductId = new Map(syncs.map(s => [s.productId, s.wooProductId]));
+
+    // Associated products that are not synced to this store yet are left out.
+    // Empty lists are still sent so removed associations are cleared in WooCommerce.
+    for (const { field, type } of fields) {
+      wooProduct[this.getMappedField(field, fieldMappings)] = associations
+        .filter(a => a.type === type)
+        .sort((a, b) => a.sortOrder - b.sortOrder)
+        .map(a => wooIdByProductId.get(a.associatedProductId))
+        .filter((id): id is number => id !== undefined);
+    }
+  }
+
   private async processAttributes(wooProduct: any, context: any): Promise<void> {
     const { product, fieldsToExport, fieldMappings, wooClient } = context;
     
@@ -2144,10 +2578,14 @@ export class WooCommerceMultiStoreService {
 
     const wooAttributes: Array<{ name: string; options: string[]; visible: boolean; variation: boolean }> = [];
     const variationPatterns = ['color', 'colour', 'size', 'material', 'style'];
+
+    // Variant axes declared by the family replace inferring variation attributes
+    const levels = VariantLevelHelper.resolve(product);
     
     // Track attributes that are used in variants
     const variantAttributeNames = new Set<string>();
     const variantAttributeValues = new Map<string, Set<string>>();
+    const variantAttributeOptions = new Map<string, any[]>();
     
     // If product has variants and variants export is enabled, collect variant attributes
     const hasVariants = product.variants && product.variants.length > 0;
@@ -2158,8 +2596,14 @@ export class WooCommerceMultiStoreService {
       for (const variant of product.variants) {
         if (variant.attributes && variant.attributes.length > 0) {
           for (const attr of variant.attributes) {
+            if (levels && !VariantLevelHelper.isAxis(levels, attr.attributeId)) {
+              continue;
+            }
             const attrName = attr.attribute.name;
             variantAttributeNames.add(attrName);
+            if (attr.attribute.options?.length) {
+              variantAttributeOptions.set(attrName, attr.attribute.options);
+            }
             
             // Only add non-null, non-empty values
             if (attr.value != null && attr.value !== '') {
@@ -2178,13 +2622,18 @@ export class WooCommerceMultiStoreService {
         const isMapped = mappedAttributeNames.some(name => attrNameLower.includes(name.toLowerCase()));
         const isMappedViaFieldMapping = attributesMappedToWooFields.includes(attrName);
         
-        // Only include if not mapped to standard fields AND is in fieldsToExport
-        if (!isMapped && !isMappedViaFieldMapping && this.shouldIncludeField(attrName, context)) {
-          const options = Array.from(values).filter(v => v != null && v !== '').map(v => String(v));
+        // Only include if not mapped to standard fields AND is in fieldsToExport; declared axes always are
+        if (levels || (!isMapped && !isMappedViaFieldMapping && this.shouldIncludeField(attrName, context))) {
+          const codes = Array.from(values).filter(v => v != null && v !== '').map(v => String(v));
+          // Option codes become terms named after their labels
+          const terms = variantAttributeOptions.has(attrName)
+            ? AttributeOptionHelper.terms(variantAttributeOptions.get(attrName), codes)
+            : codes;
+          const options = terms.map(term => typeof term === 'string' ? term : term.name);
           
           // Only add attribute if it has valid options
           if (options.length > 0) {
-            await this.ensureWooCommerceAttribute(attrName, options, wooClient);
+            await this.ensureWooCommerceAttribute(attrName, terms, wooClient);
             
             wooAttributes.push({
               name: attrName,
@@ -2203,7 +2652,8 @@ export class WooCommerceMultiStoreService {
         const attrName = attr.attribute.name.toLowerCase();
         const isMapped = mappedAttributeNames.some(name => attrName.includes(name.toLowerCase()));
         const isMappedViaFieldMapping = attributesMappedToWooFields.includes(attr.attribute.name);
-        const isVariantAttribute = variantAttributeNames.has(attr.attribute.name);
+        const isVariantAttribute = variantAttributeNames.has(attr.attribute.name) ||
+          (!!levels && hasVariants && includeVariants && VariantLevelHelper.isVariantLevel(levels, attr.attributeId));
         
         // Skip if already added as variant attribute or if mapped
         if (!isMapped && !isMappedViaFieldMapping && !isVariantAttribute && this.shouldIncludeField(attr.attribute.name, context) && attr.value) {
@@ -2221,11 +2671,15 @@ export class WooCommerceMultiStoreService {
           
           // Ensure all options are valid strings
           options = options.filter(v => v != null && v !== '').map(v => String(v));
+
+          // Option codes become terms named after their labels
+          const terms = attr.attribute.options?.length ? AttributeOptionHelper.terms(attr.attribute.options, options) : options;
+          options = terms.map(term => typeof term === 'string' ? term : term.name);
           
           // Only add attribute if it has valid options
           if (options.length > 0) {
-            const isVariation = variationPatterns.some(pattern => attrName.includes(pattern));
-            await this.ensureWooCommerceAttribute(attr.attribute.name, options, wooClient);
+            const isVariation = !levels && variationPatterns.some(pattern => attrName.includes(pattern));
+            await this.ensureWooCommerceAttribute(attr.attribute.name, terms, wooClient);
             wooAttributes.push({
               name: attr.attribute.name,
               options,
@@ -2462,10 +2916,10 @@ export class WooCommerceMultiStoreService {
   /**
    * Ensure an attribute exists in WooCommerce, create if it doesn't
    * @param attributeName The attribute name
-   * @param options The attribute options (terms)
+   * @param options The attribute options (terms), plain values or option terms
    * @param wooClient The WooCommerce client
    */
-  private async ensureWooCommerceAttribute(attributeName: string, options: string[], wooClient: any): Promise<void> {
+  private async ensureWooCommerceAttribute(attributeName: string, options: Array<string | AttributeOptionTerm>, wooClient: any): Promise<void> {
     try {
       // Get all attributes
       const response = await wooClient.get('products/attributes');
@@ -2505,25 +2959,20 @@ export class WooCommerceMultiStoreService {
   /**
    * Ensure attribute terms exist in WooCommerce, create if they don't
    * @param attributeId The attribute ID
-   * @param terms The terms to ensure
+   * @param terms The terms to ensure, plain values or option terms
    * @param wooClient The WooCommerce client
    */
-  private async ensureWooCommerceAttributeTerms(attributeId: number, terms: string[], wooClient: any): Promise<void> {
+  private async ensureWooCommerceAttributeTerms(attributeId: number, terms: Array<string | AttributeOptionTerm>, wooClient: any): Promise<void> {
     try {
       // Get existing terms
       const termsResponse = await wooClient.get(`products/attributes/${attributeId}/terms`, {
         per_page: 100
       });
-      const existingTerms = termsResponse.data.map((term: any) => term.name.toLowerCase());
+      const existingTerms: any[] = termsResponse.data ?? [];
 
       // Create missing terms
       for (const term of terms) {
-        if (!existingTerms.includes(term.toLowerCase())) {
-          this.logger.log(`Creating term "${term}" for attribute ${attributeId}`);
-          await wooClient.post(`products/attributes/${attributeId}/terms`, {
-            name: term
-          });
-        }
+        await this.ensureAttributeTerm(wooClient, attributeId, term, existingTerms);
       }
     } catch (error) {
       this.logger.error(`Error ensuring attribute terms for attribute ${attributeId}:`, error);
@@ -0,0 +1,30 @@
+import {
+  IsBoolean,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Length,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+
+export class CreateStockLocationDto {
+  @IsString()
+  @IsNotEmpty({ message: 'Location name is required' })
+  @Length(1, 100, {
+    message: 'Location name must be between 1 and 100 characters',
+  })
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim() : value))
+  name: string;
+
+  // Short reference, e.g. 'WH2'
+  @IsOptional()
+  @IsString()
+  @Length(1, 50)
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim() : value))
+  code?: string;
+
+  // Inactive locations keep their stock but are left out of channel allocation
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
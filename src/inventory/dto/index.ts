@@ -0,0 +1,5 @@
+export * from './create-stock-location.dto';
+export * from './update-stock-location.dto';
+export * from './stock-movement.dto';
+export * from './inventory-allocation.dto';
+export * from './inventory-response.dto';
@@ -0,0 +1,48 @@
+import {
+  ArrayUnique,
+  IsArray,
+  IsIn,
+  IsInt,
+  IsOptional,
+  Max,
+  Min,
+} from 'class-validator';
+import { IntegrationType } from '../../integration/base/integration-type.enum';
+
+export const INVENTORY_CHANNELS = [
+  IntegrationType.WOOCOMMERCE,
+  IntegrationType.MYDEAL,
+  IntegrationType.AMAZON,
+] as const;
+
+export class SetInventoryAllocationDto {
+  @IsIn(INVENTORY_CHANNELS, {
+    message: `channel must be one of: ${INVENTORY_CHANNELS.join(', ')}`,
+  })
+  channel: string;
+
+  // WooCommerce or MyDeal connection id; not used for Amazon
+  @IsOptional()
+  @IsInt()
+  connectionId?: number;
+
+  // Locations whose stock is offered; empty or omitted = every active location
+  @IsOptional()
+  @IsArray()
+  @ArrayUnique()
+  @IsInt({ each: true })
+  locationIds?: number[];
+
+  // Share of the available stock, rounded down
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(100)
+  percentage?: number;
+
+  // Units held back from the channel after the percentage is applied
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  bufferQuantity?: number;
+}
@@ -0,0 +1,70 @@
+export class StockLocationResponseDto {
+  id: number;
+  name: string;
+  code: string | null;
+  isActive: boolean;
+  userId: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export class InventoryLevelResponseDto {
+  locationId: number;
+  locationName: string;
+  isActive: boolean;
+  onHand: number;
+  reserved: number;
+  available: number;
+}
+
+export class ChannelAllocationResponseDto {
+  channel: string;
+  connectionId: number | null; // null for Amazon
+  connectionName: string;
+  quantity: number; // Quantity the channel is offered
+}
+
+export class ProductInventoryResponseDto {
+  productId: number;
+  sku: string;
+  tracked: boolean; // false until the product has stock at a location
+  onHand: number;
+  reserved: number;
+  available: number;
+  levels: InventoryLevelResponseDto[];
+  channels: ChannelAllocationResponseDto[];
+}
+
+export class StockMovementResponseDto {
+  id: number;
+  productId: number;
+  locationId: number;
+  locationName: string;
+  type: string;
+  onHandChange: number;
+  reservedChange: number;
+  onHandAfter: number;
+  reservedAfter: number;
+  reason: string | null;
+  reference: string | null;
+  createdAt: Date;
+}
+
+export class InventoryAllocationResponseDto {
+  id: number | null; // null for channels still on the default rule
+  channel: string;
+  connectionId: number | null; // null for Amazon
+  connectionName: string;
+  locationIds: number[];
+  percentage: number;
+  bufferQuantity: number;
+}
+
+export class ChannelStockPushResultDto {
+  channel: string;
+  connectionId: number | null;
+  productId: number;
+  quantity: number;
+  status: 'updated' | 'skipped' | 'error';
+  message?: string;
+}
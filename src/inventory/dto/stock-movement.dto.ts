@@ -0,0 +1,72 @@
+import {
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Length,
+  Min,
+} from 'class-validator';
+import { StockMovementType } from '../../utils/inventory.helper';
+
+export const STOCK_ADJUSTMENT_TYPES = [
+  StockMovementType.RECEIPT,
+  StockMovementType.SALE,
+  StockMovementType.ADJUSTMENT,
+  StockMovementType.COUNT,
+] as const;
+
+export class AdjustStockDto {
+  @IsInt()
+  locationId: number;
+
+  @IsIn(STOCK_ADJUSTMENT_TYPES, {
+    message: `type must be one of: ${STOCK_ADJUSTMENT_TYPES.join(', ')}`,
+  })
+  type: string;
+
+  // receipt/sale: units moved; adjustment: signed change; count: counted on hand
+  @IsInt()
+  quantity: number;
+
+  @IsOptional()
+  @IsString()
+  @Length(0, 255)
+  reason?: string;
+
+  // Order number, delivery note, ...
+  @IsOptional()
+  @IsString()
+  @Length(0, 100)
+  reference?: string;
+}
+
+export class ReserveStockDto {
+  @IsInt()
+  locationId: number;
+
+  @IsInt()
+  @Min(1)
+  quantity: number;
+
+  @IsOptional()
+  @IsString()
+  @Length(0, 100)
+  reference?: string;
+}
+
+export class TransferStockDto {
+  @IsInt()
+  fromLocationId: number;
+
+  @IsInt()
+  toLocationId: number;
+
+  @IsInt()
+  @Min(1)
+  quantity: number;
+
+  @IsOptional()
+  @IsString()
+  @Length(0, 255)
+  reason?: string;
+}
@@ -0,0 +1,4 @@
+export * from './inventory.controller';
+export * from './inventory.service';
+export * from './inventory.module';
+export * from './dto';
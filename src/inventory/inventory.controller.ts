@@ -0,0 +1,209 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  ParseIntPipe,
+  UseGuards,
+  Query,
+} from '@nestjs/common';
+import { InventoryService } from './inventory.service';
+import {
+  CreateStockLocationDto,
+  UpdateStockLocationDto,
+  AdjustStockDto,
+  ReserveStockDto,
+  TransferStockDto,
+  SetInventoryAllocationDto,
+  StockLocationResponseDto,
+  ProductInventoryResponseDto,
+  StockMovementResponseDto,
+  InventoryAllocationResponseDto,
+  ChannelStockPushResultDto,
+} from './dto';
+import { PaginatedResponse } from '../common';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { OwnershipGuard } from '../auth/guards/ownership.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { RequirePermissions } from '../auth/decorators/permissions.decorator';
+import { EffectiveUserId } from '../auth/decorators/effective-user-id.decorator';
+
+@Controller('inventory')
+@UseGuards(JwtAuthGuard, OwnershipGuard, PermissionsGuard)
+export class InventoryController {
+  constructor(private readonly inventoryService: InventoryService) {}
+
+  @Post('locations')
+  @RequirePermissions({ resource: 'products', action: 'create' })
+  createLocation(
+    @Body() createDto: CreateStockLocationDto,
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<StockLocationResponseDto> {
+    return this.inventoryService.createLocation(createDto, effectiveUserId);
+  }
+
+  @Get('locations')
+  @RequirePermissions({ resource: 'products', action: 'read' })
+  findAllLocations(
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<StockLocationResponseDto[]> {
+    return this.inventoryService.findAllLocations(effectiveUserId);
+  }
+
+  @Get('locations/:id')
+  @RequirePermissions({ resource: 'products', action: 'read' })
+  findLocation(
+    @Param('id', ParseIntPipe) id: number,
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<StockLocationResponseDto> {
+    return this.inventoryService.findLocation(id, effectiveUserId);
+  }
+
+  @Patch('locations/:id')
+  @RequirePermissions({ resource: 'products', action: 'update' })
+  updateLocation(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() updateDto: UpdateStockLocationDto,
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<StockLocationResponseDto> {
+    return this.inventoryService.updateLocation(id, updateDto, effectiveUserId);
+  }
+
+  @Delete('locations/:id')
+  @RequirePermissions({ resource: 'products', action: 'delete' })
+  removeLocation(
+    @Param('id', ParseIntPipe) id: number,
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<{ message: string }> {
+    return this.inventoryService.removeLocation(id, effectiveUserId);
+  }
+
+  @Get('allocations')
+  @RequirePermissions({ resource: 'integration', action: 'read' })
+  getAllocations(
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<InventoryAllocationResponseDto[]> {
+    return this.inventoryService.getAllocations(effectiveUserId);
+  }
+
+  @Put('allocations')
+  @RequirePermissions({ resource: 'integration', action: 'update' })
+  setAllocation(
+    @Body() allocationDto: SetInventoryAllocationDto,
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<InventoryAllocationResponseDto> {
+    return this.inventoryService.setAllocation(allocationDto, effectiveUserId);
+  }
+
+  @Delete('allocations/:id')
+  @RequirePermissions({ resource: 'integration', action: 'update' })
+  removeAllocation(
+    @Param('id', ParseIntPipe) id: number,
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<{ message: string }> {
+    return this.inventoryService.removeAllocation(id, effectiveUserId);
+  }
+
+  @Get('movements')
+  @RequirePermissions({ resource: 'products', action: 'read' })
+  getMovements(
+    @EffectiveUserId() effectiveUserId: number,
+    @Query('productId') productId?: string,
+    @Query('locationId') locationId?: string,
+    @Query('type') type?: string,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ): Promise<PaginatedResponse<StockMovementResponseDto>> {
+    return this.inventoryService.getMovements(
+      effectiveUserId,
+      {
+        productId: productId ? parseInt(productId) : undefined,
+        locationId: locationId ? parseInt(locationId) : undefined,
+        type: type || undefined,
+      },
+      page ? parseInt(page) : 1,
+      limit ? parseInt(limit) : 20,
+    );
+  }
+
+  @Get('products/:productId')
+  @RequirePermissions({ resource: 'products', action: 'read' })
+  getProductInventory(
+    @Param('productId', ParseIntPipe) productId: number,
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<ProductInventoryResponseDto> {
+    return this.inventoryService.getProductInventory(
+      productId,
+      effectiveUserId,
+    );
+  }
+
+  @Post('products/:productId/adjust')
+  @RequirePermissions({ resource: 'products', action: 'update' })
+  adjustStock(
+    @Param('productId', ParseIntPipe) productId: number,
+    @Body() adjustDto: AdjustStockDto,
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<ProductInventoryResponseDto> {
+    return this.inventoryService.adjustStock(
+      productId,
+      adjustDto,
+      effectiveUserId,
+    );
+  }
+
+  @Post('products/:productId/reserve')
+  @RequirePermissions({ resource: 'products', action: 'update' })
+  reserveStock(
+    @Param('productId', ParseIntPipe) productId: number,
+    @Body() reserveDto: ReserveStockDto,
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<ProductInventoryResponseDto> {
+    return this.inventoryService.reserveStock(
+      productId,
+      reserveDto,
+      effectiveUserId,
+    );
+  }
+
+  @Post('products/:productId/release')
+  @RequirePermissions({ resource: 'products', action: 'update' })
+  releaseStock(
+    @Param('productId', ParseIntPipe) productId: number,
+    @Body() releaseDto: ReserveStockDto,
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<ProductInventoryResponseDto> {
+    return this.inventoryService.releaseStock(
+      productId,
+      releaseDto,
+      effectiveUserId,
+    );
+  }
+
+  @Post('products/:productId/transfer')
+  @RequirePermissions({ resource: 'products', action: 'update' })
+  transferStock(
+    @Param('productId', ParseIntPipe) productId: number,
+    @Body() transferDto: TransferStockDto,
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<ProductInventoryResponseDto> {
+    return this.inventoryService.transferStock(
+      productId,
+      transferDto,
+      effectiveUserId,
+    );
+  }
+
+  @Post('products/:productId/push')
+  @RequirePermissions({ resource: 'integration', action: 'update' })
+  pushProductStock(
+    @Param('productId', ParseIntPipe) productId: number,
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<ChannelStockPushResultDto[]> {
+    return this.inventoryService.pushProductStock(productId, effectiveUserId);
+  }
+}
@@ -0,0 +1,13 @@
+import { Module, forwardRef } from '@nestjs/common';
+import { InventoryService } from './inventory.service';
+import { InventoryController } from './inventory.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { IntegrationModule } from '../integration/integration.module';
+
+@Module({
+  imports: [PrismaModule, forwardRef(() => IntegrationModule)],
+  controllers: [InventoryController],
+  providers: [InventoryService],
+  exports: [InventoryService],
+})
+export class InventoryModule {}
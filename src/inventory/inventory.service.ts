@@ -0,0 +1,929 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+  Inject,
+  forwardRef,
+} from '@nestjs/common';
+import type {
+  InventoryAllocation,
+  Prisma,
+  StockLocation,
+  StockMovement,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  IntegrationType,
+  IntegrationStatus,
+} from '../integration/base/integration-type.enum';
+import { WooCommerceMultiStoreService } from '../integration/woocommerce/woocommerce-multistore.service';
+import { MyDealService } from '../integration/mydeal/mydeal.service';
+import { AmazonService } from '../integration/amazon/amazon.service';
+import { ChannelValueHelper } from '../utils/channel-value.helper';
+import {
+  DEFAULT_ALLOCATION_RULE,
+  InventoryHelper,
+  StockMovementType,
+} from '../utils/inventory.helper';
+import { withRecomputeAfterCommit } from '../utils/computedAttributeUtils';
+import { PaginatedResponse, PaginationUtils } from '../common';
+import {
+  CreateStockLocationDto,
+  UpdateStockLocationDto,
+  AdjustStockDto,
+  ReserveStockDto,
+  TransferStockDto,
+  SetInventoryAllocationDto,
+  StockLocationResponseDto,
+  ProductInventoryResponseDto,
+  StockMovementResponseDto,
+  InventoryAllocationResponseDto,
+  ChannelStockPushResultDto,
+} from './dto';
+
+interface MovementInput {
+  productId: number;
+  locationId: number;
+  type: StockMovementType;
+  onHandChange?: number;
+  reservedChange?: number;
+  countedOnHand?: number; // Sets on hand instead of changing it
+  reason?: string | null;
+  reference?: string | null;
+}
+
+interface ChannelConnection {
+  channel: IntegrationType;
+  connectionId: number | null; // null for Amazon
+  connectionName: string;
+}
+
+// Movements that must leave the reserved stock covered by stock on hand
+const RESERVATION_CHECKED_MOVEMENTS = [
+  StockMovementType.SALE,
+  StockMovementType.ADJUSTMENT,
+  StockMovementType.RESERVATION,
+  StockMovementType.TRANSFER_OUT,
+];
+
+@Injectable()
+export class InventoryService {
+  private readonly logger = new Logger(InventoryService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    @Inject(forwardRef(() => WooCommerceMultiStoreService))
+    private readonly wooCommerceService: WooCommerceMultiStoreService,
+    @Inject(forwardRef(() => MyDealService))
+    private readonly myDealService: MyDealService,
+    @Inject(forwardRef(() => AmazonService))
+    private readonly amazonService: AmazonService,
+  ) {}
+
+  async createLocation(
+    dto: CreateStockLocationDto,
+    userId: number,
+  ): Promise<StockLocationResponseDto> {
+    try {
+      return await this.prisma.stockLocation.create({
+        data: {
+          name: dto.name,
+          code: dto.code ?? null,
+          isActive: dto.isActive ?? true,
+          userId,
+        },
+      });
+    } catch (error) {
+      this.handleDatabaseError(error);
+    }
+  }
+
+  async findAllLocations(userId: number): Promise<StockLocationResponseDto[]> {
+    return this.prisma.stockLocation.findMany({
+      where: { userId },
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  async findLocation(
+    id: number,
+    userId: number,
+  ): Promise<StockLocationResponseDto> {
+    return this.findLocationOrFail(id, userId);
+  }
+
+  async updateLocation(
+    id: number,
+    dto: UpdateStockLocationDto,
+    userId: number,
+  ): Promise<StockLocationResponseDto> {
+    const location = await this.findLocationOrFail(id, userId);
+
+    try {
+      const updated = await this.prisma.stockLocation.update({
+        where: { id },
+        data: { name: dto.name, code: dto.code, isActive: dto.isActive },
+      });
+
+      // Activating or deactivating a location changes what channels are offered
+      if (dto.isActive !== undefined && dto.isActive !== location.isActive) {
+        this.pushLocationProducts(id, userId);
+      }
+      return updated;
+    } catch (error) {
+      this.handleDatabaseError(error);
+    }
+  }
+
+  async removeLocation(
+    id: number,
+    userId: number,
+  ): Promise<{ message: string }> {
+    const location = await this.findLocationOrFail(id, userId);
+
+    const stocked = await this.prisma.inventoryLevel.count({
+      where: {
+        locationId: id,
+        OR: [{ onHand: { not: 0 } }, { reserved: { not: 0 } }],
+      },
+    });
+    if (stocked > 0) {
+      throw new BadRequestException(
+        `Location "${location.name}" still holds stock of ${stocked} product(s); transfer or adjust it to zero first`,
+      );
+    }
+
+    // Empty levels and the movement history of the location go with it
+    await this.prisma.stockLocation.delete({ where: { id } });
+
+    return { message: `Location "${location.name}" deleted successfully` };
+  }
+
+  /**
+   * Stock of a product per location, with the quantity each channel connection
+   * is offered
+   */
+  async getProductInventory(
+    productId: number,
+    userId: number,
+  ): Promise<ProductInventoryResponseDto> {
+    const product = await this.prisma.product.findFirst({
+      where: { id: productId, userId, isDeleted: false },
+      select: {
+        id: true,
+        sku: true,
+        inventoryLevels: {
+          ...InventoryHelper.include(),
+          orderBy: { locationId: 'asc' },
+        },
+      },
+    });
+    if (!product) {
+      throw new NotFoundException(`Product with ID ${productId} not found`);
+    }
+
+    const [connections, rules] = await Promise.all([
+      this.getChannelConnections(userId),
+      this.prisma.inventoryAllocation.findMany({ where: { userId } }),
+    ]);
+
+    return {
+      productId: product.id,
+      sku: product.sku,
+      tracked: InventoryHelper.isTracked(product),
+      ...InventoryHelper.totals(product.inventoryLevels),
+      levels: product.inventoryLevels.map((level) => ({
+        locationId: level.locationId,
+        locationName: level.location.name,
+        isActive: level.location.isActive,
+        onHand: level.onHand,
+        reserved: level.reserved,
+        available: InventoryHelper.available(level),
+      })),
+      channels: connections.map((connection) => ({
+        ...connection,
+        quantity: InventoryHelper.allocate(
+          product.inventoryLevels,
+          this.findRule(rules, connection),
+        ),
+      })),
+    };
+  }
+
+  /**
+   * Record a receipt, sale, signed adjustment or stock count at a location
+   */
+  async adjustStock(
+    productId: number,
+    dto: AdjustStockDto,
+    userId: number,
+  ): Promise<ProductInventoryResponseDto> {
+    await this.findProductOrFail(productId, userId);
+    await this.findLocationOrFail(dto.locationId, userId);
+
+    const type = dto.type as StockMovementType;
+    const movement: MovementInput = {
+      productId,
+      locationId: dto.locationId,
+      type,
+      reason: dto.reason,
+      reference: dto.reference,
+    };
+
+    switch (type) {
+      case StockMovementType.RECEIPT:
+      case StockMovementType.SALE:
+        if (dto.quantity < 1) {
+          throw new BadRequestException(
+            `quantity of a ${type} must be a positive number of units`,
+          );
+        }
+        movement.onHandChange =
+          type === StockMovementType.SALE ? -dto.quantity : dto.quantity;
+        break;
+      case StockMovementType.ADJUSTMENT:
+        if (dto.quantity === 0) {
+          throw new BadRequestException(
+            'quantity of an adjustment must not be 0',
+          );
+        }
+        movement.onHandChange = dto.quantity;
+        break;
+      case StockMovementType.COUNT:
+        if (dto.quantity < 0) {
+          throw new BadRequestException('Counted quantity cannot be negative');
+        }
+        movement.countedOnHand = dto.quantity;
+        break;
+    }
+
+    await this.applyMovements([movement], userId);
+    return this.getProductInventory(productId, userId);
+  }
+
+  /**
+   * Hold stock at a location for an order; it stays on hand but is no longer
+   * available to channels
+   */
+  async reserveStock(
+    productId: number,
+    dto: ReserveStockDto,
+    userId: number,
+  ): Promise<ProductInventoryResponseDto> {
+    await this.findProductOrFail(productId, userId);
+    await this.findLocationOrFail(dto.locationId, userId);
+
+    await this.applyMovements(
+      [
+        {
+          productId,
+          locationId: dto.locationId,
+          type: StockMovementType.RESERVATION,
+          reservedChange: dto.quantity,
+          reference: dto.reference,
+        },
+      ],
+      userId,
+    );
+    return this.getProductInventory(productId, userId);
+  }
+
+  async releaseStock(
+    productId: number,
+    dto: ReserveStockDto,
+    userId: number,
+  ): Promise<ProductInventoryResponseDto> {
+    await this.findProductOrFail(productId, userId);
+    await this.findLocationOrFail(dto.locationId, userId);
+
+    await this.applyMovements(
+      [
+        {
+          productId,
+          locationId: dto.locationId,
+          type: StockMovementType.RELEASE,
+          reservedChange: -dto.quantity,
+          reference: dto.reference,
+        },
+      ],
+      userId,
+    );
+    return this.getProductInventory(productId, userId);
+  }
+
+  async transferStock(
+    productId: number,
+    dto: TransferStockDto,
+    userId: number,
+  ): Promise<ProductInventoryResponseDto> {
+    if (dto.fromLocationId === dto.toLocationId) {
+      throw new BadRequestException(
+        'Stock can only be transferred between different locations',
+      );
+    }
+    await this.findProductOrFail(productId, userId);
+    const from = await this.findLocationOrFail(dto.fromLocationId, userId);
+    const to = await this.findLocationOrFail(dto.toLocationId, userId);
+
+    const reference = `${from.code || from.name} -> ${to.code || to.name}`;
+    await this.applyMovements(
+      [
+        {
+          productId,
+          locationId: from.id,
+          type: StockMovementType.TRANSFER_OUT,
+          onHandChange: -dto.quantity,
+          reason: dto.reason,
+          reference,
+        },
+        {
+          productId,
+          locationId: to.id,
+          type: StockMovementType.TRANSFER_IN,
+          onHandChange: dto.quantity,
+          reason: dto.reason,
+          reference,
+        },
+      ],
+      userId,
+    );
+    return this.getProductInventory(productId, userId);
+  }
+
+  /**
+   * Movement history, newest first
+   */
+  async getMovements(
+    userId: number,
+    filters: { productId?: number; locationId?: number; type?: string },
+    page: number = 1,
+    limit: number = 20,
+  ): Promise<PaginatedResponse<StockMovementResponseDto>> {
+    const where: Prisma.StockMovementWhereInput = {
+      userId,
+      productId: filters.productId,
+      locationId: filters.locationId,
+      type: filters.type,
+    };
+    const paginationOptions = PaginationUtils.createPrismaOptions(page, limit);
+
+    const [movements, total] = await Promise.all([
+      this.prisma.stockMovement.findMany({
+        where,
+        include: { location: { select: { name: true } } },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        ...paginationOptions,
+      }),
+      this.prisma.stockMovement.count({ where }),
+    ]);
+
+    return PaginationUtils.createPaginatedResponse(
+      movements.map((movement) => this.transformMovementForResponse(movement)),
+      total,
+      page,
+      limit,
+    );
+  }
+
+  /**
+   * Stock on hand reported by a channel, e.g. Amazon FBA. The channel's
+   * location is created on first use.
+   */
+  async recordChannelStock(
+    productId: number,
+    userId: number,
+    channel: IntegrationType,
+    location: { code: string; name: string },
+    quantity: number,
+  ): Promise<void> {
+    let channelLocation = await this.prisma.stockLocation.findFirst({
+      where: { userId, code: location.code },
+    });
+    if (!channelLocation) {
+      channelLocation = await this.prisma.stockLocation.create({
+        data: { name: location.name, code: location.code, userId },
+      });
+    }
+
+    await this.applyMovements(
+      [
+        {
+          productId,
+          locationId: channelLocation.id,
+          type: StockMovementType.CHANNEL_SYNC,
+          countedOnHand: Math.max(0, quantity),
+          reason: `Reported by ${channel}`,
+        },
+      ],
+      userId,
+      channel,
+    );
+  }
+
+  async isTracked(productId: number): Promise<boolean> {
+    const levels = await this.prisma.inventoryLevel.count({
+      where: { productId },
+    });
+    return levels > 0;
+  }
+
+  /**
+   * Allocation rule of every channel connection; connections without a rule
+   * are listed with the default rule
+   */
+  async getAllocations(
+    userId: number,
+  ): Promise<InventoryAllocationResponseDto[]> {
+    const [connections, rules] = await Promise.all([
+      this.getChannelConnections(userId, false),
+      this.prisma.inventoryAllocation.findMany({ where: { userId } }),
+    ]);
+
+    return connections.map((connection) =>
+      this.transformAllocationForResponse(
+        connection,
+        this.findRule(rules, connection),
+      ),
+    );
+  }
+
+  async setAllocation(
+    dto: SetInventoryAllocationDto,
+    userId: number,
+  ): Promise<InventoryAllocationResponseDto> {
+    const channel = dto.channel as IntegrationType;
+    const connection = await this.findConnectionOrFail(
+      channel,
+      dto.connectionId,
+      userId,
+    );
+
+    const locationIds = dto.locationIds ?? [];
+    if (locationIds.length > 0) {
+      const found = await this.prisma.stockLocation.count({
+        where: { id: { in: locationIds }, userId },
+      });
+      if (found !== locationIds.length) {
+        throw new BadRequestException(
+          'One or more locations not found or do not belong to you',
+        );
+      }
+    }
+
+    const connectionId = ChannelValueHelper.toStoredConnectionId(
+      channel,
+      connection.connectionId,
+    );
+    const data = {
+      locationIds,
+      percentage: dto.percentage ?? DEFAULT_ALLOCATION_RULE.percentage,
+      bufferQuantity:
+        dto.bufferQuantity ?? DEFAULT_ALLOCATION_RULE.bufferQuantity,
+    };
+    const rule = await this.prisma.inventoryAllocation.upsert({
+      where: {
+        userId_channel_connectionId: { userId, channel, connectionId },
+      },
+      create: { userId, channel, connectionId, ...data },
+      update: data,
+    });
+
+    this.logger.log(
+      `Set ${channel} allocation for connection ${connectionId}: ${rule.percentage}% of ${locationIds.length || 'all'} location(s), buffer ${rule.bufferQuantity}`,
+    );
+    this.pushAllTrackedProducts(userId);
+    return this.transformAllocationForResponse(connection, rule);
+  }
+
+  async removeAllocation(
+    id: number,
+    userId: number,
+  ): Promise<{ message: string }> {
+    const rule = await this.prisma.inventoryAllocation.findFirst({
+      where: { id, userId },
+    });
+    if (!rule) {
+      throw new NotFoundException(`Allocation rule with ID ${id} not found`);
+    }
+
+    await this.prisma.inventoryAllocation.delete({ where: { id } });
+    this.pushAllTrackedProducts(userId);
+
+    return {
+      message: `Allocation rule removed; the ${rule.channel} connection is offered all available stock`,
+    };
+  }
+
+  /**
+   * Send the allocated stock of products to every connected channel they are
+   * listed on, without re-exporting them. A channel that reported the change
+   * itself is left out.
+   */
+  async pushStockToChannels(
+    productIds: number[],
+    userId: number,
+    excludeChannel?: IntegrationType,
+  ): Promise<ChannelStockPushResultDto[]> {
+    const products = await this.prisma.product.findMany({
+      where: {
+        id: { in: productIds },
+        userId,
+        isDeleted: false,
+        inventoryLevels: { some: {} },
+      },
+      select: { id: true, inventoryLevels: InventoryHelper.include() },
+    });
+    if (products.length === 0) {
+      return [];
+    }
+
+    const [connections, rules, exportLogs] = await Promise.all([
+      this.getChannelConnections(userId),
+      this.prisma.inventoryAllocation.findMany({ where: { userId } }),
+      // MyDeal and Amazon exports are only recorded in the integration log
+      this.prisma.integrationLog.findMany({
+        where: {
+          productId: { in: products.map((product) => product.id) },
+          userId,
+          integrationType: {
+            in: [IntegrationType.MYDEAL, IntegrationType.AMAZON],
+          },
+          status: IntegrationStatus.SUCCESS,
+        },
+        select: { productId: true, integrationType: true },
+        distinct: ['productId', 'integrationType'],
+      }),
+    ]);
+    const isExported = (channel: IntegrationType, productId: number) =>
+      exportLogs.some(
+        (log) =>
+          (log.integrationType as IntegrationType) === channel &&
+          log.productId === productId,
+      );
+
+    const results: ChannelStockPushResultDto[] = [];
+    for (const connection of connections) {
+      if (connection.channel === excludeChannel) continue;
+      const rule = this.findRule(rules, connection);
+
+      for (const product of products) {
+        const quantity = InventoryHelper.allocate(
+          product.inventoryLevels,
+          rule,
+        );
+        const result: ChannelStockPushResultDto = {
+          channel: connection.channel,
+          connectionId: connection.connectionId,
+          productId: product.id,
+          quantity,
+          status: 'skipped',
+        };
+
+        try {
+          let updated = false;
+          if (connection.channel === IntegrationType.WOOCOMMERCE) {
+            updated = await this.wooCommerceService.updateStockQuantity(
+              userId,
+              connection.connectionId!,
+              product.id,
+              quantity,
+            );
+          } else if (isExported(connection.channel, product.id)) {
+            updated =
+              connection.channel === IntegrationType.MYDEAL
+                ? await this.myDealService.updateProductStock(
+                    product.id,
+                    userId,
+                    quantity,
+                    connection.connectionId!,
+                  )
+                : await this.amazonService.updateInventoryQuantity(
+                    product.id,
+                    userId,
+                    quantity,
+                  );
+          }
+          result.status = updated ? 'updated' : 'skipped';
+          if (!updated) {
+            result.message = `Product is not listed on ${connection.connectionName}`;
+          }
+        } catch (error: any) {
+          this.logger.error(
+            `Failed to push stock of product ${product.id} to ${connection.channel} ${connection.connectionName}: ${error.message}`,
+          );
+          result.status = 'error';
+          result.message = error.message;
+        }
+        results.push(result);
+      }
+    }
+
+    return results;
+  }
+
+  async pushProductStock(
+    productId: number,
+    userId: number,
+  ): Promise<ChannelStockPushResultDto[]> {
+    await this.findProductOrFail(productId, userId);
+    if (!(await this.isTracked(productId))) {
+      throw new BadRequestException(
+        `Product ${productId} has no stock at any location`,
+      );
+    }
+    return this.pushStockToChannels([productId], userId);
+  }
+
+  /**
+   * Apply movements in one transaction, recording each in the history, then
+   * push the new stock to the channels in the background
+   */
+  private async applyMovements(
+    movements: MovementInput[],
+    userId: number,
+    sourceChannel?: IntegrationType,
+  ): Promise<void> {
+    await withRecomputeAfterCommit(() =>
+      this.prisma.$transaction(async (tx) => {
+        for (const movement of movements) {
+          const { productId, locationId, type } = movement;
+          const level = await tx.inventoryLevel.upsert({
+            where: { productId_locationId: { productId, locationId } },
+            create: { productId, locationId },
+            update: {},
+          });
+
+          const onHandChange =
+            movement.countedOnHand !== undefined
+              ? movement.countedOnHand - level.onHand
+              : (movement.onHandChange ?? 0);
+          const reservedChange = movement.reservedChange ?? 0;
+          const onHand = level.onHand + onHandChange;
+          const reserved = level.reserved + reservedChange;
+
+          if (onHand < 0) {
+            throw new BadRequestException(
+              `Not enough stock of product ${productId} at location ${locationId}: ${level.onHand} on hand`,
+            );
+          }
+          if (reserved < 0) {
+            throw new BadRequestException(
+              `Only ${level.reserved} unit(s) of product ${productId} are reserved at location ${locationId}`,
+            );
+          }
+          if (
+            RESERVATION_CHECKED_MOVEMENTS.includes(type) &&
+            reserved > onHand
+          ) {
+            throw new BadRequestException(
+              `Only ${InventoryHelper.available(level)} unit(s) of product ${productId} are available at location ${locationId}`,
+            );
+          }
+
+          await tx.inventoryLevel.update({
+            where: { id: level.id },
+            data: { onHand, reserved },
+          });
+          await tx.stockMovement.create({
+            data: {
+              productId,
+              locationId,
+              userId,
+              type,
+              onHandChange,
+              reservedChange,
+              onHandAfter: onHand,
+              reservedAfter: reserved,
+              reason: movement.reason ?? null,
+              reference: movement.reference ?? null,
+            },
+          });
+        }
+      }),
+    );
+
+    const productIds = Array.from(new Set(movements.map((m) => m.productId)));
+    this.pushInBackground(productIds, userId, sourceChannel);
+  }
+
+  private pushInBackground(
+    productIds: number[],
+    userId: number,
+    excludeChannel?: IntegrationType,
+  ): void {
+    this.pushStockToChannels(productIds, userId, excludeChannel).catch(
+      (error: any) => {
+        this.logger.error(
+          `Stock push failed for products ${productIds.join(', ')}: ${error.message}`,
+        );
+      },
+    );
+  }
+
+  private pushLocationProducts(locationId: number, userId: number): void {
+    this.prisma.inventoryLevel
+      .findMany({ where: { locationId }, select: { productId: true } })
+      .then((levels) =>
+        this.pushInBackground(
+          levels.map((level) => level.productId),
+          userId,
+        ),
+      )
+      .catch((error: any) => {
+        this.logger.error(
+          `Failed to load products of location ${locationId}: ${error.message}`,
+        );
+      });
+  }
+
+  private pushAllTrackedProducts(userId: number): void {
+    this.prisma.product
+      .findMany({
+        where: { userId, isDeleted: false, inventoryLevels: { some: {} } },
+        select: { id: true },
+      })
+      .then((products) =>
+        this.pushInBackground(
+          products.map((product) => product.id),
+          userId,
+        ),
+      )
+      .catch((error: any) => {
+        this.logger.error(
+          `Failed to load tracked products of user ${userId}: ${error.message}`,
+        );
+      });
+  }
+
+  /**
+   * Active WooCommerce and MyDeal connections and the Amazon credentials of
+   * the user
+   */
+  private async getChannelConnections(
+    userId: number,
+    activeOnly: boolean = true,
+  ): Promise<ChannelConnection[]> {
+    const isActive = activeOnly ? true : undefined;
+    const [wooConnections, mydealConnections, amazonCredentials] =
+      await Promise.all([
+        this.prisma.wooCommerceConnection.findMany({
+          where: { userId, isActive },
+          select: { id: true, storeName: true },
+          orderBy: { id: 'asc' },
+        }),
+        this.prisma.myDealConnection.findMany({
+          where: { userId, isActive },
+          select: { id: true, connectionName: true },
+          orderBy: { id: 'asc' },
+        }),
+        this.prisma.userIntegrationCredentials.findFirst({
+          where: { userId, integrationType: IntegrationType.AMAZON, isActive },
+          select: { id: true },
+        }),
+      ]);
+
+    return [
+      ...wooConnections.map((connection) => ({
+        channel: IntegrationType.WOOCOMMERCE,
+        connectionId: connection.id,
+        connectionName: connection.storeName,
+      })),
+      ...mydealConnections.map((connection) => ({
+        channel: IntegrationType.MYDEAL,
+        connectionId: connection.id,
+        connectionName: connection.connectionName,
+      })),
+      ...(amazonCredentials
+        ? [
+            {
+              channel: IntegrationType.AMAZON,
+              connectionId: null,
+              connectionName: 'Amazon',
+            },
+          ]
+        : []),
+    ];
+  }
+
+  private async findConnectionOrFail(
+    channel: IntegrationType,
+    connectionId: number | undefined,
+    userId: number,
+  ): Promise<ChannelConnection> {
+    const connections = await this.getChannelConnections(userId, false);
+
+    if (channel === IntegrationType.AMAZON) {
+      const amazon = connections.find((c) => c.channel === channel);
+      if (!amazon) {
+        throw new BadRequestException(
+          'Amazon credentials not configured for this user',
+        );
+      }
+      return amazon;
+    }
+
+    if (!connectionId) {
+      throw new BadRequestException(
+        `connectionId is required for the ${channel} channel`,
+      );
+    }
+    const connection = connections.find(
+      (c) => c.channel === channel && c.connectionId === connectionId,
+    );
+    if (!connection) {
+      throw new BadRequestException(
+        `${channel} connection ${connectionId} not found or does not belong to you`,
+      );
+    }
+    return connection;
+  }
+
+  private findRule(
+    rules: InventoryAllocation[],
+    connection: ChannelConnection,
+  ): InventoryAllocation | null {
+    const connectionId = ChannelValueHelper.toStoredConnectionId(
+      connection.channel,
+      connection.connectionId,
+    );
+    return (
+      rules.find(
+        (rule) =>
+          (rule.channel as IntegrationType) === connection.channel &&
+          rule.connectionId === connectionId,
+      ) ?? null
+    );
+  }
+
+  private async findLocationOrFail(
+    id: number,
+    userId: number,
+  ): Promise<StockLocation> {
+    const location = await this.prisma.stockLocation.findFirst({
+      where: { id, userId },
+    });
+
+    if (!location) {
+      throw new NotFoundException(`Location with ID ${id} not found`);
+    }
+
+    return location;
+  }
+
+  private async findProductOrFail(
+    productId: number,
+    userId: number,
+  ): Promise<void> {
+    const product = await this.prisma.product.findFirst({
+      where: { id: productId, userId, isDeleted: false },
+      select: { id: true },
+    });
+
+    if (!product) {
+      throw new NotFoundException(`Product with ID ${productId} not found`);
+    }
+  }
+
+  private transformAllocationForResponse(
+    connection: ChannelConnection,
+    rule: InventoryAllocation | null,
+  ): InventoryAllocationResponseDto {
+    const { locationIds, percentage, bufferQuantity } =
+      rule ?? DEFAULT_ALLOCATION_RULE;
+    return {
+      id: rule?.id ?? null,
+      ...connection,
+      locationIds,
+      percentage,
+      bufferQuantity,
+    };
+  }
+
+  private transformMovementForResponse(
+    movement: StockMovement & { location: { name: string } },
+  ): StockMovementResponseDto {
+    return {
+      id: movement.id,
+      productId: movement.productId,
+      locationId: movement.locationId,
+      locationName: movement.location.name,
+      type: movement.type,
+      onHandChange: movement.onHandChange,
+      reservedChange: movement.reservedChange,
+      onHandAfter: movement.onHandAfter,
+      reservedAfter: movement.reservedAfter,
+      reason: movement.reason,
+      reference: movement.reference,
+      createdAt: movement.createdAt,
+    };
+  }
+
+  private handleDatabaseError(error: any): never {
+    if (error.code === 'P2002') {
+      throw new ConflictException('Location with this name already exists');
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,45 @@
+import {
+  IsArray,
+  IsInt,
+  IsOptional,
+  IsString,
+  Length,
+  ValidateNested,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+
+export class LocalizedAttributeValueDto {
+  @IsInt()
+  attributeId: number;
+
+  // Validated against the attribute type; null removes the locale value
+  @IsOptional()
+  value?: any;
+}
+
+export class UpsertProductLocalizationDto {
+  // Localized product name; null removes it
+  @IsOptional()
+  @IsString({ message: 'Name must be a string' })
+  @Length(1, 255, { message: 'Name must be between 1 and 255 characters' })
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim() : value))
+  name?: string | null;
+
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => LocalizedAttributeValueDto)
+  attributes?: LocalizedAttributeValueDto[];
+}
+
+export class ProductLocalizationResponseDto {
+  productId: number;
+  locale: string;
+  name: string | null;
+  attributes: {
+    attributeId: number;
+    attributeName: string;
+    type: string;
+    value: any;
+  }[];
+}
@@ -0,0 +1,3 @@
+export * from './localization.service';
+export * from './localization.module';
+export * from './dto';
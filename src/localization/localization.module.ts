@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { LocalizationService } from './localization.service';
+import { PrismaModule } from '../prisma/prisma.module';
+import { AttributeModule } from '../attribute/attribute.module';
+
+@Module({
+  imports: [PrismaModule, AttributeModule],
+  providers: [LocalizationService],
+  exports: [LocalizationService],
+})
+export class LocalizationModule {}
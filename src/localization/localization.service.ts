@@ -0,0 +1,407 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { AttributeValueValidator } from '../attribute/validators/attribute-value.validator';
+import { AttributeConstraintValidator } from '../attribute/validators/attribute-constraint.validator';
+import { AttributeType } from '../types/attribute-type.enum';
+import { LocaleHelper } from '../utils/locale.helper';
+import { AttributeOptionHelper } from '../utils/attribute-option.helper';
+import { withRecomputeAfterCommit } from '../utils/computedAttributeUtils';
+import {
+  ProductLocalizationResponseDto,
+  UpsertProductLocalizationDto,
+} from './dto';
+
+/**
+ * Service for per-locale product content and localizable attribute values.
+ * Reads resolve through the locale's fallback chain (e.g. en-AU -> en) and
+ * finally the product's base values.
+ */
+@Injectable()
+export class LocalizationService {
+  private readonly logger = new Logger(LocalizationService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly validator: AttributeValueValidator,
+    private readonly attributeConstraintValidator: AttributeConstraintValidator,
+  ) {}
+
+  /**
+   * Normalize a locale from a request. Returns undefined when no locale was
+   * given and throws for malformed tags.
+   */
+  parseLocale(locale?: string | null): string | undefined {
+    if (locale === undefined || locale === null || locale === '') {
+      return undefined;
+    }
+
+    const normalized = LocaleHelper.normalize(locale);
+    if (!normalized) {
+      throw new BadRequestException(
+        `Invalid locale "${locale}". Use a BCP 47 tag such as "en" or "en-AU"`,
+      );
+    }
+    return normalized;
+  }
+
+  async getProductLocalizations(
+    productId: number,
+    userId: number,
+  ): Promise<ProductLocalizationResponseDto[]> {
+    await this.verifyProductOwnership(productId, userId);
+
+    const [localizations, attributeLocalizations] = await Promise.all([
+      this.prisma.productLocalization.findMany({ where: { productId } }),
+      this.prisma.productAttributeLocalization.findMany({
+        where: { productId },
+        include: { attribute: { select: { name: true, type: true } } },
+        orderBy: { attributeId: 'asc' },
+      }),
+    ]);
+
+    const locales = Array.from(
+      new Set([
+        ...localizations.map((l) => l.locale),
+        ...attributeLocalizations.map((l) => l.locale),
+      ]),
+    ).sort();
+
+    return locales.map((locale) =>
+      this.transformLocalizationForResponse(
+        productId,
+        locale,
+        localizations.find((l) => l.locale === locale)?.name ?? null,
+        attributeLocalizations.filter((l) => l.locale === locale),
+      ),
+    );
+  }
+
+  async getProductLocalization(
+    productId: number,
+    locale: string,
+    userId: number,
+  ): Promise<ProductLocalizationResponseDto> {
+    const normalized = this.requireLocale(locale);
+    await this.verifyProductOwnership(productId, userId);
+
+    const [localization, attributeLocalizations] = await Promise.all([
+      this.prisma.productLocalization.findUnique({
+        where: { productId_locale: { productId, locale: normalized } },
+      }),
+      this.prisma.productAttributeLocalization.findMany({
+        where: { productId, locale: normalized },
+        include: { attribute: { select: { name: true, type: true } } },
+        orderBy: { attributeId: 'asc' },
+      }),
+    ]);
+
+    if (!localization && attributeLocalizations.length === 0) {
+      throw new NotFoundException(
+        `Product ${productId} has no content for locale ${normalized}`,
+      );
+    }
+
+    return this.transformLocalizationForResponse(
+      productId,
+      normalized,
+      localization?.name ?? null,
+      attributeLocalizations,
+    );
+  }
+
+  /**
+   * Create or update the content of one locale. Only the given name and
+   * attribute values are changed; a null value removes it.
+   */
+  async upsertProductLocalization(
+    productId: number,
+    locale: string,
+    dto: UpsertProductLocalizationDto,
+    userId: number,
+  ): Promise<ProductLocalizationResponseDto> {
+    const normalized = this.requireLocale(locale);
+    await this.verifyProductOwnership(productId, userId);
+
+    const values = await this.validateAttributeValues(
+      productId,
+      dto.attributes || [],
+      userId,
+    );
+
+    await withRecomputeAfterCommit(() =>
+      this.prisma.$transaction(async (tx) => {
+        if (dto.name !== undefined) {
+          await tx.productLocalization.upsert({
+            where: { productId_locale: { productId, locale: normalized } },
+            create: { productId, locale: normalized, name: dto.name },
+            update: { name: dto.name },
+          });
+        }
+
+        for (const { attributeId, value } of values) {
+          if (value === null) {
+            await tx.productAttributeLocalization.deleteMany({
+              where: { productId, attributeId, locale: normalized },
+            });
+            continue;
+          }
+
+          await tx.productAttributeLocalization.upsert({
+            where: {
+              productId_attributeId_locale: {
+                productId,
+                attributeId,
+                locale: normalized,
+              },
+            },
+            create: { productId, attributeId, locale: normalized, value },
+            update: { value },
+          });
+        }
+      }),
+    );
+
+    this.logger.log(
+      `Updated ${normalized} content of product ${productId} (${values.length} attribute values)`,
+    );
+
+    return this.getProductLocalization(productId, normalized, userId);
+  }
+
+  async removeProductLocalization(
+    productId: number,
+    locale: string,
+    userId: number,
+  ): Promise<{ message: string }> {
+    const normalized = this.requireLocale(locale);
+    await this.verifyProductOwnership(productId, userId);
+
+    const [content, values] = await this.prisma.$transaction([
+      this.prisma.productLocalization.deleteMany({
+        where: { productId, locale: normalized },
+      }),
+      this.prisma.productAttributeLocalization.deleteMany({
+        where: { productId, locale: normalized },
+      }),
+    ]);
+
+    if (content.count === 0 && values.count === 0) {
+      throw new NotFoundException(
+        `Product ${productId} has no content for locale ${normalized}`,
+      );
+    }
+
+    return {
+      message: `Locale ${normalized} removed from product ${productId}`,
+    };
+  }
+
+  /**
+   * Return copies of the products with the name and localizable attribute
+   * values resolved for the locale. Variants included on the products are
+   * localized too. Products are returned unchanged when no locale is given.
+   */
+  async localizeProducts<T extends { id: number }>(
+    products: T[],
+    locale?: string | null,
+  ): Promise<T[]> {
+    const chain = LocaleHelper.getFallbackChain(locale);
+    if (chain.length === 0 || products.length === 0) {
+      return products;
+    }
+
+    const productIds = new Set<number>();
+    for (const product of products as any[]) {
+      productIds.add(product.id);
+      for (const variant of product.variants || []) {
+        productIds.add(variant.id);
+      }
+    }
+
+    const [localizations, attributeLocalizations] = await Promise.all([
+      this.prisma.productLocalization.findMany({
+        where: {
+          productId: { in: Array.from(productIds) },
+          locale: { in: chain },
+          name: { not: null },
+        },
+      }),
+      this.prisma.productAttributeLocalization.findMany({
+        where: {
+          productId: { in: Array.from(productIds) },
+          locale: { in: chain },
+          value: { not: null },
+          attribute: { isLocalizable: true },
+        },
+      }),
+    ]);
+
+    // Keep the most specific locale per product / product attribute
+    const rank = (value: string) => chain.indexOf(value);
+    const names = new Map<number, { locale: string; name: string }>();
+    for (const localization of localizations) {
+      const current = names.get(localization.productId);
+      if (!current || rank(localization.locale) < rank(current.locale)) {
+        names.set(localization.productId, {
+          locale: localization.locale,
+          name: localization.name as string,
+        });
+      }
+    }
+
+    const values = new Map<string, { locale: string; value: string }>();
+    for (const localization of attributeLocalizations) {
+      const key = `${localization.productId}:${localization.attributeId}`;
+      const current = values.get(key);
+      if (!current || rank(localization.locale) < rank(current.locale)) {
+        values.set(key, {
+          locale: localization.locale,
+          value: localization.value as string,
+        });
+      }
+    }
+
+    const localize = (product: any): any => {
+      const localized = { ...product };
+
+      const name = names.get(product.id);
+      if (name) {
+        localized.name = name.name;
+      }
+
+      if (Array.isArray(product.attributes)) {
+        localized.attributes = product.attributes.map((pa: any) => {
+          const attributeId = pa.attribute?.id ?? pa.attributeId;
+          const value = values.get(`${product.id}:${attributeId}`);
+          return value ? { ...pa, value: value.value } : pa;
+        });
+      }
+
+      if (Array.isArray(product.variants)) {
+        localized.variants = product.variants.map(localize);
+      }
+
+      return localized;
+    };
+
+    return products.map(localize);
+  }
+
+  private requireLocale(locale: string): string {
+    const normalized = this.parseLocale(locale);
+    if (!normalized) {
+      throw new BadRequestException('Locale is required');
+    }
+    return normalized;
+  }
+
+  /**
+   * Validate values against the attribute type and option list, then the unit
+   * family, validation rules and uniqueness the product's own values follow
+   */
+  private async validateAttributeValues(
+    productId: number,
+    attributes: { attributeId: number; value?: any }[],
+    userId: number,
+  ): Promise<{ attributeId: number; value: string | null }[]> {
+    if (attributes.length === 0) {
+      return [];
+    }
+
+    const attributeIds = Array.from(
+      new Set(attributes.map((a) => a.attributeId)),
+    );
+    const records = await this.prisma.attribute.findMany({
+      where: { id: { in: attributeIds }, userId },
+      select: {
+        id: true,
+        name: true,
+        type: true,
+        isLocalizable: true,
+        options: AttributeOptionHelper.include(),
+      },
+    });
+    const recordMap = new Map(records.map((r) => [r.id, r]));
+
+    const values = attributes.map(({ attributeId, value }) => {
+      const attribute = recordMap.get(attributeId);
+      if (!attribute) {
+        throw new BadRequestException(
+          `Attribute with ID ${attributeId} not found or does not belong to you`,
+        );
+      }
+      if (!attribute.isLocalizable) {
+        throw new BadRequestException(
+          `Attribute "${attribute.name}" is not localizable`,
+        );
+      }
+
+      try {
+        return {
+          attributeId,
+          value: this.validator.validateOptions(
+            attribute.type as AttributeType,
+            value,
+            attribute.options,
+          ),
+        };
+      } catch (error) {
+        throw new BadRequestException(
+          `Invalid value for attribute "${attribute.name}": ${error.message}`,
+        );
+      }
+    });
+
+    await this.attributeConstraintValidator.normalize(values, userId, {
+      id: productId,
+    });
+    return values;
+  }
+
+  private async verifyProductOwnership(
+    productId: number,
+    userId: number,
+  ): Promise<void> {
+    const product = await this.prisma.product.findFirst({
+      where: { id: productId, userId },
+      select: { id: true },
+    });
+
+    if (!product) {
+      throw new NotFoundException(
+        `Product with ID ${productId} not found or access denied`,
+      );
+    }
+  }
+
+  private transformLocalizationForResponse(
+    productId: number,
+    locale: string,
+    name: string | null,
+    attributeLocalizations: {
+      attributeId: number;
+      value: string | null;
+      attribute: { name: string; type: string };
+    }[],
+  ): ProductLocalizationResponseDto {
+    return {
+      productId,
+      locale,
+      name,
+      attributes: attributeLocalizations.map((l) => ({
+        attributeId: l.attributeId,
+        attributeName: l.attribute.name,
+        type: l.attribute.type,
+        value: this.validator.parseStoredValue(
+          l.attribute.type as AttributeType,
+          l.value,
+        ),
+      })),
+    };
+  }
+}
@@ -0,0 +1,183 @@
+import { Prisma } from '@prisma/client';
+import {
+  ComputedAttributeClient,
+  recomputeComputedAttributes,
+  recomputeComputedAttributesForAttribute,
+  recomputeComputedAttributesForCategory,
+  recomputeComputedAttributesForFamily,
+  scheduleRecompute,
+} from 'src/utils/computedAttributeUtils';
+
+// Product fields computed attributes can refer to
+const PRODUCT_INPUT_FIELDS = [
+  'name',
+  'sku',
+  'categoryId',
+  'familyId',
+  'attributes',
+];
+
+// Product IDs a productAttribute where clause targets, when it names them
+function productIdsFromWhere(where: any): number[] {
+  const productId = where?.productId_attributeId?.productId ?? where?.productId;
+  if (typeof productId === 'number') return [productId];
+  if (Array.isArray(productId?.in)) return productId.in;
+  return [];
+}
+
+async function recomputeProducts(
+  client: ComputedAttributeClient,
+  productIds: (number | undefined)[],
+) {
+  const uniqueIds = Array.from(
+    new Set(productIds.filter((id): id is number => typeof id === 'number')),
+  );
+  for (const productId of uniqueIds) {
+    await scheduleRecompute(`product:${productId}`, () =>
+      recomputeComputedAttributes(client, productId),
+    );
+  }
+}
+
+/**
+ * Re-evaluates computed attributes when one of their inputs changes: attribute
+ * values, product name, SKU, category or family, attribute expressions and
+ * category names. Inside withRecomputeAfterCommit this waits for the commit.
+ */
+export const computedAttributeExtension = Prisma.defineExtension((client) => {
+  // The client before this extension, so recompute writes do not re-trigger it
+  const recomputeClient = client as unknown as ComputedAttributeClient;
+
+  return client.$extends({
+    name: 'computedAttributeExtension',
+
+    query: {
+      productAttribute: {
+        async create({ args, query }) {
+          const result: any = await query(args);
+          await recomputeProducts(recomputeClient, [
+            result?.productId ?? (args.data as any).productId,
+          ]);
+          return result;
+        },
+        async update({ args, query }) {
+          const result: any = await query(args);
+          await recomputeProducts(recomputeClient, [
+            result?.productId,
+            ...productIdsFromWhere(args.where),
+          ]);
+          return result;
+        },
+        async upsert({ args, query }) {
+          const result: any = await query(args);
+          await recomputeProducts(recomputeClient, [
+            result?.productId,
+            ...productIdsFromWhere(args.where),
+          ]);
+          return result;
+        },
+        async delete({ args, query }) {
+          const result: any = await query(args);
+          await recomputeProducts(recomputeClient, [result?.productId]);
+          return result;
+        },
+        async createMany({ args, query }) {
+          const result = await query(args);
+          const data = Array.isArray(args.data) ? args.data : [args.data];
+          await recomputeProducts(
+            recomputeClient,
+            data.map((row: any) => row.productId),
+          );
+          return result;
+        },
+        async updateMany({ args, query }) {
+          const result = await query(args);
+          await recomputeProducts(
+            recomputeClient,
+            productIdsFromWhere(args.where),
+          );
+          return result;
+        },
+        async deleteMany({ args, query }) {
+          const result = await query(args);
+          await recomputeProducts(
+            recomputeClient,
+            productIdsFromWhere(args.where),
+          );
+          return result;
+        },
+      },
+      product: {
+        async create({ args, query }) {
+          const result: any = await query(args);
+          await recomputeProducts(recomputeClient, [result?.id]);
+          return result;
+        },
+        async update({ args, query }) {
+          const result: any = await query(args);
+          const data = args.data as Record<string, unknown>;
+          if (PRODUCT_INPUT_FIELDS.some((field) => data[field] !== undefined)) {
+            await recomputeProducts(recomputeClient, [
+              result?.id ?? (args.where as any)?.id,
+            ]);
+          }
+          return result;
+        },
+      },
+      attribute: {
+        async update({ args, query }) {
+          const result = await query(args);
+          const data = args.data as Record<string, unknown>;
+          const attributeId = (args.where as any)?.id;
+          if (
+            attributeId &&
+            ['name', 'computedKind', 'computedExpression'].some(
+              (field) => data[field] !== undefined,
+            )
+          ) {
+            await scheduleRecompute(`attribute:${attributeId}`, () =>
+              recomputeComputedAttributesForAttribute(
+                recomputeClient,
+                Number(attributeId),
+              ),
+            );
+          }
+          return result;
+        },
+      },
+      familyAttribute: {
+        async create({ args, query }) {
+          const result: any = await query(args);
+          if (result?.familyId) {
+            await scheduleRecompute(`family:${result.familyId}`, () =>
+              recomputeComputedAttributesForFamily(
+                recomputeClient,
+                result.familyId,
+              ),
+            );
+          }
+          return result;
+        },
+      },
+      category: {
+        async update({ args, query }) {
+          const result = await query(args);
+          const data = args.data as Record<string, unknown>;
+          const categoryId = (args.where as any)?.id;
+          if (
+            categoryId &&
+            (data.name !== undefined || data.parentCategoryId !== undefined)
+          ) {
+            await scheduleRecompute(`category:${categoryId}`, () =>
+              recomputeComputedAttributesForCategory(
+                recomputeClient,
+                Number(categoryId),
+              ),
+            );
+          }
+          return result;
+        },
+      },
+    },
+  });
+});
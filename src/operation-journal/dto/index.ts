@@ -0,0 +1 @@
+export * from './operation-journal-response.dto';
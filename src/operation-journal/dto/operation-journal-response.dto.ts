@@ -0,0 +1,27 @@
+export enum OperationType {
+  PRODUCT_BULK_DELETE = 'product_bulk_delete',
+  CATEGORY_BULK_DELETE = 'category_bulk_delete',
+  FAMILY_BULK_DELETE = 'family_bulk_delete',
+  ATTRIBUTE_BULK_DELETE = 'attribute_bulk_delete',
+}
+
+export class OperationJournalResponseDto {
+  id: string;
+  type: OperationType;
+  summary: string;
+  itemCount: number;
+  createdById: number;
+  createdAt: Date;
+  expiresAt: Date;
+  undoneAt: Date | null;
+  undoneById: number | null;
+  canUndo: boolean;
+}
+
+export class UndoOperationResponseDto {
+  id: string;
+  type: OperationType;
+  message: string;
+  restored: Record<string, number>; // Restored rows per table, e.g. { categories: 3, productLinks: 12 }
+  skipped: number; // Rows whose product, attribute, family or group was deleted since
+}
@@ -0,0 +1,4 @@
+export * from './operation-journal.controller';
+export * from './operation-journal.service';
+export * from './operation-journal.module';
+export * from './dto';
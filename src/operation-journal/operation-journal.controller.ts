@@ -0,0 +1,50 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import type { User } from '@prisma/client';
+import { OperationJournalService } from './operation-journal.service';
+import { OperationJournalResponseDto, UndoOperationResponseDto } from './dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { OwnershipGuard } from '../auth/guards/ownership.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { User as GetUser } from '../auth/decorators/user.decorator';
+import { EffectiveUserId } from '../auth/decorators/effective-user-id.decorator';
+
+@Controller('operations')
+@UseGuards(JwtAuthGuard, OwnershipGuard, PermissionsGuard)
+export class OperationJournalController {
+  constructor(
+    private readonly operationJournalService: OperationJournalService,
+  ) {}
+
+  @Get()
+  findAll(
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<OperationJournalResponseDto[]> {
+    return this.operationJournalService.findAll(effectiveUserId);
+  }
+
+  @Get(':id')
+  findOne(
+    @Param('id') id: string,
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<OperationJournalResponseDto> {
+    return this.operationJournalService.findOne(id, effectiveUserId);
+  }
+
+  @Post(':id/undo')
+  @HttpCode(HttpStatus.OK)
+  undo(
+    @Param('id') id: string,
+    @GetUser() user: User,
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<UndoOperationResponseDto> {
+    return this.operationJournalService.undo(id, effectiveUserId, user.id);
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { OperationJournalService } from './operation-journal.service';
+import { OperationJournalController } from './operation-journal.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [OperationJournalController],
+  providers: [OperationJournalService],
+  exports: [OperationJournalService],
+})
+export class OperationJournalModule {}
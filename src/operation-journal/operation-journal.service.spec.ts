@@ -0,0 +1,294 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma } from '@prisma/client';
+import { OperationJournalService } from './operation-journal.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { OperationType } from './dto';
+
+const OWNER_ID = 1;
+const STAFF_ID = 2;
+
+// A model whose bulk writes report every row as written
+const model = () => ({
+  createMany: jest.fn(({ data }) => ({ count: data.length })),
+  updateMany: jest.fn(({ where }) => ({ count: where.id?.in?.length ?? 1 })),
+  findMany: jest.fn(({ where }) =>
+    (where.id?.in ?? []).map((id: number) => ({ id })),
+  ),
+  count: jest.fn(({ where }) => where.id.in.length),
+});
+
+describe('OperationJournalService', () => {
+  let service: OperationJournalService;
+  let tx: Record<string, Record<string, jest.Mock>>;
+  let prisma: any;
+
+  const journal = (type: OperationType, snapshot: object, overrides = {}) => ({
+    id: 'op-1',
+    userId: OWNER_ID,
+    createdById: STAFF_ID,
+    type,
+    summary: 'Deleted 2 categories',
+    itemCount: 2,
+    snapshot,
+    expiresAt: new Date(Date.now() + 60_000),
+    undoneAt: null,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    tx = {};
+    for (const name of [
+      'operationJournal',
+      'product',
+      'category',
+      'productCategory',
+      'categoryAttribute',
+      'channelCategoryMapping',
+      'attribute',
+      'family',
+      'familyAttribute',
+      'productAttribute',
+      'completenessProfile',
+    ]) {
+      tx[name] = model();
+    }
+    prisma = {
+      $transaction: jest.fn((fn) => fn(tx)),
+      operationJournal: {
+        findFirst: jest.fn(),
+        deleteMany: jest.fn(),
+        create: jest.fn(({ data }) => ({ id: 'op-2', ...data })),
+      },
+    };
+    service = new OperationJournalService(
+      prisma as PrismaService,
+      new ConfigService({ OPERATION_UNDO_WINDOW_MINUTES: '5' }),
+    );
+  });
+
+  describe('record', () => {
+    it('should keep entries for the configured undo window', async () => {
+      const id = await service.record(
+        OWNER_ID,
+        STAFF_ID,
+        OperationType.PRODUCT_BULK_DELETE,
+        'Deleted 3 products',
+        3,
+        { productIds: [1, 2, 3] },
+      );
+
+      expect(id).toBe('op-2');
+      const { expiresAt } = prisma.operationJournal.create.mock.calls[0][0]
+        .data as { expiresAt: Date };
+      expect(expiresAt.getTime() - Date.now()).toBeGreaterThan(4 * 60_000);
+      expect(expiresAt.getTime() - Date.now()).toBeLessThanOrEqual(5 * 60_000);
+    });
+
+    it('should not fail the operation when the entry cannot be saved', async () => {
+      prisma.operationJournal.create.mockRejectedValue(new Error('Timeout'));
+
+      await expect(
+        service.record(
+          OWNER_ID,
+          OWNER_ID,
+          OperationType.PRODUCT_BULK_DELETE,
+          'Deleted 1 product',
+          1,
+          { productIds: [1] },
+        ),
+      ).resolves.toBeNull();
+    });
+  });
+
+  describe('undo', () => {
+    it.each([
+      [null, NotFoundException],
+      [{ createdById: 3 }, ForbiddenException],
+      [{ undoneAt: new Date() }, ConflictException],
+      [{ expiresAt: new Date(Date.now() - 1) }, BadRequestException],
+    ])(
+      'should refuse entries that cannot be undone (%o)',
+      async (overrides, exception) => {
+        prisma.operationJournal.findFirst.mockResolvedValue(
+          overrides &&
+            journal(
+              OperationType.PRODUCT_BULK_DELETE,
+              { productIds: [1] },
+              overrides,
+            ),
+        );
+
+        await expect(service.undo('op-1', OWNER_ID, STAFF_ID)).rejects.toThrow(
+          exception,
+        );
+        expect(prisma.$transaction).not.toHaveBeenCalled();
+      },
+    );
+
+    it('should restore soft-deleted products and count those purged since', async () => {
+      prisma.operationJournal.findFirst.mockResolvedValue(
+        journal(OperationType.PRODUCT_BULK_DELETE, { productIds: [4, 5, 6] }),
+      );
+      tx.product.updateMany.mockResolvedValue({ count: 2 });
+
+      const result = await service.undo('op-1', OWNER_ID, STAFF_ID);
+
+      expect(result).toMatchObject({
+        type: OperationType.PRODUCT_BULK_DELETE,
+        message: 'Undid: Deleted 2 categories',
+        restored: { products: 2 },
+        skipped: 1,
+      });
+      expect(tx.operationJournal.updateMany).toHaveBeenCalledWith({
+        where: { id: 'op-1', undoneAt: null },
+        data: { undoneAt: expect.any(Date), undoneById: STAFF_ID },
+      });
+    });
+
+    it('should lose the race against a concurrent undo', async () => {
+      prisma.operationJournal.findFirst.mockResolvedValue(
+        journal(OperationType.PRODUCT_BULK_DELETE, { productIds: [4] }),
+      );
+      tx.operationJournal.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.undo('op-1', OWNER_ID, OWNER_ID)).rejects.toThrow(
+        'Operation has already been undone',
+      );
+      expect(tx.product.updateMany).not.toHaveBeenCalled();
+    });
+
+    describe('of category deletes', () => {
+      const category = (id: number, parentCategoryId: number | null) =>
+        ({
+          id,
+          name: `Category ${id}`,
+          parentCategoryId,
+          userId: OWNER_ID,
+        }) as any;
+      const snapshot = {
+        // Child before parent, as the snapshot may list them
+        categories: [category(21, 20), category(20, 5)],
+        productLinks: [
+          { productId: 7, categoryId: 20 },
+          { productId: 8, categoryId: 21 },
+        ],
+        productCategories: [
+          { productId: 7, categoryId: 20, isPrimary: true },
+          { productId: 7, categoryId: 21, isPrimary: false },
+        ],
+        categoryAttributes: [
+          { categoryId: 20, attributeId: 30 },
+          { categoryId: 20, attributeId: 31 },
+        ],
+        channelMappings: [],
+      };
+
+      beforeEach(() => {
+        prisma.operationJournal.findFirst.mockResolvedValue(
+          journal(OperationType.CATEGORY_BULK_DELETE, snapshot),
+        );
+      });
+
+      it('should re-create the tree, product links and attributes that still exist', async () => {
+        // Product 7 was moved to category 21 meanwhile; attribute 31 is gone
+        tx.product.findMany.mockResolvedValue([{ id: 7, categoryId: 21 }]);
+        tx.attribute.findMany.mockResolvedValue([{ id: 30 }]);
+
+        const result = await service.undo('op-1', OWNER_ID, OWNER_ID);
+
+        expect(
+          tx.category.createMany.mock.calls[0][0].data.map((c) => c.id),
+        ).toEqual([20, 21]);
+        expect(tx.product.updateMany).toHaveBeenCalledWith({
+          where: { id: { in: [7] }, userId: OWNER_ID, categoryId: null },
+          data: { categoryId: 20 },
+        });
+        expect(tx.productCategory.createMany).toHaveBeenCalledWith({
+          data: [
+            { productId: 7, categoryId: 20, isPrimary: false },
+            { productId: 7, categoryId: 21, isPrimary: true },
+          ],
+          skipDuplicates: true,
+        });
+        expect(result.restored).toMatchObject({
+          categories: 2,
+          productLinks: 2,
+          categoryAttributes: 1,
+        });
+        expect(result.skipped).toBe(1);
+      });
+
+      it('should refuse to restore under a parent deleted since', async () => {
+        tx.category.count.mockResolvedValue(0);
+
+        await expect(service.undo('op-1', OWNER_ID, OWNER_ID)).rejects.toThrow(
+          'Cannot undo: the parent category of the deleted categories no longer exists',
+        );
+        expect(tx.category.createMany).not.toHaveBeenCalled();
+      });
+
+      it('should report names taken since the operation as a conflict', async () => {
+        tx.category.createMany.mockRejectedValue(
+          new Prisma.PrismaClientKnownRequestError('Unique constraint', {
+            code: 'P2002',
+            clientVersion: 'test',
+          }),
+        );
+
+        await expect(service.undo('op-1', OWNER_ID, OWNER_ID)).rejects.toThrow(
+          'Cannot undo: records with the same names were created after the operation',
+        );
+      });
+    });
+
+    it('should detach restored families from parents deleted since', async () => {
+      prisma.operationJournal.findFirst.mockResolvedValue(
+        journal(OperationType.FAMILY_BULK_DELETE, {
+          families: [{ id: 40, name: 'Shirts', parentFamilyId: 39 }],
+          familyAttributes: [
+            {
+              id: 400,
+              familyId: 40,
+              attributeId: 30,
+              inheritedFromFamilyId: 39,
+              overrides: ['isRequired'],
+            },
+          ],
+          productAttributes: [
+            { productId: 7, attributeId: 30, familyAttributeId: 400 },
+          ],
+          productLinks: [{ productId: 7, familyId: 40 }],
+          completenessProfiles: [],
+        }),
+      );
+      tx.family.findMany.mockResolvedValue([]);
+
+      const result = await service.undo('op-1', OWNER_ID, OWNER_ID);
+
+      expect(tx.family.createMany).toHaveBeenCalledWith({
+        data: [{ id: 40, name: 'Shirts', parentFamilyId: null }],
+      });
+      expect(tx.familyAttribute.createMany).toHaveBeenCalledWith({
+        data: [
+          {
+            id: 400,
+            familyId: 40,
+            attributeId: 30,
+            inheritedFromFamilyId: null,
+            overrides: [],
+          },
+        ],
+      });
+      expect(result).toMatchObject({
+        restored: { families: 1, productAttributes: 1, productLinks: 1 },
+        skipped: 0,
+      });
+    });
+  });
+});
@@ -0,0 +1,852 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma } from '@prisma/client';
+import type {
+  Attribute,
+  AttributeGroupAttribute,
+  AttributeOption,
+  Category,
+  CategoryAttribute,
+  ChannelCategoryMapping,
+  CompletenessProfile,
+  Family,
+  FamilyAttribute,
+  OperationJournal,
+  ProductAttribute,
+  ProductAttributeChannelValue,
+  ProductAttributeLocalization,
+  ProductCategory,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { withRecomputeAfterCommit } from '../utils/computedAttributeUtils';
+import {
+  OperationType,
+  OperationJournalResponseDto,
+  UndoOperationResponseDto,
+} from './dto';
+
+export interface ProductBulkDeleteSnapshot {
+  productIds: number[]; // Soft-deleted by the operation
+}
+
+export interface CategoryBulkDeleteSnapshot {
+  categories: Category[]; // Including every subcategory
+  productLinks: { productId: number; categoryId: number }[];
+  productCategories: ProductCategory[];
+  categoryAttributes: CategoryAttribute[];
+  channelMappings: ChannelCategoryMapping[];
+}
+
+export interface FamilyBulkDeleteSnapshot {
+  families: Family[];
+  familyAttributes: FamilyAttribute[];
+  productAttributes: ProductAttribute[]; // Values linked to the family attributes
+  productLinks: { productId: number; familyId: number }[];
+  completenessProfiles: CompletenessProfile[];
+}
+
+export interface AttributeBulkDeleteSnapshot {
+  attributes: Attribute[];
+  options: AttributeOption[];
+  attributeGroupLinks: AttributeGroupAttribute[];
+  categoryAttributes: CategoryAttribute[];
+  familyAttributes: FamilyAttribute[];
+  productAttributes: ProductAttribute[];
+  localizations: ProductAttributeLocalization[];
+  channelValues: ProductAttributeChannelValue[];
+}
+
+type OperationSnapshot =
+  | ProductBulkDeleteSnapshot
+  | CategoryBulkDeleteSnapshot
+  | FamilyBulkDeleteSnapshot
+  | AttributeBulkDeleteSnapshot;
+
+interface RestoreResult {
+  restored: Record<string, number>;
+  skipped: number;
+}
+
+const DEFAULT_UNDO_WINDOW_MINUTES = 30;
+
+/**
+ * Journal of bulk mutations. Each bulk delete stores a snapshot of every row
+ * it removes, including the rows removed by database cascades, so it can be
+ * undone until the undo window (OPERATION_UNDO_WINDOW_MINUTES) has passed.
+ * Undo re-creates the rows with their original IDs.
+ */
+@Injectable()
+export class OperationJournalService {
+  private readonly logger = new Logger(OperationJournalService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  // ============================================================
+  // SNAPSHOTS
+  // ============================================================
+
+  async snapshotCategories(
+    categoryIds: number[],
+    userId: number,
+  ): Promise<CategoryBulkDeleteSnapshot> {
+    const categories = await this.prisma.category.findMany({
+      where: { id: { in: categoryIds }, userId },
+    });
+    const ownedIds = { in: categories.map((category) => category.id) };
+
+    const [products, productCategories, categoryAttributes, channelMappings] =
+      await Promise.all([
+        this.prisma.product.findMany({
+          where: { categoryId: ownedIds, userId },
+          select: { id: true, categoryId: true },
+        }),
+        this.prisma.productCategory.findMany({
+          where: { categoryId: ownedIds },
+        }),
+        this.prisma.categoryAttribute.findMany({
+          where: { categoryId: ownedIds },
+        }),
+        this.prisma.channelCategoryMapping.findMany({
+          where: { categoryId: ownedIds, userId },
+        }),
+      ]);
+
+    return {
+      categories,
+      productLinks: products.map((product) => ({
+        productId: product.id,
+        categoryId: product.categoryId!,
+      })),
+      productCategories,
+      categoryAttributes,
+      channelMappings,
+    };
+  }
+
+  async snapshotFamilies(
+    familyIds: number[],
+    userId: number,
+  ): Promise<FamilyBulkDeleteSnapshot> {
+    const families = await this.prisma.family.findMany({
+      where: { id: { in: familyIds }, userId },
+    });
+    const ownedIds = families.map((family) => family.id);
+
+    const [familyAttributes, products, completenessProfiles] =
+      await Promise.all([
+        this.prisma.familyAttribute.findMany({
+          where: { familyId: { in: ownedIds } },
+        }),
+        this.prisma.product.findMany({
+          where: { familyId: { in: ownedIds }, userId },
+          select: { id: true, familyId: true },
+        }),
+        this.prisma.completenessProfile.findMany({
+          where: { familyId: { in: ownedIds }, userId },
+        }),
+      ]);
+
+    const productAttributes = await this.prisma.productAttribute.findMany({
+      where: {
+        familyAttributeId: { in: familyAttributes.map((fa) => fa.id) },
+      },
+    });
+
+    return {
+      families,
+      familyAttributes,
+      productAttributes,
+      productLinks: products.map((product) => ({
+        productId: product.id,
+        familyId: product.familyId!,
+      })),
+      completenessProfiles,
+    };
+  }
+
+  async snapshotAttributes(
+    attributeIds: number[],
+    userId: number,
+  ): Promise<AttributeBulkDeleteSnapshot> {
+    const attributes = await this.prisma.attribute.findMany({
+      where: { id: { in: attributeIds }, userId },
+    });
+    const ownedIds = { in: attributes.map((attribute) => attribute.id) };
+
+    const [
+      options,
+      attributeGroupLinks,
+      categoryAttributes,
+      familyAttributes,
+      productAttributes,
+      localizations,
+      channelValues,
+    ] = await Promise.all([
+      this.prisma.attributeOption.findMany({
+        where: { attributeId: ownedIds },
+      }),
+      this.prisma.attributeGroupAttribute.findMany({
+        where: { attributeId: ownedIds },
+      }),
+      this.prisma.categoryAttribute.findMany({
+        where: { attributeId: ownedIds },
+      }),
+      this.prisma.familyAttribute.findMany({
+        where: { attributeId: ownedIds },
+      }),
+      this.prisma.productAttribute.findMany({
+        where: { attributeId: ownedIds },
+      }),
+      this.prisma.productAttributeLocalization.findMany({
+        where: { attributeId: ownedIds },
+      }),
+      this.prisma.productAttributeChannelValue.findMany({
+        where: { attributeId: ownedIds },
+      }),
+    ]);
+
+    return {
+      attributes,
+      options,
+      attributeGroupLinks,
+      categoryAttributes,
+      familyAttributes,
+      productAttributes,
+      localizations,
+      channelValues,
+    };
+  }
+
+  // ============================================================
+  // JOURNAL
+  // ============================================================
+
+  /**
+   * Record a completed operation. Journaling never fails the operation
+   * itself; null is returned when the entry could not be saved.
+   */
+  async record(
+    userId: number,
+    createdById: number,
+    type: OperationType,
+    summary: string,
+    itemCount: number,
+    snapshot: OperationSnapshot,
+  ): Promise<string | null> {
+    try {
+      const now = new Date();
+
+      // Entries are only kept while they can be undone
+      await this.prisma.operationJournal.deleteMany({
+        where: { userId, expiresAt: { lt: now } },
+      });
+
+      const entry = await this.prisma.operationJournal.create({
+        data: {
+          userId,
+          createdById,
+          type,
+          summary,
+          itemCount,
+          snapshot: snapshot as unknown as Prisma.InputJsonValue,
+          expiresAt: new Date(now.getTime() + this.getUndoWindowMs()),
+        },
+      });
+
+      this.logger.log(
+        `Journaled operation ${entry.id} (${type}) for user ${userId}`,
+      );
+      return entry.id;
+    } catch (error) {
+      this.logger.error(
+        `Failed to journal ${type} for user ${userId}: ${error.message}`,
+        error.stack,
+      );
+      return null;
+    }
+  }
+
+  async findAll(userId: number): Promise<OperationJournalResponseDto[]> {
+    const entries = await this.prisma.operationJournal.findMany({
+      where: { userId, expiresAt: { gte: new Date() } },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return entries.map((entry) => this.transformEntry(entry));
+  }
+
+  async findOne(
+    id: string,
+    userId: number,
+  ): Promise<OperationJournalResponseDto> {
+    const entry = await this.prisma.operationJournal.findFirst({
+      where: { id, userId },
+    });
+    if (!entry) {
+      throw new NotFoundException(`Operation with ID ${id} not found`);
+    }
+
+    return this.transformEntry(entry);
+  }
+
+  /**
+   * Revert an operation. Only the user who ran it or the owner can undo it.
+   */
+  async undo(
+    id: string,
+    userId: number,
+    actingUserId: number,
+  ): Promise<UndoOperationResponseDto> {
+    const entry = await this.prisma.operationJournal.findFirst({
+      where: { id, userId },
+    });
+    if (!entry) {
+      throw new NotFoundException(`Operation with ID ${id} not found`);
+    }
+    if (entry.createdById !== actingUserId && userId !== actingUserId) {
+      throw new ForbiddenException(
+        'Only the user who ran the operation or the owner can undo it',
+      );
+    }
+    if (entry.undoneAt) {
+      throw new ConflictException('Operation has already been undone');
+    }
+    if (entry.expiresAt < new Date()) {
+      throw new BadRequestException(
+        'The undo window for this operation has passed',
+      );
+    }
+
+    const type = entry.type as OperationType;
+
+    try {
+      const result = await withRecomputeAfterCommit(() =>
+        this.prisma.$transaction(
+          async (tx) => {
+            // Claim the entry first so concurrent undo requests cannot both restore
+            const claimed = await tx.operationJournal.updateMany({
+              where: { id, undoneAt: null },
+              data: { undoneAt: new Date(), undoneById: actingUserId },
+            });
+            if (claimed.count === 0) {
+              throw new ConflictException('Operation has already been undone');
+            }
+
+            switch (type) {
+              case OperationType.PRODUCT_BULK_DELETE:
+                return this.restoreProducts(
+                  tx,
+                  entry.snapshot as unknown as ProductBulkDeleteSnapshot,
+                  userId,
+                );
+              case OperationType.CATEGORY_BULK_DELETE:
+                return this.restoreCategories(
+                  tx,
+                  entry.snapshot as unknown as CategoryBulkDeleteSnapshot,
+                  userId,
+                );
+              case OperationType.FAMILY_BULK_DELETE:
+                return this.restoreFamilies(
+                  tx,
+                  entry.snapshot as unknown as FamilyBulkDeleteSnapshot,
+                  userId,
+                );
+              case OperationType.ATTRIBUTE_BULK_DELETE:
+                return this.restoreAttributes(
+                  tx,
+                  entry.snapshot as unknown as AttributeBulkDeleteSnapshot,
+                  userId,
+                );
+              default:
+                throw new BadRequestException(
+                  `Operations of type ${entry.type} cannot be undone`,
+                );
+            }
+          },
+          { timeout: 60000 },
+        ),
+      );
+
+      this.logger.log(
+        `Undid operation ${id} (${type}) for user ${userId}: ${JSON.stringify(result.restored)}`,
+      );
+
+      return {
+        id,
+        type,
+        message: `Undid: ${entry.summary}`,
+        restored: result.restored,
+        skipped: result.skipped,
+      };
+    } catch (error) {
+      if (error.code === 'P2002') {
+        throw new ConflictException(
+          'Cannot undo: records with the same names were created after the operation',
+        );
+      }
+      if (error.status) {
+        throw error;
+      }
+      this.logger.error(
+        `Failed to undo operation ${id}: ${error.message}`,
+        error.stack,
+      );
+      throw new BadRequestException('Failed to undo operation');
+    }
+  }
+
+  // ============================================================
+  // RESTORE
+  // ============================================================
+
+  private async restoreProducts(
+    tx: Prisma.TransactionClient,
+    snapshot: ProductBulkDeleteSnapshot,
+    userId: number,
+  ): Promise<RestoreResult> {
+    const result = await tx.product.updateMany({
+      where: { id: { in: snapshot.productIds }, userId, isDeleted: true },
+      data: { isDeleted: false, deletedAt: null },
+    });
+
+    return {
+      restored: { products: result.count },
+      // Permanently deleted from the trash in the meantime
+      skipped: snapshot.productIds.length - result.count,
+    };
+  }
+
+  private async restoreCategories(
+    tx: Prisma.TransactionClient,
+    snapshot: CategoryBulkDeleteSnapshot,
+    userId: number,
+  ): Promise<RestoreResult> {
+    const restoredIds = new Set(snapshot.categories.map((c) => c.id));
+
+    // Top-level categories of the operation must go back under their parent
+    const outsideParentIds = [
+      ...new Set(
+        snapshot.categories
+          .map((c) => c.parentCategoryId)
+          .filter((id): id is number => id !== null && !restoredIds.has(id)),
+      ),
+    ];
+    const existingParents = await tx.category.count({
+      where: { id: { in: outsideParentIds }, userId },
+    });
+    if (existingParents !== outsideParentIds.length) {
+      throw new ConflictException(
+        'Cannot undo: the parent category of the deleted categories no longer exists',
+      );
+    }
+
+    const categories = await tx.category.createMany({
+      data: this.sortParentsFirst(snapshot.categories),
+    });
+
+    const productLinks = await this.relinkProducts(
+      tx,
+      snapshot.productLinks.map((link) => ({
+        productId: link.productId,
+        targetId: link.categoryId,
+      })),
+      (targetId, productIds) =>
+        tx.product.updateMany({
+          where: { id: { in: productIds }, userId, categoryId: null },
+          data: { categoryId: targetId },
+        }),
+    );
+
+    // A category stays primary only where the product got it back as primary
+    const products = await tx.product.findMany({
+      where: {
+        id: { in: snapshot.productCategories.map((row) => row.productId) },
+        userId,
+      },
+      select: { id: true, categoryId: true },
+    });
+    const primaryCategoryIds = new Map(
+      products.map((product) => [product.id, product.categoryId]),
+    );
+    const productCategories = await tx.productCategory.createMany({
+      data: snapshot.productCategories
+        .filter((row) => primaryCategoryIds.has(row.productId))
+        .map((row) => ({
+          ...row,
+          isPrimary: primaryCategoryIds.get(row.productId) === row.categoryId,
+        })),
+      skipDuplicates: true,
+    });
+
+    const existingAttributeIds = await this.findExistingIds(
+      tx,
+      'attribute',
+      snapshot.categoryAttributes.map((row) => row.attributeId),
+      userId,
+    );
+    const categoryAttributes = await tx.categoryAttribute.createMany({
+      data: snapshot.categoryAttributes.filter((row) =>
+        existingAttributeIds.has(row.attributeId),
+      ),
+    });
+    const channelMappings = await tx.channelCategoryMapping.createMany({
+      data: snapshot.channelMappings,
+      skipDuplicates: true,
+    });
+
+    return {
+      restored: {
+        categories: categories.count,
+        productLinks,
+        productCategories: productCategories.count,
+        categoryAttributes: categoryAttributes.count,
+        channelMappings: channelMappings.count,
+      },
+      skipped:
+        snapshot.productLinks.length -
+        productLinks +
+        snapshot.productCategories.length -
+        productCategories.count +
+        snapshot.categoryAttributes.length -
+        categoryAttributes.count +
+        snapshot.channelMappings.length -
+        channelMappings.count,
+    };
+  }
+
+  private async restoreFamilies(
+    tx: Prisma.TransactionClient,
+    snapshot: FamilyBulkDeleteSnapshot,
+    userId: number,
+  ): Promise<RestoreResult> {
+    // Families whose parent was deleted since come back on their own, keeping
+    // the attributes they inherited as their own
+    const restoredFamilyIds = new Set(
+      snapshot.families.map((family) => family.id),
+    );
+    const existingFamilyIds = await this.findExistingIds(
+      tx,
+      'family',
+      [
+        ...snapshot.families.map((family) => family.parentFamilyId),
+        ...snapshot.familyAttributes.map((fa) => fa.inheritedFromFamilyId),
+      ].filter((id): id is number => id != null),
+      userId,
+    );
+    const familyExists = (id: number | null | undefined) =>
+      id == null || restoredFamilyIds.has(id) || existingFamilyIds.has(id);
+    const families = await tx.family.createMany({
+      data: snapshot.families.map((family) =>
+        familyExists(family.parentFamilyId)
+          ? family
+          : { ...family, parentFamilyId: null },
+      ),
+    });
+
+    const existingAttributeIds = await this.findExistingIds(
+      tx,
+      'attribute',
+      snapshot.familyAttributes.map((fa) => fa.attributeId),
+      userId,
+    );
+    const familyAttributes = snapshot.familyAttributes
+      .filter((fa) => existingAttributeIds.has(fa.attributeId))
+      .map((fa) =>
+        familyExists(fa.inheritedFromFamilyId)
+          ? fa
+          : { ...fa, inheritedFromFamilyId: null, overrides: [] },
+      );
+    await tx.familyAttribute.createMany({ data: familyAttributes });
+
+    const restoredFamilyAttributeIds = new Set(
+      familyAttributes.map((fa) => fa.id),
+    );
+    const existingProductIds = await this.findExistingIds(
+      tx,
+      'product',
+      snapshot.productAttributes.map((pa) => pa.productId),
+      userId,
+    );
+    const productAttributes = snapshot.productAttributes.filter(
+      (pa) =>
+        existingProductIds.has(pa.productId) &&
+        pa.familyAttributeId !== null &&
+        restoredFamilyAttributeIds.has(pa.familyAttributeId),
+    );
+    // Values set again since the operation are kept
+    const values = await tx.productAttribute.createMany({
+      data: productAttributes,
+      skipDuplicates: true,
+    });
+
+    const productLinks = await this.relinkProducts(
+      tx,
+      snapshot.productLinks.map((link) => ({
+        productId: link.productId,
+        targetId: link.familyId,
+      })),
+      (targetId, productIds) =>
+        tx.product.updateMany({
+          where: { id: { in: productIds }, userId, familyId: null },
+          data: { familyId: targetId },
+        }),
+    );
+
+    const profiles = await tx.completenessProfile.createMany({
+      data: snapshot.completenessProfiles,
+    });
+
+    return {
+      restored: {
+        families: families.count,
+        familyAttributes: familyAttributes.length,
+        productAttributes: values.count,
+        productLinks,
+        completenessProfiles: profiles.count,
+      },
+      skipped:
+        snapshot.familyAttributes.length -
+        familyAttributes.length +
+        snapshot.productAttributes.length -
+        values.count +
+        snapshot.productLinks.length -
+        productLinks,
+    };
+  }
+
+  private async restoreAttributes(
+    tx: Prisma.TransactionClient,
+    snapshot: AttributeBulkDeleteSnapshot,
+    userId: number,
+  ): Promise<RestoreResult> {
+    const attributes = await tx.attribute.createMany({
+      data: snapshot.attributes,
+    });
+    const options = await tx.attributeOption.createMany({
+      data: snapshot.options.map((option) => ({
+        ...option,
+        labels: option.labels ?? Prisma.DbNull,
+      })),
+    });
+
+    const existingGroupIds = await this.findExistingIds(
+      tx,
+      'attributeGroup',
+      snapshot.attributeGroupLinks.map((link) => link.attributeGroupId),
+      userId,
+    );
+    const groupLinks = await tx.attributeGroupAttribute.createMany({
+      data: snapshot.attributeGroupLinks.filter((link) =>
+        existingGroupIds.has(link.attributeGroupId),
+      ),
+    });
+
+    const existingCategoryIds = await this.findExistingIds(
+      tx,
+      'category',
+      snapshot.categoryAttributes.map((row) => row.categoryId),
+      userId,
+    );
+    const categoryAttributes = await tx.categoryAttribute.createMany({
+      data: snapshot.categoryAttributes.filter((row) =>
+        existingCategoryIds.has(row.categoryId),
+      ),
+    });
+
+    const existingFamilyIds = await this.findExistingIds(
+      tx,
+      'family',
+      snapshot.familyAttributes.map((fa) => fa.familyId),
+      userId,
+    );
+    const familyAttributes = snapshot.familyAttributes.filter((fa) =>
+      existingFamilyIds.has(fa.familyId),
+    );
+    await tx.familyAttribute.createMany({ data: familyAttributes });
+
+    const restoredFamilyAttributeIds = new Set(
+      familyAttributes.map((fa) => fa.id),
+    );
+    const existingProductIds = await this.findExistingIds(
+      tx,
+      'product',
+      [
+        ...snapshot.productAttributes,
+        ...snapshot.localizations,
+        ...snapshot.channelValues,
+      ].map((row) => row.productId),
+      userId,
+    );
+
+    const values = await tx.productAttribute.createMany({
+      data: snapshot.productAttributes.filter(
+        (pa) =>
+          existingProductIds.has(pa.productId) &&
+          (pa.familyAttributeId === null ||
+            restoredFamilyAttributeIds.has(pa.familyAttributeId)),
+      ),
+      skipDuplicates: true,
+    });
+    const localizations = await tx.productAttributeLocalization.createMany({
+      data: snapshot.localizations.filter((row) =>
+        existingProductIds.has(row.productId),
+      ),
+      skipDuplicates: true,
+    });
+    const channelValues = await tx.productAttributeChannelValue.createMany({
+      data: snapshot.channelValues.filter((row) =>
+        existingProductIds.has(row.productId),
+      ),
+      skipDuplicates: true,
+    });
+
+    const restored = {
+      attributes: attributes.count,
+      options: options.count,
+      attributeGroupLinks: groupLinks.count,
+      categoryAttributes: categoryAttributes.count,
+      familyAttributes: familyAttributes.length,
+      productAttributes: values.count,
+      localizations: localizations.count,
+      channelValues: channelValues.count,
+    };
+    const total =
+      snapshot.attributeGroupLinks.length +
+      snapshot.categoryAttributes.length +
+      snapshot.familyAttributes.length +
+      snapshot.productAttributes.length +
+      snapshot.localizations.length +
+      snapshot.channelValues.length;
+
+    return {
+      restored,
+      skipped:
+        total -
+        (restored.attributeGroupLinks +
+          restored.categoryAttributes +
+          restored.familyAttributes +
+          restored.productAttributes +
+          restored.localizations +
+          restored.channelValues),
+    };
+  }
+
+  // ============================================================
+  // HELPERS
+  // ============================================================
+
+  /**
+   * Point products back at the restored record, grouped per record. Products
+   * assigned elsewhere since the operation are left alone.
+   */
+  private async relinkProducts(
+    tx: Prisma.TransactionClient,
+    links: { productId: number; targetId: number }[],
+    update: (
+      targetId: number,
+      productIds: number[],
+    ) => Promise<{ count: number }>,
+  ): Promise<number> {
+    const productIdsByTarget = new Map<number, number[]>();
+    for (const link of links) {
+      const productIds = productIdsByTarget.get(link.targetId) ?? [];
+      productIds.push(link.productId);
+      productIdsByTarget.set(link.targetId, productIds);
+    }
+
+    let relinked = 0;
+    for (const [targetId, productIds] of productIdsByTarget) {
+      const result = await update(targetId, productIds);
+      relinked += result.count;
+    }
+    return relinked;
+  }
+
+  /**
+   * IDs among the given ones that still exist for the user. Rows pointing at
+   * records deleted since the operation cannot be restored.
+   */
+  private async findExistingIds(
+    tx: Prisma.TransactionClient,
+    model: 'product' | 'attribute' | 'attributeGroup' | 'family' | 'category',
+    ids: number[],
+    userId: number,
+  ): Promise<Set<number>> {
+    if (ids.length === 0) return new Set();
+
+    const args = {
+      where: { id: { in: [...new Set(ids)] }, userId },
+      select: { id: true },
+    };
+    let rows: { id: number }[];
+    switch (model) {
+      case 'product':
+        rows = await tx.product.findMany(args);
+        break;
+      case 'attribute':
+        rows = await tx.attribute.findMany(args);
+        break;
+      case 'attributeGroup':
+        rows = await tx.attributeGroup.findMany(args);
+        break;
+      case 'family':
+        rows = await tx.family.findMany(args);
+        break;
+      case 'category':
+        rows = await tx.category.findMany(args);
+        break;
+    }
+    return new Set(rows.map((row) => row.id));
+  }
+
+  private sortParentsFirst(categories: Category[]): Category[] {
+    const byId = new Map(categories.map((c) => [c.id, c]));
+    const depth = (category: Category): number => {
+      let level = 0;
+      let parentId = category.parentCategoryId;
+      while (parentId !== null && byId.has(parentId)) {
+        level++;
+        parentId = byId.get(parentId)!.parentCategoryId;
+      }
+      return level;
+    };
+
+    return [...categories].sort((a, b) => depth(a) - depth(b));
+  }
+
+  private getUndoWindowMs(): number {
+    const minutes = Number(
+      this.configService.get<string>('OPERATION_UNDO_WINDOW_MINUTES'),
+    );
+    return (
+      (Number.isFinite(minutes) && minutes > 0
+        ? minutes
+        : DEFAULT_UNDO_WINDOW_MINUTES) * 60_000
+    );
+  }
+
+  private transformEntry(entry: OperationJournal): OperationJournalResponseDto {
+    return {
+      id: entry.id,
+      type: entry.type as OperationType,
+      summary: entry.summary,
+      itemCount: entry.itemCount,
+      createdById: entry.createdById,
+      createdAt: entry.createdAt,
+      expiresAt: entry.expiresAt,
+      undoneAt: entry.undoneAt,
+      undoneById: entry.undoneById,
+      canUndo: !entry.undoneAt && entry.expiresAt >= new Date(),
+    };
+  }
+}
@@ -0,0 +1,33 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  Length,
+  Matches,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+
+export class CreatePriceListDto {
+  @IsString()
+  @IsNotEmpty({ message: 'Price list name is required' })
+  @Length(1, 100, {
+    message: 'Price list name must be between 1 and 100 characters',
+  })
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim() : value))
+  name: string;
+
+  // ISO 4217 currency code, e.g. 'AUD'
+  @IsString()
+  @Matches(/^[A-Z]{3}$/, {
+    message: 'currency must be a three-letter ISO 4217 code',
+  })
+  @Transform(({ value }) =>
+    typeof value === 'string' ? value.trim().toUpperCase() : value,
+  )
+  currency: string;
+
+  @IsOptional()
+  @IsString()
+  @Length(0, 500)
+  description?: string;
+}
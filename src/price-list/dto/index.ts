@@ -0,0 +1,4 @@
+export * from './create-price-list.dto';
+export * from './update-price-list.dto';
+export * from './product-price.dto';
+export * from './price-list-response.dto';
@@ -0,0 +1,47 @@
+import type { PriceTier } from '../../utils/price-list.helper';
+
+export class PriceListResponseDto {
+  id: number;
+  name: string;
+  currency: string;
+  description: string | null;
+  userId: number;
+  productCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export class ProductPriceTierResponseDto {
+  minQuantity: number;
+  price: number;
+  salePrice: number | null;
+  saleStartsAt: Date | null;
+  saleEndsAt: Date | null;
+  onSale: boolean;
+}
+
+export class ProductPricesResponseDto {
+  priceListId: number;
+  priceListName: string;
+  currency: string;
+  productId: number;
+  tiers: ProductPriceTierResponseDto[];
+  currentPrice: number | null; // Base tier price now, sale included
+}
+
+export class PriceQuoteResponseDto {
+  priceListId: number;
+  currency: string;
+  productId: number;
+  quantity: number;
+  unitPrice: number;
+  total: number;
+  tiers: PriceTier[];
+}
+
+export class PriceListAssignmentDto {
+  channel: string;
+  connectionId: number | null; // null for Amazon
+  connectionName: string;
+  priceListId: number | null;
+}
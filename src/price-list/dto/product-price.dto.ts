@@ -0,0 +1,72 @@
+import {
+  IsArray,
+  IsDateString,
+  IsIn,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  Min,
+  ArrayMinSize,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { IntegrationType } from '../../integration/base/integration-type.enum';
+
+export const PRICE_LIST_CHANNELS = [
+  IntegrationType.WOOCOMMERCE,
+  IntegrationType.MYDEAL,
+  IntegrationType.AMAZON,
+] as const;
+
+export class ProductPriceTierDto {
+  // Tier applies from this quantity; 1 is the base price
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  minQuantity?: number;
+
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  price: number;
+
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  salePrice?: number | null;
+
+  // Leave empty to start the sale immediately
+  @IsOptional()
+  @IsDateString()
+  saleStartsAt?: string | null;
+
+  // Leave empty for a sale without end
+  @IsOptional()
+  @IsDateString()
+  saleEndsAt?: string | null;
+}
+
+export class SetProductPricesDto {
+  // Replaces every tier of the product in the price list
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => ProductPriceTierDto)
+  tiers: ProductPriceTierDto[];
+}
+
+export class AssignPriceListDto {
+  @IsIn(PRICE_LIST_CHANNELS, {
+    message: `channel must be one of: ${PRICE_LIST_CHANNELS.join(', ')}`,
+  })
+  channel: string;
+
+  // WooCommerce or MyDeal connection id; not used for Amazon
+  @IsOptional()
+  @IsInt()
+  connectionId?: number;
+
+  // null removes the assignment, so exports use price attributes again
+  @IsOptional()
+  @IsInt()
+  priceListId?: number | null;
+}
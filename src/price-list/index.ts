@@ -0,0 +1,4 @@
+export * from './price-list.controller';
+export * from './price-list.service';
+export * from './price-list.module';
+export * from './dto';
@@ -0,0 +1,166 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  ParseIntPipe,
+  UseGuards,
+  Query,
+} from '@nestjs/common';
+import { PriceListService } from './price-list.service';
+import {
+  CreatePriceListDto,
+  UpdatePriceListDto,
+  SetProductPricesDto,
+  AssignPriceListDto,
+  PriceListResponseDto,
+  ProductPricesResponseDto,
+  PriceQuoteResponseDto,
+  PriceListAssignmentDto,
+} from './dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { OwnershipGuard } from '../auth/guards/ownership.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { RequirePermissions } from '../auth/decorators/permissions.decorator';
+import { EffectiveUserId } from '../auth/decorators/effective-user-id.decorator';
+
+@Controller('price-lists')
+@UseGuards(JwtAuthGuard, OwnershipGuard, PermissionsGuard)
+export class PriceListController {
+  constructor(private readonly priceListService: PriceListService) {}
+
+  @Post()
+  @RequirePermissions({ resource: 'products', action: 'create' })
+  create(
+    @Body() createDto: CreatePriceListDto,
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<PriceListResponseDto> {
+    return this.priceListService.create(createDto, effectiveUserId);
+  }
+
+  @Get()
+  @RequirePermissions({ resource: 'products', action: 'read' })
+  findAll(
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<PriceListResponseDto[]> {
+    return this.priceListService.findAll(effectiveUserId);
+  }
+
+  @Get('assignments')
+  @RequirePermissions({ resource: 'integration', action: 'read' })
+  getAssignments(
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<PriceListAssignmentDto[]> {
+    return this.priceListService.getAssignments(effectiveUserId);
+  }
+
+  @Put('assignments')
+  @RequirePermissions({ resource: 'integration', action: 'update' })
+  assign(
+    @Body() assignDto: AssignPriceListDto,
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<PriceListAssignmentDto> {
+    return this.priceListService.assign(assignDto, effectiveUserId);
+  }
+
+  @Get('products/:productId')
+  @RequirePermissions({ resource: 'products', action: 'read' })
+  getProductPrices(
+    @Param('productId', ParseIntPipe) productId: number,
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<ProductPricesResponseDto[]> {
+    return this.priceListService.getProductPrices(productId, effectiveUserId);
+  }
+
+  @Get(':id')
+  @RequirePermissions({ resource: 'products', action: 'read' })
+  findOne(
+    @Param('id', ParseIntPipe) id: number,
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<PriceListResponseDto> {
+    return this.priceListService.findOne(id, effectiveUserId);
+  }
+
+  @Patch(':id')
+  @RequirePermissions({ resource: 'products', action: 'update' })
+  update(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() updateDto: UpdatePriceListDto,
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<PriceListResponseDto> {
+    return this.priceListService.update(id, updateDto, effectiveUserId);
+  }
+
+  @Delete(':id')
+  @RequirePermissions({ resource: 'products', action: 'delete' })
+  remove(
+    @Param('id', ParseIntPipe) id: number,
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<{ message: string }> {
+    return this.priceListService.remove(id, effectiveUserId);
+  }
+
+  @Get(':id/products/:productId')
+  @RequirePermissions({ resource: 'products', action: 'read' })
+  getPriceListProductPrices(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('productId', ParseIntPipe) productId: number,
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<ProductPricesResponseDto> {
+    return this.priceListService.getPriceListProductPrices(
+      id,
+      productId,
+      effectiveUserId,
+    );
+  }
+
+  @Put(':id/products/:productId')
+  @RequirePermissions({ resource: 'products', action: 'update' })
+  setProductPrices(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('productId', ParseIntPipe) productId: number,
+    @Body() setDto: SetProductPricesDto,
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<ProductPricesResponseDto> {
+    return this.priceListService.setProductPrices(
+      id,
+      productId,
+      setDto,
+      effectiveUserId,
+    );
+  }
+
+  @Delete(':id/products/:productId')
+  @RequirePermissions({ resource: 'products', action: 'update' })
+  removeProductPrices(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('productId', ParseIntPipe) productId: number,
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<{ message: string }> {
+    return this.priceListService.removeProductPrices(
+      id,
+      productId,
+      effectiveUserId,
+    );
+  }
+
+  @Get(':id/products/:productId/quote')
+  @RequirePermissions({ resource: 'products', action: 'read' })
+  quote(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('productId', ParseIntPipe) productId: number,
+    @EffectiveUserId() effectiveUserId: number,
+    @Query('quantity') quantity?: string,
+  ): Promise<PriceQuoteResponseDto> {
+    return this.priceListService.quote(
+      id,
+      productId,
+      quantity ? parseInt(quantity) : 1,
+      effectiveUserId,
+    );
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { PriceListService } from './price-list.service';
+import { PriceListController } from './price-list.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [PriceListController],
+  providers: [PriceListService],
+  exports: [PriceListService],
+})
+export class PriceListModule {}
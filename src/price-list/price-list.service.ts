@@ -0,0 +1,510 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+} from '@nestjs/common';
+import type { PriceList, ProductPrice } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { IntegrationType } from '../integration/base/integration-type.enum';
+import { PriceListHelper } from '../utils/price-list.helper';
+import { withRecomputeAfterCommit } from '../utils/computedAttributeUtils';
+import {
+  CreatePriceListDto,
+  UpdatePriceListDto,
+  SetProductPricesDto,
+  AssignPriceListDto,
+  PriceListResponseDto,
+  ProductPricesResponseDto,
+  PriceQuoteResponseDto,
+  PriceListAssignmentDto,
+} from './dto';
+
+@Injectable()
+export class PriceListService {
+  private readonly logger = new Logger(PriceListService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async create(
+    dto: CreatePriceListDto,
+    userId: number,
+  ): Promise<PriceListResponseDto> {
+    try {
+      const priceList = await this.prisma.priceList.create({
+        data: {
+          name: dto.name,
+          currency: dto.currency,
+          description: dto.description ?? null,
+          userId,
+        },
+      });
+      return this.transformPriceListForResponse(priceList, 0);
+    } catch (error) {
+      this.handleDatabaseError(error);
+    }
+  }
+
+  async findAll(userId: number): Promise<PriceListResponseDto[]> {
+    const priceLists = await this.prisma.priceList.findMany({
+      where: { userId },
+      include: { _count: { select: { prices: true } } },
+      orderBy: { name: 'asc' },
+    });
+
+    return priceLists.map(({ _count, ...priceList }) =>
+      this.transformPriceListForResponse(priceList, _count.prices),
+    );
+  }
+
+  async findOne(id: number, userId: number): Promise<PriceListResponseDto> {
+    const priceList = await this.findPriceListOrFail(id, userId);
+    return this.transformPriceListForResponse(
+      priceList,
+      await this.countProducts(id),
+    );
+  }
+
+  async update(
+    id: number,
+    dto: UpdatePriceListDto,
+    userId: number,
+  ): Promise<PriceListResponseDto> {
+    await this.findPriceListOrFail(id, userId);
+
+    try {
+      const priceList = await this.prisma.priceList.update({
+        where: { id },
+        data: {
+          name: dto.name,
+          currency: dto.currency,
+          description: dto.description,
+        },
+      });
+      return this.transformPriceListForResponse(
+        priceList,
+        await this.countProducts(id),
+      );
+    } catch (error) {
+      this.handleDatabaseError(error);
+    }
+  }
+
+  async remove(id: number, userId: number): Promise<{ message: string }> {
+    const priceList = await this.findPriceListOrFail(id, userId);
+
+    // Prices are deleted with the list; assigned connections fall back to price attributes
+    await this.prisma.priceList.delete({ where: { id } });
+
+    return {
+      message: `Price list "${priceList.name}" deleted successfully`,
+    };
+  }
+
+  /**
+   * Prices of a product in every price list that has them
+   */
+  async getProductPrices(
+    productId: number,
+    userId: number,
+  ): Promise<ProductPricesResponseDto[]> {
+    await this.findProductOrFail(productId, userId);
+
+    const prices = await this.prisma.productPrice.findMany({
+      where: { productId, priceList: { userId } },
+      include: { priceList: true },
+      orderBy: [{ priceListId: 'asc' }, { minQuantity: 'asc' }],
+    });
+
+    const byPriceList = new Map<number, typeof prices>();
+    for (const price of prices) {
+      const rows = byPriceList.get(price.priceListId) ?? [];
+      rows.push(price);
+      byPriceList.set(price.priceListId, rows);
+    }
+
+    return Array.from(byPriceList.values()).map((rows) =>
+      this.transformPricesForResponse(rows[0].priceList, productId, rows),
+    );
+  }
+
+  async getPriceListProductPrices(
+    id: number,
+    productId: number,
+    userId: number,
+  ): Promise<ProductPricesResponseDto> {
+    const priceList = await this.findPriceListOrFail(id, userId);
+    await this.findProductOrFail(productId, userId);
+
+    const rows = await this.prisma.productPrice.findMany({
+      where: { priceListId: id, productId },
+      orderBy: { minQuantity: 'asc' },
+    });
+    return this.transformPricesForResponse(priceList, productId, rows);
+  }
+
+  /**
+   * Replace the tiers of a product in a price list
+   */
+  async setProductPrices(
+    id: number,
+    productId: number,
+    dto: SetProductPricesDto,
+    userId: number,
+  ): Promise<ProductPricesResponseDto> {
+    const priceList = await this.findPriceListOrFail(id, userId);
+    await this.findProductOrFail(productId, userId);
+
+    const tiers = dto.tiers.map((tier) => ({
+      minQuantity: tier.minQuantity ?? 1,
+      price: tier.price,
+      salePrice: tier.salePrice ?? null,
+      saleStartsAt: tier.saleStartsAt ? new Date(tier.saleStartsAt) : null,
+      saleEndsAt: tier.saleEndsAt ? new Date(tier.saleEndsAt) : null,
+    }));
+    this.validateTiers(tiers);
+
+    const rows = await withRecomputeAfterCommit(() =>
+      this.prisma.$transaction(async (tx) => {
+        await tx.productPrice.deleteMany({
+          where: { priceListId: id, productId },
+        });
+        await tx.productPrice.createMany({
+          data: tiers.map((tier) => ({ ...tier, priceListId: id, productId })),
+        });
+        return tx.productPrice.findMany({
+          where: { priceListId: id, productId },
+          orderBy: { minQuantity: 'asc' },
+        });
+      }),
+    );
+
+    this.logger.log(
+      `Set ${rows.length} price tiers for product ${productId} in price list ${id}`,
+    );
+    return this.transformPricesForResponse(priceList, productId, rows);
+  }
+
+  async removeProductPrices(
+    id: number,
+    productId: number,
+    userId: number,
+  ): Promise<{ message: string }> {
+    const priceList = await this.findPriceListOrFail(id, userId);
+
+    const { count } = await this.prisma.productPrice.deleteMany({
+      where: { priceListId: id, productId },
+    });
+    if (count === 0) {
+      throw new NotFoundException(
+        `Product ${productId} has no prices in price list "${priceList.name}"`,
+      );
+    }
+
+    return {
+      message: `Prices of product ${productId} removed from price list "${priceList.name}"`,
+    };
+  }
+
+  /**
+   * Unit price and total for buying a quantity of a product, tiers and active
+   * sales applied
+   */
+  async quote(
+    id: number,
+    productId: number,
+    quantity: number,
+    userId: number,
+  ): Promise<PriceQuoteResponseDto> {
+    if (!Number.isInteger(quantity) || quantity < 1) {
+      throw new BadRequestException('quantity must be a positive integer');
+    }
+
+    const priceList = await this.findPriceListOrFail(id, userId);
+    const rows = await this.prisma.productPrice.findMany({
+      where: { priceListId: id, productId },
+      orderBy: { minQuantity: 'asc' },
+    });
+
+    const unitPrice = PriceListHelper.priceFor(rows, quantity);
+    if (unitPrice === null) {
+      throw new NotFoundException(
+        `Product ${productId} has no price for quantity ${quantity} in price list "${priceList.name}"`,
+      );
+    }
+
+    return {
+      priceListId: id,
+      currency: priceList.currency,
+      productId,
+      quantity,
+      unitPrice,
+      total: Number((unitPrice * quantity).toFixed(2)),
+      tiers: PriceListHelper.resolve(rows)?.tiers ?? [],
+    };
+  }
+
+  /**
+   * Price list of every channel connection of the user
+   */
+  async getAssignments(userId: number): Promise<PriceListAssignmentDto[]> {
+    const [wooConnections, mydealConnections, amazonCredentials] =
+      await Promise.all([
+        this.prisma.wooCommerceConnection.findMany({
+          where: { userId },
+          select: { id: true, storeName: true, priceListId: true },
+          orderBy: { id: 'asc' },
+        }),
+        this.prisma.myDealConnection.findMany({
+          where: { userId },
+          select: { id: true, connectionName: true, priceListId: true },
+          orderBy: { id: 'asc' },
+        }),
+        this.prisma.userIntegrationCredentials.findUnique({
+          where: {
+            userId_integrationType: {
+              userId,
+              integrationType: IntegrationType.AMAZON,
+            },
+          },
+          select: { priceListId: true },
+        }),
+      ]);
+
+    return [
+      ...wooConnections.map((connection) => ({
+        channel: IntegrationType.WOOCOMMERCE as string,
+        connectionId: connection.id,
+        connectionName: connection.storeName,
+        priceListId: connection.priceListId,
+      })),
+      ...mydealConnections.map((connection) => ({
+        channel: IntegrationType.MYDEAL as string,
+        connectionId: connection.id,
+        connectionName: connection.connectionName,
+        priceListId: connection.priceListId,
+      })),
+      ...(amazonCredentials
+        ? [
+            {
+              channel: IntegrationType.AMAZON as string,
+              connectionId: null,
+              connectionName: 'Amazon',
+              priceListId: amazonCredentials.priceListId,
+            },
+          ]
+        : []),
+    ];
+  }
+
+  /**
+   * Assign a price list to a channel connection, or remove the assignment
+   */
+  async assign(
+    dto: AssignPriceListDto,
+    userId: number,
+  ): Promise<PriceListAssignmentDto> {
+    const priceListId = dto.priceListId ?? null;
+    if (priceListId !== null) {
+      await this.findPriceListOrFail(priceListId, userId);
+    }
+
+    const channel = dto.channel as IntegrationType;
+    if (channel === IntegrationType.AMAZON) {
+      const credentials =
+        await this.prisma.userIntegrationCredentials.findUnique({
+          where: {
+            userId_integrationType: {
+              userId,
+              integrationType: IntegrationType.AMAZON,
+            },
+          },
+        });
+      if (!credentials) {
+        throw new BadRequestException(
+          'Amazon credentials not configured for this user',
+        );
+      }
+      await this.prisma.userIntegrationCredentials.update({
+        where: { id: credentials.id },
+        data: { priceListId },
+      });
+      return {
+        channel,
+        connectionId: null,
+        connectionName: 'Amazon',
+        priceListId,
+      };
+    }
+
+    if (!dto.connectionId) {
+      throw new BadRequestException(
+        `connectionId is required for the ${channel} channel`,
+      );
+    }
+
+    if (channel === IntegrationType.WOOCOMMERCE) {
+      const connection = await this.prisma.wooCommerceConnection.findFirst({
+        where: { id: dto.connectionId, userId },
+      });
+      if (!connection) {
+        throw new BadRequestException(
+          `${channel} connection ${dto.connectionId} not found or does not belong to you`,
+        );
+      }
+      await this.prisma.wooCommerceConnection.update({
+        where: { id: connection.id },
+        data: { priceListId },
+      });
+      return {
+        channel,
+        connectionId: connection.id,
+        connectionName: connection.storeName,
+        priceListId,
+      };
+    }
+
+    const connection = await this.prisma.myDealConnection.findFirst({
+      where: { id: dto.connectionId, userId },
+    });
+    if (!connection) {
+      throw new BadRequestException(
+        `${channel} connection ${dto.connectionId} not found or does not belong to you`,
+      );
+    }
+    await this.prisma.myDealConnection.update({
+      where: { id: connection.id },
+      data: { priceListId },
+    });
+    return {
+      channel,
+      connectionId: connection.id,
+      connectionName: connection.connectionName,
+      priceListId,
+    };
+  }
+
+  private validateTiers(
+    tiers: {
+      minQuantity: number;
+      price: number;
+      salePrice: number | null;
+      saleStartsAt: Date | null;
+      saleEndsAt: Date | null;
+    }[],
+  ): void {
+    const quantities = new Set<number>();
+    for (const tier of tiers) {
+      if (quantities.has(tier.minQuantity)) {
+        throw new BadRequestException(
+          `Duplicate price tier for quantity ${tier.minQuantity}`,
+        );
+      }
+      quantities.add(tier.minQuantity);
+
+      if (tier.salePrice === null) {
+        if (tier.saleStartsAt || tier.saleEndsAt) {
+          throw new BadRequestException(
+            `Sale dates of the ${tier.minQuantity}+ tier need a sale price`,
+          );
+        }
+        continue;
+      }
+      if (tier.salePrice >= tier.price) {
+        throw new BadRequestException(
+          `Sale price of the ${tier.minQuantity}+ tier must be lower than its price`,
+        );
+      }
+      if (
+        tier.saleStartsAt &&
+        tier.saleEndsAt &&
+        tier.saleEndsAt <= tier.saleStartsAt
+      ) {
+        throw new BadRequestException(
+          `Sale of the ${tier.minQuantity}+ tier must end after it starts`,
+        );
+      }
+    }
+
+    if (!quantities.has(1)) {
+      throw new BadRequestException(
+        'Prices need a base tier with minQuantity 1',
+      );
+    }
+  }
+
+  private async findPriceListOrFail(
+    id: number,
+    userId: number,
+  ): Promise<PriceList> {
+    const priceList = await this.prisma.priceList.findFirst({
+      where: { id, userId },
+    });
+
+    if (!priceList) {
+      throw new NotFoundException(`Price list with ID ${id} not found`);
+    }
+
+    return priceList;
+  }
+
+  private async findProductOrFail(
+    productId: number,
+    userId: number,
+  ): Promise<void> {
+    const product = await this.prisma.product.findFirst({
+      where: { id: productId, userId, isDeleted: false },
+      select: { id: true },
+    });
+
+    if (!product) {
+      throw new NotFoundException(`Product with ID ${productId} not found`);
+    }
+  }
+
+  private async countProducts(priceListId: number): Promise<number> {
+    const products = await this.prisma.productPrice.groupBy({
+      by: ['productId'],
+      where: { priceListId },
+    });
+    return products.length;
+  }
+
+  private transformPriceListForResponse(
+    priceList: PriceList,
+    productCount: number,
+  ): PriceListResponseDto {
+    return { ...priceList, productCount };
+  }
+
+  private transformPricesForResponse(
+    priceList: PriceList,
+    productId: number,
+    rows: ProductPrice[],
+  ): ProductPricesResponseDto {
+    const now = new Date();
+    return {
+      priceListId: priceList.id,
+      priceListName: priceList.name,
+      currency: priceList.currency,
+      productId,
+      tiers: rows.map((row) => ({
+        minQuantity: row.minQuantity,
+        price: PriceListHelper.toNumber(row.price) ?? 0,
+        salePrice: PriceListHelper.toNumber(row.salePrice),
+        saleStartsAt: row.saleStartsAt,
+        saleEndsAt: row.saleEndsAt,
+        onSale: PriceListHelper.isSaleActive(row, now),
+      })),
+      currentPrice: PriceListHelper.resolve(rows, now)?.currentPrice ?? null,
+    };
+  }
+
+  private handleDatabaseError(error: any): never {
+    if (error.code === 'P2002') {
+      throw new ConflictException('Price list with this name already exists');
+    }
+    throw error;
+  }
+}
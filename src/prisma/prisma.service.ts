@@ -1,6 +1,7 @@
 import { Injectable, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
 import { PrismaClient } from '@prisma/client';
 import { productAttributeStatusExtension } from '../middleware/statusTrigger';
+import { computedAttributeExtension } from '../middleware/computedAttributeTrigger';
 import { softDeleteMiddleware } from '../middleware/softDeleteMiddleware';
 
 @Injectable()
@@ -8,7 +9,7 @@ export class PrismaService extends PrismaClient implements OnModuleInit, OnModul
   constructor() {
     super();
     // Apply extensions
-    Object.assign(this, this.$extends(productAttributeStatusExtension));
+    Object.assign(this, this.$extends(productAttributeStatusExtension).$extends(computedAttributeExtension));
     
     // Apply soft-delete middleware
     this.$use(softDeleteMiddleware);
@@ -0,0 +1,78 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsInt,
+  IsBoolean,
+  IsIn,
+  IsEnum,
+  Length,
+  ValidateNested,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { ProductFilterCriteriaDto } from '../../product/dto/product-filter.dto';
+import { IntegrationType } from '../../integration/base/integration-type.enum';
+
+export const PRODUCT_VIEW_SYNC_CHANNELS = [
+  IntegrationType.WOOCOMMERCE,
+  IntegrationType.MYDEAL,
+] as const;
+
+// The product list filters a view stores; evaluated each time the view is read
+export class ProductViewFiltersDto extends ProductFilterCriteriaDto {}
+
+export class CreateProductViewDto {
+  @IsString()
+  @IsNotEmpty({ message: 'View name is required' })
+  @Length(1, 100, {
+    message: 'View name must be between 1 and 100 characters',
+  })
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim() : value))
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string | null;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ProductViewFiltersDto)
+  filters?: ProductViewFiltersDto;
+
+  @IsOptional()
+  @IsString()
+  sortBy?: string | null;
+
+  @IsOptional()
+  @IsEnum(['asc', 'desc'])
+  sortOrder?: 'asc' | 'desc';
+
+  // Share the view with every staff member of the account
+  @IsOptional()
+  @IsBoolean()
+  isShared?: boolean;
+}
+
+// Sync settings are changed through their own endpoint, which requires the
+// integrations export permission
+export class ProductViewSyncSettingsDto {
+  // Channel the view's products are synced to, on a schedule or on demand
+  @IsOptional()
+  @IsIn(PRODUCT_VIEW_SYNC_CHANNELS, {
+    message: `syncChannel must be one of: ${PRODUCT_VIEW_SYNC_CHANNELS.join(', ')}`,
+  })
+  syncChannel?: string | null;
+
+  @IsOptional()
+  @IsInt()
+  syncConnectionId?: number | null;
+
+  // Cron expression for scheduled syncs, e.g. '0 2 * * *' for every night at 02:00
+  @IsOptional()
+  @IsString()
+  syncCron?: string | null;
+
+  @IsOptional()
+  @IsBoolean()
+  syncEnabled?: boolean;
+}
@@ -0,0 +1,4 @@
+export * from './create-product-view.dto';
+export * from './update-product-view.dto';
+export * from './product-view-action.dto';
+export * from './product-view-response.dto';
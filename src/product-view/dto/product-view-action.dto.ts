@@ -0,0 +1,32 @@
+import { OmitType, PickType } from '@nestjs/mapped-types';
+import { ExportProductDto } from '../../product/dto/export-product.dto';
+import { BulkEditProductsDto } from '../../product/dto/bulk-edit.dto';
+import { ChangeFamilyDto } from '../../product/dto/family-change.dto';
+import type { ProductSyncResult } from '../../integration/base/base-integration.service';
+
+// Export options for a view; the products come from the view itself
+export class ExportProductViewDto extends OmitType(ExportProductDto, [
+  'productIds',
+  'filter',
+] as const) {}
+
+// Bulk edit options for a view; the products come from the view itself
+export class ProductViewBulkEditDto extends PickType(BulkEditProductsDto, [
+  'operations',
+  'dryRun',
+] as const) {}
+
+// Family change options for a view; the products come from the view itself
+export class ProductViewAttachToFamilyDto extends ChangeFamilyDto {}
+
+export class ProductViewSyncResultDto {
+  viewId: number;
+  channel: string;
+  connectionId: number | null;
+  productCount: number;
+  syncedCount: number;
+  failedCount: number;
+  status: 'success' | 'partial' | 'failed';
+  message: string;
+  results: ProductSyncResult[];
+}
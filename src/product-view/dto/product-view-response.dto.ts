@@ -0,0 +1,23 @@
+import type { ProductViewFiltersDto } from './create-product-view.dto';
+
+export class ProductViewResponseDto {
+  id: number;
+  name: string;
+  description: string | null;
+  userId: number;
+  createdById: number;
+  isShared: boolean;
+  filters: ProductViewFiltersDto;
+  sortBy: string | null;
+  sortOrder: 'asc' | 'desc';
+  syncChannel: string | null;
+  syncConnectionId: number | null;
+  syncCron: string | null;
+  syncEnabled: boolean;
+  nextSyncAt: Date | null;
+  lastSyncAt: Date | null;
+  lastSyncStatus: string | null;
+  lastSyncMessage: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
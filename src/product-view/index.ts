@@ -0,0 +1,4 @@
+export * from './product-view.controller';
+export * from './product-view.service';
+export * from './product-view.module';
+export * from './dto';
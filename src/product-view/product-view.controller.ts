@@ -0,0 +1,243 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  ParseIntPipe,
+  UseGuards,
+  Query,
+  HttpCode,
+  HttpStatus,
+  Res,
+  StreamableFile,
+} from '@nestjs/common';
+import type { Response } from 'express';
+import type { User } from '@prisma/client';
+import { ProductViewService } from './product-view.service';
+import {
+  CreateProductViewDto,
+  UpdateProductViewDto,
+  ProductViewResponseDto,
+  ExportProductViewDto,
+  ProductViewAttachToFamilyDto,
+  ProductViewBulkEditDto,
+  ProductViewSyncResultDto,
+  ProductViewSyncSettingsDto,
+} from './dto';
+import { ProductResponseDto } from '../product/dto/product-response.dto';
+import { ExportProductResponseDto } from '../product/dto/export-product.dto';
+import { BulkAttachToFamilyResponseDto } from '../product/dto/bulk-attach-to-family.dto';
+import {
+  BulkEditJobResponseDto,
+  BulkEditPreviewResponseDto,
+} from '../product/dto/bulk-edit.dto';
+import { PaginatedResponse } from '../common';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { OwnershipGuard } from '../auth/guards/ownership.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { RequirePermissions } from '../auth/decorators/permissions.decorator';
+import { User as GetUser } from '../auth/decorators/user.decorator';
+import { EffectiveUserId } from '../auth/decorators/effective-user-id.decorator';
+
+@Controller('product-views')
+@UseGuards(JwtAuthGuard, OwnershipGuard, PermissionsGuard)
+export class ProductViewController {
+  constructor(private readonly productViewService: ProductViewService) {}
+
+  @Post()
+  @RequirePermissions({ resource: 'products', action: 'read' })
+  create(
+    @Body() createDto: CreateProductViewDto,
+    @GetUser() user: User,
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<ProductViewResponseDto> {
+    return this.productViewService.create(createDto, effectiveUserId, user.id);
+  }
+
+  @Get()
+  @RequirePermissions({ resource: 'products', action: 'read' })
+  findAll(
+    @GetUser() user: User,
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<ProductViewResponseDto[]> {
+    return this.productViewService.findAll(effectiveUserId, user.id);
+  }
+
+  @Get(':id')
+  @RequirePermissions({ resource: 'products', action: 'read' })
+  findOne(
+    @Param('id', ParseIntPipe) id: number,
+    @GetUser() user: User,
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<ProductViewResponseDto> {
+    return this.productViewService.findOne(id, effectiveUserId, user.id);
+  }
+
+  @Patch(':id')
+  @RequirePermissions({ resource: 'products', action: 'read' })
+  update(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() updateDto: UpdateProductViewDto,
+    @GetUser() user: User,
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<ProductViewResponseDto> {
+    return this.productViewService.update(
+      id,
+      updateDto,
+      effectiveUserId,
+      user.id,
+    );
+  }
+
+  @Delete(':id')
+  @RequirePermissions({ resource: 'products', action: 'read' })
+  remove(
+    @Param('id', ParseIntPipe) id: number,
+    @GetUser() user: User,
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<{ message: string }> {
+    return this.productViewService.remove(id, effectiveUserId, user.id);
+  }
+
+  @Get(':id/products')
+  @RequirePermissions({ resource: 'products', action: 'read' })
+  getProducts(
+    @Param('id', ParseIntPipe) id: number,
+    @GetUser() user: User,
+    @EffectiveUserId() effectiveUserId: number,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+    @Query('locale') locale?: string,
+  ): Promise<PaginatedResponse<ProductResponseDto>> {
+    return this.productViewService.getProducts(
+      id,
+      effectiveUserId,
+      user.id,
+      page ? parseInt(page) : 1,
+      limit ? parseInt(limit) : 10,
+      locale,
+    );
+  }
+
+  @Post(':id/export')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions({ resource: 'products', action: 'export' })
+  exportProducts(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() exportDto: ExportProductViewDto,
+    @GetUser() user: User,
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<ExportProductResponseDto> {
+    return this.productViewService.exportProducts(
+      id,
+      exportDto,
+      effectiveUserId,
+      user.id,
+    );
+  }
+
+  @Post(':id/export/download')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions({ resource: 'products', action: 'export' })
+  async exportProductsAndDownload(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() exportDto: ExportProductViewDto,
+    @GetUser() user: User,
+    @EffectiveUserId() effectiveUserId: number,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<StreamableFile> {
+    const result = await this.productViewService.exportProductsAsFile(
+      id,
+      exportDto,
+      effectiveUserId,
+      user.id,
+    );
+
+    res.set({
+      'Content-Type': result.mimeType,
+      'Content-Disposition': `attachment; filename="${result.filename}"`,
+      'Content-Length': result.buffer.length,
+    });
+
+    return new StreamableFile(result.buffer);
+  }
+
+  @Post(':id/bulk-delete')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions({ resource: 'products', action: 'delete' })
+  bulkDelete(
+    @Param('id', ParseIntPipe) id: number,
+    @GetUser() user: User,
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<{
+    message: string;
+    deletedCount: number;
+    operationId: string | null;
+  }> {
+    return this.productViewService.bulkDelete(id, effectiveUserId, user.id);
+  }
+
+  @Post(':id/bulk/attach-to-family')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions({ resource: 'products', action: 'update' })
+  attachToFamily(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() attachDto: ProductViewAttachToFamilyDto,
+    @GetUser() user: User,
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<BulkAttachToFamilyResponseDto> {
+    return this.productViewService.attachToFamily(
+      id,
+      attachDto,
+      effectiveUserId,
+      user.id,
+    );
+  }
+
+  @Post(':id/bulk-edit')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions({ resource: 'products', action: 'update' })
+  bulkEdit(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() bulkEditDto: ProductViewBulkEditDto,
+    @GetUser() user: User,
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<BulkEditJobResponseDto | BulkEditPreviewResponseDto> {
+    return this.productViewService.bulkEdit(
+      id,
+      bulkEditDto,
+      effectiveUserId,
+      user.id,
+    );
+  }
+
+  @Patch(':id/sync-settings')
+  @RequirePermissions({ resource: 'integrations', action: 'export' })
+  updateSyncSettings(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() syncSettingsDto: ProductViewSyncSettingsDto,
+    @GetUser() user: User,
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<ProductViewResponseDto> {
+    return this.productViewService.updateSyncSettings(
+      id,
+      syncSettingsDto,
+      effectiveUserId,
+      user.id,
+    );
+  }
+
+  @Post(':id/sync')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions({ resource: 'integrations', action: 'export' })
+  sync(
+    @Param('id', ParseIntPipe) id: number,
+    @GetUser() user: User,
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<ProductViewSyncResultDto> {
+    return this.productViewService.sync(id, effectiveUserId, user.id);
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { ProductViewService } from './product-view.service';
+import { ProductViewController } from './product-view.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { ProductModule } from '../product/product.module';
+import { IntegrationModule } from '../integration/integration.module';
+
+@Module({
+  imports: [PrismaModule, ProductModule, IntegrationModule],
+  controllers: [ProductViewController],
+  providers: [ProductViewService],
+  exports: [ProductViewService],
+})
+export class ProductViewModule {}
@@ -0,0 +1,629 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+  ForbiddenException,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import type { ProductView } from '@prisma/client';
+import { CronJob } from 'cron';
+import cron from 'cron-validate';
+import { PrismaService } from '../prisma/prisma.service';
+import { ProductService } from '../product/product.service';
+import { ProductBulkEditService } from '../product/services/product-bulk-edit.service';
+import { ProductFamilyChangeService } from '../product/services/product-family-change.service';
+import {
+  BulkEditJobResponseDto,
+  BulkEditPreviewResponseDto,
+} from '../product/dto/bulk-edit.dto';
+import { ExportProductResponseDto } from '../product/dto/export-product.dto';
+import { BulkAttachToFamilyResponseDto } from '../product/dto/bulk-attach-to-family.dto';
+import { ProductResponseDto } from '../product/dto/product-response.dto';
+import { PaginatedResponse } from '../common';
+import { ProductFilterParser } from '../utils/product-filter.parser';
+import { WooCommerceMultiStoreService } from '../integration/woocommerce/woocommerce-multistore.service';
+import { MyDealService } from '../integration/mydeal/mydeal.service';
+import { IntegrationType } from '../integration/base/integration-type.enum';
+import {
+  CreateProductViewDto,
+  UpdateProductViewDto,
+  ProductViewResponseDto,
+  ProductViewFiltersDto,
+  ExportProductViewDto,
+  ProductViewBulkEditDto,
+  ProductViewAttachToFamilyDto,
+  ProductViewSyncResultDto,
+  ProductViewSyncSettingsDto,
+} from './dto';
+
+/**
+ * Saved product views: a named product list filter and sort order. Views
+ * store the filter, not the products, so their membership is re-evaluated
+ * every time they are listed, exported, used for a bulk action or synced.
+ */
+@Injectable()
+export class ProductViewService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(ProductViewService.name);
+
+  // Scheduled channel syncs by view id
+  private jobs = new Map<number, CronJob>();
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly productService: ProductService,
+    private readonly productBulkEditService: ProductBulkEditService,
+    private readonly productFamilyChangeService: ProductFamilyChangeService,
+    private readonly wooMultiStoreService: WooCommerceMultiStoreService,
+    private readonly myDealService: MyDealService,
+  ) {}
+
+  async onModuleInit() {
+    try {
+      const views = await this.prisma.productView.findMany({
+        where: { syncEnabled: true },
+      });
+      views.forEach((view) => this.scheduleSync(view));
+      this.logger.log(
+        `Restored ${this.jobs.size} scheduled product view syncs`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to restore scheduled product view syncs: ${error.message}`,
+      );
+    }
+  }
+
+  onModuleDestroy() {
+    for (const viewId of Array.from(this.jobs.keys())) {
+      this.stopSync(viewId);
+    }
+  }
+
+  async create(
+    dto: CreateProductViewDto,
+    userId: number,
+    actingUserId: number,
+  ): Promise<ProductViewResponseDto> {
+    const filters = this.normalizeFilters(dto.filters);
+
+    try {
+      const view = await this.prisma.productView.create({
+        data: {
+          name: dto.name,
+          description: dto.description ?? null,
+          userId,
+          createdById: actingUserId,
+          isShared: dto.isShared ?? false,
+          filters: filters as any,
+          sortBy: dto.sortBy ?? null,
+          sortOrder: dto.sortOrder ?? 'desc',
+        },
+      });
+
+      this.logger.log(
+        `User ${actingUserId} created product view ${view.id} "${view.name}"`,
+      );
+      return this.transformViewForResponse(view);
+    } catch (error) {
+      this.handleDatabaseError(error);
+    }
+  }
+
+  async findAll(
+    userId: number,
+    actingUserId: number,
+  ): Promise<ProductViewResponseDto[]> {
+    const views = await this.prisma.productView.findMany({
+      where: {
+        userId,
+        OR: [{ createdById: actingUserId }, { isShared: true }],
+      },
+      orderBy: { name: 'asc' },
+    });
+
+    return views.map((view) => this.transformViewForResponse(view));
+  }
+
+  async findOne(
+    id: number,
+    userId: number,
+    actingUserId: number,
+  ): Promise<ProductViewResponseDto> {
+    const view = await this.findViewOrFail(id, userId, actingUserId);
+    return this.transformViewForResponse(view);
+  }
+
+  async update(
+    id: number,
+    dto: UpdateProductViewDto,
+    userId: number,
+    actingUserId: number,
+  ): Promise<ProductViewResponseDto> {
+    const existing = await this.findViewOrFail(id, userId, actingUserId);
+    this.assertCanModify(existing, actingUserId);
+
+    const filters =
+      dto.filters !== undefined
+        ? this.normalizeFilters(dto.filters)
+        : undefined;
+
+    try {
+      const view = await this.prisma.productView.update({
+        where: { id },
+        data: {
+          name: dto.name,
+          description: dto.description,
+          isShared: dto.isShared,
+          filters: filters as any,
+          sortBy: dto.sortBy,
+          sortOrder: dto.sortOrder,
+        },
+      });
+
+      return this.transformViewForResponse(view);
+    } catch (error) {
+      this.handleDatabaseError(error);
+    }
+  }
+
+  /**
+   * Change the channel a view syncs to and its sync schedule
+   */
+  async updateSyncSettings(
+    id: number,
+    dto: ProductViewSyncSettingsDto,
+    userId: number,
+    actingUserId: number,
+  ): Promise<ProductViewResponseDto> {
+    const existing = await this.findViewOrFail(id, userId, actingUserId);
+    this.assertCanModify(existing, actingUserId);
+
+    const syncChannel =
+      dto.syncChannel !== undefined ? dto.syncChannel : existing.syncChannel;
+    const syncConnectionId =
+      dto.syncConnectionId !== undefined
+        ? dto.syncConnectionId
+        : existing.syncConnectionId;
+    const syncCron =
+      dto.syncCron !== undefined ? dto.syncCron : existing.syncCron;
+    const syncEnabled = dto.syncEnabled ?? existing.syncEnabled;
+    await this.validateSyncSettings(
+      userId,
+      syncChannel,
+      syncConnectionId,
+      syncCron,
+      syncEnabled,
+    );
+
+    try {
+      const view = await this.prisma.productView.update({
+        where: { id },
+        data: {
+          syncChannel,
+          syncConnectionId,
+          syncCron,
+          syncEnabled,
+        },
+      });
+
+      this.scheduleSync(view);
+      return this.transformViewForResponse(view);
+    } catch (error) {
+      this.handleDatabaseError(error);
+    }
+  }
+
+  async remove(
+    id: number,
+    userId: number,
+    actingUserId: number,
+  ): Promise<{ message: string }> {
+    const view = await this.findViewOrFail(id, userId, actingUserId);
+    this.assertCanModify(view, actingUserId);
+
+    await this.prisma.productView.delete({ where: { id } });
+    this.stopSync(id);
+
+    return { message: `Product view "${view.name}" deleted successfully` };
+  }
+
+  /**
+   * One page of the products currently matching the view
+   */
+  async getProducts(
+    id: number,
+    userId: number,
+    actingUserId: number,
+    page: number = 1,
+    limit: number = 10,
+    locale?: string,
+  ): Promise<PaginatedResponse<ProductResponseDto>> {
+    const view = await this.findViewOrFail(id, userId, actingUserId);
+    const filters = this.getFilters(view);
+
+    return this.productService.findAll(
+      userId,
+      filters.search,
+      filters.status,
+      filters.categoryId,
+      filters.attributeIds,
+      filters.attributeGroupId,
+      filters.familyId,
+      page,
+      limit,
+      view.sortBy ?? undefined,
+      view.sortOrder === 'asc' ? 'asc' : 'desc',
+      false,
+      locale,
+      filters.filter,
+    );
+  }
+
+  async exportProducts(
+    id: number,
+    dto: ExportProductViewDto,
+    userId: number,
+    actingUserId: number,
+  ): Promise<ExportProductResponseDto> {
+    const view = await this.findViewOrFail(id, userId, actingUserId);
+    const productIds = await this.getMatchingProductIdsOrFail(view);
+
+    return this.productService.exportProducts({ ...dto, productIds }, userId);
+  }
+
+  async exportProductsAsFile(
+    id: number,
+    dto: ExportProductViewDto,
+    userId: number,
+    actingUserId: number,
+  ): Promise<{ buffer: Buffer; mimeType: string; filename: string }> {
+    const view = await this.findViewOrFail(id, userId, actingUserId);
+    const productIds = await this.getMatchingProductIdsOrFail(view);
+
+    return this.productService.exportProductsAsFile(
+      { ...dto, productIds },
+      userId,
+    );
+  }
+
+  async bulkDelete(
+    id: number,
+    userId: number,
+    actingUserId: number,
+  ): Promise<{
+    message: string;
+    deletedCount: number;
+    operationId: string | null;
+  }> {
+    const view = await this.findViewOrFail(id, userId, actingUserId);
+    const productIds = await this.getMatchingProductIds(view);
+
+    const { deletedCount, operationId } =
+      productIds.length > 0
+        ? await this.productService.bulkRemove(
+            productIds,
+            userId,
+            undefined,
+            actingUserId,
+          )
+        : { deletedCount: 0, operationId: null };
+
+    return {
+      message: `Deleted ${deletedCount} product(s)`,
+      deletedCount,
+      operationId,
+    };
+  }
+
+  async attachToFamily(
+    id: number,
+    dto: ProductViewAttachToFamilyDto,
+    userId: number,
+    actingUserId: number,
+  ): Promise<BulkAttachToFamilyResponseDto> {
+    const view = await this.findViewOrFail(id, userId, actingUserId);
+    const productIds = await this.getMatchingProductIdsOrFail(view);
+
+    return this.productFamilyChangeService.changeFamilies(
+      productIds,
+      dto,
+      userId,
+      actingUserId,
+    );
+  }
+
+  /**
+   * Bulk edit the products matching the view when the edit starts
+   */
+  async bulkEdit(
+    id: number,
+    dto: ProductViewBulkEditDto,
+    userId: number,
+    actingUserId: number,
+  ): Promise<BulkEditJobResponseDto | BulkEditPreviewResponseDto> {
+    const view = await this.findViewOrFail(id, userId, actingUserId);
+    const bulkEditDto = { ...dto, filters: this.getFilters(view) };
+
+    return dto.dryRun
+      ? this.productBulkEditService.preview(bulkEditDto, userId)
+      : this.productBulkEditService.startJob(bulkEditDto, userId, actingUserId);
+  }
+
+  /**
+   * Sync the view's products to its configured channel now
+   */
+  async sync(
+    id: number,
+    userId: number,
+    actingUserId: number,
+  ): Promise<ProductViewSyncResultDto> {
+    const view = await this.findViewOrFail(id, userId, actingUserId);
+    if (!view.syncChannel || !view.syncConnectionId) {
+      throw new BadRequestException(
+        "Set the view's syncChannel and syncConnectionId in its sync settings before syncing it",
+      );
+    }
+
+    return this.runSync(view);
+  }
+
+  private async runSync(view: ProductView): Promise<ProductViewSyncResultDto> {
+    const channel = view.syncChannel as IntegrationType;
+    const connectionId = view.syncConnectionId as number;
+    let productCount = 0;
+
+    try {
+      const productIds = await this.getMatchingProductIds(view);
+      productCount = productIds.length;
+
+      let syncedCount = 0;
+      let failedCount = 0;
+      let results: ProductViewSyncResultDto['results'] = [];
+      if (productIds.length > 0) {
+        const response =
+          channel === IntegrationType.WOOCOMMERCE
+            ? await this.wooMultiStoreService.exportProducts(view.userId, {
+                connectionId,
+                productIds,
+              })
+            : await this.myDealService.exportProducts(
+                productIds,
+                view.userId,
+                connectionId,
+              );
+        syncedCount = response.syncedCount;
+        failedCount = response.failedCount;
+        results = response.results;
+      }
+
+      const status =
+        failedCount === 0 ? 'success' : syncedCount > 0 ? 'partial' : 'failed';
+      const message = `Synced ${syncedCount} of ${productCount} product(s) to ${channel} connection ${connectionId}`;
+      await this.recordSync(view.id, status, message);
+      this.logger.log(`Product view ${view.id}: ${message}`);
+
+      return {
+        viewId: view.id,
+        channel,
+        connectionId,
+        productCount,
+        syncedCount,
+        failedCount,
+        status,
+        message,
+        results,
+      };
+    } catch (error) {
+      await this.recordSync(view.id, 'failed', error.message);
+      this.logger.error(
+        `Failed to sync product view ${view.id} to ${channel}: ${error.message}`,
+      );
+      throw error;
+    }
+  }
+
+  private async recordSync(
+    viewId: number,
+    status: string,
+    message: string,
+  ): Promise<void> {
+    await this.prisma.productView
+      .update({
+        where: { id: viewId },
+        data: {
+          lastSyncAt: new Date(),
+          lastSyncStatus: status,
+          lastSyncMessage: message,
+        },
+      })
+      .catch((error: any) => {
+        // The view may have been deleted while syncing
+        this.logger.warn(
+          `Failed to record sync of product view ${viewId}: ${error.message}`,
+        );
+      });
+  }
+
+  private scheduleSync(view: ProductView): void {
+    this.stopSync(view.id);
+    if (
+      !view.syncEnabled ||
+      !view.syncCron ||
+      !view.syncChannel ||
+      !view.syncConnectionId
+    ) {
+      return;
+    }
+
+    try {
+      const job = new CronJob(view.syncCron, async () => {
+        // Reload so the sync uses the view's latest settings
+        const current = await this.prisma.productView.findUnique({
+          where: { id: view.id },
+        });
+        if (!current || !current.syncEnabled) {
+          this.stopSync(view.id);
+          return;
+        }
+        await this.runSync(current).catch(() => undefined);
+      });
+      this.jobs.set(view.id, job);
+      job.start();
+    } catch (error) {
+      this.logger.error(
+        `Failed to schedule sync of product view ${view.id}: ${error.message}`,
+      );
+    }
+  }
+
+  private stopSync(viewId: number): void {
+    const job = this.jobs.get(viewId);
+    if (job) {
+      job.stop();
+      this.jobs.delete(viewId);
+    }
+  }
+
+  private async getMatchingProductIds(view: ProductView): Promise<number[]> {
+    return this.productService.findMatchingProductIds(view.userId, {
+      ...this.getFilters(view),
+      sortBy: view.sortBy ?? undefined,
+      sortOrder: view.sortOrder === 'asc' ? 'asc' : 'desc',
+    });
+  }
+
+  private async getMatchingProductIdsOrFail(
+    view: ProductView,
+  ): Promise<number[]> {
+    const productIds = await this.getMatchingProductIds(view);
+    if (productIds.length === 0) {
+      throw new NotFoundException(
+        `No products currently match the view "${view.name}"`,
+      );
+    }
+    return productIds;
+  }
+
+  private getFilters(view: ProductView): ProductViewFiltersDto {
+    return (view.filters ?? {}) as ProductViewFiltersDto;
+  }
+
+  /**
+   * Drop unset filters and check the filter expression parses, so a broken
+   * view is rejected when saved rather than when it is read
+   */
+  private normalizeFilters(
+    filters?: ProductViewFiltersDto,
+  ): ProductViewFiltersDto {
+    const normalized = Object.fromEntries(
+      Object.entries(filters ?? {}).filter(
+        ([, value]) => value !== undefined && value !== '',
+      ),
+    ) as ProductViewFiltersDto;
+
+    if (normalized.filter) {
+      ProductFilterParser.parse(normalized.filter);
+    }
+    return normalized;
+  }
+
+  private async validateSyncSettings(
+    userId: number,
+    channel: string | null,
+    connectionId: number | null,
+    cronExpression: string | null,
+    enabled: boolean,
+  ): Promise<void> {
+    if (cronExpression) {
+      const cronValidation = cron(cronExpression);
+      if (!cronValidation.isValid()) {
+        throw new BadRequestException(
+          `Invalid cron expression: ${cronValidation.getError().join(', ')}`,
+        );
+      }
+    }
+
+    if (enabled && (!channel || !connectionId || !cronExpression)) {
+      throw new BadRequestException(
+        'Scheduled syncs require syncChannel, syncConnectionId and syncCron',
+      );
+    }
+
+    if (connectionId) {
+      let connection: { id: number } | null = null;
+      if (channel === IntegrationType.WOOCOMMERCE) {
+        connection = await this.prisma.wooCommerceConnection.findFirst({
+          where: { id: connectionId, userId },
+          select: { id: true },
+        });
+      } else if (channel === IntegrationType.MYDEAL) {
+        connection = await this.prisma.myDealConnection.findFirst({
+          where: { id: connectionId, userId },
+          select: { id: true },
+        });
+      } else {
+        throw new BadRequestException(
+          'syncConnectionId requires a syncChannel',
+        );
+      }
+
+      if (!connection) {
+        throw new BadRequestException(
+          `${channel} connection ${connectionId} not found or does not belong to you`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Views are visible to their creator and, when shared, to everyone on the account
+   */
+  private async findViewOrFail(
+    id: number,
+    userId: number,
+    actingUserId: number,
+  ): Promise<ProductView> {
+    const view = await this.prisma.productView.findFirst({
+      where: {
+        id,
+        userId,
+        OR: [{ createdById: actingUserId }, { isShared: true }],
+      },
+    });
+
+    if (!view) {
+      throw new NotFoundException(`Product view with ID ${id} not found`);
+    }
+
+    return view;
+  }
+
+  // Shared views can be changed by their creator and the account owner only
+  private assertCanModify(view: ProductView, actingUserId: number): void {
+    if (view.createdById !== actingUserId && view.userId !== actingUserId) {
+      throw new ForbiddenException(
+        'Only the creator of a view or the account owner can change it',
+      );
+    }
+  }
+
+  private transformViewForResponse(view: ProductView): ProductViewResponseDto {
+    const job = this.jobs.get(view.id);
+    return {
+      ...view,
+      filters: this.getFilters(view),
+      sortOrder: view.sortOrder === 'asc' ? 'asc' : 'desc',
+      nextSyncAt: job ? job.nextDate().toJSDate() : null,
+    };
+  }
+
+  private handleDatabaseError(error: any): never {
+    if (error.code === 'P2002') {
+      throw new ConflictException('Product view with this name already exists');
+    }
+    throw error;
+  }
+}
@@ -1,14 +1,12 @@
 import { IsArray, IsInt, ArrayNotEmpty, ArrayMinSize } from 'class-validator';
+import { ChangeFamilyDto, FamilyChangePreviewDto } from './family-change.dto';
 
-export class BulkAttachToFamilyDto {
+export class BulkAttachToFamilyDto extends ChangeFamilyDto {
   @IsArray()
   @ArrayNotEmpty()
   @ArrayMinSize(1)
   @IsInt({ each: true })
   productIds: number[];
-
-  @IsInt()
-  familyId: number;
 }
 
 export class BulkAttachToFamilyResponseDto {
@@ -16,4 +14,6 @@ export class BulkAttachToFamilyResponseDto {
   attached: number;
   failed: number;
   errors: Array<{ productId: number; error: string }>;
+  dryRun: boolean;
+  changes: FamilyChangePreviewDto[];
 }
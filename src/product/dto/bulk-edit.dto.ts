@@ -0,0 +1,163 @@
+import {
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsNotEmpty,
+  IsDefined,
+  ArrayMinSize,
+  ArrayMaxSize,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ProductFilterCriteriaDto } from './product-filter.dto';
+
+export enum BulkEditOperationType {
+  SET_ATTRIBUTE = 'set_attribute',
+  CLEAR_ATTRIBUTE = 'clear_attribute',
+  FIND_REPLACE = 'find_replace',
+  ADD_NUMBER = 'add_number',
+  MULTIPLY_NUMBER = 'multiply_number',
+  SET_CATEGORY = 'set_category',
+  ADD_ASSETS = 'add_assets',
+  REMOVE_ASSETS = 'remove_assets',
+}
+
+export const ATTRIBUTE_BULK_EDIT_OPERATIONS = [
+  BulkEditOperationType.SET_ATTRIBUTE,
+  BulkEditOperationType.CLEAR_ATTRIBUTE,
+  BulkEditOperationType.FIND_REPLACE,
+  BulkEditOperationType.ADD_NUMBER,
+  BulkEditOperationType.MULTIPLY_NUMBER,
+];
+
+export class BulkEditOperationDto {
+  @IsEnum(BulkEditOperationType)
+  type: BulkEditOperationType;
+
+  @ValidateIf((o) => ATTRIBUTE_BULK_EDIT_OPERATIONS.includes(o.type))
+  @IsInt()
+  attributeId?: number;
+
+  // set_attribute
+  @ValidateIf((o) => o.type === BulkEditOperationType.SET_ATTRIBUTE)
+  @IsDefined()
+  value?: string | number | boolean;
+
+  // find_replace
+  @ValidateIf((o) => o.type === BulkEditOperationType.FIND_REPLACE)
+  @IsString()
+  @IsNotEmpty()
+  find?: string;
+
+  @ValidateIf((o) => o.type === BulkEditOperationType.FIND_REPLACE)
+  @IsString()
+  replace?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  caseSensitive?: boolean;
+
+  // add_number adds it, multiply_number multiplies by it (1.1 raises a price by 10%)
+  @ValidateIf(
+    (o) =>
+      o.type === BulkEditOperationType.ADD_NUMBER ||
+      o.type === BulkEditOperationType.MULTIPLY_NUMBER,
+  )
+  @IsNumber()
+  amount?: number;
+
+  // set_category; null removes the category
+  @ValidateIf(
+    (o) =>
+      o.type === BulkEditOperationType.SET_CATEGORY && o.categoryId !== null,
+  )
+  @IsInt()
+  categoryId?: number | null;
+
+  // add_assets / remove_assets
+  @ValidateIf(
+    (o) =>
+      o.type === BulkEditOperationType.ADD_ASSETS ||
+      o.type === BulkEditOperationType.REMOVE_ASSETS,
+  )
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsInt({ each: true })
+  assetIds?: number[];
+}
+
+export class BulkEditProductsDto {
+  // Explicit selection; when filters are given too, only the matching products among these IDs are edited
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsInt({ each: true })
+  productIds?: number[];
+
+  // Selection by the product list filters (same as GET /products)
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ProductFilterCriteriaDto)
+  filters?: ProductFilterCriteriaDto;
+
+  @IsArray()
+  @ArrayMinSize(1, { message: 'At least one operation must be provided' })
+  @ArrayMaxSize(50)
+  @ValidateNested({ each: true })
+  @Type(() => BulkEditOperationDto)
+  operations: BulkEditOperationDto[];
+
+  // Preview the changes for the first products of the selection without saving anything
+  @IsOptional()
+  @IsBoolean()
+  dryRun?: boolean;
+}
+
+export class BulkEditChangeDto {
+  field: string; // 'category', 'assets' or the attribute name
+  attributeId?: number;
+  before: string | number | number[] | null;
+  after: string | number | number[] | null;
+}
+
+export class BulkEditProductResultDto {
+  productId: number;
+  sku: string | null;
+  name: string | null;
+  status: 'updated' | 'unchanged' | 'failed';
+  changes: BulkEditChangeDto[];
+  error?: string;
+}
+
+export class BulkEditPreviewResponseDto {
+  dryRun: true;
+  total: number; // Products in the selection
+  previewed: number; // Products included in the preview
+  updatedCount: number;
+  unchangedCount: number;
+  failedCount: number;
+  results: BulkEditProductResultDto[];
+}
+
+export class BulkEditJobResponseDto {
+  id: string;
+  status: 'pending' | 'running' | 'completed' | 'failed';
+  operations: BulkEditOperationDto[];
+  total: number;
+  processed: number;
+  updatedCount: number;
+  unchangedCount: number;
+  failedCount: number;
+  percentage: number;
+  message: string | null;
+  createdById: number;
+  createdAt: Date;
+  startedAt: Date | null;
+  completedAt: Date | null;
+  results?: BulkEditProductResultDto[];
+}
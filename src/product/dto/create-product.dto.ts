@@ -62,6 +62,12 @@ export class CreateProductDto {
   @Transform(({ value }) => value === null || value === undefined ? value : parseInt(value))
   categoryId?: number | null;
 
+  // Every category the product is listed in; categoryId (or the first entry) is the primary one
+  @IsOptional()
+  @IsArray()
+  @IsInt({ each: true })
+  categoryIds?: number[];
+
   @IsOptional()
   @IsArray()
   @IsInt({ each: true })
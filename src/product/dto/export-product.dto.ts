@@ -1,4 +1,4 @@
-import { IsArray, IsInt, IsOptional, IsString, IsEnum, ArrayMinSize, ValidateNested } from 'class-validator';
+import { IsArray, IsInt, IsOptional, IsString, IsEnum, ArrayMinSize, ValidateNested, ValidateIf, IsNotEmpty } from 'class-validator';
 import { Type } from 'class-transformer';
 
 export enum ExportFormat {
@@ -30,6 +30,12 @@ export enum ProductAttribute {
   VARIANT_COUNT = 'variantCount',
   VARIANT_NAMES = 'variantNames',
   VARIANT_SKUS = 'variantSkus',
+  RELATED_SKUS = 'relatedSkus',
+  CROSS_SELL_SKUS = 'crossSellSkus',
+  UP_SELL_SKUS = 'upSellSkus',
+  ACCESSORY_SKUS = 'accessorySkus',
+  REPLACEMENT_SKUS = 'replacementSkus',
+  BUNDLE_COMPONENTS = 'bundleComponents',
   USER_ID = 'userId',
   CREATED_AT = 'createdAt',
   UPDATED_AT = 'updatedAt',
@@ -50,10 +56,18 @@ export class AttributeSelectionDto {
 }
 
 export class ExportProductDto {
+  // Optional when a filter is given; both together export the matching products among the IDs
+  @ValidateIf(o => !o.filter || o.productIds !== undefined)
   @IsArray()
   @IsInt({ each: true })
   @ArrayMinSize(1, { message: 'At least one product ID must be provided' })
-  productIds: number[];
+  productIds?: number[];
+
+  // Filter expression, e.g. 'family = "Chairs" AND Weight IS EMPTY'
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  filter?: string;
 
   @IsArray()
   @IsEnum(ProductAttribute, { each: true })
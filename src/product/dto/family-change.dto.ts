@@ -0,0 +1,65 @@
+import {
+  IsArray,
+  IsBoolean,
+  IsInt,
+  IsOptional,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+// Moves a value to a differently named attribute, e.g. "Colour" -> "Color"
+export class AttributeRemapDto {
+  @IsInt()
+  fromAttributeId: number;
+
+  @IsInt()
+  toAttributeId: number;
+}
+
+export class ChangeFamilyDto {
+  @IsInt()
+  familyId: number;
+
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => AttributeRemapDto)
+  attributeMap?: AttributeRemapDto[];
+
+  // Only report what would happen to the values
+  @IsOptional()
+  @IsBoolean()
+  dryRun?: boolean;
+}
+
+export class FamilyChangeValueDto {
+  attributeId: number;
+  attributeName: string;
+  value: string;
+}
+
+export class FamilyChangeRemapDto {
+  fromAttributeId: number;
+  fromAttributeName: string;
+  toAttributeId: number;
+  toAttributeName: string;
+  value: string;
+  convertedValue: string | null;
+  error?: string; // The value stays on its attribute
+}
+
+export class FamilyChangePreviewDto {
+  productId: number;
+  sku: string;
+  fromFamily: { id: number; name: string } | null;
+  toFamily: { id: number; name: string };
+  carriedOver: FamilyChangeValueDto[]; // Attributes the new family also has
+  remapped: FamilyChangeRemapDto[];
+  becomeCustom: FamilyChangeValueDto[]; // Attributes the new family does not have
+  missingRequired: { attributeId: number; attributeName: string }[];
+}
+
+export class ChangeFamilyResponseDto {
+  dryRun: boolean;
+  changes: FamilyChangePreviewDto[]; // The product followed by its variants
+}
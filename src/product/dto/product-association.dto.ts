@@ -0,0 +1,69 @@
+import { IsEnum, IsInt, IsOptional, Min } from 'class-validator';
+import { PickType } from '@nestjs/mapped-types';
+
+export enum ProductAssociationType {
+  RELATED = 'related',
+  CROSS_SELL = 'cross_sell',
+  UP_SELL = 'up_sell',
+  ACCESSORY = 'accessory',
+  REPLACEMENT = 'replacement',
+  BUNDLE_COMPONENT = 'bundle_component',
+}
+
+// Import/export column per association type. Cells hold comma-separated SKUs;
+// bundle components may add a quantity as 'SKU:2'.
+export const ASSOCIATION_COLUMNS: Record<ProductAssociationType, string> = {
+  [ProductAssociationType.RELATED]: 'relatedSkus',
+  [ProductAssociationType.CROSS_SELL]: 'crossSellSkus',
+  [ProductAssociationType.UP_SELL]: 'upSellSkus',
+  [ProductAssociationType.ACCESSORY]: 'accessorySkus',
+  [ProductAssociationType.REPLACEMENT]: 'replacementSkus',
+  [ProductAssociationType.BUNDLE_COMPONENT]: 'bundleComponents',
+};
+
+export class CreateProductAssociationDto {
+  @IsEnum(ProductAssociationType)
+  type: ProductAssociationType;
+
+  @IsInt()
+  associatedProductId: number;
+
+  // Bundle components only
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  quantity?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  sortOrder?: number;
+}
+
+export class UpdateProductAssociationDto extends PickType(
+  CreateProductAssociationDto,
+  ['quantity', 'sortOrder'] as const,
+) {}
+
+export class GetProductAssociationsDto {
+  @IsOptional()
+  @IsEnum(ProductAssociationType)
+  type?: ProductAssociationType;
+}
+
+export class ProductAssociationResponseDto {
+  id: number;
+  productId: number;
+  type: ProductAssociationType;
+  quantity: number;
+  sortOrder: number;
+  associatedProduct: {
+    id: number;
+    name: string;
+    sku: string;
+    imageUrl: string | null;
+    status: string;
+  };
+  createdAt: Date;
+  updatedAt: Date;
+}
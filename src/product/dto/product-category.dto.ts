@@ -0,0 +1,20 @@
+import { ArrayUnique, IsArray, IsInt, IsOptional } from 'class-validator';
+
+export class SetProductCategoriesDto {
+  // Every category the product is listed in; empty removes all categories
+  @IsArray()
+  @ArrayUnique()
+  @IsInt({ each: true })
+  categoryIds: number[];
+
+  // Defaults to the first entry of categoryIds
+  @IsOptional()
+  @IsInt()
+  primaryCategoryId?: number;
+}
+
+export class ProductCategoryResponseDto {
+  id: number;
+  name: string;
+  isPrimary: boolean;
+}
@@ -0,0 +1,65 @@
+import {
+  IsArray,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsPositive,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { SCOPED_VALUE_CHANNELS } from '../../utils/channel-value.helper';
+import type { ScopedValueChannel } from '../../utils/channel-value.helper';
+
+export class ChannelAttributeValueDto {
+  @IsInt()
+  attributeId: number;
+
+  // Validated against the attribute type; null removes the channel value
+  @IsOptional()
+  value?: any;
+}
+
+export class SetProductChannelValuesDto {
+  @IsIn(SCOPED_VALUE_CHANNELS, {
+    message: `channel must be one of: ${SCOPED_VALUE_CHANNELS.join(', ')}`,
+  })
+  channel: ScopedValueChannel;
+
+  // Required for WooCommerce and MyDeal, not allowed for Amazon
+  @IsOptional()
+  @IsInt()
+  @IsPositive()
+  connectionId?: number;
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ChannelAttributeValueDto)
+  values: ChannelAttributeValueDto[];
+}
+
+export class GetProductChannelValuesDto {
+  @IsOptional()
+  @IsIn(SCOPED_VALUE_CHANNELS, {
+    message: `channel must be one of: ${SCOPED_VALUE_CHANNELS.join(', ')}`,
+  })
+  channel?: ScopedValueChannel;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @IsPositive()
+  connectionId?: number;
+}
+
+export class ProductChannelValueResponseDto {
+  id: number;
+  productId: number;
+  attributeId: number;
+  attributeName: string;
+  type: string;
+  channel: string;
+  connectionId: number | null; // null for Amazon
+  value: any;
+  globalValue: any; // Value used by every other channel
+  updatedAt: Date;
+}
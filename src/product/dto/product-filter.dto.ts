@@ -1,5 +1,6 @@
 import { IsOptional, IsArray, IsInt, IsString, IsEnum } from 'class-validator';
 import { Type } from 'class-transformer';
+import { PickType } from '@nestjs/mapped-types';
 
 export class ProductFilterDto {
   @IsOptional()
@@ -31,6 +32,11 @@ export class ProductFilterDto {
   @IsInt()
   familyId?: number;
 
+  // Filter expression over product fields and attribute values, e.g. 'Color = Red AND Weight > 2'
+  @IsOptional()
+  @IsString()
+  filter?: string;
+
   @IsOptional()
   @Type(() => Number)
   @IsInt()
@@ -49,3 +55,27 @@ export class ProductFilterDto {
   @IsEnum(['asc', 'desc'])
   sortOrder?: 'asc' | 'desc' = 'desc';
 }
+
+// The filters that select products, without paging and sorting (saved views, bulk edits)
+export class ProductFilterCriteriaDto extends PickType(ProductFilterDto, [
+  'search',
+  'status',
+  'categoryId',
+  'attributeIds',
+  'attributeGroupId',
+  'familyId',
+  'filter',
+] as const) {}
+
+// Product list filters as passed to ProductService; null IDs match products without one
+export interface ProductListFilters {
+  search?: string;
+  status?: string;
+  categoryId?: number | null;
+  attributeIds?: number[];
+  attributeGroupId?: number | null;
+  familyId?: number | null;
+  filter?: string;
+  sortBy?: string;
+  sortOrder?: 'asc' | 'desc';
+}
@@ -1,4 +1,5 @@
 import { Transform } from 'class-transformer';
+import { ProductCompletenessDto } from '../../completeness/dto/completeness-response.dto';
 
 export class ProductVariantSummaryDto {
   id: number;
@@ -14,6 +15,8 @@ export class ProductVariantSummaryDto {
     userFriendlyType?: string;
     defaultValue?: string;
     value: string;
+    inheritance?: string; // 'inherit', 'override' or 'locked'
+    valueSource?: string | null; // 'own' or 'parent'
   }[];
 }
 
@@ -39,6 +42,11 @@ export class ProductResponseDto {
     name: string;
     description?: string;
   };
+  categories?: {
+    id: number;
+    name: string;
+    isPrimary: boolean;
+  }[]; // Primary category first
   attributeGroup?: {
     id: number;
     name: string;
@@ -53,6 +61,8 @@ export class ProductResponseDto {
       type: string;
       defaultValue?: string;
       userFriendlyType?: string;
+      inheritance?: string;
+      valueSource?: string | null; // Variants only
     }[];
     optionalAttributes?: {
       id: number;
@@ -60,6 +70,8 @@ export class ProductResponseDto {
       type: string;
       defaultValue?: string;
       userFriendlyType?: string;
+      inheritance?: string;
+      valueSource?: string | null; // Variants only
     }[];
   };
   variants?: ProductVariantSummaryDto[]; // All products that are variants of this product
@@ -67,6 +79,8 @@ export class ProductResponseDto {
   parentProduct?: ProductVariantSummaryDto; // Parent product if this is a variant
   attributes?: any[]; // List of attribute IDs or details
   assets?: any[]; // List of asset IDs or details
+  completeness?: ProductCompletenessDto; // Completeness score and missing items per channel
+  locale?: string; // Locale the name and localizable attribute values were resolved for
 
   /**
    * Message about removed attributes during create/update
@@ -0,0 +1,118 @@
+import { IsInt, IsOptional, IsPositive } from 'class-validator';
+import { Type } from 'class-transformer';
+import { PaginationDto } from '../../common/dto/pagination.dto';
+
+export type ProductRevisionAction =
+  | 'baseline'
+  | 'created'
+  | 'updated'
+  | 'attributes_updated'
+  | 'localizations_updated'
+  | 'channel_values_updated'
+  | 'categories_updated'
+  | 'bulk_edited'
+  | 'restored';
+
+export class GetProductRevisionsDto extends PaginationDto {}
+
+export class ProductRevisionDiffQueryDto {
+  @Type(() => Number)
+  @IsInt({ message: 'from must be an integer' })
+  @IsPositive({ message: 'from must be a positive number' })
+  from: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'to must be an integer' })
+  @IsPositive({ message: 'to must be a positive number' })
+  to?: number;
+}
+
+/**
+ * Stored state of a product at the time a revision was recorded
+ */
+export interface ProductRevisionSnapshot {
+  name: string;
+  sku: string;
+  productLink: string | null;
+  imageUrl: string | null;
+  subImages: string[];
+  thumbnailUrl: string | null;
+  thumbnailSubImages: string[];
+  categoryId: number | null;
+  attributeGroupId: number | null;
+  familyId: number | null;
+  parentProductId: number | null;
+  attributes: {
+    attributeId: number;
+    attributeName: string;
+    familyAttributeId: number | null;
+    value: string | null;
+  }[];
+  assetIds: number[];
+  // Not present in revisions recorded before localized content, channel values
+  // and category rows were tracked; those revisions leave them untouched on restore
+  localizations?: {
+    locale: string;
+    name: string | null;
+  }[];
+  attributeLocalizations?: {
+    attributeId: number;
+    attributeName: string;
+    locale: string;
+    value: string | null;
+  }[];
+  channelValues?: {
+    attributeId: number;
+    attributeName: string;
+    channel: string;
+    connectionId: number;
+    value: string | null;
+  }[];
+  categoryIds?: number[];
+}
+
+export class ProductRevisionResponseDto {
+  id: number;
+  productId: number;
+  createdById: number | null;
+  revisionNumber: number;
+  action: string;
+  changedFields: string[];
+  createdAt: string;
+  snapshot?: ProductRevisionSnapshot;
+}
+
+export class ProductRevisionChangeDto {
+  field: string;
+  kind:
+    | 'field'
+    | 'attribute'
+    | 'asset'
+    | 'localization'
+    | 'channel_value'
+    | 'category';
+  change: 'added' | 'removed' | 'modified';
+  attributeId?: number;
+  attributeName?: string;
+  locale?: string;
+  channel?: string;
+  connectionId?: number;
+  oldValue: any;
+  newValue: any;
+}
+
+export class ProductRevisionDiffResponseDto {
+  productId: number;
+  fromRevision: number;
+  toRevision: number;
+  changes: ProductRevisionChangeDto[];
+}
+
+export class RestoreProductRevisionResponseDto {
+  message: string;
+  restoredFromRevision: number;
+  skippedAttributes: number[];
+  skippedAssets: number[];
+  skippedCategories: number[];
+}
@@ -1,4 +1,4 @@
-import { IsInt, IsNotEmpty, IsArray, IsPositive, IsOptional, IsString, IsIn, ValidateNested } from 'class-validator';
+import { IsInt, IsNotEmpty, IsArray, IsPositive, IsOptional, IsString, IsIn, ValidateNested, ArrayNotEmpty } from 'class-validator';
 import { Transform, Type } from 'class-transformer';
 import { PaginationDto } from '../../common/dto/pagination.dto';
 import { SortingDto } from '../../common/dto/sorting.dto';
@@ -54,3 +54,41 @@ export class ProductVariantResponseDto {
   createdAt: string;
   updatedAt: string;
 }
+
+export class VariantAxisValuesDto {
+  @IsInt({ message: 'attributeId must be an integer' })
+  attributeId: number;
+
+  @IsArray()
+  @ArrayNotEmpty({ message: 'Each axis needs at least one value' })
+  @IsString({ each: true })
+  values: string[];
+}
+
+export class GenerateVariantMatrixDto {
+  // One entry per variant axis of the parent's family
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => VariantAxisValuesDto)
+  axes: VariantAxisValuesDto[];
+
+  // Placeholders: {parentSku}, {parentName}, {values} and {<axis attribute name>}
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  skuTemplate?: string = '{parentSku}-{values}';
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  nameTemplate?: string = '{parentName} - {values}';
+}
+
+export class GenerateVariantMatrixResponseDto {
+  created: ProductVariantResponseDto[];
+  skipped: Array<{ sku: string; values: Record<string, string>; reason: string }>;
+  // Attribute levels declared by the family
+  variantAttributeIds: number[];
+  parentAttributeIds: number[];
+}
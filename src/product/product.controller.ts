@@ -4,6 +4,7 @@ import {
   Post,
   Body,
   Patch,
+  Put,
   Param,
   Delete,
   UseGuards,
@@ -24,11 +25,20 @@ import { ProductService } from './product.service';
 import { CreateProductDto } from './dto/create-product.dto';
 import { BulkDeleteDto } from './dto/bulk-delete.dto';
 import { BulkAttachToFamilyDto, BulkAttachToFamilyResponseDto } from './dto/bulk-attach-to-family.dto';
+import { ChangeFamilyDto, ChangeFamilyResponseDto } from './dto/family-change.dto';
+import { BulkEditProductsDto, BulkEditJobResponseDto, BulkEditPreviewResponseDto } from './dto/bulk-edit.dto';
 import { UpdateProductDto } from './dto/update-product.dto';
 import { UpdateProductAttributesDto } from './dto/update-product-attribute.dto';
 import { ProductResponseDto } from './dto/product-response.dto';
-import { AddVariantDto, RemoveVariantDto, GetProductVariantsDto, ProductVariantResponseDto } from './dto/product-variant.dto';
+import { AddVariantDto, RemoveVariantDto, GetProductVariantsDto, ProductVariantResponseDto, GenerateVariantMatrixDto, GenerateVariantMatrixResponseDto } from './dto/product-variant.dto';
 import { ExportProductDto, ExportProductResponseDto } from './dto/export-product.dto';
+import {
+  GetProductRevisionsDto,
+  ProductRevisionDiffQueryDto,
+  ProductRevisionDiffResponseDto,
+  ProductRevisionResponseDto,
+  RestoreProductRevisionResponseDto,
+} from './dto/product-revision.dto';
 // import { MarketplaceExportDto, MarketplaceExportResponseDto, MarketplaceType } from './dto/marketplace-export.dto';
 import { 
   ScheduleImportDto, 
@@ -50,6 +60,17 @@ import type { User } from '@prisma/client';
 // import { MarketplaceTemplateService } from './services/marketplace-template.service';
 // import { MarketplaceExportService } from './services/marketplace-export.service';
 import { CsvImportService } from './services/csv-import.service';
+import { ProductRevisionService } from './services/product-revision.service';
+import { LocalizationService } from '../localization/localization.service';
+import { ProductChannelValueService } from './services/product-channel-value.service';
+import { ProductBulkEditService } from './services/product-bulk-edit.service';
+import { ProductFamilyChangeService } from './services/product-family-change.service';
+import { ProductAssociationService } from './services/product-association.service';
+import { ProductCategoryService } from './services/product-category.service';
+import { GetProductChannelValuesDto, SetProductChannelValuesDto, ProductChannelValueResponseDto } from './dto/product-channel-value.dto';
+import { CreateProductAssociationDto, UpdateProductAssociationDto, GetProductAssociationsDto, ProductAssociationResponseDto, ProductAssociationType } from './dto/product-association.dto';
+import { SetProductCategoriesDto, ProductCategoryResponseDto } from './dto/product-category.dto';
+import { UpsertProductLocalizationDto, ProductLocalizationResponseDto } from '../localization/dto';
 import { FileInterceptor } from '@nestjs/platform-express';
 import { UploadedFile } from '@nestjs/common';
 import { ImportProductsDto, ImportProductsResponseDto } from './dto/import-products.dto';
@@ -65,6 +86,13 @@ export class ProductController {
   constructor(
     private readonly productService: ProductService,
     private readonly csvImportService: CsvImportService,
+    private readonly productRevisionService: ProductRevisionService,
+    private readonly localizationService: LocalizationService,
+    private readonly productChannelValueService: ProductChannelValueService,
+    private readonly productBulkEditService: ProductBulkEditService,
+    private readonly productFamilyChangeService: ProductFamilyChangeService,
+    private readonly productAssociationService: ProductAssociationService,
+    private readonly productCategoryService: ProductCategoryService,
   ) {}
 
   @Post()
@@ -77,7 +105,7 @@ export class ProductController {
   ): Promise<ProductResponseDto> {
     this.logger.log(`User ${user.id} creating product: ${createProductDto.name}`);
     
-    return this.productService.create(createProductDto, effectiveUserId);
+    return this.productService.create(createProductDto, effectiveUserId, user.id);
   }
 
   @Get()
@@ -94,8 +122,10 @@ export class ProductController {
     @Query('limit') limit?: string,
     @Query('sortBy') sortBy?: string,
     @Query('sortOrder') sortOrder?: string,
+    @Query('locale') locale?: string,
+    @Query('filter') filter?: string,
   ): Promise<PaginatedResponse<ProductResponseDto>> {
-    this.logger.log(`User ${user.id} fetching products`);
+    this.logger.log(`User ${user.id} fetching products${filter ? ` with filter: ${filter}` : ''}`);
     
     const categoryIdInt = categoryId === 'null' ? null : categoryId ? parseInt(categoryId) : undefined;
     
@@ -124,7 +154,10 @@ export class ProductController {
       pageNum,
       limitNum,
       sortBy,
-      sortOrderValidated
+      sortOrderValidated,
+      false,
+      locale,
+      filter
     );
   }
 
@@ -220,10 +253,11 @@ export class ProductController {
     @Param('id', ParseIntPipe) id: number,
     @GetUser() user: User,
     @EffectiveUserId() effectiveUserId: number,
+    @Query('locale') locale?: string,
   ): Promise<ProductResponseDto> {
     this.logger.log(`User ${user.id} fetching product:000000000000 ${id}`);
     
-    return this.productService.findOne(id, effectiveUserId);
+    return this.productService.findOne(id, effectiveUserId, false, locale);
   }
 
   @Patch(':id')
@@ -236,7 +270,7 @@ export class ProductController {
   ): Promise<ProductResponseDto> {
     this.logger.log(`User ${user.id} updating product: ${id}`);
     
-    return this.productService.update(id, updateProductDto, effectiveUserId);
+    return this.productService.update(id, updateProductDto, effectiveUserId, user.id);
   }
 
   @Delete(':id')
@@ -259,12 +293,62 @@ export class ProductController {
     @Body() body: BulkDeleteDto,
     @GetUser() user: User,
     @EffectiveUserId() effectiveUserId: number,
-  ): Promise<{ message: string; deletedCount: number }> {
+  ): Promise<{ message: string; deletedCount: number; operationId: string | null }> {
     this.logger.log(`User ${user.id} bulk deleting products`);
 
-    const deletedCount = await this.productService.bulkRemove(body.ids ?? [], effectiveUserId, body.filters);
+    const { deletedCount, operationId } = await this.productService.bulkRemove(body.ids ?? [], effectiveUserId, body.filters, user.id);
+
+    return { message: `Deleted ${deletedCount} product(s)`, deletedCount, operationId };
+  }
+
+  @Post('bulk-edit')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions({ resource: 'products', action: 'update' })
+  async bulkEdit(
+    @Body() bulkEditDto: BulkEditProductsDto,
+    @GetUser() user: User,
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<BulkEditJobResponseDto | BulkEditPreviewResponseDto> {
+    this.logger.log(`User ${user.id} ${bulkEditDto.dryRun ? 'previewing' : 'starting'} bulk edit with ${bulkEditDto.operations.length} operation(s)`);
+
+    if (bulkEditDto.dryRun) {
+      return this.productBulkEditService.preview(bulkEditDto, effectiveUserId);
+    }
+    return this.productBulkEditService.startJob(bulkEditDto, effectiveUserId, user.id);
+  }
+
+  @Get('bulk-edit/jobs')
+  @RequirePermissions({ resource: 'products', action: 'update' })
+  async getBulkEditJobs(
+    @GetUser() user: User,
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<BulkEditJobResponseDto[]> {
+    this.logger.log(`User ${user.id} fetching bulk edit jobs`);
+
+    return this.productBulkEditService.getJobs(effectiveUserId);
+  }
+
+  @Get('bulk-edit/jobs/:jobId')
+  @RequirePermissions({ resource: 'products', action: 'update' })
+  async getBulkEditJob(
+    @Param('jobId') jobId: string,
+    @GetUser() user: User,
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<BulkEditJobResponseDto> {
+    this.logger.log(`User ${user.id} fetching bulk edit job: ${jobId}`);
+
+    return this.productBulkEditService.getJob(jobId, effectiveUserId);
+  }
 
-    return { message: `Deleted ${deletedCount} product(s)`, deletedCount };
+  @Sse('bulk-edit/jobs/:jobId/progress')
+  @RequirePermissions({ resource: 'products', action: 'update' })
+  bulkEditProgress(
+    @Param('jobId') jobId: string,
+    @GetUser() user: User,
+    @EffectiveUserId() effectiveUserId: number,
+  ) {
+    this.logger.log(`User ${user.id} subscribing to bulk edit progress for job ${jobId}`);
+    return this.productBulkEditService.getProgressStream(jobId, effectiveUserId);
   }
 
   // Product Variant Management Endpoints
@@ -283,6 +367,20 @@ export class ProductController {
     return this.productService.addVariant(parentId, addVariantDto, effectiveUserId);
   }
 
+  @Post(':parentId/variants/generate')
+  @HttpCode(HttpStatus.CREATED)
+  @RequirePermissions({ resource: 'products', action: 'update' })
+  async generateVariantMatrix(
+    @Param('parentId', ParseIntPipe) parentId: number,
+    @Body() generateDto: GenerateVariantMatrixDto,
+    @GetUser() user: User,
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<GenerateVariantMatrixResponseDto> {
+    this.logger.log(`User ${user.id} generating variant matrix for parent product ${parentId}`);
+
+    return this.productService.generateVariantMatrix(parentId, generateDto, effectiveUserId, user.id);
+  }
+
   @Delete(':parentId/variants/:variantId')
   @HttpCode(HttpStatus.OK)
   @RequirePermissions({ resource: 'products', action: 'update' })
@@ -329,7 +427,7 @@ export class ProductController {
     @GetUser() user: User,
     @EffectiveUserId() effectiveUserId: number,
   ): Promise<ExportProductResponseDto> {
-    this.logger.log(`User ${user.id} exporting ${exportDto.productIds.length} products with attributes: ${exportDto.attributes.join(', ')}`);
+    this.logger.log(`User ${user.id} exporting ${exportDto.filter ? `products matching "${exportDto.filter}"` : `${exportDto.productIds?.length} products`} with attributes: ${exportDto.attributes.join(', ')}`);
     
     return this.productService.exportProducts(exportDto, effectiveUserId);
   }
@@ -343,7 +441,7 @@ export class ProductController {
     @EffectiveUserId() effectiveUserId: number,
     @Res({ passthrough: true }) res: Response,
   ): Promise<StreamableFile> {
-    this.logger.log(`User ${user.id} downloading ${exportDto.productIds.length} products with attributes: ${exportDto.attributes.join(', ')}`);
+    this.logger.log(`User ${user.id} downloading ${exportDto.filter ? `products matching "${exportDto.filter}"` : `${exportDto.productIds?.length} products`} with attributes: ${exportDto.attributes.join(', ')}`);
     
     const result = await this.productService.exportProductsAsFile(exportDto, effectiveUserId);
     
@@ -372,7 +470,8 @@ export class ProductController {
     return this.productService.updateProductAttributeValues(
       productId,
       updateAttributesDto.attributes,
-      effectiveUserId
+      effectiveUserId,
+      user.id,
     );
   }
 
@@ -387,6 +486,230 @@ export class ProductController {
     return this.productService.getProductAttributeValues(productId, effectiveUserId);
   }
 
+  // Product Revision Endpoints
+
+  @Get(':id/revisions')
+  async getRevisions(
+    @Param('id', ParseIntPipe) productId: number,
+    @GetUser() user: User,
+    @EffectiveUserId() effectiveUserId: number,
+    @Query() queryDto: GetProductRevisionsDto,
+  ): Promise<PaginatedResponse<ProductRevisionResponseDto>> {
+    this.logger.log(`User ${user.id} fetching revisions for product: ${productId}`);
+
+    return this.productRevisionService.getRevisions(productId, effectiveUserId, queryDto.page, queryDto.limit);
+  }
+
+  @Get(':id/revisions/diff')
+  async diffRevisions(
+    @Param('id', ParseIntPipe) productId: number,
+    @GetUser() user: User,
+    @EffectiveUserId() effectiveUserId: number,
+    @Query() queryDto: ProductRevisionDiffQueryDto,
+  ): Promise<ProductRevisionDiffResponseDto> {
+    this.logger.log(`User ${user.id} diffing revisions ${queryDto.from}..${queryDto.to ?? 'latest'} for product: ${productId}`);
+
+    return this.productRevisionService.diffRevisions(productId, effectiveUserId, queryDto.from, queryDto.to);
+  }
+
+  @Get(':id/revisions/:revisionId')
+  async getRevision(
+    @Param('id', ParseIntPipe) productId: number,
+    @Param('revisionId', ParseIntPipe) revisionId: number,
+    @GetUser() user: User,
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<ProductRevisionResponseDto> {
+    this.logger.log(`User ${user.id} fetching revision ${revisionId} for product: ${productId}`);
+
+    return this.productRevisionService.getRevision(productId, revisionId, effectiveUserId);
+  }
+
+  @Post(':id/revisions/:revisionId/restore')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions({ resource: 'products', action: 'update' })
+  async restoreRevision(
+    @Param('id', ParseIntPipe) productId: number,
+    @Param('revisionId', ParseIntPipe) revisionId: number,
+    @GetUser() user: User,
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<RestoreProductRevisionResponseDto & { product: ProductResponseDto }> {
+    this.logger.log(`User ${user.id} restoring product ${productId} to revision ${revisionId}`);
+
+    return this.productService.restoreRevision(productId, revisionId, effectiveUserId, user.id);
+  }
+
+  // Product Localization Endpoints
+
+  @Get(':id/locales')
+  async getLocalizations(
+    @Param('id', ParseIntPipe) productId: number,
+    @GetUser() user: User,
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<ProductLocalizationResponseDto[]> {
+    this.logger.log(`User ${user.id} fetching locales for product: ${productId}`);
+
+    return this.localizationService.getProductLocalizations(productId, effectiveUserId);
+  }
+
+  @Get(':id/locales/:locale')
+  async getLocalization(
+    @Param('id', ParseIntPipe) productId: number,
+    @Param('locale') locale: string,
+    @GetUser() user: User,
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<ProductLocalizationResponseDto> {
+    this.logger.log(`User ${user.id} fetching ${locale} content for product: ${productId}`);
+
+    return this.localizationService.getProductLocalization(productId, locale, effectiveUserId);
+  }
+
+  @Put(':id/locales/:locale')
+  @RequirePermissions({ resource: 'products', action: 'update' })
+  async upsertLocalization(
+    @Param('id', ParseIntPipe) productId: number,
+    @Param('locale') locale: string,
+    @Body() upsertDto: UpsertProductLocalizationDto,
+    @GetUser() user: User,
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<ProductLocalizationResponseDto> {
+    this.logger.log(`User ${user.id} updating ${locale} content for product: ${productId}`);
+
+    return this.productService.upsertLocalization(productId, locale, upsertDto, effectiveUserId, user.id);
+  }
+
+  @Delete(':id/locales/:locale')
+  @RequirePermissions({ resource: 'products', action: 'update' })
+  async removeLocalization(
+    @Param('id', ParseIntPipe) productId: number,
+    @Param('locale') locale: string,
+    @GetUser() user: User,
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<{ message: string }> {
+    this.logger.log(`User ${user.id} removing ${locale} content from product: ${productId}`);
+
+    return this.productService.removeLocalization(productId, locale, effectiveUserId, user.id);
+  }
+
+  // Channel-Scoped Attribute Value Endpoints
+
+  @Get(':id/channel-values')
+  async getChannelValues(
+    @Param('id', ParseIntPipe) productId: number,
+    @GetUser() user: User,
+    @EffectiveUserId() effectiveUserId: number,
+    @Query() queryDto: GetProductChannelValuesDto,
+  ): Promise<ProductChannelValueResponseDto[]> {
+    this.logger.log(`User ${user.id} fetching channel values for product: ${productId}`);
+
+    return this.productChannelValueService.getChannelValues(productId, effectiveUserId, queryDto);
+  }
+
+  @Put(':id/channel-values')
+  @RequirePermissions({ resource: 'products', action: 'update' })
+  async setChannelValues(
+    @Param('id', ParseIntPipe) productId: number,
+    @Body() setDto: SetProductChannelValuesDto,
+    @GetUser() user: User,
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<ProductChannelValueResponseDto[]> {
+    this.logger.log(`User ${user.id} setting ${setDto.channel} values for product: ${productId}`);
+
+    return this.productService.setChannelValues(productId, setDto, effectiveUserId, user.id);
+  }
+
+  @Delete(':id/channel-values/:valueId')
+  @RequirePermissions({ resource: 'products', action: 'update' })
+  async removeChannelValue(
+    @Param('id', ParseIntPipe) productId: number,
+    @Param('valueId', ParseIntPipe) valueId: number,
+    @GetUser() user: User,
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<{ message: string; channel: string; connectionId: number | null }> {
+    this.logger.log(`User ${user.id} removing channel value ${valueId} from product: ${productId}`);
+
+    return this.productService.removeChannelValue(productId, valueId, effectiveUserId, user.id);
+  }
+
+  // Product Category Endpoints
+
+  @Get(':id/categories')
+  async getProductCategories(
+    @Param('id', ParseIntPipe) productId: number,
+    @GetUser() user: User,
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<ProductCategoryResponseDto[]> {
+    this.logger.log(`User ${user.id} fetching categories for product: ${productId}`);
+
+    return this.productCategoryService.getCategories(productId, effectiveUserId);
+  }
+
+  @Put(':id/categories')
+  @RequirePermissions({ resource: 'products', action: 'update' })
+  async setProductCategories(
+    @Param('id', ParseIntPipe) productId: number,
+    @Body() setDto: SetProductCategoriesDto,
+    @GetUser() user: User,
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<ProductCategoryResponseDto[]> {
+    this.logger.log(`User ${user.id} setting ${setDto.categoryIds.length} categories on product: ${productId}`);
+
+    return this.productService.setProductCategories(productId, setDto, effectiveUserId, user.id);
+  }
+
+  // Product Association Endpoints
+
+  @Get(':id/associations')
+  async getAssociations(
+    @Param('id', ParseIntPipe) productId: number,
+    @GetUser() user: User,
+    @EffectiveUserId() effectiveUserId: number,
+    @Query() queryDto: GetProductAssociationsDto,
+  ): Promise<ProductAssociationResponseDto[]> {
+    this.logger.log(`User ${user.id} fetching associations for product: ${productId}`);
+
+    return this.productAssociationService.getAssociations(productId, effectiveUserId, queryDto);
+  }
+
+  @Post(':id/associations')
+  @RequirePermissions({ resource: 'products', action: 'update' })
+  async createAssociation(
+    @Param('id', ParseIntPipe) productId: number,
+    @Body() createDto: CreateProductAssociationDto,
+    @GetUser() user: User,
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<ProductAssociationResponseDto> {
+    this.logger.log(`User ${user.id} adding ${createDto.type} association to product: ${productId}`);
+
+    return this.productService.createAssociation(productId, createDto, effectiveUserId);
+  }
+
+  @Patch(':id/associations/:associationId')
+  @RequirePermissions({ resource: 'products', action: 'update' })
+  async updateAssociation(
+    @Param('id', ParseIntPipe) productId: number,
+    @Param('associationId', ParseIntPipe) associationId: number,
+    @Body() updateDto: UpdateProductAssociationDto,
+    @GetUser() user: User,
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<ProductAssociationResponseDto> {
+    this.logger.log(`User ${user.id} updating association ${associationId} of product: ${productId}`);
+
+    return this.productService.updateAssociation(productId, associationId, updateDto, effectiveUserId);
+  }
+
+  @Delete(':id/associations/:associationId')
+  @RequirePermissions({ resource: 'products', action: 'update' })
+  async removeAssociation(
+    @Param('id', ParseIntPipe) productId: number,
+    @Param('associationId', ParseIntPipe) associationId: number,
+    @GetUser() user: User,
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<{ message: string; type: ProductAssociationType }> {
+    this.logger.log(`User ${user.id} removing association ${associationId} from product: ${productId}`);
+
+    return this.productService.removeAssociation(productId, associationId, effectiveUserId);
+  }
+
   // CSV Import Endpoints
 
   @Post('import-csv')
@@ -647,10 +970,27 @@ export class ProductController {
       `User ${user.id} bulk attaching ${bulkAttachDto.productIds.length} products to family ${bulkAttachDto.familyId}`
     );
     
-    return this.productService.bulkAttachProductsToFamily(
+    return this.productFamilyChangeService.changeFamilies(
       bulkAttachDto.productIds,
-      bulkAttachDto.familyId,
+      bulkAttachDto,
       effectiveUserId,
+      user.id,
     );
   }
+
+  @Post(':id/family')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions({ resource: 'products', action: 'update' })
+  async changeFamily(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() changeFamilyDto: ChangeFamilyDto,
+    @GetUser() user: User,
+    @EffectiveUserId() effectiveUserId: number,
+  ): Promise<ChangeFamilyResponseDto> {
+    this.logger.log(
+      `User ${user.id} ${changeFamilyDto.dryRun ? 'previewing' : 'applying'} family change of product ${id} to family ${changeFamilyDto.familyId}`
+    );
+
+    return this.productFamilyChangeService.changeFamily(id, changeFamilyDto, effectiveUserId, user.id);
+  }
 }
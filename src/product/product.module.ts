@@ -7,19 +7,34 @@ import { CsvImportService } from './services/csv-import.service';
 import { ImportSchedulerService } from './services/import-scheduler.service';
 import { ExcelImportService } from './services/excel-import.service';
 import { ExportGeneratorService } from './services/export-generator.service';
+import { ProductRevisionService } from './services/product-revision.service';
+import { ProductChannelValueService } from './services/product-channel-value.service';
+import { ProductFilterService } from './services/product-filter.service';
+import { ProductAssociationService } from './services/product-association.service';
+import { ProductCategoryService } from './services/product-category.service';
+import { ProductBulkEditService } from './services/product-bulk-edit.service';
+import { ProductFamilyChangeService } from './services/product-family-change.service';
 import { PrismaModule } from '../prisma/prisma.module';
 import { AssetModule } from '../asset/asset.module';
+import { AttributeModule } from '../attribute/attribute.module';
 import { NotificationModule } from '../notification/notification.module';
 import { WebhookModule } from '../webhook/webhook.module';
 import { IntegrationModule } from '../integration/integration.module';
+import { CompletenessModule } from '../completeness/completeness.module';
+import { LocalizationModule } from '../localization/localization.module';
+import { OperationJournalModule } from '../operation-journal/operation-journal.module';
 import { ScheduleModule } from '@nestjs/schedule';
 
 @Module({
   imports: [
     PrismaModule, 
     AssetModule, 
+    AttributeModule,
     NotificationModule, 
     WebhookModule, 
+    CompletenessModule,
+    LocalizationModule,
+    OperationJournalModule,
     forwardRef(() => IntegrationModule),
     ScheduleModule.forRoot()
   ],
@@ -30,7 +45,14 @@ import { ScheduleModule } from '@nestjs/schedule';
     ImportSchedulerService,
     ExcelImportService,
     ExportGeneratorService,
+    ProductRevisionService,
+    ProductChannelValueService,
+    ProductFilterService,
+    ProductBulkEditService,
+    ProductFamilyChangeService,
+    ProductAssociationService,
+    ProductCategoryService,
   ],
-  exports: [ProductService],
+  exports: [ProductService, ProductBulkEditService, ProductFamilyChangeService],
 })
 export class ProductModule {}
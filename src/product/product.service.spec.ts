@@ -0,0 +1,493 @@
+import { Test } from '@nestjs/testing';
+import { ProductService } from './product.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { NotificationService } from '../notification/notification.service';
+import { WebhookService } from '../webhook/webhook.service';
+import { WebhookFormatterService } from '../webhook/webhook-formatter.service';
+import { AttributeConstraintValidator } from '../attribute/validators/attribute-constraint.validator';
+import { ProductRevisionService } from './services/product-revision.service';
+import { ProductCategoryService } from './services/product-category.service';
+import { WooCommerceAutoSyncService } from '../integration/woocommerce/woocommerce-auto-sync.service';
+import { ProductRevisionSnapshot } from './dto/product-revision.dto';
+import { AttributeType } from '../types/attribute-type.enum';
+import { ProductAttribute } from './dto/export-product.dto';
+
+const USER_ID = 1;
+const STAFF_ID = 2;
+
+describe('ProductService', () => {
+  let service: ProductService;
+  let prisma: any;
+  let tx: any;
+  let productRevisionService: {
+    getRevisionSnapshot: jest.Mock;
+    recordRevision: jest.Mock;
+  };
+  let productCategoryService: {
+    replaceCategories: jest.Mock;
+    setPrimaryCategory: jest.Mock;
+  };
+  let webhookService: {
+    getActiveWebhooksForEvent: jest.Mock;
+    deliverWebhook: jest.Mock;
+  };
+  let normalize: jest.Mock;
+
+  beforeEach(async () => {
+    tx = {};
+    for (const model of [
+      'productAttribute',
+      'productAsset',
+      'productLocalization',
+      'productAttributeLocalization',
+      'productAttributeChannelValue',
+    ]) {
+      tx[model] = { deleteMany: jest.fn(), createMany: jest.fn() };
+    }
+    tx.product = { update: jest.fn() };
+
+    prisma = {
+      $transaction: jest.fn((fn) => fn(tx)),
+      product: {
+        update: jest.fn(),
+        findFirst: jest.fn(),
+        findMany: jest.fn().mockResolvedValue([]),
+        create: jest.fn(),
+      },
+      attribute: { findMany: jest.fn() },
+      familyAttribute: { findMany: jest.fn().mockResolvedValue([]) },
+      asset: { findMany: jest.fn().mockResolvedValue([]) },
+      category: {
+        findMany: jest.fn().mockResolvedValue([]),
+        findFirst: jest.fn().mockResolvedValue(null),
+      },
+      attributeGroup: { findFirst: jest.fn() },
+      family: { findFirst: jest.fn().mockResolvedValue(null) },
+    };
+    productRevisionService = {
+      getRevisionSnapshot: jest.fn(),
+      recordRevision: jest.fn(),
+    };
+    productCategoryService = {
+      replaceCategories: jest.fn(),
+      setPrimaryCategory: jest.fn(),
+    };
+    webhookService = {
+      getActiveWebhooksForEvent: jest.fn().mockResolvedValue([]),
+      deliverWebhook: jest.fn(),
+    };
+    normalize = jest.fn();
+
+    const module = await Test.createTestingModule({
+      providers: [
+        ProductService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: ProductRevisionService, useValue: productRevisionService },
+        { provide: ProductCategoryService, useValue: productCategoryService },
+        {
+          provide: NotificationService,
+          useValue: {
+            createNotification: jest.fn(),
+            logBulkOperation: jest.fn(),
+          },
+        },
+        { provide: WebhookService, useValue: webhookService },
+        {
+          provide: WebhookFormatterService,
+          useValue: {
+            formatProductCreated: (product: { id: number }) => ({
+              event: 'product.created',
+              productId: product.id,
+            }),
+          },
+        },
+        { provide: AttributeConstraintValidator, useValue: { normalize } },
+        {
+          provide: WooCommerceAutoSyncService,
+          useValue: {
+            autoSyncProductUpdate: jest.fn().mockResolvedValue(undefined),
+          },
+        },
+      ],
+    })
+      // Collaborators the tested paths do not reach
+      .useMocker(() => ({}))
+      .compile();
+
+    service = module.get(ProductService);
+    jest
+      .spyOn(service, 'findOne')
+      .mockResolvedValue({ id: 42, name: 'Tee' } as any);
+    jest
+      .spyOn(service as any, 'calculateProductStatus')
+      .mockResolvedValue('complete');
+  });
+
+  describe('restoreRevision', () => {
+    const snapshot: ProductRevisionSnapshot = {
+      name: 'Tee',
+      sku: 'TEE-1',
+      productLink: null,
+      imageUrl: null,
+      subImages: [],
+      thumbnailUrl: null,
+      thumbnailSubImages: [],
+      categoryId: 3,
+      attributeGroupId: null,
+      familyId: null,
+      parentProductId: null,
+      attributes: [
+        {
+          attributeId: 7,
+          attributeName: 'Description',
+          familyAttributeId: 70,
+          value: 'Soft cotton',
+        },
+        {
+          attributeId: 8,
+          attributeName: 'Deleted',
+          familyAttributeId: null,
+          value: 'gone',
+        },
+      ],
+      assetIds: [],
+      localizations: [{ locale: 'de-DE', name: 'T-Shirt' }],
+      attributeLocalizations: [
+        {
+          attributeId: 8,
+          attributeName: 'Deleted',
+          locale: 'de-DE',
+          value: 'weg',
+        },
+      ],
+      channelValues: [
+        {
+          attributeId: 7,
+          attributeName: 'Description',
+          channel: 'WOOCOMMERCE',
+          connectionId: 3,
+          value: 'Soft cotton tee',
+        },
+      ],
+      categoryIds: [3, 9],
+    };
+
+    beforeEach(() => {
+      // Attribute 8 and category 9 were deleted since the revision
+      prisma.attribute.findMany.mockResolvedValue([{ id: 7 }]);
+      prisma.category.findMany.mockResolvedValue([{ id: 3 }]);
+      prisma.category.findFirst.mockResolvedValue({ id: 3 });
+    });
+
+    it('should restore the tracked state, skipping what no longer exists', async () => {
+      productRevisionService.getRevisionSnapshot.mockResolvedValue({
+        revisionNumber: 4,
+        snapshot,
+      });
+
+      const result = await service.restoreRevision(42, 11, USER_ID, STAFF_ID);
+
+      expect(result).toMatchObject({
+        restoredFromRevision: 4,
+        skippedAttributes: [8],
+        skippedCategories: [9],
+      });
+      expect(tx.productAttribute.createMany).toHaveBeenCalledWith({
+        data: [
+          {
+            productId: 42,
+            attributeId: 7,
+            familyAttributeId: null, // The family attribute is gone as well
+            value: 'Soft cotton',
+          },
+        ],
+      });
+      expect(productCategoryService.replaceCategories).toHaveBeenCalledWith(
+        42,
+        3,
+        [3],
+        tx,
+      );
+      expect(tx.productLocalization.createMany).toHaveBeenCalledWith({
+        data: [{ productId: 42, locale: 'de-DE', name: 'T-Shirt' }],
+      });
+      expect(tx.productAttributeLocalization.deleteMany).toHaveBeenCalled();
+      expect(tx.productAttributeLocalization.createMany).not.toHaveBeenCalled();
+      expect(tx.productAttributeChannelValue.createMany).toHaveBeenCalledWith({
+        data: [
+          {
+            productId: 42,
+            attributeId: 7,
+            channel: 'WOOCOMMERCE',
+            connectionId: 3,
+            value: 'Soft cotton tee',
+          },
+        ],
+      });
+      expect(productRevisionService.recordRevision).toHaveBeenCalledWith(
+        42,
+        USER_ID,
+        'restored',
+        STAFF_ID,
+      );
+    });
+
+    it('should leave untracked sections alone for older revisions', async () => {
+      const legacy: ProductRevisionSnapshot = { ...snapshot };
+      delete legacy.localizations;
+      delete legacy.attributeLocalizations;
+      delete legacy.channelValues;
+      delete legacy.categoryIds;
+      productRevisionService.getRevisionSnapshot.mockResolvedValue({
+        revisionNumber: 2,
+        snapshot: legacy,
+      });
+
+      const result = await service.restoreRevision(42, 9, USER_ID);
+
+      expect(result.skippedCategories).toEqual([]);
+      expect(productCategoryService.setPrimaryCategory).toHaveBeenCalledWith(
+        42,
+        3,
+        tx,
+      );
+      expect(productCategoryService.replaceCategories).not.toHaveBeenCalled();
+      expect(tx.productLocalization.deleteMany).not.toHaveBeenCalled();
+      expect(tx.productAttributeLocalization.deleteMany).not.toHaveBeenCalled();
+      expect(tx.productAttributeChannelValue.deleteMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('generateVariantMatrix', () => {
+    const parent = {
+      id: 42,
+      name: 'Tee',
+      sku: 'TEE',
+      imageUrl: null,
+      thumbnailUrl: null,
+      categoryId: 3,
+      familyId: 5,
+      parentProductId: null,
+      family: {
+        familyAttributes: [
+          {
+            attributeId: 7,
+            isVariantAxis: true,
+            attribute: { id: 7, name: 'Color' },
+          },
+          {
+            attributeId: 8,
+            isVariantAxis: true,
+            attribute: { id: 8, name: 'Size' },
+          },
+        ],
+      },
+      // Red/S exists already, stored as its option code
+      variants: [
+        {
+          sku: 'TEE-RED-S',
+          attributes: [
+            { attributeId: 7, value: 'red' },
+            { attributeId: 8, value: 's' },
+          ],
+        },
+      ],
+    };
+    let inheritFromParentProduct: jest.SpyInstance;
+
+    beforeEach(() => {
+      prisma.product.findFirst.mockResolvedValue(parent);
+      prisma.familyAttribute.findMany.mockResolvedValue([
+        { id: 70, attributeId: 7 },
+        { id: 80, attributeId: 8 },
+      ]);
+      let nextId = 100;
+      prisma.product.create.mockImplementation(({ data }) => ({
+        id: nextId++,
+        ...data,
+      }));
+      prisma.product.update.mockImplementation(({ where }) => ({
+        id: where.id,
+        name: `Variant ${where.id}`,
+        sku: `SKU-${where.id}`,
+        status: 'complete',
+        createdAt: new Date('2026-10-01'),
+        updatedAt: new Date('2026-10-01'),
+      }));
+      // Dropdown values are stored as lower case option codes
+      normalize.mockImplementation(
+        (values: { attributeId: number; value: string }[]) => {
+          for (const entry of values) {
+            if (entry.value === 'XXL') {
+              throw new Error(
+                `Size: "XXL" is not an option of ${AttributeType.ENUM} attribute`,
+              );
+            }
+            entry.value = entry.value.toLowerCase();
+          }
+        },
+      );
+      inheritFromParentProduct = jest
+        .spyOn(service as any, 'inheritFromParentProduct')
+        .mockResolvedValue(undefined);
+    });
+
+    it('should store normalized axis values and record each variant like a created product', async () => {
+      webhookService.getActiveWebhooksForEvent.mockResolvedValue([{ id: 9 }]);
+
+      const result = await service.generateVariantMatrix(
+        42,
+        {
+          axes: [
+            { attributeId: 7, values: ['Red'] },
+            { attributeId: 8, values: ['S', 'M'] },
+          ],
+          skuTemplate: '{parentSku}-{values}',
+          nameTemplate: '{parentName} - {values}',
+        },
+        USER_ID,
+        STAFF_ID,
+      );
+
+      expect(result.created.map((variant) => variant.id)).toEqual([100]);
+      expect(result.skipped).toEqual([
+        {
+          sku: 'TEE-Red-S',
+          values: { Color: 'Red', Size: 'S' },
+          reason: 'A variant with these values already exists',
+        },
+      ]);
+      expect(prisma.product.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          sku: 'TEE-Red-M',
+          name: 'Tee - Red / M',
+          attributes: {
+            create: [
+              { attributeId: 7, familyAttributeId: 70, value: 'red' },
+              { attributeId: 8, familyAttributeId: 80, value: 'm' },
+            ],
+          },
+        }),
+      });
+      expect(normalize).toHaveBeenCalledWith(expect.any(Array), USER_ID, {
+        sku: 'TEE-Red-M',
+      });
+      expect(inheritFromParentProduct).toHaveBeenCalledWith(100, 42, USER_ID);
+      expect(productRevisionService.recordRevision).toHaveBeenCalledTimes(1);
+      expect(productRevisionService.recordRevision).toHaveBeenCalledWith(
+        100,
+        USER_ID,
+        'created',
+        STAFF_ID,
+      );
+      expect(webhookService.getActiveWebhooksForEvent).toHaveBeenCalledWith(
+        USER_ID,
+        'product.created',
+      );
+      expect(webhookService.deliverWebhook).toHaveBeenCalledWith(
+        9,
+        'product.created',
+        { event: 'product.created', productId: 42 }, // findOne is stubbed
+      );
+    });
+
+    it('should skip combinations whose axis values are invalid', async () => {
+      const result = await service.generateVariantMatrix(
+        42,
+        {
+          axes: [
+            { attributeId: 7, values: ['Blue'] },
+            { attributeId: 8, values: ['M', ' XXL '] },
+          ],
+          skuTemplate: '{parentSku}-{values}',
+          nameTemplate: '{parentName} - {values}',
+        },
+        USER_ID,
+      );
+
+      expect(result.created).toHaveLength(1);
+      expect(result.skipped).toEqual([
+        {
+          sku: 'TEE-Blue-XXL',
+          values: { Color: 'Blue', Size: 'XXL' },
+          reason: 'Size: "XXL" is not an option of ENUM attribute',
+        },
+      ]);
+      expect(prisma.product.create).toHaveBeenCalledTimes(1);
+      expect(productRevisionService.recordRevision).toHaveBeenCalledWith(
+        100,
+        USER_ID,
+        'created',
+        USER_ID,
+      );
+      expect(webhookService.deliverWebhook).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('exportProducts', () => {
+    const value = (id: number, name: string, stored: string) => ({
+      value: stored,
+      familyAttributeId: null,
+      attribute: { id, name, type: 'STRING', defaultValue: null },
+    });
+
+    it('should export variant values resolved through the parent', async () => {
+      prisma.product.findMany
+        .mockResolvedValueOnce([
+          {
+            id: 51,
+            sku: 'TEE-S',
+            parentProductId: 42,
+            familyId: 5,
+            attributes: [value(7, 'Material', 'Linen')],
+          },
+        ])
+        .mockResolvedValueOnce([
+          {
+            id: 42,
+            attributes: [
+              value(7, 'Material', 'Cotton'),
+              value(9, 'Care', 'Wash cold'),
+            ],
+          },
+        ]);
+      prisma.familyAttribute.findMany.mockResolvedValue([
+        {
+          familyId: 5,
+          attributeId: 7,
+          isVariantAxis: false,
+          inheritance: 'inherit',
+        },
+        {
+          familyId: 5,
+          attributeId: 9,
+          isVariantAxis: false,
+          inheritance: 'override',
+        },
+      ]);
+
+      const result = await service.exportProducts(
+        {
+          productIds: [51],
+          attributes: [
+            ProductAttribute.SKU,
+            ProductAttribute.CUSTOM_ATTRIBUTES,
+          ],
+          selectedAttributes: [
+            { attributeId: 7, attributeName: 'Material' },
+            { attributeId: 9, attributeName: 'Care', columnName: 'Care label' },
+          ],
+        },
+        USER_ID,
+      );
+
+      expect(result.data).toEqual([
+        { sku: 'TEE-S', Material: 'Cotton', 'Care label': 'Wash cold' },
+      ]);
+      expect(prisma.product.findMany).toHaveBeenLastCalledWith({
+        where: { id: { in: [42] }, userId: USER_ID },
+        select: { id: true, attributes: expect.any(Object) },
+      });
+    });
+  });
+});
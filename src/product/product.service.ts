@@ -1,6 +1,6 @@
 import { Injectable, NotFoundException, ConflictException, BadRequestException, Logger, forwardRef, Inject, Optional } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
-import { NotificationService } from '../notification/notification.service';
+import { NotificationService, EntityType, ActionType } from '../notification/notification.service';
 import { WebhookService } from '../webhook/webhook.service';
 import { WebhookFormatterService } from '../webhook/webhook-formatter.service';
 import { CreateProductDto } from './dto/create-product.dto';
@@ -10,18 +10,42 @@ import type { Express } from 'express';
 import { UpdateProductDto } from './dto/update-product.dto';
 import { UpdateProductAttributesDto } from './dto/update-product-attribute.dto';
 import { ProductResponseDto } from './dto/product-response.dto';
-import { AddVariantDto, RemoveVariantDto, ProductVariantResponseDto, GetProductVariantsDto } from './dto/product-variant.dto';
+import { ProductListFilters } from './dto/product-filter.dto';
+import { ProductCompletenessDto } from '../completeness/dto/completeness-response.dto';
+import { AddVariantDto, RemoveVariantDto, ProductVariantResponseDto, GetProductVariantsDto, GenerateVariantMatrixDto, GenerateVariantMatrixResponseDto } from './dto/product-variant.dto';
 import { ExportProductDto, ExportProductResponseDto, ProductAttribute, ExportFormat, AttributeSelectionDto } from './dto/export-product.dto';
 import { ScheduleImportDto, UpdateScheduledImportDto, ImportJobResponseDto } from './dto/schedule-import.dto';
 import { CsvImportService } from './services/csv-import.service';
 import { ImportSchedulerService } from './services/import-scheduler.service';
 import { ExcelImportService } from './services/excel-import.service';
 import { ExportGeneratorService } from './services/export-generator.service';
+import { ProductRevisionService } from './services/product-revision.service';
+import { RestoreProductRevisionResponseDto } from './dto/product-revision.dto';
 import { WooCommerceAutoSyncService } from '../integration/woocommerce/woocommerce-auto-sync.service';
+import { CompletenessService } from '../completeness/completeness.service';
+import { LocalizationService } from '../localization/localization.service';
+import { ProductChannelValueService } from './services/product-channel-value.service';
+import { ProductAssociationService, AssociationImportRow } from './services/product-association.service';
+import { ProductCategoryService } from './services/product-category.service';
+import { ProductFilterService } from './services/product-filter.service';
+import { SetProductChannelValuesDto, ProductChannelValueResponseDto } from './dto/product-channel-value.dto';
+import { CreateProductAssociationDto, UpdateProductAssociationDto, ProductAssociationResponseDto, ProductAssociationType, ASSOCIATION_COLUMNS } from './dto/product-association.dto';
+import { SetProductCategoriesDto, ProductCategoryResponseDto } from './dto/product-category.dto';
+import { IntegrationType } from '../integration/base/integration-type.enum';
+import { UpsertProductLocalizationDto, ProductLocalizationResponseDto } from '../localization/dto';
+import { OperationJournalService } from '../operation-journal/operation-journal.service';
+import { OperationType } from '../operation-journal/dto';
 import { PaginatedResponse, PaginationUtils } from '../common';
 import { getUserFriendlyType } from '../types/user-attribute-type.enum';
 import { SkuPatternHelper } from '../utils/sku-pattern.helper';
+import { VariantLevelHelper, VariantAxis } from '../utils/variant-level.helper';
+import { AttributeInheritanceHelper, InheritanceMode } from '../utils/attribute-inheritance.helper';
+import { AttributeConstraintValidator } from '../attribute/validators/attribute-constraint.validator';
+import { AttributeType } from '../types/attribute-type.enum';
 import { ImageClassificationHelper, ImageClassificationType } from '../utils/image-classification.helper';
+import { CategoryAttributeHelper } from '../utils/category-attribute.helper';
+import { ProductCategoryHelper } from '../utils/product-category.helper';
+import { withRecomputeAfterCommit } from '../utils/computedAttributeUtils';
 import { Subject, Observable, interval } from 'rxjs';
 import { map, takeWhile } from 'rxjs/operators';
 import { randomBytes } from 'crypto';
@@ -39,6 +63,7 @@ export class ProductService {
         description: true,
       },
     },
+    categories: ProductCategoryHelper.include(),
     attributeGroup: {
       select: {
         id: true,
@@ -102,11 +127,53 @@ export class ProductService {
         },
       },
     },
+    parentProduct: {
+      select: {
+        id: true,
+        name: true,
+        sku: true,
+        imageUrl: true,
+        thumbnailUrl: true,
+        status: true,
+        // Variant values are resolved against these by inheritance mode
+        attributes: {
+          select: {
+            value: true,
+            familyAttributeId: true,
+            attribute: {
+              select: {
+                id: true,
+                name: true,
+                type: true,
+                defaultValue: true,
+              },
+            },
+          },
+        },
+      },
+    },
   };
 
   // Cache for family attribute IDs to reduce database queries
   private familyAttributeCache = new Map<number, { data: number[]; timestamp: number }>();
   private readonly CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+  private readonly MAX_VARIANT_MATRIX_SIZE = 500;
+
+  // Attribute values as product exports read them
+  private readonly EXPORT_ATTRIBUTES_SELECT = {
+    select: {
+      value: true,
+      familyAttributeId: true,
+      attribute: {
+        select: {
+          id: true,
+          name: true,
+          type: true,
+          defaultValue: true,
+        },
+      },
+    },
+  };
 
   // Progress tracking for imports
   private progressStreams = new Map<string, Subject<ImportProgressDto>>();
@@ -124,6 +191,15 @@ export class ProductService {
     @Inject(forwardRef(() => ExcelImportService))
     private readonly excelImportService: ExcelImportService,
     private readonly exportGeneratorService: ExportGeneratorService,
+    private readonly productRevisionService: ProductRevisionService,
+    private readonly completenessService: CompletenessService,
+    private readonly localizationService: LocalizationService,
+    private readonly productChannelValueService: ProductChannelValueService,
+    private readonly productFilterService: ProductFilterService,
+    private readonly operationJournalService: OperationJournalService,
+    private readonly productAssociationService: ProductAssociationService,
+    private readonly productCategoryService: ProductCategoryService,
+    private readonly attributeConstraintValidator: AttributeConstraintValidator,
     @Optional()
     @Inject(forwardRef(() => WooCommerceAutoSyncService))
     private readonly wooAutoSyncService?: WooCommerceAutoSyncService,
@@ -315,6 +391,7 @@ export class ProductService {
       const BATCH_SIZE = 50;
       let successCount = 0;
       let processed = 0;
+      const associationRows: AssociationImportRow[] = [];
 
       // Filter out rows that failed validation
       const validationFailureRows = new Set(validationFailures.map(f => f.row));
@@ -342,6 +419,7 @@ export class ProductService {
 
             // Use upsert for transactional insert/update
             await this.upsertProductFromCsv(productDto, userId);
+            associationRows.push({ row: rowNumber, sku: productDto.sku, cells: this.mapRowToAssociationCells(row, mapping) });
             return { success: true };
           } catch (error) {
             const message = error?.message || 'Unknown error';
@@ -375,6 +453,9 @@ export class ProductService {
         });
       }
 
+      // Associations are resolved once every row exists, so rows can refer to later SKUs
+      failedRows.push(...await this.productAssociationService.importAssociations(associationRows, userId));
+
       // Final completion update
       this.updateProgress(sessionId, {
         processed: totalRows,
@@ -463,6 +544,7 @@ export class ProductService {
 
     const BATCH_SIZE = 100;
     let successCount = 0;
+    const associationRows: AssociationImportRow[] = [];
 
     // Filter out rows that failed validation
     const validationFailureRows = new Set(validationFailures.map(f => f.row));
@@ -489,6 +571,7 @@ export class ProductService {
           }
 
           await this.upsertProductFromCsv(productDto, userId);
+          associationRows.push({ row: rowNumber, sku: productDto.sku, cells: this.mapRowToAssociationCells(row, mapping) });
           return { success: true };
         } catch (error) {
           const message = error?.message || 'Unknown error';
@@ -504,9 +587,24 @@ export class ProductService {
       ).length;
     }
 
+    // Associations are resolved once every row exists, so rows can refer to later SKUs
+    failedRows.push(...await this.productAssociationService.importAssociations(associationRows, userId));
+
     return { totalRows, successCount, failedRows };
   }
 
+  // Association cells of an Excel row, read through the same mapping as the product fields
+  private mapRowToAssociationCells(row: Record<string, any>, mapping: Record<string, string>) {
+    const values: Record<string, unknown> = {};
+    for (const column of Object.values(ASSOCIATION_COLUMNS)) {
+      const header = mapping[column];
+      if (!header) continue;
+      const cleanHeader = header.replace(/\s*\[.*?\]\s*$/, '').trim();
+      values[column] = row[cleanHeader] !== undefined ? row[cleanHeader] : (row[header] ?? null);
+    }
+    return this.productAssociationService.extractAssociationCells(values);
+  }
+
   private async mapRowToCreateProductDto(row: Record<string, any>, mapping: Record<string, string>, userId: number): Promise<CreateProductDto> {
     const productDto: any = {} as CreateProductDto;
     console.log('Mapping row to CreateProductDto:', row);
@@ -606,7 +704,7 @@ export class ProductService {
     
     for (const [key, header] of Object.entries(mapping)) {
       if (!header) continue;
-      if (['sku', 'name', 'productLink', 'imageUrl', 'subImages', 'category', 'family', 'parentSku'].includes(key)) continue;
+      if (['sku', 'name', 'productLink', 'imageUrl', 'subImages', 'category', 'family', 'parentSku', ...Object.values(ASSOCIATION_COLUMNS)].includes(key)) continue;
       console.log(`Processing mapping for key "${key}" to header "${header}"`);
       
       // Strip type suffix from header to match actual column name in row
@@ -687,7 +785,7 @@ export class ProductService {
     return productDto;
   }
 
-  async create(createProductDto: CreateProductDto, userId: number): Promise<ProductResponseDto> {
+  async create(createProductDto: CreateProductDto, userId: number, actingUserId: number = userId): Promise<ProductResponseDto> {
     try {
       this.logger.log(`Creating product: ${createProductDto.name} for user: ${userId}`);
 
@@ -708,7 +806,7 @@ export class ProductService {
         });
 
         // After restore, call update to handle the rest of the creation logic (attributes, etc.)
-        return this.update(existingProductAny.id, createProductDto as any, userId);
+        return this.update(existingProductAny.id, createProductDto as any, userId, actingUserId);
       }
 
       // Check for existing non-deleted product (previous behavior)
@@ -719,13 +817,18 @@ export class ProductService {
         if (createProductDto.updateExisting) {
           // Update the existing product instead of creating a new one
           this.logger.log(`Product with SKU "${createProductDto.sku}" already exists. Updating existing product (ID: ${existingProduct.id})`);
-          return this.update(existingProduct.id, createProductDto, userId);
+          return this.update(existingProduct.id, createProductDto, userId, actingUserId);
         } else {
           // Throw error if updateExisting is false
           throw new ConflictException(`A product with SKU "${createProductDto.sku}" already exists`);
         }
       }
 
+      await this.attributeConstraintValidator.normalize([
+        ...(createProductDto.attributesWithValues || []),
+        ...(createProductDto.familyAttributesWithValues || []),
+      ], userId);
+
       // Handle parentSku - convert to parentProductId
       let parentProductId: number | undefined;
       if (createProductDto.parentSku) {
@@ -746,9 +849,20 @@ export class ProductService {
         this.logger.log(`Resolved parent SKU "${createProductDto.parentSku}" to parent product ID: ${parentProductId}`);
       }
 
+      // Additional categories; the first one is primary when no categoryId is given
+      if (createProductDto.categoryIds?.length) {
+        await this.productCategoryService.validateCategories(createProductDto.categoryIds, userId);
+        createProductDto.categoryId = createProductDto.categoryId || createProductDto.categoryIds[0];
+      }
+
       // Validate category if provided
       if (createProductDto.categoryId) {
         await this.validateCategory(createProductDto.categoryId, userId);
+
+        // Products placed in a category without a family get the category's family
+        if (!createProductDto.familyId) {
+          createProductDto.familyId = (await this.getCategoryFamilyId(createProductDto.categoryId, userId)) ?? undefined;
+        }
       }
 
       // Validate attribute group if provided
@@ -794,6 +908,10 @@ export class ProductService {
         },
       });
 
+      if (createProductDto.categoryId) {
+        await this.productCategoryService.replaceCategories(product.id, createProductDto.categoryId, createProductDto.categoryIds ?? []);
+      }
+
       // Add filtered attributes to the product
       if (filteredAttributes && filteredAttributes.length > 0) {
         await this.prisma.productAttribute.createMany({
@@ -909,6 +1027,9 @@ export class ProductService {
         await this.mergeCustomAttributes(product.id, parentProductId, userId);
       }
 
+      // Record the initial revision
+      await this.productRevisionService.recordRevision(product.id, userId, 'created', actingUserId);
+
       // Fetch updated product with status
       const result = await this.findOne(product.id, userId);
       this.logger.log(`Successfully created product with ID: ${result.id}`);
@@ -938,9 +1059,31 @@ export class ProductService {
     try {
       this.logger.log(`Upserting product: ${createProductDto.name} for user: ${userId}`);
 
+      await this.attributeConstraintValidator.normalize([
+        ...(createProductDto.attributesWithValues || []),
+        ...(createProductDto.familyAttributesWithValues || []),
+      ], userId, { sku: createProductDto.sku });
+
+      // Additional categories; the first one is primary when no categoryId is given
+      if (createProductDto.categoryIds?.length) {
+        await this.productCategoryService.validateCategories(createProductDto.categoryIds, userId);
+        createProductDto.categoryId = createProductDto.categoryId || createProductDto.categoryIds[0];
+      }
+
       // Validate category if provided
       if (createProductDto.categoryId) {
         await this.validateCategory(createProductDto.categoryId, userId);
+
+        // New or family-less products placed in a category get the category's family
+        if (!createProductDto.familyId) {
+          const existingProduct = await this.prisma.product.findFirst({
+            where: { sku: createProductDto.sku, userId },
+            select: { familyId: true },
+          });
+          if (!existingProduct?.familyId) {
+            createProductDto.familyId = (await this.getCategoryFamilyId(createProductDto.categoryId, userId)) ?? undefined;
+          }
+        }
       }
 
       // Validate attribute group if provided
@@ -1041,6 +1184,12 @@ export class ProductService {
         });
       }
 
+      if (createProductDto.categoryIds !== undefined) {
+        await this.productCategoryService.replaceCategories(product.id, createProductDto.categoryId ?? null, createProductDto.categoryIds);
+      } else if (createProductDto.categoryId !== undefined) {
+        await this.productCategoryService.setPrimaryCategory(product.id, createProductDto.categoryId);
+      }
+
       // Process SKU patterns in imageUrl and subImages
       // This will automatically attach assets matching SKU[Identifier] patterns
       const processedImages = await this.processProductImagesWithSkuPatterns(
@@ -1302,111 +1451,175 @@ export class ProductService {
     limit: number = 10,
     sortBy?: string,
     sortOrder: 'asc' | 'desc' = 'desc',
-    includeDeleted: boolean = false
+    includeDeleted: boolean = false,
+    locale?: string,
+    filter?: string
   ): Promise<PaginatedResponse<ProductResponseDto>> {
+    const resolvedLocale = this.localizationService.parseLocale(locale);
     try {
       this.logger.log(`Fetching products for user: ${userId}`);
 
-      const whereCondition: any = { 
+      const whereCondition = this.buildListWhereCondition(
         userId,
-        parentProductId: null, // Exclude variant products from main product list
-      };
+        { search, status, categoryId, attributeIds, attributeGroupId, familyId },
+        includeDeleted,
+      );
 
-      // Exclude soft-deleted products by default
-      if (!includeDeleted) {
-        whereCondition.isDeleted = false;
+      const paginationOptions = PaginationUtils.createPrismaOptions(page, limit);
+
+      // Build orderBy object based on sortBy parameter
+      const orderBy = this.buildOrderBy(sortBy, sortOrder);
+
+      let products: any[];
+      let total: number;
+      if (filter) {
+        // Advanced filters find one page of matching IDs, then those products are loaded
+        const { ids: pageIds, total: matchCount } = await this.productFilterService.findMatchingPage(
+          filter,
+          userId,
+          whereCondition,
+          orderBy,
+          paginationOptions.skip,
+          paginationOptions.take,
+        );
+        const pageProducts = await this.prisma.product.findMany({
+          where: { id: { in: pageIds } },
+          include: this.PRODUCT_INCLUDE_FULL,
+        });
+        products = pageIds
+          .map(id => pageProducts.find(product => product.id === id))
+          .filter(product => product !== undefined);
+        total = matchCount;
+      } else {
+        [products, total] = await Promise.all([
+          this.prisma.product.findMany({
+            where: whereCondition,
+            ...paginationOptions,
+            include: this.PRODUCT_INCLUDE_FULL,
+            orderBy,
+          }),
+          this.prisma.product.count({ where: whereCondition }),
+        ]);
       }
 
-      if (search) {
-        whereCondition.OR = [
-          {
-            name: {
-              contains: search,
-              mode: 'insensitive',
-            },
+      // Resolve names and localizable attribute values for the requested locale
+      const localizedProducts = await this.localizationService.localizeProducts(products, resolvedLocale);
+
+      const productResponseDtos = await Promise.all(localizedProducts.map(async product => {
+        const response = await this.transformProductForResponse(product);
+        return resolvedLocale ? { ...response, locale: resolvedLocale } : response;
+      }));
+      console.log('Product Response DTOs:', productResponseDtos);
+      return PaginationUtils.createPaginatedResponse(productResponseDtos, total, page, limit);
+    } catch (error) {
+      this.logger.error(`Failed to fetch products for user ${userId}: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * IDs of every product matching the product list filters, in list order.
+   * Used to run bulk actions, exports and channel syncs over saved views.
+   */
+  async findMatchingProductIds(userId: number, filters: ProductListFilters): Promise<number[]> {
+    const whereCondition = this.buildListWhereCondition(userId, filters);
+    const orderBy = this.buildOrderBy(filters.sortBy, filters.sortOrder ?? 'desc');
+
+    if (filters.filter) {
+      return this.productFilterService.findMatchingProductIds(filters.filter, userId, whereCondition, orderBy);
+    }
+
+    const products = await this.prisma.product.findMany({
+      where: whereCondition,
+      select: { id: true },
+      orderBy,
+    });
+    return products.map(product => product.id);
+  }
+
+  /**
+   * Prisma where condition for the product list filters (everything except the filter expression)
+   */
+  private buildListWhereCondition(userId: number, filters: ProductListFilters, includeDeleted: boolean = false): any {
+    const whereCondition: any = {
+      userId,
+      parentProductId: null, // Exclude variant products from main product list
+    };
+
+    // Exclude soft-deleted products by default
+    if (!includeDeleted) {
+      whereCondition.isDeleted = false;
+    }
+
+    if (filters.search) {
+      whereCondition.OR = [
+        {
+          name: {
+            contains: filters.search,
+            mode: 'insensitive',
           },
-          {
-            sku: {
-              contains: search,
-              mode: 'insensitive',
-            },
+        },
+        {
+          sku: {
+            contains: filters.search,
+            mode: 'insensitive',
           },
-        ];
-      }
+        },
+      ];
+    }
 
-      if (status) {
-        whereCondition.status = status;
-      }
+    if (filters.status) {
+      whereCondition.status = filters.status;
+    }
 
-      if (categoryId !== undefined) {
-        whereCondition.categoryId = categoryId;
-      }
+    if (filters.categoryId === null) {
+      whereCondition.categoryId = null;
+    } else if (filters.categoryId !== undefined) {
+      whereCondition.AND = [this.inCategoryCondition(filters.categoryId)];
+    }
 
-      // Handle attribute filtering - if product has ANY of the selected attributes
-      // OR if the product's family has ANY of the selected attributes
-      if (attributeIds && attributeIds.length > 0) {
-        whereCondition.OR = [
-          // Direct product attributes
-          {
-            attributes: {
-              some: {
-                attributeId: {
-                  in: attributeIds,
-                },
+    // Handle attribute filtering - if product has ANY of the selected attributes
+    // OR if the product's family has ANY of the selected attributes
+    if (filters.attributeIds && filters.attributeIds.length > 0) {
+      whereCondition.OR = [
+        // Direct product attributes
+        {
+          attributes: {
+            some: {
+              attributeId: {
+                in: filters.attributeIds,
               },
             },
           },
-          // Family attributes
-          {
-            family: {
-              familyAttributes: {
-                some: {
-                  attributeId: {
-                    in: attributeIds,
-                  },
+        },
+        // Family attributes
+        {
+          family: {
+            familyAttributes: {
+              some: {
+                attributeId: {
+                  in: filters.attributeIds,
                 },
               },
             },
           },
-        ];
-      }
-
-      if (attributeGroupId !== undefined) {
-        whereCondition.attributeGroupId = attributeGroupId;
-      }
-
-      if (familyId !== undefined) {
-        whereCondition.familyId = familyId;
-      }
-
-      const paginationOptions = PaginationUtils.createPrismaOptions(page, limit);
-
-      // Build orderBy object based on sortBy parameter
-      const orderBy = this.buildOrderBy(sortBy, sortOrder);
+        },
+      ];
+    }
 
-      const [products, total] = await Promise.all([
-        this.prisma.product.findMany({
-          where: whereCondition,
-          ...paginationOptions,
-          include: this.PRODUCT_INCLUDE_FULL,
-          orderBy,
-        }),
-        this.prisma.product.count({ where: whereCondition }),
-      ]);
+    if (filters.attributeGroupId !== undefined) {
+      whereCondition.attributeGroupId = filters.attributeGroupId;
+    }
 
-      const productResponseDtos = await Promise.all(products.map(async product => {
-        const response = await this.transformProductForResponse(product);
-        return response;
-      }));
-      console.log('Product Response DTOs:', productResponseDtos);
-      return PaginationUtils.createPaginatedResponse(productResponseDtos, total, page, limit);
-    } catch (error) {
-      this.logger.error(`Failed to fetch products for user ${userId}: ${error.message}`, error.stack);
-      throw error;
+    if (filters.familyId !== undefined) {
+      whereCondition.familyId = filters.familyId;
     }
+
+    return whereCondition;
   }
 
-  async findOne(id: number, userId: number, includeDeleted: boolean = false): Promise<ProductResponseDto> {
+  async findOne(id: number, userId: number, includeDeleted: boolean = false, locale?: string): Promise<ProductResponseDto> {
+    const resolvedLocale = this.localizationService.parseLocale(locale);
     try {
       this.logger.log(`Fetching product: ${id} for user: ${userId}`);
 
@@ -1424,16 +1637,6 @@ export class ProductService {
         where: whereCondition,
         include: {
           ...this.PRODUCT_INCLUDE_FULL,
-          parentProduct: {
-            select: {
-              id: true,
-              name: true,
-              sku: true,
-              imageUrl: true,
-              thumbnailUrl: true,
-              status: true,
-            },
-          },
           assets: {
             include: {
               asset: true,
@@ -1446,6 +1649,10 @@ export class ProductService {
         throw new NotFoundException(`Product with ID ${id} not found or access denied`);
       }
       this.logger.log(`Product with ID ${id} found:`, product);
+      if (resolvedLocale) {
+        const [localizedProduct] = await this.localizationService.localizeProducts([product], resolvedLocale);
+        return { ...(await this.transformProductForResponse(localizedProduct)), locale: resolvedLocale };
+      }
       return await this.transformProductForResponse(product);
     } catch (error) {
       if (error instanceof NotFoundException) {
@@ -1518,6 +1725,13 @@ export class ProductService {
               sku: true,
               imageUrl: true,
               status: true,
+              attributes: {
+                select: {
+                  value: true,
+                  familyAttributeId: true,
+                  attribute: { select: { id: true, name: true, type: true, defaultValue: true } },
+                },
+              },
             },
           },
         },
@@ -1540,14 +1754,17 @@ export class ProductService {
     }
   }
 
-  async update(id: number, updateProductDto: UpdateProductDto, userId: number): Promise<ProductResponseDto> {
+  async update(id: number, updateProductDto: UpdateProductDto, userId: number, actingUserId: number = userId): Promise<ProductResponseDto> {
     try {
       // Verify ownership first
-      await this.findOne(id, userId);
+      const productBeforeUpdate = await this.findOne(id, userId);
 
       this.logger.log(`Updating product: ${id} for user: ${userId}`);
       this.logger.debug(`Update data: ${JSON.stringify(updateProductDto)}`);
 
+      // Keep the pre-edit state of products that have no revisions yet
+      await this.productRevisionService.recordBaseline(id, userId);
+
       // Handle updateExisting flag: when true, treat missing attribute fields as empty arrays
       // This ensures complete replacement behavior for Excel imports
       if (updateProductDto.updateExisting) {
@@ -1584,11 +1801,29 @@ export class ProductService {
         }
       }
 
+      // A category list without a primary keeps the current primary category when it is listed
+      if (updateProductDto.categoryIds !== undefined && updateProductDto.categoryId === undefined) {
+        updateProductDto.categoryId = productBeforeUpdate.categoryId && updateProductDto.categoryIds.includes(productBeforeUpdate.categoryId)
+          ? productBeforeUpdate.categoryId
+          : (updateProductDto.categoryIds[0] ?? null);
+      }
+
+      // Moving a family-less product into a category assigns the category's family
+      if (updateProductDto.categoryId && updateProductDto.familyId === undefined && !productBeforeUpdate.familyId) {
+        const categoryFamilyId = await this.getCategoryFamilyId(updateProductDto.categoryId, userId);
+        if (categoryFamilyId) {
+          updateProductDto.familyId = categoryFamilyId;
+        }
+      }
+
       // Validate all entities in parallel if being updated
       const validations: Promise<void>[] = [];
       if (updateProductDto.categoryId !== undefined && updateProductDto.categoryId !== null) {
         validations.push(this.validateCategory(updateProductDto.categoryId, userId));
       }
+      if (updateProductDto.categoryIds !== undefined) {
+        validations.push(this.productCategoryService.validateCategories(updateProductDto.categoryIds, userId));
+      }
       if (updateProductDto.attributeGroupId !== undefined && updateProductDto.attributeGroupId !== null) {
         validations.push(this.validateAttributeGroup(updateProductDto.attributeGroupId, userId));
       }
@@ -1599,6 +1834,16 @@ export class ProductService {
         await Promise.all(validations);
       }
 
+      await this.attributeConstraintValidator.normalize([
+        ...(updateProductDto.attributesWithValues || []),
+        ...(updateProductDto.familyAttributesWithValues || []),
+      ], userId, { id });
+
+      await this.validateLockedAttributes(id, [
+        ...(updateProductDto.attributesWithValues || []),
+        ...(updateProductDto.familyAttributesWithValues || []),
+      ]);
+
       // Prepare update data
       const updateData: any = {};
 
@@ -1669,6 +1914,12 @@ export class ProductService {
         data: updateData,
       });
 
+      if (updateProductDto.categoryIds !== undefined) {
+        await this.productCategoryService.replaceCategories(id, updateProductDto.categoryId ?? null, updateProductDto.categoryIds);
+      } else if (updateProductDto.categoryId !== undefined) {
+        await this.productCategoryService.setPrimaryCategory(id, updateProductDto.categoryId);
+      }
+
       // If family was changed, link existing custom attributes to the family
       // and update all variants to inherit the new family
       if (updateProductDto.familyId !== undefined && updateProductDto.familyId !== null) {
@@ -1912,6 +2163,9 @@ export class ProductService {
         await this.autoAttachAssetsBySku(id, currentProduct.sku, userId);
       }
 
+      // Record a revision of the updated state
+      await this.productRevisionService.recordRevision(id, userId, 'updated', actingUserId);
+
       // Fetch and return the updated product with relations
       const result = await this.findOne(id, userId);
       this.logger.log(`Successfully updated product with ID: ${id}`);
@@ -1956,10 +2210,9 @@ export class ProductService {
         family: {
           include: {
             familyAttributes: {
-              where: { isRequired: true },
               include: {
                 attribute: {
-                  select: { id: true, name: true, defaultValue: true }
+                  select: { id: true, name: true, type: true, defaultValue: true }
                 }
               }
             }
@@ -1969,7 +2222,7 @@ export class ProductService {
           select: {
             value: true,
             attribute: {
-              select: { id: true, name: true, defaultValue: true }
+              select: { id: true, name: true, type: true, defaultValue: true }
             }
           }
         }
@@ -1981,51 +2234,13 @@ export class ProductService {
       throw new NotFoundException(`Product with ID ${productId} not found`);
     }
 
-    const hasFamily = !!product.family;
-    const productAttributes = product.attributes || [];
-    const hasCustomAttributes = productAttributes.length > 0;
-
-    let status = 'incomplete';
-    let reason = '';
-
-    // Rule 1: Product is complete ONLY if it has a family AND all required attributes have values
-    if (hasFamily) {
-      const requiredAttributes = product.family?.familyAttributes || [];
-
-      if (requiredAttributes.length > 0) {
-        // Check if all required family attributes have product-attribute values (not default values)
-        const requiredAttributeIds = requiredAttributes.map((fa: any) => fa.attribute.id);
-        const familyAttributeValues = productAttributes.filter((pa: any) =>
-          requiredAttributeIds.includes(pa.attribute.id)
-        );
-
-        const allRequiredHaveProductValues = requiredAttributes.every((fa: any) => {
-          const productAttr = familyAttributeValues.find((pa: any) => pa.attribute.id === fa.attribute.id);
-          // Only consider product-attribute values, not default values
-          const hasProductValue = productAttr && productAttr.value !== null && productAttr.value !== '';
-          return hasProductValue;
-        });
-
-        if (allRequiredHaveProductValues) {
-          status = 'complete';
-          reason = 'Family exists and all required attributes have product-attribute values.';
-        } else {
-          status = 'incomplete';
-          reason = 'Family exists but not all required attributes have product-attribute values.';
-        }
-      } else {
-        // Family exists but has no required attributes - still incomplete
-        status = 'incomplete';
-        reason = 'Family exists but has no required attributes.';
-      }
-    } else {
-      // No family - incomplete
-      status = 'incomplete';
-      reason = 'Product does not have a family assigned.';
-    }
-
-    // Note: Custom attributes are no longer considered for status calculation
-    // Only family and required attributes matter
+    // The stored status follows the user's default-channel completeness profile
+    // (or the built-in rules: family assigned and all required attributes filled)
+    const result = await this.completenessService.evaluateForChannel(product, product.userId);
+    const status = result.complete ? 'complete' : 'incomplete';
+    const reason = result.complete
+      ? 'All completeness rules are satisfied.'
+      : result.missing.map(item => item.message).join('; ');
 
     this.logger.log(`[calculateProductStatus] Calculated status '${status}' for productId ${productId}. Reason: ${reason}`);
     return status;
@@ -2048,9 +2263,15 @@ export class ProductService {
 
   /**
    * Bulk remove products, either by explicit ids or by filters.
-   * Returns number of deleted items.
+   * Products are soft deleted and the operation is journaled so it can be undone.
+   * Returns number of deleted items and the journal entry id.
    */
-  async bulkRemove(ids: number[], userId: number, filters?: Record<string, any>): Promise<number> {
+  async bulkRemove(
+    ids: number[],
+    userId: number,
+    filters?: Record<string, any>,
+    actingUserId: number = userId,
+  ): Promise<{ deletedCount: number; operationId: string | null }> {
     try {
       this.logger.log(`Bulk removing products for user ${userId}. ids=${JSON.stringify(ids)} filters=${JSON.stringify(filters)}`);
 
@@ -2068,7 +2289,7 @@ export class ProductService {
         }
 
         if (filters.status) whereCondition.status = filters.status;
-        if (filters.categoryId) whereCondition.categoryId = filters.categoryId;
+        if (filters.categoryId) whereCondition.AND = [this.inCategoryCondition(filters.categoryId)];
         if (filters.familyId) whereCondition.familyId = filters.familyId;
         if (filters.attributeIds && Array.isArray(filters.attributeIds) && filters.attributeIds.length > 0) {
           whereCondition.OR = whereCondition.OR ?? [];
@@ -2081,24 +2302,44 @@ export class ProductService {
         productIds = matched.map(m => m.id);
       }
 
-      if (!productIds || productIds.length === 0) return 0;
+      if (!productIds || productIds.length === 0) return { deletedCount: 0, operationId: null };
 
-      // Soft delete each product
-      let deletedCount = 0;
-      for (const id of productIds) {
-        try {
-          await this.permanentlyDeleteProduct(id, userId);
-          deletedCount += 1;
-        } catch (err) {
-          // Ignore per-item failures but log
-          this.logger.warn(`Failed to bulk-delete product ${id}: ${err?.message || err}`);
+      // Only products that are not deleted yet are part of the operation
+      const products = await this.prisma.product.findMany({
+        where: { id: { in: productIds }, userId, isDeleted: false },
+        select: { id: true },
+      });
+      const deletedIds = products.map(p => p.id);
+      if (deletedIds.length === 0) return { deletedCount: 0, operationId: null };
+
+      // Soft delete the products
+      const { count: deletedCount } = await this.prisma.product.updateMany({
+        where: { id: { in: deletedIds }, userId, isDeleted: false },
+        data: { deletedAt: new Date(), isDeleted: true },
+      });
+
+      // Clean up WooCommerce sync data
+      if (this.wooAutoSyncService) {
+        for (const id of deletedIds) {
+          this.wooAutoSyncService.cleanupProductSyncData(id).catch((error: any) => {
+            this.logger.error(`Failed to cleanup WooCommerce sync data for product ${id}: ${error.message}`);
+          });
         }
       }
 
       // Log bulk notification
       await this.notificationService.logBulkOperation(userId, 'product' as any, 'bulk_deleted' as any, deletedCount, 'Products');
 
-      return deletedCount;
+      const operationId = await this.operationJournalService.record(
+        userId,
+        actingUserId,
+        OperationType.PRODUCT_BULK_DELETE,
+        `Deleted ${deletedCount} product(s)`,
+        deletedCount,
+        { productIds: deletedIds },
+      );
+
+      return { deletedCount, operationId };
     } catch (error) {
       this.logger.error(`Failed to bulk delete products: ${error?.message || error}`);
       throw new BadRequestException('Failed to bulk delete products');
@@ -2113,7 +2354,7 @@ export class ProductService {
       this.logger.log(`Fetching products for category: ${categoryId}, user: ${userId}`);
 
       const whereCondition = {
-        categoryId,
+        ...this.inCategoryCondition(categoryId),
         userId,
       };
 
@@ -2299,7 +2540,32 @@ export class ProductService {
     }
   }
 
+  // Products listed in a category, as their primary or an additional category
+  private inCategoryCondition(categoryId: number) {
+    return {
+      OR: [
+        { categoryId },
+        { categories: { some: { categoryId } } },
+      ],
+    };
+  }
+
+  // Effective family of a category: its own or the nearest ancestor's
+  private async getCategoryFamilyId(categoryId: number, userId: number): Promise<number | null> {
+    const categories = await this.prisma.category.findMany({
+      where: { userId },
+      select: { id: true, name: true, parentCategoryId: true, familyId: true },
+    });
+
+    return CategoryAttributeHelper.resolveAll(categories).get(categoryId)?.familyId ?? null;
+  }
+
   private async transformProductForResponse(product: any): Promise<ProductResponseDto> {
+    // Variants resolve attribute values through the parent by inheritance mode
+    if (product.parentProductId && product.parentProduct?.attributes) {
+      product = AttributeInheritanceHelper.applyToVariant(product, product.parentProduct.attributes, product.family?.familyAttributes);
+    }
+
     // Extract variants from the product data (one-to-many relationship)
     const variants: any[] = [];
     
@@ -2319,6 +2585,7 @@ export class ProductService {
           userFriendlyType: attr.attribute.userFriendlyType ?? getUserFriendlyType(attr.attribute.type),
           defaultValue: attr.attribute.defaultValue,
           value: attr.value, // Include the actual value from ProductAttribute
+          ...(attr.valueSource !== undefined && { inheritance: attr.inheritance, valueSource: attr.valueSource }),
         }));
       } else {
         attributes = product.attributes.map((attr: any) => attr.attributeId);
@@ -2360,6 +2627,13 @@ export class ProductService {
       return productAttribute?.value || null;
     };
 
+    // Where a variant's family attribute value came from ('own' or 'parent')
+    const getValueSource = (attributeId: number) => {
+      if (!product.parentProductId) return undefined;
+      const productAttribute = product.attributes?.find((pa: any) => (pa.attributeId ?? pa.attribute?.id) === attributeId);
+      return productAttribute?.valueSource ?? null;
+    };
+
     return {
       id: product.id,
       name: product.name,
@@ -2382,6 +2656,9 @@ export class ProductService {
         name: product.category.name,
         description: product.category.description,
       } : undefined,
+      categories: product.categories
+        ? this.productCategoryService.transformCategoriesForResponse(product)
+        : undefined,
       attributeGroup: product.attributeGroup ? {
         id: product.attributeGroup.id,
         name: product.attributeGroup.name,
@@ -2399,6 +2676,8 @@ export class ProductService {
             defaultValue: fa.attribute.defaultValue,
             userFriendlyType: fa.attribute.userFriendlyType ?? getUserFriendlyType(fa.attribute.type),
             value: getAttributeValue(fa.attribute.id, fa.id), // Pass familyAttributeId as well
+            inheritance: fa.inheritance,
+            valueSource: getValueSource(fa.attribute.id),
           })) || [],
         optionalAttributes: product.family.familyAttributes
           ?.filter((fa: any) => !fa.isRequired)
@@ -2409,9 +2688,12 @@ export class ProductService {
             defaultValue: fa.attribute.defaultValue,
             userFriendlyType: fa.attribute.userFriendlyType ?? getUserFriendlyType(fa.attribute.type),
             value: getAttributeValue(fa.attribute.id, fa.id), // Pass familyAttributeId as well
+            inheritance: fa.inheritance,
+            valueSource: getValueSource(fa.attribute.id),
           })) || [],
       } : undefined,
-      variants: variants.length > 0 ? variants.map(variant => {
+      variants: variants.length > 0 ? variants.map(baseVariant => {
+        const variant = AttributeInheritanceHelper.applyToVariant(baseVariant, product.attributes, product.family?.familyAttributes);
         const variantData: any = {
           id: variant.id,
           name: variant.name,
@@ -2437,6 +2719,8 @@ export class ProductService {
               userFriendlyType: varAttr.attribute.userFriendlyType ?? getUserFriendlyType(varAttr.attribute.type),
               defaultValue: varAttr.attribute.defaultValue,
               value: varAttr.value,
+              inheritance: varAttr.inheritance,
+              valueSource: varAttr.valueSource,
             }));
 
           // Only include attributes array if there are differences
@@ -2458,9 +2742,30 @@ export class ProductService {
       } : undefined,
       attributes,
       assets,
+      completeness: await this.getProductCompleteness(product),
     };
   }
 
+  /**
+   * Evaluate completeness for a response when the product was loaded with
+   * enough detail (family attributes and attribute values with their attribute).
+   */
+  private async getProductCompleteness(product: any): Promise<ProductCompletenessDto | undefined> {
+    if (product.familyId && !product.family?.familyAttributes) {
+      return undefined;
+    }
+    if (!product.attributes || product.attributes.some((pa: any) => !pa.attribute)) {
+      return undefined;
+    }
+
+    try {
+      return await this.completenessService.evaluateProduct(product, product.userId);
+    } catch (error) {
+      this.logger.warn(`Failed to evaluate completeness for product ${product.id}: ${error.message}`);
+      return undefined;
+    }
+  }
+
   /**
    * Auto-attach assets whose filename matches the product SKU pattern.
    * Automatically finds and attaches assets from Digital Assets library based on SKU.
@@ -3071,33 +3376,271 @@ export class ProductService {
   }
 
   /**
-   * Remove a variant from a parent product
+   * Generate the variant matrix of a parent product: one variant per combination
+   * of the values given for the variant axes of its family. Combinations that
+   * already exist as variants are skipped, so the matrix can be extended later.
    * @param parentId - The ID of the parent product
-   * @param variantId - The ID of the variant to remove
+   * @param generateDto - Axis values and SKU/name templates
    * @param userId - The ID of the user
-   * @returns Promise<{ message: string }>
+   * @param actingUserId - The user generating the variants, recorded on their revisions
+   * @returns Promise<GenerateVariantMatrixResponseDto>
    */
-  async removeVariant(parentId: number, variantId: number, userId: number): Promise<{ message: string }> {
-    try {
-      this.logger.log(`Removing variant ${variantId} from parent product ${parentId} for user: ${userId}`);
-
-      // Verify the parent product exists and belongs to the user
-      const parentProduct = await this.prisma.product.findFirst({
-        where: { id: parentId, userId },
-      });
-
-      if (!parentProduct) {
-        throw new BadRequestException('Parent product not found or does not belong to you');
-      }
+  async generateVariantMatrix(parentId: number, generateDto: GenerateVariantMatrixDto, userId: number, actingUserId: number = userId): Promise<GenerateVariantMatrixResponseDto> {
+    this.logger.log(`Generating variant matrix for parent product ${parentId} for user: ${userId}`);
 
-      // Verify the variant exists and belongs to the user and is actually a variant of the parent
-      const variant = await this.prisma.product.findFirst({
-        where: { 
-          id: variantId, 
-          userId,
-          parentProductId: parentId,
+    const parentProduct = await this.prisma.product.findFirst({
+      where: { id: parentId, userId, isDeleted: false },
+      include: {
+        family: VariantLevelHelper.include(),
+        variants: {
+          where: { isDeleted: false },
+          select: { sku: true, attributes: { select: { attributeId: true, value: true } } },
         },
-      });
+      },
+    });
+
+    if (!parentProduct) {
+      throw new BadRequestException('Parent product not found or does not belong to you');
+    }
+
+    if (parentProduct.parentProductId) {
+      throw new BadRequestException('Cannot add variants to a variant product. Variants cannot have their own variants.');
+    }
+
+    const levels = VariantLevelHelper.resolve(parentProduct);
+    if (!levels) {
+      throw new BadRequestException('The product family does not declare any variant axes');
+    }
+
+    // Every axis of the family needs values, and only those axes
+    const valuesByAxis = new Map(
+      generateDto.axes.map(axis => [
+        axis.attributeId,
+        Array.from(new Set(axis.values.map(value => value.trim()).filter(Boolean))),
+      ]),
+    );
+    const missingAxes = levels.axes.filter(axis => !valuesByAxis.get(axis.attributeId)?.length);
+    if (missingAxes.length > 0) {
+      throw new BadRequestException(`Values are required for variant axes: ${missingAxes.map(axis => axis.name).join(', ')}`);
+    }
+    const unknownAxes = generateDto.axes.filter(axis => !VariantLevelHelper.isAxis(levels, axis.attributeId));
+    if (unknownAxes.length > 0) {
+      throw new BadRequestException(`Attributes ${unknownAxes.map(axis => axis.attributeId).join(', ')} are not variant axes of the product family`);
+    }
+
+    // Cartesian product of the axis values, in family axis order
+    let combinations: string[][] = [[]];
+    for (const axis of levels.axes) {
+      combinations = combinations.flatMap(combination =>
+        valuesByAxis.get(axis.attributeId)!.map(value => [...combination, value]),
+      );
+    }
+    if (combinations.length > this.MAX_VARIANT_MATRIX_SIZE) {
+      throw new BadRequestException(`The variant matrix would have ${combinations.length} variants; the maximum is ${this.MAX_VARIANT_MATRIX_SIZE}`);
+    }
+
+    const familyAttributeIdByAttribute = new Map<number, number>(
+      (await this.prisma.familyAttribute.findMany({
+        where: { familyId: parentProduct.familyId! },
+        select: { id: true, attributeId: true },
+      })).map(fa => [fa.attributeId, fa.id]),
+    );
+
+    const combinationKey = (values: string[]) => values.map(value => value.toLowerCase()).join('\u0000');
+    const existingCombinations = new Set(
+      parentProduct.variants.map(variant =>
+        combinationKey(levels.axes.map(axis =>
+          variant.attributes.find(attr => attr.attributeId === axis.attributeId)?.value?.trim() ?? '',
+        )),
+      ),
+    );
+
+    const planned = combinations.map(values => {
+      const valueRecord = Object.fromEntries(levels.axes.map((axis, index) => [axis.name, values[index]]));
+      return {
+        values,
+        valueRecord,
+        sku: this.renderVariantTemplate(generateDto.skuTemplate!, parentProduct, levels.axes, values, true),
+        name: this.renderVariantTemplate(generateDto.nameTemplate!, parentProduct, levels.axes, values, false),
+      };
+    });
+
+    const takenSkus = new Set(
+      (await this.prisma.product.findMany({
+        where: { userId, sku: { in: planned.map(variant => variant.sku) } },
+        select: { sku: true },
+      })).map(product => product.sku),
+    );
+
+    const created: ProductVariantResponseDto[] = [];
+    const skipped: GenerateVariantMatrixResponseDto['skipped'] = [];
+
+    for (const variant of planned) {
+      const skip = (reason: string) => skipped.push({ sku: variant.sku, values: variant.valueRecord, reason });
+
+      // Axis values are stored the way product writes store them, e.g. option codes
+      const axisValues = levels.axes.map((axis, index) => ({
+        attributeId: axis.attributeId,
+        value: variant.values[index],
+      }));
+      try {
+        await this.attributeConstraintValidator.normalize(axisValues, userId, { sku: variant.sku });
+      } catch (error) {
+        skip(error.message);
+        continue;
+      }
+
+      if (
+        existingCombinations.has(combinationKey(variant.values)) ||
+        existingCombinations.has(combinationKey(axisValues.map(axis => axis.value)))
+      ) {
+        skip('A variant with these values already exists');
+        continue;
+      }
+      if (variant.sku.length < 4 || variant.sku.length > 40) {
+        skip('SKU must be between 4 and 40 characters');
+        continue;
+      }
+      if (takenSkus.has(variant.sku)) {
+        skip('SKU is already in use');
+        continue;
+      }
+
+      try {
+        const product = await this.prisma.product.create({
+          data: {
+            name: variant.name,
+            sku: variant.sku,
+            imageUrl: parentProduct.imageUrl,
+            thumbnailUrl: parentProduct.thumbnailUrl,
+            categoryId: parentProduct.categoryId,
+            familyId: parentProduct.familyId,
+            parentProductId: parentId,
+            userId,
+            attributes: {
+              create: axisValues.map(({ attributeId, value }) => ({
+                attributeId,
+                familyAttributeId: familyAttributeIdByAttribute.get(attributeId),
+                value,
+              })),
+            },
+          },
+        });
+
+        // Axis values are set, everything else comes from the parent
+        await this.inheritFromParentProduct(product.id, parentId, userId);
+
+        const status = await this.calculateProductStatus(product.id);
+        const variantProduct = await this.prisma.product.update({
+          where: { id: product.id },
+          data: { status },
+        });
+
+        // Record the initial revision
+        await this.productRevisionService.recordRevision(product.id, userId, 'created', actingUserId);
+
+        takenSkus.add(variant.sku);
+        existingCombinations.add(combinationKey(axisValues.map(axis => axis.value)));
+        created.push({
+          id: variantProduct.id,
+          name: variantProduct.name,
+          sku: variantProduct.sku,
+          imageUrl: variantProduct.imageUrl ?? undefined,
+          status: variantProduct.status,
+          parentProductId: parentId,
+          createdAt: variantProduct.createdAt.toISOString().split('T')[0],
+          updatedAt: variantProduct.updatedAt.toISOString().split('T')[0],
+        });
+      } catch (error) {
+        if (error.code === 'P2002') {
+          skip('SKU is already in use');
+          continue;
+        }
+        this.logger.error(`Failed to generate variant ${variant.sku}: ${error.message}`, error.stack);
+        skip(error.message || 'Failed to create variant');
+      }
+    }
+
+    this.logger.log(`Generated ${created.length} variants for parent product ${parentId}, skipped ${skipped.length}`);
+
+    if (created.length > 0) {
+      await this.notificationService.logBulkOperation(userId, EntityType.PRODUCT_VARIANT, ActionType.BULK_CREATED, created.length, `Variants of ${parentProduct.name}`);
+
+      // Trigger webhooks
+      const webhooks = await this.webhookService.getActiveWebhooksForEvent(userId, 'product.created');
+      if (webhooks.length > 0) {
+        for (const variant of created) {
+          const payload = this.webhookFormatterService.formatProductCreated(await this.findOne(variant.id, userId));
+          for (const webhook of webhooks) {
+            this.webhookService.deliverWebhook(webhook.id, 'product.created', payload);
+          }
+        }
+      }
+    }
+
+    const familyAttributeIds = Array.from(familyAttributeIdByAttribute.keys());
+    return {
+      created,
+      skipped,
+      variantAttributeIds: familyAttributeIds.filter(id => VariantLevelHelper.isVariantLevel(levels, id)),
+      parentAttributeIds: familyAttributeIds.filter(id => !VariantLevelHelper.isVariantLevel(levels, id)),
+    };
+  }
+
+  /**
+   * Fill a variant SKU or name template. SKU values have whitespace replaced by hyphens.
+   */
+  private renderVariantTemplate(
+    template: string,
+    parent: { sku: string; name: string },
+    axes: VariantAxis[],
+    values: string[],
+    forSku: boolean,
+  ): string {
+    const formatted = values.map(value => (forSku ? value.replace(/\s+/g, '-') : value));
+    const rendered = template.replace(/\{([^}]+)\}/g, (_, token: string) => {
+      const key = token.trim().toLowerCase();
+      if (key === 'parentsku') return parent.sku;
+      if (key === 'parentname') return parent.name;
+      if (key === 'values') return formatted.join(forSku ? '-' : ' / ');
+
+      const axisIndex = axes.findIndex(axis => axis.name.toLowerCase() === key);
+      if (axisIndex === -1) {
+        throw new BadRequestException(`Unknown placeholder {${token}} in ${forSku ? 'SKU' : 'name'} template`);
+      }
+      return formatted[axisIndex];
+    });
+    return rendered.trim();
+  }
+
+  /**
+   * Remove a variant from a parent product
+   * @param parentId - The ID of the parent product
+   * @param variantId - The ID of the variant to remove
+   * @param userId - The ID of the user
+   * @returns Promise<{ message: string }>
+   */
+  async removeVariant(parentId: number, variantId: number, userId: number): Promise<{ message: string }> {
+    try {
+      this.logger.log(`Removing variant ${variantId} from parent product ${parentId} for user: ${userId}`);
+
+      // Verify the parent product exists and belongs to the user
+      const parentProduct = await this.prisma.product.findFirst({
+        where: { id: parentId, userId },
+      });
+
+      if (!parentProduct) {
+        throw new BadRequestException('Parent product not found or does not belong to you');
+      }
+
+      // Verify the variant exists and belongs to the user and is actually a variant of the parent
+      const variant = await this.prisma.product.findFirst({
+        where: { 
+          id: variantId, 
+          userId,
+          parentProductId: parentId,
+        },
+      });
 
       if (!variant) {
         throw new BadRequestException('Variant not found or does not belong to the specified parent product');
@@ -3263,36 +3806,59 @@ export class ProductService {
    */
   async exportProducts(exportDto: ExportProductDto, userId: number): Promise<ExportProductResponseDto> {
     try {
-      this.logger.log(`Exporting ${exportDto.productIds.length} products for user: ${userId}`);
+      let productIds = exportDto.productIds || [];
+      if (exportDto.filter) {
+        // Export the (non-variant) products matching the filter, limited to the given IDs if any
+        productIds = await this.productFilterService.findMatchingProductIds(exportDto.filter, userId, {
+          userId,
+          isDeleted: false,
+          parentProductId: null,
+          ...(exportDto.productIds && { id: { in: exportDto.productIds } }),
+        });
+        if (productIds.length === 0) {
+          throw new NotFoundException(`No products match the filter: ${exportDto.filter}`);
+        }
+      }
+
+      this.logger.log(`Exporting ${productIds.length} products for user: ${userId}`);
 
       // Determine what data to include based on selected attributes
       const includeRelations = this.determineIncludeRelations(exportDto.attributes, exportDto.selectedAttributes);
 
-      // Fetch products with required relations
-      const products = await this.prisma.product.findMany({
-        where: {
-          id: { in: exportDto.productIds },
-          userId,
-        },
-        include: includeRelations,
-        orderBy: { id: 'asc' },
-      });
+      // Fetch products with required relations, in batches so large filtered exports stay within query limits
+      const batchSize = 1000;
+      const sortedIds = [...productIds].sort((a, b) => a - b);
+      const products: any[] = [];
+      for (let i = 0; i < sortedIds.length; i += batchSize) {
+        const batch = await this.prisma.product.findMany({
+          where: {
+            id: { in: sortedIds.slice(i, i + batchSize) },
+            userId,
+          },
+          include: includeRelations,
+          orderBy: { id: 'asc' },
+        });
+        products.push(...batch);
+      }
 
       if (products.length === 0) {
         throw new NotFoundException('No products found with the provided IDs or access denied');
       }
 
+      // Variants export the values the product API shows for them, resolved through the parent
+      const resolvedProducts = await this.applyInheritanceForExport(products, userId);
+
       // Get variant data for products that need it
       const variantData = new Map<number, any[]>();
       if (this.needsVariantData(exportDto.attributes)) {
-        for (const product of products) {
-          const variants = await this.getProductVariantsForExport(product.id);
+        for (const product of resolvedProducts) {
+          const variants = await this.getProductVariantsForExport(product);
           variantData.set(product.id, variants);
         }
       }
 
       // Transform products to export format based on selected attributes
-      const exportData = products.map(product => {
+      const exportData = resolvedProducts.map(product => {
         const transformedProduct = this.transformProductForExport(
           product, 
           exportDto.attributes, 
@@ -3336,7 +3902,7 @@ export class ProductService {
     userId: number
   ): Promise<{ buffer: Buffer; mimeType: string; filename: string }> {
     try {
-      this.logger.log(`Generating ${exportDto.format || ExportFormat.JSON} file for ${exportDto.productIds.length} products`);
+      this.logger.log(`Generating ${exportDto.format || ExportFormat.JSON} file for ${exportDto.filter ? `products matching "${exportDto.filter}"` : `${exportDto.productIds?.length} products`}`);
 
       // Get the export data using existing logic
       const exportResult = await this.exportProducts(exportDto, userId);
@@ -3446,18 +4012,18 @@ export class ProductService {
     if ((selectedAttributes && selectedAttributes.length > 0) || 
         attributes.includes(ProductAttribute.CUSTOM_ATTRIBUTES) ||
         attributes.some(attr => ['attributeName', 'attributeType', 'attributeDefaultValue'].includes(attr))) {
-      includeRelations.attributes = {
+      includeRelations.attributes = this.EXPORT_ATTRIBUTES_SELECT;
+    }
+
+    // Check if we need product associations
+    const associationColumns = Object.values(ASSOCIATION_COLUMNS);
+    if (attributes.some(attr => associationColumns.includes(attr))) {
+      includeRelations.associations = {
         select: {
-          value: true,
-          familyAttributeId: true,
-          attribute: {
-            select: {
-              id: true,
-              name: true,
-              type: true,
-              defaultValue: true,
-            },
-          },
+          type: true,
+          quantity: true,
+          sortOrder: true,
+          associatedProduct: { select: { sku: true, isDeleted: true } },
         },
       };
     }
@@ -3473,28 +4039,76 @@ export class ProductService {
   }
 
   /**
-   * Get variants for a product for export purposes
+   * Get variants for a product for export purposes. When the product's attribute
+   * values are exported, the variants' values are resolved through it.
    */
-  private async getProductVariantsForExport(productId: number): Promise<any[]> {
+  private async getProductVariantsForExport(product: any): Promise<any[]> {
     try {
+      const withAttributes = Array.isArray(product.attributes);
       const variants = await this.prisma.product.findMany({
         where: {
-          parentProductId: productId,
+          parentProductId: product.id,
         },
         select: {
           id: true,
           name: true,
           sku: true,
+          ...(withAttributes && { attributes: this.EXPORT_ATTRIBUTES_SELECT }),
         },
       });
+      if (!withAttributes || variants.length === 0) {
+        return variants;
+      }
 
-      return variants;
+      const familyAttributes = product.familyId
+        ? await this.prisma.familyAttribute.findMany({
+            where: { familyId: product.familyId },
+            select: { attributeId: true, isVariantAxis: true, inheritance: true },
+          })
+        : [];
+      return variants.map(variant => AttributeInheritanceHelper.applyToVariant(variant, product.attributes, familyAttributes));
     } catch (error) {
-      this.logger.error(`Failed to fetch variants for product ${productId}: ${error.message}`);
+      this.logger.error(`Failed to fetch variants for product ${product.id}: ${error.message}`);
       return [];
     }
   }
 
+  /**
+   * Resolve the attribute values of exported variants through their parents by
+   * the inheritance mode of their family, as transformProductForResponse does
+   */
+  private async applyInheritanceForExport(products: any[], userId: number): Promise<any[]> {
+    const variants = products.filter(product => product.parentProductId && Array.isArray(product.attributes));
+    if (variants.length === 0) {
+      return products;
+    }
+
+    const parents = await this.prisma.product.findMany({
+      where: { id: { in: Array.from(new Set(variants.map(variant => variant.parentProductId))) }, userId },
+      select: { id: true, attributes: this.EXPORT_ATTRIBUTES_SELECT },
+    });
+    const parentAttributes = new Map(parents.map(parent => [parent.id, parent.attributes]));
+
+    const familyIds = Array.from(new Set(variants.map(variant => variant.familyId).filter(Boolean)));
+    const familyAttributes = familyIds.length > 0
+      ? await this.prisma.familyAttribute.findMany({
+          where: { familyId: { in: familyIds } },
+          select: { familyId: true, attributeId: true, isVariantAxis: true, inheritance: true },
+        })
+      : [];
+
+    return products.map(product => {
+      if (!product.parentProductId || !Array.isArray(product.attributes)) {
+        return product;
+      }
+      return AttributeInheritanceHelper.applyToVariant(
+        product,
+        parentAttributes.get(product.parentProductId),
+        familyAttributes.filter(fa => fa.familyId === product.familyId),
+      );
+    });
+  }
+
   /**
    * Transform product data for export based on selected attributes
    */
@@ -3571,6 +4185,20 @@ export class ProductService {
         case ProductAttribute.VARIANT_SKUS:
           exportRecord.variantSkus = variants.map(v => v.sku).join(', ');
           break;
+        case ProductAttribute.RELATED_SKUS:
+        case ProductAttribute.CROSS_SELL_SKUS:
+        case ProductAttribute.UP_SELL_SKUS:
+        case ProductAttribute.ACCESSORY_SKUS:
+        case ProductAttribute.REPLACEMENT_SKUS:
+        case ProductAttribute.BUNDLE_COMPONENTS: {
+          const type = (Object.keys(ASSOCIATION_COLUMNS) as ProductAssociationType[])
+            .find(t => (ASSOCIATION_COLUMNS[t] as ProductAttribute) === attr)!;
+          Object.assign(
+            exportRecord,
+            this.productAssociationService.formatAssociationColumns(product.associations || [], [type]),
+          );
+          break;
+        }
         case ProductAttribute.USER_ID:
           exportRecord.userId = product.userId;
           break;
@@ -3709,13 +4337,49 @@ export class ProductService {
     }
   }
 
+  /**
+   * Preparation for a product about to be changed by a bulk edit: keep its
+   * pre-edit state when it has no revisions yet
+   */
+  async beforeBulkEdit(productId: number, userId: number): Promise<void> {
+    await this.productRevisionService.recordBaseline(productId, userId);
+  }
+
+  /**
+   * Follow-up for a product changed by a bulk edit: recalculate its status,
+   * record a revision, trigger webhooks and re-sync it to WooCommerce.
+   * The bulk edit logs a single notification for the whole run.
+   */
+  async afterBulkEdit(productId: number, userId: number, actingUserId: number = userId): Promise<void> {
+    const status = await this.calculateProductStatus(productId);
+    const product = await this.prisma.product.update({
+      where: { id: productId },
+      data: { status },
+    });
+
+    await this.productRevisionService.recordRevision(productId, userId, 'bulk_edited', actingUserId);
+
+    const webhooks = await this.webhookService.getActiveWebhooksForEvent(userId, 'product.updated');
+    for (const webhook of webhooks) {
+      const payload = this.webhookFormatterService.formatProductUpdated(product);
+      this.webhookService.deliverWebhook(webhook.id, 'product.updated', payload);
+    }
+
+    if (this.wooAutoSyncService) {
+      this.wooAutoSyncService.autoSyncProductUpdate(productId, userId).catch((error: any) => {
+        this.logger.error(`Auto-sync to WooCommerce failed for product ${productId}: ${error.message}`);
+      });
+    }
+  }
+
   /**
    * Update attribute values for a specific product
    */
   async updateProductAttributeValues(
     productId: number,
     attributeValues: { attributeId: number; value?: string }[],
-    userId: number
+    userId: number,
+    actingUserId: number = userId,
   ): Promise<ProductResponseDto> {
     try {
       this.logger.log(`Updating attribute values for product: ${productId} by user: ${userId}`);
@@ -3742,6 +4406,11 @@ export class ProductService {
         throw new BadRequestException('One or more attributes do not exist or do not belong to you');
       }
 
+      await this.attributeConstraintValidator.normalize(attributeValues, userId, { id: productId });
+
+      // Keep the pre-edit state of products that have no revisions yet
+      await this.productRevisionService.recordBaseline(productId, userId);
+
       // Update each attribute value using upsert
       for (const { attributeId, value } of attributeValues) {
         await this.prisma.productAttribute.upsert({
@@ -3769,6 +4438,9 @@ export class ProductService {
         data: { status } 
       });
 
+      // Record a revision of the new attribute values
+      await this.productRevisionService.recordRevision(productId, userId, 'attributes_updated', actingUserId);
+
       // Auto-sync to WooCommerce if product was previously synced
       if (this.wooAutoSyncService) {
         this.wooAutoSyncService.autoSyncAttributeUpdate(productId, userId).catch((error: any) => {
@@ -3792,7 +4464,7 @@ export class ProductService {
   async getProductAttributeValues(
     productId: number,
     userId: number
-  ): Promise<{ attributeId: number; attributeName: string; attributeType: string; value: string | null; defaultValue: string | null }[]> {
+  ): Promise<{ attributeId: number; attributeName: string; attributeType: string; value: string | null; defaultValue: string | null; computedKind: string | null }[]> {
     try {
       this.logger.log(`Getting attribute values for product: ${productId} by user: ${userId}`);
 
@@ -3815,6 +4487,7 @@ export class ProductService {
               name: true,
               type: true,
               defaultValue: true,
+              computedKind: true,
             },
           },
         },
@@ -3826,6 +4499,7 @@ export class ProductService {
         attributeType: pa.attribute.type,
         value: pa.value,
         defaultValue: pa.attribute.defaultValue,
+        computedKind: pa.attribute.computedKind, // Read-only when set
       }));
     } catch (error) {
       if (error instanceof NotFoundException) {
@@ -3843,7 +4517,8 @@ export class ProductService {
   async updateProductFamilyAttributeValues(
     productId: number,
     familyAttributeValues: { attributeId: number; value?: string }[],
-    userId: number
+    userId: number,
+    actingUserId: number = userId,
   ): Promise<ProductResponseDto> {
     try {
       this.logger.log(`Updating family attribute values for product: ${productId} by user: ${userId}`);
@@ -3883,6 +4558,11 @@ export class ProductService {
         }
       }
 
+      await this.attributeConstraintValidator.normalize(familyAttributeValues, userId, { id: productId });
+
+      // Keep the pre-edit state of products that have no revisions yet
+      await this.productRevisionService.recordBaseline(productId, userId);
+
       // Update each family attribute value using upsert
       for (const { attributeId, value } of familyAttributeValues) {
         const familyAttributeId = familyAttributeMap.get(attributeId);
@@ -3914,6 +4594,9 @@ export class ProductService {
         data: { status } 
       });
 
+      // Record a revision of the new family attribute values
+      await this.productRevisionService.recordRevision(productId, userId, 'attributes_updated', actingUserId);
+
       // Auto-sync to WooCommerce if product was previously synced
       if (this.wooAutoSyncService) {
         this.wooAutoSyncService.autoSyncAttributeUpdate(productId, userId).catch((error: any) => {
@@ -4004,6 +4687,361 @@ export class ProductService {
     }
   }
 
+  /**
+   * Restore a product to the state captured in one of its revisions.
+   * Core fields, attribute values, asset links, family, categories, localized
+   * content and channel values are replaced in a single transaction.
+   * Attributes, assets, categories and related entities that no longer exist
+   * are skipped and reported back.
+   */
+  async restoreRevision(
+    productId: number,
+    revisionId: number,
+    userId: number,
+    actingUserId: number = userId,
+  ): Promise<RestoreProductRevisionResponseDto & { product: ProductResponseDto }> {
+    try {
+      // Verify ownership first
+      await this.findOne(productId, userId);
+
+      const { revisionNumber, snapshot } = await this.productRevisionService.getRevisionSnapshot(productId, revisionId, userId);
+      this.logger.log(`Restoring product ${productId} to revision ${revisionNumber} for user: ${userId}`);
+
+      // Resolve which referenced entities still exist
+      const snapshotAttributeIds = snapshot.attributes.map(attr => attr.attributeId);
+      const snapshotFamilyAttributeIds = snapshot.attributes
+        .map(attr => attr.familyAttributeId)
+        .filter((id): id is number => id !== null && id !== undefined);
+      const scopedAttributeIds = [
+        ...(snapshot.attributeLocalizations ?? []).map(pal => pal.attributeId),
+        ...(snapshot.channelValues ?? []).map(cv => cv.attributeId),
+      ];
+      const snapshotCategoryIds = snapshot.categoryIds ?? [];
+
+      const [existingAttributes, existingFamilyAttributes, existingAssets, existingCategories, category, attributeGroup, family, parentProduct] = await Promise.all([
+        this.prisma.attribute.findMany({ where: { id: { in: [...snapshotAttributeIds, ...scopedAttributeIds] }, userId }, select: { id: true } }),
+        this.prisma.familyAttribute.findMany({ where: { id: { in: snapshotFamilyAttributeIds } }, select: { id: true } }),
+        this.prisma.asset.findMany({ where: { id: { in: snapshot.assetIds }, userId, isDeleted: false }, select: { id: true } }),
+        this.prisma.category.findMany({ where: { id: { in: snapshotCategoryIds }, userId }, select: { id: true } }),
+        snapshot.categoryId ? this.prisma.category.findFirst({ where: { id: snapshot.categoryId, userId }, select: { id: true } }) : null,
+        snapshot.attributeGroupId ? this.prisma.attributeGroup.findFirst({ where: { id: snapshot.attributeGroupId, userId }, select: { id: true } }) : null,
+        snapshot.familyId ? this.prisma.family.findFirst({ where: { id: snapshot.familyId, userId }, select: { id: true } }) : null,
+        snapshot.parentProductId ? this.prisma.product.findFirst({ where: { id: snapshot.parentProductId, userId }, select: { id: true } }) : null,
+      ]);
+
+      const validAttributeIds = new Set(existingAttributes.map(attr => attr.id));
+      const validFamilyAttributeIds = new Set(existingFamilyAttributes.map(fa => fa.id));
+      const validAssetIds = new Set(existingAssets.map(asset => asset.id));
+
+      const attributesToRestore = snapshot.attributes.filter(attr => validAttributeIds.has(attr.attributeId));
+      const skippedAttributes = snapshotAttributeIds.filter(id => !validAttributeIds.has(id));
+      const assetsToRestore = snapshot.assetIds.filter(id => validAssetIds.has(id));
+      const skippedAssets = snapshot.assetIds.filter(id => !validAssetIds.has(id));
+      const validCategoryIds = new Set(existingCategories.map(c => c.id));
+      const categoriesToRestore = snapshotCategoryIds.filter(id => validCategoryIds.has(id));
+      const skippedCategories = snapshotCategoryIds.filter(id => !validCategoryIds.has(id));
+
+      await withRecomputeAfterCommit(() => this.prisma.$transaction(async (tx) => {
+        await tx.product.update({
+          where: { id: productId },
+          data: {
+            name: snapshot.name,
+            sku: snapshot.sku,
+            productLink: snapshot.productLink,
+            imageUrl: snapshot.imageUrl,
+            subImages: snapshot.subImages,
+            thumbnailUrl: snapshot.thumbnailUrl,
+            thumbnailSubImages: snapshot.thumbnailSubImages,
+            categoryId: category ? category.id : null,
+            attributeGroupId: attributeGroup ? attributeGroup.id : null,
+            familyId: family ? family.id : null,
+            parentProductId: parentProduct ? parentProduct.id : null,
+          },
+        });
+        // Revisions recorded before categories were tracked only restore the primary one
+        if (snapshot.categoryIds) {
+          await this.productCategoryService.replaceCategories(productId, category ? category.id : null, categoriesToRestore, tx);
+        } else {
+          await this.productCategoryService.setPrimaryCategory(productId, category ? category.id : null, tx);
+        }
+
+        await tx.productAttribute.deleteMany({ where: { productId } });
+        if (attributesToRestore.length > 0) {
+          await tx.productAttribute.createMany({
+            data: attributesToRestore.map(attr => ({
+              productId,
+              attributeId: attr.attributeId,
+              familyAttributeId: attr.familyAttributeId && validFamilyAttributeIds.has(attr.familyAttributeId)
+                ? attr.familyAttributeId
+                : null,
+              value: attr.value,
+            })),
+          });
+        }
+
+        await tx.productAsset.deleteMany({ where: { productId } });
+        if (assetsToRestore.length > 0) {
+          await tx.productAsset.createMany({
+            data: assetsToRestore.map(assetId => ({ productId, assetId })),
+          });
+        }
+
+        if (snapshot.localizations) {
+          await tx.productLocalization.deleteMany({ where: { productId } });
+          if (snapshot.localizations.length > 0) {
+            await tx.productLocalization.createMany({
+              data: snapshot.localizations.map(pl => ({ productId, locale: pl.locale, name: pl.name })),
+            });
+          }
+        }
+
+        if (snapshot.attributeLocalizations) {
+          const localizationsToRestore = snapshot.attributeLocalizations.filter(pal => validAttributeIds.has(pal.attributeId));
+          await tx.productAttributeLocalization.deleteMany({ where: { productId } });
+          if (localizationsToRestore.length > 0) {
+            await tx.productAttributeLocalization.createMany({
+              data: localizationsToRestore.map(pal => ({
+                productId,
+                attributeId: pal.attributeId,
+                locale: pal.locale,
+                value: pal.value,
+              })),
+            });
+          }
+        }
+
+        if (snapshot.channelValues) {
+          const channelValuesToRestore = snapshot.channelValues.filter(cv => validAttributeIds.has(cv.attributeId));
+          await tx.productAttributeChannelValue.deleteMany({ where: { productId } });
+          if (channelValuesToRestore.length > 0) {
+            await tx.productAttributeChannelValue.createMany({
+              data: channelValuesToRestore.map(cv => ({
+                productId,
+                attributeId: cv.attributeId,
+                channel: cv.channel,
+                connectionId: cv.connectionId,
+                value: cv.value,
+              })),
+            });
+          }
+        }
+      }));
+
+      // Recalculate status
+      const status = await this.calculateProductStatus(productId);
+      await this.prisma.product.update({ where: { id: productId }, data: { status } });
+
+      await this.productRevisionService.recordRevision(productId, userId, 'restored', actingUserId);
+
+      const result = await this.findOne(productId, userId);
+      this.logger.log(`Successfully restored product ${productId} to revision ${revisionNumber}`);
+
+      // Log notification
+      await this.notificationService.createNotification(
+        userId,
+        EntityType.PRODUCT,
+        ActionType.UPDATED,
+        result.name,
+        result.id,
+        { details: `restored to revision ${revisionNumber}`, restoredFromRevision: revisionNumber },
+      );
+
+      // Trigger webhooks
+      const webhooks = await this.webhookService.getActiveWebhooksForEvent(userId, 'product.updated');
+      for (const webhook of webhooks) {
+        const payload = this.webhookFormatterService.formatProductUpdated(result);
+        this.webhookService.deliverWebhook(webhook.id, 'product.updated', payload);
+      }
+
+      // Auto-sync to WooCommerce if product was previously synced
+      if (this.wooAutoSyncService) {
+        this.wooAutoSyncService.autoSyncProductUpdate(productId, userId).catch((error: any) => {
+          this.logger.error(`Auto-sync to WooCommerce failed for product ${productId}: ${error.message}`);
+        });
+      }
+
+      return {
+        message: `Product restored to revision ${revisionNumber}`,
+        restoredFromRevision: revisionNumber,
+        skippedAttributes,
+        skippedAssets,
+        skippedCategories,
+        product: result,
+      };
+    } catch (error) {
+      if (error instanceof NotFoundException || error instanceof BadRequestException) {
+        throw error;
+      }
+      this.handleDatabaseError(error, 'restore revision of');
+    }
+  }
+
+  async upsertLocalization(
+    productId: number,
+    locale: string,
+    upsertDto: UpsertProductLocalizationDto,
+    userId: number,
+    actingUserId: number = userId,
+  ): Promise<ProductLocalizationResponseDto> {
+    await this.productRevisionService.recordBaseline(productId, userId);
+    const result = await this.localizationService.upsertProductLocalization(productId, locale, upsertDto, userId);
+    await this.productRevisionService.recordRevision(productId, userId, 'localizations_updated', actingUserId);
+
+    const product = await this.prisma.product.findUnique({ where: { id: productId }, select: { name: true } });
+    await this.notificationService.createNotification(
+      userId,
+      EntityType.PRODUCT,
+      ActionType.UPDATED,
+      product?.name ?? `Product ${productId}`,
+      productId,
+      { details: `updated ${result.locale} content`, locale: result.locale },
+    );
+
+    // Exports mapped to this locale pick up the new content
+    if (this.wooAutoSyncService) {
+      this.wooAutoSyncService.autoSyncProductUpdate(productId, userId).catch((error: any) => {
+        this.logger.error(`Auto-sync to WooCommerce failed for product ${productId}: ${error.message}`);
+      });
+    }
+
+    return result;
+  }
+
+  async removeLocalization(
+    productId: number,
+    locale: string,
+    userId: number,
+    actingUserId: number = userId,
+  ): Promise<{ message: string }> {
+    await this.productRevisionService.recordBaseline(productId, userId);
+    const result = await this.localizationService.removeProductLocalization(productId, locale, userId);
+    await this.productRevisionService.recordRevision(productId, userId, 'localizations_updated', actingUserId);
+    return result;
+  }
+
+  async setChannelValues(
+    productId: number,
+    setDto: SetProductChannelValuesDto,
+    userId: number,
+    actingUserId: number = userId,
+  ): Promise<ProductChannelValueResponseDto[]> {
+    await this.productRevisionService.recordBaseline(productId, userId);
+    const result = await this.productChannelValueService.setChannelValues(productId, setDto, userId);
+    await this.productRevisionService.recordRevision(productId, userId, 'channel_values_updated', actingUserId);
+
+    const product = await this.prisma.product.findUnique({ where: { id: productId }, select: { name: true } });
+    await this.notificationService.createNotification(
+      userId,
+      EntityType.PRODUCT,
+      ActionType.UPDATED,
+      product?.name ?? `Product ${productId}`,
+      productId,
+      { details: `updated ${setDto.channel} attribute values`, channel: setDto.channel, connectionId: setDto.connectionId },
+    );
+
+    // Re-sync the connection the values were scoped to
+    if (this.wooAutoSyncService && setDto.channel === IntegrationType.WOOCOMMERCE) {
+      this.wooAutoSyncService.autoSyncProductUpdate(productId, userId).catch((error: any) => {
+        this.logger.error(`Auto-sync to WooCommerce failed for product ${productId}: ${error.message}`);
+      });
+    }
+
+    return result;
+  }
+
+  async removeChannelValue(
+    productId: number,
+    valueId: number,
+    userId: number,
+    actingUserId: number = userId,
+  ): Promise<{ message: string; channel: string; connectionId: number | null }> {
+    await this.productRevisionService.recordBaseline(productId, userId);
+    const result = await this.productChannelValueService.removeChannelValue(productId, valueId, userId);
+    await this.productRevisionService.recordRevision(productId, userId, 'channel_values_updated', actingUserId);
+    return result;
+  }
+
+  async createAssociation(
+    productId: number,
+    createDto: CreateProductAssociationDto,
+    userId: number,
+  ): Promise<ProductAssociationResponseDto> {
+    const result = await this.productAssociationService.createAssociation(productId, createDto, userId);
+    await this.afterAssociationChange(productId, userId, result.type, `added ${result.type} association to ${result.associatedProduct.sku}`);
+    return result;
+  }
+
+  async updateAssociation(
+    productId: number,
+    associationId: number,
+    updateDto: UpdateProductAssociationDto,
+    userId: number,
+  ): Promise<ProductAssociationResponseDto> {
+    const result = await this.productAssociationService.updateAssociation(productId, associationId, updateDto, userId);
+    await this.afterAssociationChange(productId, userId, result.type, `updated ${result.type} association to ${result.associatedProduct.sku}`);
+    return result;
+  }
+
+  async removeAssociation(
+    productId: number,
+    associationId: number,
+    userId: number,
+  ): Promise<{ message: string; type: ProductAssociationType }> {
+    const result = await this.productAssociationService.removeAssociation(productId, associationId, userId);
+    await this.afterAssociationChange(productId, userId, result.type, `removed ${result.type} association`);
+    return result;
+  }
+
+  async setProductCategories(
+    productId: number,
+    setDto: SetProductCategoriesDto,
+    userId: number,
+    actingUserId: number = userId,
+  ): Promise<ProductCategoryResponseDto[]> {
+    await this.productRevisionService.recordBaseline(productId, userId);
+    const result = await this.productCategoryService.setCategories(productId, setDto, userId);
+
+    // The primary category drives category attributes in the completeness status
+    const status = await this.calculateProductStatus(productId);
+    await this.prisma.product.update({ where: { id: productId }, data: { status } });
+
+    await this.productRevisionService.recordRevision(productId, userId, 'categories_updated', actingUserId);
+
+    if (this.wooAutoSyncService) {
+      this.wooAutoSyncService.autoSyncProductUpdate(productId, userId).catch((error: any) => {
+        this.logger.error(`Auto-sync to WooCommerce failed for product ${productId}: ${error.message}`);
+      });
+    }
+    return result;
+  }
+
+  private async afterAssociationChange(
+    productId: number,
+    userId: number,
+    type: ProductAssociationType,
+    details: string,
+  ): Promise<void> {
+    const product = await this.prisma.product.findUnique({ where: { id: productId }, select: { name: true } });
+    await this.notificationService.createNotification(
+      userId,
+      EntityType.PRODUCT,
+      ActionType.UPDATED,
+      product?.name ?? `Product ${productId}`,
+      productId,
+      { details, associationType: type },
+    );
+
+    // Only cross-sells and up-sells are pushed to WooCommerce
+    if (
+      this.wooAutoSyncService &&
+      (type === ProductAssociationType.CROSS_SELL || type === ProductAssociationType.UP_SELL)
+    ) {
+      this.wooAutoSyncService.autoSyncProductUpdate(productId, userId).catch((error: any) => {
+        this.logger.error(`Auto-sync to WooCommerce failed for product ${productId}: ${error.message}`);
+      });
+    }
+  }
+
   /**
    * Inherit family and attributes from parent product when setting parentProductId
    * This intelligently merges parent data with existing child data:
@@ -4202,6 +5240,42 @@ export class ProductService {
     return this.importSchedulerService.getExecutionStats(jobId, userId);
   }
 
+  /**
+   * Helper: Reject variant values for attributes the family locks to the parent.
+   * Empty values and values equal to the parent's are accepted, so exported
+   * rows can be imported back unchanged.
+   */
+  private async validateLockedAttributes(productId: number, values: { attributeId: number; value?: string }[]): Promise<void> {
+    if (values.length === 0) {
+      return;
+    }
+
+    const product = await this.prisma.product.findUnique({
+      where: { id: productId },
+      select: {
+        parentProductId: true,
+        family: { select: { familyAttributes: { select: { attributeId: true, isVariantAxis: true, inheritance: true } } } },
+        parentProduct: { select: { attributes: { select: { attributeId: true, value: true } } } },
+      },
+    });
+    if (!product?.parentProductId) {
+      return;
+    }
+
+    const lockedIds = AttributeInheritanceHelper.lockedAttributeIds(product.family?.familyAttributes);
+    const parentValues = new Map(
+      (product.parentProduct?.attributes || []).map((pa) => [pa.attributeId, pa.value]),
+    );
+    const changed = values.filter(
+      (v) => lockedIds.has(v.attributeId) && v.value !== undefined && v.value !== null && v.value !== '' && v.value !== parentValues.get(v.attributeId),
+    );
+    if (changed.length > 0) {
+      throw new BadRequestException(
+        `Attributes ${changed.map((v) => v.attributeId).join(', ')} are ${InheritanceMode.LOCKED} to the parent product value and cannot be set on a variant`,
+      );
+    }
+  }
+
   /**
    * Helper: Inherit family from parent product to variant
    * When a product becomes a variant, it should inherit the parent's family
@@ -4790,94 +5864,4 @@ export class ProductService {
       throw new BadRequestException('Failed to permanently delete product');
     }
   }
-
-  /**
-   * Attach multiple products to a family in bulk
-   * @param productIds Array of product IDs to attach
-   * @param familyId ID of the family to attach products to
-   * @param userId User performing the operation
-   * @returns Summary of the operation
-   */
-  async bulkAttachProductsToFamily(
-    productIds: number[],
-    familyId: number,
-    userId: number,
-  ): Promise<{
-    success: boolean;
-    attached: number;
-    failed: number;
-    errors: Array<{ productId: number; error: string }>;
-  }> {
-    this.logger.log(`Bulk attaching ${productIds.length} products to family ${familyId} for user ${userId}`);
-
-    // Validate family exists and belongs to user
-    const family = await this.prisma.family.findFirst({
-      where: {
-        id: familyId,
-        userId,
-      },
-    });
-
-    if (!family) {
-      throw new NotFoundException(`Family with ID ${familyId} not found`);
-    }
-
-    const errors: Array<{ productId: number; error: string }> = [];
-    let attached = 0;
-    let failed = 0;
-
-    // Process each product
-    for (const productId of productIds) {
-      try {
-        // Verify product exists and belongs to user
-        const product = await this.prisma.product.findFirst({
-          where: {
-            id: productId,
-            userId,
-          },
-        });
-
-        if (!product) {
-          errors.push({
-            productId,
-            error: 'Product not found or does not belong to user',
-          });
-          failed++;
-          continue;
-        }
-
-        // Check if already attached to this family
-        if (product.familyId === familyId) {
-          this.logger.debug(`Product ${productId} already attached to family ${familyId}`);
-          attached++;
-          continue;
-        }
-
-        // Update product with new family
-        await this.prisma.product.update({
-          where: { id: productId },
-          data: { familyId },
-        });
-
-        attached++;
-        this.logger.debug(`Successfully attached product ${productId} to family ${familyId}`);
-      } catch (error: any) {
-        this.logger.error(`Failed to attach product ${productId} to family ${familyId}: ${error.message}`);
-        errors.push({
-          productId,
-          error: error.message || 'Unknown error',
-        });
-        failed++;
-      }
-    }
-
-    this.logger.log(`Bulk attach completed: ${attached} attached, ${failed} failed`);
-
-    return {
-      success: failed === 0,
-      attached,
-      failed,
-      errors,
-    };
-  }
 }
@@ -6,6 +6,8 @@ import * as https from 'https';
 import * as http from 'http';
 import { Readable } from 'stream';
 import { ProductService } from '../product.service';
+import { ProductAssociationService } from './product-association.service';
+import { AttributeConstraintValidator } from '../../attribute/validators/attribute-constraint.validator';
 import { AttributeType } from '../../types/attribute-type.enum';
 import { Prisma } from '@prisma/client';
 
@@ -63,10 +65,29 @@ const CSV_FIELD_MAPPINGS: Record<string, string> = {
   'image': 'imageUrl',
   'sub_images': 'subImages',
   'sub images': 'subImages',
+  'related_skus': 'relatedSkus',
+  'related skus': 'relatedSkus',
+  'relatedskus': 'relatedSkus',
+  'cross_sell_skus': 'crossSellSkus',
+  'cross sell skus': 'crossSellSkus',
+  'crosssellskus': 'crossSellSkus',
+  'up_sell_skus': 'upSellSkus',
+  'up sell skus': 'upSellSkus',
+  'upsellskus': 'upSellSkus',
+  'accessory_skus': 'accessorySkus',
+  'accessory skus': 'accessorySkus',
+  'accessoryskus': 'accessorySkus',
+  'replacement_skus': 'replacementSkus',
+  'replacement skus': 'replacementSkus',
+  'replacementskus': 'replacementSkus',
+  'bundle_components': 'bundleComponents',
+  'bundle components': 'bundleComponents',
+  'bundlecomponents': 'bundleComponents',
 };
 
 const SKIP_COLUMNS = new Set([
-  'name', 'sku', 'parentSku', 'productLink', 'imageUrl', 'subImages', 'category', 'family', 'status'
+  'name', 'sku', 'parentSku', 'productLink', 'imageUrl', 'subImages', 'category', 'family', 'status',
+  'relatedSkus', 'crossSellSkus', 'upSellSkus', 'accessorySkus', 'replacementSkus', 'bundleComponents'
 ]);
 
 const ATTRIBUTE_TYPE_COMPATIBILITY: Record<string, string[]> = {
@@ -93,6 +114,8 @@ export class CsvImportService {
     private readonly notificationService: NotificationService,
     @Inject(forwardRef(() => ProductService))
     private readonly productService: ProductService,
+    private readonly productAssociationService: ProductAssociationService,
+    private readonly attributeConstraintValidator: AttributeConstraintValidator,
   ) {}
 
   // Caching for performance optimization
@@ -117,6 +140,19 @@ export class CsvImportService {
       // Process products in batches for better performance
       const result = await this.processProductsInBatches(products, userId, startTime);
 
+      // Associations are resolved once every row exists, so rows can refer to later SKUs
+      const associationErrors = await this.productAssociationService.importAssociations(
+        products
+          .map((row, index) => ({
+            row: index + 1,
+            sku: row.sku?.trim() ?? '',
+            cells: this.productAssociationService.extractAssociationCells(row),
+          }))
+          .filter(row => row.sku),
+        userId,
+      );
+      result.errors.push(...associationErrors.map(({ row, error }) => `Row ${row}: ${error}`));
+
       // Send success notification
       await this.sendSuccessNotification(userId, result, csvUrl);
 
@@ -404,6 +440,7 @@ export class CsvImportService {
     
     // Parse attributes for the variant
     const attributeValuePairs = await this.parseAndCreateAttributes(row, userId);
+    await this.attributeConstraintValidator.validate(attributeValuePairs, userId, { sku: row.sku!.trim() });
 
     // Check if variant with this SKU already exists
     const existingVariant = await this.prisma.product.findFirst({
@@ -489,7 +526,8 @@ export class CsvImportService {
 
       // Copy parent attributes to variant if no custom attributes provided
       if (attributeValuePairs.length === 0 && 'attributes' in parentProduct && parentProduct.attributes && Array.isArray(parentProduct.attributes) && parentProduct.attributes.length > 0) {
-        const attributesToCopy = (parentProduct.attributes as any[]).map(attr => ({
+        // Unique values such as a GTIN belong to the parent only
+        const attributesToCopy = (parentProduct.attributes as any[]).filter(attr => !attr.attribute?.isUnique).map(attr => ({
           productId: variant.id,
           attributeId: attr.attributeId,
           familyAttributeId: attr.familyAttributeId,
@@ -790,6 +828,7 @@ export class CsvImportService {
       'NUMBER': ['INTEGER', 'FLOAT', 'CURRENCY', 'PERCENTAGE'], // Number types are interchangeable
       'INTEGER': ['NUMBER'],
       'ARRAY': ['STRING'], // Arrays can sometimes be stored as strings
+      'BARCODE': ['STRING', 'NUMBER', 'INTEGER'], // Barcodes read as numbers or text
     };
 
     return compatibilityMap[existingType]?.includes(inferredType) || 
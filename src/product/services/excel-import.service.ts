@@ -2,8 +2,10 @@ import { Injectable, Logger, BadRequestException } from '@nestjs/common';
 import { PrismaService } from '../../prisma/prisma.service';
 import { parseExcel, ParsedHeader, AttributeDataType, convertValueToType } from '../../utils/excel-parser';
 import { CreateProductDto, ProductAttributeValueDto } from '../dto/create-product.dto';
+import { ASSOCIATION_COLUMNS } from '../dto/product-association.dto';
 import { ImageUploadHelper } from '../../utils/image-upload.helper';
 import { AssetService } from '../../asset/asset.service';
+import { AttributeConstraintValidator } from '../../attribute/validators/attribute-constraint.validator';
 
 /**
  * ═══════════════════════════════════════════════════════════════════════════════
@@ -54,6 +56,7 @@ export class ExcelImportService {
   constructor(
     private readonly prisma: PrismaService,
     private readonly assetService: AssetService,
+    private readonly attributeConstraintValidator: AttributeConstraintValidator,
   ) {}
 
   /**
@@ -291,7 +294,7 @@ export class ExcelImportService {
 
         for (const [fieldName, columnHeader] of Object.entries(mapping)) {
           // Skip standard fields
-          if (['sku', 'name', 'productLink', 'imageUrl', 'subImages', 'category', 'family', 'parentSku'].includes(fieldName)) {
+          if (['sku', 'name', 'productLink', 'imageUrl', 'subImages', 'category', 'family', 'parentSku', ...Object.values(ASSOCIATION_COLUMNS)].includes(fieldName)) {
             continue;
           }
 
@@ -417,6 +420,7 @@ export class ExcelImportService {
    * - Family attribute requirements
    * - String length constraints
    * - URL format validation
+   * - Attribute validation rules and uniqueness
    * 
    * Transforms valid data into CreateProductDto
    */
@@ -617,7 +621,7 @@ export class ExcelImportService {
     
     for (const [fieldName, columnHeader] of Object.entries(mapping)) {
       // Skip standard fields and family attributes
-      if (['sku', 'name', 'productLink', 'imageUrl', 'subImages', 'category', 'family', 'parentSku'].includes(fieldName)) {
+      if (['sku', 'name', 'productLink', 'imageUrl', 'subImages', 'category', 'family', 'parentSku', ...Object.values(ASSOCIATION_COLUMNS)].includes(fieldName)) {
         continue;
       }
 
@@ -690,6 +694,21 @@ export class ExcelImportService {
       dto.attributesWithValues = customAttributesWithValues;
     }
 
+    // Attribute validation rules and uniqueness, as saving the product applies them
+    try {
+      await this.attributeConstraintValidator.normalize(
+        [...familyAttributesWithValues, ...customAttributesWithValues],
+        userId,
+        dto.sku ? { sku: dto.sku } : undefined,
+      );
+    } catch (error) {
+      errors.push({
+        row: rowNumber,
+        field: 'attributes',
+        message: error.message,
+      });
+    }
+
     // Set updateExisting flag for upsert behavior
     dto.updateExisting = true;
 
@@ -0,0 +1,416 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { PrismaService } from '../../prisma/prisma.service';
+import {
+  ASSOCIATION_COLUMNS,
+  CreateProductAssociationDto,
+  GetProductAssociationsDto,
+  ProductAssociationResponseDto,
+  ProductAssociationType,
+  UpdateProductAssociationDto,
+} from '../dto/product-association.dto';
+
+// One imported row: the product SKU and the association cells present in the file
+export interface AssociationImportRow {
+  row: number;
+  sku: string;
+  cells: Partial<Record<ProductAssociationType, string>>;
+}
+
+interface AssociationEntry {
+  sku: string;
+  quantity: number;
+}
+
+const ASSOCIATED_PRODUCT_SELECT = {
+  id: true,
+  name: true,
+  sku: true,
+  imageUrl: true,
+  status: true,
+} as const;
+
+/**
+ * Typed product-to-product associations: related products, cross-sells,
+ * up-sells, accessories, replacements and bundle components. Variants keep
+ * using parentProductId.
+ */
+@Injectable()
+export class ProductAssociationService {
+  private readonly logger = new Logger(ProductAssociationService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async getAssociations(
+    productId: number,
+    userId: number,
+    query: GetProductAssociationsDto = {},
+  ): Promise<ProductAssociationResponseDto[]> {
+    await this.verifyProductOwnership(productId, userId);
+
+    const associations = await this.prisma.productAssociation.findMany({
+      where: {
+        productId,
+        ...(query.type && { type: query.type }),
+        associatedProduct: { isDeleted: false },
+      },
+      include: { associatedProduct: { select: ASSOCIATED_PRODUCT_SELECT } },
+      orderBy: [{ type: 'asc' }, { sortOrder: 'asc' }, { id: 'asc' }],
+    });
+
+    return associations.map((association) =>
+      this.transformAssociationForResponse(association),
+    );
+  }
+
+  async createAssociation(
+    productId: number,
+    dto: CreateProductAssociationDto,
+    userId: number,
+  ): Promise<ProductAssociationResponseDto> {
+    await this.verifyProductOwnership(productId, userId);
+    this.validateQuantity(dto.type, dto.quantity);
+
+    if (dto.associatedProductId === productId) {
+      throw new BadRequestException(
+        'A product cannot be associated with itself',
+      );
+    }
+    await this.verifyProductOwnership(dto.associatedProductId, userId);
+
+    // New associations go last unless a position is given
+    let sortOrder = dto.sortOrder;
+    if (sortOrder === undefined) {
+      const last = await this.prisma.productAssociation.findFirst({
+        where: { productId, type: dto.type },
+        orderBy: { sortOrder: 'desc' },
+        select: { sortOrder: true },
+      });
+      sortOrder = last ? last.sortOrder + 1 : 0;
+    }
+
+    try {
+      const association = await this.prisma.productAssociation.create({
+        data: {
+          productId,
+          associatedProductId: dto.associatedProductId,
+          type: dto.type,
+          quantity: dto.quantity ?? 1,
+          sortOrder,
+        },
+        include: { associatedProduct: { select: ASSOCIATED_PRODUCT_SELECT } },
+      });
+
+      this.logger.log(
+        `Associated product ${dto.associatedProductId} with product ${productId} as ${dto.type}`,
+      );
+      return this.transformAssociationForResponse(association);
+    } catch (error) {
+      if (error.code === 'P2002') {
+        throw new ConflictException(
+          `Product ${dto.associatedProductId} is already a ${dto.type} association of this product`,
+        );
+      }
+      throw error;
+    }
+  }
+
+  async updateAssociation(
+    productId: number,
+    associationId: number,
+    dto: UpdateProductAssociationDto,
+    userId: number,
+  ): Promise<ProductAssociationResponseDto> {
+    const existing = await this.findAssociationOrFail(
+      productId,
+      associationId,
+      userId,
+    );
+    this.validateQuantity(
+      existing.type as ProductAssociationType,
+      dto.quantity,
+    );
+
+    const association = await this.prisma.productAssociation.update({
+      where: { id: associationId },
+      data: {
+        ...(dto.quantity !== undefined && { quantity: dto.quantity }),
+        ...(dto.sortOrder !== undefined && { sortOrder: dto.sortOrder }),
+      },
+      include: { associatedProduct: { select: ASSOCIATED_PRODUCT_SELECT } },
+    });
+
+    return this.transformAssociationForResponse(association);
+  }
+
+  async removeAssociation(
+    productId: number,
+    associationId: number,
+    userId: number,
+  ): Promise<{ message: string; type: ProductAssociationType }> {
+    const existing = await this.findAssociationOrFail(
+      productId,
+      associationId,
+      userId,
+    );
+
+    await this.prisma.productAssociation.delete({
+      where: { id: associationId },
+    });
+
+    return {
+      message: 'Association removed',
+      type: existing.type as ProductAssociationType,
+    };
+  }
+
+  // ============================================================
+  // IMPORT / EXPORT
+  // ============================================================
+
+  /**
+   * The association cells of an import row, keyed by type. Columns that are
+   * present but empty are kept, so importing them clears the associations.
+   */
+  extractAssociationCells(
+    values: Record<string, unknown>,
+  ): Partial<Record<ProductAssociationType, string>> {
+    const cells: Partial<Record<ProductAssociationType, string>> = {};
+    for (const type of Object.values(ProductAssociationType)) {
+      const value = values[ASSOCIATION_COLUMNS[type]];
+      if (value !== undefined) {
+        cells[type] =
+          value === null ? '' : String(value as string | number).trim();
+      }
+    }
+    return cells;
+  }
+
+  /**
+   * Replace the associations of imported products with the ones in their
+   * cells. Runs after the rows themselves were imported, so a row can refer to
+   * products further down the file.
+   */
+  async importAssociations(
+    rows: AssociationImportRow[],
+    userId: number,
+  ): Promise<{ row: number; error: string }[]> {
+    const rowsWithCells = rows.filter(
+      (row) => Object.keys(row.cells).length > 0,
+    );
+    if (rowsWithCells.length === 0) {
+      return [];
+    }
+
+    const parsedRows = rowsWithCells.map((row) => ({
+      ...row,
+      entries: Object.entries(row.cells).map(([type, cell]) => ({
+        type: type as ProductAssociationType,
+        entries: this.parseCell(type as ProductAssociationType, cell),
+      })),
+    }));
+
+    const skus = new Set<string>();
+    for (const row of parsedRows) {
+      skus.add(row.sku);
+      row.entries.forEach(({ entries }) =>
+        entries.forEach((entry) => skus.add(entry.sku)),
+      );
+    }
+    const products = await this.prisma.product.findMany({
+      where: { sku: { in: Array.from(skus) }, userId, isDeleted: false },
+      select: { id: true, sku: true },
+    });
+    const productIdBySku = new Map(products.map((p) => [p.sku, p.id]));
+
+    const errors: { row: number; error: string }[] = [];
+    let imported = 0;
+    for (const row of parsedRows) {
+      const productId = productIdBySku.get(row.sku);
+      if (!productId) {
+        errors.push({
+          row: row.row,
+          error: `Associations: product ${row.sku} not found`,
+        });
+        continue;
+      }
+
+      const unknownSkus: string[] = [];
+      const data = row.entries.flatMap(({ type, entries }) =>
+        entries.flatMap((entry, index) => {
+          const associatedProductId = productIdBySku.get(entry.sku);
+          if (!associatedProductId || associatedProductId === productId) {
+            unknownSkus.push(entry.sku);
+            return [];
+          }
+          return [
+            {
+              productId,
+              associatedProductId,
+              type,
+              quantity: entry.quantity,
+              sortOrder: index,
+            },
+          ];
+        }),
+      );
+
+      try {
+        await this.prisma.$transaction([
+          this.prisma.productAssociation.deleteMany({
+            where: {
+              productId,
+              type: { in: row.entries.map(({ type }) => type) },
+            },
+          }),
+          this.prisma.productAssociation.createMany({
+            data,
+            skipDuplicates: true,
+          }),
+        ]);
+      } catch (error) {
+        errors.push({
+          row: row.row,
+          error: `Associations: ${error.message}`,
+        });
+        continue;
+      }
+
+      imported++;
+      if (unknownSkus.length > 0) {
+        errors.push({
+          row: row.row,
+          error: `Associations: skipped unknown SKUs ${unknownSkus.join(', ')}`,
+        });
+      }
+    }
+
+    this.logger.log(
+      `Imported associations for ${imported} of ${parsedRows.length} rows`,
+    );
+    return errors;
+  }
+
+  /**
+   * Export cells of a product's associations, in the import format
+   */
+  formatAssociationColumns(
+    associations: {
+      type: string;
+      quantity: number;
+      sortOrder: number;
+      associatedProduct: { sku: string; isDeleted?: boolean };
+    }[],
+    types: ProductAssociationType[] = Object.values(ProductAssociationType),
+  ): Record<string, string> {
+    const columns: Record<string, string> = {};
+    for (const type of types) {
+      columns[ASSOCIATION_COLUMNS[type]] = associations
+        .filter(
+          (a) => a.type === (type as string) && !a.associatedProduct.isDeleted,
+        )
+        .sort((a, b) => a.sortOrder - b.sortOrder)
+        .map((a) =>
+          type === ProductAssociationType.BUNDLE_COMPONENT && a.quantity !== 1
+            ? `${a.associatedProduct.sku}:${a.quantity}`
+            : a.associatedProduct.sku,
+        )
+        .join(', ');
+    }
+    return columns;
+  }
+
+  private parseCell(
+    type: ProductAssociationType,
+    cell: string | undefined,
+  ): AssociationEntry[] {
+    const seen = new Set<string>();
+    const entries: AssociationEntry[] = [];
+
+    for (const part of (cell ?? '').split(',')) {
+      let sku = part.trim();
+      let quantity = 1;
+
+      if (type === ProductAssociationType.BUNDLE_COMPONENT) {
+        const match = /^(.+):\s*(\d+)$/.exec(sku);
+        if (match) {
+          sku = match[1].trim();
+          quantity = Math.max(1, parseInt(match[2], 10));
+        }
+      }
+
+      if (sku && !seen.has(sku)) {
+        seen.add(sku);
+        entries.push({ sku, quantity });
+      }
+    }
+    return entries;
+  }
+
+  private validateQuantity(
+    type: ProductAssociationType,
+    quantity: number | undefined,
+  ): void {
+    if (
+      quantity !== undefined &&
+      quantity !== 1 &&
+      type !== ProductAssociationType.BUNDLE_COMPONENT
+    ) {
+      throw new BadRequestException(
+        'quantity is only supported for bundle_component associations',
+      );
+    }
+  }
+
+  private async findAssociationOrFail(
+    productId: number,
+    associationId: number,
+    userId: number,
+  ) {
+    await this.verifyProductOwnership(productId, userId);
+
+    const association = await this.prisma.productAssociation.findFirst({
+      where: { id: associationId, productId },
+    });
+    if (!association) {
+      throw new NotFoundException(
+        `Association with ID ${associationId} not found`,
+      );
+    }
+    return association;
+  }
+
+  private async verifyProductOwnership(
+    productId: number,
+    userId: number,
+  ): Promise<void> {
+    const product = await this.prisma.product.findFirst({
+      where: { id: productId, userId, isDeleted: false },
+      select: { id: true },
+    });
+
+    if (!product) {
+      throw new NotFoundException(`Product with ID ${productId} not found`);
+    }
+  }
+
+  private transformAssociationForResponse(
+    association: any,
+  ): ProductAssociationResponseDto {
+    return {
+      id: association.id,
+      productId: association.productId,
+      type: association.type as ProductAssociationType,
+      quantity: association.quantity,
+      sortOrder: association.sortOrder,
+      associatedProduct: association.associatedProduct,
+      createdAt: association.createdAt,
+      updatedAt: association.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,336 @@
+import { Test } from '@nestjs/testing';
+import { ProductBulkEditService } from './product-bulk-edit.service';
+import { ProductCategoryService } from './product-category.service';
+import { ProductService } from '../product.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { NotificationService } from '../../notification/notification.service';
+import { AttributeValueValidator } from '../../attribute/validators/attribute-value.validator';
+import { AttributeConstraintValidator } from '../../attribute/validators/attribute-constraint.validator';
+import {
+  BulkEditOperationType,
+  BulkEditProductsDto,
+} from '../dto/bulk-edit.dto';
+
+const USER_ID = 1;
+const STAFF_ID = 2;
+
+const TITLE = {
+  id: 10,
+  name: 'Title',
+  type: 'STRING',
+  unitFamily: null,
+  defaultUnit: null,
+  computedKind: null,
+  options: [],
+};
+const PRICE = { ...TITLE, id: 11, name: 'Price', type: 'CURRENCY' };
+const MATERIAL = { ...TITLE, id: 12, name: 'Material' };
+
+const tee = {
+  id: 1,
+  sku: 'TEE-1',
+  name: 'Tee',
+  categoryId: 3,
+  parentProductId: null,
+  family: null,
+  attributes: [
+    { attributeId: 10, value: 'Cotton Tee' },
+    { attributeId: 11, value: '19.99' },
+  ],
+  assets: [{ assetId: 100 }],
+};
+const mug = {
+  ...tee,
+  id: 2,
+  sku: 'MUG-1',
+  name: 'Mug',
+  attributes: [{ attributeId: 10, value: 'Mug' }],
+  assets: [],
+};
+// A variant of a family that locks the material to the parent value
+const teeVariant = {
+  ...tee,
+  id: 3,
+  sku: 'TEE-1-S',
+  parentProductId: 1,
+  family: {
+    familyAttributes: [
+      { id: 70, attributeId: 12, isVariantAxis: false, inheritance: 'locked' },
+    ],
+  },
+};
+
+describe('ProductBulkEditService', () => {
+  let service: ProductBulkEditService;
+  let prisma: any;
+  let tx: any;
+  let productService: {
+    findMatchingProductIds: jest.Mock;
+    beforeBulkEdit: jest.Mock;
+    afterBulkEdit: jest.Mock;
+  };
+  let normalize: jest.Mock;
+
+  const edit = (
+    operations: BulkEditProductsDto['operations'],
+    productIds = [1, 2],
+  ): BulkEditProductsDto => ({ operations, productIds });
+
+  beforeEach(async () => {
+    tx = {
+      productAttribute: { upsert: jest.fn() },
+      product: { update: jest.fn() },
+      productAsset: { createMany: jest.fn(), deleteMany: jest.fn() },
+    };
+    prisma = {
+      $transaction: jest.fn((fn) => fn(tx)),
+      attribute: {
+        findMany: jest.fn(({ where }) =>
+          [TITLE, PRICE, MATERIAL].filter((a) => where.id.in.includes(a.id)),
+        ),
+      },
+      category: { findFirst: jest.fn().mockResolvedValue({ id: 4 }) },
+      asset: { count: jest.fn() },
+      product: {
+        findMany: jest.fn(({ select, where }) =>
+          [tee, mug, teeVariant]
+            .filter((p) => where.id.in.includes(p.id))
+            .map((p) => (select.id && !select.sku ? { id: p.id } : p)),
+        ),
+      },
+      bulkEditJob: {
+        create: jest.fn().mockResolvedValue({ id: 'job-1', total: 2 }),
+        update: jest.fn(({ data }) => ({ id: 'job-1', total: 2, ...data })),
+      },
+    };
+    productService = {
+      findMatchingProductIds: jest.fn(),
+      beforeBulkEdit: jest.fn(),
+      afterBulkEdit: jest.fn(),
+    };
+    normalize = jest.fn().mockResolvedValue(undefined);
+
+    const module = await Test.createTestingModule({
+      providers: [
+        ProductBulkEditService,
+        AttributeValueValidator,
+        { provide: PrismaService, useValue: prisma },
+        { provide: ProductService, useValue: productService },
+        {
+          provide: ProductCategoryService,
+          useValue: { setPrimaryCategory: jest.fn() },
+        },
+        { provide: AttributeConstraintValidator, useValue: { normalize } },
+        {
+          provide: NotificationService,
+          useValue: { logBulkOperation: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get(ProductBulkEditService);
+  });
+
+  describe('preview', () => {
+    it('should plan text and number edits without saving them', async () => {
+      const preview = await service.preview(
+        edit([
+          {
+            type: BulkEditOperationType.FIND_REPLACE,
+            attributeId: 10,
+            find: 'tee',
+            replace: 'T-Shirt',
+          },
+          {
+            type: BulkEditOperationType.MULTIPLY_NUMBER,
+            attributeId: 11,
+            amount: 1.1,
+          },
+        ]),
+        USER_ID,
+      );
+
+      expect(preview).toMatchObject({
+        dryRun: true,
+        total: 2,
+        updatedCount: 1,
+        unchangedCount: 1,
+      });
+      expect(preview.results[0].changes).toEqual([
+        {
+          field: 'Title',
+          attributeId: 10,
+          before: 'Cotton Tee',
+          after: 'Cotton T-Shirt',
+        },
+        { field: 'Price', attributeId: 11, before: '19.99', after: '21.99' },
+      ]);
+      // The mug has no price and no "tee" in its title
+      expect(preview.results[1]).toMatchObject({
+        sku: 'MUG-1',
+        status: 'unchanged',
+      });
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should fail products whose new values break attribute rules', async () => {
+      normalize.mockImplementation((values: { value: string }[]) => {
+        if (values.some((v) => v.value === 'Tee')) {
+          throw new Error('Title "Tee" is already used by MUG-1');
+        }
+      });
+
+      const preview = await service.preview(
+        edit([
+          {
+            type: BulkEditOperationType.SET_ATTRIBUTE,
+            attributeId: 10,
+            value: 'Tee',
+          },
+        ]),
+        USER_ID,
+      );
+
+      expect(preview.failedCount).toBe(2);
+      expect(preview.results[0]).toMatchObject({
+        status: 'failed',
+        error: 'Title "Tee" is already used by MUG-1',
+        changes: [],
+      });
+    });
+
+    it('should not let variants change locked attributes', async () => {
+      const preview = await service.preview(
+        edit(
+          [
+            {
+              type: BulkEditOperationType.SET_ATTRIBUTE,
+              attributeId: 12,
+              value: 'Linen',
+            },
+          ],
+          [1, 3],
+        ),
+        USER_ID,
+      );
+
+      expect(preview.results.map((r) => r.status)).toEqual([
+        'updated',
+        'failed',
+      ]);
+      expect(preview.results[1].error).toBe(
+        'Material is locked to the parent product value',
+      );
+    });
+
+    it('should reject operations that do not suit the attribute', async () => {
+      await expect(
+        service.preview(
+          edit([
+            {
+              type: BulkEditOperationType.ADD_NUMBER,
+              attributeId: 10,
+              amount: 5,
+            },
+          ]),
+          USER_ID,
+        ),
+      ).rejects.toThrow(
+        'add_number requires a numeric attribute but "Title" is STRING',
+      );
+      await expect(
+        service.preview(
+          edit([
+            {
+              type: BulkEditOperationType.SET_ATTRIBUTE,
+              attributeId: 11,
+              value: 'cheap',
+            },
+          ]),
+          USER_ID,
+        ),
+      ).rejects.toThrow('Price: ');
+    });
+  });
+
+  describe('startJob', () => {
+    // The job runs in the background; its writes settle within a macrotask
+    const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+    it('should apply the planned changes of every product', async () => {
+      prisma.asset.count.mockResolvedValue(1);
+
+      const job = await service.startJob(
+        edit([
+          {
+            type: BulkEditOperationType.SET_ATTRIBUTE,
+            attributeId: 12,
+            value: 'Linen',
+          },
+          { type: BulkEditOperationType.SET_CATEGORY, categoryId: 4 },
+          { type: BulkEditOperationType.REMOVE_ASSETS, assetIds: [100] },
+        ]),
+        USER_ID,
+        STAFF_ID,
+      );
+      await settle();
+
+      expect(job.id).toBe('job-1');
+      expect(tx.productAttribute.upsert).toHaveBeenCalledTimes(2);
+      expect(tx.productAttribute.upsert).toHaveBeenCalledWith({
+        where: { productId_attributeId: { productId: 2, attributeId: 12 } },
+        update: { value: 'Linen' },
+        create: {
+          productId: 2,
+          attributeId: 12,
+          familyAttributeId: null,
+          value: 'Linen',
+        },
+      });
+      expect(tx.product.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { categoryId: 4 },
+      });
+      // Only the tee had the asset
+      expect(tx.productAsset.deleteMany).toHaveBeenCalledTimes(1);
+      expect(productService.afterBulkEdit).toHaveBeenCalledWith(
+        1,
+        USER_ID,
+        STAFF_ID,
+      );
+      expect(prisma.bulkEditJob.update).toHaveBeenLastCalledWith({
+        where: { id: 'job-1' },
+        data: expect.objectContaining({
+          status: 'completed',
+          message: 'Updated 2, unchanged 0, failed 0 of 2 products',
+        }),
+      });
+    });
+
+    it('should record products that fail to save and carry on', async () => {
+      tx.productAttribute.upsert.mockRejectedValueOnce(
+        new Error('Connection lost'),
+      );
+
+      await service.startJob(
+        edit([
+          {
+            type: BulkEditOperationType.CLEAR_ATTRIBUTE,
+            attributeId: 10,
+          },
+        ]),
+        USER_ID,
+        STAFF_ID,
+      );
+      await settle();
+
+      const { data } = prisma.bulkEditJob.update.mock.lastCall[0];
+      expect(data.results).toEqual([
+        expect.objectContaining({ productId: 1, status: 'failed' }),
+        expect.objectContaining({ productId: 2, status: 'updated' }),
+      ]);
+      expect(data.results[0].error).toBe('Connection lost');
+      expect(productService.afterBulkEdit).toHaveBeenCalledTimes(1);
+    });
+  });
+});
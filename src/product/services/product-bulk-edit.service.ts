@@ -0,0 +1,846 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { Subject, Observable, from, of, concat } from 'rxjs';
+import { map, switchMap, takeWhile } from 'rxjs/operators';
+import { PrismaService } from '../../prisma/prisma.service';
+import { ProductService } from '../product.service';
+import { ProductCategoryService } from './product-category.service';
+import { AttributeValueValidator } from '../../attribute/validators/attribute-value.validator';
+import { AttributeConstraintValidator } from '../../attribute/validators/attribute-constraint.validator';
+import { AttributeType } from '../../types/attribute-type.enum';
+import { AttributeInheritanceHelper } from '../../utils/attribute-inheritance.helper';
+import {
+  AttributeOptionHelper,
+  AttributeOptionRow,
+} from '../../utils/attribute-option.helper';
+import { withRecomputeAfterCommit } from '../../utils/computedAttributeUtils';
+import {
+  NotificationService,
+  EntityType,
+  ActionType,
+} from '../../notification/notification.service';
+import {
+  BulkEditProductsDto,
+  BulkEditOperationDto,
+  BulkEditOperationType,
+  BulkEditChangeDto,
+  BulkEditProductResultDto,
+  BulkEditPreviewResponseDto,
+  BulkEditJobResponseDto,
+} from '../dto/bulk-edit.dto';
+
+const TEXT_ATTRIBUTE_TYPES = [
+  AttributeType.STRING,
+  AttributeType.TEXT,
+  AttributeType.HTML,
+  AttributeType.EMAIL,
+  AttributeType.URL,
+  AttributeType.PHONE,
+  AttributeType.COLOR,
+  AttributeType.ENUM,
+];
+
+const NUMERIC_ATTRIBUTE_TYPES = [
+  AttributeType.INTEGER,
+  AttributeType.NUMBER,
+  AttributeType.FLOAT,
+  AttributeType.CURRENCY,
+  AttributeType.PERCENTAGE,
+];
+
+interface BulkEditAttribute {
+  id: number;
+  name: string;
+  type: AttributeType;
+  unitFamily: string | null;
+  defaultUnit: string | null;
+  computedKind: string | null;
+  options: AttributeOptionRow[];
+}
+
+// Everything that is validated once per run instead of once per product
+interface BulkEditContext {
+  userId: number;
+  operations: BulkEditOperationDto[];
+  attributes: Map<number, BulkEditAttribute>;
+  // Validated set_attribute values by operation index
+  setValues: Map<number, string | null>;
+}
+
+interface BulkEditProduct {
+  id: number;
+  sku: string;
+  name: string;
+  categoryId: number | null;
+  parentProductId: number | null;
+  family: {
+    familyAttributes: {
+      id: number;
+      attributeId: number;
+      isVariantAxis: boolean;
+      inheritance: string;
+    }[];
+  } | null;
+  attributes: { attributeId: number; value: string | null }[];
+  assets: { assetId: number }[];
+}
+
+interface PlannedEdit {
+  result: BulkEditProductResultDto;
+  attributeValues: Map<number, string | null>;
+  categoryId?: number | null;
+  addAssetIds: number[];
+  removeAssetIds: number[];
+}
+
+/**
+ * Bulk edits of product fields and attribute values. A run applies a list of
+ * operations to a product selection (explicit IDs and/or product list
+ * filters) as a background job; a dry run previews the changes instead.
+ */
+@Injectable()
+export class ProductBulkEditService implements OnModuleInit {
+  private readonly logger = new Logger(ProductBulkEditService.name);
+
+  // Products loaded and saved per step; progress is persisted after each batch
+  private readonly BATCH_SIZE = 50;
+  // Products evaluated by a dry run
+  private readonly PREVIEW_LIMIT = 100;
+
+  // Progress streams of the jobs running in this process
+  private progressStreams = new Map<string, Subject<BulkEditJobResponseDto>>();
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly productService: ProductService,
+    private readonly productCategoryService: ProductCategoryService,
+    private readonly validator: AttributeValueValidator,
+    private readonly attributeConstraintValidator: AttributeConstraintValidator,
+    private readonly notificationService: NotificationService,
+  ) {}
+
+  async onModuleInit() {
+    // Jobs only run in the process that started them
+    try {
+      const { count } = await this.prisma.bulkEditJob.updateMany({
+        where: { status: { in: ['pending', 'running'] } },
+        data: {
+          status: 'failed',
+          message: 'Interrupted by a server restart',
+          completedAt: new Date(),
+        },
+      });
+      if (count > 0) {
+        this.logger.warn(
+          `Marked ${count} interrupted bulk edit jobs as failed`,
+        );
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to clean up interrupted bulk edit jobs: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Evaluate the operations against the first products of the selection
+   * without saving anything
+   */
+  async preview(
+    dto: BulkEditProductsDto,
+    userId: number,
+  ): Promise<BulkEditPreviewResponseDto> {
+    const context = await this.prepareContext(dto.operations, userId);
+    const productIds = await this.resolveSelection(dto, userId);
+
+    const previewIds = productIds.slice(0, this.PREVIEW_LIMIT);
+    const products = await this.loadProducts(previewIds, userId);
+    const results: BulkEditProductResultDto[] = [];
+    for (const id of previewIds) {
+      results.push((await this.planEdit(id, products.get(id), context)).result);
+    }
+
+    return {
+      dryRun: true,
+      total: productIds.length,
+      previewed: results.length,
+      updatedCount: results.filter((r) => r.status === 'updated').length,
+      unchangedCount: results.filter((r) => r.status === 'unchanged').length,
+      failedCount: results.filter((r) => r.status === 'failed').length,
+      results,
+    };
+  }
+
+  /**
+   * Validate the request, snapshot the selection and run the edit in the background
+   */
+  async startJob(
+    dto: BulkEditProductsDto,
+    userId: number,
+    actingUserId: number,
+  ): Promise<BulkEditJobResponseDto> {
+    const context = await this.prepareContext(dto.operations, userId);
+    const productIds = await this.resolveSelection(dto, userId);
+
+    const job = await this.prisma.bulkEditJob.create({
+      data: {
+        userId,
+        createdById: actingUserId,
+        operations: dto.operations as any,
+        productIds,
+        total: productIds.length,
+      },
+    });
+
+    this.progressStreams.set(job.id, new Subject<BulkEditJobResponseDto>());
+    this.runJob(job.id, productIds, userId, actingUserId, context).catch(
+      (error: any) => {
+        this.logger.error(`Bulk edit job ${job.id} failed: ${error.message}`);
+      },
+    );
+
+    this.logger.log(
+      `User ${actingUserId} started bulk edit job ${job.id} for ${productIds.length} products`,
+    );
+    return this.transformJobForResponse(job, false);
+  }
+
+  async getJobs(
+    userId: number,
+    limit: number = 20,
+  ): Promise<BulkEditJobResponseDto[]> {
+    const jobs = await this.prisma.bulkEditJob.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+    return jobs.map((job) => this.transformJobForResponse(job, false));
+  }
+
+  async getJob(
+    jobId: string,
+    userId: number,
+    includeResults: boolean = true,
+  ): Promise<BulkEditJobResponseDto> {
+    const job = await this.prisma.bulkEditJob.findFirst({
+      where: { id: jobId, userId },
+    });
+    if (!job) {
+      throw new NotFoundException(`Bulk edit job ${jobId} not found`);
+    }
+    return this.transformJobForResponse(job, includeResults);
+  }
+
+  // Progress stream for SSE: the current state, then an update after every batch
+  getProgressStream(jobId: string, userId: number): Observable<MessageEvent> {
+    return from(this.getJob(jobId, userId, false)).pipe(
+      switchMap((job) => {
+        const stream = this.progressStreams.get(jobId);
+        return stream && !this.isFinished(job)
+          ? concat(of(job), stream)
+          : of(job);
+      }),
+      map((progress) => ({ data: progress }) as MessageEvent),
+      takeWhile((event: any) => !this.isFinished(event.data), true),
+    );
+  }
+
+  private async runJob(
+    jobId: string,
+    productIds: number[],
+    userId: number,
+    actingUserId: number,
+    context: BulkEditContext,
+  ): Promise<void> {
+    const results: BulkEditProductResultDto[] = [];
+    const counts = {
+      processed: 0,
+      updatedCount: 0,
+      unchangedCount: 0,
+      failedCount: 0,
+    };
+
+    try {
+      await this.updateJob(jobId, { status: 'running', startedAt: new Date() });
+
+      for (let i = 0; i < productIds.length; i += this.BATCH_SIZE) {
+        const batchIds = productIds.slice(i, i + this.BATCH_SIZE);
+        const products = await this.loadProducts(batchIds, userId);
+
+        for (const productId of batchIds) {
+          const product = products.get(productId);
+          const plan = await this.planEdit(productId, product, context);
+
+          if (product && plan.result.status === 'updated') {
+            try {
+              await this.applyEdit(product, plan, userId, actingUserId);
+            } catch (error) {
+              plan.result.status = 'failed';
+              plan.result.error = error.message;
+            }
+          }
+
+          results.push(plan.result);
+          counts.processed++;
+          if (plan.result.status === 'updated') counts.updatedCount++;
+          else if (plan.result.status === 'unchanged') counts.unchangedCount++;
+          else counts.failedCount++;
+        }
+
+        await this.updateJob(jobId, counts);
+      }
+
+      await this.updateJob(jobId, {
+        status: 'completed',
+        completedAt: new Date(),
+        results: results as any,
+        message: `Updated ${counts.updatedCount}, unchanged ${counts.unchangedCount}, failed ${counts.failedCount} of ${productIds.length} products`,
+      });
+
+      if (counts.updatedCount > 0) {
+        await this.notificationService.logBulkOperation(
+          userId,
+          EntityType.PRODUCT,
+          ActionType.BULK_UPDATED,
+          counts.updatedCount,
+          'Products',
+        );
+      }
+    } catch (error) {
+      await this.updateJob(jobId, {
+        status: 'failed',
+        completedAt: new Date(),
+        results: results as any,
+        message: error.message,
+      });
+      throw error;
+    } finally {
+      const stream = this.progressStreams.get(jobId);
+      this.progressStreams.delete(jobId);
+      stream?.complete();
+    }
+  }
+
+  private async updateJob(jobId: string, data: any): Promise<void> {
+    const job = await this.prisma.bulkEditJob.update({
+      where: { id: jobId },
+      data,
+    });
+    this.progressStreams
+      .get(jobId)
+      ?.next(this.transformJobForResponse(job, false));
+  }
+
+  /**
+   * Work out the changes for one product. Nothing is saved; a result with
+   * status 'updated' carries what applyEdit has to write.
+   */
+  private async planEdit(
+    productId: number,
+    product: BulkEditProduct | undefined,
+    context: BulkEditContext,
+  ): Promise<PlannedEdit> {
+    const plan: PlannedEdit = {
+      result: {
+        productId,
+        sku: product?.sku ?? null,
+        name: product?.name ?? null,
+        status: 'unchanged',
+        changes: [],
+      },
+      attributeValues: new Map(),
+      addAssetIds: [],
+      removeAssetIds: [],
+    };
+
+    if (!product) {
+      plan.result.status = 'failed';
+      plan.result.error = 'Product not found or has been deleted';
+      return plan;
+    }
+
+    const originalValues = new Map(
+      product.attributes.map((pa) => [pa.attributeId, pa.value]),
+    );
+    const values = new Map(originalValues);
+    const originalAssets = product.assets.map((pa) => pa.assetId);
+    const assets = new Set(originalAssets);
+    let categoryId = product.categoryId;
+
+    try {
+      context.operations.forEach((operation, index) => {
+        const attribute =
+          operation.attributeId !== undefined
+            ? context.attributes.get(operation.attributeId)
+            : undefined;
+        const current = attribute ? (values.get(attribute.id) ?? null) : null;
+
+        switch (operation.type) {
+          case BulkEditOperationType.SET_ATTRIBUTE:
+            values.set(attribute!.id, context.setValues.get(index) ?? null);
+            break;
+          case BulkEditOperationType.CLEAR_ATTRIBUTE:
+            if (values.has(attribute!.id)) values.set(attribute!.id, null);
+            break;
+          case BulkEditOperationType.FIND_REPLACE:
+            if (current) {
+              values.set(
+                attribute!.id,
+                this.validateValue(
+                  attribute!,
+                  this.replaceText(current, operation),
+                ),
+              );
+            }
+            break;
+          case BulkEditOperationType.ADD_NUMBER:
+          case BulkEditOperationType.MULTIPLY_NUMBER:
+            // Products without a value are left alone
+            if (current !== null && current !== '') {
+              values.set(
+                attribute!.id,
+                this.validateValue(
+                  attribute!,
+                  this.calculateNumber(attribute!, current, operation),
+                ),
+              );
+            }
+            break;
+          case BulkEditOperationType.SET_CATEGORY:
+            categoryId = operation.categoryId ?? null;
+            break;
+          case BulkEditOperationType.ADD_ASSETS:
+            operation.assetIds!.forEach((assetId) => assets.add(assetId));
+            break;
+          case BulkEditOperationType.REMOVE_ASSETS:
+            operation.assetIds!.forEach((assetId) => assets.delete(assetId));
+            break;
+        }
+      });
+    } catch (error) {
+      plan.result.status = 'failed';
+      plan.result.error = error.message;
+      return plan;
+    }
+
+    // Variants always show the parent value of locked attributes
+    const lockedIds = product.parentProductId
+      ? AttributeInheritanceHelper.lockedAttributeIds(
+          product.family?.familyAttributes,
+        )
+      : new Set<number>();
+
+    for (const [attributeId, value] of values) {
+      const before = originalValues.get(attributeId) ?? null;
+      if (value === before) continue;
+
+      if (lockedIds.has(attributeId)) {
+        plan.result.status = 'failed';
+        plan.result.error = `${context.attributes.get(attributeId)!.name} is locked to the parent product value`;
+        plan.result.changes = [];
+        plan.attributeValues.clear();
+        return plan;
+      }
+
+      plan.attributeValues.set(attributeId, value);
+      plan.result.changes.push({
+        field: context.attributes.get(attributeId)!.name,
+        attributeId,
+        before,
+        after: value,
+      });
+    }
+
+    // Validation rules, uniqueness and barcodes, as saving a single product checks them
+    try {
+      await this.attributeConstraintValidator.normalize(
+        Array.from(plan.attributeValues, ([attributeId, value]) => ({
+          attributeId,
+          value,
+        })),
+        context.userId,
+        { id: product.id },
+      );
+    } catch (error) {
+      plan.result.status = 'failed';
+      plan.result.error = error.message;
+      plan.result.changes = [];
+      plan.attributeValues.clear();
+      return plan;
+    }
+
+    if (categoryId !== product.categoryId) {
+      plan.categoryId = categoryId;
+      plan.result.changes.push({
+        field: 'category',
+        before: product.categoryId,
+        after: categoryId,
+      });
+    }
+
+    plan.addAssetIds = Array.from(assets).filter(
+      (assetId) => !originalAssets.includes(assetId),
+    );
+    plan.removeAssetIds = originalAssets.filter(
+      (assetId) => !assets.has(assetId),
+    );
+    if (plan.addAssetIds.length > 0 || plan.removeAssetIds.length > 0) {
+      plan.result.changes.push({
+        field: 'assets',
+        before: [...originalAssets].sort((a, b) => a - b),
+        after: Array.from(assets).sort((a, b) => a - b),
+      } as BulkEditChangeDto);
+    }
+
+    if (plan.result.changes.length > 0) {
+      plan.result.status = 'updated';
+    }
+    return plan;
+  }
+
+  private async applyEdit(
+    product: BulkEditProduct,
+    plan: PlannedEdit,
+    userId: number,
+    actingUserId: number,
+  ): Promise<void> {
+    await this.productService.beforeBulkEdit(product.id, userId);
+
+    const familyAttributeIds = new Map(
+      (product.family?.familyAttributes ?? []).map((fa) => [
+        fa.attributeId,
+        fa.id,
+      ]),
+    );
+
+    await withRecomputeAfterCommit(() =>
+      this.prisma.$transaction(async (tx) => {
+        for (const [attributeId, value] of plan.attributeValues) {
+          await tx.productAttribute.upsert({
+            where: {
+              productId_attributeId: { productId: product.id, attributeId },
+            },
+            update: { value },
+            create: {
+              productId: product.id,
+              attributeId,
+              familyAttributeId: familyAttributeIds.get(attributeId) ?? null,
+              value,
+            },
+          });
+        }
+
+        if (plan.categoryId !== undefined) {
+          await tx.product.update({
+            where: { id: product.id },
+            data: { categoryId: plan.categoryId },
+          });
+          await this.productCategoryService.setPrimaryCategory(
+            product.id,
+            plan.categoryId,
+            tx,
+          );
+        }
+
+        if (plan.addAssetIds.length > 0) {
+          await tx.productAsset.createMany({
+            data: plan.addAssetIds.map((assetId) => ({
+              productId: product.id,
+              assetId,
+            })),
+            skipDuplicates: true,
+          });
+        }
+
+        if (plan.removeAssetIds.length > 0) {
+          await tx.productAsset.deleteMany({
+            where: {
+              productId: product.id,
+              assetId: { in: plan.removeAssetIds },
+            },
+          });
+        }
+      }),
+    );
+
+    await this.productService.afterBulkEdit(product.id, userId, actingUserId);
+  }
+
+  private replaceText(value: string, operation: BulkEditOperationDto): string {
+    const escaped = operation.find!.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const pattern = new RegExp(escaped, operation.caseSensitive ? 'g' : 'gi');
+    // A function replacement keeps "$" in the replacement literal
+    return value.replace(pattern, () => operation.replace ?? '');
+  }
+
+  private calculateNumber(
+    attribute: BulkEditAttribute,
+    value: string,
+    operation: BulkEditOperationDto,
+  ): number {
+    const number = Number(value);
+    if (isNaN(number)) {
+      throw new BadRequestException(
+        `${attribute.name} value "${value}" is not a number`,
+      );
+    }
+
+    const result =
+      operation.type === BulkEditOperationType.ADD_NUMBER
+        ? number + operation.amount!
+        : number * operation.amount!;
+    // Drop floating point noise such as 19.990000000000002
+    const rounded = parseFloat(result.toFixed(10));
+    return attribute.type === AttributeType.INTEGER
+      ? Math.round(rounded)
+      : rounded;
+  }
+
+  private validateValue(
+    attribute: BulkEditAttribute,
+    value: any,
+  ): string | null {
+    try {
+      if (attribute.type === AttributeType.MEASUREMENT) {
+        return this.validator.validateMeasurement(
+          value,
+          attribute.unitFamily,
+          attribute.defaultUnit,
+        );
+      }
+      if (attribute.options.length > 0) {
+        return this.validator.validateOptions(
+          attribute.type,
+          value,
+          attribute.options,
+        );
+      }
+      return this.validator.validateAndStringify(attribute.type, value);
+    } catch (error) {
+      throw new BadRequestException(`${attribute.name}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Check the operations reference the user's own attributes, category and
+   * assets, suit the attribute types, and validate the values to set
+   */
+  private async prepareContext(
+    operations: BulkEditOperationDto[],
+    userId: number,
+  ): Promise<BulkEditContext> {
+    const attributeIds = Array.from(
+      new Set(
+        operations
+          .map((operation) => operation.attributeId)
+          .filter((id): id is number => id !== undefined),
+      ),
+    );
+    const attributes =
+      attributeIds.length > 0
+        ? await this.prisma.attribute.findMany({
+            where: { id: { in: attributeIds }, userId },
+            select: {
+              id: true,
+              name: true,
+              type: true,
+              unitFamily: true,
+              defaultUnit: true,
+              computedKind: true,
+              options: AttributeOptionHelper.include(),
+            },
+          })
+        : [];
+    if (attributes.length !== attributeIds.length) {
+      throw new BadRequestException(
+        'One or more attributes not found or do not belong to you',
+      );
+    }
+
+    const context: BulkEditContext = {
+      userId,
+      operations,
+      attributes: new Map(
+        attributes.map((attribute) => [
+          attribute.id,
+          { ...attribute, type: attribute.type as AttributeType },
+        ]),
+      ),
+      setValues: new Map(),
+    };
+
+    const assetIds = new Set<number>();
+    for (const [index, operation] of operations.entries()) {
+      const attribute =
+        operation.attributeId !== undefined
+          ? context.attributes.get(operation.attributeId)
+          : undefined;
+      // Computed attributes derive their value from other inputs
+      if (attribute?.computedKind) {
+        throw new BadRequestException(
+          `Computed attribute "${attribute.name}" is read-only`,
+        );
+      }
+
+      switch (operation.type) {
+        case BulkEditOperationType.SET_ATTRIBUTE:
+          context.setValues.set(
+            index,
+            this.validateValue(attribute!, operation.value),
+          );
+          break;
+        case BulkEditOperationType.FIND_REPLACE:
+          if (!TEXT_ATTRIBUTE_TYPES.includes(attribute!.type)) {
+            throw new BadRequestException(
+              `Find and replace is not supported for ${attribute!.type} attribute "${attribute!.name}"`,
+            );
+          }
+          break;
+        case BulkEditOperationType.ADD_NUMBER:
+        case BulkEditOperationType.MULTIPLY_NUMBER:
+          if (!NUMERIC_ATTRIBUTE_TYPES.includes(attribute!.type)) {
+            throw new BadRequestException(
+              `${operation.type} requires a numeric attribute but "${attribute!.name}" is ${attribute!.type}`,
+            );
+          }
+          break;
+        case BulkEditOperationType.SET_CATEGORY:
+          if (operation.categoryId) {
+            const category = await this.prisma.category.findFirst({
+              where: { id: operation.categoryId, userId },
+              select: { id: true },
+            });
+            if (!category) {
+              throw new BadRequestException(
+                'Category not found or does not belong to you',
+              );
+            }
+          }
+          break;
+        case BulkEditOperationType.ADD_ASSETS:
+        case BulkEditOperationType.REMOVE_ASSETS:
+          operation.assetIds!.forEach((assetId) => assetIds.add(assetId));
+          break;
+      }
+    }
+
+    if (assetIds.size > 0) {
+      const count = await this.prisma.asset.count({
+        where: { id: { in: Array.from(assetIds) }, userId, isDeleted: false },
+      });
+      if (count !== assetIds.size) {
+        throw new BadRequestException(
+          'One or more assets not found or do not belong to you',
+        );
+      }
+    }
+
+    return context;
+  }
+
+  /**
+   * Product IDs selected by explicit IDs, filters, or the IDs matching the filters
+   */
+  private async resolveSelection(
+    dto: BulkEditProductsDto,
+    userId: number,
+  ): Promise<number[]> {
+    if (!dto.productIds && !dto.filters) {
+      throw new BadRequestException('Provide productIds, filters or both');
+    }
+
+    let productIds: number[];
+    if (dto.filters) {
+      productIds = await this.productService.findMatchingProductIds(
+        userId,
+        dto.filters,
+      );
+      if (dto.productIds) {
+        const selected = new Set(dto.productIds);
+        productIds = productIds.filter((id) => selected.has(id));
+      }
+    } else {
+      const requestedIds = Array.from(new Set(dto.productIds));
+      const products = await this.prisma.product.findMany({
+        where: { id: { in: requestedIds }, userId, isDeleted: false },
+        select: { id: true },
+        orderBy: { id: 'asc' },
+      });
+      if (products.length !== requestedIds.length) {
+        throw new BadRequestException(
+          'One or more products not found or do not belong to you',
+        );
+      }
+      productIds = products.map((product) => product.id);
+    }
+
+    if (productIds.length === 0) {
+      throw new BadRequestException('No products match the selection');
+    }
+    return productIds;
+  }
+
+  private async loadProducts(
+    productIds: number[],
+    userId: number,
+  ): Promise<Map<number, BulkEditProduct>> {
+    const products: BulkEditProduct[] = await this.prisma.product.findMany({
+      where: { id: { in: productIds }, userId, isDeleted: false },
+      select: {
+        id: true,
+        sku: true,
+        name: true,
+        categoryId: true,
+        parentProductId: true,
+        family: {
+          select: {
+            familyAttributes: {
+              select: {
+                id: true,
+                attributeId: true,
+                isVariantAxis: true,
+                inheritance: true,
+              },
+            },
+          },
+        },
+        attributes: { select: { attributeId: true, value: true } },
+        assets: { select: { assetId: true } },
+      },
+    });
+    return new Map(products.map((product) => [product.id, product]));
+  }
+
+  private isFinished(job: BulkEditJobResponseDto): boolean {
+    return job.status === 'completed' || job.status === 'failed';
+  }
+
+  private transformJobForResponse(
+    job: any,
+    includeResults: boolean,
+  ): BulkEditJobResponseDto {
+    return {
+      id: job.id,
+      status: job.status,
+      operations: job.operations,
+      total: job.total,
+      processed: job.processed,
+      updatedCount: job.updatedCount,
+      unchangedCount: job.unchangedCount,
+      failedCount: job.failedCount,
+      percentage:
+        job.total > 0 ? Math.round((job.processed / job.total) * 100) : 100,
+      message: job.message,
+      createdById: job.createdById,
+      createdAt: job.createdAt,
+      startedAt: job.startedAt,
+      completedAt: job.completedAt,
+      ...(includeResults && { results: job.results }),
+    };
+  }
+}
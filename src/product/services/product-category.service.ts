@@ -0,0 +1,186 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import type { Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import {
+  ProductCategoryResponseDto,
+  SetProductCategoriesDto,
+} from '../dto/product-category.dto';
+import { ProductCategoryHelper } from '../../utils/product-category.helper';
+import { withRecomputeAfterCommit } from '../../utils/computedAttributeUtils';
+
+/**
+ * Categories a product is listed in. Product.categoryId stays the primary
+ * category and is mirrored by the ProductCategory row marked primary.
+ */
+@Injectable()
+export class ProductCategoryService {
+  private readonly logger = new Logger(ProductCategoryService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async getCategories(
+    productId: number,
+    userId: number,
+  ): Promise<ProductCategoryResponseDto[]> {
+    const product = await this.prisma.product.findFirst({
+      where: { id: productId, userId, isDeleted: false },
+      select: {
+        categoryId: true,
+        category: { select: { id: true, name: true } },
+        categories: ProductCategoryHelper.include(),
+      },
+    });
+
+    if (!product) {
+      throw new NotFoundException(`Product with ID ${productId} not found`);
+    }
+
+    return this.transformCategoriesForResponse(product);
+  }
+
+  async setCategories(
+    productId: number,
+    dto: SetProductCategoriesDto,
+    userId: number,
+  ): Promise<ProductCategoryResponseDto[]> {
+    const product = await this.prisma.product.findFirst({
+      where: { id: productId, userId, isDeleted: false },
+      select: { id: true },
+    });
+
+    if (!product) {
+      throw new NotFoundException(`Product with ID ${productId} not found`);
+    }
+
+    if (
+      dto.primaryCategoryId !== undefined &&
+      !dto.categoryIds.includes(dto.primaryCategoryId)
+    ) {
+      throw new BadRequestException(
+        'The primary category must be one of the categoryIds',
+      );
+    }
+
+    await this.validateCategories(dto.categoryIds, userId);
+    await this.replaceCategories(
+      productId,
+      dto.primaryCategoryId ?? dto.categoryIds[0] ?? null,
+      dto.categoryIds,
+    );
+
+    this.logger.log(
+      `Set ${dto.categoryIds.length} categories on product ${productId} for user: ${userId}`,
+    );
+    return this.getCategories(productId, userId);
+  }
+
+  /**
+   * Replace every category of a product. The primary category is added to the
+   * list when missing and written to Product.categoryId. Runs in the given
+   * transaction, or in its own.
+   */
+  async replaceCategories(
+    productId: number,
+    primaryCategoryId: number | null,
+    categoryIds: number[],
+    tx?: Prisma.TransactionClient,
+  ): Promise<void> {
+    const ids = Array.from(
+      new Set(
+        primaryCategoryId ? [primaryCategoryId, ...categoryIds] : categoryIds,
+      ),
+    );
+
+    const replace = async (client: Prisma.TransactionClient) => {
+      await client.productCategory.deleteMany({
+        where: { productId, categoryId: { notIn: ids } },
+      });
+      for (const categoryId of ids) {
+        await client.productCategory.upsert({
+          where: { productId_categoryId: { productId, categoryId } },
+          create: {
+            productId,
+            categoryId,
+            isPrimary: categoryId === primaryCategoryId,
+          },
+          update: { isPrimary: categoryId === primaryCategoryId },
+        });
+      }
+      await client.product.update({
+        where: { id: productId },
+        data: { categoryId: primaryCategoryId },
+      });
+    };
+
+    if (tx) {
+      await replace(tx);
+    } else {
+      await withRecomputeAfterCommit(() => this.prisma.$transaction(replace));
+    }
+  }
+
+  /**
+   * Make a category the primary one, keeping the additional categories. The
+   * previous primary category is removed, as when a product had one category.
+   * Product.categoryId is written by the caller.
+   */
+  async setPrimaryCategory(
+    productId: number,
+    categoryId: number | null,
+    tx?: Prisma.TransactionClient,
+  ): Promise<void> {
+    const setPrimary = async (client: Prisma.TransactionClient) => {
+      await client.productCategory.deleteMany({
+        where: {
+          productId,
+          isPrimary: true,
+          ...(categoryId ? { categoryId: { not: categoryId } } : {}),
+        },
+      });
+      if (categoryId) {
+        await client.productCategory.upsert({
+          where: { productId_categoryId: { productId, categoryId } },
+          create: { productId, categoryId, isPrimary: true },
+          update: { isPrimary: true },
+        });
+      }
+    };
+
+    if (tx) {
+      await setPrimary(tx);
+    } else {
+      await withRecomputeAfterCommit(() =>
+        this.prisma.$transaction(setPrimary),
+      );
+    }
+  }
+
+  async validateCategories(
+    categoryIds: number[],
+    userId: number,
+  ): Promise<void> {
+    const uniqueIds = Array.from(new Set(categoryIds));
+    if (uniqueIds.length === 0) return;
+
+    const count = await this.prisma.category.count({
+      where: { id: { in: uniqueIds }, userId },
+    });
+    if (count !== uniqueIds.length) {
+      throw new BadRequestException(
+        'One or more categories not found or do not belong to you',
+      );
+    }
+  }
+
+  transformCategoriesForResponse(product: any): ProductCategoryResponseDto[] {
+    return ProductCategoryHelper.productCategories(product).map((category) => ({
+      ...category,
+      isPrimary: category.id === product.categoryId,
+    }));
+  }
+}
@@ -0,0 +1,309 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { PrismaService } from '../../prisma/prisma.service';
+import { AttributeValueValidator } from '../../attribute/validators/attribute-value.validator';
+import { AttributeConstraintValidator } from '../../attribute/validators/attribute-constraint.validator';
+import { AttributeType } from '../../types/attribute-type.enum';
+import { IntegrationType } from '../../integration/base/integration-type.enum';
+import {
+  ChannelValueHelper,
+  NO_CONNECTION_ID,
+} from '../../utils/channel-value.helper';
+import { AttributeOptionHelper } from '../../utils/attribute-option.helper';
+import { withRecomputeAfterCommit } from '../../utils/computedAttributeUtils';
+import {
+  GetProductChannelValuesDto,
+  ProductChannelValueResponseDto,
+  SetProductChannelValuesDto,
+} from '../dto/product-channel-value.dto';
+
+/**
+ * Service for attribute values scoped to a sales channel (WooCommerce
+ * connection, MyDeal connection or Amazon). Integrations resolve these through
+ * ChannelValueHelper when building their payloads.
+ */
+@Injectable()
+export class ProductChannelValueService {
+  private readonly logger = new Logger(ProductChannelValueService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly validator: AttributeValueValidator,
+    private readonly attributeConstraintValidator: AttributeConstraintValidator,
+  ) {}
+
+  async getChannelValues(
+    productId: number,
+    userId: number,
+    query: GetProductChannelValuesDto = {},
+  ): Promise<ProductChannelValueResponseDto[]> {
+    await this.verifyProductOwnership(productId, userId);
+
+    const where: any = { productId };
+    if (query.channel) {
+      where.channel = query.channel;
+      if (query.connectionId !== undefined) {
+        where.connectionId = ChannelValueHelper.toStoredConnectionId(
+          query.channel,
+          query.connectionId,
+        );
+      }
+    }
+
+    const [channelValues, globalValues] = await Promise.all([
+      this.prisma.productAttributeChannelValue.findMany({
+        where,
+        include: { attribute: { select: { name: true, type: true } } },
+        orderBy: [
+          { channel: 'asc' },
+          { connectionId: 'asc' },
+          { attributeId: 'asc' },
+        ],
+      }),
+      this.prisma.productAttribute.findMany({
+        where: { productId },
+        select: { attributeId: true, value: true },
+      }),
+    ]);
+
+    const globalMap = new Map(globalValues.map((v) => [v.attributeId, v]));
+    return channelValues.map((cv) =>
+      this.transformChannelValueForResponse(
+        cv,
+        globalMap.get(cv.attributeId)?.value ?? null,
+      ),
+    );
+  }
+
+  /**
+   * Set channel values for one channel/connection. Values are validated
+   * against the attribute type and validation rules; a null value removes the
+   * override so the global value applies again.
+   */
+  async setChannelValues(
+    productId: number,
+    dto: SetProductChannelValuesDto,
+    userId: number,
+  ): Promise<ProductChannelValueResponseDto[]> {
+    await this.verifyProductOwnership(productId, userId);
+    const connectionId = await this.resolveConnectionId(
+      dto.channel,
+      dto.connectionId,
+      userId,
+    );
+    const values = await this.validateValues(productId, dto.values, userId);
+
+    await withRecomputeAfterCommit(() =>
+      this.prisma.$transaction(async (tx) => {
+        for (const { attributeId, value } of values) {
+          if (value === null) {
+            await tx.productAttributeChannelValue.deleteMany({
+              where: {
+                productId,
+                attributeId,
+                channel: dto.channel,
+                connectionId,
+              },
+            });
+            continue;
+          }
+
+          await tx.productAttributeChannelValue.upsert({
+            where: {
+              productId_attributeId_channel_connectionId: {
+                productId,
+                attributeId,
+                channel: dto.channel,
+                connectionId,
+              },
+            },
+            create: {
+              productId,
+              attributeId,
+              channel: dto.channel,
+              connectionId,
+              value,
+            },
+            update: { value },
+          });
+        }
+      }),
+    );
+
+    this.logger.log(
+      `Updated ${values.length} ${dto.channel} values for product ${productId}`,
+    );
+
+    return this.getChannelValues(productId, userId, {
+      channel: dto.channel,
+      connectionId: dto.connectionId,
+    });
+  }
+
+  async removeChannelValue(
+    productId: number,
+    channelValueId: number,
+    userId: number,
+  ): Promise<{
+    message: string;
+    channel: string;
+    connectionId: number | null;
+  }> {
+    await this.verifyProductOwnership(productId, userId);
+
+    const channelValue =
+      await this.prisma.productAttributeChannelValue.findFirst({
+        where: { id: channelValueId, productId },
+      });
+
+    if (!channelValue) {
+      throw new NotFoundException(
+        `Channel value with ID ${channelValueId} not found`,
+      );
+    }
+
+    await this.prisma.productAttributeChannelValue.delete({
+      where: { id: channelValueId },
+    });
+
+    return {
+      message: 'Channel value removed; the global value applies again',
+      channel: channelValue.channel,
+      connectionId: this.toResponseConnectionId(channelValue.connectionId),
+    };
+  }
+
+  private async resolveConnectionId(
+    channel: string,
+    connectionId: number | undefined,
+    userId: number,
+  ): Promise<number> {
+    if (!ChannelValueHelper.isConnectionScoped(channel)) {
+      if (connectionId) {
+        throw new BadRequestException(
+          `connectionId is not supported for the ${channel} channel`,
+        );
+      }
+      return NO_CONNECTION_ID;
+    }
+
+    if (!connectionId) {
+      throw new BadRequestException(
+        `connectionId is required for the ${channel} channel`,
+      );
+    }
+
+    const connection =
+      channel === (IntegrationType.WOOCOMMERCE as string)
+        ? await this.prisma.wooCommerceConnection.findFirst({
+            where: { id: connectionId, userId },
+            select: { id: true },
+          })
+        : await this.prisma.myDealConnection.findFirst({
+            where: { id: connectionId, userId },
+            select: { id: true },
+          });
+
+    if (!connection) {
+      throw new BadRequestException(
+        `${channel} connection ${connectionId} not found or does not belong to you`,
+      );
+    }
+
+    return connectionId;
+  }
+
+  private async validateValues(
+    productId: number,
+    values: { attributeId: number; value?: any }[],
+    userId: number,
+  ): Promise<{ attributeId: number; value: string | null }[]> {
+    if (values.length === 0) {
+      return [];
+    }
+
+    const attributeIds = Array.from(new Set(values.map((v) => v.attributeId)));
+    const attributes = await this.prisma.attribute.findMany({
+      where: { id: { in: attributeIds }, userId },
+      select: {
+        id: true,
+        name: true,
+        type: true,
+        options: AttributeOptionHelper.include(),
+      },
+    });
+    const attributeMap = new Map(attributes.map((a) => [a.id, a]));
+
+    const validated = values.map(({ attributeId, value }) => {
+      const attribute = attributeMap.get(attributeId);
+      if (!attribute) {
+        throw new BadRequestException(
+          `Attribute with ID ${attributeId} not found or does not belong to you`,
+        );
+      }
+
+      try {
+        return {
+          attributeId,
+          value: this.validator.validateOptions(
+            attribute.type as AttributeType,
+            value,
+            attribute.options,
+          ),
+        };
+      } catch (error) {
+        throw new BadRequestException(
+          `Invalid value for attribute "${attribute.name}": ${error.message}`,
+        );
+      }
+    });
+
+    await this.attributeConstraintValidator.normalize(validated, userId, {
+      id: productId,
+    });
+    return validated;
+  }
+
+  private async verifyProductOwnership(
+    productId: number,
+    userId: number,
+  ): Promise<void> {
+    const product = await this.prisma.product.findFirst({
+      where: { id: productId, userId },
+      select: { id: true },
+    });
+
+    if (!product) {
+      throw new NotFoundException(
+        `Product with ID ${productId} not found or access denied`,
+      );
+    }
+  }
+
+  private toResponseConnectionId(connectionId: number): number | null {
+    return connectionId === NO_CONNECTION_ID ? null : connectionId;
+  }
+
+  private transformChannelValueForResponse(
+    channelValue: any,
+    globalValue: string | null,
+  ): ProductChannelValueResponseDto {
+    const type = channelValue.attribute.type as AttributeType;
+    return {
+      id: channelValue.id,
+      productId: channelValue.productId,
+      attributeId: channelValue.attributeId,
+      attributeName: channelValue.attribute.name,
+      type: channelValue.attribute.type,
+      channel: channelValue.channel,
+      connectionId: this.toResponseConnectionId(channelValue.connectionId),
+      value: this.validator.parseStoredValue(type, channelValue.value),
+      globalValue: this.validator.parseStoredValue(type, globalValue),
+      updatedAt: channelValue.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,475 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ProductFamilyChangeService } from './product-family-change.service';
+import { ProductService } from '../product.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { AttributeValueValidator } from '../../attribute/validators/attribute-value.validator';
+import { AttributeConstraintValidator } from '../../attribute/validators/attribute-constraint.validator';
+import { AttributeType } from '../../types/attribute-type.enum';
+
+const USER_ID = 1;
+const STAFF_ID = 2;
+
+const remapAttribute = (overrides: {
+  id: number;
+  name: string;
+  type: AttributeType;
+  [column: string]: any;
+}) => ({
+  unitFamily: null as string | null,
+  defaultUnit: null as string | null,
+  options: [] as { code: string; label: string }[],
+  ...overrides,
+});
+
+const value = (
+  attributeId: number,
+  name: string,
+  stored: string | null,
+  familyAttributeId: number | null = null,
+) => ({
+  attributeId,
+  familyAttributeId,
+  value: stored,
+  attribute: { name },
+});
+
+describe('ProductFamilyChangeService', () => {
+  let service: ProductFamilyChangeService;
+  let tx: Record<string, Record<string, jest.Mock>>;
+  let prisma: {
+    family: { findFirst: jest.Mock };
+    attribute: { findMany: jest.Mock };
+    product: { findFirst: jest.Mock; findUniqueOrThrow: jest.Mock };
+    $transaction: jest.Mock;
+  };
+  let productService: { beforeBulkEdit: jest.Mock; afterBulkEdit: jest.Mock };
+  let attributeConstraintValidator: { validate: jest.Mock };
+
+  // Product 100 of family Tees, with the given values
+  const givenProduct = (attributes: ReturnType<typeof value>[]): void => {
+    prisma.product.findFirst.mockResolvedValue({ id: 100, variants: [] });
+    prisma.product.findUniqueOrThrow.mockResolvedValue({
+      id: 100,
+      sku: 'TEE-1',
+      family: { id: 4, name: 'Tees' },
+      attributes,
+    });
+  };
+
+  const givenRemapAttributes = (
+    attributes: ReturnType<typeof remapAttribute>[],
+  ): void => {
+    prisma.attribute.findMany.mockResolvedValue(attributes);
+  };
+
+  beforeEach(async () => {
+    tx = {
+      product: { update: jest.fn() },
+      productAttribute: {
+        update: jest.fn(),
+        deleteMany: jest.fn(),
+        upsert: jest.fn(),
+        delete: jest.fn(),
+      },
+      productAttributeLocalization: {
+        findMany: jest.fn().mockResolvedValue([]),
+        updateMany: jest.fn(),
+      },
+      productAttributeChannelValue: {
+        findMany: jest.fn().mockResolvedValue([]),
+        updateMany: jest.fn(),
+      },
+    };
+    prisma = {
+      // Shirts: Color (required), Size (required) and Weight
+      family: {
+        findFirst: jest.fn().mockResolvedValue({
+          id: 5,
+          name: 'Shirts',
+          familyAttributes: [
+            {
+              id: 50,
+              attributeId: 10,
+              isRequired: true,
+              attribute: { name: 'Color' },
+            },
+            {
+              id: 51,
+              attributeId: 11,
+              isRequired: true,
+              attribute: { name: 'Size' },
+            },
+            {
+              id: 53,
+              attributeId: 13,
+              isRequired: false,
+              attribute: { name: 'Weight' },
+            },
+          ],
+        }),
+      },
+      attribute: { findMany: jest.fn().mockResolvedValue([]) },
+      product: { findFirst: jest.fn(), findUniqueOrThrow: jest.fn() },
+      $transaction: jest.fn((fn) => fn(tx)),
+    };
+    productService = {
+      beforeBulkEdit: jest.fn().mockResolvedValue(undefined),
+      afterBulkEdit: jest.fn().mockResolvedValue(undefined),
+    };
+    attributeConstraintValidator = {
+      validate: jest.fn().mockResolvedValue(undefined),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ProductFamilyChangeService,
+        AttributeValueValidator,
+        { provide: PrismaService, useValue: prisma },
+        { provide: ProductService, useValue: productService },
+        {
+          provide: AttributeConstraintValidator,
+          useValue: attributeConstraintValidator,
+        },
+      ],
+    }).compile();
+
+    service = module.get(ProductFamilyChangeService);
+  });
+
+  describe('changeFamily', () => {
+    it('should preview carried over, custom and missing required values', async () => {
+      givenProduct([
+        value(10, 'Color', 'red', 40),
+        value(12, 'Material', 'cotton', 42),
+        value(15, 'Notes', '', 45),
+      ]);
+
+      const result = await service.changeFamily(
+        100,
+        { familyId: 5, dryRun: true },
+        USER_ID,
+      );
+
+      expect(result).toEqual({
+        dryRun: true,
+        changes: [
+          {
+            productId: 100,
+            sku: 'TEE-1',
+            fromFamily: { id: 4, name: 'Tees' },
+            toFamily: { id: 5, name: 'Shirts' },
+            carriedOver: [
+              { attributeId: 10, attributeName: 'Color', value: 'red' },
+            ],
+            remapped: [],
+            becomeCustom: [
+              { attributeId: 12, attributeName: 'Material', value: 'cotton' },
+            ],
+            missingRequired: [{ attributeId: 11, attributeName: 'Size' }],
+          },
+        ],
+      });
+    });
+
+    it('should not change anything on a dry run', async () => {
+      givenProduct([value(10, 'Color', 'red', 40)]);
+
+      await service.changeFamily(100, { familyId: 5, dryRun: true }, USER_ID);
+
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+      expect(productService.beforeBulkEdit).not.toHaveBeenCalled();
+      expect(productService.afterBulkEdit).not.toHaveBeenCalled();
+    });
+
+    it('should convert remapped values to the target type', async () => {
+      givenProduct([value(14, 'Weight (text)', '500', 44)]);
+      givenRemapAttributes([
+        remapAttribute({
+          id: 14,
+          name: 'Weight (text)',
+          type: AttributeType.STRING,
+        }),
+        remapAttribute({
+          id: 13,
+          name: 'Weight',
+          type: AttributeType.MEASUREMENT,
+          unitFamily: 'weight',
+          defaultUnit: 'g',
+        }),
+      ]);
+
+      const { changes } = await service.changeFamily(
+        100,
+        {
+          familyId: 5,
+          attributeMap: [{ fromAttributeId: 14, toAttributeId: 13 }],
+          dryRun: true,
+        },
+        USER_ID,
+      );
+
+      expect(changes[0].remapped).toEqual([
+        {
+          fromAttributeId: 14,
+          fromAttributeName: 'Weight (text)',
+          toAttributeId: 13,
+          toAttributeName: 'Weight',
+          value: '500',
+          convertedValue: '500 g',
+        },
+      ]);
+      // The source value moves, so it is neither carried over nor custom
+      expect(changes[0].becomeCustom).toEqual([]);
+      expect(attributeConstraintValidator.validate).toHaveBeenCalledWith(
+        [{ attributeId: 13, value: '500 g' }],
+        USER_ID,
+        { id: 100 },
+      );
+    });
+
+    it('should match option labels when remapping between option lists', async () => {
+      givenProduct([value(16, 'Colour', 'red')]);
+      givenRemapAttributes([
+        remapAttribute({
+          id: 16,
+          name: 'Colour',
+          type: AttributeType.ENUM,
+          options: [{ code: 'red', label: 'Red' }],
+        }),
+        remapAttribute({
+          id: 17,
+          name: 'Colors',
+          type: AttributeType.ARRAY,
+          options: [
+            { code: 'col-red', label: 'Red' },
+            { code: 'col-blue', label: 'Blue' },
+          ],
+        }),
+      ]);
+
+      const { changes } = await service.changeFamily(
+        100,
+        {
+          familyId: 5,
+          attributeMap: [{ fromAttributeId: 16, toAttributeId: 17 }],
+          dryRun: true,
+        },
+        USER_ID,
+      );
+
+      expect(changes[0].remapped[0].convertedValue).toBe('["col-red"]');
+    });
+
+    it('should keep the value when the target already has one', async () => {
+      givenProduct([
+        value(14, 'Weight (text)', '500', 44),
+        value(13, 'Weight', '450 g', 43),
+      ]);
+      givenRemapAttributes([
+        remapAttribute({
+          id: 14,
+          name: 'Weight (text)',
+          type: AttributeType.STRING,
+        }),
+        remapAttribute({
+          id: 13,
+          name: 'Weight',
+          type: AttributeType.MEASUREMENT,
+        }),
+      ]);
+
+      const { changes } = await service.changeFamily(
+        100,
+        {
+          familyId: 5,
+          attributeMap: [{ fromAttributeId: 14, toAttributeId: 13 }],
+          dryRun: true,
+        },
+        USER_ID,
+      );
+
+      expect(changes[0].remapped[0]).toMatchObject({
+        convertedValue: null,
+        error: 'Product already has a value for Weight',
+      });
+      expect(changes[0].becomeCustom).toEqual([
+        { attributeId: 14, attributeName: 'Weight (text)', value: '500' },
+      ]);
+      expect(changes[0].carriedOver).toEqual([
+        { attributeId: 13, attributeName: 'Weight', value: '450 g' },
+      ]);
+    });
+
+    it('should report values that do not convert or break the target rules', async () => {
+      givenProduct([
+        value(14, 'Weight (text)', 'heavy'),
+        value(18, 'Code', 'abc'),
+      ]);
+      givenRemapAttributes([
+        remapAttribute({
+          id: 14,
+          name: 'Weight (text)',
+          type: AttributeType.STRING,
+        }),
+        remapAttribute({ id: 18, name: 'Code', type: AttributeType.STRING }),
+        remapAttribute({
+          id: 13,
+          name: 'Weight',
+          type: AttributeType.MEASUREMENT,
+        }),
+        remapAttribute({ id: 19, name: 'MPN', type: AttributeType.STRING }),
+      ]);
+      attributeConstraintValidator.validate.mockRejectedValue(
+        new BadRequestException('MPN: Value must match the pattern [A-Z]+'),
+      );
+
+      const { changes } = await service.changeFamily(
+        100,
+        {
+          familyId: 5,
+          attributeMap: [
+            { fromAttributeId: 14, toAttributeId: 13 },
+            { fromAttributeId: 18, toAttributeId: 19 },
+          ],
+          dryRun: true,
+        },
+        USER_ID,
+      );
+
+      expect(changes[0].remapped[0].error).toContain(
+        'Measurement must be a number with a known unit',
+      );
+      expect(changes[0].remapped[1].error).toBe(
+        'MPN: Value must match the pattern [A-Z]+',
+      );
+      expect(changes[0].becomeCustom.map((entry) => entry.attributeId)).toEqual(
+        [14, 18],
+      );
+    });
+
+    it('should move the values and record the change for the acting user', async () => {
+      givenProduct([
+        value(10, 'Color', 'red', 40),
+        value(14, 'Weight (text)', '500 g', 44),
+        value(15, 'Notes', '', 45),
+      ]);
+      givenRemapAttributes([
+        remapAttribute({
+          id: 14,
+          name: 'Weight (text)',
+          type: AttributeType.MEASUREMENT,
+        }),
+        remapAttribute({
+          id: 13,
+          name: 'Weight',
+          type: AttributeType.MEASUREMENT,
+        }),
+      ]);
+
+      const result = await service.changeFamily(
+        100,
+        {
+          familyId: 5,
+          attributeMap: [{ fromAttributeId: 14, toAttributeId: 13 }],
+        },
+        USER_ID,
+        STAFF_ID,
+      );
+
+      expect(result.dryRun).toBe(false);
+      expect(productService.beforeBulkEdit).toHaveBeenCalledWith(100, USER_ID);
+      expect(tx.product.update).toHaveBeenCalledWith({
+        where: { id: 100 },
+        data: { familyId: 5 },
+      });
+      expect(tx.productAttribute.update).toHaveBeenCalledWith({
+        where: { productId_attributeId: { productId: 100, attributeId: 10 } },
+        data: { familyAttributeId: 50 },
+      });
+      expect(tx.productAttribute.deleteMany).toHaveBeenCalledWith({
+        where: { productId: 100, attributeId: { in: [15] } },
+      });
+      expect(tx.productAttribute.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          update: { value: '500 g', familyAttributeId: 53 },
+        }),
+      );
+      expect(tx.productAttribute.delete).toHaveBeenCalledWith({
+        where: { productId_attributeId: { productId: 100, attributeId: 14 } },
+      });
+      // Same type, so localized and channel values move along
+      expect(tx.productAttributeLocalization.updateMany).toHaveBeenCalled();
+      expect(productService.afterBulkEdit).toHaveBeenCalledWith(
+        100,
+        USER_ID,
+        STAFF_ID,
+      );
+    });
+
+    it('should throw when the family does not exist', async () => {
+      prisma.family.findFirst.mockResolvedValue(null);
+
+      await expect(
+        service.changeFamily(100, { familyId: 9 }, USER_ID),
+      ).rejects.toThrow(new NotFoundException('Family with ID 9 not found'));
+    });
+
+    it('should reject invalid attribute maps', async () => {
+      const changeWith = (
+        attributeMap: { fromAttributeId: number; toAttributeId: number }[],
+      ) =>
+        service.changeFamily(
+          100,
+          { familyId: 5, attributeMap, dryRun: true },
+          USER_ID,
+        );
+
+      await expect(
+        changeWith([{ fromAttributeId: 14, toAttributeId: 14 }]),
+      ).rejects.toThrow('An attribute cannot be remapped to itself');
+      await expect(
+        changeWith([
+          { fromAttributeId: 14, toAttributeId: 13 },
+          { fromAttributeId: 14, toAttributeId: 19 },
+        ]),
+      ).rejects.toThrow('Each attribute can only be remapped once');
+      await expect(
+        changeWith([
+          { fromAttributeId: 14, toAttributeId: 13 },
+          { fromAttributeId: 18, toAttributeId: 13 },
+        ]),
+      ).rejects.toThrow(
+        'Two attributes cannot be remapped to the same attribute',
+      );
+      await expect(
+        changeWith([
+          { fromAttributeId: 14, toAttributeId: 13 },
+          { fromAttributeId: 13, toAttributeId: 19 },
+        ]),
+      ).rejects.toThrow(
+        'An attribute cannot be both remapped and a remap target',
+      );
+      expect(prisma.attribute.findMany).not.toHaveBeenCalled();
+    });
+
+    it("should reject remapping attributes that are not the user's", async () => {
+      givenRemapAttributes([
+        remapAttribute({ id: 14, name: 'Weight', type: AttributeType.STRING }),
+      ]);
+
+      await expect(
+        service.changeFamily(
+          100,
+          {
+            familyId: 5,
+            attributeMap: [{ fromAttributeId: 14, toAttributeId: 13 }],
+          },
+          USER_ID,
+        ),
+      ).rejects.toThrow(
+        'One or more remapped attributes not found or do not belong to you',
+      );
+    });
+  });
+});
@@ -0,0 +1,595 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import type { Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { ProductService } from '../product.service';
+import { AttributeValueValidator } from '../../attribute/validators/attribute-value.validator';
+import { AttributeConstraintValidator } from '../../attribute/validators/attribute-constraint.validator';
+import { AttributeType } from '../../types/attribute-type.enum';
+import {
+  AttributeOptionHelper,
+  AttributeOptionRow,
+} from '../../utils/attribute-option.helper';
+import { withRecomputeAfterCommit } from '../../utils/computedAttributeUtils';
+import {
+  AttributeRemapDto,
+  ChangeFamilyDto,
+  ChangeFamilyResponseDto,
+  FamilyChangePreviewDto,
+} from '../dto/family-change.dto';
+import { BulkAttachToFamilyResponseDto } from '../dto/bulk-attach-to-family.dto';
+
+const OPTION_TYPES: string[] = [AttributeType.ENUM, AttributeType.ARRAY];
+
+interface RemapAttribute {
+  id: number;
+  name: string;
+  type: AttributeType;
+  unitFamily: string | null;
+  defaultUnit: string | null;
+  options: AttributeOptionRow[];
+}
+
+// Everything that is loaded once per request instead of once per product
+interface FamilyChangeContext {
+  family: {
+    id: number;
+    name: string;
+    // attributeId -> FamilyAttribute of the new family
+    attributes: Map<
+      number,
+      { id: number; isRequired: boolean; attributeName: string }
+    >;
+  };
+  attributeMap: AttributeRemapDto[];
+  remapAttributes: Map<number, RemapAttribute>;
+}
+
+interface ProductFamilyChange {
+  productId: number;
+  preview: FamilyChangePreviewDto;
+  relink: { attributeId: number; familyAttributeId: number | null }[];
+  remaps: {
+    fromAttributeId: number;
+    toAttributeId: number;
+    value: string;
+    familyAttributeId: number | null;
+    moveScopedValues: boolean; // Localized and channel values need no conversion
+  }[];
+  removeEmpty: number[]; // Empty values of the old family's attributes
+}
+
+/**
+ * Moves products to another family. Values of attributes the new family also
+ * has carry over, the others stay on the product as custom attributes, and an
+ * attribute map moves values to differently named attributes, converting them
+ * to the target type. Variants move along with their parent product.
+ */
+@Injectable()
+export class ProductFamilyChangeService {
+  private readonly logger = new Logger(ProductFamilyChangeService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly productService: ProductService,
+    private readonly attributeValueValidator: AttributeValueValidator,
+    private readonly attributeConstraintValidator: AttributeConstraintValidator,
+  ) {}
+
+  async changeFamily(
+    productId: number,
+    dto: ChangeFamilyDto,
+    userId: number,
+    actingUserId: number = userId,
+  ): Promise<ChangeFamilyResponseDto> {
+    const context = await this.loadContext(dto, userId);
+    const changes = await this.plan(productId, context, userId);
+
+    if (!dto.dryRun) {
+      await this.apply(changes, context, userId, actingUserId);
+    }
+    return {
+      dryRun: !!dto.dryRun,
+      changes: changes.map((change) => change.preview),
+    };
+  }
+
+  /**
+   * Move products to a family in bulk. Failures are reported per product and
+   * do not stop the others.
+   */
+  async changeFamilies(
+    productIds: number[],
+    dto: ChangeFamilyDto,
+    userId: number,
+    actingUserId: number = userId,
+  ): Promise<BulkAttachToFamilyResponseDto> {
+    this.logger.log(
+      `Moving ${productIds.length} products to family ${dto.familyId} for user ${userId}`,
+    );
+    const context = await this.loadContext(dto, userId);
+
+    const result: BulkAttachToFamilyResponseDto = {
+      success: true,
+      attached: 0,
+      failed: 0,
+      errors: [],
+      dryRun: !!dto.dryRun,
+      changes: [],
+    };
+    // Variants of listed parents are moved with them
+    const handled = new Set<number>();
+
+    for (const productId of productIds) {
+      if (handled.has(productId)) {
+        result.attached++;
+        continue;
+      }
+      try {
+        const changes = await this.plan(productId, context, userId);
+        if (!dto.dryRun) {
+          await this.apply(changes, context, userId, actingUserId);
+        }
+        for (const change of changes) {
+          handled.add(change.productId);
+        }
+        result.changes.push(...changes.map((change) => change.preview));
+        result.attached++;
+      } catch (error) {
+        this.logger.error(
+          `Failed to move product ${productId} to family ${dto.familyId}: ${error.message}`,
+        );
+        result.errors.push({
+          productId,
+          error: error.message || 'Unknown error',
+        });
+        result.failed++;
+      }
+    }
+
+    result.success = result.failed === 0;
+    this.logger.log(
+      `Family change completed: ${result.attached} attached, ${result.failed} failed`,
+    );
+    return result;
+  }
+
+  private async loadContext(
+    dto: ChangeFamilyDto,
+    userId: number,
+  ): Promise<FamilyChangeContext> {
+    const family = await this.prisma.family.findFirst({
+      where: { id: dto.familyId, userId },
+      select: {
+        id: true,
+        name: true,
+        familyAttributes: {
+          select: {
+            id: true,
+            attributeId: true,
+            isRequired: true,
+            attribute: { select: { name: true } },
+          },
+        },
+      },
+    });
+    if (!family) {
+      throw new NotFoundException(`Family with ID ${dto.familyId} not found`);
+    }
+
+    const attributeMap = dto.attributeMap ?? [];
+    const fromIds = attributeMap.map((remap) => remap.fromAttributeId);
+    const toIds = attributeMap.map((remap) => remap.toAttributeId);
+    if (
+      attributeMap.some(
+        (remap) => remap.fromAttributeId === remap.toAttributeId,
+      )
+    ) {
+      throw new BadRequestException(
+        'An attribute cannot be remapped to itself',
+      );
+    }
+    if (new Set(fromIds).size !== fromIds.length) {
+      throw new BadRequestException('Each attribute can only be remapped once');
+    }
+    if (new Set(toIds).size !== toIds.length) {
+      throw new BadRequestException(
+        'Two attributes cannot be remapped to the same attribute',
+      );
+    }
+    if (toIds.some((id) => fromIds.includes(id))) {
+      throw new BadRequestException(
+        'An attribute cannot be both remapped and a remap target',
+      );
+    }
+
+    const attributeIds = [...fromIds, ...toIds];
+    const attributes = attributeIds.length
+      ? await this.prisma.attribute.findMany({
+          where: { id: { in: attributeIds }, userId },
+          select: {
+            id: true,
+            name: true,
+            type: true,
+            unitFamily: true,
+            defaultUnit: true,
+            options: AttributeOptionHelper.include(),
+          },
+        })
+      : [];
+    if (attributes.length !== attributeIds.length) {
+      throw new BadRequestException(
+        'One or more remapped attributes not found or do not belong to you',
+      );
+    }
+
+    return {
+      family: {
+        id: family.id,
+        name: family.name,
+        attributes: new Map(
+          family.familyAttributes.map((fa) => [
+            fa.attributeId,
+            {
+              id: fa.id,
+              isRequired: fa.isRequired,
+              attributeName: fa.attribute.name,
+            },
+          ]),
+        ),
+      },
+      attributeMap,
+      remapAttributes: new Map(
+        attributes.map((attribute) => [
+          attribute.id,
+          { ...attribute, type: attribute.type as AttributeType },
+        ]),
+      ),
+    };
+  }
+
+  // The product followed by its variants, which follow the parent's family
+  private async plan(
+    productId: number,
+    context: FamilyChangeContext,
+    userId: number,
+  ): Promise<ProductFamilyChange[]> {
+    const product = await this.prisma.product.findFirst({
+      where: { id: productId, userId, isDeleted: false },
+      select: {
+        id: true,
+        variants: {
+          where: { isDeleted: false },
+          select: { id: true },
+          orderBy: { id: 'asc' },
+        },
+      },
+    });
+    if (!product) {
+      throw new NotFoundException(
+        'Product not found or does not belong to user',
+      );
+    }
+
+    const changes: ProductFamilyChange[] = [];
+    for (const id of [product.id, ...product.variants.map((v) => v.id)]) {
+      changes.push(await this.planProduct(id, context, userId));
+    }
+    return changes;
+  }
+
+  private async planProduct(
+    productId: number,
+    context: FamilyChangeContext,
+    userId: number,
+  ): Promise<ProductFamilyChange> {
+    const product = await this.prisma.product.findUniqueOrThrow({
+      where: { id: productId },
+      select: {
+        id: true,
+        sku: true,
+        family: { select: { id: true, name: true } },
+        attributes: {
+          select: {
+            attributeId: true,
+            familyAttributeId: true,
+            value: true,
+            attribute: { select: { name: true } },
+          },
+        },
+      },
+    });
+
+    const change: ProductFamilyChange = {
+      productId,
+      preview: {
+        productId,
+        sku: product.sku,
+        fromFamily: product.family,
+        toFamily: { id: context.family.id, name: context.family.name },
+        carriedOver: [],
+        remapped: [],
+        becomeCustom: [],
+        missingRequired: [],
+      },
+      relink: [],
+      remaps: [],
+      removeEmpty: [],
+    };
+    const values = new Map(
+      product.attributes.map((row) => [row.attributeId, row]),
+    );
+    const filled = new Set(
+      product.attributes
+        .filter((row) => !!row.value)
+        .map((row) => row.attributeId),
+    );
+
+    for (const remap of context.attributeMap) {
+      const row = values.get(remap.fromAttributeId);
+      if (!row?.value) continue;
+
+      const from = context.remapAttributes.get(remap.fromAttributeId)!;
+      const to = context.remapAttributes.get(remap.toAttributeId)!;
+      const entry: FamilyChangePreviewDto['remapped'][number] = {
+        fromAttributeId: from.id,
+        fromAttributeName: from.name,
+        toAttributeId: to.id,
+        toAttributeName: to.name,
+        value: row.value,
+        convertedValue: null,
+      };
+      change.preview.remapped.push(entry);
+
+      if (filled.has(to.id)) {
+        entry.error = `Product already has a value for ${to.name}`;
+        continue;
+      }
+      try {
+        entry.convertedValue = this.convert(row.value, from, to);
+        await this.attributeConstraintValidator.validate(
+          [{ attributeId: to.id, value: entry.convertedValue }],
+          userId,
+          { id: productId },
+        );
+      } catch (error) {
+        entry.error = error.message;
+        continue;
+      }
+
+      values.delete(from.id);
+      filled.delete(from.id);
+      filled.add(to.id);
+      change.remaps.push({
+        fromAttributeId: from.id,
+        toAttributeId: to.id,
+        value: entry.convertedValue,
+        familyAttributeId: context.family.attributes.get(to.id)?.id ?? null,
+        moveScopedValues: from.type === to.type,
+      });
+    }
+
+    const remapTargets = new Set(
+      change.remaps.map((remap) => remap.toAttributeId),
+    );
+    for (const row of values.values()) {
+      if (remapTargets.has(row.attributeId)) continue;
+
+      const familyAttribute = context.family.attributes.get(row.attributeId);
+      const value = {
+        attributeId: row.attributeId,
+        attributeName: row.attribute.name,
+        value: row.value ?? '',
+      };
+
+      const familyAttributeId = familyAttribute?.id ?? null;
+      if (
+        row.familyAttributeId !== familyAttributeId &&
+        (familyAttribute || row.value)
+      ) {
+        change.relink.push({ attributeId: row.attributeId, familyAttributeId });
+      }
+
+      if (familyAttribute) {
+        if (row.value) change.preview.carriedOver.push(value);
+      } else if (row.value) {
+        change.preview.becomeCustom.push(value);
+      } else if (row.familyAttributeId !== null) {
+        change.removeEmpty.push(row.attributeId);
+      }
+    }
+
+    for (const [attributeId, familyAttribute] of context.family.attributes) {
+      if (familyAttribute.isRequired && !filled.has(attributeId)) {
+        change.preview.missingRequired.push({
+          attributeId,
+          attributeName: familyAttribute.attributeName,
+        });
+      }
+    }
+
+    return change;
+  }
+
+  /**
+   * Apply the changes of a product and its variants together, then run the
+   * usual follow-up of an edit: status, revision, webhooks and channel sync
+   */
+  private async apply(
+    changes: ProductFamilyChange[],
+    context: FamilyChangeContext,
+    userId: number,
+    actingUserId: number,
+  ): Promise<void> {
+    // Products already in the family only change when values are remapped
+    changes = changes.filter(
+      (change) =>
+        change.preview.fromFamily?.id !== context.family.id ||
+        change.remaps.length > 0,
+    );
+    if (changes.length === 0) {
+      return;
+    }
+
+    for (const { productId } of changes) {
+      await this.productService.beforeBulkEdit(productId, userId);
+    }
+
+    await withRecomputeAfterCommit(() =>
+      this.prisma.$transaction(async (tx) => {
+        for (const change of changes) {
+          const { productId } = change;
+          await tx.product.update({
+            where: { id: productId },
+            data: { familyId: context.family.id },
+          });
+
+          for (const { attributeId, familyAttributeId } of change.relink) {
+            await tx.productAttribute.update({
+              where: { productId_attributeId: { productId, attributeId } },
+              data: { familyAttributeId },
+            });
+          }
+
+          if (change.removeEmpty.length > 0) {
+            await tx.productAttribute.deleteMany({
+              where: { productId, attributeId: { in: change.removeEmpty } },
+            });
+          }
+
+          for (const remap of change.remaps) {
+            await tx.productAttribute.upsert({
+              where: {
+                productId_attributeId: {
+                  productId,
+                  attributeId: remap.toAttributeId,
+                },
+              },
+              update: {
+                value: remap.value,
+                familyAttributeId: remap.familyAttributeId,
+              },
+              create: {
+                productId,
+                attributeId: remap.toAttributeId,
+                value: remap.value,
+                familyAttributeId: remap.familyAttributeId,
+              },
+            });
+            await tx.productAttribute.delete({
+              where: {
+                productId_attributeId: {
+                  productId,
+                  attributeId: remap.fromAttributeId,
+                },
+              },
+            });
+            if (remap.moveScopedValues) {
+              await this.moveScopedValues(tx, productId, remap);
+            }
+          }
+        }
+      }),
+    );
+
+    for (const { productId } of changes) {
+      await this.productService
+        .afterBulkEdit(productId, userId, actingUserId)
+        .catch((error) =>
+          this.logger.error(
+            `Follow-up after moving product ${productId} to family ${context.family.id} failed: ${error.message}`,
+          ),
+        );
+    }
+  }
+
+  // Localized and channel values move along, except where the target has its own
+  private async moveScopedValues(
+    tx: Prisma.TransactionClient,
+    productId: number,
+    remap: { fromAttributeId: number; toAttributeId: number },
+  ): Promise<void> {
+    const targetLocales = await tx.productAttributeLocalization.findMany({
+      where: { productId, attributeId: remap.toAttributeId },
+      select: { locale: true },
+    });
+    await tx.productAttributeLocalization.updateMany({
+      where: {
+        productId,
+        attributeId: remap.fromAttributeId,
+        locale: { notIn: targetLocales.map((row) => row.locale) },
+      },
+      data: { attributeId: remap.toAttributeId },
+    });
+
+    const targetScopes = await tx.productAttributeChannelValue.findMany({
+      where: { productId, attributeId: remap.toAttributeId },
+      select: { channel: true, connectionId: true },
+    });
+    const taken = new Set(
+      targetScopes.map((row) => `${row.channel}:${row.connectionId}`),
+    );
+    const sourceValues = await tx.productAttributeChannelValue.findMany({
+      where: { productId, attributeId: remap.fromAttributeId },
+      select: { id: true, channel: true, connectionId: true },
+    });
+    const movable = sourceValues.filter(
+      (row) => !taken.has(`${row.channel}:${row.connectionId}`),
+    );
+    if (movable.length > 0) {
+      await tx.productAttributeChannelValue.updateMany({
+        where: { id: { in: movable.map((row) => row.id) } },
+        data: { attributeId: remap.toAttributeId },
+      });
+    }
+  }
+
+  /**
+   * Convert a stored value to another attribute's type. Option codes of the
+   * source become labels, which the target matches against its own options.
+   */
+  private convert(
+    value: string,
+    from: RemapAttribute,
+    to: RemapAttribute,
+  ): string {
+    let raw: any = value;
+    if (from.type === AttributeType.ARRAY) {
+      const items: any[] = this.attributeValueValidator.validate(
+        AttributeType.ARRAY,
+        value,
+      );
+      const labels = items.map((code) =>
+        AttributeOptionHelper.labelOf(from.options, code),
+      );
+      raw = to.type === AttributeType.ARRAY ? labels : labels.join(', ');
+    } else if (from.type === AttributeType.ENUM) {
+      raw = AttributeOptionHelper.labelOf(from.options, value);
+      if (to.type === AttributeType.ARRAY) raw = [raw];
+    }
+
+    const converted =
+      to.type === AttributeType.MEASUREMENT
+        ? this.attributeValueValidator.validateMeasurement(
+            raw,
+            to.unitFamily,
+            to.defaultUnit,
+          )
+        : OPTION_TYPES.includes(to.type)
+          ? this.attributeValueValidator.validateOptions(
+              to.type,
+              raw,
+              to.options,
+            )
+          : this.attributeValueValidator.validateAndStringify(to.type, raw);
+
+    if (converted === null || converted === '') {
+      throw new BadRequestException('Converts to an empty value');
+    }
+    return converted;
+  }
+}
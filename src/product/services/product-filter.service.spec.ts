@@ -0,0 +1,257 @@
+import { ProductFilterService } from './product-filter.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { AttributeValueValidator } from '../../attribute/validators/attribute-value.validator';
+import { AttributeType } from '../../types/attribute-type.enum';
+
+const USER_ID = 1;
+const BASE_WHERE = { userId: USER_ID, isDeleted: false };
+
+const insensitive = (equals: string) => ({ equals, mode: 'insensitive' });
+
+// A product as loaded for in-memory evaluation, with its attribute values
+const projection = (id: number, values: Record<number, string>) => ({
+  id,
+  name: `Product ${id}`,
+  sku: `SKU-${id}`,
+  status: 'complete',
+  productLink: null,
+  imageUrl: null,
+  familyId: null,
+  categoryId: null,
+  attributeGroupId: null,
+  createdAt: new Date('2026-01-01'),
+  updatedAt: new Date('2026-01-01'),
+  family: null,
+  category: null,
+  attributes: Object.entries(values).map(([attributeId, value]) => ({
+    attributeId: Number(attributeId),
+    value,
+  })),
+});
+
+describe('ProductFilterService', () => {
+  let service: ProductFilterService;
+  let prisma: {
+    attribute: { findMany: jest.Mock };
+    product: { findMany: jest.Mock; count: jest.Mock };
+  };
+
+  // The where condition the filter adds to the base condition
+  const filterWhere = () =>
+    prisma.product.findMany.mock.calls[0][0].where.AND[1];
+
+  beforeEach(() => {
+    prisma = {
+      attribute: {
+        findMany: jest.fn().mockResolvedValue([
+          { id: 7, name: 'Color', type: AttributeType.STRING },
+          { id: 8, name: 'Weight', type: AttributeType.NUMBER },
+          { id: 9, name: 'Size', type: AttributeType.ENUM },
+        ]),
+      },
+      product: {
+        findMany: jest.fn().mockResolvedValue([]),
+        count: jest.fn().mockResolvedValue(0),
+      },
+    };
+    service = new ProductFilterService(
+      prisma as unknown as PrismaService,
+      new AttributeValueValidator(),
+    );
+  });
+
+  describe('findMatchingProductIds', () => {
+    it('should query text and built-in conditions in the database', async () => {
+      prisma.product.findMany.mockResolvedValue([{ id: 3 }, { id: 1 }]);
+
+      const ids = await service.findMatchingProductIds(
+        'color = Red AND familyId IN (5, 6)',
+        USER_ID,
+        BASE_WHERE,
+      );
+
+      expect(ids).toEqual([3, 1]);
+      expect(prisma.product.findMany).toHaveBeenCalledTimes(1);
+      expect(prisma.product.findMany).toHaveBeenCalledWith({
+        where: {
+          AND: [
+            BASE_WHERE,
+            {
+              AND: [
+                {
+                  attributes: {
+                    some: {
+                      attributeId: 7,
+                      OR: [{ value: insensitive('red') }],
+                    },
+                  },
+                },
+                { familyId: { in: [5, 6] } },
+              ],
+            },
+          ],
+        },
+        orderBy: { id: 'asc' },
+        select: { id: true },
+      });
+    });
+
+    it('should include products without a value in negated conditions', async () => {
+      await service.findMatchingProductIds(
+        'NOT family = Shirts AND Size NOT IN (S, M)',
+        USER_ID,
+        BASE_WHERE,
+      );
+
+      expect(filterWhere()).toEqual({
+        AND: [
+          {
+            OR: [
+              { familyId: null },
+              {
+                NOT: {
+                  OR: [{ family: { is: { name: insensitive('shirts') } } }],
+                },
+              },
+            ],
+          },
+          {
+            NOT: {
+              attributes: {
+                some: {
+                  attributeId: 9,
+                  OR: [
+                    { value: insensitive('s') },
+                    { value: insensitive('m') },
+                  ],
+                },
+              },
+            },
+          },
+        ],
+      });
+    });
+
+    it('should apply De Morgan to negated groups', async () => {
+      await service.findMatchingProductIds(
+        'NOT (id = 1 OR Color IS EMPTY)',
+        USER_ID,
+        BASE_WHERE,
+      );
+
+      expect(filterWhere()).toEqual({
+        AND: [
+          { NOT: { id: 1 } },
+          {
+            attributes: {
+              some: { attributeId: 7, OR: [{ value: { not: '' } }] },
+            },
+          },
+        ],
+      });
+    });
+
+    it('should evaluate typed values in memory, in batches of candidates', async () => {
+      prisma.product.findMany
+        .mockResolvedValueOnce([{ id: 1 }, { id: 2 }, { id: 3 }])
+        .mockResolvedValueOnce([
+          projection(2, { 8: '1.5' }),
+          projection(1, { 8: '3' }),
+          projection(3, { 8: 'heavy' }),
+        ]);
+
+      const ids = await service.findMatchingProductIds(
+        'Weight > 2',
+        USER_ID,
+        BASE_WHERE,
+      );
+
+      expect(ids).toEqual([1]);
+      // Candidates are narrowed down to products with a weight
+      expect(filterWhere()).toEqual({
+        attributes: { some: { attributeId: 8, value: { not: '' } } },
+      });
+      expect(prisma.product.findMany.mock.calls[1][0].where).toEqual({
+        id: { in: [1, 2, 3] },
+      });
+    });
+
+    it('should not narrow down negations of in-memory conditions', async () => {
+      prisma.product.findMany
+        .mockResolvedValueOnce([{ id: 1 }, { id: 2 }])
+        .mockResolvedValueOnce([projection(1, { 8: '3' }), projection(2, {})]);
+
+      const ids = await service.findMatchingProductIds(
+        'NOT Weight > 2',
+        USER_ID,
+        BASE_WHERE,
+      );
+
+      expect(ids).toEqual([2]);
+      expect(filterWhere()).toEqual({});
+    });
+
+    it('should reject unknown fields and unsupported operators', async () => {
+      await expect(
+        service.findMatchingProductIds('Material = wool', USER_ID, BASE_WHERE),
+      ).rejects.toThrow(
+        'Invalid filter at position 1: Unknown field or attribute "Material"',
+      );
+      await expect(
+        service.findMatchingProductIds(
+          'Weight CONTAINS 2',
+          USER_ID,
+          BASE_WHERE,
+        ),
+      ).rejects.toThrow(
+        'Operator CONTAINS is not supported for NUMBER attribute "Weight"',
+      );
+      await expect(
+        service.findMatchingProductIds('Weight > heavy', USER_ID, BASE_WHERE),
+      ).rejects.toThrow('"heavy" is not a valid number');
+    });
+  });
+
+  describe('findMatchingPage', () => {
+    it('should paginate database-only filters in the database', async () => {
+      prisma.product.findMany.mockResolvedValue([{ id: 11 }, { id: 12 }]);
+      prisma.product.count.mockResolvedValue(40);
+
+      const page = await service.findMatchingPage(
+        'status = draft',
+        USER_ID,
+        BASE_WHERE,
+        { createdAt: 'desc' },
+        10,
+        2,
+      );
+
+      expect(page).toEqual({ ids: [11, 12], total: 40 });
+      expect(prisma.product.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ skip: 10, take: 2 }),
+      );
+    });
+
+    it('should slice the matches of in-memory filters', async () => {
+      prisma.product.findMany
+        .mockResolvedValueOnce([{ id: 1 }, { id: 2 }, { id: 3 }])
+        .mockResolvedValueOnce([
+          projection(1, { 8: '3' }),
+          projection(2, { 8: '4' }),
+          projection(3, { 8: '5' }),
+        ]);
+
+      const page = await service.findMatchingPage(
+        'Weight >= 3',
+        USER_ID,
+        BASE_WHERE,
+        { id: 'asc' },
+        1,
+        1,
+      );
+
+      expect(page).toEqual({ ids: [2], total: 3 });
+      expect(prisma.product.count).not.toHaveBeenCalled();
+    });
+  });
+});
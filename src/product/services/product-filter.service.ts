@@ -0,0 +1,801 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import type { Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { AttributeValueValidator } from '../../attribute/validators/attribute-value.validator';
+import { AttributeType } from '../../types/attribute-type.enum';
+import {
+  FilterCondition,
+  FilterNode,
+  FilterOperator,
+  ProductFilterParser,
+} from '../../utils/product-filter.parser';
+
+// How values of a field are compared
+type ValueKind = 'number' | 'date' | 'time' | 'boolean' | 'string' | 'list';
+
+interface FilterProjection {
+  id: number;
+  name: string;
+  sku: string;
+  status: string;
+  productLink: string | null;
+  imageUrl: string | null;
+  familyId: number | null;
+  categoryId: number | null;
+  attributeGroupId: number | null;
+  createdAt: Date;
+  updatedAt: Date;
+  family: { name: string } | null;
+  category: { name: string } | null;
+  attributes?: { attributeId: number; value: string | null }[];
+}
+
+interface ResolvedField {
+  label: string;
+  kind: ValueKind;
+  attributeId?: number;
+  attributeType?: AttributeType;
+  // Product column (or 'family'/'category' relation, matched by name) a built-in field reads
+  column?: string;
+  relation?: boolean;
+  // Column that is null when the product has no value
+  nullColumn?: string;
+  read: (
+    product: FilterProjection,
+    values: Map<number, string | null>,
+  ) => unknown;
+}
+
+type ProductPredicate = (
+  product: FilterProjection,
+  values: Map<number, string | null>,
+) => boolean;
+
+/**
+ * Prisma condition for (part of) a filter expression. Exact conditions match
+ * the same products as the expression; the others match a superset that is
+ * narrowed down in memory.
+ */
+interface FilterWhere {
+  where: Prisma.ProductWhereInput;
+  exact: boolean;
+}
+
+interface PreparedFilter {
+  predicate: ProductPredicate;
+  attributeIds: number[];
+  translation: FilterWhere;
+}
+
+const MATCH_ALL: FilterWhere = { where: {}, exact: false };
+
+// Negated operators are evaluated as the negation of these
+const POSITIVE_OPERATORS: Partial<Record<FilterOperator, FilterOperator>> = {
+  '!=': '=',
+  'NOT IN': 'IN',
+  'IS EMPTY': 'IS NOT EMPTY',
+};
+
+// Products evaluated in memory at a time when a filter cannot be fully expressed in Prisma
+const SCAN_BATCH_SIZE = 500;
+
+const PROJECTION_SELECT = {
+  id: true,
+  name: true,
+  sku: true,
+  status: true,
+  productLink: true,
+  imageUrl: true,
+  familyId: true,
+  categoryId: true,
+  attributeGroupId: true,
+  createdAt: true,
+  updatedAt: true,
+  family: { select: { name: true } },
+  category: { select: { name: true } },
+} as const;
+
+// Built-in product fields, keyed by lower-case name
+const BUILT_IN_FIELDS: Record<string, Omit<ResolvedField, 'label'>> = {
+  id: { kind: 'number', column: 'id', read: (p) => p.id },
+  name: { kind: 'string', column: 'name', read: (p) => p.name },
+  sku: { kind: 'string', column: 'sku', read: (p) => p.sku },
+  status: { kind: 'string', column: 'status', read: (p) => p.status },
+  productlink: {
+    kind: 'string',
+    column: 'productLink',
+    nullColumn: 'productLink',
+    read: (p) => p.productLink,
+  },
+  imageurl: {
+    kind: 'string',
+    column: 'imageUrl',
+    nullColumn: 'imageUrl',
+    read: (p) => p.imageUrl,
+  },
+  familyid: {
+    kind: 'number',
+    column: 'familyId',
+    nullColumn: 'familyId',
+    read: (p) => p.familyId,
+  },
+  family: {
+    kind: 'string',
+    column: 'family',
+    relation: true,
+    nullColumn: 'familyId',
+    read: (p) => p.family?.name,
+  },
+  categoryid: {
+    kind: 'number',
+    column: 'categoryId',
+    nullColumn: 'categoryId',
+    read: (p) => p.categoryId,
+  },
+  category: {
+    kind: 'string',
+    column: 'category',
+    relation: true,
+    nullColumn: 'categoryId',
+    read: (p) => p.category?.name,
+  },
+  attributegroupid: {
+    kind: 'number',
+    column: 'attributeGroupId',
+    nullColumn: 'attributeGroupId',
+    read: (p) => p.attributeGroupId,
+  },
+  createdat: { kind: 'date', column: 'createdAt', read: (p) => p.createdAt },
+  updatedat: { kind: 'date', column: 'updatedAt', read: (p) => p.updatedAt },
+};
+
+const KIND_BY_ATTRIBUTE_TYPE: Partial<Record<AttributeType, ValueKind>> = {
+  [AttributeType.INTEGER]: 'number',
+  [AttributeType.NUMBER]: 'number',
+  [AttributeType.FLOAT]: 'number',
+  [AttributeType.CURRENCY]: 'number',
+  [AttributeType.PERCENTAGE]: 'number',
+  [AttributeType.DATE]: 'date',
+  [AttributeType.DATETIME]: 'date',
+  [AttributeType.TIME]: 'time',
+  [AttributeType.BOOLEAN]: 'boolean',
+  [AttributeType.ENUM]: 'list',
+  [AttributeType.ARRAY]: 'list',
+};
+
+const SUPPORTED_OPERATORS: Record<ValueKind, FilterOperator[]> = {
+  number: [
+    '=',
+    '!=',
+    '>',
+    '>=',
+    '<',
+    '<=',
+    'IN',
+    'NOT IN',
+    'IS EMPTY',
+    'IS NOT EMPTY',
+  ],
+  date: [
+    '=',
+    '!=',
+    '>',
+    '>=',
+    '<',
+    '<=',
+    'IN',
+    'NOT IN',
+    'IS EMPTY',
+    'IS NOT EMPTY',
+  ],
+  time: [
+    '=',
+    '!=',
+    '>',
+    '>=',
+    '<',
+    '<=',
+    'IN',
+    'NOT IN',
+    'IS EMPTY',
+    'IS NOT EMPTY',
+  ],
+  boolean: ['=', '!=', 'IS EMPTY', 'IS NOT EMPTY'],
+  string: [
+    '=',
+    '!=',
+    '>',
+    '>=',
+    '<',
+    '<=',
+    'CONTAINS',
+    'IN',
+    'NOT IN',
+    'IS EMPTY',
+    'IS NOT EMPTY',
+  ],
+  list: ['=', '!=', 'CONTAINS', 'IN', 'NOT IN', 'IS EMPTY', 'IS NOT EMPTY'],
+};
+
+/**
+ * Service for the product filter language (see ProductFilterParser).
+ * Attribute values are stored as text, so conditions are compared according to
+ * the attribute's type: numbers, dates, times and booleans are parsed, ENUM and
+ * ARRAY values match by membership and everything else compares as
+ * case-insensitive text.
+ */
+@Injectable()
+export class ProductFilterService {
+  private readonly logger = new Logger(ProductFilterService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly validator: AttributeValueValidator,
+  ) {}
+
+  /**
+   * IDs of the products matching both the Prisma where condition and the
+   * filter expression, in the given order.
+   */
+  async findMatchingProductIds(
+    filter: string,
+    userId: number,
+    where: any,
+    orderBy: any = { id: 'asc' },
+  ): Promise<number[]> {
+    const prepared = await this.prepare(filter, userId);
+    const combined = { AND: [where, prepared.translation.where] };
+
+    if (prepared.translation.exact) {
+      const products = await this.prisma.product.findMany({
+        where: combined,
+        orderBy,
+        select: { id: true },
+      });
+      return products.map((product) => product.id);
+    }
+    return this.scan(filter, userId, prepared, combined, orderBy);
+  }
+
+  /**
+   * One page of the IDs matching both the Prisma where condition and the
+   * filter expression, with the total number of matches.
+   */
+  async findMatchingPage(
+    filter: string,
+    userId: number,
+    where: any,
+    orderBy: any,
+    skip: number,
+    take: number,
+  ): Promise<{ ids: number[]; total: number }> {
+    const prepared = await this.prepare(filter, userId);
+    const combined = { AND: [where, prepared.translation.where] };
+
+    if (prepared.translation.exact) {
+      const [products, total] = await Promise.all([
+        this.prisma.product.findMany({
+          where: combined,
+          orderBy,
+          skip,
+          take,
+          select: { id: true },
+        }),
+        this.prisma.product.count({ where: combined }),
+      ]);
+      return { ids: products.map((product) => product.id), total };
+    }
+
+    const ids = await this.scan(filter, userId, prepared, combined, orderBy);
+    return { ids: ids.slice(skip, skip + take), total: ids.length };
+  }
+
+  private async prepare(
+    filter: string,
+    userId: number,
+  ): Promise<PreparedFilter> {
+    const expression = ProductFilterParser.parse(filter);
+    const conditions = ProductFilterParser.collectConditions(expression);
+    const fields = await this.resolveFields(conditions, userId);
+
+    return {
+      predicate: this.compile(expression, fields),
+      attributeIds: Array.from(
+        new Set(
+          Array.from(fields.values())
+            .map((field) => field.attributeId)
+            .filter((id): id is number => id !== undefined),
+        ),
+      ),
+      translation: this.toWhere(expression, fields),
+    };
+  }
+
+  /**
+   * Evaluate the filter in memory on the products matching the where
+   * condition, loading them in batches
+   */
+  private async scan(
+    filter: string,
+    userId: number,
+    { predicate, attributeIds }: PreparedFilter,
+    where: any,
+    orderBy: any,
+  ): Promise<number[]> {
+    const candidates = await this.prisma.product.findMany({
+      where,
+      orderBy,
+      select: { id: true },
+    });
+
+    const matchingIds: number[] = [];
+    for (let i = 0; i < candidates.length; i += SCAN_BATCH_SIZE) {
+      const batchIds = candidates
+        .slice(i, i + SCAN_BATCH_SIZE)
+        .map((product) => product.id);
+      const products: FilterProjection[] = await this.prisma.product.findMany({
+        where: { id: { in: batchIds } },
+        select: {
+          ...PROJECTION_SELECT,
+          ...(attributeIds.length > 0 && {
+            attributes: {
+              where: { attributeId: { in: attributeIds } },
+              select: { attributeId: true, value: true },
+            },
+          }),
+        },
+      });
+      const productsById = new Map(
+        products.map((product) => [product.id, product]),
+      );
+
+      for (const id of batchIds) {
+        const product = productsById.get(id);
+        if (
+          product &&
+          predicate(
+            product,
+            new Map(
+              (product.attributes || []).map((pa) => [
+                pa.attributeId,
+                pa.value,
+              ]),
+            ),
+          )
+        ) {
+          matchingIds.push(id);
+        }
+      }
+    }
+
+    this.logger.log(
+      `Filter "${filter}" matched ${matchingIds.length} of ${candidates.length} candidate products for user ${userId}`,
+    );
+
+    return matchingIds;
+  }
+
+  /**
+   * Resolve every condition's field to a built-in product field or one of the
+   * user's attributes (matched case-insensitively by name).
+   */
+  private async resolveFields(
+    conditions: FilterCondition[],
+    userId: number,
+  ): Promise<Map<FilterCondition, ResolvedField>> {
+    const needsAttributes = conditions.some(
+      (condition) =>
+        condition.quoted || !BUILT_IN_FIELDS[condition.field.toLowerCase()],
+    );
+    const attributes = needsAttributes
+      ? await this.prisma.attribute.findMany({
+          where: { userId },
+          select: { id: true, name: true, type: true },
+        })
+      : [];
+    const attributesByName = new Map(
+      attributes.map((attribute) => [attribute.name.toLowerCase(), attribute]),
+    );
+
+    const fields = new Map<FilterCondition, ResolvedField>();
+    for (const condition of conditions) {
+      const key = condition.field.toLowerCase();
+      const builtIn = !condition.quoted ? BUILT_IN_FIELDS[key] : undefined;
+
+      let field: ResolvedField;
+      if (builtIn) {
+        field = { ...builtIn, label: condition.field };
+      } else {
+        const attribute = attributesByName.get(key);
+        if (!attribute) {
+          throw new BadRequestException(
+            `Invalid filter at position ${condition.position + 1}: Unknown field or attribute "${condition.field}"`,
+          );
+        }
+        const type = attribute.type as AttributeType;
+        field = {
+          label: attribute.name,
+          kind: KIND_BY_ATTRIBUTE_TYPE[type] ?? 'string',
+          attributeId: attribute.id,
+          attributeType: type,
+          read: (_product, values) => values.get(attribute.id) ?? null,
+        };
+      }
+
+      if (!SUPPORTED_OPERATORS[field.kind].includes(condition.operator)) {
+        throw new BadRequestException(
+          `Invalid filter at position ${condition.position + 1}: Operator ${condition.operator} is not supported for ${this.describeField(field)}`,
+        );
+      }
+
+      fields.set(condition, field);
+    }
+
+    return fields;
+  }
+
+  private compile(
+    node: FilterNode,
+    fields: Map<FilterCondition, ResolvedField>,
+  ): ProductPredicate {
+    switch (node.kind) {
+      case 'and': {
+        const children = node.children.map((child) =>
+          this.compile(child, fields),
+        );
+        return (product, values) =>
+          children.every((child) => child(product, values));
+      }
+      case 'or': {
+        const children = node.children.map((child) =>
+          this.compile(child, fields),
+        );
+        return (product, values) =>
+          children.some((child) => child(product, values));
+      }
+      case 'not': {
+        const child = this.compile(node.child, fields);
+        return (product, values) => !child(product, values);
+      }
+      default: {
+        const field = fields.get(node) as ResolvedField;
+        const operands = node.values.map((value) =>
+          this.parseOperand(field, value, node),
+        );
+        return (product, values) =>
+          this.matches(
+            field.kind,
+            this.toComparable(field, field.read(product, values)),
+            node.operator,
+            operands,
+          );
+      }
+    }
+  }
+
+  /**
+   * Translate the expression into a Prisma condition. NOT is pushed down to
+   * the conditions, so products without a value match negated conditions as
+   * they do in memory.
+   */
+  private toWhere(
+    node: FilterNode,
+    fields: Map<FilterCondition, ResolvedField>,
+    negated = false,
+  ): FilterWhere {
+    switch (node.kind) {
+      case 'and':
+      case 'or': {
+        const children = node.children.map((child) =>
+          this.toWhere(child, fields, negated),
+        );
+        const wheres = children.map((child) => child.where);
+        // A negated AND is an OR of the negated children and vice versa
+        return {
+          where:
+            (node.kind === 'and') !== negated
+              ? { AND: wheres }
+              : { OR: wheres },
+          exact: children.every((child) => child.exact),
+        };
+      }
+      case 'not':
+        return this.toWhere(node.child, fields, !negated);
+      default: {
+        const field = fields.get(node) as ResolvedField;
+        const positive = POSITIVE_OPERATORS[node.operator];
+        const operands = node.values.map((value) =>
+          this.parseOperand(field, value, node),
+        );
+        const condition = this.conditionToWhere(
+          field,
+          positive ?? node.operator,
+          operands,
+        );
+        if ((positive !== undefined) === negated) {
+          return condition ?? MATCH_ALL;
+        }
+
+        // The negation of a superset says nothing about the products
+        if (!condition?.exact) {
+          return MATCH_ALL;
+        }
+        return {
+          where: field.nullColumn
+            ? {
+                OR: [{ [field.nullColumn]: null }, { NOT: condition.where }],
+              }
+            : { NOT: condition.where },
+          exact: true,
+        };
+      }
+    }
+  }
+
+  /**
+   * Prisma condition for a non-negated operator, or null when the products
+   * can only be told apart in memory.
+   * Text is stored trimmed, so text comparisons run case-insensitively in the
+   * database. Other attribute values are stored as text in their own format
+   * and are only narrowed down to products that have a value.
+   */
+  private conditionToWhere(
+    field: ResolvedField,
+    operator: FilterOperator,
+    operands: any[],
+  ): FilterWhere | null {
+    if (field.attributeId !== undefined) {
+      const value = this.attributeValueWhere(field, operator, operands);
+      return {
+        where: {
+          attributes: {
+            some: { attributeId: field.attributeId, ...value.where },
+          },
+        },
+        exact: value.exact,
+      };
+    }
+
+    const column = field.column as string;
+    const on = (filter: any): Prisma.ProductWhereInput =>
+      field.relation
+        ? { [column]: { is: { name: filter } } }
+        : { [column]: filter };
+
+    if (field.kind === 'string') {
+      const text = this.textWhere(operator, operands);
+      return text && { where: { OR: text.map(on) }, exact: true };
+    }
+
+    const values = operands.map((operand) =>
+      field.kind === 'date' ? new Date(operand) : operand,
+    );
+    switch (operator) {
+      case '=':
+        return { where: on(values[0]), exact: true };
+      case '>':
+        return { where: on({ gt: values[0] }), exact: true };
+      case '>=':
+        return { where: on({ gte: values[0] }), exact: true };
+      case '<':
+        return { where: on({ lt: values[0] }), exact: true };
+      case '<=':
+        return { where: on({ lte: values[0] }), exact: true };
+      case 'IN':
+        return { where: on({ in: values }), exact: true };
+      case 'IS NOT EMPTY':
+        return { where: on({ not: null }), exact: true };
+      default:
+        return null;
+    }
+  }
+
+  private attributeValueWhere(
+    field: ResolvedField,
+    operator: FilterOperator,
+    operands: any[],
+  ): { where: Prisma.ProductAttributeWhereInput; exact: boolean } {
+    const hasValue = { where: { value: { not: '' } }, exact: false };
+
+    if (
+      field.kind === 'string' ||
+      (field.kind === 'list' && field.attributeType === AttributeType.ENUM)
+    ) {
+      const text = this.textWhere(operator, operands);
+      return text
+        ? { where: { OR: text.map((value) => ({ value })) }, exact: true }
+        : hasValue;
+    }
+
+    // ARRAY values are JSON lists, which contain each option as plain text
+    // unless it has characters JSON escapes
+    if (
+      field.kind === 'list' &&
+      ['=', 'IN', 'CONTAINS'].includes(operator) &&
+      operands.every(
+        (operand) =>
+          operand !== '' && JSON.stringify(operand) === `"${operand}"`,
+      )
+    ) {
+      return {
+        where: {
+          OR: operands.map((operand) => ({
+            value: { contains: operand, mode: 'insensitive' as const },
+          })),
+        },
+        exact: false,
+      };
+    }
+
+    return hasValue;
+  }
+
+  /**
+   * Alternative string filters for a text condition, or null when it cannot
+   * be expressed
+   */
+  private textWhere(
+    operator: FilterOperator,
+    operands: string[],
+  ): Prisma.StringFilter[] | null {
+    if (operator === 'IS NOT EMPTY') {
+      return [{ not: '' }];
+    }
+    // Empty text is stored as null, so an empty operand needs the in-memory rules
+    if (operands.some((operand) => operand === '')) {
+      return null;
+    }
+    switch (operator) {
+      case '=':
+      case 'IN':
+        return operands.map((operand) => ({
+          equals: operand,
+          mode: 'insensitive',
+        }));
+      case 'CONTAINS':
+        return [{ contains: operands[0], mode: 'insensitive' }];
+      default:
+        return null;
+    }
+  }
+
+  private matches(
+    kind: ValueKind,
+    actual: any,
+    operator: FilterOperator,
+    operands: any[],
+  ): boolean {
+    switch (operator) {
+      case 'IS EMPTY':
+        return actual === null;
+      case 'IS NOT EMPTY':
+        return actual !== null;
+      // Products without a value match negated conditions
+      case '!=':
+        return !this.matches(kind, actual, '=', operands);
+      case 'NOT IN':
+        return !this.matches(kind, actual, 'IN', operands);
+    }
+
+    if (actual === null) {
+      return false;
+    }
+
+    if (kind === 'list') {
+      const items = actual as string[];
+      switch (operator) {
+        case '=':
+          return items.includes(operands[0]);
+        case 'IN':
+          return operands.some((operand) => items.includes(operand));
+        case 'CONTAINS':
+          return items.some((item) => item.includes(operands[0]));
+        default:
+          return false;
+      }
+    }
+
+    const compare = (a: any, b: any): number =>
+      kind === 'string' ? (a as string).localeCompare(b) : a - b;
+
+    switch (operator) {
+      case '=':
+        return compare(actual, operands[0]) === 0;
+      case '>':
+        return compare(actual, operands[0]) > 0;
+      case '>=':
+        return compare(actual, operands[0]) >= 0;
+      case '<':
+        return compare(actual, operands[0]) < 0;
+      case '<=':
+        return compare(actual, operands[0]) <= 0;
+      case 'IN':
+        return operands.some((operand) => compare(actual, operand) === 0);
+      case 'CONTAINS':
+        return (actual as string).includes(operands[0]);
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Convert a product's value into its comparable form. Empty values and
+   * values that cannot be read as the field's type become null.
+   */
+  private toComparable(field: ResolvedField, raw: unknown): any {
+    if (raw === null || raw === undefined || raw === '') {
+      return null;
+    }
+
+    if (field.kind === 'list') {
+      const parsed =
+        field.attributeType === AttributeType.ARRAY
+          ? this.validator.parseStoredValue(AttributeType.ARRAY, raw as string)
+          : raw;
+      const items = (Array.isArray(parsed) ? parsed : [parsed])
+        .filter((item) => item !== null && item !== undefined && item !== '')
+        .map((item) => String(item).trim().toLowerCase());
+      return items.length > 0 ? items : null;
+    }
+
+    return this.coerce(field.kind, raw);
+  }
+
+  private parseOperand(
+    field: ResolvedField,
+    value: string,
+    condition: FilterCondition,
+  ): any {
+    const operand =
+      field.kind === 'list'
+        ? value.trim().toLowerCase()
+        : this.coerce(field.kind, value);
+
+    if (operand === null) {
+      throw new BadRequestException(
+        `Invalid filter at position ${condition.position + 1}: "${value}" is not a valid ${field.kind} for ${this.describeField(field)}`,
+      );
+    }
+    return operand;
+  }
+
+  private coerce(kind: ValueKind, value: unknown): any {
+    switch (kind) {
+      case 'number': {
+        const num =
+          typeof value === 'number' ? value : Number(String(value).trim());
+        return String(value).trim() === '' || isNaN(num) ? null : num;
+      }
+      case 'date': {
+        const date =
+          value instanceof Date ? value : new Date(String(value).trim());
+        return isNaN(date.getTime()) ? null : date.getTime();
+      }
+      case 'time': {
+        const match = /^(\d{1,2}):(\d{2})(?::(\d{2}))?$/.exec(
+          String(value).trim(),
+        );
+        return match
+          ? Number(match[1]) * 3600 +
+              Number(match[2]) * 60 +
+              Number(match[3] ?? 0)
+          : null;
+      }
+      case 'boolean': {
+        try {
+          return this.validator.validate(AttributeType.BOOLEAN, value) ? 1 : 0;
+        } catch {
+          return null;
+        }
+      }
+      default:
+        return String(value).trim().toLowerCase();
+    }
+  }
+
+  private describeField(field: ResolvedField): string {
+    return field.attributeType
+      ? `${field.attributeType} attribute "${field.label}"`
+      : `field "${field.label}"`;
+  }
+}
@@ -0,0 +1,274 @@
+import { Prisma } from '@prisma/client';
+import { ProductRevisionService } from './product-revision.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { ProductRevisionSnapshot } from '../dto/product-revision.dto';
+
+const TEE: ProductRevisionSnapshot = {
+  name: 'Tee',
+  sku: 'TEE-1',
+  productLink: null,
+  imageUrl: null,
+  subImages: [],
+  thumbnailUrl: null,
+  thumbnailSubImages: [],
+  categoryId: 3,
+  attributeGroupId: null,
+  familyId: 5,
+  parentProductId: null,
+  attributes: [
+    {
+      attributeId: 7,
+      attributeName: 'Description',
+      familyAttributeId: 70,
+      value: 'Soft cotton',
+    },
+    {
+      attributeId: 8,
+      attributeName: 'Color',
+      familyAttributeId: null,
+      value: 'red',
+    },
+  ],
+  assetIds: [118],
+  localizations: [{ locale: 'de-DE', name: 'T-Shirt' }],
+  attributeLocalizations: [
+    {
+      attributeId: 7,
+      attributeName: 'Description',
+      locale: 'de-DE',
+      value: 'Weiche Baumwolle',
+    },
+  ],
+  channelValues: [
+    {
+      attributeId: 7,
+      attributeName: 'Description',
+      channel: 'WOOCOMMERCE',
+      connectionId: 3,
+      value: 'Soft cotton tee',
+    },
+  ],
+  categoryIds: [3, 9],
+};
+
+const uniqueViolation = () =>
+  new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+    code: 'P2002',
+    clientVersion: 'test',
+  });
+
+describe('ProductRevisionService', () => {
+  let prisma: any;
+  let service: ProductRevisionService;
+
+  beforeEach(() => {
+    prisma = {
+      product: { findFirst: jest.fn().mockResolvedValue({ id: 42 }) },
+      productRevision: {
+        count: jest.fn().mockResolvedValue(0),
+        findFirst: jest.fn().mockResolvedValue(null),
+        create: jest.fn().mockResolvedValue({}),
+      },
+    };
+    service = new ProductRevisionService(prisma as PrismaService);
+  });
+
+  describe('diffSnapshots', () => {
+    it('should report nothing for identical snapshots', () => {
+      expect(
+        service.diffSnapshots(TEE, JSON.parse(JSON.stringify(TEE))),
+      ).toEqual([]);
+    });
+
+    it('should report changed columns and attribute values', () => {
+      const changes = service.diffSnapshots(TEE, {
+        ...TEE,
+        name: 'Classic Tee',
+        attributes: [
+          { ...TEE.attributes[0], value: '' },
+          {
+            attributeId: 9,
+            attributeName: 'Fit',
+            familyAttributeId: null,
+            value: 'slim',
+          },
+        ],
+      });
+
+      expect(changes).toEqual([
+        {
+          field: 'name',
+          kind: 'field',
+          change: 'modified',
+          oldValue: 'Tee',
+          newValue: 'Classic Tee',
+        },
+        {
+          field: 'attributes.Description',
+          kind: 'attribute',
+          change: 'modified',
+          attributeId: 7,
+          attributeName: 'Description',
+          oldValue: 'Soft cotton',
+          newValue: '',
+        },
+        {
+          field: 'attributes.Color',
+          kind: 'attribute',
+          change: 'removed',
+          attributeId: 8,
+          attributeName: 'Color',
+          oldValue: 'red',
+          newValue: null,
+        },
+        {
+          field: 'attributes.Fit',
+          kind: 'attribute',
+          change: 'added',
+          attributeId: 9,
+          attributeName: 'Fit',
+          oldValue: null,
+          newValue: 'slim',
+        },
+      ]);
+    });
+
+    it('should report localized content, channel values, assets and categories', () => {
+      const changes = service.diffSnapshots(TEE, {
+        ...TEE,
+        assetIds: [119],
+        localizations: [{ locale: 'de-DE', name: 'Klassisches T-Shirt' }],
+        attributeLocalizations: [],
+        channelValues: [{ ...TEE.channelValues![0], connectionId: 4 }],
+        categoryIds: [3, 12],
+      });
+
+      expect(changes.map(({ field, change }) => `${field} ${change}`)).toEqual([
+        'assets removed',
+        'assets added',
+        'localizations.de-DE.name modified',
+        'localizations.de-DE.attributes.Description removed',
+        'channelValues.WOOCOMMERCE.Description removed',
+        'channelValues.WOOCOMMERCE.Description added',
+        'categories removed',
+        'categories added',
+      ]);
+      expect(changes[4]).toMatchObject({ connectionId: 3 });
+      expect(changes[5]).toMatchObject({ connectionId: 4 });
+    });
+
+    it('should skip sections that older snapshots did not record', () => {
+      const legacy: ProductRevisionSnapshot = { ...TEE };
+      delete legacy.localizations;
+      delete legacy.attributeLocalizations;
+      delete legacy.channelValues;
+      delete legacy.categoryIds;
+
+      expect(service.diffSnapshots(legacy, TEE)).toEqual([]);
+    });
+  });
+
+  describe('recordRevision', () => {
+    let buildSnapshot: jest.SpyInstance;
+
+    beforeEach(() => {
+      buildSnapshot = jest
+        .spyOn(service, 'buildSnapshot')
+        .mockResolvedValue(TEE);
+    });
+
+    it('should number revisions after the latest one and keep the acting user', async () => {
+      prisma.productRevision.findFirst.mockResolvedValue({
+        revisionNumber: 4,
+        snapshot: { ...TEE, name: 'Old tee' },
+      });
+
+      await service.recordRevision(42, 1, 'updated', 2);
+
+      expect(prisma.productRevision.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          productId: 42,
+          userId: 1,
+          createdById: 2,
+          revisionNumber: 5,
+          action: 'updated',
+          changedFields: ['name'],
+        }),
+      });
+    });
+
+    it('should not store a revision when nothing changed', async () => {
+      prisma.productRevision.findFirst.mockResolvedValue({
+        revisionNumber: 4,
+        snapshot: TEE,
+      });
+
+      await service.recordRevision(42, 1, 'updated');
+
+      expect(prisma.productRevision.create).not.toHaveBeenCalled();
+    });
+
+    it('should renumber the revision when a concurrent change took the number', async () => {
+      prisma.productRevision.findFirst
+        .mockResolvedValueOnce({ revisionNumber: 4, snapshot: TEE })
+        .mockResolvedValueOnce({
+          revisionNumber: 5,
+          snapshot: { ...TEE, sku: 'TEE-0' },
+        });
+      prisma.productRevision.create.mockRejectedValueOnce(uniqueViolation());
+      buildSnapshot.mockResolvedValue({
+        ...TEE,
+        sku: 'TEE-2',
+      });
+
+      await service.recordRevision(42, 1, 'updated');
+
+      expect(prisma.productRevision.create).toHaveBeenCalledTimes(2);
+      expect(
+        prisma.productRevision.create.mock.calls[1][0].data.revisionNumber,
+      ).toBe(6);
+    });
+
+    it('should give up after repeated conflicts without throwing', async () => {
+      prisma.productRevision.create.mockRejectedValue(uniqueViolation());
+
+      await expect(
+        service.recordRevision(42, 1, 'updated'),
+      ).resolves.toBeUndefined();
+      expect(prisma.productRevision.create).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('recordBaseline', () => {
+    let recordRevision: jest.SpyInstance;
+
+    beforeEach(() => {
+      recordRevision = jest
+        .spyOn(service, 'recordRevision')
+        .mockResolvedValue();
+    });
+
+    it('should store a baseline without an acting user for products without revisions', async () => {
+      await service.recordBaseline(42, 1);
+
+      expect(recordRevision).toHaveBeenCalledWith(42, 1, 'baseline', null);
+    });
+
+    it('should leave products with revisions alone', async () => {
+      prisma.productRevision.count.mockResolvedValue(3);
+
+      await service.recordBaseline(42, 1);
+
+      expect(recordRevision).not.toHaveBeenCalled();
+    });
+
+    it("should ignore other users' products", async () => {
+      prisma.product.findFirst.mockResolvedValue(null);
+
+      await service.recordBaseline(42, 1);
+
+      expect(prisma.productRevision.count).not.toHaveBeenCalled();
+      expect(recordRevision).not.toHaveBeenCalled();
+    });
+  });
+});
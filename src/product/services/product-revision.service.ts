@@ -0,0 +1,666 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { PaginatedResponse, PaginationUtils } from '../../common';
+import {
+  ProductRevisionAction,
+  ProductRevisionChangeDto,
+  ProductRevisionDiffResponseDto,
+  ProductRevisionResponseDto,
+  ProductRevisionSnapshot,
+} from '../dto/product-revision.dto';
+
+// Core product columns tracked by revisions, in the order they are reported in diffs
+const SNAPSHOT_FIELDS = [
+  'name',
+  'sku',
+  'productLink',
+  'imageUrl',
+  'subImages',
+  'thumbnailUrl',
+  'thumbnailSubImages',
+  'categoryId',
+  'attributeGroupId',
+  'familyId',
+  'parentProductId',
+] as const;
+
+// Attempts to number a revision when concurrent changes take the same number
+const MAX_REVISION_ATTEMPTS = 3;
+
+/**
+ * Service for recording and comparing product revisions
+ */
+@Injectable()
+export class ProductRevisionService {
+  private readonly logger = new Logger(ProductRevisionService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Build a snapshot of the product's current state.
+   * Returns null when the product does not exist.
+   */
+  async buildSnapshot(
+    productId: number,
+  ): Promise<ProductRevisionSnapshot | null> {
+    const product = await this.prisma.product.findUnique({
+      where: { id: productId },
+      include: {
+        attributes: {
+          select: {
+            attributeId: true,
+            familyAttributeId: true,
+            value: true,
+            attribute: { select: { name: true } },
+          },
+          orderBy: { attributeId: 'asc' },
+        },
+        assets: {
+          select: { assetId: true },
+          orderBy: { assetId: 'asc' },
+        },
+        localizations: {
+          select: { locale: true, name: true },
+          orderBy: { locale: 'asc' },
+        },
+        attributeLocalizations: {
+          select: {
+            attributeId: true,
+            locale: true,
+            value: true,
+            attribute: { select: { name: true } },
+          },
+          orderBy: [{ locale: 'asc' }, { attributeId: 'asc' }],
+        },
+        channelValues: {
+          select: {
+            attributeId: true,
+            channel: true,
+            connectionId: true,
+            value: true,
+            attribute: { select: { name: true } },
+          },
+          orderBy: [
+            { channel: 'asc' },
+            { connectionId: 'asc' },
+            { attributeId: 'asc' },
+          ],
+        },
+        categories: {
+          select: { categoryId: true },
+          orderBy: { categoryId: 'asc' },
+        },
+      },
+    });
+
+    if (!product) {
+      return null;
+    }
+
+    return {
+      name: product.name,
+      sku: product.sku,
+      productLink: product.productLink,
+      imageUrl: product.imageUrl,
+      subImages: product.subImages || [],
+      thumbnailUrl: product.thumbnailUrl,
+      thumbnailSubImages: product.thumbnailSubImages || [],
+      categoryId: product.categoryId,
+      attributeGroupId: product.attributeGroupId,
+      familyId: product.familyId,
+      parentProductId: product.parentProductId,
+      attributes: product.attributes.map((pa) => ({
+        attributeId: pa.attributeId,
+        attributeName: pa.attribute.name,
+        familyAttributeId: pa.familyAttributeId,
+        value: pa.value,
+      })),
+      assetIds: product.assets.map((pa) => pa.assetId),
+      localizations: product.localizations.map((pl) => ({
+        locale: pl.locale,
+        name: pl.name,
+      })),
+      attributeLocalizations: product.attributeLocalizations.map((pal) => ({
+        attributeId: pal.attributeId,
+        attributeName: pal.attribute.name,
+        locale: pal.locale,
+        value: pal.value,
+      })),
+      channelValues: product.channelValues.map((cv) => ({
+        attributeId: cv.attributeId,
+        attributeName: cv.attribute.name,
+        channel: cv.channel,
+        connectionId: cv.connectionId,
+        value: cv.value,
+      })),
+      categoryIds: product.categories.map((pc) => pc.categoryId),
+    };
+  }
+
+  /**
+   * Store the product's current state as a 'baseline' revision when it has no
+   * revisions yet, so the first tracked edit can be compared and undone.
+   * Call it before changing a product. Failures are logged and swallowed.
+   */
+  async recordBaseline(productId: number, userId: number): Promise<void> {
+    try {
+      // Never store another user's product under this user
+      const product = await this.prisma.product.findFirst({
+        where: { id: productId, userId },
+        select: { id: true },
+      });
+      if (!product) {
+        return;
+      }
+      const revisionCount = await this.prisma.productRevision.count({
+        where: { productId },
+      });
+      if (revisionCount > 0) {
+        return;
+      }
+      await this.recordRevision(productId, userId, 'baseline', null);
+    } catch (error) {
+      this.logger.error(
+        `Failed to record baseline revision for product ${productId}: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
+
+  /**
+   * Snapshot the product and store it as a new revision.
+   * userId is the product owner; actingUserId is the user who made the change.
+   * Nothing is stored when the state is identical to the latest revision.
+   * Failures are logged and swallowed so they never break the main operation.
+   */
+  async recordRevision(
+    productId: number,
+    userId: number,
+    action: ProductRevisionAction,
+    actingUserId: number | null = userId,
+  ): Promise<void> {
+    try {
+      for (let attempt = 1; ; attempt++) {
+        try {
+          await this.createRevision(productId, userId, action, actingUserId);
+          return;
+        } catch (error) {
+          // A concurrent change took the revision number; diff against it and try again
+          if (error.code !== 'P2002' || attempt >= MAX_REVISION_ATTEMPTS) {
+            throw error;
+          }
+          this.logger.warn(
+            `Revision number for product ${productId} was taken by a concurrent change; retrying`,
+          );
+        }
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to record revision for product ${productId}: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
+
+  private async createRevision(
+    productId: number,
+    userId: number,
+    action: ProductRevisionAction,
+    actingUserId: number | null,
+  ): Promise<void> {
+    const snapshot = await this.buildSnapshot(productId);
+    if (!snapshot) {
+      return;
+    }
+
+    const latest = await this.prisma.productRevision.findFirst({
+      where: { productId },
+      orderBy: { revisionNumber: 'desc' },
+    });
+
+    const previousSnapshot = latest
+      ? (latest.snapshot as unknown as ProductRevisionSnapshot)
+      : null;
+    const changes = previousSnapshot
+      ? this.diffSnapshots(previousSnapshot, snapshot)
+      : [];
+
+    if (previousSnapshot && changes.length === 0) {
+      this.logger.debug(
+        `No changes for product ${productId}; skipping revision`,
+      );
+      return;
+    }
+
+    const changedFields = Array.from(
+      new Set(changes.map((change) => change.field)),
+    );
+
+    await this.prisma.productRevision.create({
+      data: {
+        productId,
+        userId,
+        createdById: actingUserId,
+        revisionNumber: (latest?.revisionNumber ?? 0) + 1,
+        action,
+        changedFields,
+        snapshot: snapshot as unknown as Prisma.InputJsonValue,
+      },
+    });
+
+    this.logger.log(
+      `Recorded '${action}' revision for product ${productId} (${changedFields.length} changed fields)`,
+    );
+  }
+
+  async getRevisions(
+    productId: number,
+    userId: number,
+    page: number = 1,
+    limit: number = 10,
+  ): Promise<PaginatedResponse<ProductRevisionResponseDto>> {
+    await this.verifyProductOwnership(productId, userId);
+
+    const paginationOptions = PaginationUtils.createPrismaOptions(page, limit);
+
+    const [revisions, total] = await Promise.all([
+      this.prisma.productRevision.findMany({
+        where: { productId, userId },
+        orderBy: { revisionNumber: 'desc' },
+        ...paginationOptions,
+      }),
+      this.prisma.productRevision.count({ where: { productId, userId } }),
+    ]);
+
+    return PaginationUtils.createPaginatedResponse(
+      revisions.map((revision) =>
+        this.transformRevisionForResponse(revision, false),
+      ),
+      total,
+      page,
+      limit,
+    );
+  }
+
+  async getRevision(
+    productId: number,
+    revisionId: number,
+    userId: number,
+  ): Promise<ProductRevisionResponseDto> {
+    const revision = await this.findRevisionOrFail(
+      productId,
+      revisionId,
+      userId,
+    );
+    return this.transformRevisionForResponse(revision, true);
+  }
+
+  /**
+   * Load the stored snapshot of a revision, verifying that it belongs to the product and user
+   */
+  async getRevisionSnapshot(
+    productId: number,
+    revisionId: number,
+    userId: number,
+  ): Promise<{ revisionNumber: number; snapshot: ProductRevisionSnapshot }> {
+    const revision = await this.findRevisionOrFail(
+      productId,
+      revisionId,
+      userId,
+    );
+    return {
+      revisionNumber: revision.revisionNumber,
+      snapshot: revision.snapshot as unknown as ProductRevisionSnapshot,
+    };
+  }
+
+  /**
+   * Compare two revisions of a product. When toRevisionId is omitted the
+   * latest revision is used.
+   */
+  async diffRevisions(
+    productId: number,
+    userId: number,
+    fromRevisionId: number,
+    toRevisionId?: number,
+  ): Promise<ProductRevisionDiffResponseDto> {
+    const from = await this.findRevisionOrFail(
+      productId,
+      fromRevisionId,
+      userId,
+    );
+
+    let to;
+    if (toRevisionId !== undefined) {
+      to = await this.findRevisionOrFail(productId, toRevisionId, userId);
+    } else {
+      to = await this.prisma.productRevision.findFirst({
+        where: { productId, userId },
+        orderBy: { revisionNumber: 'desc' },
+      });
+      if (!to) {
+        throw new NotFoundException(
+          `No revisions found for product ${productId}`,
+        );
+      }
+    }
+
+    return {
+      productId,
+      fromRevision: from.revisionNumber,
+      toRevision: to.revisionNumber,
+      changes: this.diffSnapshots(
+        from.snapshot as unknown as ProductRevisionSnapshot,
+        to.snapshot as unknown as ProductRevisionSnapshot,
+      ),
+    };
+  }
+
+  /**
+   * Field-level comparison of two snapshots.
+   * Attribute values are matched by attributeId and asset links by assetId.
+   * Localized content, channel values and categories are only compared when
+   * both snapshots record them.
+   */
+  diffSnapshots(
+    from: ProductRevisionSnapshot,
+    to: ProductRevisionSnapshot,
+  ): ProductRevisionChangeDto[] {
+    const changes: ProductRevisionChangeDto[] = [];
+
+    for (const field of SNAPSHOT_FIELDS) {
+      const oldValue = from[field] ?? null;
+      const newValue = to[field] ?? null;
+      if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+        changes.push({
+          field,
+          kind: 'field',
+          change: 'modified',
+          oldValue,
+          newValue,
+        });
+      }
+    }
+
+    const fromAttributes = new Map(
+      (from.attributes || []).map((attr) => [attr.attributeId, attr]),
+    );
+    const toAttributes = new Map(
+      (to.attributes || []).map((attr) => [attr.attributeId, attr]),
+    );
+    const attributeIds = Array.from(
+      new Set([...fromAttributes.keys(), ...toAttributes.keys()]),
+    ).sort((a, b) => a - b);
+
+    for (const attributeId of attributeIds) {
+      const oldAttr = fromAttributes.get(attributeId);
+      const newAttr = toAttributes.get(attributeId);
+      const attributeName = newAttr?.attributeName ?? oldAttr?.attributeName;
+
+      if (!oldAttr || !newAttr) {
+        changes.push({
+          field: `attributes.${attributeName}`,
+          kind: 'attribute',
+          change: oldAttr ? 'removed' : 'added',
+          attributeId,
+          attributeName,
+          oldValue: oldAttr?.value ?? null,
+          newValue: newAttr?.value ?? null,
+        });
+      } else if ((oldAttr.value ?? null) !== (newAttr.value ?? null)) {
+        changes.push({
+          field: `attributes.${attributeName}`,
+          kind: 'attribute',
+          change: 'modified',
+          attributeId,
+          attributeName,
+          oldValue: oldAttr.value,
+          newValue: newAttr.value,
+        });
+      }
+    }
+
+    const fromAssets = new Set(from.assetIds || []);
+    const toAssets = new Set(to.assetIds || []);
+    for (const assetId of fromAssets) {
+      if (!toAssets.has(assetId)) {
+        changes.push({
+          field: 'assets',
+          kind: 'asset',
+          change: 'removed',
+          oldValue: assetId,
+          newValue: null,
+        });
+      }
+    }
+    for (const assetId of toAssets) {
+      if (!fromAssets.has(assetId)) {
+        changes.push({
+          field: 'assets',
+          kind: 'asset',
+          change: 'added',
+          oldValue: null,
+          newValue: assetId,
+        });
+      }
+    }
+
+    if (from.localizations && to.localizations) {
+      const fromNames = new Map(
+        from.localizations.map((pl) => [pl.locale, pl.name]),
+      );
+      const toNames = new Map(
+        to.localizations.map((pl) => [pl.locale, pl.name]),
+      );
+      const locales = Array.from(
+        new Set([...fromNames.keys(), ...toNames.keys()]),
+      ).sort();
+
+      for (const locale of locales) {
+        const change = this.compareEntries(
+          fromNames.has(locale),
+          toNames.has(locale),
+          fromNames.get(locale),
+          toNames.get(locale),
+        );
+        if (change) {
+          changes.push({
+            field: `localizations.${locale}.name`,
+            kind: 'localization',
+            change,
+            locale,
+            oldValue: fromNames.get(locale) ?? null,
+            newValue: toNames.get(locale) ?? null,
+          });
+        }
+      }
+    }
+
+    if (from.attributeLocalizations && to.attributeLocalizations) {
+      const key = (pal: { locale: string; attributeId: number }) =>
+        `${pal.locale}:${pal.attributeId}`;
+      const fromValues = new Map(
+        from.attributeLocalizations.map((pal) => [key(pal), pal]),
+      );
+      const toValues = new Map(
+        to.attributeLocalizations.map((pal) => [key(pal), pal]),
+      );
+
+      for (const entryKey of new Set([
+        ...fromValues.keys(),
+        ...toValues.keys(),
+      ])) {
+        const oldEntry = fromValues.get(entryKey);
+        const newEntry = toValues.get(entryKey);
+        const change = this.compareEntries(
+          !!oldEntry,
+          !!newEntry,
+          oldEntry?.value,
+          newEntry?.value,
+        );
+        const entry = (newEntry ?? oldEntry)!;
+        if (change) {
+          changes.push({
+            field: `localizations.${entry.locale}.attributes.${entry.attributeName}`,
+            kind: 'localization',
+            change,
+            attributeId: entry.attributeId,
+            attributeName: entry.attributeName,
+            locale: entry.locale,
+            oldValue: oldEntry?.value ?? null,
+            newValue: newEntry?.value ?? null,
+          });
+        }
+      }
+    }
+
+    if (from.channelValues && to.channelValues) {
+      const key = (cv: {
+        channel: string;
+        connectionId: number;
+        attributeId: number;
+      }) => `${cv.channel}:${cv.connectionId}:${cv.attributeId}`;
+      const fromValues = new Map(from.channelValues.map((cv) => [key(cv), cv]));
+      const toValues = new Map(to.channelValues.map((cv) => [key(cv), cv]));
+
+      for (const entryKey of new Set([
+        ...fromValues.keys(),
+        ...toValues.keys(),
+      ])) {
+        const oldEntry = fromValues.get(entryKey);
+        const newEntry = toValues.get(entryKey);
+        const change = this.compareEntries(
+          !!oldEntry,
+          !!newEntry,
+          oldEntry?.value,
+          newEntry?.value,
+        );
+        const entry = (newEntry ?? oldEntry)!;
+        if (change) {
+          changes.push({
+            field: `channelValues.${entry.channel}.${entry.attributeName}`,
+            kind: 'channel_value',
+            change,
+            attributeId: entry.attributeId,
+            attributeName: entry.attributeName,
+            channel: entry.channel,
+            connectionId: entry.connectionId,
+            oldValue: oldEntry?.value ?? null,
+            newValue: newEntry?.value ?? null,
+          });
+        }
+      }
+    }
+
+    if (from.categoryIds && to.categoryIds) {
+      const fromCategories = new Set(from.categoryIds);
+      const toCategories = new Set(to.categoryIds);
+      for (const categoryId of fromCategories) {
+        if (!toCategories.has(categoryId)) {
+          changes.push({
+            field: 'categories',
+            kind: 'category',
+            change: 'removed',
+            oldValue: categoryId,
+            newValue: null,
+          });
+        }
+      }
+      for (const categoryId of toCategories) {
+        if (!fromCategories.has(categoryId)) {
+          changes.push({
+            field: 'categories',
+            kind: 'category',
+            change: 'added',
+            oldValue: null,
+            newValue: categoryId,
+          });
+        }
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Kind of change between two entries matched by key, or null when unchanged
+   */
+  private compareEntries(
+    inFrom: boolean,
+    inTo: boolean,
+    oldValue: string | null | undefined,
+    newValue: string | null | undefined,
+  ): ProductRevisionChangeDto['change'] | null {
+    if (!inFrom) {
+      return 'added';
+    }
+    if (!inTo) {
+      return 'removed';
+    }
+    return (oldValue ?? null) !== (newValue ?? null) ? 'modified' : null;
+  }
+
+  private async verifyProductOwnership(
+    productId: number,
+    userId: number,
+  ): Promise<void> {
+    const product = await this.prisma.product.findFirst({
+      where: { id: productId, userId },
+      select: { id: true },
+    });
+
+    if (!product) {
+      throw new NotFoundException(
+        `Product with ID ${productId} not found or access denied`,
+      );
+    }
+  }
+
+  private async findRevisionOrFail(
+    productId: number,
+    revisionId: number,
+    userId: number,
+  ) {
+    await this.verifyProductOwnership(productId, userId);
+
+    const revision = await this.prisma.productRevision.findFirst({
+      where: { id: revisionId, userId },
+    });
+
+    if (!revision) {
+      throw new NotFoundException(`Revision with ID ${revisionId} not found`);
+    }
+
+    if (revision.productId !== productId) {
+      throw new BadRequestException(
+        `Revision ${revisionId} does not belong to product ${productId}`,
+      );
+    }
+
+    return revision;
+  }
+
+  private transformRevisionForResponse(
+    revision: any,
+    includeSnapshot: boolean,
+  ): ProductRevisionResponseDto {
+    return {
+      id: revision.id,
+      productId: revision.productId,
+      createdById: revision.createdById ?? null,
+      revisionNumber: revision.revisionNumber,
+      action: revision.action,
+      changedFields: revision.changedFields || [],
+      createdAt: revision.createdAt.toISOString(),
+      snapshot: includeSnapshot
+        ? (revision.snapshot as ProductRevisionSnapshot)
+        : undefined,
+    };
+  }
+}
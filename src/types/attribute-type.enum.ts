@@ -7,6 +7,7 @@ export enum AttributeType {
   URL = 'URL',
   PHONE = 'PHONE',
   COLOR = 'COLOR',
+  BARCODE = 'BARCODE', // GTIN-8/12/13/14 or ISBN with a valid check digit
 
   // Numeric types
   INTEGER = 'INTEGER',
@@ -14,6 +15,7 @@ export enum AttributeType {
   FLOAT = 'FLOAT',
   CURRENCY = 'CURRENCY',
   PERCENTAGE = 'PERCENTAGE',
+  MEASUREMENT = 'MEASUREMENT', // Number with a unit of the attribute's unit family
 
   // Boolean type
   BOOLEAN = 'BOOLEAN',
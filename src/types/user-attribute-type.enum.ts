@@ -5,11 +5,13 @@ export enum UserAttributeType {
   HTML = 'HTML',
   INTEGER = 'Integer',
   DECIMAL = 'Decimal',
+  MEASUREMENT = 'Measurement',
   DROPDOWN = 'Dropdown',
   MULTISELECT = 'Multiselect',
   DATE = 'Date',
   URL = 'URL',
   BOOLEAN = 'Boolean',
+  BARCODE = 'Barcode',
 }
 
 // Mapping from user-friendly types to storage types
@@ -19,11 +21,13 @@ export const USER_TO_STORAGE_TYPE_MAP = {
   [UserAttributeType.HTML]: 'HTML',
   [UserAttributeType.INTEGER]: 'INTEGER',
   [UserAttributeType.DECIMAL]: 'NUMBER',
+  [UserAttributeType.MEASUREMENT]: 'MEASUREMENT',
   [UserAttributeType.DROPDOWN]: 'ENUM',
   [UserAttributeType.MULTISELECT]: 'ARRAY',
   [UserAttributeType.DATE]: 'DATE',
   [UserAttributeType.URL]: 'URL',
   [UserAttributeType.BOOLEAN]: 'BOOLEAN',
+  [UserAttributeType.BARCODE]: 'BARCODE',
 } as const;
 
 // Reverse mapping for displaying storage types as user-friendly names
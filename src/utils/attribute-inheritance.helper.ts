@@ -0,0 +1,150 @@
+/**
+ * How a variant resolves the value of a family attribute against its parent
+ */
+export enum InheritanceMode {
+  INHERIT = 'inherit', // Parent value; the variant's own value only fills in when the parent has none
+  OVERRIDE = 'override', // Variant's own value; falls back to the parent value when empty
+  LOCKED = 'locked', // Always the parent value; variants cannot set their own
+}
+
+/**
+ * Where a resolved attribute value came from
+ */
+export enum ValueSource {
+  OWN = 'own',
+  PARENT = 'parent',
+}
+
+/**
+ * Helper class for resolving variant attribute values through the parent
+ * product, following the inheritance mode of each family attribute. Attributes
+ * outside the family resolve as OVERRIDE. Variant axes always keep their own
+ * value.
+ *
+ * Example:
+ * - Parent "Description" = "Cotton tee" (inherit), variant has a stale copy "Tee"
+ * - applyToVariant(variant, parent.attributes, familyAttributes)
+ *   -> "Description" = "Cotton tee", valueSource 'parent'
+ */
+export class AttributeInheritanceHelper {
+  static getMode(
+    familyAttributes: any[] | null | undefined,
+    attributeId: number,
+  ): InheritanceMode {
+    const familyAttribute = (familyAttributes || []).find(
+      (fa) => this.attributeIdOf(fa) === attributeId,
+    );
+    if (!familyAttribute || familyAttribute.isVariantAxis) {
+      return InheritanceMode.OVERRIDE;
+    }
+    return (
+      (familyAttribute.inheritance as InheritanceMode) ||
+      InheritanceMode.OVERRIDE
+    );
+  }
+
+  /**
+   * Resolve one value. The source is null when neither product has a value.
+   */
+  static resolveValue(
+    mode: InheritanceMode,
+    ownValue: string | null | undefined,
+    parentValue: string | null | undefined,
+  ): { value: string | null; source: ValueSource | null } {
+    const hasOwn = this.hasValue(ownValue);
+    const hasParent = this.hasValue(parentValue);
+
+    if (mode === InheritanceMode.LOCKED) {
+      return {
+        value: parentValue ?? null,
+        source: hasParent ? ValueSource.PARENT : null,
+      };
+    }
+    if (mode === InheritanceMode.INHERIT) {
+      if (hasParent) return { value: parentValue!, source: ValueSource.PARENT };
+      return {
+        value: ownValue ?? null,
+        source: hasOwn ? ValueSource.OWN : null,
+      };
+    }
+    if (hasOwn) return { value: ownValue!, source: ValueSource.OWN };
+    return {
+      value: parentValue ?? null,
+      source: hasParent ? ValueSource.PARENT : null,
+    };
+  }
+
+  /**
+   * Return a copy of the variant whose attribute values are resolved against
+   * the parent's attributes. Parent attributes the variant has no row for are
+   * added. Each attribute row gets `inheritance` and `valueSource`.
+   */
+  static applyToVariant<T>(
+    variant: T,
+    parentAttributes: any[] | null | undefined,
+    familyAttributes: any[] | null | undefined,
+  ): T {
+    const source = variant as any;
+    if (!source || !Array.isArray(source.attributes)) {
+      return variant;
+    }
+
+    const parentById = new Map<number, any>(
+      (parentAttributes || []).map((pa) => [this.attributeIdOf(pa), pa]),
+    );
+    const resolveRow = (row: any, parentRow: any, isOwnRow: boolean) => {
+      const attributeId = this.attributeIdOf(row);
+      const mode = this.getMode(familyAttributes, attributeId);
+      const resolved = this.resolveValue(
+        mode,
+        isOwnRow ? row.value : null,
+        parentRow?.value,
+      );
+      return {
+        ...row,
+        value: resolved.value,
+        inheritance: mode,
+        valueSource: resolved.source,
+      };
+    };
+
+    const ownIds = new Set<number>();
+    const attributes = source.attributes.map((row: any) => {
+      const attributeId = this.attributeIdOf(row);
+      ownIds.add(attributeId);
+      return resolveRow(row, parentById.get(attributeId), true);
+    });
+    for (const [attributeId, parentRow] of parentById) {
+      if (!ownIds.has(attributeId)) {
+        attributes.push(resolveRow(parentRow, parentRow, false));
+      }
+    }
+
+    return { ...source, attributes } as T;
+  }
+
+  /**
+   * IDs of the attributes a variant may not set because they are locked
+   */
+  static lockedAttributeIds(
+    familyAttributes: any[] | null | undefined,
+  ): Set<number> {
+    return new Set(
+      (familyAttributes || [])
+        .filter(
+          (fa) =>
+            !fa.isVariantAxis &&
+            fa.inheritance === (InheritanceMode.LOCKED as string),
+        )
+        .map((fa) => this.attributeIdOf(fa)),
+    );
+  }
+
+  private static attributeIdOf(row: any): number {
+    return row.attributeId ?? row.attribute?.id;
+  }
+
+  private static hasValue(value: string | null | undefined): boolean {
+    return value !== null && value !== undefined && value !== '';
+  }
+}
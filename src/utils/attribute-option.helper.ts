@@ -0,0 +1,148 @@
+import { LocaleHelper } from './locale.helper';
+
+/**
+ * Option of a Dropdown or Multiselect attribute, as loaded with
+ * AttributeOptionHelper.include()
+ */
+export interface AttributeOptionRow {
+  id?: number;
+  code: string;
+  label: string;
+  labels?: unknown; // Localized labels keyed by locale, stored as JSON
+  sortOrder?: number;
+  isDeprecated?: boolean;
+}
+
+// WooCommerce attribute term for an option
+export interface AttributeOptionTerm {
+  name: string;
+  slug: string;
+  menu_order: number;
+}
+
+/**
+ * Helper class for managed attribute options. Product values store the option
+ * code; labels are only for display and channels. Values can be given by code
+ * or by label, so imports keep working with the labels users see.
+ *
+ * Example:
+ * - Options: { code: "red", label: "Red", labels: { de: "Rot" } }
+ * - match(options, "RED") -> red option, match(options, "red") -> red option
+ * - label(red, "de-AT") -> "Rot", label(red, "fr") -> "Red"
+ * - toCode("Navy Blue") -> "navy-blue"
+ */
+export class AttributeOptionHelper {
+  // Lowercase letters, digits, "-" and "_", starting with a letter or digit
+  static readonly CODE_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+
+  /**
+   * Prisma include for the options of an attribute in display order
+   */
+  static include() {
+    return {
+      orderBy: [{ sortOrder: 'asc' as const }, { id: 'asc' as const }],
+    };
+  }
+
+  /**
+   * Derive an option code from a label, e.g. when options are created from
+   * existing product values.
+   */
+  static toCode(label: string): string {
+    return String(label)
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .trim()
+      .replace(/[^a-z0-9_-]+/g, '-')
+      .replace(/-+/g, '-')
+      .replace(/^[-_]+|-+$/g, '');
+  }
+
+  /**
+   * Find the option a value refers to: exact code first, then code or label
+   * ignoring case, then any localized label.
+   */
+  static match<T extends AttributeOptionRow>(
+    options: T[] | null | undefined,
+    value: string | number | null | undefined,
+  ): T | undefined {
+    if (value === null || value === undefined) return undefined;
+    const text = String(value).trim();
+    if (!text || !options?.length) return undefined;
+
+    const exact = options.find((option) => option.code === text);
+    if (exact) return exact;
+
+    const lower = text.toLowerCase();
+    return options.find(
+      (option) =>
+        option.code.toLowerCase() === lower ||
+        option.label.toLowerCase() === lower ||
+        Object.values(this.labels(option)).some(
+          (label) => label.toLowerCase() === lower,
+        ),
+    );
+  }
+
+  /**
+   * Display label of an option in a locale, walking the locale fallback chain
+   * before the default label.
+   */
+  static label(option: AttributeOptionRow, locale?: string | null): string {
+    const labels = this.labels(option);
+    for (const tag of LocaleHelper.getFallbackChain(locale)) {
+      if (labels[tag]) return labels[tag];
+    }
+    return option.label;
+  }
+
+  /**
+   * Label for a stored code. Values stored before the attribute had options
+   * are returned unchanged.
+   */
+  static labelOf(
+    options: AttributeOptionRow[] | null | undefined,
+    code: unknown,
+    locale?: string | null,
+  ): string {
+    const option = options?.find((candidate) => candidate.code === code);
+    return option ? this.label(option, locale) : String(code);
+  }
+
+  /**
+   * WooCommerce terms for stored codes. Unknown values become terms named
+   * after the value itself.
+   */
+  static terms(
+    options: AttributeOptionRow[] | null | undefined,
+    codes: unknown[],
+  ): AttributeOptionTerm[] {
+    return codes.map((code, index) => {
+      const option = options?.find((candidate) => candidate.code === code);
+      return option
+        ? {
+            name: option.label,
+            slug: option.code,
+            menu_order: option.sortOrder ?? index,
+          }
+        : {
+            name: String(code),
+            slug: this.toCode(String(code)),
+            menu_order: index,
+          };
+    });
+  }
+
+  static labels(option: AttributeOptionRow): Record<string, string> {
+    const labels = option.labels;
+    if (!labels || typeof labels !== 'object' || Array.isArray(labels)) {
+      return {};
+    }
+    return Object.fromEntries(
+      Object.entries(labels as Record<string, unknown>).filter(
+        ([, label]) => typeof label === 'string' && label.trim() !== '',
+      ),
+    ) as Record<string, string>;
+  }
+}
@@ -0,0 +1,159 @@
+import { AttributeRuleHelper } from './attribute-rule.helper';
+import { AttributeType } from '../types/attribute-type.enum';
+
+describe('AttributeRuleHelper', () => {
+  describe('hasRules', () => {
+    it('should treat empty rules as no rules', () => {
+      expect(
+        AttributeRuleHelper.hasRules({
+          minValue: null,
+          maxValue: null,
+          pattern: '',
+          allowedMimeTypes: [],
+          isUnique: false,
+        }),
+      ).toBe(false);
+    });
+
+    it('should detect any configured rule', () => {
+      expect(AttributeRuleHelper.hasRules({ minValue: 0 })).toBe(true);
+      expect(AttributeRuleHelper.hasRules({ isUnique: true })).toBe(true);
+      expect(
+        AttributeRuleHelper.hasRules({ allowedMimeTypes: ['image/*'] }),
+      ).toBe(true);
+    });
+  });
+
+  describe('validateRules', () => {
+    it('should accept rules that suit the attribute type', () => {
+      expect(
+        AttributeRuleHelper.validateRules(AttributeType.INTEGER, {
+          minValue: 1,
+          maxValue: 10,
+        }),
+      ).toBeNull();
+      expect(
+        AttributeRuleHelper.validateRules(AttributeType.STRING, {
+          minLength: 2,
+          pattern: '[A-Z]+',
+        }),
+      ).toBeNull();
+      expect(
+        AttributeRuleHelper.validateRules(AttributeType.IMAGE, {
+          allowedMimeTypes: ['image/*'],
+        }),
+      ).toBeNull();
+    });
+
+    it('should reject rules that do not apply to the type', () => {
+      expect(
+        AttributeRuleHelper.validateRules(AttributeType.STRING, {
+          minValue: 1,
+        }),
+      ).toBe('minValue and maxValue only apply to numeric attributes');
+      expect(
+        AttributeRuleHelper.validateRules(AttributeType.INTEGER, {
+          pattern: '\\d+',
+        }),
+      ).toBe('minLength, maxLength and pattern only apply to text attributes');
+      expect(
+        AttributeRuleHelper.validateRules(AttributeType.STRING, {
+          allowedMimeTypes: ['image/png'],
+        }),
+      ).toBe('allowedMimeTypes only apply to File and Image attributes');
+    });
+
+    it('should reject inverted ranges and invalid patterns', () => {
+      expect(
+        AttributeRuleHelper.validateRules(AttributeType.NUMBER, {
+          minValue: 5,
+          maxValue: 1,
+        }),
+      ).toBe('minValue cannot be greater than maxValue');
+      expect(
+        AttributeRuleHelper.validateRules(AttributeType.TEXT, {
+          minLength: 10,
+          maxLength: 3,
+        }),
+      ).toBe('minLength cannot be greater than maxLength');
+      expect(
+        AttributeRuleHelper.validateRules(AttributeType.STRING, {
+          pattern: '[a-',
+        }),
+      ).toBe('pattern is not a valid regular expression: [a-');
+    });
+  });
+
+  describe('check', () => {
+    it('should enforce numeric bounds', () => {
+      const rules = { minValue: 1, maxValue: 100 };
+      expect(
+        AttributeRuleHelper.check(AttributeType.INTEGER, '50', rules),
+      ).toBeNull();
+      expect(AttributeRuleHelper.check(AttributeType.INTEGER, '0', rules)).toBe(
+        'Value 0 is below the minimum of 1',
+      );
+      expect(
+        AttributeRuleHelper.check(AttributeType.PERCENTAGE, '101', rules),
+      ).toBe('Value 101 is above the maximum of 100');
+    });
+
+    it('should enforce text length', () => {
+      const rules = { minLength: 3, maxLength: 5 };
+      expect(
+        AttributeRuleHelper.check(AttributeType.STRING, 'abcd', rules),
+      ).toBeNull();
+      expect(AttributeRuleHelper.check(AttributeType.STRING, 'ab', rules)).toBe(
+        'Value must be at least 3 characters long',
+      );
+      expect(
+        AttributeRuleHelper.check(AttributeType.STRING, 'abcdef', rules),
+      ).toBe('Value must be at most 5 characters long');
+    });
+
+    it('should match the pattern against the whole value', () => {
+      const rules = { pattern: '[0-9]{8,14}' };
+      expect(
+        AttributeRuleHelper.check(AttributeType.STRING, '4006381333931', rules),
+      ).toBeNull();
+      expect(
+        AttributeRuleHelper.check(
+          AttributeType.STRING,
+          'EAN 4006381333931',
+          rules,
+        ),
+      ).toBe('Value must match the pattern [0-9]{8,14}');
+    });
+
+    it('should restrict file types by extension', () => {
+      const rules = { allowedMimeTypes: ['image/*', 'application/pdf'] };
+      expect(
+        AttributeRuleHelper.check(
+          AttributeType.FILE,
+          'https://cdn.example.com/spec.pdf?v=2',
+          rules,
+        ),
+      ).toBeNull();
+      expect(
+        AttributeRuleHelper.check(AttributeType.IMAGE, '/uploads/a.PNG', rules),
+      ).toBeNull();
+      expect(
+        AttributeRuleHelper.check(AttributeType.FILE, '/uploads/a.zip', rules),
+      ).toBe(
+        'File type application/zip is not allowed. Allowed types: image/*, application/pdf',
+      );
+      expect(
+        AttributeRuleHelper.check(AttributeType.FILE, '/uploads/readme', rules),
+      ).toContain('File type unknown is not allowed');
+    });
+
+    it('should ignore rules that do not apply to the type', () => {
+      expect(
+        AttributeRuleHelper.check(AttributeType.BOOLEAN, 'true', {
+          minLength: 10,
+          minValue: 5,
+        }),
+      ).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,223 @@
+import { AttributeType } from '../types/attribute-type.enum';
+
+/**
+ * Validation rules stored on an attribute, on top of its type
+ */
+export interface AttributeRules {
+  minValue?: number | null; // Numeric types
+  maxValue?: number | null;
+  minLength?: number | null; // Text types
+  maxLength?: number | null;
+  pattern?: string | null; // Regular expression the whole value must match
+  allowedMimeTypes?: string[] | null; // FILE and IMAGE, e.g. "image/png", "image/*"
+  isUnique?: boolean | null; // One product per value, e.g. GTIN, EAN or MPN
+}
+
+// The rules as saved on the attribute; no allowed file types is an empty list
+export interface StoredAttributeRules {
+  minValue: number | null;
+  maxValue: number | null;
+  minLength: number | null;
+  maxLength: number | null;
+  pattern: string | null;
+  allowedMimeTypes: string[];
+  isUnique: boolean;
+}
+
+export const NUMERIC_RULE_TYPES: string[] = [
+  AttributeType.INTEGER,
+  AttributeType.NUMBER,
+  AttributeType.FLOAT,
+  AttributeType.CURRENCY,
+  AttributeType.PERCENTAGE,
+];
+
+export const TEXT_RULE_TYPES: string[] = [
+  AttributeType.STRING,
+  AttributeType.TEXT,
+  AttributeType.HTML,
+  AttributeType.EMAIL,
+  AttributeType.URL,
+  AttributeType.PHONE,
+  AttributeType.BARCODE, // e.g. a pattern limiting it to EAN-13
+  AttributeType.ENUM,
+];
+
+export const FILE_RULE_TYPES: string[] = [
+  AttributeType.FILE,
+  AttributeType.IMAGE,
+];
+
+// MIME types of common file extensions; values are URLs or file paths
+const MIME_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  avif: 'image/avif',
+  bmp: 'image/bmp',
+  tif: 'image/tiff',
+  tiff: 'image/tiff',
+  pdf: 'application/pdf',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xls: 'application/vnd.ms-excel',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  csv: 'text/csv',
+  txt: 'text/plain',
+  zip: 'application/zip',
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  mp3: 'audio/mpeg',
+};
+
+/**
+ * Helper class for attribute validation rules. Rules only apply to the types
+ * they make sense for; checks return an error message instead of throwing.
+ *
+ * Example:
+ * - GTIN: { pattern: "^[0-9]{8,14}$", isUnique: true }
+ * - check(TEXT, "12345", gtin) -> 'Value must match the pattern ^[0-9]{8,14}$'
+ * - Image: { allowedMimeTypes: ["image/*"] }
+ * - check(IMAGE, "https://cdn.example.com/spec.pdf", image) -> 'File type application/pdf is not allowed...'
+ */
+export class AttributeRuleHelper {
+  /**
+   * Prisma select for the rule columns of an attribute
+   */
+  static select() {
+    return {
+      minValue: true,
+      maxValue: true,
+      minLength: true,
+      maxLength: true,
+      pattern: true,
+      allowedMimeTypes: true,
+      isUnique: true,
+    } as const;
+  }
+
+  static hasRules(rules: AttributeRules): boolean {
+    return (
+      rules.minValue != null ||
+      rules.maxValue != null ||
+      rules.minLength != null ||
+      rules.maxLength != null ||
+      !!rules.pattern ||
+      !!rules.allowedMimeTypes?.length ||
+      !!rules.isUnique
+    );
+  }
+
+  /**
+   * Check the rules themselves suit the attribute type.
+   * @returns An error message, or null when the rules are valid
+   */
+  static validateRules(type: string, rules: AttributeRules): string | null {
+    if (
+      (rules.minValue != null || rules.maxValue != null) &&
+      !NUMERIC_RULE_TYPES.includes(type)
+    ) {
+      return `minValue and maxValue only apply to numeric attributes`;
+    }
+    if (
+      rules.minValue != null &&
+      rules.maxValue != null &&
+      rules.minValue > rules.maxValue
+    ) {
+      return 'minValue cannot be greater than maxValue';
+    }
+    if (
+      (rules.minLength != null || rules.maxLength != null || rules.pattern) &&
+      !TEXT_RULE_TYPES.includes(type)
+    ) {
+      return 'minLength, maxLength and pattern only apply to text attributes';
+    }
+    if (
+      rules.minLength != null &&
+      rules.maxLength != null &&
+      rules.minLength > rules.maxLength
+    ) {
+      return 'minLength cannot be greater than maxLength';
+    }
+    if (rules.pattern) {
+      try {
+        new RegExp(rules.pattern);
+      } catch {
+        return `pattern is not a valid regular expression: ${rules.pattern}`;
+      }
+    }
+    if (rules.allowedMimeTypes?.length && !FILE_RULE_TYPES.includes(type)) {
+      return 'allowedMimeTypes only apply to File and Image attributes';
+    }
+    return null;
+  }
+
+  /**
+   * Check a stored value against the rules. Uniqueness needs the database
+   * and is left to the caller.
+   * @returns An error message, or null when the value passes
+   */
+  static check(
+    type: string,
+    value: string,
+    rules: AttributeRules,
+  ): string | null {
+    if (NUMERIC_RULE_TYPES.includes(type)) {
+      const number = Number(value);
+      if (rules.minValue != null && number < rules.minValue) {
+        return `Value ${value} is below the minimum of ${rules.minValue}`;
+      }
+      if (rules.maxValue != null && number > rules.maxValue) {
+        return `Value ${value} is above the maximum of ${rules.maxValue}`;
+      }
+    }
+
+    if (TEXT_RULE_TYPES.includes(type)) {
+      if (rules.minLength != null && value.length < rules.minLength) {
+        return `Value must be at least ${rules.minLength} characters long`;
+      }
+      if (rules.maxLength != null && value.length > rules.maxLength) {
+        return `Value must be at most ${rules.maxLength} characters long`;
+      }
+      // The pattern must match the whole value, as users expect from "^...$"
+      if (rules.pattern && !new RegExp(`^(?:${rules.pattern})$`).test(value)) {
+        return `Value must match the pattern ${rules.pattern}`;
+      }
+    }
+
+    if (FILE_RULE_TYPES.includes(type) && rules.allowedMimeTypes?.length) {
+      const mimeType = this.mimeTypeOf(value);
+      if (
+        !mimeType ||
+        !this.mimeTypeAllowed(mimeType, rules.allowedMimeTypes)
+      ) {
+        return `File type ${mimeType ?? 'unknown'} is not allowed. Allowed types: ${rules.allowedMimeTypes.join(', ')}`;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * MIME type of a file URL or path from its extension, or null when unknown
+   */
+  static mimeTypeOf(value: string): string | null {
+    const path = value.split(/[?#]/)[0];
+    const extension = path.includes('.')
+      ? path.split('.').pop()!.toLowerCase()
+      : '';
+    return MIME_TYPES[extension] ?? null;
+  }
+
+  // "image/*" allows every image type
+  static mimeTypeAllowed(mimeType: string, allowed: string[]): boolean {
+    return allowed.some((type) =>
+      type.endsWith('/*')
+        ? mimeType.startsWith(type.slice(0, -1))
+        : type.toLowerCase() === mimeType,
+    );
+  }
+}
@@ -0,0 +1,138 @@
+import { BarcodeHelper } from './barcode.helper';
+
+describe('BarcodeHelper', () => {
+  describe('checkDigit', () => {
+    it('should compute the GS1 mod-10 check digit', () => {
+      expect(BarcodeHelper.checkDigit('400638133393')).toBe(1);
+      expect(BarcodeHelper.checkDigit('03600029145')).toBe(2);
+      expect(BarcodeHelper.checkDigit('9638507')).toBe(4);
+    });
+  });
+
+  describe('validate', () => {
+    it('should accept valid GTINs of every length', () => {
+      expect(BarcodeHelper.validate('96385074')).toBeNull();
+      expect(BarcodeHelper.validate('036000291452')).toBeNull();
+      expect(BarcodeHelper.validate('4006381333931')).toBeNull();
+      expect(BarcodeHelper.validate('10036000291459')).toBeNull();
+    });
+
+    it('should ignore spaces and hyphens', () => {
+      expect(BarcodeHelper.validate('4006381-333931')).toBeNull();
+      expect(BarcodeHelper.validate(' 0 36000 29145 2 ')).toBeNull();
+    });
+
+    it('should report the expected check digit of an invalid GTIN', () => {
+      expect(BarcodeHelper.validate('4006381333932')).toBe(
+        'Invalid GTIN-13 check digit, expected 1',
+      );
+      expect(BarcodeHelper.validate('036000291453')).toBe(
+        'Invalid GTIN-12 check digit, expected 2',
+      );
+    });
+
+    it('should validate ISBN-10 check digits, including "X"', () => {
+      expect(BarcodeHelper.validate('0-306-40615-2')).toBeNull();
+      expect(BarcodeHelper.validate('080442957X')).toBeNull();
+      expect(BarcodeHelper.validate('0306406153')).toBe(
+        'Invalid ISBN-10 check digit, expected 2',
+      );
+    });
+
+    it('should validate ISBN-13 check digits', () => {
+      expect(BarcodeHelper.validate('978-0-306-40615-7')).toBeNull();
+      expect(BarcodeHelper.validate('9780306406158')).toBe(
+        'Invalid ISBN-13 check digit, expected 7',
+      );
+    });
+
+    it('should reject values of an unsupported length or with letters', () => {
+      expect(BarcodeHelper.validate('12345')).toContain('is not a GTIN-8');
+      expect(BarcodeHelper.validate('40063813339A1')).toContain(
+        'is not a GTIN-8',
+      );
+    });
+  });
+
+  describe('formatOf', () => {
+    it('should detect the format from the length and Bookland prefix', () => {
+      expect(BarcodeHelper.formatOf('96385074')).toBe('GTIN-8');
+      expect(BarcodeHelper.formatOf('036000291452')).toBe('GTIN-12');
+      expect(BarcodeHelper.formatOf('4006381333931')).toBe('GTIN-13');
+      expect(BarcodeHelper.formatOf('9780306406157')).toBe('ISBN-13');
+      expect(BarcodeHelper.formatOf('10036000291459')).toBe('GTIN-14');
+      expect(BarcodeHelper.formatOf('0306406152')).toBe('ISBN-10');
+    });
+  });
+
+  describe('toGtin14', () => {
+    it('should pad GTINs to 14 digits', () => {
+      expect(BarcodeHelper.toGtin14('036000291452')).toBe('00036000291452');
+      expect(BarcodeHelper.toGtin14('96385074')).toBe('00000096385074');
+    });
+
+    it('should convert ISBN-10 to its ISBN-13 form', () => {
+      expect(BarcodeHelper.toGtin14('0306406152')).toBe('09780306406157');
+    });
+
+    it('should return null for invalid barcodes', () => {
+      expect(BarcodeHelper.toGtin14('4006381333932')).toBeNull();
+    });
+  });
+
+  describe('equivalents', () => {
+    it('should list the forms of the same identifier with leading zeros', () => {
+      expect(BarcodeHelper.equivalents('036000291452')).toEqual(
+        expect.arrayContaining([
+          '036000291452',
+          '0036000291452',
+          '00036000291452',
+        ]),
+      );
+    });
+
+    it('should include the ISBN-10 form of an ISBN-13', () => {
+      expect(BarcodeHelper.equivalents('9780306406157')).toContain(
+        '0306406152',
+      );
+    });
+  });
+
+  describe('amazonIdentifierType', () => {
+    it('should map formats to Amazon identifier types', () => {
+      expect(BarcodeHelper.amazonIdentifierType('036000291452')).toBe('upc');
+      expect(BarcodeHelper.amazonIdentifierType('4006381333931')).toBe('ean');
+      expect(BarcodeHelper.amazonIdentifierType('0306406152')).toBe('isbn');
+      expect(BarcodeHelper.amazonIdentifierType('10036000291459')).toBe('gtin');
+      expect(BarcodeHelper.amazonIdentifierType('123')).toBeNull();
+    });
+  });
+
+  describe('allocation', () => {
+    it('should build barcodes from a company prefix with a check digit', () => {
+      expect(BarcodeHelper.fromPrefix('9501234', 42, 'GTIN-13')).toBe(
+        '9501234000428',
+      );
+      expect(
+        BarcodeHelper.validate(
+          BarcodeHelper.fromPrefix('036000', 29145, 'GTIN-12'),
+        ),
+      ).toBeNull();
+    });
+
+    it('should compute the capacity of a company prefix', () => {
+      expect(BarcodeHelper.capacity('9501234', 'GTIN-13')).toBe(100000);
+      expect(BarcodeHelper.capacity('036000', 'GTIN-12')).toBe(100000);
+    });
+
+    it('should reject company prefixes that leave no item reference digits', () => {
+      expect(BarcodeHelper.validatePrefix('12345', 'GTIN-13')).toBe(
+        'Company prefix for GTIN-13 must be 6 to 11 digits',
+      );
+      expect(
+        BarcodeHelper.validatePrefix('123456789012', 'GTIN-13'),
+      ).not.toBeNull();
+      expect(BarcodeHelper.validatePrefix('9501234', 'GTIN-13')).toBeNull();
+    });
+  });
+});
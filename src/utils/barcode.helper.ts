@@ -0,0 +1,214 @@
+export type BarcodeFormat =
+  | 'GTIN-8'
+  | 'GTIN-12'
+  | 'GTIN-13'
+  | 'GTIN-14'
+  | 'ISBN-10'
+  | 'ISBN-13';
+
+// Formats barcodes can be allocated in from a GS1 company prefix
+export const ALLOCATION_FORMATS = ['GTIN-13', 'GTIN-12'] as const;
+export type AllocationFormat = (typeof ALLOCATION_FORMATS)[number];
+
+export interface ParsedBarcode {
+  value: string; // Digits only, "X" allowed as the last ISBN-10 character
+  format: BarcodeFormat;
+}
+
+const GTIN_FORMATS: Record<number, BarcodeFormat> = {
+  8: 'GTIN-8',
+  12: 'GTIN-12',
+  13: 'GTIN-13',
+  14: 'GTIN-14',
+};
+
+/**
+ * Helper class for product barcodes (GTIN-8/12/13/14, i.e. EAN-8, UPC-A,
+ * EAN-13 and case codes, and ISBN). Barcodes are stored normalized, without
+ * spaces or hyphens. The same GTIN can be written at several lengths with
+ * leading zeros, so collisions are compared on the GTIN-14 form.
+ *
+ * Example:
+ * - parse("4006381-333931") -> { value: "4006381333931", format: "GTIN-13" }
+ * - validate("4006381333932") -> 'Invalid GTIN-13 check digit, expected 1'
+ * - parse("0-306-40615-2") -> { value: "0306406152", format: "ISBN-10" }
+ * - fromPrefix("9501234", 42, "GTIN-13") -> "9501234000428"
+ */
+export class BarcodeHelper {
+  static normalize(value: string | number): string {
+    return String(value).trim().replace(/[\s-]/g, '').toUpperCase();
+  }
+
+  /**
+   * GS1 mod-10 check digit for the digits before it
+   */
+  static checkDigit(digits: string): number {
+    let sum = 0;
+    for (let i = 0; i < digits.length; i++) {
+      // Weights alternate 3, 1, ... starting from the rightmost digit
+      const weight = (digits.length - i) % 2 === 1 ? 3 : 1;
+      sum += Number(digits[i]) * weight;
+    }
+    return (10 - (sum % 10)) % 10;
+  }
+
+  /**
+   * Parse a barcode, or null when it is not a valid GTIN or ISBN
+   */
+  static parse(value: string | number): ParsedBarcode | null {
+    return this.validate(value) === null
+      ? { value: this.normalize(value), format: this.formatOf(value)! }
+      : null;
+  }
+
+  /**
+   * Check the length and check digit of a barcode.
+   * @returns An error message, or null when the barcode is valid
+   */
+  static validate(value: string | number): string | null {
+    const barcode = this.normalize(value);
+    const format = this.formatOf(barcode);
+    if (!format) {
+      return `"${value}" is not a GTIN-8, GTIN-12, GTIN-13, GTIN-14 or ISBN-10 barcode`;
+    }
+
+    if (format === 'ISBN-10') {
+      const expected = this.isbn10CheckDigit(barcode.slice(0, 9));
+      return barcode[9] === expected
+        ? null
+        : `Invalid ISBN-10 check digit, expected ${expected}`;
+    }
+
+    const expected = this.checkDigit(barcode.slice(0, -1));
+    return Number(barcode.slice(-1)) === expected
+      ? null
+      : `Invalid ${format} check digit, expected ${expected}`;
+  }
+
+  static formatOf(value: string | number): BarcodeFormat | null {
+    const barcode = this.normalize(value);
+    if (/^\d{9}[\dX]$/.test(barcode)) {
+      return 'ISBN-10';
+    }
+    if (!/^\d+$/.test(barcode) || !GTIN_FORMATS[barcode.length]) {
+      return null;
+    }
+    // ISBN-13 is an EAN-13 in the "Bookland" 978/979 range
+    return barcode.length === 13 && /^97[89]/.test(barcode)
+      ? 'ISBN-13'
+      : GTIN_FORMATS[barcode.length];
+  }
+
+  /**
+   * GTIN-14 form of a valid barcode, used to detect the same product
+   * identifier written at different lengths. ISBN-10 becomes its ISBN-13.
+   */
+  static toGtin14(value: string | number): string | null {
+    const parsed = this.parse(value);
+    if (!parsed) {
+      return null;
+    }
+    if (parsed.format === 'ISBN-10') {
+      const isbn13 = `978${parsed.value.slice(0, 9)}`;
+      return `0${isbn13}${this.checkDigit(isbn13)}`;
+    }
+    return parsed.value.padStart(14, '0');
+  }
+
+  /**
+   * Every stored form the same identifier can have, for collision lookups
+   */
+  static equivalents(value: string | number): string[] {
+    const gtin14 = this.toGtin14(value);
+    if (!gtin14) {
+      return [this.normalize(value)];
+    }
+
+    const forms = new Set<string>([this.normalize(value)]);
+    for (const length of [8, 12, 13, 14]) {
+      const form = gtin14.slice(14 - length);
+      if (gtin14.slice(0, 14 - length).replace(/0/g, '') === '') {
+        forms.add(form);
+      }
+    }
+    // ISBN-13 in the 978 range also has an ISBN-10 form
+    if (gtin14.startsWith('0978')) {
+      const core = gtin14.slice(4, 13);
+      forms.add(`${core}${this.isbn10CheckDigit(core)}`);
+    }
+    return [...forms];
+  }
+
+  /**
+   * Product identifier type Amazon expects for a barcode
+   */
+  static amazonIdentifierType(value: string | number): string | null {
+    switch (this.parse(value)?.format) {
+      case 'GTIN-12':
+        return 'upc';
+      case 'GTIN-8':
+      case 'GTIN-13':
+        return 'ean';
+      case 'ISBN-10':
+      case 'ISBN-13':
+        return 'isbn';
+      case 'GTIN-14':
+        return 'gtin';
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Check a GS1 company prefix suits the allocation format.
+   * @returns An error message, or null when the prefix is valid
+   */
+  static validatePrefix(
+    prefix: string,
+    format: AllocationFormat,
+  ): string | null {
+    const maxLength = this.lengthOf(format) - 2;
+    if (
+      !/^\d+$/.test(prefix) ||
+      prefix.length < 6 ||
+      prefix.length > maxLength
+    ) {
+      return `Company prefix for ${format} must be 6 to ${maxLength} digits`;
+    }
+    return null;
+  }
+
+  /**
+   * Number of barcodes a company prefix allows in a format
+   */
+  static capacity(prefix: string, format: AllocationFormat): number {
+    return Math.pow(10, this.lengthOf(format) - 1 - prefix.length);
+  }
+
+  /**
+   * Barcode for an item reference within a company prefix, with check digit
+   */
+  static fromPrefix(
+    prefix: string,
+    itemReference: number,
+    format: AllocationFormat,
+  ): string {
+    const referenceLength = this.lengthOf(format) - 1 - prefix.length;
+    const digits = `${prefix}${String(itemReference).padStart(referenceLength, '0')}`;
+    return `${digits}${this.checkDigit(digits)}`;
+  }
+
+  private static lengthOf(format: AllocationFormat): number {
+    return format === 'GTIN-12' ? 12 : 13;
+  }
+
+  // ISBN-10 uses mod 11 with weights 10 down to 2; a check value of 10 is "X"
+  private static isbn10CheckDigit(digits: string): string {
+    let sum = 0;
+    for (let i = 0; i < 9; i++) {
+      sum += Number(digits[i]) * (10 - i);
+    }
+    const check = (11 - (sum % 11)) % 11;
+    return check === 10 ? 'X' : String(check);
+  }
+}
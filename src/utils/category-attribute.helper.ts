@@ -0,0 +1,140 @@
+/**
+ * Attribute declared on a category, as loaded with CategoryAttributeHelper.include()
+ */
+export interface CategoryAttributeRow {
+  attributeId: number;
+  isRequired: boolean;
+  attribute: { id: number; name: string; type?: string };
+}
+
+// Minimal category shape needed to resolve inherited attributes and family
+export interface CategoryNode {
+  id: number;
+  name: string;
+  parentCategoryId: number | null;
+  familyId?: number | null;
+  categoryAttributes?: CategoryAttributeRow[];
+}
+
+export interface EffectiveCategoryAttribute {
+  attributeId: number;
+  attributeName: string;
+  attributeType?: string;
+  isRequired: boolean; // Required when any category of the chain requires it
+  inherited: boolean; // Declared by an ancestor, not the category itself
+  sourceCategoryId: number; // Nearest category declaring the attribute
+  sourceCategoryName: string;
+}
+
+export interface ResolvedCategory {
+  attributes: EffectiveCategoryAttribute[];
+  familyId: number | null; // Own family, otherwise the nearest ancestor's
+}
+
+/**
+ * Helper class for category attribute templates. Categories declare required
+ * and recommended attributes and a family; subcategories inherit both. A
+ * subcategory can make an inherited attribute required, never optional again.
+ *
+ * Example:
+ * - Apparel: Material (required), Care (recommended), family Clothing
+ * - Apparel > Shoes: Size (required), Care (required)
+ * - resolve(Shoes) -> Material (required, inherited), Care (required), Size (required); family Clothing
+ */
+export class CategoryAttributeHelper {
+  /**
+   * Prisma include for the attributes declared on a category
+   */
+  static include() {
+    return {
+      include: {
+        attribute: { select: { id: true, name: true, type: true } },
+      },
+      orderBy: { createdAt: 'asc' as const },
+    };
+  }
+
+  /**
+   * Effective attributes of a category given the effective attributes of its
+   * parent. Own declarations come after the inherited ones.
+   */
+  static merge(
+    inherited: EffectiveCategoryAttribute[],
+    category: CategoryNode,
+  ): EffectiveCategoryAttribute[] {
+    const merged = new Map<number, EffectiveCategoryAttribute>(
+      inherited.map((attr) => [attr.attributeId, { ...attr, inherited: true }]),
+    );
+
+    for (const row of category.categoryAttributes ?? []) {
+      const parent = merged.get(row.attributeId);
+      if (parent) merged.delete(row.attributeId);
+      merged.set(row.attributeId, {
+        attributeId: row.attributeId,
+        attributeName: row.attribute.name,
+        attributeType: row.attribute.type,
+        isRequired: row.isRequired || !!parent?.isRequired,
+        inherited: false,
+        sourceCategoryId: category.id,
+        sourceCategoryName: category.name,
+      });
+    }
+
+    return Array.from(merged.values());
+  }
+
+  /**
+   * Resolve every category of a flat list, walking up parents within the list.
+   */
+  static resolveAll(categories: CategoryNode[]): Map<number, ResolvedCategory> {
+    const byId = new Map(categories.map((category) => [category.id, category]));
+    const resolved = new Map<number, ResolvedCategory>();
+
+    const resolveOne = (
+      category: CategoryNode,
+      visiting: Set<number>,
+    ): ResolvedCategory => {
+      const cached = resolved.get(category.id);
+      if (cached) return cached;
+
+      // A broken parent chain (cycle) resolves as a root category
+      visiting.add(category.id);
+      const parent =
+        category.parentCategoryId !== null &&
+        !visiting.has(category.parentCategoryId)
+          ? byId.get(category.parentCategoryId)
+          : undefined;
+      const parentResolved = parent
+        ? resolveOne(parent, visiting)
+        : { attributes: [], familyId: null };
+
+      const result: ResolvedCategory = {
+        attributes: this.merge(parentResolved.attributes, category),
+        familyId: category.familyId ?? parentResolved.familyId,
+      };
+      resolved.set(category.id, result);
+      return result;
+    };
+
+    for (const category of categories) {
+      resolveOne(category, new Set());
+    }
+    return resolved;
+  }
+
+  /**
+   * Share of the category's effective attributes a family contains, 0-100.
+   * A category without attributes is fully covered by any family.
+   */
+  static familyCoverage(
+    attributes: EffectiveCategoryAttribute[],
+    familyAttributeIds: number[],
+  ): number {
+    if (attributes.length === 0) return 100;
+    const familyIds = new Set(familyAttributeIds);
+    const matched = attributes.filter((attr) =>
+      familyIds.has(attr.attributeId),
+    ).length;
+    return Math.round((matched / attributes.length) * 100);
+  }
+}
@@ -0,0 +1,120 @@
+import { IntegrationType } from '../integration/base/integration-type.enum';
+
+/**
+ * Channels that support channel-scoped attribute values
+ */
+export const SCOPED_VALUE_CHANNELS = [
+  IntegrationType.WOOCOMMERCE,
+  IntegrationType.MYDEAL,
+  IntegrationType.AMAZON,
+] as const;
+
+export type ScopedValueChannel = (typeof SCOPED_VALUE_CHANNELS)[number];
+
+// Channels whose values are scoped to a single connection
+const CONNECTION_SCOPED_CHANNELS: ScopedValueChannel[] = [
+  IntegrationType.WOOCOMMERCE,
+  IntegrationType.MYDEAL,
+];
+
+// Stored connectionId of values for channels without connections (Amazon)
+export const NO_CONNECTION_ID = 0;
+
+/**
+ * Helper class for resolving channel-scoped attribute values.
+ * A product loaded with its `channelValues` (including the attribute) gets the
+ * value for the channel/connection instead of the global value.
+ *
+ * Example:
+ * - Global "Title" = "Office Chair", WooCommerce connection 2 "Title" = "Ergonomic Office Chair"
+ * - applyChannelValues(product, 'woocommerce', 2) -> "Title" = "Ergonomic Office Chair"
+ * - applyChannelValues(product, 'mydeal', 1) -> "Title" = "Office Chair"
+ */
+export class ChannelValueHelper {
+  /**
+   * Prisma include for the channel values of one channel
+   */
+  static include(channel: ScopedValueChannel) {
+    return {
+      where: { channel },
+      include: { attribute: true },
+    };
+  }
+
+  static isConnectionScoped(channel: string): boolean {
+    return CONNECTION_SCOPED_CHANNELS.includes(channel as ScopedValueChannel);
+  }
+
+  /**
+   * Stored connectionId for a channel: the connection for WooCommerce/MyDeal,
+   * NO_CONNECTION_ID for Amazon.
+   */
+  static toStoredConnectionId(
+    channel: string,
+    connectionId?: number | null,
+  ): number {
+    return this.isConnectionScoped(channel) && connectionId
+      ? connectionId
+      : NO_CONNECTION_ID;
+  }
+
+  /**
+   * Return a copy of the product whose attribute values are replaced by the
+   * values scoped to the channel. Channel values for attributes the product has
+   * no global value for are added. Variants loaded with their own channel
+   * values are resolved too.
+   */
+  static applyChannelValues<T>(
+    product: T,
+    channel: ScopedValueChannel,
+    connectionId?: number | null,
+  ): T {
+    const source = product as any;
+    if (!source) {
+      return product;
+    }
+
+    const storedConnectionId = this.toStoredConnectionId(channel, connectionId);
+    const scopedValues: any[] = (source.channelValues || []).filter(
+      (cv: any) =>
+        cv.channel === channel &&
+        cv.connectionId === storedConnectionId &&
+        cv.value !== null,
+    );
+
+    const resolved: any = { ...source };
+
+    if (scopedValues.length > 0 && Array.isArray(source.attributes)) {
+      const byAttributeId = new Map<number, any>(
+        scopedValues.map((cv) => [cv.attributeId, cv]),
+      );
+
+      resolved.attributes = source.attributes.map((pa: any) => {
+        const attributeId = pa.attribute?.id ?? pa.attributeId;
+        const scoped = byAttributeId.get(attributeId);
+        if (!scoped) return pa;
+        byAttributeId.delete(attributeId);
+        return { ...pa, value: scoped.value };
+      });
+
+      // Values that only exist for this channel
+      for (const scoped of byAttributeId.values()) {
+        resolved.attributes.push({
+          productId: source.id,
+          attributeId: scoped.attributeId,
+          familyAttributeId: null,
+          value: scoped.value,
+          attribute: scoped.attribute,
+        });
+      }
+    }
+
+    if (Array.isArray(source.variants)) {
+      resolved.variants = source.variants.map((variant: any) =>
+        this.applyChannelValues(variant, channel, connectionId),
+      );
+    }
+
+    return resolved as T;
+  }
+}
@@ -0,0 +1,234 @@
+/**
+ * How the value of a computed attribute is derived
+ */
+export enum ComputedAttributeKind {
+  TEMPLATE = 'template', // '{{Brand}} {{name}} - {{Color}}'
+  FORMULA = 'formula', // 'price * 1.1' or '{{Sale Price}} - 5'
+  CATEGORY_PATH = 'category_path', // Level ('1' root, '-1' leaf) or a separator for the full path
+}
+
+/**
+ * Everything a computed value can refer to
+ */
+export interface ComputedAttributeInput {
+  name: string;
+  sku: string;
+  values: Map<string, string | null>; // Attribute values by lower-case attribute name
+  categoryPath: string[]; // Category names, root first
+}
+
+type FormulaNode =
+  | { type: 'number'; value: number }
+  | { type: 'ref'; name: string }
+  | { type: 'negate'; operand: FormulaNode }
+  | { type: 'binary'; operator: string; left: FormulaNode; right: FormulaNode };
+
+const DEFAULT_PATH_SEPARATOR = ' > ';
+
+/**
+ * Helper class for evaluating computed attributes. References are attribute
+ * names, matched case-insensitively, or the product fields 'name' and 'sku',
+ * which take precedence. Formulas reference names without spaces directly and
+ * any name as {{Name}}. A formula with a missing or non-numeric input has no
+ * value.
+ *
+ * Example:
+ * - Template '{{Brand}} {{name}} - {{Color}}' -> 'Acme Tee - Red'
+ * - Formula 'price * 1.1' with price '10' -> '11'
+ * - Category path '-1' with path [Clothing, Shirts] -> 'Shirts'
+ */
+export class ComputedAttributeHelper {
+  /**
+   * Check an expression without evaluating it. Returns an error message, or
+   * null when the expression is valid.
+   */
+  static validateExpression(
+    kind: ComputedAttributeKind,
+    expression: string | null | undefined,
+  ): string | null {
+    if (kind === ComputedAttributeKind.CATEGORY_PATH) {
+      return expression?.trim() === '0'
+        ? 'Category path levels start at 1 (root) or -1 (leaf)'
+        : null;
+    }
+    if (!expression?.trim()) {
+      return `A ${kind} attribute needs an expression`;
+    }
+    if (kind === ComputedAttributeKind.FORMULA) {
+      try {
+        this.parseFormula(expression);
+      } catch (error) {
+        return `Invalid formula: ${(error as Error).message}`;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Compute the value of an attribute for one product
+   */
+  static evaluate(
+    kind: ComputedAttributeKind,
+    expression: string | null | undefined,
+    input: ComputedAttributeInput,
+  ): string | null {
+    switch (kind) {
+      case ComputedAttributeKind.TEMPLATE:
+        return this.renderTemplate(expression ?? '', input);
+      case ComputedAttributeKind.FORMULA:
+        return this.evaluateFormula(expression ?? '', input);
+      case ComputedAttributeKind.CATEGORY_PATH:
+        return this.categoryPathValue(expression, input.categoryPath);
+      default:
+        return null;
+    }
+  }
+
+  private static lookup(
+    input: ComputedAttributeInput,
+    name: string,
+  ): string | null {
+    const key = name.trim().toLowerCase();
+    if (key === 'name') return input.name;
+    if (key === 'sku') return input.sku;
+    return input.values.get(key) ?? null;
+  }
+
+  private static renderTemplate(
+    template: string,
+    input: ComputedAttributeInput,
+  ): string | null {
+    const rendered = template
+      .replace(
+        /\{\{([^}]+)\}\}/g,
+        (_, name: string) => this.lookup(input, name) ?? '',
+      )
+      .trim();
+    return rendered === '' ? null : rendered;
+  }
+
+  private static evaluateFormula(
+    formula: string,
+    input: ComputedAttributeInput,
+  ): string | null {
+    let tree: FormulaNode;
+    try {
+      tree = this.parseFormula(formula);
+    } catch {
+      return null;
+    }
+
+    const result = this.evaluateNode(tree, input);
+    if (result === null || !Number.isFinite(result)) {
+      return null;
+    }
+    // Drop floating point noise such as 11.000000000000002
+    return String(Number(result.toFixed(6)));
+  }
+
+  private static evaluateNode(
+    node: FormulaNode,
+    input: ComputedAttributeInput,
+  ): number | null {
+    switch (node.type) {
+      case 'number':
+        return node.value;
+      case 'ref': {
+        const value = this.lookup(input, node.name);
+        if (value === null || value.trim() === '') return null;
+        const parsed = Number(value.trim());
+        return Number.isNaN(parsed) ? null : parsed;
+      }
+      case 'negate': {
+        const operand = this.evaluateNode(node.operand, input);
+        return operand === null ? null : -operand;
+      }
+      case 'binary': {
+        const left = this.evaluateNode(node.left, input);
+        const right = this.evaluateNode(node.right, input);
+        if (left === null || right === null) return null;
+        if (node.operator === '+') return left + right;
+        if (node.operator === '-') return left - right;
+        if (node.operator === '*') return left * right;
+        return right === 0 ? null : left / right;
+      }
+    }
+  }
+
+  /**
+   * Parse a formula of numbers, references, + - * / and parentheses
+   */
+  private static parseFormula(formula: string): FormulaNode {
+    const tokens =
+      formula.match(
+        /\s*(\{\{[^}]+\}\}|\d+(?:\.\d+)?|\.\d+|[A-Za-z_][A-Za-z0-9_]*|[-+*/()]|\S)/g,
+      ) ?? [];
+    const trimmed = tokens.map((token) => token.trim());
+    let position = 0;
+
+    const expression = (): FormulaNode => {
+      let node = term();
+      while (trimmed[position] === '+' || trimmed[position] === '-') {
+        const operator = trimmed[position++];
+        node = { type: 'binary', operator, left: node, right: term() };
+      }
+      return node;
+    };
+    const term = (): FormulaNode => {
+      let node = factor();
+      while (trimmed[position] === '*' || trimmed[position] === '/') {
+        const operator = trimmed[position++];
+        node = { type: 'binary', operator, left: node, right: factor() };
+      }
+      return node;
+    };
+    const factor = (): FormulaNode => {
+      const token = trimmed[position++];
+      if (token === undefined) {
+        throw new Error('unexpected end of formula');
+      }
+      if (token === '-') return { type: 'negate', operand: factor() };
+      if (token === '+') return factor();
+      if (token === '(') {
+        const node = expression();
+        if (trimmed[position++] !== ')') {
+          throw new Error('missing closing parenthesis');
+        }
+        return node;
+      }
+      if (/^(\d|\.\d)/.test(token)) {
+        return { type: 'number', value: Number(token) };
+      }
+      if (token.startsWith('{{')) {
+        return { type: 'ref', name: token.slice(2, -2) };
+      }
+      if (/^[A-Za-z_]/.test(token)) {
+        return { type: 'ref', name: token };
+      }
+      throw new Error(`unexpected '${token}'`);
+    };
+
+    const tree = expression();
+    if (position < trimmed.length) {
+      throw new Error(`unexpected '${trimmed[position]}'`);
+    }
+    return tree;
+  }
+
+  private static categoryPathValue(
+    expression: string | null | undefined,
+    path: string[],
+  ): string | null {
+    if (path.length === 0) {
+      return null;
+    }
+
+    const setting = expression?.trim() ?? '';
+    if (/^-?\d+$/.test(setting)) {
+      const level = parseInt(setting, 10);
+      const index = level > 0 ? level - 1 : path.length + level;
+      return path[index] ?? null;
+    }
+    return path.join(expression || DEFAULT_PATH_SEPARATOR);
+  }
+}
@@ -0,0 +1,272 @@
+// utils/computedAttributeUtils.ts
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { Logger } from '@nestjs/common';
+import type { PrismaClient } from '@prisma/client';
+import {
+  ComputedAttributeHelper,
+  ComputedAttributeInput,
+  ComputedAttributeKind,
+} from './computed-attribute.helper';
+
+// The client the computed attribute extension was applied to; writes through it
+// do not re-trigger the extension hooks
+export type ComputedAttributeClient = Pick<
+  PrismaClient,
+  'product' | 'productAttribute' | 'category'
+>;
+
+const logger = new Logger('ComputedAttributes');
+
+// Recomputes requested while withRecomputeAfterCommit runs, by what they re-evaluate
+const pendingRecomputes = new AsyncLocalStorage<
+  Map<string, () => Promise<void>>
+>();
+
+const COMPUTED_ATTRIBUTE_SELECT = {
+  id: true,
+  name: true,
+  computedKind: true,
+  computedExpression: true,
+} as const;
+
+// Guards against cycles in corrupted category trees
+const MAX_CATEGORY_DEPTH = 20;
+
+async function loadCategoryPath(
+  prisma: ComputedAttributeClient,
+  categoryId: number | null,
+): Promise<string[]> {
+  const path: string[] = [];
+  let currentId = categoryId;
+  while (currentId !== null && path.length < MAX_CATEGORY_DEPTH) {
+    const category = await prisma.category.findUnique({
+      where: { id: currentId },
+      select: { name: true, parentCategoryId: true },
+    });
+    if (!category) break;
+    path.unshift(category.name);
+    currentId = category.parentCategoryId;
+  }
+  return path;
+}
+
+/**
+ * Re-evaluate the computed attributes of a product, from its own attributes and
+ * its family, and store the values that changed.
+ */
+export async function recomputeComputedAttributes(
+  prisma: ComputedAttributeClient,
+  productId: number,
+) {
+  const product = await prisma.product.findUnique({
+    where: { id: productId },
+    select: {
+      id: true,
+      name: true,
+      sku: true,
+      categoryId: true,
+      family: {
+        select: {
+          familyAttributes: {
+            select: {
+              id: true,
+              attribute: { select: COMPUTED_ATTRIBUTE_SELECT },
+            },
+          },
+        },
+      },
+      attributes: {
+        select: {
+          value: true,
+          familyAttributeId: true,
+          attribute: { select: COMPUTED_ATTRIBUTE_SELECT },
+        },
+      },
+    },
+  });
+  if (!product) {
+    return;
+  }
+
+  const computed = new Map<
+    number,
+    { attribute: any; familyAttributeId: number | null }
+  >();
+  for (const fa of product.family?.familyAttributes ?? []) {
+    if (fa.attribute.computedKind) {
+      computed.set(fa.attribute.id, {
+        attribute: fa.attribute,
+        familyAttributeId: fa.id,
+      });
+    }
+  }
+  for (const pa of product.attributes) {
+    if (pa.attribute.computedKind && !computed.has(pa.attribute.id)) {
+      computed.set(pa.attribute.id, {
+        attribute: pa.attribute,
+        familyAttributeId: pa.familyAttributeId,
+      });
+    }
+  }
+  if (computed.size === 0) {
+    return;
+  }
+
+  const storedValues = new Map<number, string | null>(
+    product.attributes.map((pa) => [pa.attribute.id, pa.value]),
+  );
+  const input: ComputedAttributeInput = {
+    name: product.name,
+    sku: product.sku,
+    values: new Map<string, string | null>(
+      product.attributes.map((pa) => [
+        pa.attribute.name.toLowerCase(),
+        pa.value,
+      ]),
+    ),
+    categoryPath: await loadCategoryPath(prisma, product.categoryId),
+  };
+
+  // In ID order, so a computed attribute can use one created before it
+  const ordered = Array.from(computed.values()).sort(
+    (a, b) => a.attribute.id - b.attribute.id,
+  );
+  let changed = 0;
+  for (const { attribute, familyAttributeId } of ordered) {
+    const value = ComputedAttributeHelper.evaluate(
+      attribute.computedKind as ComputedAttributeKind,
+      attribute.computedExpression,
+      input,
+    );
+    input.values.set(attribute.name.toLowerCase(), value);
+
+    if (
+      storedValues.has(attribute.id) &&
+      storedValues.get(attribute.id) === value
+    ) {
+      continue;
+    }
+    await prisma.productAttribute.upsert({
+      where: {
+        productId_attributeId: { productId, attributeId: attribute.id },
+      },
+      update: { value },
+      create: {
+        productId,
+        attributeId: attribute.id,
+        familyAttributeId,
+        value,
+      },
+    });
+    changed++;
+  }
+
+  if (changed > 0) {
+    logger.log(`Updated ${changed} computed values for product ${productId}`);
+  }
+}
+
+/**
+ * Re-evaluate every product that has the attribute, directly or through its family
+ */
+export async function recomputeComputedAttributesForAttribute(
+  prisma: ComputedAttributeClient,
+  attributeId: number,
+) {
+  const products = await prisma.product.findMany({
+    where: {
+      isDeleted: false,
+      OR: [
+        { attributes: { some: { attributeId } } },
+        { family: { familyAttributes: { some: { attributeId } } } },
+      ],
+    },
+    select: { id: true },
+  });
+  for (const product of products) {
+    await recomputeComputedAttributes(prisma, product.id);
+  }
+}
+
+/**
+ * Re-evaluate the products of a family
+ */
+export async function recomputeComputedAttributesForFamily(
+  prisma: ComputedAttributeClient,
+  familyId: number,
+) {
+  const products = await prisma.product.findMany({
+    where: { familyId, isDeleted: false },
+    select: { id: true },
+  });
+  for (const product of products) {
+    await recomputeComputedAttributes(prisma, product.id);
+  }
+}
+
+/**
+ * Re-evaluate the products in a category and its subcategories, whose paths
+ * include the category
+ */
+export async function recomputeComputedAttributesForCategory(
+  prisma: ComputedAttributeClient,
+  categoryId: number,
+) {
+  const categoryIds = [categoryId];
+  for (let i = 0; i < categoryIds.length && categoryIds.length < 1000; i++) {
+    const children = await prisma.category.findMany({
+      where: { parentCategoryId: categoryIds[i] },
+      select: { id: true },
+    });
+    categoryIds.push(...children.map((child) => child.id));
+  }
+
+  const products = await prisma.product.findMany({
+    where: { categoryId: { in: categoryIds }, isDeleted: false },
+    select: { id: true },
+  });
+  for (const product of products) {
+    await recomputeComputedAttributes(prisma, product.id);
+  }
+}
+
+/**
+ * Run a recompute now, or once the surrounding withRecomputeAfterCommit work
+ * has finished. The same key is only recomputed once.
+ */
+export async function scheduleRecompute(
+  key: string,
+  recompute: () => Promise<void>,
+): Promise<void> {
+  const pending = pendingRecomputes.getStore();
+  if (pending) {
+    pending.set(key, recompute);
+    return;
+  }
+  await recompute();
+}
+
+/**
+ * Run work that writes computed attribute inputs in an interactive transaction,
+ * and recompute the affected products after it committed. Recomputing from the
+ * extension hooks inside the transaction would read the values it has not
+ * committed yet. Nothing is recomputed when the work fails.
+ *
+ * Example:
+ * - await withRecomputeAfterCommit(() => this.prisma.$transaction(async (tx) => { ... }))
+ */
+export async function withRecomputeAfterCommit<T>(
+  work: () => Promise<T>,
+): Promise<T> {
+  if (pendingRecomputes.getStore()) {
+    return work();
+  }
+
+  const pending = new Map<string, () => Promise<void>>();
+  const result = await pendingRecomputes.run(pending, work);
+  for (const recompute of pending.values()) {
+    await recompute();
+  }
+  return result;
+}
@@ -0,0 +1,123 @@
+/**
+ * Kinds of stock movement recorded in the movement history
+ */
+export enum StockMovementType {
+  RECEIPT = 'receipt', // Goods received, on hand goes up
+  SALE = 'sale', // Goods shipped, on hand goes down
+  ADJUSTMENT = 'adjustment', // Signed correction, e.g. damaged goods
+  COUNT = 'count', // Stocktake, on hand is set to the counted quantity
+  TRANSFER_IN = 'transfer_in',
+  TRANSFER_OUT = 'transfer_out',
+  RESERVATION = 'reservation', // Held for an order, available goes down
+  RELEASE = 'release', // Reservation given back
+  CHANNEL_SYNC = 'channel_sync', // On hand reported by a channel, e.g. Amazon FBA
+}
+
+export interface StockLevel {
+  locationId: number;
+  onHand: number;
+  reserved: number;
+  location?: { isActive: boolean } | null;
+}
+
+export interface AllocationRule {
+  locationIds: number[]; // Empty = every active location
+  percentage: number;
+  bufferQuantity: number;
+}
+
+// Channels without a rule are offered all available stock
+export const DEFAULT_ALLOCATION_RULE: AllocationRule = {
+  locationIds: [],
+  percentage: 100,
+  bufferQuantity: 0,
+};
+
+/**
+ * Helper class for stock levels and channel allocation. A product is tracked
+ * once it has a level at any location; untracked products keep using their
+ * stock attributes on export.
+ *
+ * Example:
+ * - Levels: WH1 onHand 50 reserved 10, WH2 onHand 20
+ * - allocate(levels, { locationIds: [], percentage: 80, bufferQuantity: 0 }) -> 48
+ * - allocate(levels, { locationIds: [WH2], percentage: 100, bufferQuantity: 5 }) -> 15
+ */
+export class InventoryHelper {
+  /**
+   * Prisma include for the stock levels of a product with their location
+   */
+  static include() {
+    return {
+      include: {
+        location: { select: { id: true, name: true, isActive: true } },
+      },
+    };
+  }
+
+  static available(level: StockLevel): number {
+    return Math.max(0, level.onHand - level.reserved);
+  }
+
+  static isTracked(product: {
+    inventoryLevels?: StockLevel[] | null;
+  }): boolean {
+    return (
+      Array.isArray(product?.inventoryLevels) &&
+      product.inventoryLevels.length > 0
+    );
+  }
+
+  /**
+   * Quantity a channel is offered: the available stock of the rule's active
+   * locations, times the percentage rounded down, minus the buffer.
+   */
+  static allocate(
+    levels: StockLevel[] | null | undefined,
+    rule: AllocationRule | null | undefined,
+  ): number {
+    const { locationIds, percentage, bufferQuantity } =
+      rule ?? DEFAULT_ALLOCATION_RULE;
+
+    const available = (levels ?? [])
+      .filter((level) => level.location?.isActive !== false)
+      .filter(
+        (level) =>
+          locationIds.length === 0 || locationIds.includes(level.locationId),
+      )
+      .reduce((total, level) => total + this.available(level), 0);
+
+    return Math.max(
+      0,
+      Math.floor((available * percentage) / 100) - bufferQuantity,
+    );
+  }
+
+  /**
+   * Export helper: the allocated quantity of a tracked product, or null so
+   * callers fall back to stock attributes.
+   */
+  static channelQuantity(
+    product: { inventoryLevels?: StockLevel[] | null },
+    rule: AllocationRule | null | undefined,
+  ): number | null {
+    return this.isTracked(product)
+      ? this.allocate(product.inventoryLevels, rule)
+      : null;
+  }
+
+  static totals(levels: StockLevel[] | null | undefined): {
+    onHand: number;
+    reserved: number;
+    available: number;
+  } {
+    return (levels ?? []).reduce(
+      (totals, level) => ({
+        onHand: totals.onHand + level.onHand,
+        reserved: totals.reserved + level.reserved,
+        available: totals.available + this.available(level),
+      }),
+      { onHand: 0, reserved: 0, available: 0 },
+    );
+  }
+}
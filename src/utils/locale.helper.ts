@@ -0,0 +1,64 @@
+/**
+ * Helper class for BCP 47 locale tags.
+ *
+ * Examples:
+ * - "en_au" -> "en-AU"
+ * - "zh-hant-tw" -> "zh-Hant-TW"
+ * - Fallback chain of "zh-Hant-TW" -> ["zh-Hant-TW", "zh-Hant", "zh"]
+ */
+export class LocaleHelper {
+  // language[-script][-region][-variant...], e.g. "en", "en-AU", "zh-Hant-TW"
+  static readonly LOCALE_PATTERN =
+    /^[a-zA-Z]{2,3}(-[a-zA-Z]{4})?(-([a-zA-Z]{2}|[0-9]{3}))?(-[a-zA-Z0-9]{5,8})*$/;
+
+  /**
+   * Normalize a locale tag to its canonical casing.
+   * Underscores are accepted as separators.
+   * @returns The normalized tag, or null when the value is not a valid locale
+   */
+  static normalize(locale: string | null | undefined): string | null {
+    if (!locale || typeof locale !== 'string') {
+      return null;
+    }
+
+    const tag = locale.trim().replace(/_/g, '-');
+    if (!this.LOCALE_PATTERN.test(tag)) {
+      return null;
+    }
+
+    return tag
+      .split('-')
+      .map((part, index) => {
+        if (index === 0) return part.toLowerCase();
+        if (/^[a-zA-Z]{4}$/.test(part)) {
+          return part.charAt(0).toUpperCase() + part.slice(1).toLowerCase();
+        }
+        if (/^[a-zA-Z]{2}$/.test(part)) return part.toUpperCase();
+        return part.toLowerCase();
+      })
+      .join('-');
+  }
+
+  static isValid(locale: string | null | undefined): boolean {
+    return this.normalize(locale) !== null;
+  }
+
+  /**
+   * Build the lookup order for a locale, most specific first.
+   * Each step drops the last subtag, so "en-AU" falls back to "en".
+   * Returns an empty chain for invalid locales.
+   */
+  static getFallbackChain(locale: string | null | undefined): string[] {
+    const normalized = this.normalize(locale);
+    if (!normalized) {
+      return [];
+    }
+
+    const parts = normalized.split('-');
+    const chain: string[] = [];
+    for (let length = parts.length; length > 0; length--) {
+      chain.push(parts.slice(0, length).join('-'));
+    }
+    return chain;
+  }
+}
@@ -0,0 +1,155 @@
+/**
+ * Kinds of quantity a MEASUREMENT attribute can hold
+ */
+export enum UnitFamily {
+  WEIGHT = 'weight',
+  LENGTH = 'length',
+  VOLUME = 'volume',
+}
+
+export interface Measurement {
+  value: number;
+  unit: string; // Canonical unit, e.g. 'kg'
+}
+
+// Size of each unit in the base unit of its family (kg, m, l)
+const UNITS: Record<string, { family: UnitFamily; factor: number }> = {
+  mg: { family: UnitFamily.WEIGHT, factor: 0.000001 },
+  g: { family: UnitFamily.WEIGHT, factor: 0.001 },
+  kg: { family: UnitFamily.WEIGHT, factor: 1 },
+  t: { family: UnitFamily.WEIGHT, factor: 1000 },
+  oz: { family: UnitFamily.WEIGHT, factor: 0.028349523125 },
+  lbs: { family: UnitFamily.WEIGHT, factor: 0.45359237 },
+  mm: { family: UnitFamily.LENGTH, factor: 0.001 },
+  cm: { family: UnitFamily.LENGTH, factor: 0.01 },
+  m: { family: UnitFamily.LENGTH, factor: 1 },
+  km: { family: UnitFamily.LENGTH, factor: 1000 },
+  in: { family: UnitFamily.LENGTH, factor: 0.0254 },
+  ft: { family: UnitFamily.LENGTH, factor: 0.3048 },
+  yd: { family: UnitFamily.LENGTH, factor: 0.9144 },
+  ml: { family: UnitFamily.VOLUME, factor: 0.001 },
+  cl: { family: UnitFamily.VOLUME, factor: 0.01 },
+  l: { family: UnitFamily.VOLUME, factor: 1 },
+  m3: { family: UnitFamily.VOLUME, factor: 1000 },
+  floz: { family: UnitFamily.VOLUME, factor: 0.0295735295625 },
+  gal: { family: UnitFamily.VOLUME, factor: 3.785411784 },
+};
+
+// Other spellings accepted on input
+const UNIT_ALIASES: Record<string, string> = {
+  gram: 'g',
+  grams: 'g',
+  kgs: 'kg',
+  kilogram: 'kg',
+  kilograms: 'kg',
+  lb: 'lbs',
+  pound: 'lbs',
+  pounds: 'lbs',
+  ounce: 'oz',
+  ounces: 'oz',
+  inch: 'in',
+  inches: 'in',
+  '"': 'in',
+  foot: 'ft',
+  feet: 'ft',
+  metre: 'm',
+  meter: 'm',
+  metres: 'm',
+  meters: 'm',
+  'm³': 'm3',
+  litre: 'l',
+  liter: 'l',
+  litres: 'l',
+  liters: 'l',
+  'fl oz': 'floz',
+};
+
+const MEASUREMENT_PATTERN = /^(-?\d+(?:[.,]\d+)?|-?[.,]\d+)\s*([^\d\s].*)?$/;
+
+/**
+ * Helper class for MEASUREMENT attribute values. Values are stored as
+ * '<number> <unit>' in a canonical unit and converted to the unit a channel
+ * expects on export.
+ *
+ * Example:
+ * - parse('500g') -> { value: 500, unit: 'g' }
+ * - format({ value: 500, unit: 'g' }) -> '500 g'
+ * - convert({ value: 500, unit: 'g' }, 'kg') -> 0.5
+ */
+export class MeasurementHelper {
+  static normalizeUnit(unit: string | null | undefined): string | undefined {
+    if (!unit) return undefined;
+    const key = unit.trim().toLowerCase().replace(/\.$/, '');
+    const canonical = UNIT_ALIASES[key] ?? key;
+    return UNITS[canonical] ? canonical : undefined;
+  }
+
+  static familyOf(unit: string | null | undefined): UnitFamily | undefined {
+    const canonical = this.normalizeUnit(unit);
+    return canonical ? UNITS[canonical].family : undefined;
+  }
+
+  static unitsOf(family: UnitFamily): string[] {
+    return Object.keys(UNITS).filter((unit) => UNITS[unit].family === family);
+  }
+
+  /**
+   * Parse '500 g', '0.5kg', '12,5 cm' or { value, unit }. A bare number takes
+   * the default unit. Returns null when the value has no known unit.
+   */
+  static parse(raw: unknown, defaultUnit?: string | null): Measurement | null {
+    if (raw === null || raw === undefined) return null;
+
+    if (typeof raw === 'object') {
+      const { value, unit } = raw as { value?: unknown; unit?: unknown };
+      const number = Number(value);
+      const canonical = this.normalizeUnit(
+        typeof unit === 'string' ? unit : defaultUnit,
+      );
+      return canonical && !Number.isNaN(number)
+        ? { value: number, unit: canonical }
+        : null;
+    }
+
+    const match = MEASUREMENT_PATTERN.exec(
+      String(raw as string | number).trim(),
+    );
+    if (!match) return null;
+    const canonical = this.normalizeUnit(match[2] ?? defaultUnit);
+    if (!canonical) return null;
+    return { value: Number(match[1].replace(',', '.')), unit: canonical };
+  }
+
+  static format(measurement: Measurement): string {
+    return `${this.round(measurement.value)} ${measurement.unit}`;
+  }
+
+  /**
+   * Convert to another unit of the same family. Returns null across families.
+   */
+  static convert(measurement: Measurement, toUnit: string): number | null {
+    const from = UNITS[measurement.unit];
+    const target = this.normalizeUnit(toUnit);
+    if (!from || !target || UNITS[target].family !== from.family) {
+      return null;
+    }
+    return this.round((measurement.value * from.factor) / UNITS[target].factor);
+  }
+
+  /**
+   * Export helper: the value as a number in the channel unit. Values without a
+   * unit are passed through as numbers, as before measurements existed.
+   */
+  static toChannelValue(raw: unknown, channelUnit: string): number | null {
+    const measurement = this.parse(raw);
+    if (measurement) {
+      return this.convert(measurement, channelUnit);
+    }
+    const number = parseFloat(String(raw as string | number));
+    return Number.isNaN(number) ? null : number;
+  }
+
+  private static round(value: number): number {
+    return Number(value.toFixed(6));
+  }
+}
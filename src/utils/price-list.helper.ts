@@ -0,0 +1,122 @@
+// Price list IDs start at 1, so this matches no prices
+const NO_PRICE_LIST_ID = 0;
+
+/**
+ * Stored price row of a product in a price list
+ */
+export interface PriceRow {
+  minQuantity: number;
+  price: unknown; // Prisma Decimal
+  salePrice?: unknown;
+  saleStartsAt?: Date | null;
+  saleEndsAt?: Date | null;
+}
+
+export interface PriceTier {
+  minQuantity: number;
+  price: number; // Sale price while the sale of the tier is active
+}
+
+export interface ResolvedPrice {
+  price: number; // Regular price of the base tier
+  salePrice: number | null; // Scheduled or active sale that has not ended
+  saleStartsAt: Date | null;
+  saleEndsAt: Date | null;
+  onSale: boolean; // The sale is active at the resolution time
+  currentPrice: number; // Sale price while on sale, otherwise the regular price
+  tiers: PriceTier[]; // All tiers, lowest quantity first
+}
+
+/**
+ * Helper class for the prices of a product in a price list. Exporters load the
+ * prices of the price list assigned to the connection with include() and read
+ * them with resolve() instead of looking for price attributes by name.
+ *
+ * Example:
+ * - Rows: 1+ = 20.00 (sale 15.00 from 1 Dec to 24 Dec), 10+ = 18.00
+ * - resolve(rows, 5 Dec) -> { price: 20, salePrice: 15, onSale: true, currentPrice: 15 }
+ * - priceFor(rows, 12, 30 Dec) -> 18
+ */
+export class PriceListHelper {
+  /**
+   * Prisma include for the prices of a product in one price list. Without a
+   * price list no prices are loaded.
+   */
+  static include(priceListId: number | null | undefined) {
+    return {
+      where: { priceListId: priceListId ?? NO_PRICE_LIST_ID },
+      orderBy: { minQuantity: 'asc' as const },
+    };
+  }
+
+  static toNumber(value: unknown): number | null {
+    if (value === null || value === undefined) return null;
+    const number = Number(String(value as string | number));
+    return Number.isNaN(number) ? null : number;
+  }
+
+  static isSaleActive(row: PriceRow, at: Date = new Date()): boolean {
+    if (this.toNumber(row.salePrice) === null) return false;
+    if (row.saleStartsAt && row.saleStartsAt > at) return false;
+    return !row.saleEndsAt || row.saleEndsAt > at;
+  }
+
+  static hasSaleEnded(row: PriceRow, at: Date = new Date()): boolean {
+    return !!row.saleEndsAt && row.saleEndsAt <= at;
+  }
+
+  /**
+   * Pricing of a product from its rows in one price list. Returns null when the
+   * product has no price in the list, so callers can fall back to attributes.
+   */
+  static resolve(
+    rows: PriceRow[] | null | undefined,
+    at: Date = new Date(),
+  ): ResolvedPrice | null {
+    if (!rows || rows.length === 0) {
+      return null;
+    }
+
+    const sorted = [...rows].sort((a, b) => a.minQuantity - b.minQuantity);
+    const base = sorted[0];
+    const price = this.toNumber(base.price) ?? 0;
+    const hasSale =
+      this.toNumber(base.salePrice) !== null && !this.hasSaleEnded(base, at);
+    const onSale = hasSale && this.isSaleActive(base, at);
+
+    return {
+      price,
+      salePrice: hasSale ? this.toNumber(base.salePrice) : null,
+      saleStartsAt: hasSale ? (base.saleStartsAt ?? null) : null,
+      saleEndsAt: hasSale ? (base.saleEndsAt ?? null) : null,
+      onSale,
+      currentPrice: onSale ? (this.toNumber(base.salePrice) ?? price) : price,
+      tiers: sorted.map((row) => ({
+        minQuantity: row.minQuantity,
+        price: this.currentRowPrice(row, at),
+      })),
+    };
+  }
+
+  /**
+   * Unit price for a quantity: the tier with the highest minimum quantity the
+   * quantity reaches. Returns null when no tier applies.
+   */
+  static priceFor(
+    rows: PriceRow[] | null | undefined,
+    quantity: number,
+    at: Date = new Date(),
+  ): number | null {
+    const tier = [...(rows ?? [])]
+      .filter((row) => row.minQuantity <= quantity)
+      .sort((a, b) => b.minQuantity - a.minQuantity)[0];
+    return tier ? this.currentRowPrice(tier, at) : null;
+  }
+
+  private static currentRowPrice(row: PriceRow, at: Date): number {
+    const price = this.toNumber(row.price) ?? 0;
+    return this.isSaleActive(row, at)
+      ? (this.toNumber(row.salePrice) ?? price)
+      : price;
+  }
+}
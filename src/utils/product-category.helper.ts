@@ -0,0 +1,103 @@
+export interface ProductCategoryRow {
+  categoryId: number;
+  isPrimary: boolean;
+  category?: { id: number; name: string } | null;
+}
+
+export interface ChannelCategoryMappingRow {
+  categoryId: number;
+  externalCategoryId: number;
+}
+
+/**
+ * Helper class for the categories of a product and their mapping to the
+ * category IDs of a channel connection. A category without a mapping uses the
+ * mapping of its nearest mapped ancestor.
+ *
+ * Example:
+ * - Mappings: Apparel -> WooCommerce 12, Apparel > Shoes -> WooCommerce 40
+ * - resolve([Shoes, Apparel > Shirts, Toys], categories, mappings) -> Shoes: 40, Shirts: 12, Toys: null
+ */
+export class ProductCategoryHelper {
+  /**
+   * Prisma include for the categories of a product, primary first
+   */
+  static include() {
+    return {
+      include: { category: { select: { id: true, name: true } } },
+      orderBy: [{ isPrimary: 'desc' as const }, { createdAt: 'asc' as const }],
+    };
+  }
+
+  /**
+   * Categories of a product: the primary category (Product.categoryId) first,
+   * then the additional ones.
+   */
+  static productCategories(product: {
+    category?: { id: number; name: string } | null;
+    categories?: ProductCategoryRow[] | null;
+  }): { id: number; name: string }[] {
+    const result = product?.category
+      ? [{ id: product.category.id, name: product.category.name }]
+      : [];
+
+    const rows = [...(product?.categories ?? [])].sort(
+      (a, b) => Number(b.isPrimary) - Number(a.isPrimary),
+    );
+    for (const row of rows) {
+      if (row.category && !result.some((c) => c.id === row.categoryId)) {
+        result.push({ id: row.category.id, name: row.category.name });
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Channel category ID per category, or null when neither the category nor
+   * any of its ancestors is mapped.
+   */
+  static resolve(
+    categoryIds: number[],
+    categories: { id: number; parentCategoryId: number | null }[],
+    mappings: ChannelCategoryMappingRow[],
+  ): Map<number, number | null> {
+    const parents = new Map(
+      categories.map((category) => [category.id, category.parentCategoryId]),
+    );
+    const mapped = new Map(
+      mappings.map((mapping) => [
+        mapping.categoryId,
+        mapping.externalCategoryId,
+      ]),
+    );
+
+    const resolved = new Map<number, number | null>();
+    for (const categoryId of categoryIds) {
+      let current: number | null | undefined = categoryId;
+      const visited = new Set<number>();
+      while (current != null && !mapped.has(current) && !visited.has(current)) {
+        visited.add(current);
+        current = parents.get(current);
+      }
+      resolved.set(
+        categoryId,
+        current != null ? (mapped.get(current) ?? null) : null,
+      );
+    }
+    return resolved;
+  }
+
+  /**
+   * Distinct channel category IDs of a product's categories, primary first;
+   * unmapped categories are left out.
+   */
+  static externalIds(
+    categoryIds: number[],
+    resolved: Map<number, number | null>,
+  ): number[] {
+    const ids = categoryIds
+      .map((categoryId) => resolved.get(categoryId))
+      .filter((id): id is number => id != null);
+    return Array.from(new Set(ids));
+  }
+}
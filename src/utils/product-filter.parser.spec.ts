@@ -0,0 +1,112 @@
+import { ProductFilterParser } from './product-filter.parser';
+
+const condition = (
+  field: string,
+  operator: string,
+  values: string[],
+  position: number,
+  quoted = false,
+) => ({ kind: 'condition', field, quoted, operator, values, position });
+
+describe('ProductFilterParser', () => {
+  describe('parse', () => {
+    it('should parse a single comparison', () => {
+      expect(ProductFilterParser.parse('Weight > 2')).toEqual(
+        condition('Weight', '>', ['2'], 0),
+      );
+    });
+
+    it('should bind AND tighter than OR', () => {
+      expect(ProductFilterParser.parse('a = 1 OR b = 2 AND c = 3')).toEqual({
+        kind: 'or',
+        children: [
+          condition('a', '=', ['1'], 0),
+          {
+            kind: 'and',
+            children: [
+              condition('b', '=', ['2'], 9),
+              condition('c', '=', ['3'], 19),
+            ],
+          },
+        ],
+      });
+    });
+
+    it('should group with parentheses and negate with NOT', () => {
+      expect(
+        ProductFilterParser.parse('NOT (a IS EMPTY or b is not empty)'),
+      ).toEqual({
+        kind: 'not',
+        child: {
+          kind: 'or',
+          children: [
+            condition('a', 'IS EMPTY', [], 5),
+            condition('b', 'IS NOT EMPTY', [], 19),
+          ],
+        },
+      });
+    });
+
+    it('should parse value lists, CONTAINS and the <> alias', () => {
+      expect(
+        ProductFilterParser.parse(
+          'Size IN (S, "X L") AND Size NOT IN (M) AND Title CONTAINS sale AND sku <> A-1',
+        ),
+      ).toEqual({
+        kind: 'and',
+        children: [
+          condition('Size', 'IN', ['S', 'X L'], 0),
+          condition('Size', 'NOT IN', ['M'], 23),
+          condition('Title', 'CONTAINS', ['sale'], 43),
+          condition('sku', '!=', ['A-1'], 67),
+        ],
+      });
+    });
+
+    it('should mark quoted field names and unescape quoted values', () => {
+      expect(
+        ProductFilterParser.parse(`"Marketing Title" = 'Kid\\'s tee'`),
+      ).toEqual(condition('Marketing Title', '=', ["Kid's tee"], 0, true));
+    });
+
+    it('should report where the expression is invalid', () => {
+      expect(() => ProductFilterParser.parse('Weight >')).toThrow(
+        'Invalid filter at position 9: Expected a value',
+      );
+      expect(() => ProductFilterParser.parse('Weight 2')).toThrow(
+        'Invalid filter at position 8: Expected an operator after "Weight"',
+      );
+      expect(() => ProductFilterParser.parse('(a = 1')).toThrow(
+        'Invalid filter at position 7: Expected ")"',
+      );
+      expect(() => ProductFilterParser.parse('a IN (1 2)')).toThrow(
+        'Expected "," or ")" in value list',
+      );
+      expect(() => ProductFilterParser.parse('AND = 1')).toThrow(
+        'Expected a field name but found "AND"',
+      );
+      expect(() => ProductFilterParser.parse('a = "open')).toThrow(
+        'Invalid filter at position 5: Unterminated quoted value',
+      );
+    });
+
+    it('should reject empty and overly long expressions', () => {
+      expect(() => ProductFilterParser.parse('  ')).toThrow(
+        'Filter expression is empty',
+      );
+      expect(() => ProductFilterParser.parse('a = 1 OR '.repeat(300))).toThrow(
+        'Filter expression exceeds 2000 characters',
+      );
+    });
+  });
+
+  describe('collectConditions', () => {
+    it('should list the conditions in expression order', () => {
+      const conditions = ProductFilterParser.collectConditions(
+        ProductFilterParser.parse('a = 1 AND NOT (b = 2 OR c IS EMPTY)'),
+      );
+
+      expect(conditions.map((c) => c.field)).toEqual(['a', 'b', 'c']);
+    });
+  });
+});
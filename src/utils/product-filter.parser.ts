@@ -0,0 +1,331 @@
+import { BadRequestException } from '@nestjs/common';
+
+export type FilterOperator =
+  | '='
+  | '!='
+  | '>'
+  | '>='
+  | '<'
+  | '<='
+  | 'CONTAINS'
+  | 'IN'
+  | 'NOT IN'
+  | 'IS EMPTY'
+  | 'IS NOT EMPTY';
+
+export interface FilterCondition {
+  kind: 'condition';
+  field: string;
+  // Quoted field names always refer to attributes, never to built-in fields
+  quoted: boolean;
+  operator: FilterOperator;
+  values: string[];
+  position: number;
+}
+
+export interface FilterGroup {
+  kind: 'and' | 'or';
+  children: FilterNode[];
+}
+
+export interface FilterNegation {
+  kind: 'not';
+  child: FilterNode;
+}
+
+export type FilterNode = FilterCondition | FilterGroup | FilterNegation;
+
+type TokenType = 'word' | 'string' | 'operator' | '(' | ')' | ',' | 'end';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+}
+
+const MAX_FILTER_LENGTH = 2000;
+const COMPARISON_OPERATORS = ['=', '!=', '<>', '>', '>=', '<', '<='];
+const KEYWORDS = ['AND', 'OR', 'NOT', 'IN', 'IS', 'EMPTY', 'CONTAINS'];
+
+/**
+ * Parser for the product filter language.
+ *
+ * Examples:
+ * - Color = Red AND Weight > 2 AND updatedAt > 2026-01-01
+ * - family = "Office Chairs" AND (Weight IS EMPTY OR Weight <= 0)
+ * - Size IN (S, M, L) AND NOT "Marketing Title" CONTAINS sale
+ *
+ * AND binds tighter than OR; parentheses group. Keywords are case-insensitive.
+ */
+export class ProductFilterParser {
+  private tokens: Token[] = [];
+  private index = 0;
+
+  private constructor(private readonly input: string) {}
+
+  static parse(input: string): FilterNode {
+    if (!input || !input.trim()) {
+      throw new BadRequestException('Filter expression is empty');
+    }
+    if (input.length > MAX_FILTER_LENGTH) {
+      throw new BadRequestException(
+        `Filter expression exceeds ${MAX_FILTER_LENGTH} characters`,
+      );
+    }
+
+    const parser = new ProductFilterParser(input);
+    parser.tokens = parser.tokenize();
+    const node = parser.parseOr();
+    if (parser.peek().type !== 'end') {
+      parser.fail(`Unexpected "${parser.peek().value}"`, parser.peek());
+    }
+    return node;
+  }
+
+  /**
+   * All conditions of a filter, in the order they appear
+   */
+  static collectConditions(node: FilterNode): FilterCondition[] {
+    switch (node.kind) {
+      case 'condition':
+        return [node];
+      case 'not':
+        return this.collectConditions(node.child);
+      default:
+        return node.children.flatMap((child) => this.collectConditions(child));
+    }
+  }
+
+  private parseOr(): FilterNode {
+    const children = [this.parseAnd()];
+    while (this.acceptKeyword('OR')) {
+      children.push(this.parseAnd());
+    }
+    return children.length === 1 ? children[0] : { kind: 'or', children };
+  }
+
+  private parseAnd(): FilterNode {
+    const children = [this.parseUnary()];
+    while (this.acceptKeyword('AND')) {
+      children.push(this.parseUnary());
+    }
+    return children.length === 1 ? children[0] : { kind: 'and', children };
+  }
+
+  private parseUnary(): FilterNode {
+    if (this.acceptKeyword('NOT')) {
+      return { kind: 'not', child: this.parseUnary() };
+    }
+
+    if (this.peek().type === '(') {
+      this.next();
+      const node = this.parseOr();
+      this.expect(')', 'Expected ")"');
+      return node;
+    }
+
+    return this.parseCondition();
+  }
+
+  private parseCondition(): FilterCondition {
+    const fieldToken = this.next();
+    if (
+      (fieldToken.type !== 'word' && fieldToken.type !== 'string') ||
+      (fieldToken.type === 'word' && this.isKeyword(fieldToken))
+    ) {
+      this.fail(
+        fieldToken.type === 'end'
+          ? 'Expected a field name'
+          : `Expected a field name but found "${fieldToken.value}"`,
+        fieldToken,
+      );
+    }
+
+    const condition = {
+      kind: 'condition' as const,
+      field: fieldToken.value,
+      quoted: fieldToken.type === 'string',
+      position: fieldToken.position,
+    };
+
+    const operatorToken = this.peek();
+    if (operatorToken.type === 'operator') {
+      this.next();
+      const operator = (
+        operatorToken.value === '<>' ? '!=' : operatorToken.value
+      ) as FilterOperator;
+      return { ...condition, operator, values: [this.parseValue()] };
+    }
+
+    if (this.acceptKeyword('CONTAINS')) {
+      return {
+        ...condition,
+        operator: 'CONTAINS',
+        values: [this.parseValue()],
+      };
+    }
+
+    if (this.acceptKeyword('IN')) {
+      return { ...condition, operator: 'IN', values: this.parseValueList() };
+    }
+
+    if (this.acceptKeyword('NOT')) {
+      this.expectKeyword('IN');
+      return {
+        ...condition,
+        operator: 'NOT IN',
+        values: this.parseValueList(),
+      };
+    }
+
+    if (this.acceptKeyword('IS')) {
+      const negated = this.acceptKeyword('NOT');
+      this.expectKeyword('EMPTY');
+      return {
+        ...condition,
+        operator: negated ? 'IS NOT EMPTY' : 'IS EMPTY',
+        values: [],
+      };
+    }
+
+    this.fail(
+      `Expected an operator after "${fieldToken.value}"`,
+      operatorToken,
+    );
+  }
+
+  private parseValue(): string {
+    const token = this.next();
+    if (token.type !== 'word' && token.type !== 'string') {
+      this.fail('Expected a value', token);
+    }
+    return token.value;
+  }
+
+  private parseValueList(): string[] {
+    this.expect('(', 'Expected "(" to start a value list');
+    const values = [this.parseValue()];
+    while (this.peek().type === ',') {
+      this.next();
+      values.push(this.parseValue());
+    }
+    this.expect(')', 'Expected "," or ")" in value list');
+    return values;
+  }
+
+  private tokenize(): Token[] {
+    const tokens: Token[] = [];
+    const input = this.input;
+    let position = 0;
+
+    while (position < input.length) {
+      const char = input[position];
+
+      if (/\s/.test(char)) {
+        position++;
+        continue;
+      }
+
+      if (char === '(' || char === ')' || char === ',') {
+        tokens.push({ type: char, value: char, position });
+        position++;
+        continue;
+      }
+
+      if (char === '"' || char === "'") {
+        const start = position;
+        let value = '';
+        position++;
+        while (position < input.length && input[position] !== char) {
+          if (input[position] === '\\' && position + 1 < input.length) {
+            position++;
+          }
+          value += input[position];
+          position++;
+        }
+        if (position >= input.length) {
+          this.fail('Unterminated quoted value', {
+            type: 'string',
+            value,
+            position: start,
+          });
+        }
+        position++;
+        tokens.push({ type: 'string', value, position: start });
+        continue;
+      }
+
+      const twoChars = input.slice(position, position + 2);
+      if (COMPARISON_OPERATORS.includes(twoChars)) {
+        tokens.push({ type: 'operator', value: twoChars, position });
+        position += 2;
+        continue;
+      }
+      if (COMPARISON_OPERATORS.includes(char)) {
+        tokens.push({ type: 'operator', value: char, position });
+        position++;
+        continue;
+      }
+      if (char === '!') {
+        this.fail('Unexpected "!"', {
+          type: 'operator',
+          value: char,
+          position,
+        });
+      }
+
+      const match = /^[^\s()=!<>,"']+/.exec(input.slice(position));
+      const value = match ? match[0] : char;
+      tokens.push({ type: 'word', value, position });
+      position += value.length;
+    }
+
+    tokens.push({ type: 'end', value: '', position: input.length });
+    return tokens;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (token.type !== 'end') {
+      this.index++;
+    }
+    return token;
+  }
+
+  private isKeyword(token: Token, keyword?: string): boolean {
+    if (token.type !== 'word') return false;
+    const upper = token.value.toUpperCase();
+    return keyword ? upper === keyword : KEYWORDS.includes(upper);
+  }
+
+  private acceptKeyword(keyword: string): boolean {
+    if (this.isKeyword(this.peek(), keyword)) {
+      this.next();
+      return true;
+    }
+    return false;
+  }
+
+  private expectKeyword(keyword: string): void {
+    if (!this.acceptKeyword(keyword)) {
+      this.fail(`Expected ${keyword}`, this.peek());
+    }
+  }
+
+  private expect(type: TokenType, message: string): void {
+    if (this.peek().type !== type) {
+      this.fail(message, this.peek());
+    }
+    this.next();
+  }
+
+  private fail(message: string, token: Token): never {
+    throw new BadRequestException(
+      `Invalid filter at position ${token.position + 1}: ${message}`,
+    );
+  }
+}
@@ -1,8 +1,262 @@
 // utils/productStatusUtils.ts
 
 import { PrismaClient } from '@prisma/client';
+import type { CompletenessProfile } from '@prisma/client';
+import { AttributeValueValidator } from '../attribute/validators/attribute-value.validator';
+import { AttributeType } from '../types/attribute-type.enum';
+import { CategoryAttributeHelper } from './category-attribute.helper';
+import type { EffectiveCategoryAttribute } from './category-attribute.helper';
 
 const prisma = new PrismaClient();
+const attributeValidator = new AttributeValueValidator();
+
+export const DEFAULT_COMPLETENESS_CHANNEL = 'default';
+
+export interface CompletenessRules {
+  requireFamily: boolean;
+  requireMainImage: boolean;
+  minSubImages: number;
+  requireCategory: boolean;
+  requireValidValues: boolean;
+  requiredAttributes: { id: number; name: string }[];
+  // Legacy rule: a family without any required attributes never counts as complete
+  familyMustDefineRequiredAttributes?: boolean;
+}
+
+export interface CompletenessMissingItem {
+  type: 'family' | 'attribute' | 'invalidValue' | 'mainImage' | 'subImages' | 'category' | 'recommendedAttribute';
+  message: string;
+  attributeId?: number;
+  attributeName?: string;
+}
+
+export interface CompletenessResult {
+  complete: boolean;
+  score: number; // 0-100
+  missing: CompletenessMissingItem[];
+  // Recommended category attributes without a value; they do not affect the score
+  recommended: CompletenessMissingItem[];
+}
+
+// Minimal product shape needed to evaluate completeness
+export interface CompletenessProductInput {
+  familyId?: number | null;
+  categoryId?: number | null;
+  imageUrl?: string | null;
+  subImages?: string[] | null;
+  family?: {
+    familyAttributes?: {
+      isRequired: boolean;
+      attribute: { id: number; name: string; type?: string };
+    }[];
+  } | null;
+  attributes?: {
+    value: string | null;
+    attribute: { id: number; name: string; type?: string };
+  }[];
+  // Effective attributes of the product's category, inherited ones included
+  categoryAttributes?: EffectiveCategoryAttribute[];
+}
+
+// Rules used when the user has not configured a completeness profile
+export const DEFAULT_COMPLETENESS_RULES: CompletenessRules = {
+  requireFamily: true,
+  requireMainImage: false,
+  minSubImages: 0,
+  requireCategory: false,
+  requireValidValues: false,
+  requiredAttributes: [],
+  familyMustDefineRequiredAttributes: true,
+};
+
+/**
+ * Pick the most specific active profile for a family and channel.
+ * Family-specific profiles win over catch-all ones, and connection-specific
+ * profiles win over channel-wide ones.
+ */
+export function selectCompletenessProfile<T extends Pick<CompletenessProfile, 'familyId' | 'channel' | 'connectionId' | 'isActive'>>(
+  profiles: T[],
+  familyId: number | null | undefined,
+  channel: string = DEFAULT_COMPLETENESS_CHANNEL,
+  connectionId?: number | null,
+): T | undefined {
+  const candidates = profiles.filter(profile =>
+    profile.isActive &&
+    profile.channel === channel &&
+    (profile.familyId === null || profile.familyId === familyId) &&
+    (profile.connectionId === null || profile.connectionId === connectionId)
+  );
+
+  const specificity = (profile: T) => (profile.familyId !== null ? 2 : 0) + (profile.connectionId !== null ? 1 : 0);
+  return candidates.sort((a, b) => specificity(b) - specificity(a))[0];
+}
+
+/**
+ * Convert a stored profile into evaluation rules.
+ * attributeNames resolves the names of the profile's extra required attributes.
+ */
+export function profileToCompletenessRules(
+  profile: Pick<CompletenessProfile, 'requireFamily' | 'requireMainImage' | 'minSubImages' | 'requireCategory' | 'requireValidValues' | 'requiredAttributeIds'>,
+  attributeNames: Map<number, string>,
+): CompletenessRules {
+  return {
+    requireFamily: profile.requireFamily,
+    requireMainImage: profile.requireMainImage,
+    minSubImages: profile.minSubImages,
+    requireCategory: profile.requireCategory,
+    requireValidValues: profile.requireValidValues,
+    requiredAttributes: (profile.requiredAttributeIds || []).map(id => ({
+      id,
+      name: attributeNames.get(id) ?? `Attribute #${id}`,
+    })),
+  };
+}
+
+/**
+ * Evaluate a product against completeness rules.
+ * Every rule contributes one check; the score is the percentage of checks that pass.
+ */
+export function evaluateCompleteness(product: CompletenessProductInput, rules: CompletenessRules): CompletenessResult {
+  const missing: CompletenessMissingItem[] = [];
+  let totalChecks = 0;
+  let passedChecks = 0;
+
+  const check = (passed: boolean, item: CompletenessMissingItem) => {
+    totalChecks++;
+    if (passed) {
+      passedChecks++;
+    } else {
+      missing.push(item);
+    }
+  };
+
+  const hasFamily = !!product.familyId;
+  const familyRequired = hasFamily
+    ? (product.family?.familyAttributes || []).filter(fa => fa.isRequired).map(fa => fa.attribute)
+    : [];
+
+  if (rules.requireFamily) {
+    if (!hasFamily) {
+      check(false, { type: 'family', message: 'Product does not have a family assigned' });
+    } else if (rules.familyMustDefineRequiredAttributes && familyRequired.length === 0) {
+      check(false, { type: 'family', message: 'Family has no required attributes' });
+    } else {
+      check(true, { type: 'family', message: '' });
+    }
+  }
+
+  // Family-required attributes first, then profile extras and category-required ones not already covered
+  const requiredAttributes: { id: number; name: string; type?: string; categoryName?: string }[] = [...familyRequired];
+  const categoryRequired = (product.categoryAttributes || [])
+    .filter(attr => attr.isRequired)
+    .map(attr => ({ id: attr.attributeId, name: attr.attributeName, type: attr.attributeType, categoryName: attr.sourceCategoryName }));
+  for (const extra of [...rules.requiredAttributes, ...categoryRequired]) {
+    if (!requiredAttributes.some(attr => attr.id === extra.id)) {
+      requiredAttributes.push(extra);
+    }
+  }
+
+  for (const required of requiredAttributes) {
+    const productAttr = product.attributes?.find(pa => pa.attribute.id === required.id);
+    const value = productAttr?.value;
+    const attributeName = productAttr?.attribute.name ?? required.name;
+    const type = productAttr?.attribute.type ?? required.type;
+
+    if (value === null || value === undefined || value === '') {
+      check(false, {
+        type: 'attribute',
+        message: required.categoryName
+          ? `Required attribute "${attributeName}" of category "${required.categoryName}" has no value`
+          : `Required attribute "${attributeName}" has no value`,
+        attributeId: required.id,
+        attributeName,
+      });
+      continue;
+    }
+
+    if (rules.requireValidValues && type) {
+      const error = validateCompletenessValue(type, value);
+      if (error) {
+        check(false, {
+          type: 'invalidValue',
+          message: `Required attribute "${attributeName}" has an invalid value: ${error}`,
+          attributeId: required.id,
+          attributeName,
+        });
+        continue;
+      }
+    }
+
+    check(true, { type: 'attribute', message: '' });
+  }
+
+  if (rules.requireMainImage) {
+    check(!!product.imageUrl, { type: 'mainImage', message: 'Product has no main image' });
+  }
+
+  if (rules.minSubImages > 0) {
+    const subImageCount = product.subImages?.length ?? 0;
+    check(subImageCount >= rules.minSubImages, {
+      type: 'subImages',
+      message: `Product has ${subImageCount} sub image(s), at least ${rules.minSubImages} required`,
+    });
+  }
+
+  if (rules.requireCategory) {
+    check(!!product.categoryId, { type: 'category', message: 'Product does not have a category assigned' });
+  }
+
+  const recommended: CompletenessMissingItem[] = (product.categoryAttributes || [])
+    .filter(attr => !attr.isRequired && !requiredAttributes.some(required => required.id === attr.attributeId))
+    .filter(attr => {
+      const value = product.attributes?.find(pa => pa.attribute.id === attr.attributeId)?.value;
+      return value === null || value === undefined || value === '';
+    })
+    .map(attr => ({
+      type: 'recommendedAttribute',
+      message: `Recommended attribute "${attr.attributeName}" of category "${attr.sourceCategoryName}" has no value`,
+      attributeId: attr.attributeId,
+      attributeName: attr.attributeName,
+    }));
+
+  return {
+    complete: missing.length === 0 && totalChecks > 0,
+    score: totalChecks === 0 ? 100 : Math.round((passedChecks / totalChecks) * 100),
+    missing,
+    recommended,
+  };
+}
+
+// Effective attributes of one category, resolved from the user's flat category list
+async function getEffectiveCategoryAttributes(
+  userId: number,
+  categoryId: number,
+): Promise<EffectiveCategoryAttribute[]> {
+  const categories = await prisma.category.findMany({
+    where: { userId },
+    select: {
+      id: true,
+      name: true,
+      parentCategoryId: true,
+      familyId: true,
+      categoryAttributes: CategoryAttributeHelper.include(),
+    },
+  });
+  return CategoryAttributeHelper.resolveAll(categories).get(categoryId)?.attributes ?? [];
+}
+
+// Returns an error message when the value does not pass type validation, otherwise null
+function validateCompletenessValue(type: string, value: string): string | null {
+  try {
+    const validated = attributeValidator.validate(type as AttributeType, value);
+    if (validated === null || validated === '' || (Array.isArray(validated) && validated.every(item => item === ''))) {
+      return 'value is empty';
+    }
+    return null;
+  } catch (error) {
+    return error.message;
+  }
+}
 
 export async function updateProductStatus(productId: number) {
   console.log(`[updateProductStatus] Called for productId: ${productId}`);
@@ -12,10 +266,9 @@ export async function updateProductStatus(productId: number) {
       family: {
         include: {
           familyAttributes: {
-            where: { isRequired: true },
             include: {
               attribute: {
-                select: { id: true, name: true, defaultValue: true }
+                select: { id: true, name: true, type: true, defaultValue: true }
               }
             }
           }
@@ -25,7 +278,7 @@ export async function updateProductStatus(productId: number) {
         select: {
           value: true,
           attribute: {
-            select: { id: true, name: true, defaultValue: true }
+            select: { id: true, name: true, type: true, defaultValue: true }
           }
         }
       }
@@ -37,47 +290,30 @@ export async function updateProductStatus(productId: number) {
     return;
   }
 
-  const hasFamily = !!product.family;
-  const productAttributes = product.attributes || [];
-
-  let status = 'incomplete';
-  let reason = '';
-
-  // Product is complete ONLY if it has a family AND all required attributes have values
-  if (hasFamily) {
-    const requiredAttributes = product.family?.familyAttributes || [];
+  // Use the user's default-channel completeness profile when one applies
+  const profiles = await prisma.completenessProfile.findMany({
+    where: { userId: product.userId, channel: DEFAULT_COMPLETENESS_CHANNEL, isActive: true },
+  });
+  const profile = selectCompletenessProfile(profiles, product.familyId);
 
-    if (requiredAttributes.length > 0) {
-      // Check if all required family attributes have product-attribute values (not default values)
-      const requiredAttributeIds = requiredAttributes.map((fa: any) => fa.attribute.id);
-      const familyAttributeValues = productAttributes.filter((pa: any) =>
-        requiredAttributeIds.includes(pa.attribute.id)
-      );
+  let rules = DEFAULT_COMPLETENESS_RULES;
+  if (profile) {
+    const attributes = await prisma.attribute.findMany({
+      where: { id: { in: profile.requiredAttributeIds } },
+      select: { id: true, name: true },
+    });
+    rules = profileToCompletenessRules(profile, new Map(attributes.map(attr => [attr.id, attr.name])));
+  }
 
-      const allRequiredHaveProductValues = requiredAttributes.every((fa: any) => {
-        const productAttr = familyAttributeValues.find((pa: any) => pa.attribute.id === fa.attribute.id);
-        // Only consider product-attribute values, not default values
-        const hasProductValue = productAttr && productAttr.value !== null && productAttr.value !== '';
-        return hasProductValue;
-      });
+  const categoryAttributes = product.categoryId
+    ? await getEffectiveCategoryAttributes(product.userId, product.categoryId)
+    : [];
 
-      if (allRequiredHaveProductValues) {
-        status = 'complete';
-        reason = 'Family exists and all required attributes have product-attribute values.';
-      } else {
-        status = 'incomplete';
-        reason = 'Family exists but not all required attributes have product-attribute values.';
-      }
-    } else {
-      // Family exists but has no required attributes - still incomplete
-      status = 'incomplete';
-      reason = 'Family exists but has no required attributes.';
-    }
-  } else {
-    // No family - incomplete
-    status = 'incomplete';
-    reason = 'Product does not have a family assigned.';
-  }
+  const result = evaluateCompleteness({ ...product, categoryAttributes }, rules);
+  const status = result.complete ? 'complete' : 'incomplete';
+  const reason = result.complete
+    ? 'All completeness rules are satisfied.'
+    : result.missing.map(item => item.message).join('; ');
 
   await prisma.product.update({
     where: { id: productId },
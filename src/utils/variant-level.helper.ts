@@ -0,0 +1,85 @@
+/**
+ * Where an attribute value of a family is maintained
+ */
+export enum AttributeLevel {
+  PARENT = 'parent',
+  VARIANT = 'variant',
+}
+
+export interface VariantAxis {
+  attributeId: number;
+  name: string;
+}
+
+export interface VariantLevels {
+  axes: VariantAxis[]; // In family order
+  variantAttributeIds: Set<number>; // Axes and other variant-level attributes
+}
+
+/**
+ * Helper class for the variant axes and attribute levels a family declares.
+ * Exports use it instead of inferring variation attributes from names or from
+ * values that differ between parent and variants.
+ *
+ * Example:
+ * - Family "T-Shirts": Size and Color are axes, Price is variant level,
+ *   Material is parent level
+ * - resolve(product).axes -> [Size, Color]
+ * - isVariantLevel(levels, priceId) -> true, isVariantLevel(levels, materialId) -> false
+ */
+export class VariantLevelHelper {
+  /**
+   * Prisma include for the family of a product with its attribute levels
+   */
+  static include() {
+    return {
+      include: {
+        familyAttributes: {
+          select: {
+            attributeId: true,
+            isVariantAxis: true,
+            level: true,
+            inheritance: true,
+            attribute: { select: { id: true, name: true } },
+          },
+          orderBy: { id: 'asc' as const },
+        },
+      },
+    };
+  }
+
+  /**
+   * Levels declared by the family of a product loaded with include(). Returns
+   * null when the family declares no variant axes, so callers can keep their
+   * previous behaviour.
+   */
+  static resolve(product: any): VariantLevels | null {
+    const familyAttributes: any[] = product?.family?.familyAttributes || [];
+    const axes = familyAttributes
+      .filter((fa) => fa.isVariantAxis)
+      .map((fa) => ({ attributeId: fa.attributeId, name: fa.attribute.name }));
+
+    if (axes.length === 0) {
+      return null;
+    }
+
+    const variantAttributeIds = new Set<number>(
+      familyAttributes
+        .filter(
+          (fa) =>
+            fa.isVariantAxis || fa.level === (AttributeLevel.VARIANT as string),
+        )
+        .map((fa) => fa.attributeId as number),
+    );
+
+    return { axes, variantAttributeIds };
+  }
+
+  static isAxis(levels: VariantLevels, attributeId: number): boolean {
+    return levels.axes.some((axis) => axis.attributeId === attributeId);
+  }
+
+  static isVariantLevel(levels: VariantLevels, attributeId: number): boolean {
+    return levels.variantAttributeIds.has(attributeId);
+  }
+}